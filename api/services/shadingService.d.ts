@@ -0,0 +1,144 @@
+import type { SolarPosition, SolarPositionOptions } from './solarPositionService.js';
+
+export interface Irradiance {
+  ghi: number;
+  dni: number;
+  dhi: number;
+}
+
+export interface RoofSurface {
+  pitchDegrees: number;
+  azimuthDegrees: number;
+}
+
+export interface Shading {
+  beam?: number | ((sunPosition: SolarPosition) => number);
+  diffuse?: number;
+}
+
+export interface PlaneOfArrayIrradiance {
+  poa: number;
+  unshaded: number;
+  beam: number;
+  skyDiffuse: number;
+  groundReflected: number;
+  angleOfIncidence: number;
+  shadingFactor: number;
+}
+
+export interface IrradianceOptions {
+  elevation?: number;
+  linkeTurbidity?: number | number[];
+  albedo?: number;
+  shading?: Shading;
+}
+
+export interface HourlyProfileOptions {
+  year?: number;
+  timezone?: number;
+  elevation?: number;
+  linkeTurbidity?: number | number[];
+  albedo?: number;
+  segments?: (RoofSurface & { shading?: Shading })[];
+}
+
+export interface ShadingLoss {
+  poaKwhPerM2: number;
+  unshadedPoaKwhPerM2: number;
+  shadingLoss: number;
+}
+
+export interface HourlyProfile {
+  year: number;
+  timezone: number;
+  hours: number;
+  location: { lat: number; lon: number; elevation: number };
+  models: { solarPosition: string; clearSky: string; transposition: string };
+  sun: { zenith: number[]; azimuth: number[] };
+  clearSky: { ghi: number[]; dni: number[]; dhi: number[] };
+  annualGhiKwhPerM2: number;
+  segments: (RoofSurface & {
+    poa: number[];
+    shadingFactor: number[];
+    monthly: (ShadingLoss & { month: number })[];
+    annual: ShadingLoss;
+  })[];
+}
+
+export interface Obstruction {
+  id?: string;
+  kind: string;
+  heightFt: number;
+  points: { x: number; y: number }[];
+  closed?: boolean;
+}
+
+export interface HorizonProfile {
+  azimuthStep: number;
+  azimuths: number[];
+  elevations: number[];
+  sources: (string | number | null)[];
+}
+
+export interface SunPathMonth {
+  month: number;
+  points: { hour: number; azimuth: number; elevation: number }[];
+}
+
+export interface SolarAccessSegment extends RoofSurface {
+  id?: string;
+  horizon?: HorizonProfile;
+}
+
+export interface SolarAccessReport {
+  year: number;
+  timezone: number;
+  location: HourlyProfile['location'];
+  models: HourlyProfile['models'];
+  reference: RoofSurface;
+  sunPath: SunPathMonth[];
+  segments: (SolarAccessSegment & {
+    monthly: { month: number; solarAccess: number; tsrf: number }[];
+    annual: { poaKwhPerM2: number; solarAccess: number; tof: number; tsrf: number };
+  })[];
+}
+
+export const shadingService: {
+  getWeatherData(lat: number, lon: number): Promise<unknown>;
+  calculateSunPosition(lat: number | string, lon: number | string, time: Date | number | string, options?: SolarPositionOptions): SolarPosition;
+  calculateAirMass(zenith: number): number | null;
+  getLinkeTurbidity(linkeTurbidity: number | number[] | undefined, month: number): number;
+  calculateClearSkyIrradiance(sunPosition: SolarPosition, options?: { elevation?: number; linkeTurbidity?: number }): Irradiance;
+  calculateAngleOfIncidence(sunPosition: SolarPosition, surface: RoofSurface): number;
+  calculatePlaneOfArrayIrradiance(
+    sunPosition: SolarPosition,
+    irradiance: Irradiance,
+    surface: RoofSurface,
+    options?: { albedo?: number; shading?: Shading }
+  ): PlaneOfArrayIrradiance;
+  calculateShadowLength(sunPosition: SolarPosition, objectHeight?: number): number | null;
+  calculateIrradianceAt(
+    lat: number | string,
+    lon: number | string,
+    time: Date | number | string,
+    segment: RoofSurface,
+    options?: IrradianceOptions
+  ): { sunPosition: SolarPosition; clearSky: Irradiance; planeOfArray: PlaneOfArrayIrradiance };
+  calculateHourlyProfile(lat: number | string, lon: number | string, options?: HourlyProfileOptions): HourlyProfile;
+  OBSTRUCTION_KINDS: string[];
+  calculateHorizonProfile(
+    obstructions: Obstruction[],
+    options?: { observer?: { x: number; y: number }; observerHeightFt?: number; azimuthStep?: number }
+  ): HorizonProfile;
+  createHorizonShading(horizon: HorizonProfile): { beam: (sunPosition: SolarPosition) => number; diffuse: number };
+  calculateSunPath(
+    lat: number | string,
+    lon: number | string,
+    options?: { year?: number; timezone?: number; elevation?: number }
+  ): SunPathMonth[];
+  calculateSolarAccess(
+    lat: number | string,
+    lon: number | string,
+    options?: Omit<HourlyProfileOptions, 'segments'> & { segments?: SolarAccessSegment[] }
+  ): SolarAccessReport;
+};
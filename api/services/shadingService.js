@@ -1,3 +1,25 @@
+import { solarPositionService } from './solarPositionService.js';
+
+const DEG = Math.PI / 180;
+const SOLAR_CONSTANT = 1366.1; // W/m2
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+// Monthly Linke turbidity for a rural mid-latitude site, used when no local value is given
+const DEFAULT_LINKE_TURBIDITY = [2.8, 3.0, 3.3, 3.6, 3.8, 3.9, 4.0, 3.9, 3.6, 3.3, 3.0, 2.8];
+const DEFAULT_ALBEDO = 0.2;
+
+// Perez 1990 "allsites composite" coefficients per sky clearness bin: [f11, f12, f13, f21, f22, f23]
+const PEREZ_CLEARNESS_BINS = [1.065, 1.23, 1.5, 1.95, 2.8, 4.5, 6.2];
+const PEREZ_COEFFICIENTS = [
+  [-0.0083117, 0.5877285, -0.0620636, -0.0596012, 0.0721249, -0.0220216],
+  [0.1299457, 0.6825954, -0.1513752, -0.0189325, 0.065965, -0.0288748],
+  [0.3296958, 0.4868735, -0.2210958, 0.055414, -0.0639588, -0.0260542],
+  [0.5682053, 0.1874525, -0.295129, 0.1088631, -0.1519229, -0.0139754],
+  [0.873028, -0.3920403, -0.3616149, 0.2255647, -0.4620442, 0.0012448],
+  [1.1326077, -1.2367284, -0.4118494, 0.2877813, -0.8230357, 0.0558225],
+  [1.0601591, -1.5999137, -0.3589221, 0.2642124, -1.127234, 0.1310694],
+  [0.677747, -0.3272588, -0.2504286, 0.1561313, -1.3765031, 0.2506212],
+];
 
 const getWeatherData = async (lat, lon) => {
   const openweatherApiKey = process.env.OPENWEATHER_API_KEY;
@@ -23,56 +45,371 @@ const getWeatherData = async (lat, lon) => {
   }
 };
 
-const calculateShadingFactor = (hour, month, weatherData) => {
-  let baseShading = 0;
-  if (hour < 8 || hour > 18) {
-    baseShading = 0.8;
-  } else if (hour < 10 || hour > 16) {
-    baseShading = 0.3;
-  } else {
-    baseShading = 0.1;
+const round = (value, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const calculateSunPosition = (lat, lon, time, options = {}) =>
+  solarPositionService.calculate(new Date(time), Number(lat), Number(lon), options);
+
+// Kasten & Young (1989) relative optical air mass
+const calculateAirMass = (zenith) =>
+  zenith >= 90 ? null : 1 / (Math.cos(zenith * DEG) + 0.50572 * (96.07995 - zenith) ** -1.6364);
+
+const getLinkeTurbidity = (linkeTurbidity, month) =>
+  Array.isArray(linkeTurbidity) ? linkeTurbidity[month] : linkeTurbidity ?? DEFAULT_LINKE_TURBIDITY[month];
+
+/**
+ * Ineichen & Perez (2002) clear-sky global, direct normal and diffuse irradiance in W/m2
+ */
+const calculateClearSkyIrradiance = (sunPosition, { elevation = 0, linkeTurbidity = DEFAULT_LINKE_TURBIDITY[5] } = {}) => {
+  const airMass = calculateAirMass(sunPosition.zenith);
+  if (!airMass) {
+    return { ghi: 0, dni: 0, dhi: 0 };
   }
-  if (weatherData.clouds?.all) {
-    baseShading += (weatherData.clouds.all / 100) * 0.3;
+
+  const extraterrestrial = SOLAR_CONSTANT / sunPosition.earthSunDistance ** 2;
+  const cosZenith = Math.cos(sunPosition.zenith * DEG);
+  const absoluteAirMass = airMass * Math.exp(-0.0001184 * elevation);
+  const fh1 = Math.exp(-elevation / 8000);
+  const fh2 = Math.exp(-elevation / 1250);
+  const cg1 = 5.09e-5 * elevation + 0.868;
+  const cg2 = 3.92e-5 * elevation + 0.0387;
+
+  const ghi = Math.max(0,
+    cg1 * extraterrestrial * cosZenith
+      * Math.exp(-cg2 * absoluteAirMass * (fh1 + fh2 * (linkeTurbidity - 1)))
+      * Math.exp(0.01 * absoluteAirMass ** 1.8)
+  );
+
+  // Beam from the turbidity model, limited so it never exceeds the global value
+  const b = 0.664 + 0.163 / fh1;
+  const beamFromTurbidity = b * extraterrestrial * Math.exp(-0.09 * absoluteAirMass * (linkeTurbidity - 1));
+  const beamFromGlobal = ghi * (1 - (0.1 - 0.2 * Math.exp(-linkeTurbidity)) / (0.1 + 0.882 / fh1)) / cosZenith;
+  const dni = Math.max(0, Math.min(beamFromTurbidity, beamFromGlobal));
+
+  return { ghi, dni, dhi: Math.max(0, ghi - dni * cosZenith) };
+};
+
+/**
+ * Angle between the sun and the normal of a surface with the given pitch and azimuth (degrees, azimuth from north)
+ */
+const calculateAngleOfIncidence = (sunPosition, { pitchDegrees, azimuthDegrees }) => {
+  const zenith = sunPosition.zenith * DEG;
+  const tilt = pitchDegrees * DEG;
+  const cosAoi = Math.cos(zenith) * Math.cos(tilt)
+    + Math.sin(zenith) * Math.sin(tilt) * Math.cos((sunPosition.azimuth - azimuthDegrees) * DEG);
+  return Math.acos(Math.max(-1, Math.min(1, cosAoi))) / DEG;
+};
+
+/**
+ * Plane-of-array irradiance with the Perez 1990 sky diffuse model.
+ * shading.beam is the fraction of direct sun blocked; shading.diffuse the fraction of sky blocked.
+ */
+const calculatePlaneOfArrayIrradiance = (sunPosition, irradiance, surface, { albedo = DEFAULT_ALBEDO, shading = {} } = {}) => {
+  const { ghi, dni, dhi } = irradiance;
+  const tilt = surface.pitchDegrees * DEG;
+  const aoi = calculateAngleOfIncidence(sunPosition, surface);
+  const cosAoi = Math.max(0, Math.cos(aoi * DEG));
+  const zenith = Math.min(sunPosition.zenith, 90) * DEG;
+
+  let skyDiffuse = 0;
+  const airMass = calculateAirMass(sunPosition.zenith);
+  if (dhi > 0 && airMass) {
+    const extraterrestrial = SOLAR_CONSTANT / sunPosition.earthSunDistance ** 2;
+    const kappa = 1.041 * zenith ** 3;
+    const clearness = ((dhi + dni) / dhi + kappa) / (1 + kappa);
+    const brightness = (dhi * airMass) / extraterrestrial;
+    const bin = PEREZ_CLEARNESS_BINS.findIndex(limit => clearness < limit);
+    const [f11, f12, f13, f21, f22, f23] = PEREZ_COEFFICIENTS[bin === -1 ? PEREZ_COEFFICIENTS.length - 1 : bin];
+    const circumsolar = Math.max(0, f11 + f12 * brightness + f13 * zenith);
+    const horizon = f21 + f22 * brightness + f23 * zenith;
+
+    skyDiffuse = Math.max(0, dhi * (
+      (1 - circumsolar) * (1 + Math.cos(tilt)) / 2
+        + circumsolar * cosAoi / Math.max(Math.cos(85 * DEG), Math.cos(zenith))
+        + horizon * Math.sin(tilt)
+    ));
   }
-  return Math.min(baseShading, 1);
+
+  const beam = dni * cosAoi;
+  const groundReflected = ghi * albedo * (1 - Math.cos(tilt)) / 2;
+  const unshaded = beam + skyDiffuse + groundReflected;
+  const beamShading = typeof shading.beam === 'function' ? shading.beam(sunPosition) : shading.beam ?? 0;
+  const diffuseShading = shading.diffuse ?? 0;
+  const poa = beam * (1 - beamShading) + skyDiffuse * (1 - diffuseShading) + groundReflected;
+
+  return {
+    poa,
+    unshaded,
+    beam,
+    skyDiffuse,
+    groundReflected,
+    angleOfIncidence: aoi,
+    shadingFactor: unshaded > 0 ? 1 - poa / unshaded : 0,
+  };
 };
 
-const calculateSunPosition = (lat, lon, time) => {
+const calculateShadowLength = (sunPosition, objectHeight = 10) => {
+  if (sunPosition.elevation <= 0) return null;
+  return objectHeight / Math.tan(sunPosition.elevation * DEG);
+};
+
+/**
+ * Clear-sky irradiance and shading for one roof segment at one instant
+ */
+const calculateIrradianceAt = (lat, lon, time, segment, options = {}) => {
   const date = new Date(time);
-  const dayOfYear = Math.floor((date - new Date(date.getFullYear(), 0, 0)) / (1000 * 60 * 60 * 24));
-  const declination = 23.45 * Math.sin((360 / 365) * (dayOfYear - 80) * (Math.PI / 180));
-  const hour = date.getHours() + date.getMinutes() / 60;
-  const hourAngle = (hour - 12) * 15;
+  const sunPosition = calculateSunPosition(lat, lon, date, { elevation: options.elevation });
+  const clearSky = calculateClearSkyIrradiance(sunPosition, {
+    elevation: options.elevation,
+    linkeTurbidity: getLinkeTurbidity(options.linkeTurbidity, date.getUTCMonth()),
+  });
+  const planeOfArray = calculatePlaneOfArrayIrradiance(sunPosition, clearSky, segment, options);
+  return { sunPosition, clearSky, planeOfArray };
+};
+
+/**
+ * Clear-sky 8760-hour profile for each roof segment.
+ * Hours are local standard time, stamped at mid-hour; Feb 29 is skipped so every year has 8760 hours.
+ * segments: [{ pitchDegrees, azimuthDegrees, shading? }]
+ */
+const calculateHourlyProfile = (lat, lon, options = {}) => {
+  const latitude = Number(lat);
+  const longitude = Number(lon);
+  const {
+    year = new Date().getUTCFullYear(),
+    timezone = Math.round(longitude / 15), // Hours from UTC, estimated from longitude when not given
+    elevation = 0,
+    linkeTurbidity,
+    albedo = DEFAULT_ALBEDO,
+    segments = [{ pitchDegrees: 30, azimuthDegrees: latitude >= 0 ? 180 : 0 }],
+  } = options;
+
+  const sun = { zenith: [], azimuth: [] };
+  const clearSky = { ghi: [], dni: [], dhi: [] };
+  const results = segments.map(segment => ({
+    pitchDegrees: segment.pitchDegrees,
+    azimuthDegrees: segment.azimuthDegrees,
+    poa: [],
+    shadingFactor: [],
+    monthly: Array.from({ length: 12 }, (_, month) => ({ month: month + 1, poaKwhPerM2: 0, unshadedPoaKwhPerM2: 0 })),
+  }));
+  const ghiMonthly = new Array(12).fill(0);
+
+  DAYS_IN_MONTH.forEach((days, month) => {
+    const turbidity = getLinkeTurbidity(linkeTurbidity, month);
+    for (let day = 1; day <= days; day++) {
+      for (let hour = 0; hour < 24; hour++) {
+        const time = new Date(Date.UTC(year, month, day, hour, 30) - timezone * 3600000);
+        const sunPosition = solarPositionService.calculate(time, latitude, longitude, { elevation });
+        const irradiance = calculateClearSkyIrradiance(sunPosition, { elevation, linkeTurbidity: turbidity });
+
+        sun.zenith.push(round(sunPosition.zenith, 2));
+        sun.azimuth.push(round(sunPosition.azimuth, 2));
+        clearSky.ghi.push(round(irradiance.ghi));
+        clearSky.dni.push(round(irradiance.dni));
+        clearSky.dhi.push(round(irradiance.dhi));
+        ghiMonthly[month] += irradiance.ghi / 1000;
+
+        results.forEach((result, i) => {
+          const planeOfArray = calculatePlaneOfArrayIrradiance(sunPosition, irradiance, segments[i], {
+            albedo,
+            shading: segments[i].shading,
+          });
+          result.poa.push(round(planeOfArray.poa));
+          result.shadingFactor.push(round(planeOfArray.shadingFactor, 3));
+          result.monthly[month].poaKwhPerM2 += planeOfArray.poa / 1000;
+          result.monthly[month].unshadedPoaKwhPerM2 += planeOfArray.unshaded / 1000;
+        });
+      }
+    }
+  });
+
   return {
-    azimuth: hourAngle,
-    elevation: 90 - Math.abs(lat - declination),
-    declination,
+    year,
+    timezone,
+    hours: sun.zenith.length,
+    location: { lat: latitude, lon: longitude, elevation },
+    models: {
+      solarPosition: 'NREL SPA',
+      clearSky: 'Ineichen-Perez',
+      transposition: 'Perez 1990',
+    },
+    sun,
+    clearSky,
+    annualGhiKwhPerM2: round(ghiMonthly.reduce((sum, value) => sum + value, 0)),
+    segments: results.map(({ monthly, ...result }) => {
+      const poaKwhPerM2 = monthly.reduce((sum, m) => sum + m.poaKwhPerM2, 0);
+      const unshadedPoaKwhPerM2 = monthly.reduce((sum, m) => sum + m.unshadedPoaKwhPerM2, 0);
+      return {
+        ...result,
+        monthly: monthly.map(m => ({
+          month: m.month,
+          poaKwhPerM2: round(m.poaKwhPerM2),
+          unshadedPoaKwhPerM2: round(m.unshadedPoaKwhPerM2),
+          shadingLoss: m.unshadedPoaKwhPerM2 > 0 ? round(1 - m.poaKwhPerM2 / m.unshadedPoaKwhPerM2, 3) : 0,
+        })),
+        annual: {
+          poaKwhPerM2: round(poaKwhPerM2),
+          unshadedPoaKwhPerM2: round(unshadedPoaKwhPerM2),
+          shadingLoss: unshadedPoaKwhPerM2 > 0 ? round(1 - poaKwhPerM2 / unshadedPoaKwhPerM2, 3) : 0,
+        },
+      };
+    }),
   };
 };
 
-const calculateShadowLength = (weatherData, hour) => {
-  const sunAngle = Math.max(0, 90 - Math.abs(hour - 12) * 7.5);
-  const baseShadowLength = 10 / Math.tan((sunAngle * Math.PI) / 180);
-  let weatherMultiplier = 1;
-  if (weatherData.clouds?.all > 50) {
-    weatherMultiplier = 0.8;
-  }
-  return Math.max(0, baseShadowLength * weatherMultiplier);
+const OBSTRUCTION_KINDS = ['tree', 'chimney', 'building'];
+const DEFAULT_AZIMUTH_STEP = 5;
+const HORIZON_SAMPLE_SPACING_FT = 0.5;
+const MAX_SAMPLES_PER_EDGE = 4000;
+
+const normalizeAzimuth = (azimuth) => ((azimuth % 360) + 360) % 360;
+
+/**
+ * Horizon profile seen from a point on the roof: the highest obstruction elevation angle in each azimuth bin.
+ * Coordinates are feet east (x) and north (y) of any common origin; heights are feet above grade.
+ * obstructions: [{ id?, kind, heightFt, points: [{ x, y }], closed? }]; closed defaults to true for three or more points
+ */
+const calculateHorizonProfile = (obstructions, { observer = { x: 0, y: 0 }, observerHeightFt = 0, azimuthStep = DEFAULT_AZIMUTH_STEP } = {}) => {
+  const bins = Math.round(360 / azimuthStep);
+  const elevations = new Array(bins).fill(0);
+  const sources = new Array(bins).fill(null);
+
+  obstructions.forEach((obstruction, index) => {
+    const rise = obstruction.heightFt - observerHeightFt;
+    if (rise <= 0 || obstruction.points.length === 0) return;
+
+    const points = obstruction.points;
+    const closed = obstruction.closed ?? points.length > 2;
+    const edges = points.length === 1
+      ? [[points[0], points[0]]]
+      : points.slice(0, closed ? points.length : points.length - 1).map((point, i) => [point, points[(i + 1) % points.length]]);
+
+    edges.forEach(([start, end]) => {
+      const length = Math.hypot(end.x - start.x, end.y - start.y);
+      const samples = Math.min(MAX_SAMPLES_PER_EDGE, Math.max(1, Math.ceil(length / HORIZON_SAMPLE_SPACING_FT)));
+      for (let s = 0; s <= samples; s++) {
+        const x = start.x + ((end.x - start.x) * s) / samples - observer.x;
+        const y = start.y + ((end.y - start.y) * s) / samples - observer.y;
+        const distance = Math.hypot(x, y);
+        // A sample under the observer says nothing about direction
+        if (distance < HORIZON_SAMPLE_SPACING_FT) continue;
+
+        const bin = Math.floor(normalizeAzimuth(Math.atan2(x, y) / DEG) / azimuthStep) % bins;
+        const elevation = Math.atan2(rise, distance) / DEG;
+        if (elevation > elevations[bin]) {
+          elevations[bin] = elevation;
+          sources[bin] = obstruction.id ?? index;
+        }
+      }
+    });
+  });
+
+  return {
+    azimuthStep,
+    azimuths: elevations.map((_, i) => (i + 0.5) * azimuthStep),
+    elevations: elevations.map(elevation => round(elevation, 2)),
+    sources,
+  };
 };
 
-const calculateSolarIrradiance = (month, hour, shadingFactor) => {
-  const baseIrradiance = 1000;
-  const seasonalFactor = 1 + 0.3 * Math.sin(((month - 6) * Math.PI) / 6);
-  const timeFactor = Math.max(0, Math.sin(((hour - 6) * Math.PI) / 12));
-  const shadingAdjustment = 1 - shadingFactor;
-  return baseIrradiance * seasonalFactor * timeFactor * shadingAdjustment;
+const getHorizonElevation = (horizon, azimuth) =>
+  horizon.elevations[Math.floor(normalizeAzimuth(azimuth) / horizon.azimuthStep) % horizon.elevations.length];
+
+/**
+ * Shading for calculatePlaneOfArrayIrradiance from a horizon profile: beam is blocked while the sun is below
+ * the horizon line, diffuse by the share of an isotropic sky hidden behind it.
+ */
+const createHorizonShading = (horizon) => ({
+  beam: (sunPosition) => (sunPosition.elevation < getHorizonElevation(horizon, sunPosition.azimuth) ? 1 : 0),
+  diffuse: horizon.elevations.reduce((sum, elevation) => sum + Math.sin(elevation * DEG) ** 2, 0) / horizon.elevations.length,
+});
+
+/**
+ * Sun path for the 21st of each month at half-hour steps, local standard time, daylight only
+ */
+const calculateSunPath = (lat, lon, { year = new Date().getUTCFullYear(), timezone = Math.round(Number(lon) / 15), elevation = 0 } = {}) =>
+  DAYS_IN_MONTH.map((_, month) => {
+    const points = [];
+    for (let step = 0; step < 48; step++) {
+      const hour = step / 2;
+      const time = Date.UTC(year, month, 21, 0, step * 30) - timezone * 3600000;
+      const sunPosition = calculateSunPosition(lat, lon, time, { elevation });
+      if (sunPosition.elevation > 0) {
+        points.push({ hour, azimuth: round(sunPosition.azimuth, 2), elevation: round(sunPosition.elevation, 2) });
+      }
+    }
+    return { month: month + 1, points };
+  });
+
+/**
+ * Monthly solar access and TSRF for roof segments behind a horizon.
+ * Solar access is shaded over unshaded insolation on the segment; TOF compares the unshaded segment
+ * with an equator-facing plane tilted at latitude; TSRF is solar access times TOF.
+ * segments: [{ id?, pitchDegrees, azimuthDegrees, horizon }]
+ */
+const calculateSolarAccess = (lat, lon, options = {}) => {
+  const latitude = Number(lat);
+  const { segments = [], ...profileOptions } = options;
+  const reference = {
+    pitchDegrees: Math.min(Math.abs(latitude), 60),
+    azimuthDegrees: latitude >= 0 ? 180 : 0,
+  };
+
+  const profile = calculateHourlyProfile(latitude, lon, {
+    ...profileOptions,
+    segments: [
+      ...segments.map(segment => ({ ...segment, shading: segment.horizon ? createHorizonShading(segment.horizon) : undefined })),
+      reference,
+    ],
+  });
+  const referenceResult = profile.segments[profile.segments.length - 1];
+  const percent = (value, total) => (total > 0 ? round((value / total) * 100) : 0);
+
+  return {
+    year: profile.year,
+    timezone: profile.timezone,
+    location: profile.location,
+    models: profile.models,
+    reference,
+    sunPath: calculateSunPath(latitude, lon, { year: profile.year, timezone: profile.timezone, elevation: profile.location.elevation }),
+    segments: segments.map((segment, i) => {
+      const { monthly, annual } = profile.segments[i];
+      return {
+        id: segment.id,
+        pitchDegrees: segment.pitchDegrees,
+        azimuthDegrees: segment.azimuthDegrees,
+        horizon: segment.horizon,
+        monthly: monthly.map((m, month) => ({
+          month: m.month,
+          solarAccess: percent(m.poaKwhPerM2, m.unshadedPoaKwhPerM2),
+          tsrf: percent(m.poaKwhPerM2, referenceResult.monthly[month].unshadedPoaKwhPerM2),
+        })),
+        annual: {
+          poaKwhPerM2: annual.poaKwhPerM2,
+          solarAccess: percent(annual.poaKwhPerM2, annual.unshadedPoaKwhPerM2),
+          tof: percent(annual.unshadedPoaKwhPerM2, referenceResult.annual.unshadedPoaKwhPerM2),
+          tsrf: percent(annual.poaKwhPerM2, referenceResult.annual.unshadedPoaKwhPerM2),
+        },
+      };
+    }),
+  };
 };
 
 export const shadingService = {
   getWeatherData,
-  calculateShadingFactor,
   calculateSunPosition,
+  calculateAirMass,
+  getLinkeTurbidity,
+  calculateClearSkyIrradiance,
+  calculateAngleOfIncidence,
+  calculatePlaneOfArrayIrradiance,
   calculateShadowLength,
-  calculateSolarIrradiance,
+  calculateIrradianceAt,
+  calculateHourlyProfile,
+  OBSTRUCTION_KINDS,
+  calculateHorizonProfile,
+  createHorizonShading,
+  calculateSunPath,
+  calculateSolarAccess,
 };
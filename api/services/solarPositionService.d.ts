@@ -0,0 +1,23 @@
+export interface SolarPositionOptions {
+  elevation?: number; // meters
+  pressure?: number; // millibars
+  temperature?: number; // Celsius
+  deltaT?: number; // seconds
+}
+
+export interface SolarPosition {
+  zenith: number;
+  azimuth: number;
+  elevation: number;
+  declination: number;
+  hourAngle: number;
+  rightAscension: number;
+  earthSunDistance: number; // AU
+  julianDay: number;
+}
+
+export const solarPositionService: {
+  calculate(date: Date, latitude: number, longitude: number, options?: SolarPositionOptions): SolarPosition;
+  julianDay(date: Date): number;
+  estimateDeltaT(year: number): number;
+};
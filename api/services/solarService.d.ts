@@ -0,0 +1,73 @@
+import type { HorizonProfile } from './shadingService.js';
+import type { TypicalYear } from './tmyService.js';
+
+export type ModuleType = 'standard' | 'premium' | 'thinFilm';
+export type Mounting = 'openRack' | 'roof';
+
+export interface SystemLosses {
+  soiling: number;
+  shading: number;
+  snow: number;
+  mismatch: number;
+  wiring: number;
+  connections: number;
+  lightInducedDegradation: number;
+  nameplateRating: number;
+  availability: number;
+}
+
+export interface ProductionArray {
+  id?: string;
+  dcKw: number;
+  pitchDegrees: number;
+  azimuthDegrees: number;
+  moduleType?: ModuleType;
+  mounting?: Mounting;
+  horizon?: HorizonProfile;
+}
+
+export interface ProductionInverter {
+  id?: string;
+  acKw: number;
+  efficiency?: number; // fraction
+  quantity?: number;
+}
+
+export interface ProductionOptions {
+  arrays?: ProductionArray[];
+  inverters?: ProductionInverter[];
+  losses?: Partial<SystemLosses>; // percent
+  degradationRate?: number; // percent per year
+  years?: number;
+  albedo?: number;
+  year?: number;
+  timezone?: number;
+  weather?: TypicalYear;
+}
+
+export interface ProductionEstimate {
+  location: { lat: number; lon: number };
+  weather: Pick<TypicalYear, 'source' | 'station' | 'year' | 'timezone' | 'warnings'>;
+  models: Record<string, string>;
+  system: { dcKw: number; acKw: number; dcAcRatio: number; inverterEfficiency: number };
+  losses: SystemLosses & { total: number };
+  arrays: { id?: string; dcKw: number; pitchDegrees: number; azimuthDegrees: number; poaKwhPerM2: number; dcKwh: number }[];
+  monthly: { month: number; dcKwh: number; acKwh: number; clippedKwh: number }[];
+  annual: { dcKwh: number; acKwh: number; clippedKwh: number; specificYield: number; capacityFactor: number };
+  degradation: {
+    ratePercent: number;
+    years: number;
+    schedule: { year: number; acKwh: number }[];
+    lifetimeAcKwh: number;
+  };
+}
+
+export const solarService: {
+  DEFAULT_LOSSES: SystemLosses;
+  getGoogleSolarData(lat: number, lon: number): Promise<unknown>;
+  generateFallbackSolarData(lat: number, lon: number, radiusMeters?: number): Record<string, unknown> & { production: ProductionEstimate };
+  calculateIncidenceAngleModifier(angleDegrees: number): number;
+  calculateCellTemperature(poa: number, ambient: number, windSpeed: number, mounting?: Mounting): number;
+  calculateInverterOutput(dcPower: number, acRating: number, nominalEfficiency?: number): { ac: number; clipped: number };
+  simulateProduction(lat: number | string, lon: number | string, options?: ProductionOptions): ProductionEstimate;
+};
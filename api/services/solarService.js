@@ -1,6 +1,45 @@
 
 import apiKeyManager from '../utils/apiKeyManager.js';
 import ErrorHandler from '../utils/errorHandler.js';
+import { shadingService } from './shadingService.js';
+import { tmyService } from './tmyService.js';
+
+const DEG = Math.PI / 180;
+
+// PVWatts v5 default system losses in percent
+const DEFAULT_LOSSES = {
+  soiling: 2,
+  shading: 3,
+  snow: 0,
+  mismatch: 2,
+  wiring: 2,
+  connections: 0.5,
+  lightInducedDegradation: 1.5,
+  nameplateRating: 1,
+  availability: 3,
+};
+
+// Power temperature coefficients (1/C) by module type, as in PVWatts
+const TEMPERATURE_COEFFICIENTS = {
+  standard: -0.0037,
+  premium: -0.0035,
+  thinFilm: -0.002,
+};
+
+// Sandia module temperature model coefficients
+const MOUNTING_TEMPERATURE = {
+  openRack: { a: -3.56, b: -0.075, deltaT: 3 },
+  roof: { a: -2.98, b: -0.0471, deltaT: 1 },
+};
+
+const DEFAULT_DC_AC_RATIO = 1.2;
+const DEFAULT_INVERTER_EFFICIENCY = 0.96;
+const REFERENCE_INVERTER_EFFICIENCY = 0.9637;
+const DEFAULT_DEGRADATION_RATE = 0.5; // percent per year
+const DEFAULT_LIFETIME_YEARS = 25;
+const DEFAULT_MODULE_WATTS = 350;
+
+const round = (value, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
 
 const getGoogleSolarData = async (lat, lon) => {
   try {
@@ -28,18 +67,202 @@ const getGoogleSolarData = async (lat, lon) => {
   }
 };
 
+// Air-glass transmittance with Fresnel reflection and absorption (glass n = 1.526, K = 4/m, L = 2 mm)
+const transmittance = (angleDegrees) => {
+  const theta = Math.max(angleDegrees, 1e-3) * DEG;
+  const refracted = Math.asin(Math.sin(theta) / 1.526);
+  const reflected = 0.5 * (
+    Math.sin(refracted - theta) ** 2 / Math.sin(refracted + theta) ** 2
+      + Math.tan(refracted - theta) ** 2 / Math.tan(refracted + theta) ** 2
+  );
+  return Math.exp(-0.008 / Math.cos(refracted)) * (1 - reflected);
+};
+
+const NORMAL_TRANSMITTANCE = transmittance(0);
+
+const calculateIncidenceAngleModifier = (angleDegrees) =>
+  angleDegrees >= 90 ? 0 : Math.max(0, transmittance(angleDegrees) / NORMAL_TRANSMITTANCE);
+
+const calculateCellTemperature = (poa, ambient, windSpeed, mounting = 'roof') => {
+  const { a, b, deltaT } = MOUNTING_TEMPERATURE[mounting] ?? MOUNTING_TEMPERATURE.roof;
+  const moduleTemperature = poa * Math.exp(a + b * windSpeed) + ambient;
+  return moduleTemperature + (poa / 1000) * deltaT;
+};
+
+const calculateTotalLoss = (losses) =>
+  1 - Object.values(losses).reduce((remaining, loss) => remaining * (1 - loss / 100), 1);
+
+/**
+ * PVWatts inverter part-load curve; returns AC output and the power lost to clipping at the AC rating
+ */
+const calculateInverterOutput = (dcPower, acRating, nominalEfficiency = DEFAULT_INVERTER_EFFICIENCY) => {
+  if (dcPower <= 0 || acRating <= 0) return { ac: 0, clipped: 0 };
+  const load = dcPower / (acRating / nominalEfficiency);
+  const efficiency = (nominalEfficiency / REFERENCE_INVERTER_EFFICIENCY) * (-0.0162 * load - 0.0059 / load + 0.9858);
+  const ac = Math.max(0, efficiency * dcPower);
+  return { ac: Math.min(ac, acRating), clipped: Math.max(0, ac - acRating) };
+};
+
+const buildDegradationSchedule = (firstYearKwh, ratePercent, years) =>
+  Array.from({ length: years }, (_, i) => ({
+    year: i + 1,
+    acKwh: Math.round(firstYearKwh * (1 - ratePercent / 100) ** i),
+  }));
+
+/**
+ * PVWatts-style hourly production over a typical year.
+ * arrays: [{ id, dcKw, pitchDegrees, azimuthDegrees, moduleType?, mounting?, horizon? }]
+ * inverters: [{ id, acKw, efficiency?, quantity? }]; efficiency is a fraction. Without inverters
+ * the AC rating is sized at a 1.2 DC:AC ratio.
+ * losses: percentages that override DEFAULT_LOSSES. The shading loss defaults to 0 for arrays with a horizon.
+ * weather: hourly GHI/DNI/DHI, temperature, wind and sun positions from tmyService; synthesized for the site otherwise.
+ */
+const simulateProduction = (lat, lon, options = {}) => {
+  const latitude = Number(lat);
+  const longitude = Number(lon);
+  const {
+    arrays = [],
+    inverters = [],
+    losses = {},
+    degradationRate = DEFAULT_DEGRADATION_RATE,
+    years = DEFAULT_LIFETIME_YEARS,
+    albedo,
+    year,
+    timezone,
+  } = options;
+  if (arrays.length === 0) {
+    throw new Error('At least one array is required');
+  }
+
+  const weather = options.weather ?? tmyService.generateTypicalYear(latitude, longitude, { year, timezone });
+  const dcKw = arrays.reduce((sum, array) => sum + array.dcKw, 0);
+  const acKw = inverters.length > 0
+    ? inverters.reduce((sum, inverter) => sum + inverter.acKw * (inverter.quantity ?? 1), 0)
+    : dcKw / DEFAULT_DC_AC_RATIO;
+  const inverterEfficiency = inverters.length > 0
+    ? inverters.reduce((sum, inverter) => sum + (inverter.efficiency ?? DEFAULT_INVERTER_EFFICIENCY) * inverter.acKw * (inverter.quantity ?? 1), 0) / acKw
+    : DEFAULT_INVERTER_EFFICIENCY;
+
+  // A measured horizon replaces the flat shading allowance
+  const hasHorizon = arrays.every(array => array.horizon);
+  const systemLosses = { ...DEFAULT_LOSSES, ...(hasHorizon ? { shading: 0 } : {}), ...losses };
+  const lossFactor = 1 - calculateTotalLoss(systemLosses);
+
+  const models = arrays.map(array => {
+    const shading = array.horizon ? shadingService.createHorizonShading(array.horizon) : {};
+    return {
+      array,
+      shading,
+      gamma: TEMPERATURE_COEFFICIENTS[array.moduleType] ?? TEMPERATURE_COEFFICIENTS.standard,
+      skyModifier: calculateIncidenceAngleModifier(59.7 - 0.1388 * array.pitchDegrees + 0.001497 * array.pitchDegrees ** 2),
+      groundModifier: calculateIncidenceAngleModifier(90 - 0.5788 * array.pitchDegrees + 0.002693 * array.pitchDegrees ** 2),
+      poaKwhPerM2: 0,
+      dcKwh: 0,
+    };
+  });
+
+  const monthly = Array.from({ length: 12 }, (_, month) => ({ month: month + 1, dcKwh: 0, acKwh: 0, clippedKwh: 0 }));
+  const hoursPerMonth = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31].map(days => days * 24);
+  const monthOfHour = hoursPerMonth.flatMap((hours, month) => new Array(hours).fill(month));
+
+  weather.sun.forEach((sunPosition, hour) => {
+    if (sunPosition.zenith >= 90) return;
+    const irradiance = { ghi: weather.ghi[hour], dni: weather.dni[hour], dhi: weather.dhi[hour] };
+    if (irradiance.ghi <= 0) return;
+
+    let dcPower = 0;
+    models.forEach(model => {
+      const planeOfArray = shadingService.calculatePlaneOfArrayIrradiance(sunPosition, irradiance, model.array, { albedo });
+      const { shading } = model;
+      const beamShading = typeof shading.beam === 'function' ? shading.beam(sunPosition) : shading.beam ?? 0;
+      const beam = planeOfArray.beam * (1 - beamShading);
+      const skyDiffuse = planeOfArray.skyDiffuse * (1 - (shading.diffuse ?? 0));
+      const incident = beam + skyDiffuse + planeOfArray.groundReflected;
+      const transmitted = beam * calculateIncidenceAngleModifier(planeOfArray.angleOfIncidence)
+        + skyDiffuse * model.skyModifier
+        + planeOfArray.groundReflected * model.groundModifier;
+
+      const cellTemperature = calculateCellTemperature(incident, weather.temperature[hour], weather.windSpeed[hour], model.array.mounting);
+      const power = Math.max(0, model.array.dcKw * (transmitted / 1000) * (1 + model.gamma * (cellTemperature - 25)) * lossFactor);
+      model.poaKwhPerM2 += incident / 1000;
+      model.dcKwh += power;
+      dcPower += power;
+    });
+
+    const { ac, clipped } = calculateInverterOutput(dcPower, acKw, inverterEfficiency);
+    const month = monthly[monthOfHour[hour]];
+    month.dcKwh += dcPower;
+    month.acKwh += ac;
+    month.clippedKwh += clipped;
+  });
+
+  const annualDc = monthly.reduce((sum, m) => sum + m.dcKwh, 0);
+  const annualAc = monthly.reduce((sum, m) => sum + m.acKwh, 0);
+  const annualClipped = monthly.reduce((sum, m) => sum + m.clippedKwh, 0);
+  const schedule = buildDegradationSchedule(annualAc, degradationRate, years);
+
+  return {
+    location: { lat: latitude, lon: longitude },
+    weather: { source: weather.source, station: weather.station, year: weather.year, timezone: weather.timezone, warnings: weather.warnings ?? [] },
+    models: {
+      solarPosition: 'NREL SPA',
+      transposition: 'Perez 1990',
+      incidenceAngle: 'Physical (Fresnel + absorption)',
+      cellTemperature: 'Sandia',
+      inverter: 'PVWatts part-load curve',
+    },
+    system: {
+      dcKw: round(dcKw, 2),
+      acKw: round(acKw, 2),
+      dcAcRatio: round(dcKw / acKw, 2),
+      inverterEfficiency: round(inverterEfficiency * 100, 1),
+    },
+    losses: { ...systemLosses, total: round(calculateTotalLoss(systemLosses) * 100, 2) },
+    arrays: models.map(({ array, poaKwhPerM2, dcKwh }) => ({
+      id: array.id,
+      dcKw: round(array.dcKw, 2),
+      pitchDegrees: array.pitchDegrees,
+      azimuthDegrees: array.azimuthDegrees,
+      poaKwhPerM2: round(poaKwhPerM2),
+      dcKwh: Math.round(dcKwh),
+    })),
+    monthly: monthly.map(m => ({
+      month: m.month,
+      dcKwh: Math.round(m.dcKwh),
+      acKwh: Math.round(m.acKwh),
+      clippedKwh: Math.round(m.clippedKwh),
+    })),
+    annual: {
+      dcKwh: Math.round(annualDc),
+      acKwh: Math.round(annualAc),
+      clippedKwh: Math.round(annualClipped),
+      specificYield: round(annualAc / dcKw),
+      capacityFactor: round((annualAc / (dcKw * 8760)) * 100, 2),
+    },
+    degradation: {
+      ratePercent: degradationRate,
+      years,
+      schedule,
+      lifetimeAcKwh: schedule.reduce((sum, entry) => sum + entry.acKwh, 0),
+    },
+  };
+};
+
 const generateFallbackSolarData = (lat, lon, radiusMeters = 100) => {
   const sunlightHours = calculateSunlightHours(lat);
-  const solarIrradiance = calculateSolarIrradiance(lat);
   const roofArea = estimateRoofArea(radiusMeters);
-  const annualSolarPotential = Math.round(roofArea * solarIrradiance * sunlightHours * 365 * 0.15);
+  const panelsCount = Math.floor(roofArea / 17.5);
+  const production = simulateProduction(lat, lon, {
+    arrays: [{ id: 'roof', dcKw: (panelsCount * DEFAULT_MODULE_WATTS) / 1000, pitchDegrees: 30, azimuthDegrees: lat >= 0 ? 180 : 0 }],
+  });
+  const annualSolarPotential = production.annual.acKwh;
   const monthlyAverageEnergyBill = Math.round((annualSolarPotential * 0.12) / 12);
 
   return {
     name: `Building at ${lat.toFixed(6)}, ${lon.toFixed(6)}`,
     center: { latitude: lat, longitude: lon },
     solarPotential: {
-      maxArrayPanelsCount: Math.floor(roofArea / 17.5),
+      maxArrayPanelsCount: panelsCount,
       maxArrayAreaMeters2: roofArea * 0.7,
       maxSunshineHoursPerYear: sunlightHours * 365,
       carbonOffsetFactorKgPerMwh: 400,
@@ -50,16 +273,17 @@ const generateFallbackSolarData = (lat, lon, radiusMeters = 100) => {
       roofSegmentStats: [
         {
           pitchDegrees: 30,
-          azimuthDegrees: 180,
+          azimuthDegrees: lat >= 0 ? 180 : 0,
           stats: {
             areaMeters2: roofArea,
             sunshineQuantiles: Array.from({ length: 11 }, (_, i) => Math.round(sunlightHours * (0.6 + i * 0.04) * 365)),
           },
         },
       ],
-      solarPanels: generatePanelConfigurations(roofArea, lat, lon),
-      financialAnalyses: generateFinancialAnalysis(annualSolarPotential, monthlyAverageEnergyBill),
+      solarPanels: [{ panelsCount, yearlyEnergyDcKwh: production.annual.dcKwh, segmentIndex: 0 }],
+      financialAnalyses: generateFinancialAnalysis(annualSolarPotential, monthlyAverageEnergyBill, production.system.dcKw),
     },
+    production,
   };
 };
 
@@ -72,15 +296,6 @@ const calculateSunlightHours = (lat) => {
   return 3.5;
 };
 
-const calculateSolarIrradiance = (lat) => {
-  const absLat = Math.abs(lat);
-  if (absLat < 23.5) return 5.5;
-  if (absLat < 35) return 5.0;
-  if (absLat < 45) return 4.5;
-  if (absLat < 60) return 3.5;
-  return 2.5;
-};
-
 const estimateRoofArea = (radiusMeters) => {
   const searchArea = Math.PI * radiusMeters * radiusMeters;
   const buildingCoverage = 0.3;
@@ -88,20 +303,7 @@ const estimateRoofArea = (radiusMeters) => {
   return searchArea * buildingCoverage * roofUsablePercent * 10.764;
 };
 
-const generatePanelConfigurations = (roofArea, lat, lon) => {
-  const panelArea = 17.5;
-  const maxPanels = Math.floor(roofArea / panelArea);
-  return [
-    {
-      panelsCount: maxPanels,
-      yearlyEnergyDcKwh: (maxPanels * 350 * calculateSunlightHours(lat) * 365) / 1000,
-      segmentIndex: 0,
-    },
-  ];
-};
-
-const generateFinancialAnalysis = (annualSolarPotential, monthlyBill) => {
-  const systemSizeKw = annualSolarPotential / (calculateSunlightHours(35) * 365);
+const generateFinancialAnalysis = (annualSolarPotential, monthlyBill, systemSizeKw) => {
   const installationCost = systemSizeKw * 3000;
   const annualSavings = annualSolarPotential * 0.12;
   const paybackYears = installationCost / annualSavings;
@@ -127,6 +329,11 @@ const generateFinancialAnalysis = (annualSolarPotential, monthlyBill) => {
 };
 
 export const solarService = {
+  DEFAULT_LOSSES,
   getGoogleSolarData,
   generateFallbackSolarData,
+  calculateIncidenceAngleModifier,
+  calculateCellTemperature,
+  calculateInverterOutput,
+  simulateProduction,
 };
@@ -0,0 +1,41 @@
+import type { SolarPosition } from './solarPositionService.js';
+
+export interface WeatherStation {
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+  elevation: number;
+  timezone: number;
+  dailyRange: number; // C
+  windSpeed: number; // m/s
+  ghi: number[]; // kWh/m2/day per month
+  temperature: number[]; // C per month
+}
+
+export interface TypicalYear {
+  source: string;
+  station: { id: string; name: string; lat: number; lon: number; distanceKm: number };
+  year: number;
+  timezone: number;
+  location: { lat: number; lon: number; elevation: number };
+  warnings: string[];
+  sun: SolarPosition[];
+  ghi: number[];
+  dni: number[];
+  dhi: number[];
+  temperature: number[];
+  windSpeed: number[];
+}
+
+export const tmyService: {
+  STATIONS: WeatherStation[];
+  MAX_STATION_DISTANCE_KM: number;
+  findNearestStation(lat: number, lon: number): WeatherStation & { distanceKm: number };
+  generateTypicalYear(
+    lat: number | string,
+    lon: number | string,
+    options?: { year?: number; timezone?: number; elevation?: number; linkeTurbidity?: number | number[] }
+  ): TypicalYear;
+  parseTmy3(csv: string, options?: { year?: number }): TypicalYear;
+};
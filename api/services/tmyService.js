@@ -0,0 +1,263 @@
+import { solarPositionService } from './solarPositionService.js';
+import { shadingService } from './shadingService.js';
+
+const DEG = Math.PI / 180;
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+const SOLAR_CONSTANT = 1366.1; // W/m2
+
+// Cloudy days in the synthetic year keep this share of clear-sky irradiance
+const CLOUDY_DAY_CLEARNESS = 0.3;
+
+// Farther than this the nearest station's climate no longer represents the site
+const MAX_STATION_DISTANCE_KM = 300;
+
+/**
+ * Typical-year summaries for TMY3 reference stations: mean daily GHI (kWh/m2/day) and mean dry-bulb
+ * temperature (C) per month, typical daily temperature swing (C) and mean wind speed (m/s).
+ * Hourly weather is synthesized from these when no TMY file is supplied.
+ */
+const STATIONS = [
+  { id: '722780', name: 'Phoenix Sky Harbor, AZ', lat: 33.43, lon: -112.02, elevation: 337, timezone: -7, dailyRange: 14, windSpeed: 2.8,
+    ghi: [3.3, 4.3, 5.6, 7.1, 8.0, 8.3, 7.5, 7.0, 6.2, 5.0, 3.8, 3.1], temperature: [13, 15, 18, 22, 27, 32, 35, 34, 31, 24, 17, 12] },
+  { id: '722950', name: 'Los Angeles Intl, CA', lat: 33.94, lon: -118.41, elevation: 32, timezone: -8, dailyRange: 8, windSpeed: 3.6,
+    ghi: [3.0, 3.8, 5.0, 6.2, 6.5, 6.8, 7.1, 6.6, 5.5, 4.3, 3.3, 2.8], temperature: [14, 14, 15, 16, 18, 19, 21, 22, 21, 19, 16, 14] },
+  { id: '724830', name: 'Sacramento Executive, CA', lat: 38.51, lon: -121.49, elevation: 7, timezone: -8, dailyRange: 15, windSpeed: 3.4,
+    ghi: [2.0, 3.1, 4.6, 6.2, 7.4, 8.1, 8.1, 7.2, 5.9, 4.2, 2.5, 1.8], temperature: [8, 11, 13, 15, 19, 23, 25, 24, 23, 18, 12, 8] },
+  { id: '723860', name: 'Las Vegas McCarran, NV', lat: 36.08, lon: -115.15, elevation: 648, timezone: -8, dailyRange: 13, windSpeed: 4.2,
+    ghi: [3.3, 4.3, 5.7, 7.1, 8.0, 8.5, 7.9, 7.3, 6.3, 4.9, 3.7, 3.1], temperature: [9, 11, 15, 19, 25, 31, 34, 33, 28, 21, 13, 8] },
+  { id: '727930', name: 'Seattle-Tacoma Intl, WA', lat: 47.45, lon: -122.31, elevation: 137, timezone: -8, dailyRange: 8, windSpeed: 3.7,
+    ghi: [0.9, 1.6, 2.7, 4.0, 5.1, 5.6, 6.2, 5.3, 3.8, 2.1, 1.1, 0.7], temperature: [5, 6, 8, 10, 13, 16, 19, 19, 16, 12, 8, 5] },
+  { id: '725650', name: 'Denver Intl, CO', lat: 39.83, lon: -104.66, elevation: 1650, timezone: -7, dailyRange: 15, windSpeed: 4.5,
+    ghi: [2.6, 3.5, 4.8, 5.9, 6.5, 7.1, 6.9, 6.2, 5.3, 4.0, 2.8, 2.3], temperature: [-1, 0, 4, 8, 14, 19, 23, 22, 17, 10, 3, -2] },
+  { id: '723650', name: 'Albuquerque Intl, NM', lat: 35.04, lon: -106.61, elevation: 1619, timezone: -7, dailyRange: 15, windSpeed: 4.0,
+    ghi: [3.3, 4.3, 5.6, 7.0, 7.8, 8.2, 7.6, 7.0, 6.1, 4.9, 3.6, 3.0], temperature: [2, 5, 9, 13, 18, 24, 26, 25, 21, 14, 7, 2] },
+  { id: '722430', name: 'Houston Bush Intercontinental, TX', lat: 29.98, lon: -95.36, elevation: 32, timezone: -6, dailyRange: 10, windSpeed: 3.4,
+    ghi: [2.8, 3.5, 4.4, 5.1, 5.7, 6.2, 6.1, 5.8, 5.0, 4.3, 3.2, 2.6], temperature: [11, 13, 17, 21, 25, 28, 29, 29, 27, 21, 16, 12] },
+  { id: '725300', name: "Chicago O'Hare Intl, IL", lat: 41.98, lon: -87.9, elevation: 205, timezone: -6, dailyRange: 9, windSpeed: 4.6,
+    ghi: [1.9, 2.7, 3.7, 4.7, 5.8, 6.4, 6.3, 5.5, 4.4, 3.1, 1.9, 1.5], temperature: [-5, -3, 3, 9, 15, 21, 24, 23, 19, 12, 5, -2] },
+  { id: '726580', name: 'Minneapolis-St Paul Intl, MN', lat: 44.88, lon: -93.22, elevation: 255, timezone: -6, dailyRange: 10, windSpeed: 4.7,
+    ghi: [1.9, 2.9, 4.1, 5.0, 5.9, 6.4, 6.5, 5.6, 4.3, 2.9, 1.8, 1.5], temperature: [-10, -7, 0, 8, 15, 20, 23, 21, 16, 9, 0, -7] },
+  { id: '722190', name: 'Atlanta Hartsfield Intl, GA', lat: 33.64, lon: -84.43, elevation: 315, timezone: -5, dailyRange: 10, windSpeed: 3.9,
+    ghi: [2.7, 3.5, 4.6, 5.8, 6.2, 6.3, 6.1, 5.7, 4.9, 4.1, 3.0, 2.5], temperature: [6, 8, 12, 17, 21, 25, 27, 26, 23, 17, 12, 7] },
+  { id: '722020', name: 'Miami Intl, FL', lat: 25.79, lon: -80.29, elevation: 2, timezone: -5, dailyRange: 7, windSpeed: 4.0,
+    ghi: [3.7, 4.5, 5.5, 6.3, 6.3, 5.9, 6.1, 5.8, 5.1, 4.6, 3.9, 3.5], temperature: [20, 21, 22, 24, 26, 28, 29, 29, 28, 26, 23, 21] },
+  { id: '725053', name: 'New York Central Park, NY', lat: 40.78, lon: -73.97, elevation: 40, timezone: -5, dailyRange: 8, windSpeed: 2.5,
+    ghi: [1.9, 2.7, 3.8, 4.8, 5.6, 6.0, 6.0, 5.3, 4.3, 3.1, 2.0, 1.6], temperature: [0, 2, 6, 12, 17, 22, 25, 24, 21, 14, 9, 3] },
+  { id: '725090', name: 'Boston Logan Intl, MA', lat: 42.36, lon: -71.01, elevation: 6, timezone: -5, dailyRange: 8, windSpeed: 5.4,
+    ghi: [1.9, 2.8, 3.9, 4.8, 5.7, 6.1, 6.1, 5.4, 4.3, 3.0, 1.9, 1.6], temperature: [-2, -1, 3, 9, 14, 20, 23, 22, 18, 12, 6, 1] },
+  { id: '911820', name: 'Honolulu Intl, HI', lat: 21.33, lon: -157.94, elevation: 2, timezone: -10, dailyRange: 7, windSpeed: 5.0,
+    ghi: [4.1, 4.8, 5.5, 6.0, 6.4, 6.6, 6.7, 6.6, 6.2, 5.2, 4.3, 3.9], temperature: [23, 23, 24, 25, 26, 27, 28, 28, 28, 27, 26, 24] },
+  { id: '702730', name: 'Anchorage Intl, AK', lat: 61.17, lon: -150.0, elevation: 40, timezone: -9, dailyRange: 7, windSpeed: 3.1,
+    ghi: [0.3, 1.0, 2.3, 3.7, 4.7, 5.0, 4.5, 3.4, 2.1, 1.0, 0.4, 0.1], temperature: [-9, -7, -4, 3, 9, 13, 15, 14, 9, 1, -6, -8] },
+];
+
+const round = (value, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const distanceKm = (lat1, lon1, lat2, lon2) => {
+  const dLat = (lat2 - lat1) * DEG;
+  const dLon = (lon2 - lon1) * DEG;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * DEG) * Math.cos(lat2 * DEG) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+const findNearestStation = (lat, lon) => {
+  const ranked = STATIONS
+    .map(station => ({ station, distanceKm: distanceKm(lat, lon, station.lat, station.lon) }))
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+  return { ...ranked[0].station, distanceKm: round(ranked[0].distanceKm) };
+};
+
+// Deterministic generator so the same site always gets the same synthetic year
+const createRandom = (seed) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 4294967296;
+  };
+};
+
+// Erbs et al. (1982) diffuse fraction from the hourly clearness index
+const erbsDiffuseFraction = (kt) => {
+  if (kt <= 0.22) return 1 - 0.09 * kt;
+  if (kt <= 0.8) return 0.9511 - 0.1604 * kt + 4.388 * kt ** 2 - 16.638 * kt ** 3 + 12.336 * kt ** 4;
+  return 0.165;
+};
+
+const splitGlobal = (ghi, sunPosition) => {
+  const cosZenith = Math.cos(sunPosition.zenith * DEG);
+  if (ghi <= 0 || cosZenith <= 0.01) return { ghi: Math.max(0, ghi), dni: 0, dhi: Math.max(0, ghi) };
+  const extraterrestrial = (SOLAR_CONSTANT / sunPosition.earthSunDistance ** 2) * cosZenith;
+  const dhi = ghi * erbsDiffuseFraction(Math.min(1, ghi / extraterrestrial));
+  return { ghi, dni: (ghi - dhi) / cosZenith, dhi };
+};
+
+const forEachHour = (year, timezone, callback) => {
+  DAYS_IN_MONTH.forEach((days, month) => {
+    for (let day = 1; day <= days; day++) {
+      for (let hour = 0; hour < 24; hour++) {
+        callback(new Date(Date.UTC(year, month, day, hour, 30) - timezone * 3600000), month, day, hour);
+      }
+    }
+  });
+};
+
+/**
+ * Synthetic typical year for a site from the nearest station's monthly summary.
+ * Clear and cloudy days are mixed so each month matches the station's mean GHI; clear days use
+ * Ineichen clear-sky components, cloudy days an Erbs diffuse split. Temperature follows a daily cosine
+ * peaking mid-afternoon. Hours follow the same convention as the shading profile: mid-hour local
+ * standard time, no Feb 29.
+ */
+const generateTypicalYear = (lat, lon, options = {}) => {
+  const latitude = Number(lat);
+  const longitude = Number(lon);
+  const station = findNearestStation(latitude, longitude);
+  const {
+    year = new Date().getUTCFullYear(),
+    timezone = Math.round(longitude / 15),
+    elevation = station.elevation,
+  } = options;
+
+  const sun = [];
+  const clearSky = [];
+  forEachHour(year, timezone, (time, month) => {
+    const sunPosition = solarPositionService.calculate(time, latitude, longitude, { elevation });
+    sun.push(sunPosition);
+    clearSky.push(shadingService.calculateClearSkyIrradiance(sunPosition, {
+      elevation,
+      linkeTurbidity: shadingService.getLinkeTurbidity(options.linkeTurbidity, month),
+    }));
+  });
+
+  const weather = { ghi: [], dni: [], dhi: [], temperature: [], windSpeed: [] };
+  const random = createRandom(Number(station.id) + Math.round((latitude + 90) * 100) * 1000 + Math.round((longitude + 180) * 100));
+  let offset = 0;
+
+  DAYS_IN_MONTH.forEach((days, month) => {
+    const hours = days * 24;
+    const monthClearSky = clearSky.slice(offset, offset + hours);
+    const clearSkyTotal = monthClearSky.reduce((sum, irradiance) => sum + irradiance.ghi, 0) / 1000;
+    const target = station.ghi[month] * days;
+    const clearness = clearSkyTotal > 0 ? Math.min(1, target / clearSkyTotal) : 0;
+
+    // Share of clear days that, with cloudy days at CLOUDY_DAY_CLEARNESS, reproduces the monthly clearness
+    const clearShare = Math.max(0, Math.min(1, (clearness - CLOUDY_DAY_CLEARNESS) / (1 - CLOUDY_DAY_CLEARNESS)));
+    const clearDays = new Set();
+    const order = Array.from({ length: days }, (_, day) => ({ day, key: random() })).sort((a, b) => a.key - b.key);
+    order.slice(0, Math.round(clearShare * days)).forEach(({ day }) => clearDays.add(day));
+
+    const monthHours = monthClearSky.map((irradiance, i) => {
+      const index = offset + i;
+      const day = Math.floor(i / 24);
+      if (clearDays.has(day)) return { ...irradiance };
+      const cloudy = clearShare < 1 ? Math.max(0, (clearness - clearShare) / (1 - clearShare)) : 1;
+      return splitGlobal(irradiance.ghi * cloudy, sun[index]);
+    });
+
+    // Rescale so the month lands exactly on the station mean
+    const synthesizedTotal = monthHours.reduce((sum, irradiance) => sum + irradiance.ghi, 0) / 1000;
+    const scale = synthesizedTotal > 0 ? target / synthesizedTotal : 0;
+
+    monthHours.forEach((irradiance, i) => {
+      const hour = i % 24;
+      weather.ghi.push(irradiance.ghi * scale);
+      weather.dni.push(irradiance.dni * scale);
+      weather.dhi.push(irradiance.dhi * scale);
+      weather.temperature.push(station.temperature[month] + (station.dailyRange / 2) * Math.cos(((hour + 0.5 - 15) / 24) * 2 * Math.PI));
+      weather.windSpeed.push(station.windSpeed);
+    });
+    offset += hours;
+  });
+
+  return {
+    source: 'typical-year station summary',
+    station: { id: station.id, name: station.name, lat: station.lat, lon: station.lon, distanceKm: station.distanceKm },
+    year,
+    timezone,
+    location: { lat: latitude, lon: longitude, elevation },
+    warnings: station.distanceKm > MAX_STATION_DISTANCE_KM
+      ? [`Nearest weather station ${station.name} is ${station.distanceKm} km from the site; upload a TMY3 file for this location for a reliable estimate`]
+      : [],
+    sun,
+    ...weather,
+  };
+};
+
+const parseCsvLine = (line) => {
+  const values = [];
+  let current = '';
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === ',' && !quoted) {
+      values.push(current);
+      current = '';
+    } else current += char;
+  }
+  values.push(current);
+  return values.map(value => value.trim());
+};
+
+/**
+ * Hourly weather from an NSRDB TMY3 CSV: a station header line, a column header line, then 8760 rows
+ * stamped at the end of each local standard hour.
+ */
+const parseTmy3 = (csv, { year = new Date().getUTCFullYear() } = {}) => {
+  const lines = String(csv).split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length < 8762) {
+    throw new Error(`TMY3 file must have 8760 hourly rows, found ${Math.max(0, lines.length - 2)}`);
+  }
+
+  const [id, name, state, timezone, lat, lon, elevation] = parseCsvLine(lines[0]);
+  const columns = parseCsvLine(lines[1]);
+  const column = (prefix) => {
+    const index = columns.findIndex(heading => heading.startsWith(prefix));
+    if (index === -1) throw new Error(`TMY3 file is missing the ${prefix} column`);
+    return index;
+  };
+  const indices = {
+    ghi: column('GHI (W/m^2)'),
+    dni: column('DNI (W/m^2)'),
+    dhi: column('DHI (W/m^2)'),
+    temperature: column('Dry-bulb (C)'),
+    windSpeed: column('Wspd (m/s)'),
+  };
+
+  const station = {
+    id,
+    name: state ? `${name}, ${state}` : name,
+    lat: Number(lat),
+    lon: Number(lon),
+    elevation: Number(elevation),
+    timezone: Number(timezone),
+  };
+  const weather = { ghi: [], dni: [], dhi: [], temperature: [], windSpeed: [] };
+  lines.slice(2, 8762).forEach(line => {
+    const values = parseCsvLine(line);
+    Object.entries(indices).forEach(([key, index]) => weather[key].push(Number(values[index]) || 0));
+  });
+
+  const sun = [];
+  forEachHour(year, station.timezone, (time) => {
+    sun.push(solarPositionService.calculate(time, station.lat, station.lon, { elevation: station.elevation }));
+  });
+
+  return {
+    source: 'TMY3',
+    station: { id: station.id, name: station.name, lat: station.lat, lon: station.lon, distanceKm: 0 },
+    year,
+    timezone: station.timezone,
+    location: { lat: station.lat, lon: station.lon, elevation: station.elevation },
+    warnings: [],
+    sun,
+    ...weather,
+  };
+};
+
+export const tmyService = {
+  STATIONS,
+  MAX_STATION_DISTANCE_KM,
+  findNearestStation,
+  generateTypicalYear,
+  parseTmy3,
+};
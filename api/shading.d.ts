@@ -0,0 +1,3 @@
+import type { ApiRequest, ApiResponse } from './types';
+
+export default function handler(req: ApiRequest, res: ApiResponse): Promise<void>;
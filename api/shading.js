@@ -1,45 +1,196 @@
 import { cors, rateLimit, validate } from './utils/middleware.js';
 import { shadingService } from './services/shadingService.js';
 
+const parseNumber = (value, name, errors, { min = -Infinity, max = Infinity } = {}) => {
+  if (value === undefined || value === '') return undefined;
+  const number = parseFloat(value);
+  if (isNaN(number) || number < min || number > max) {
+    errors.push(`${name} must be a number between ${min} and ${max}`);
+    return undefined;
+  }
+  return number;
+};
+
+// Roof segments as "pitch:azimuth" pairs, e.g. "30:180,25:90"
+const parseSegments = (value, errors) => {
+  if (!value) return undefined;
+  const segments = String(value).split(',').map(pair => {
+    const [pitchDegrees, azimuthDegrees] = pair.split(':').map(Number);
+    return { pitchDegrees, azimuthDegrees };
+  });
+  if (segments.some(s => isNaN(s.pitchDegrees) || isNaN(s.azimuthDegrees) || s.pitchDegrees < 0 || s.pitchDegrees > 90)) {
+    errors.push('Segments must be pitch:azimuth pairs in degrees, e.g. 30:180,25:90');
+    return undefined;
+  }
+  return segments;
+};
+
 const validateShading = (query) => {
-  const { lat, lon, timestamp } = query;
+  const { lat, lon, timestamp, profile } = query;
   if (!lat || !lon) {
     return { isValid: false, errors: ['Latitude and longitude are required'] };
   }
-  return { isValid: true, data: { lat, lon, timestamp } };
+
+  const errors = [];
+  const data = {
+    lat: parseNumber(lat, 'Latitude', errors, { min: -90, max: 90 }),
+    lon: parseNumber(lon, 'Longitude', errors, { min: -180, max: 180 }),
+    timestamp,
+    profile: profile === '8760',
+    year: parseNumber(query.year, 'Year', errors, { min: 1900, max: 2100 }),
+    timezone: parseNumber(query.timezone, 'Timezone', errors, { min: -12, max: 14 }),
+    elevation: parseNumber(query.elevation, 'Elevation', errors, { min: -500, max: 9000 }),
+    linkeTurbidity: parseNumber(query.linkeTurbidity, 'Linke turbidity', errors, { min: 1, max: 10 }),
+    albedo: parseNumber(query.albedo, 'Albedo', errors, { min: 0, max: 1 }),
+    segments: parseSegments(query.segments, errors),
+  };
+  return errors.length > 0 ? { isValid: false, errors } : { isValid: true, data };
+};
+
+const parsePoint = (point) =>
+  point && Number.isFinite(Number(point.x)) && Number.isFinite(Number(point.y)) ? { x: Number(point.x), y: Number(point.y) } : null;
+
+// Solar access report body: roof segments and tagged obstructions in feet east/north of a shared origin
+const validateSolarAccess = (body) => {
+  const { lat, lon, segments, obstructions = [] } = body ?? {};
+  if (lat === undefined || lon === undefined) {
+    return { isValid: false, errors: ['Latitude and longitude are required'] };
+  }
+  if (!Array.isArray(segments) || segments.length === 0) {
+    return { isValid: false, errors: ['At least one roof segment is required'] };
+  }
+  if (!Array.isArray(obstructions)) {
+    return { isValid: false, errors: ['Obstructions must be an array'] };
+  }
+
+  const errors = [];
+  const data = {
+    lat: parseNumber(lat, 'Latitude', errors, { min: -90, max: 90 }),
+    lon: parseNumber(lon, 'Longitude', errors, { min: -180, max: 180 }),
+    year: parseNumber(body.year, 'Year', errors, { min: 1900, max: 2100 }),
+    timezone: parseNumber(body.timezone, 'Timezone', errors, { min: -12, max: 14 }),
+    elevation: parseNumber(body.elevation, 'Elevation', errors, { min: -500, max: 9000 }),
+    linkeTurbidity: parseNumber(body.linkeTurbidity, 'Linke turbidity', errors, { min: 1, max: 10 }),
+    albedo: parseNumber(body.albedo, 'Albedo', errors, { min: 0, max: 1 }),
+    azimuthStep: parseNumber(body.azimuthStep, 'Azimuth step', errors, { min: 1, max: 45 }),
+    segments: segments.map((segment, i) => {
+      const pitchDegrees = parseNumber(segment?.pitchDegrees, `Segment ${i + 1} pitch`, errors, { min: 0, max: 90 });
+      const azimuthDegrees = parseNumber(segment?.azimuthDegrees, `Segment ${i + 1} azimuth`, errors, { min: 0, max: 360 });
+      if (pitchDegrees === undefined || azimuthDegrees === undefined) {
+        errors.push(`Segment ${i + 1} needs pitchDegrees and azimuthDegrees`);
+      }
+      return {
+        id: segment?.id,
+        pitchDegrees,
+        azimuthDegrees,
+        position: parsePoint(segment?.position) ?? { x: 0, y: 0 },
+        heightFt: parseNumber(segment?.heightFt, `Segment ${i + 1} height`, errors, { min: 0, max: 1000 }) ?? 0,
+      };
+    }),
+    obstructions: obstructions.map((obstruction, i) => {
+      const points = Array.isArray(obstruction?.points) ? obstruction.points.map(parsePoint) : [];
+      if (!shadingService.OBSTRUCTION_KINDS.includes(obstruction?.kind)) {
+        errors.push(`Obstruction ${i + 1} kind must be one of ${shadingService.OBSTRUCTION_KINDS.join(', ')}`);
+      }
+      if (points.length === 0 || points.some(point => !point)) {
+        errors.push(`Obstruction ${i + 1} needs points with numeric x and y`);
+      }
+      return {
+        id: obstruction?.id,
+        kind: obstruction?.kind,
+        heightFt: parseNumber(obstruction?.heightFt, `Obstruction ${i + 1} height`, errors, { min: 0, max: 1000 }) ?? 0,
+        points,
+        closed: obstruction?.closed === undefined ? undefined : Boolean(obstruction.closed),
+      };
+    }),
+  };
+  return errors.length > 0 ? { isValid: false, errors } : { isValid: true, data };
+};
+
+const handleSolarAccess = (req, res) => {
+  const validation = validateSolarAccess(req.body);
+  if (!validation.isValid) {
+    return res.status(400).json({
+      error: 'Validation Error',
+      message: 'Invalid request parameters',
+      details: validation.errors,
+    });
+  }
+
+  const { lat, lon, year, timezone, elevation = 0, linkeTurbidity, albedo, azimuthStep, segments, obstructions } = validation.data;
+  try {
+    const report = shadingService.calculateSolarAccess(lat, lon, {
+      year: year ? Math.round(year) : undefined,
+      timezone,
+      elevation,
+      linkeTurbidity,
+      albedo,
+      segments: segments.map(segment => ({
+        ...segment,
+        horizon: shadingService.calculateHorizonProfile(obstructions, {
+          observer: segment.position,
+          observerHeightFt: segment.heightFt,
+          azimuthStep,
+        }),
+      })),
+    });
+    return res.status(200).json({ ...report, obstructions });
+  } catch (error) {
+    console.error('Solar access analysis error:', error);
+    return res.status(500).json({ error: 'Failed to analyze solar access' });
+  }
 };
 
 export default async function handler(req, res) {
   if (cors(req, res)) return;
-  if (rateLimit(req, res)) return;
-  if (validate(validateShading)(req, res)) return;
+  // rateLimit() builds a middleware that only calls next when the client is under the limit
+  let withinLimit = false;
+  rateLimit()(req, res, () => {
+    withinLimit = true;
+  });
+  if (!withinLimit) return;
 
+  if (req.method === 'POST') {
+    return handleSolarAccess(req, res);
+  }
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
+  if (validate(validateShading)(req, res)) return;
 
-  const { lat, lon, timestamp } = req.validatedData;
+  const { lat, lon, timestamp, profile, year, timezone, elevation = 0, linkeTurbidity, albedo, segments } = req.validatedData;
+  const roofSegments = segments ?? [{ pitchDegrees: 30, azimuthDegrees: lat >= 0 ? 180 : 0 }];
 
   try {
-    const weatherData = await shadingService.getWeatherData(lat, lon);
-    const currentTime = timestamp ? new Date(parseInt(timestamp)) : new Date();
-    const hour = currentTime.getHours();
-    const month = currentTime.getMonth();
+    if (profile) {
+      const hourlyProfile = shadingService.calculateHourlyProfile(lat, lon, {
+        year: year ? Math.round(year) : undefined,
+        timezone,
+        elevation,
+        linkeTurbidity,
+        albedo,
+        segments: roofSegments,
+      });
+      return res.status(200).json(hourlyProfile);
+    }
 
-    const shadingFactor = shadingService.calculateShadingFactor(hour, month, weatherData);
-    const sunPosition = shadingService.calculateSunPosition(lat, lon, currentTime);
-    const shadowLength = shadingService.calculateShadowLength(weatherData, hour);
-    const solarIrradiance = shadingService.calculateSolarIrradiance(month, hour, shadingFactor);
+    const currentTime = timestamp ? new Date(parseInt(timestamp)) : new Date();
+    const results = roofSegments.map(segment =>
+      shadingService.calculateIrradianceAt(lat, lon, currentTime, segment, { elevation, linkeTurbidity, albedo })
+    );
+    const { sunPosition, clearSky } = results[0];
+    const segmentResults = results.map(({ planeOfArray }, i) => ({ ...roofSegments[i], ...planeOfArray }));
 
     const shadingData = {
       timestamp: currentTime.toISOString(),
-      location: { lat: parseFloat(lat), lon: parseFloat(lon) },
-      shadingFactor,
-      weather: weatherData,
+      location: { lat, lon, elevation },
+      shadingFactor: segmentResults[0].shadingFactor,
       analysis: {
         sunPosition,
-        shadowLength,
-        solarIrradiance,
+        shadowLength: shadingService.calculateShadowLength(sunPosition),
+        clearSky,
+        solarIrradiance: segmentResults[0].poa,
+        segments: segmentResults,
       },
     };
 
@@ -48,4 +199,4 @@ export default async function handler(req, res) {
     console.error('Shading analysis error:', error);
     return res.status(500).json({ error: 'Failed to analyze shading' });
   }
-} 
\ No newline at end of file
+}
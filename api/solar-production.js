@@ -0,0 +1,138 @@
+import { cors, rateLimit } from './utils/middleware.js';
+import { solarService } from './services/solarService.js';
+import { tmyService } from './services/tmyService.js';
+
+const MODULE_TYPES = ['standard', 'premium', 'thinFilm'];
+const MOUNTINGS = ['roof', 'openRack'];
+
+const parseNumber = (value, name, errors, { min = -Infinity, max = Infinity } = {}) => {
+  if (value === undefined || value === '') return undefined;
+  const number = parseFloat(value);
+  if (isNaN(number) || number < min || number > max) {
+    errors.push(`${name} must be a number between ${min} and ${max}`);
+    return undefined;
+  }
+  return number;
+};
+
+// Production request body: DC arrays by roof plane, inverter AC ratings and loss overrides in percent
+const validateProduction = (body) => {
+  const { lat, lon, arrays, inverters = [], losses = {} } = body ?? {};
+  if (lat === undefined || lon === undefined) {
+    return { isValid: false, errors: ['Latitude and longitude are required'] };
+  }
+  if (!Array.isArray(arrays) || arrays.length === 0) {
+    return { isValid: false, errors: ['At least one array is required'] };
+  }
+  if (!Array.isArray(inverters)) {
+    return { isValid: false, errors: ['Inverters must be an array'] };
+  }
+
+  const errors = [];
+  const data = {
+    lat: parseNumber(lat, 'Latitude', errors, { min: -90, max: 90 }),
+    lon: parseNumber(lon, 'Longitude', errors, { min: -180, max: 180 }),
+    year: parseNumber(body.year, 'Year', errors, { min: 1900, max: 2100 }),
+    timezone: parseNumber(body.timezone, 'Timezone', errors, { min: -12, max: 14 }),
+    albedo: parseNumber(body.albedo, 'Albedo', errors, { min: 0, max: 1 }),
+    degradationRate: parseNumber(body.degradationRate, 'Degradation rate', errors, { min: 0, max: 5 }),
+    years: parseNumber(body.years, 'Years', errors, { min: 1, max: 50 }),
+    tmy: typeof body.tmy === 'string' && body.tmy.trim() !== '' ? body.tmy : undefined,
+    arrays: arrays.map((array, i) => {
+      const dcKw = parseNumber(array?.dcKw, `Array ${i + 1} DC size`, errors, { min: 0.01, max: 10000 });
+      const pitchDegrees = parseNumber(array?.pitchDegrees, `Array ${i + 1} pitch`, errors, { min: 0, max: 90 });
+      const azimuthDegrees = parseNumber(array?.azimuthDegrees, `Array ${i + 1} azimuth`, errors, { min: 0, max: 360 });
+      if (dcKw === undefined || pitchDegrees === undefined || azimuthDegrees === undefined) {
+        errors.push(`Array ${i + 1} needs dcKw, pitchDegrees and azimuthDegrees`);
+      }
+      if (array?.moduleType !== undefined && !MODULE_TYPES.includes(array.moduleType)) {
+        errors.push(`Array ${i + 1} module type must be one of ${MODULE_TYPES.join(', ')}`);
+      }
+      if (array?.mounting !== undefined && !MOUNTINGS.includes(array.mounting)) {
+        errors.push(`Array ${i + 1} mounting must be one of ${MOUNTINGS.join(', ')}`);
+      }
+      return {
+        id: array?.id ?? `array-${i + 1}`,
+        dcKw,
+        pitchDegrees,
+        azimuthDegrees,
+        moduleType: array?.moduleType,
+        mounting: array?.mounting,
+      };
+    }),
+    inverters: inverters.map((inverter, i) => {
+      const acKw = parseNumber(inverter?.acKw, `Inverter ${i + 1} AC rating`, errors, { min: 0.01, max: 10000 });
+      if (acKw === undefined) {
+        errors.push(`Inverter ${i + 1} needs acKw`);
+      }
+      return {
+        id: inverter?.id ?? `inverter-${i + 1}`,
+        acKw,
+        efficiency: parseNumber(inverter?.efficiency, `Inverter ${i + 1} efficiency`, errors, { min: 0.5, max: 1 }),
+        quantity: parseNumber(inverter?.quantity, `Inverter ${i + 1} quantity`, errors, { min: 1, max: 1000 }),
+      };
+    }),
+    losses: Object.fromEntries(Object.entries(losses ?? {})
+      .filter(([key]) => {
+        if (key in solarService.DEFAULT_LOSSES) return true;
+        errors.push(`Unknown loss category ${key}`);
+        return false;
+      })
+      .map(([key, value]) => [key, parseNumber(value, `${key} loss`, errors, { min: 0, max: 100 }) ?? 0])),
+  };
+  return errors.length > 0 ? { isValid: false, errors } : { isValid: true, data };
+};
+
+export default async function handler(req, res) {
+  if (cors(req, res)) return;
+  // rateLimit() builds a middleware that only calls next when the client is under the limit
+  let withinLimit = false;
+  rateLimit()(req, res, () => {
+    withinLimit = true;
+  });
+  if (!withinLimit) return;
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const validation = validateProduction(req.body);
+  if (!validation.isValid) {
+    return res.status(400).json({
+      error: 'Validation Error',
+      message: 'Invalid request parameters',
+      details: validation.errors,
+    });
+  }
+
+  const { lat, lon, tmy, year, arrays, inverters, ...options } = validation.data;
+  let weather;
+  if (tmy) {
+    try {
+      weather = tmyService.parseTmy3(tmy, { year: year ? Math.round(year) : undefined });
+    } catch (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid request parameters',
+        details: [error.message],
+      });
+    }
+  }
+
+  try {
+    const production = solarService.simulateProduction(lat, lon, {
+      ...options,
+      year: year ? Math.round(year) : undefined,
+      arrays,
+      inverters: inverters.map(inverter => ({
+        ...inverter,
+        quantity: inverter.quantity === undefined ? undefined : Math.round(inverter.quantity),
+      })),
+      weather,
+    });
+    return res.status(200).json(production);
+  } catch (error) {
+    console.error('Solar production simulation error:', error);
+    return res.status(500).json({ error: 'Failed to simulate solar production' });
+  }
+}
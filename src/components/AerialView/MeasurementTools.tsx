@@ -3,6 +3,7 @@ import { Ruler, Square, RotateCcw, Save, Zap, X } from 'lucide-react';
 import { useAerialView } from '../../context/AerialViewContext';
 import { AttachmentService } from '../../services/attachmentService';
 import { AerialMeasurementService } from '../../services/aerialMeasurementService';
+import { ObstructionTagControl } from './ObstructionTagControl';
 
 interface MeasurementToolsProps {
   measurementPoints: Array<{x: number, y: number}>;
@@ -17,7 +18,8 @@ export const MeasurementTools: React.FC<MeasurementToolsProps> = ({
     state,
     updateUIState,
     clearMeasurements,
-    removeMeasurement
+    removeMeasurement,
+    tagObstruction
   } = useAerialView();
 
   // Clear measurement points when switching modes
@@ -204,6 +206,10 @@ export const MeasurementTools: React.FC<MeasurementToolsProps> = ({
               <div className="text-gray-600">{measurement.label}</div>
               <div className="text-xs text-gray-500">Area: {measurement.area.toFixed(2)} {measurement.unit}</div>
               <div className="text-xs text-orange-600">✓ Shown in orange on image</div>
+              <ObstructionTagControl
+                value={measurement.obstruction}
+                onChange={(obstruction) => tagObstruction('area', measurement.id, obstruction)}
+              />
             </div>
           ))}
           
@@ -225,6 +231,10 @@ export const MeasurementTools: React.FC<MeasurementToolsProps> = ({
                 Segments: {measurement.segmentDistances.map(d => d.toFixed(1)).join(' + ')} {measurement.unit}
               </div>
               <div className="text-xs text-blue-600">✓ Shown in purple on image</div>
+              <ObstructionTagControl
+                value={measurement.obstruction}
+                onChange={(obstruction) => tagObstruction('polyline', measurement.id, obstruction)}
+              />
             </div>
           ))}
         </div>
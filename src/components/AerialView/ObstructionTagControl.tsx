@@ -0,0 +1,58 @@
+import React from 'react';
+import { SolarAccessService } from '../../services/solarAccessService';
+import type { ObstructionKind, ObstructionTag } from '../../types/solarAccess';
+
+interface ObstructionTagControlProps {
+  value?: ObstructionTag;
+  onChange: (obstruction: ObstructionTag | null) => void;
+}
+
+const KIND_LABELS: Record<ObstructionKind, string> = {
+  tree: 'Tree',
+  chimney: 'Chimney',
+  building: 'Neighboring building'
+};
+
+export const ObstructionTagControl: React.FC<ObstructionTagControlProps> = ({ value, onChange }) => {
+  const handleKindChange = (kind: string) => {
+    if (!kind) {
+      onChange(null);
+      return;
+    }
+    const obstructionKind = kind as ObstructionKind;
+    onChange({
+      kind: obstructionKind,
+      heightFt: value?.heightFt ?? SolarAccessService.DEFAULT_HEIGHTS_FT[obstructionKind]
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-2 mt-1 text-xs">
+      <select
+        value={value?.kind ?? ''}
+        onChange={(e) => handleKindChange(e.target.value)}
+        className="px-1 py-0.5 border border-gray-300 rounded"
+        aria-label="Obstruction type"
+      >
+        <option value="">Not an obstruction</option>
+        {SolarAccessService.OBSTRUCTION_KINDS.map(kind => (
+          <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>
+        ))}
+      </select>
+      {value && (
+        <label className="flex items-center gap-1 text-gray-600">
+          Height
+          <input
+            type="number"
+            min={1}
+            value={value.heightFt}
+            onChange={(e) => onChange({ ...value, heightFt: parseFloat(e.target.value) || 0 })}
+            className="w-16 px-1 py-0.5 border border-gray-300 rounded"
+            aria-label="Obstruction height in feet"
+          />
+          ft
+        </label>
+      )}
+    </div>
+  );
+};
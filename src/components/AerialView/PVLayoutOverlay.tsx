@@ -0,0 +1,293 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { PVLayoutService } from '../../services/pvLayoutService';
+import type { LayoutPoint, PVLayout, PVLayoutSummary, RoofEdgeType } from '../../types/pvLayout';
+
+export type PVLayoutTool = 'select' | 'face' | 'module' | 'keepout';
+
+interface PVLayoutOverlayProps {
+  layout: PVLayout;
+  summary: PVLayoutSummary;
+  naturalSize: { width: number; height: number };
+  tool: PVLayoutTool;
+  selectedFaceId: string | null;
+  selectedModuleId: string | null;
+  onChange: (layout: PVLayout) => void;
+  onSelectFace: (faceId: string | null) => void;
+  onSelectModule: (moduleId: string | null) => void;
+}
+
+export const EDGE_COLORS: Record<RoofEdgeType, string> = {
+  eave: '#22c55e',
+  ridge: '#ef4444',
+  rake: '#3b82f6',
+  hip: '#f97316',
+  valley: '#a855f7'
+};
+
+const STRING_COLORS = ['#facc15', '#38bdf8', '#f472b6', '#4ade80', '#fb923c', '#c084fc'];
+const VENT_SIZE_IN = 12;
+const CLOSE_DISTANCE_PX = 10; // display pixels from the first vertex that close a face
+const DRAG_THRESHOLD_PX = 4;
+
+const toPoints = (points: LayoutPoint[]) => points.map(p => `${p.x},${p.y}`).join(' ');
+
+/**
+ * Roof layout drawn over the satellite image. Geometry stays in natural image pixels and the SVG
+ * viewBox scales it to the displayed image.
+ */
+export const PVLayoutOverlay: React.FC<PVLayoutOverlayProps> = ({
+  layout,
+  summary,
+  naturalSize,
+  tool,
+  selectedFaceId,
+  selectedModuleId,
+  onChange,
+  onSelectFace,
+  onSelectModule
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [draftFace, setDraftFace] = useState<LayoutPoint[]>([]);
+  const [keepOutStart, setKeepOutStart] = useState<LayoutPoint | null>(null);
+  const [drag, setDrag] = useState<{ moduleId: string; offset: LayoutPoint } | null>(null);
+
+  const toImagePoint = useCallback((event: React.PointerEvent | React.MouseEvent): LayoutPoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) * naturalSize.width) / (rect.width || 1),
+      y: ((event.clientY - rect.top) * naturalSize.height) / (rect.height || 1)
+    };
+  }, [naturalSize]);
+
+  const displayScale = useCallback(() => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    return rect && rect.width > 0 ? naturalSize.width / rect.width : 1;
+  }, [naturalSize]);
+
+  const invalid = useMemo(() => new Set(summary.invalidModuleIds), [summary.invalidModuleIds]);
+  const stringOf = useMemo(() => {
+    const map = new Map<string, number>();
+    summary.strings.forEach((s, index) => s.moduleIds.forEach(id => map.set(id, index)));
+    return map;
+  }, [summary.strings]);
+
+  const buildableAreas = useMemo(() => layout.faces.map(face => ({
+    id: face.id,
+    points: PVLayoutService.buildableArea(face, layout.ruleSet, layout.feetPerPixel, summary.coveragePercent)
+  })), [layout.faces, layout.ruleSet, layout.feetPerPixel, summary.coveragePercent]);
+
+  const faceAt = (point: LayoutPoint) => layout.faces.find(face => PVLayoutService.containsPoint(face.points, point));
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    const point = toImagePoint(event);
+
+    if (tool === 'face') {
+      const closeDistance = CLOSE_DISTANCE_PX * displayScale();
+      if (draftFace.length >= 3 && Math.hypot(point.x - draftFace[0].x, point.y - draftFace[0].y) < closeDistance) {
+        const id = `face-${Date.now()}`;
+        const face = PVLayoutService.createFace(id, `Face ${layout.faces.length + 1}`, draftFace, 20, 180);
+        onChange({ ...layout, faces: [...layout.faces, face] });
+        onSelectFace(id);
+        setDraftFace([]);
+      } else {
+        setDraftFace([...draftFace, point]);
+      }
+      return;
+    }
+
+    if (tool === 'keepout') {
+      setKeepOutStart(point);
+      return;
+    }
+
+    if (tool === 'module') {
+      const face = faceAt(point);
+      if (!face) return;
+      const id = `${face.id}-added-${Date.now()}`;
+      onChange({
+        ...layout,
+        modules: [...layout.modules, { id, faceId: face.id, center: point, orientation: face.orientation, rotationDegrees: 0 }]
+      });
+      onSelectFace(face.id);
+      onSelectModule(id);
+      return;
+    }
+
+    onSelectModule(null);
+    onSelectFace(faceAt(point)?.id ?? null);
+  };
+
+  const handleModulePointerDown = (event: React.PointerEvent, moduleId: string) => {
+    if (tool !== 'select') return;
+    event.stopPropagation();
+    const module = layout.modules.find(m => m.id === moduleId);
+    if (!module) return;
+    const point = toImagePoint(event);
+    svgRef.current?.setPointerCapture?.(event.pointerId);
+    setDrag({ moduleId, offset: { x: module.center.x - point.x, y: module.center.y - point.y } });
+    onSelectModule(moduleId);
+    onSelectFace(module.faceId);
+  };
+
+  const handleEdgeClick = (event: React.PointerEvent, faceId: string, edgeIndex: number) => {
+    if (tool !== 'select' || faceId !== selectedFaceId) return;
+    event.stopPropagation();
+    const types = PVLayoutService.EDGE_TYPES;
+    onChange({
+      ...layout,
+      faces: layout.faces.map(face => face.id !== faceId ? face : {
+        ...face,
+        edgeTypes: face.edgeTypes.map((type, i) => i === edgeIndex ? types[(types.indexOf(type) + 1) % types.length] : type)
+      })
+    });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!drag) return;
+    const point = toImagePoint(event);
+    const center = { x: point.x + drag.offset.x, y: point.y + drag.offset.y };
+    // A module dropped on another face joins it
+    const face = faceAt(center);
+    onChange({
+      ...layout,
+      modules: layout.modules.map(m => m.id === drag.moduleId ? { ...m, center, faceId: face?.id ?? m.faceId } : m)
+    });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (drag) {
+      svgRef.current?.releasePointerCapture?.(event.pointerId);
+      setDrag(null);
+      return;
+    }
+    if (tool === 'keepout' && keepOutStart) {
+      const point = toImagePoint(event);
+      const id = `keepout-${Date.now()}`;
+      const dragged = Math.hypot(point.x - keepOutStart.x, point.y - keepOutStart.y) > DRAG_THRESHOLD_PX * displayScale();
+      // A click drops a standard roof vent; a drag outlines skylights, chimneys and the like
+      const half = PVLayoutService.inchesToPixels(VENT_SIZE_IN, layout.feetPerPixel) / 2;
+      const keepOut = dragged
+        ? { ...PVLayoutService.createKeepOut(id, keepOutStart, point), label: 'Keep-out' }
+        : PVLayoutService.createKeepOut(id, { x: point.x - half, y: point.y - half }, { x: point.x + half, y: point.y + half });
+      onChange({ ...layout, keepOuts: [...layout.keepOuts, keepOut] });
+      setKeepOutStart(null);
+    }
+  };
+
+  const strokeWidth = Math.max(1, naturalSize.width / 400);
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${naturalSize.width} ${naturalSize.height}`}
+      preserveAspectRatio="none"
+      className={`absolute inset-0 w-full h-full ${tool === 'select' ? 'cursor-default' : 'cursor-crosshair'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      data-cy="pv-layout-overlay"
+    >
+      {layout.faces.map(face => (
+        <g key={face.id}>
+          <polygon
+            points={toPoints(face.points)}
+            fill={face.id === selectedFaceId ? 'rgba(59, 130, 246, 0.25)' : 'rgba(255, 255, 255, 0.12)'}
+            stroke="white"
+            strokeWidth={strokeWidth}
+          />
+          {face.points.map((point, i) => {
+            const next = face.points[(i + 1) % face.points.length];
+            const type = face.edgeTypes[i];
+            return (
+              <line
+                key={i}
+                x1={point.x}
+                y1={point.y}
+                x2={next.x}
+                y2={next.y}
+                stroke={EDGE_COLORS[type]}
+                strokeWidth={strokeWidth * (face.id === selectedFaceId ? 4 : 2)}
+                onPointerDown={(event) => handleEdgeClick(event, face.id, i)}
+                style={{ cursor: face.id === selectedFaceId && tool === 'select' ? 'pointer' : undefined }}
+              >
+                <title>{`${type} — click to change`}</title>
+              </line>
+            );
+          })}
+        </g>
+      ))}
+
+      {buildableAreas.map(area => area.points.length >= 3 && (
+        <polygon
+          key={`area-${area.id}`}
+          points={toPoints(area.points)}
+          fill="none"
+          stroke="#facc15"
+          strokeWidth={strokeWidth}
+          strokeDasharray={`${strokeWidth * 4},${strokeWidth * 3}`}
+          pointerEvents="none"
+        />
+      ))}
+
+      {layout.keepOuts.map(keepOut => (
+        <g key={keepOut.id} pointerEvents="none">
+          <polygon
+            points={toPoints(PVLayoutService.keepOutArea(keepOut, layout.feetPerPixel))}
+            fill="rgba(239, 68, 68, 0.15)"
+            stroke="#ef4444"
+            strokeWidth={strokeWidth}
+            strokeDasharray={`${strokeWidth * 2},${strokeWidth * 2}`}
+          />
+          <polygon points={toPoints(keepOut.points)} fill="rgba(239, 68, 68, 0.6)" stroke="#ef4444" strokeWidth={strokeWidth} />
+        </g>
+      ))}
+
+      {layout.modules.map(module => {
+        const face = layout.faces.find(f => f.id === module.faceId);
+        if (!face) return null;
+        const stringIndex = stringOf.get(module.id);
+        return (
+          <polygon
+            key={module.id}
+            points={toPoints(PVLayoutService.moduleFootprint(module, face, layout.module, layout.feetPerPixel))}
+            fill={invalid.has(module.id) ? 'rgba(220, 38, 38, 0.75)' : 'rgba(30, 41, 99, 0.8)'}
+            stroke={module.id === selectedModuleId
+              ? 'white'
+              : stringIndex !== undefined ? STRING_COLORS[stringIndex % STRING_COLORS.length] : '#94a3b8'}
+            strokeWidth={strokeWidth * (module.id === selectedModuleId ? 2.5 : 1)}
+            onPointerDown={(event) => handleModulePointerDown(event, module.id)}
+            style={{ cursor: tool === 'select' ? 'move' : undefined }}
+          />
+        );
+      })}
+
+      {summary.strings.map((s, index) => {
+        const first = layout.modules.find(m => m.id === s.moduleIds[0]);
+        return first && (
+          <text
+            key={s.id}
+            x={first.center.x}
+            y={first.center.y}
+            fill={STRING_COLORS[index % STRING_COLORS.length]}
+            fontSize={strokeWidth * 10}
+            fontWeight="bold"
+            textAnchor="middle"
+            dominantBaseline="middle"
+            pointerEvents="none"
+          >
+            {s.id}
+          </text>
+        );
+      })}
+
+      {draftFace.length > 0 && (
+        <g pointerEvents="none">
+          <polyline points={toPoints(draftFace)} fill="none" stroke="white" strokeWidth={strokeWidth * 2} strokeDasharray={`${strokeWidth * 4},${strokeWidth * 3}`} />
+          {draftFace.map((point, i) => (
+            <circle key={i} cx={point.x} cy={point.y} r={strokeWidth * (i === 0 ? 5 : 3)} fill={i === 0 ? '#facc15' : 'white'} />
+          ))}
+        </g>
+      )}
+    </svg>
+  );
+};
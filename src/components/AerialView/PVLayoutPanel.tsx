@@ -0,0 +1,420 @@
+import React, { useMemo } from 'react';
+import { Grid3X3, MousePointer, Pentagon, Plus, RotateCcw, RotateCw, Trash2, Ban } from 'lucide-react';
+import { PVLayoutService } from '../../services/pvLayoutService';
+import { StringSizingService } from '../../services/stringSizingService';
+import { componentDatabaseService } from '../../services/componentDatabaseService';
+import { EDGE_COLORS, type PVLayoutTool } from './PVLayoutOverlay';
+import type { FireCodeRuleSet, PVLayout, PVLayoutSummary, PVModuleSpec, PVRoofFace, RoofEdgeType } from '../../types/pvLayout';
+
+interface PVLayoutPanelProps {
+  layout: PVLayout;
+  summary: PVLayoutSummary;
+  tool: PVLayoutTool;
+  selectedFaceId: string | null;
+  selectedModuleId: string | null;
+  canImportAnalysis: boolean;
+  onToolChange: (tool: PVLayoutTool) => void;
+  onChange: (layout: PVLayout) => void;
+  onSelectFace: (faceId: string | null) => void;
+  onSelectModule: (moduleId: string | null) => void;
+  onImportAnalysis: () => void;
+}
+
+const TOOLS: Array<{ id: PVLayoutTool; label: string; icon: React.ElementType; hint: string }> = [
+  { id: 'select', label: 'Select', icon: MousePointer, hint: 'Drag modules; click an edge of the selected face to change its type' },
+  { id: 'face', label: 'Draw Face', icon: Pentagon, hint: 'Click the roof corners, then the first corner again to close' },
+  { id: 'module', label: 'Add Module', icon: Plus, hint: 'Click inside a face to add a module' },
+  { id: 'keepout', label: 'Keep-Out', icon: Ban, hint: 'Click to drop a vent, or drag to outline a skylight or chimney' }
+];
+
+const MODULE_FIELDS: Array<{ key: keyof PVModuleSpec; label: string; step: number }> = [
+  { key: 'watts', label: 'W', step: 5 },
+  { key: 'widthIn', label: 'Width (in)', step: 0.1 },
+  { key: 'lengthIn', label: 'Length (in)', step: 0.1 },
+  { key: 'voc', label: 'Voc', step: 0.1 },
+  { key: 'vmp', label: 'Vmp', step: 0.1 },
+  { key: 'isc', label: 'Isc', step: 0.1 },
+  { key: 'imp', label: 'Imp', step: 0.1 }
+];
+
+const inputClass = 'w-full border border-gray-300 rounded px-2 py-1 text-sm';
+
+const INVERTERS = componentDatabaseService.getInverterMPPTWindows();
+
+/**
+ * Controls for the roof layout editor: tools, fire-code rules, the module datasheet, string sizing
+ * against an inverter, the selected face or module, and the resulting module count and strings.
+ */
+export const PVLayoutPanel: React.FC<PVLayoutPanelProps> = ({
+  layout,
+  summary,
+  tool,
+  selectedFaceId,
+  selectedModuleId,
+  canImportAnalysis,
+  onToolChange,
+  onChange,
+  onSelectFace,
+  onSelectModule,
+  onImportAnalysis
+}) => {
+  const selectedFace = layout.faces.find(face => face.id === selectedFaceId) || null;
+  const selectedModule = layout.modules.find(module => module.id === selectedModuleId) || null;
+  const { ruleSet, stringSizing } = layout;
+  const sizing = useMemo(() => StringSizingService.sizeLayout(layout, summary.strings), [layout, summary.strings]);
+
+  const updateRuleSet = (updates: Partial<FireCodeRuleSet>) => onChange({ ...layout, ruleSet: { ...ruleSet, ...updates } });
+
+  const updateStringSizing = (updates: Partial<NonNullable<typeof stringSizing>>) => {
+    if (stringSizing) onChange({ ...layout, stringSizing: { ...stringSizing, ...updates } });
+  };
+
+  const updateTempCoefficient = (key: 'tempCoeffVoc' | 'tempCoeffVmp', value: string) =>
+    onChange({ ...layout, module: { ...layout.module, [key]: value === '' ? undefined : Number(value) } });
+
+  const updateFace = (updates: Partial<PVRoofFace>) => {
+    if (!selectedFace) return;
+    const face = { ...selectedFace, ...updates };
+    // A new downslope direction changes which edges are eaves and ridges
+    if (updates.azimuthDegrees !== undefined) face.edgeTypes = PVLayoutService.classifyEdges(face.points, face.azimuthDegrees);
+    onChange({ ...layout, faces: layout.faces.map(f => (f.id === face.id ? face : f)) });
+  };
+
+  const updateModule = (updates: Partial<NonNullable<typeof selectedModule>>) => {
+    if (!selectedModule) return;
+    onChange({ ...layout, modules: layout.modules.map(m => (m.id === selectedModule.id ? { ...m, ...updates } : m)) });
+  };
+
+  const deleteFace = () => {
+    if (!selectedFace) return;
+    onChange({
+      ...layout,
+      faces: layout.faces.filter(face => face.id !== selectedFace.id),
+      modules: layout.modules.filter(module => module.faceId !== selectedFace.id)
+    });
+    onSelectFace(null);
+  };
+
+  const deleteModule = () => {
+    if (!selectedModule) return;
+    onChange({ ...layout, modules: layout.modules.filter(module => module.id !== selectedModule.id) });
+    onSelectModule(null);
+  };
+
+  const activeHint = TOOLS.find(t => t.id === tool)?.hint;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-4" data-cy="pv-layout-panel">
+      <div className="flex items-center justify-between">
+        <h4 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Grid3X3 className="h-5 w-5 text-blue-600" />
+          Module Layout
+        </h4>
+        <button
+          onClick={onImportAnalysis}
+          disabled={!canImportAnalysis}
+          className="px-3 py-1 text-sm border border-purple-300 text-purple-700 rounded hover:bg-purple-50 disabled:opacity-50"
+          title="Replace the faces with the AI roof analysis segments and fill them"
+        >
+          From AI Analysis
+        </button>
+      </div>
+
+      <div>
+        <div className="flex flex-wrap gap-2">
+          {TOOLS.map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => onToolChange(id)}
+              className={`flex items-center gap-1 px-3 py-1 text-sm rounded border ${
+                tool === id ? 'bg-blue-600 text-white border-blue-600' : 'border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              <Icon className="h-4 w-4" />
+              {label}
+            </button>
+          ))}
+        </div>
+        {activeHint && <p className="text-xs text-gray-500 mt-1">{activeHint}</p>}
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 text-center">
+        <div className="bg-gray-50 rounded p-2">
+          <div className="text-xs text-gray-500">Modules</div>
+          <div className="font-semibold text-gray-900">{summary.moduleCount}</div>
+        </div>
+        <div className="bg-gray-50 rounded p-2">
+          <div className="text-xs text-gray-500">DC</div>
+          <div className="font-semibold text-gray-900">{summary.dcKw.toFixed(2)} kW</div>
+        </div>
+        <div className="bg-gray-50 rounded p-2">
+          <div className="text-xs text-gray-500">Coverage</div>
+          <div className="font-semibold text-gray-900">{summary.coveragePercent}%</div>
+        </div>
+        <div className="bg-gray-50 rounded p-2">
+          <div className="text-xs text-gray-500">Strings</div>
+          <div className="font-semibold text-gray-900">{summary.strings.length}</div>
+        </div>
+      </div>
+
+      {summary.invalidModuleIds.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded p-2 text-sm text-red-700">
+          {summary.invalidModuleIds.length} module{summary.invalidModuleIds.length === 1 ? '' : 's'} sit in a setback,
+          over a keep-out or on another module.
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onChange(PVLayoutService.fillAllFaces(layout))}
+          disabled={layout.faces.length === 0}
+          className="flex-1 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm"
+        >
+          Fill All Faces
+        </button>
+        <button
+          onClick={() => onChange({ ...layout, modules: [] })}
+          disabled={layout.modules.length === 0}
+          className="px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 text-sm"
+        >
+          Clear Modules
+        </button>
+      </div>
+
+      <div className="border-t border-gray-100 pt-3 space-y-2">
+        <label className="block text-sm font-medium text-gray-700">Fire code</label>
+        <select
+          value={ruleSet.id}
+          onChange={(e) => {
+            const preset = PVLayoutService.FIRE_CODE_RULE_SETS.find(r => r.id === e.target.value);
+            if (preset) onChange({ ...layout, ruleSet: preset });
+          }}
+          className={inputClass}
+        >
+          {PVLayoutService.FIRE_CODE_RULE_SETS.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+          {!PVLayoutService.FIRE_CODE_RULE_SETS.some(r => r.id === ruleSet.id) && <option value={ruleSet.id}>{ruleSet.name}</option>}
+        </select>
+        <div className="grid grid-cols-3 gap-2">
+          {PVLayoutService.EDGE_TYPES.map(type => (
+            <label key={type} className="text-xs text-gray-600 capitalize">
+              {type} (in)
+              <input
+                type="number"
+                min="0"
+                value={ruleSet.edgeSetbacksIn[type]}
+                onChange={(e) => updateRuleSet({
+                  id: 'custom',
+                  name: `Custom (${ruleSet.reference || ruleSet.name})`,
+                  edgeSetbacksIn: { ...ruleSet.edgeSetbacksIn, [type]: Number(e.target.value) || 0 }
+                })}
+                className={inputClass}
+              />
+            </label>
+          ))}
+          <label className="text-xs text-gray-600">
+            Pathway (in)
+            <input
+              type="number"
+              min="0"
+              value={ruleSet.pathwayWidthIn}
+              onChange={(e) => updateRuleSet({ id: 'custom', name: `Custom (${ruleSet.reference || ruleSet.name})`, pathwayWidthIn: Number(e.target.value) || 0 })}
+              className={inputClass}
+            />
+          </label>
+        </div>
+        {ruleSet.highCoverageRidgeSetbackIn !== undefined && (
+          <p className="text-xs text-gray-500">
+            Ridge setback rises to {ruleSet.highCoverageRidgeSetbackIn}" above {ruleSet.coverageThresholdPercent}% roof coverage
+            {ruleSet.reference && ` (${ruleSet.reference})`}.
+          </p>
+        )}
+      </div>
+
+      <div className="border-t border-gray-100 pt-3 space-y-2">
+        <label className="block text-sm font-medium text-gray-700">Module</label>
+        <div className="grid grid-cols-4 gap-2">
+          {MODULE_FIELDS.map(({ key, label, step }) => (
+            <label key={key} className="text-xs text-gray-600">
+              {label}
+              <input
+                type="number"
+                min="0"
+                step={step}
+                value={layout.module[key]}
+                onChange={(e) => onChange({ ...layout, module: { ...layout.module, [key]: Number(e.target.value) || 0 } })}
+                className={inputClass}
+              />
+            </label>
+          ))}
+          <label className="text-xs text-gray-600">
+            Max / string
+            <input
+              type="number"
+              min="1"
+              value={layout.maxModulesPerString}
+              onChange={(e) => onChange({ ...layout, maxModulesPerString: Math.max(1, Number(e.target.value) || 1) })}
+              className={inputClass}
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="border-t border-gray-100 pt-3 space-y-2">
+        <label className="block text-sm font-medium text-gray-700">String sizing</label>
+        <select
+          value={stringSizing?.inverterId ?? ''}
+          onChange={(e) => onChange({
+            ...layout,
+            stringSizing: e.target.value
+              ? { ...StringSizingService.DEFAULT_SITE, ...stringSizing, inverterId: e.target.value }
+              : undefined
+          })}
+          className={inputClass}
+        >
+          <option value="">No inverter selected</option>
+          {INVERTERS.map(inverter => (
+            <option key={inverter.componentId} value={inverter.componentId}>
+              {inverter.manufacturer} {inverter.model} ({inverter.minVoltage}-{inverter.maxVoltage} V MPPT)
+            </option>
+          ))}
+        </select>
+        {stringSizing && (
+          <div className="grid grid-cols-4 gap-2">
+            <label className="text-xs text-gray-600">
+              Record low (°C)
+              <input type="number" value={stringSizing.recordLowC} onChange={(e) => updateStringSizing({ recordLowC: Number(e.target.value) || 0 })} className={inputClass} />
+            </label>
+            <label className="text-xs text-gray-600">
+              Design high (°C)
+              <input type="number" value={stringSizing.designHighC} onChange={(e) => updateStringSizing({ designHighC: Number(e.target.value) || 0 })} className={inputClass} />
+            </label>
+            <label className="text-xs text-gray-600">
+              Voc %/°C
+              <input type="number" step={0.01} value={layout.module.tempCoeffVoc ?? ''} onChange={(e) => updateTempCoefficient('tempCoeffVoc', e.target.value)} className={inputClass} />
+            </label>
+            <label className="text-xs text-gray-600">
+              Vmp %/°C
+              <input type="number" step={0.01} value={layout.module.tempCoeffVmp ?? ''} onChange={(e) => updateTempCoefficient('tempCoeffVmp', e.target.value)} className={inputClass} />
+            </label>
+          </div>
+        )}
+        {sizing && (
+          <div className="text-xs text-gray-600 space-y-1" data-cy="string-sizing-results">
+            <div>
+              {sizing.result.minModulesPerString}-{sizing.result.maxModulesPerString} modules per string
+              {' '}(Voc {sizing.result.vocCold} V at {stringSizing?.recordLowC}°C, Vmp {sizing.result.vmpHot} V hot)
+            </div>
+            <div>
+              DC:AC {sizing.result.dcAcRatio}, {sizing.result.mpptCurrent} A per MPPT input
+              {sizing.circuits.length > 0 && `, ${sizing.circuits[0].conductorSize} AWG PV source circuits`}
+            </div>
+            {sizing.result.issues.map(issue => (
+              <div key={issue.code} className={issue.severity === 'error' ? 'text-red-700' : 'text-amber-700'}>
+                {issue.message}{issue.necReference && ` (${issue.necReference})`}
+              </div>
+            ))}
+            {sizing.result.maxModulesPerString >= sizing.result.minModulesPerString &&
+              sizing.result.maxModulesPerString !== layout.maxModulesPerString && (
+              <button
+                onClick={() => onChange({ ...layout, maxModulesPerString: sizing.result.maxModulesPerString })}
+                className="w-full px-3 py-1 text-sm border border-blue-300 text-blue-700 rounded hover:bg-blue-50"
+              >
+                Use {sizing.result.maxModulesPerString} modules per string
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {selectedFace && (
+        <div className="border-t border-gray-100 pt-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <input
+              type="text"
+              value={selectedFace.label}
+              onChange={(e) => updateFace({ label: e.target.value })}
+              className="border border-gray-300 rounded px-2 py-1 text-sm font-medium"
+            />
+            <button onClick={deleteFace} className="p-1 text-red-600 hover:bg-red-50 rounded" title="Delete face and its modules">
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            <label className="text-xs text-gray-600">
+              Pitch (°)
+              <input type="number" min="0" max="60" value={selectedFace.pitchDegrees} onChange={(e) => updateFace({ pitchDegrees: Number(e.target.value) || 0 })} className={inputClass} />
+            </label>
+            <label className="text-xs text-gray-600">
+              Azimuth (°)
+              <input type="number" min="0" max="359" value={selectedFace.azimuthDegrees} onChange={(e) => updateFace({ azimuthDegrees: (Number(e.target.value) || 0) % 360 })} className={inputClass} />
+            </label>
+            <label className="text-xs text-gray-600">
+              Rows
+              <select value={selectedFace.orientation} onChange={(e) => updateFace({ orientation: e.target.value as PVRoofFace['orientation'] })} className={inputClass}>
+                <option value="portrait">Portrait</option>
+                <option value="landscape">Landscape</option>
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">
+              Row gap (in)
+              <input type="number" min="0" value={selectedFace.rowSpacingIn} onChange={(e) => updateFace({ rowSpacingIn: Number(e.target.value) || 0 })} className={inputClass} />
+            </label>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {selectedFace.edgeTypes.map((type, i) => (
+              <select
+                key={i}
+                value={type}
+                onChange={(e) => updateFace({ edgeTypes: selectedFace.edgeTypes.map((t, j) => (j === i ? e.target.value as RoofEdgeType : t)) })}
+                className="border rounded px-1 py-0.5 text-xs capitalize"
+                style={{ borderColor: EDGE_COLORS[type], color: EDGE_COLORS[type] }}
+                title={`Edge ${i + 1}`}
+              >
+                {PVLayoutService.EDGE_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+              </select>
+            ))}
+          </div>
+          <button
+            onClick={() => onChange(PVLayoutService.fillFace(layout, selectedFace.id))}
+            className="w-full px-3 py-1 text-sm border border-blue-300 text-blue-700 rounded hover:bg-blue-50"
+          >
+            Fill {selectedFace.label}
+          </button>
+        </div>
+      )}
+
+      {selectedModule && (
+        <div className="border-t border-gray-100 pt-3 flex items-center gap-2">
+          <span className="text-sm text-gray-700 flex-1">Module {selectedModule.id}</span>
+          <button onClick={() => updateModule({ rotationDegrees: selectedModule.rotationDegrees - 5 })} className="p-1 border rounded hover:bg-gray-50" title="Rotate 5° counter-clockwise">
+            <RotateCcw className="h-4 w-4" />
+          </button>
+          <button onClick={() => updateModule({ rotationDegrees: selectedModule.rotationDegrees + 5 })} className="p-1 border rounded hover:bg-gray-50" title="Rotate 5° clockwise">
+            <RotateCw className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => updateModule({ orientation: selectedModule.orientation === 'portrait' ? 'landscape' : 'portrait' })}
+            className="px-2 py-1 text-xs border rounded hover:bg-gray-50"
+          >
+            {selectedModule.orientation === 'portrait' ? 'Landscape' : 'Portrait'}
+          </button>
+          <button onClick={deleteModule} className="p-1 text-red-600 hover:bg-red-50 rounded" title="Delete module">
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      {summary.strings.length > 0 && (
+        <div className="border-t border-gray-100 pt-3 text-xs text-gray-600 space-y-1">
+          {summary.strings.map(s => (
+            <div key={s.id}>
+              {s.id}: {s.moduleIds.length} × {layout.module.watts} W on {layout.faces.find(f => f.id === s.faceId)?.label}
+              {' '}({(s.moduleIds.length * layout.module.vmp).toFixed(0)} V at Vmp)
+            </div>
+          ))}
+          <div className="text-gray-500">Strings are sent to the single-line diagram and the solar row of the load calculation.</div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -16,6 +16,7 @@ import {
 } from 'lucide-react';
 import { usePhotoEditor } from '../../../context/PhotoEditorContext';
 import { MeasurementCalibrationService } from '../../../services/measurementCalibrationService';
+import { ObstructionTagControl } from '../ObstructionTagControl';
 
 interface EditorToolbarProps {
   showSettings: boolean;
@@ -32,6 +33,7 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({ showSettings }) =>
     setFillColor,
     setFontSize,
     setFontFamily,
+    updateMeasurement,
     removeMeasurement,
     removeAnnotation
   } = usePhotoEditor();
@@ -327,6 +329,13 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({ showSettings }) =>
                   {measurement.label}
                 </div>
               )}
+
+              {measurement.type !== 'angle' && (
+                <ObstructionTagControl
+                  value={measurement.obstruction}
+                  onChange={(obstruction) => updateMeasurement(measurement.id, { obstruction: obstruction ?? undefined })}
+                />
+              )}
             </div>
           ))}
           
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { 
   ZoomIn,
   ZoomOut,
@@ -8,7 +8,8 @@ import {
   Zap,
   Edit,
   Maximize,
-  ChevronDown
+  ChevronDown,
+  Grid3X3
 } from 'lucide-react';
 import { useAerialView } from '../../context/AerialViewContext';
 import { useProjectSettings } from '../../context/ProjectSettingsContext';
@@ -17,9 +18,12 @@ import { CRMProjectIntegrationService } from '../../services/crmProjectIntegrati
 
 import { AddressSearchControls } from './AddressSearchControls';
 import { SolarAnalysisResults } from './SolarAnalysisResults';
+import { SolarAccessReport } from './SolarAccessReport';
 import { StreetViewGallery } from './StreetViewGallery';
 import { AnnotationOverlay, type Annotation, type AnnotationStyle } from './AnnotationOverlay';
 import { PhotoEditor } from './PhotoEditor/PhotoEditor';
+import { PVLayoutOverlay, type PVLayoutTool } from './PVLayoutOverlay';
+import { PVLayoutPanel } from './PVLayoutPanel';
 import { PhotoEditorProvider } from '../../context/PhotoEditorContext';
 
 import { SecureAerialViewService } from '../../services/secureAerialViewService';
@@ -27,6 +31,9 @@ import { AttachmentService } from '../../services/attachmentService';
 import { GoogleSolarService } from '../../services/googleSolarService';
 import { AIRoofAnalysisService, type RoofAnalysisResult } from '../../services/aiRoofAnalysisService';
 import { HighResolutionSatelliteService } from '../../services/highResolutionSatelliteService';
+import { PVLayoutService } from '../../services/pvLayoutService';
+import { usePVLayoutSync } from '../../hooks/usePVLayoutSync';
+import type { PVLayout } from '../../types/pvLayout';
 
 export const SimpleAerialViewMain: React.FC = () => {
   const {
@@ -35,7 +42,9 @@ export const SimpleAerialViewMain: React.FC = () => {
     setSatelliteImage,
     addLinearMeasurement,
     addAreaMeasurement,
-    addPolylineMeasurement
+    addPolylineMeasurement,
+    setRoofAnalysis,
+    setPVLayout
   } = useAerialView();
   
   const { settings } = useProjectSettings();
@@ -47,6 +56,12 @@ export const SimpleAerialViewMain: React.FC = () => {
   const [aiRoofAnalysis, setAiRoofAnalysis] = useState<RoofAnalysisResult | null>(null);
   const [aiAnalysisLoading, setAiAnalysisLoading] = useState(false);
   
+  // Module layout editor state
+  const [layoutEditing, setLayoutEditing] = useState(false);
+  const [layoutTool, setLayoutTool] = useState<PVLayoutTool>('select');
+  const [selectedFaceId, setSelectedFaceId] = useState<string | null>(null);
+  const [selectedModuleId, setSelectedModuleId] = useState<string | null>(null);
+  
   // Photo Editor state
   const [photoEditorOpen, setPhotoEditorOpen] = useState(false);
   const [photoEditorImage, setPhotoEditorImage] = useState<{
@@ -586,12 +601,46 @@ export const SimpleAerialViewMain: React.FC = () => {
         state.coordinates.longitude
       );
       setAiRoofAnalysis(result);
+      setRoofAnalysis(result);
     } catch (error) {
       console.error('AI roof analysis failed:', error);
     } finally {
       setAiAnalysisLoading(false);
     }
-  }, [state.satelliteImage, state.coordinates]);
+  }, [state.satelliteImage, state.coordinates, setRoofAnalysis]);
+
+  // Module layout over the satellite image; counts and strings flow to the load calculation and SLD
+  const layoutSummary = useMemo(
+    () => (state.pvLayout ? PVLayoutService.summarize(state.pvLayout) : null),
+    [state.pvLayout]
+  );
+  usePVLayoutSync(state.pvLayout, layoutSummary);
+
+  // Segments from the AI roof analysis replace its fixed auto-layout as editable faces
+  const layoutFromAnalysis = useCallback((layout: PVLayout): PVLayout => {
+    if (!aiRoofAnalysis || !imageRef) return layout;
+    const scale = {
+      x: (imageRef.naturalWidth || imageRef.clientWidth) / AIRoofAnalysisService.ANALYSIS_SIZE,
+      y: (imageRef.naturalHeight || imageRef.clientHeight) / AIRoofAnalysisService.ANALYSIS_SIZE
+    };
+    const faces = PVLayoutService.facesFromRoofAnalysis(aiRoofAnalysis, scale);
+    return PVLayoutService.fillAllFaces({ ...layout, faces });
+  }, [aiRoofAnalysis, imageRef]);
+
+  const handleToggleLayoutEditor = useCallback(() => {
+    if (!layoutEditing && !state.pvLayout && state.coordinates) {
+      const feetPerPixel = AerialMeasurementService.calculateMetersPerPixel(state.zoom, state.coordinates.latitude) * 3.28084;
+      setPVLayout(layoutFromAnalysis(PVLayoutService.createLayout([], feetPerPixel)));
+    }
+    setLayoutEditing(!layoutEditing);
+  }, [layoutEditing, state.pvLayout, state.coordinates, state.zoom, setPVLayout, layoutFromAnalysis]);
+
+  const handleImportAnalysisLayout = useCallback(() => {
+    if (!state.pvLayout) return;
+    setPVLayout(layoutFromAnalysis(state.pvLayout));
+    setSelectedFaceId(null);
+    setSelectedModuleId(null);
+  }, [state.pvLayout, setPVLayout, layoutFromAnalysis]);
 
   // Save satellite image
   const handleSaveImage = useCallback(async () => {
@@ -878,6 +927,24 @@ export const SimpleAerialViewMain: React.FC = () => {
                     </svg>
                   </div>
                 )}
+                {layoutEditing && state.pvLayout && layoutSummary && imageRef && (
+                  <div className="absolute inset-0 z-40">
+                    <PVLayoutOverlay
+                      layout={state.pvLayout}
+                      summary={layoutSummary}
+                      naturalSize={{
+                        width: imageRef.naturalWidth || imageRef.clientWidth,
+                        height: imageRef.naturalHeight || imageRef.clientHeight
+                      }}
+                      tool={layoutTool}
+                      selectedFaceId={selectedFaceId}
+                      selectedModuleId={selectedModuleId}
+                      onChange={setPVLayout}
+                      onSelectFace={setSelectedFaceId}
+                      onSelectModule={setSelectedModuleId}
+                    />
+                  </div>
+                )}
                 <div className="absolute bottom-2 right-2 text-xs text-white bg-black bg-opacity-50 px-2 py-1 rounded">
                   © Google
                 </div>
@@ -910,6 +977,18 @@ export const SimpleAerialViewMain: React.FC = () => {
                   {aiAnalysisLoading ? 'Processing...' : 'AI Roof Analysis'}
                 </button>
                 
+                <button
+                  onClick={handleToggleLayoutEditor}
+                  disabled={!state.coordinates}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-lg disabled:opacity-50 ${
+                    layoutEditing ? 'bg-indigo-700 text-white' : 'bg-indigo-600 text-white hover:bg-indigo-700'
+                  }`}
+                  title="Lay out modules with fire-code setbacks and keep-outs"
+                >
+                  <Grid3X3 className="h-4 w-4" />
+                  {layoutEditing ? 'Done' : 'Module Layout'}
+                </button>
+                
                 <button
                   onClick={() => state.satelliteImage && handleOpenPhotoEditor(state.satelliteImage, 'satellite')}
                   disabled={!state.satelliteImage}
@@ -976,6 +1055,23 @@ export const SimpleAerialViewMain: React.FC = () => {
             </div>
           )}
 
+          {/* Module layout editor controls */}
+          {layoutEditing && state.pvLayout && layoutSummary && (
+            <PVLayoutPanel
+              layout={state.pvLayout}
+              summary={layoutSummary}
+              tool={layoutTool}
+              selectedFaceId={selectedFaceId}
+              selectedModuleId={selectedModuleId}
+              canImportAnalysis={!!aiRoofAnalysis}
+              onToolChange={setLayoutTool}
+              onChange={setPVLayout}
+              onSelectFace={setSelectedFaceId}
+              onSelectModule={setSelectedModuleId}
+              onImportAnalysis={handleImportAnalysisLayout}
+            />
+          )}
+
           {/* Photo Editor Integration */}
           <div className="bg-white rounded-lg border border-gray-200 p-6">
             <h4 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
@@ -1007,6 +1103,12 @@ export const SimpleAerialViewMain: React.FC = () => {
             onRefresh={handleSolarAnalysis}
           />
 
+          {/* Horizon and solar access from tagged obstructions */}
+          <SolarAccessReport
+            roofSegmentStats={solarAnalysis?.roofSegments}
+            imageSize={imageRef ? { width: imageRef.width, height: imageRef.height } : null}
+          />
+
           {/* Street View Gallery */}
           <StreetViewGallery onEditImage={handleOpenPhotoEditor} />
         </div>
@@ -0,0 +1,152 @@
+import React, { useCallback, useState } from 'react';
+import { TreePine } from 'lucide-react';
+import { useAerialView } from '../../context/AerialViewContext';
+import { usePhotoEditor } from '../../context/PhotoEditorContext';
+import { SolarAccessService } from '../../services/solarAccessService';
+import { SunPathDiagram } from './SunPathDiagram';
+import type { SolarAccessReport as SolarAccessReportData } from '../../types/solarAccess';
+
+interface SolarAccessReportProps {
+  roofSegmentStats?: any[];
+  imageSize: { width: number; height: number } | null;
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export const SolarAccessReport: React.FC<SolarAccessReportProps> = ({ roofSegmentStats, imageSize }) => {
+  const { state } = useAerialView();
+  const { state: editorState } = usePhotoEditor();
+  const [report, setReport] = useState<SolarAccessReportData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedSegment, setSelectedSegment] = useState(0);
+
+  const taggedCount = [...state.measurements.area, ...state.measurements.polyline].filter(m => m.obstruction).length
+    + editorState.measurements.filter(m => m.obstruction).length;
+
+  const handleRunReport = useCallback(async () => {
+    if (!state.coordinates || !imageSize) return;
+    const { latitude, longitude } = state.coordinates;
+
+    const obstructions = SolarAccessService.obstructionsFromAerial(state.measurements, {
+      zoom: state.zoom,
+      latitude,
+      center: { x: imageSize.width / 2, y: imageSize.height / 2 }
+    });
+
+    // Photo editor shapes only line up with the site once the satellite image is calibrated
+    const editorMetadata = editorState.imageMetadata;
+    if (editorState.imageType === 'satellite' && editorMetadata?.scale) {
+      const pixelsPerFoot = editorState.unit === 'm' ? editorMetadata.scale / 3.28084 : editorMetadata.scale;
+      obstructions.push(...SolarAccessService.obstructionsFromEditor(
+        editorState.measurements,
+        pixelsPerFoot,
+        { x: editorMetadata.width / 2, y: editorMetadata.height / 2 }
+      ));
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const segments = SolarAccessService.segmentsFromRoofStats(roofSegmentStats, state.coordinates);
+      setReport(await SolarAccessService.getReport(latitude, longitude, segments, obstructions));
+      setSelectedSegment(0);
+    } catch (err: any) {
+      setError(err?.userMessage || err?.message || 'Solar access analysis failed');
+    } finally {
+      setLoading(false);
+    }
+  }, [state.coordinates, state.measurements, state.zoom, imageSize, editorState, roofSegmentStats]);
+
+  const segment = report?.segments[selectedSegment];
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <h4 className="text-lg font-semibold text-gray-900 mb-2 flex items-center gap-2">
+        <TreePine className="h-5 w-5 text-green-700" />
+        Solar Access
+      </h4>
+      <p className="text-sm text-gray-600 mb-4">
+        Tag area or multi-point measurements as trees, chimneys or neighboring buildings with a height,
+        then run the report for monthly solar access and TSRF per roof segment.
+      </p>
+
+      <div className="flex items-center justify-between mb-4">
+        <span className="text-xs text-gray-500">{taggedCount} tagged obstruction{taggedCount === 1 ? '' : 's'}</span>
+        <button
+          onClick={handleRunReport}
+          disabled={loading || !state.coordinates || !imageSize}
+          className="px-3 py-2 bg-green-700 text-white rounded-lg hover:bg-green-800 disabled:opacity-50 text-sm"
+        >
+          {loading ? 'Analyzing...' : 'Run Solar Access Report'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded p-2 text-sm text-red-700 mb-4">{error}</div>
+      )}
+
+      {report && segment && (
+        <div className="space-y-4">
+          {report.segments.length > 1 && (
+            <select
+              value={selectedSegment}
+              onChange={(e) => setSelectedSegment(Number(e.target.value))}
+              className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              aria-label="Roof segment"
+            >
+              {report.segments.map((s, i) => (
+                <option key={s.id} value={i}>
+                  Segment {i + 1}: {s.pitchDegrees.toFixed(0)}° pitch, {s.azimuthDegrees.toFixed(0)}° azimuth
+                </option>
+              ))}
+            </select>
+          )}
+
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="bg-gray-50 rounded p-2">
+              <div className="text-xs text-gray-500">Solar Access</div>
+              <div className="font-semibold text-gray-900">{segment.annual.solarAccess.toFixed(1)}%</div>
+            </div>
+            <div className="bg-gray-50 rounded p-2">
+              <div className="text-xs text-gray-500">TOF</div>
+              <div className="font-semibold text-gray-900">{segment.annual.tof.toFixed(1)}%</div>
+            </div>
+            <div className="bg-gray-50 rounded p-2">
+              <div className="text-xs text-gray-500">TSRF</div>
+              <div className="font-semibold text-green-700">{segment.annual.tsrf.toFixed(1)}%</div>
+            </div>
+          </div>
+
+          <div className="flex justify-center">
+            <SunPathDiagram sunPath={report.sunPath} horizon={segment.horizon} />
+          </div>
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-medium">Month</th>
+                <th className="text-right font-medium">Solar Access</th>
+                <th className="text-right font-medium">TSRF</th>
+              </tr>
+            </thead>
+            <tbody>
+              {segment.monthly.map(month => (
+                <tr key={month.month} className="border-t border-gray-100">
+                  <td>{MONTH_NAMES[month.month - 1]}</td>
+                  <td className="text-right">{month.solarAccess.toFixed(1)}%</td>
+                  <td className="text-right">{month.tsrf.toFixed(1)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="text-xs text-gray-500">
+            TOF compares this segment with a {report.reference.pitchDegrees.toFixed(0)}° plane facing {report.reference.azimuthDegrees}°.
+            Models: {Object.values(report.models).join(', ')}.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React from 'react';
+import { SolarAccessService } from '../../services/solarAccessService';
+import type { HorizonProfile, SunPathDay } from '../../types/solarAccess';
+
+interface SunPathDiagramProps {
+  sunPath: SunPathDay[];
+  horizon?: HorizonProfile;
+  size?: number;
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const ELEVATION_RINGS = [0, 30, 60];
+const CARDINALS = [
+  { label: 'N', azimuth: 0 },
+  { label: 'E', azimuth: 90 },
+  { label: 'S', azimuth: 180 },
+  { label: 'W', azimuth: 270 }
+];
+
+const toPoints = (points: Array<{ x: number; y: number }>) => points.map(p => `${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(' ');
+
+/**
+ * Polar sun-path diagram with the obstruction horizon shaded in from the rim
+ */
+export const SunPathDiagram: React.FC<SunPathDiagramProps> = ({ sunPath, horizon, size = 320 }) => {
+  const radius = size / 2 - 20;
+  const project = (azimuth: number, elevation: number) => SolarAccessService.projectSkyPosition(azimuth, elevation, radius);
+
+  // One wedge per azimuth bin, from the rim up to the obstruction elevation
+  const horizonWedges = (horizon?.elevations || [])
+    .map((elevation, i) => ({ elevation, start: i * horizon!.azimuthStep, end: (i + 1) * horizon!.azimuthStep }))
+    .filter(wedge => wedge.elevation > 0)
+    .map(wedge => [
+      project(wedge.start, 0),
+      project(wedge.end, 0),
+      project(wedge.end, wedge.elevation),
+      project(wedge.start, wedge.elevation)
+    ]);
+
+  // Same clock hour across the year
+  const byHour = new Map<number, Array<{ x: number; y: number }>>();
+  sunPath.forEach(day => day.points
+    .filter(point => Number.isInteger(point.hour))
+    .forEach(point => {
+      byHour.set(point.hour, [...(byHour.get(point.hour) || []), project(point.azimuth, point.elevation)]);
+    }));
+  const hourLines = Array.from(byHour.entries()).filter(([, points]) => points.length > 1);
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`${-size / 2} ${-size / 2} ${size} ${size}`}
+      role="img"
+      aria-label="Sun path diagram"
+    >
+      {ELEVATION_RINGS.map(elevation => (
+        <circle key={elevation} r={radius * (90 - elevation) / 90} fill="none" stroke="#d1d5db" strokeWidth={1} />
+      ))}
+      {CARDINALS.map(({ label, azimuth }) => {
+        const point = SolarAccessService.projectSkyPosition(azimuth, -12, radius);
+        return (
+          <text key={label} x={point.x} y={point.y} fontSize={11} textAnchor="middle" dominantBaseline="middle" fill="#374151">
+            {label}
+          </text>
+        );
+      })}
+
+      {horizonWedges.map((wedge, i) => (
+        <polygon key={`horizon-${i}`} points={toPoints(wedge)} fill="#6b7280" fillOpacity={0.6} stroke="none" />
+      ))}
+
+      {hourLines.map(([hour, points]) => (
+        <polyline key={`hour-${hour}`} points={toPoints(points)} fill="none" stroke="#fcd34d" strokeWidth={0.75} />
+      ))}
+
+      {sunPath.map(day => (
+        <g key={`month-${day.month}`}>
+          <polyline
+            points={toPoints(day.points.map(point => project(point.azimuth, point.elevation)))}
+            fill="none"
+            stroke={day.month === 6 || day.month === 12 ? '#d97706' : '#f59e0b'}
+            strokeWidth={day.month === 6 || day.month === 12 ? 1.5 : 0.75}
+          />
+          {(day.month === 6 || day.month === 12) && day.points.length > 0 && (() => {
+            const noon = day.points.reduce((best, point) => (point.elevation > best.elevation ? point : best));
+            const label = project(noon.azimuth, noon.elevation);
+            return (
+              <text x={label.x} y={label.y - 4} fontSize={9} textAnchor="middle" fill="#92400e">
+                {MONTH_NAMES[day.month - 1]} 21
+              </text>
+            );
+          })()}
+        </g>
+      ))}
+    </svg>
+  );
+};
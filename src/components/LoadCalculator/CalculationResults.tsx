@@ -1,17 +1,19 @@
-import React from 'react';
-import { Download, BarChart3, Battery } from 'lucide-react';
+import React, { useState } from 'react';
+import { Download, BarChart3, Battery, FileStack } from 'lucide-react';
 import { useLoadCalculator } from '../../hooks/useLoadCalculator';
 import { exportToPDF } from '../../services/pdfExportService';
 import { TooltipWrapper } from '../UI/TooltipWrapper';
+import { PlanSetExportDialog } from './PlanSetExportDialog';
 
 export const CalculationResults: React.FC = React.memo(() => {
   const { state, calculations } = useLoadCalculator();
+  const [showPlanSet, setShowPlanSet] = useState(false);
+
+  // Generate project ID for attachments
+  const projectId = `project_${state.projectInfo.customerName}_${state.projectInfo.propertyAddress}`.replace(/[^a-zA-Z0-9_]/g, '_') || 'default_project';
 
   const handleExportReport = async () => {
     try {
-      // Generate project ID for attachments
-      const projectId = `project_${state.projectInfo.customerName}_${state.projectInfo.propertyAddress}`.replace(/[^a-zA-Z0-9_]/g, '_') || 'default_project';
-      
       await exportToPDF(
         calculations,
         state.projectInfo,
@@ -19,7 +21,7 @@ export const CalculationResults: React.FC = React.memo(() => {
         state.calculationMethod,
         state.mainBreaker,
         state.panelDetails,
-        state.codeYear,
+        calculations.codeYear || state.codeYear,
         state.squareFootage,
         state.useEMS,
         state.emsMaxLoad,
@@ -47,13 +49,22 @@ export const CalculationResults: React.FC = React.memo(() => {
             </div>
             <h2 className="text-xl font-bold text-white">Results</h2>
           </div>
-          <button
-            onClick={handleExportReport}
-            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-indigo-600 bg-white rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-white/50 transition-all duration-200 shadow-sm"
-          >
-            <Download className="h-4 w-4" />
-            Export PDF
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleExportReport}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-indigo-600 bg-white rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-white/50 transition-all duration-200 shadow-sm"
+            >
+              <Download className="h-4 w-4" />
+              Export PDF
+            </button>
+            <button
+              onClick={() => setShowPlanSet(true)}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-white/20 rounded-lg hover:bg-white/30 focus:outline-none focus:ring-2 focus:ring-white/50 transition-all duration-200"
+            >
+              <FileStack className="h-4 w-4" />
+              Plan Set
+            </button>
+          </div>
         </div>
 
         <div className="space-y-4">
@@ -88,6 +99,12 @@ export const CalculationResults: React.FC = React.memo(() => {
             </span>
           </div>
 
+          {/* Code Edition */}
+          <div className="flex justify-between items-center p-3 bg-white/10 rounded-lg">
+            <span className="text-white/90">Code Edition</span>
+            <span className="font-mono font-bold text-white">NEC {calculations.codeYear || state.codeYear}</span>
+          </div>
+
         </div>
       </div>
 
@@ -181,6 +198,8 @@ export const CalculationResults: React.FC = React.memo(() => {
         </div>
       </div>
 
+      <PlanSetExportDialog isOpen={showPlanSet} onClose={() => setShowPlanSet(false)} projectId={projectId} />
+
       {/* Method Info Card */}
       <div className="bg-blue-50 rounded-lg p-4">
         <h3 className="text-sm font-medium text-blue-800 mb-2">Calculation Method</h3>
@@ -1,6 +1,10 @@
 import React from 'react';
 import { Calculator, Info } from 'lucide-react';
 import { useLoadCalculator } from '../../hooks/useLoadCalculator';
+import type { PhaseId } from '../../types';
+import { getNECRulePack } from '../../constants';
+import { InterconnectionComparison } from './InterconnectionComparison';
+import { LoadProfileChart } from './LoadProfileChart';
 
 export const CalculationSummary: React.FC = () => {
   const { state, calculations } = useLoadCalculator();
@@ -11,6 +15,8 @@ export const CalculationSummary: React.FC = () => {
   const laundryVA = 1500;
   const bathroomVA = 1500;
   const baseGeneralVA = lightingVA + smallApplianceVA + laundryVA + bathroomVA;
+  const rules = getNECRulePack(state.codeYear);
+  const existingLoadMultiplier = rules.existingLoad.demandMultiplier;
   
   // Get the correct demand factor calculation details to match actual calculation logic
   const getDemandFactorCalculation = () => {
@@ -39,14 +45,16 @@ export const CalculationSummary: React.FC = () => {
           first: first3kVA, 
           next117: next117kVA, 
           above120: above120kVA,
-          method: 'NEC 220.42 Standard Method',
+          method: `NEC ${rules.demandFactors.standard.section} Standard Method`,
           appliancesIncluded: false
         };
       }
       case 'existing': {
-        if (state.actualDemandData?.enabled && state.actualDemandData.averageDemand > 0) {
+        // Matches the calculation: only the recorded peak qualifies, average-only data uses the 40% factor
+        const measuredDemand = state.actualDemandData?.peakDemand;
+        if (state.actualDemandData?.enabled && measuredDemand > 0) {
           return { 
-            actualDemand: state.actualDemandData.averageDemand, 
+            actualDemand: measuredDemand, 
             method: 'NEC 220.87 Existing Dwelling (Actual Data)',
             appliancesIncluded: true
           };
@@ -76,6 +84,7 @@ export const CalculationSummary: React.FC = () => {
   const activeHvacLoads = (state.loads.hvacLoads || []).filter(load => load.quantity > 0);
   const activeEvseLoads = (state.loads.evseLoads || []).filter(load => load.quantity > 0);
   const activeSolarLoads = (state.loads.solarBatteryLoads || []).filter(load => load.kw > 0);
+  const phaseIds: PhaseId[] = state.panelDetails.phases === 3 ? ['A', 'B', 'C'] : ['A', 'B'];
 
   return (
     <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
@@ -184,10 +193,25 @@ export const CalculationSummary: React.FC = () => {
               {state.calculationMethod === 'existing' && (
                 <>
                   {demandCalc.actualDemand ? (
-                    <div className="flex justify-between text-sm">
-                      <span>Actual Demand Data:</span>
-                      <span className="font-mono">{(demandCalc.actualDemand * 1000).toLocaleString()} VA</span>
-                    </div>
+                    <>
+                      <div className="flex justify-between text-sm">
+                        <span>Recorded Maximum Demand:</span>
+                        <span className="font-mono">{(demandCalc.actualDemand * 1000).toLocaleString()} VA × {existingLoadMultiplier * 100}%</span>
+                      </div>
+                      {state.actualDemandData.dataSource && (
+                        <div className="text-xs text-emerald-700">
+                          {state.actualDemandData.dataSource}
+                          {state.actualDemandData.measurementPeriod && ` - ${state.actualDemandData.measurementPeriod}`}
+                        </div>
+                      )}
+                      {state.actualDemandData.loadProfile && (
+                        <LoadProfileChart
+                          profile={state.actualDemandData.loadProfile}
+                          peakKW={demandCalc.actualDemand}
+                          demandMultiplier={existingLoadMultiplier}
+                        />
+                      )}
+                    </>
                   ) : (
                     <>
                       <div className="flex justify-between text-sm">
@@ -302,11 +326,33 @@ export const CalculationSummary: React.FC = () => {
                 <span className="font-mono text-purple-800">{(calculations.totalVA || 0).toLocaleString()} VA</span>
               </div>
               <div className="flex justify-between font-bold text-lg">
-                <span className="text-purple-800">Total Amps @ 240V:</span>
+                <span className="text-purple-800">Total Amps @ {calculations.phaseLoads?.system ?? '240V'}:</span>
                 <span className="font-mono text-purple-800">{(calculations.totalAmps || 0).toFixed(1)} A</span>
               </div>
             </div>
             
+            {calculations.phaseLoads && (
+              <div className="bg-purple-100 p-2 rounded border border-purple-300 mt-3">
+                <div className="text-purple-800 font-medium mb-1">Phase Balance ({calculations.phaseLoads.system}):</div>
+                {phaseIds.map(phase => (
+                  <div key={phase} className="flex justify-between">
+                    <span className="text-purple-700">Phase {phase}:</span>
+                    <span className="font-mono">
+                      {Math.round(calculations.phaseLoads!.phaseVA[phase]).toLocaleString()} VA ({calculations.phaseLoads!.phaseAmps[phase].toFixed(1)} A)
+                    </span>
+                  </div>
+                ))}
+                <div className="flex justify-between">
+                  <span className="text-purple-700">Neutral Current:</span>
+                  <span className="font-mono">{calculations.phaseLoads.neutralAmps.toFixed(1)} A</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-purple-700">Phase Imbalance:</span>
+                  <span className="font-mono">{calculations.phaseLoads.imbalancePercent.toFixed(1)}%</span>
+                </div>
+              </div>
+            )}
+            
             <div className="bg-purple-100 p-2 rounded border border-purple-300 mt-3">
               <div className="flex justify-between">
                 <span className="text-purple-700">Service Size:</span>
@@ -378,6 +424,13 @@ export const CalculationSummary: React.FC = () => {
                         {calculations.interconnectionCompliant ? 'COMPLIANT' : 'NON-COMPLIANT'}
                       </span>
                     </div>
+                    <InterconnectionComparison
+                      sources={activeSolarLoads}
+                      mainBreaker={state.mainBreaker}
+                      busRating={busRating}
+                      panelDetails={state.panelDetails}
+                      codeYear={calculations.codeYear || state.codeYear}
+                    />
                   </div>
                 );
               })()}
@@ -0,0 +1,70 @@
+import React, { useMemo } from 'react';
+import { CheckCircle, XCircle, MinusCircle } from 'lucide-react';
+import { InterconnectionService } from '../../services/interconnectionService';
+import type { PanelDetails, SolarBatteryLoad } from '../../types';
+
+interface InterconnectionComparisonProps {
+  sources: SolarBatteryLoad[];
+  mainBreaker: number;
+  busRating: number;
+  panelDetails: PanelDetails;
+  codeYear?: string;
+}
+
+export const InterconnectionComparison: React.FC<InterconnectionComparisonProps> = ({
+  sources,
+  mainBreaker,
+  busRating,
+  panelDetails,
+  codeYear
+}) => {
+  const evaluation = useMemo(
+    () => InterconnectionService.evaluate(
+      { ...InterconnectionService.panelInputs(panelDetails), sources, mainBreaker, busRating },
+      codeYear
+    ),
+    [sources, mainBreaker, busRating, panelDetails, codeYear]
+  );
+
+  if (evaluation.sources.length === 0) return null;
+
+  return (
+    <div className="mt-3 pt-2 border-t border-yellow-300">
+      <div className="text-yellow-800 font-medium mb-1">
+        Interconnection Options (NEC {evaluation.codeYear}) - sources {evaluation.sourceAmps.toFixed(1)} A at 125%
+        {evaluation.batteryAmps > 0 && <span> incl. {evaluation.batteryAmps.toFixed(1)} A battery backfeed</span>}
+      </div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-yellow-800">
+            <th className="py-1">Option</th>
+            <th className="py-1">NEC</th>
+            <th className="py-1 text-right">Limit</th>
+            <th className="py-1 text-right">Breaker</th>
+            <th className="py-1 text-center">Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {evaluation.options.map(option => (
+            <tr key={option.id} className={`border-t border-yellow-200 ${option.inUse ? 'font-semibold' : ''}`} title={option.labels.join('\n')}>
+              <td className="py-1 pr-2">
+                {option.description}
+                <div className="text-yellow-700 font-normal">{option.reason}</div>
+              </td>
+              <td className="py-1 font-mono">{option.section}</td>
+              <td className="py-1 font-mono text-right">{option.limitAmps === null ? '-' : `${option.limitAmps} A`}</td>
+              <td className="py-1 font-mono text-right">{option.requiredBreakerAmps} A</td>
+              <td className="py-1 text-center">
+                {!option.evaluated
+                  ? <MinusCircle className="h-4 w-4 text-gray-400 inline" />
+                  : option.compliant
+                    ? <CheckCircle className="h-4 w-4 text-green-600 inline" />
+                    : <XCircle className="h-4 w-4 text-red-600 inline" />}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { useProjectSettings } from '../../context/ProjectSettingsContext';
+import { getNECRulePack } from '../../constants';
+import type { InterconnectionOptionId } from '../../constants';
+import type { PanelDetails } from '../../types';
+
+type AmpsField = 'loadBreakerTotal' | 'feederAmpacity' | 'feederOCPD' | 'pcsControlledCurrent';
+
+const AMPS_FIELDS: { field: AmpsField; label: string; option: InterconnectionOptionId }[] = [
+  { field: 'loadBreakerTotal', label: 'Sum of Load Breakers (A)', option: 'load_side_sum_of_breakers' },
+  { field: 'feederAmpacity', label: 'Feeder Ampacity (A)', option: 'feeder_tap' },
+  { field: 'feederOCPD', label: 'Feeder OCPD (A)', option: 'feeder_tap' },
+  { field: 'pcsControlledCurrent', label: 'PCS Controlled Current (A)', option: 'power_control_system' }
+];
+
+/**
+ * Panel and feeder details the alternative NEC 705 interconnection options are checked against.
+ * Options stay "not evaluated" until their inputs are entered, so blank fields are kept undefined.
+ */
+export const InterconnectionInputs: React.FC = () => {
+  const { settings, updatePanelDetails } = useProjectSettings();
+  const { panelDetails } = settings;
+  const options = getNECRulePack(settings.codeYear).interconnection.options;
+  const sectionOf = (id: InterconnectionOptionId) => options.find(option => option.id === id)?.section;
+
+  const updateAmps = (field: AmpsField, value: string) => {
+    const amps = parseFloat(value);
+    updatePanelDetails({ [field]: value === '' || !(amps >= 0) ? undefined : amps } as Partial<PanelDetails>);
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-4">
+      <h4 className="text-sm font-medium text-gray-900 mb-3">Interconnection Details</h4>
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 text-sm">
+        <label className="flex items-center gap-2 text-gray-700">
+          <input
+            type="checkbox"
+            checked={panelDetails.centerFed ?? false}
+            onChange={(e) => updatePanelDetails({ centerFed: e.target.checked })}
+            className="rounded border-gray-300 text-yellow-600 focus:ring-yellow-500"
+          />
+          Center-fed panel
+          <span className="text-xs text-gray-400">NEC {sectionOf('load_side_center_fed')}</span>
+        </label>
+        {AMPS_FIELDS.filter(({ option }) => sectionOf(option)).map(({ field, label, option }) => (
+          <div key={field}>
+            <label htmlFor={`interconnection-${field}`} className="block text-xs font-medium text-gray-600 mb-1">
+              {label} <span className="text-gray-400">NEC {sectionOf(option)}</span>
+            </label>
+            <input
+              id={`interconnection-${field}`}
+              type="number"
+              min="0"
+              value={panelDetails[field] ?? ''}
+              onChange={(e) => updateAmps(field, e.target.value)}
+              className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
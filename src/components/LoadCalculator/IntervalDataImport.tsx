@@ -0,0 +1,77 @@
+import React, { useCallback, useState } from 'react';
+import { Upload, AlertCircle } from 'lucide-react';
+import { useProjectSettings } from '../../context/ProjectSettingsContext';
+import { IntervalDataImportService } from '../../services/intervalDataImportService';
+import type { ActualDemandData } from '../../types';
+import type { AppError } from '../../types/error';
+
+export const IntervalDataImport: React.FC = () => {
+  const { settings, updateActualDemandData } = useProjectSettings();
+  const actualDemandData: ActualDemandData = settings.actualDemandData;
+  const codeYear: string = settings.codeYear;
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const { actualDemandData: imported } = IntervalDataImportService.importFile(e.target?.result as string, file.name, codeYear);
+        updateActualDemandData(imported);
+        setError(null);
+      } catch (importError) {
+        setError((importError as AppError).userMessage || 'Failed to import interval data. Please check the file format.');
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  }, [codeYear, updateActualDemandData]);
+
+  const quality = actualDemandData.dataQuality;
+
+  return (
+    <div className="mt-6 pt-6 border-t border-white/20">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Utility Demand Data (NEC 220.87)</h3>
+          <p className="text-sm text-white/80">
+            Import a Green Button XML/CSV or 15-minute interval export to use the recorded 12-month peak
+          </p>
+        </div>
+        <label className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium bg-white text-blue-600 hover:bg-blue-50 shadow-lg cursor-pointer">
+          <Upload className="h-4 w-4" />
+          Import Interval Data
+          <input type="file" accept=".xml,.csv,.txt" onChange={handleFile} className="hidden" />
+        </label>
+      </div>
+
+      {error && (
+        <div className="mt-3 p-3 bg-red-500/20 border border-red-400 rounded-lg">
+          <p className="text-sm text-white">{error}</p>
+        </div>
+      )}
+
+      {actualDemandData.enabled && actualDemandData.peakDemand > 0 && (
+        <div className="mt-3 p-3 bg-white/10 rounded-lg text-sm text-white/90 space-y-1">
+          <div>
+            Peak demand: <span className="font-mono">{actualDemandData.peakDemand} kW</span>
+            {actualDemandData.peakTimestamp && <span className="text-white/70"> on {actualDemandData.peakTimestamp} meter time</span>}
+            {' '}- average <span className="font-mono">{actualDemandData.averageDemand} kW</span>
+          </div>
+          <div className="text-white/70">{actualDemandData.dataSource} - {actualDemandData.measurementPeriod}</div>
+          {quality && quality.warnings.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {quality.warnings.map(warning => (
+                <li key={warning} className="flex items-start gap-2 text-yellow-200">
+                  <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <span>{warning}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -6,6 +6,7 @@ import { ValidationMessages } from './ValidationMessages';
 import { LoadInputTabs } from './LoadInputTabs';
 import { CalculationResults } from './CalculationResults';
 import { CalculationSummary } from './CalculationSummary';
+import { SolarProductionSummary } from './SolarProductionSummary';
 import { LoadCalculationGuide } from './LoadCalculationGuide';
 import { DefinitionsGlossary } from './DefinitionsGlossary';
 
@@ -39,6 +40,7 @@ export const LoadCalculatorMain: React.FC = memo(() => {
               <div data-cy="calculation-summary">
                 <CalculationSummary />
               </div>
+              <SolarProductionSummary />
             </div>
           </div>
           {/* Bottom Section - Full Width on Mobile, 6/12 each on Desktop */}
@@ -2,6 +2,7 @@ import React from 'react';
 import { AlertCircle, Info, Zap, ChevronDown, ChevronUp } from 'lucide-react';
 import { useLoadCalculator } from '../../hooks/useLoadCalculator';
 import { TooltipWrapper } from '../UI/TooltipWrapper';
+import { ServiceUpgradePlannerPanel } from './ServiceUpgradePlannerPanel';
 
 interface LoadManagementSectionProps {
   isLoadManagementExpanded: boolean;
@@ -519,6 +520,8 @@ export const LoadManagementSection: React.FC<LoadManagementSectionProps> = React
                   </div>
                 </div>
               )}
+
+              <ServiceUpgradePlannerPanel />
             </div>
           </div>
         )}
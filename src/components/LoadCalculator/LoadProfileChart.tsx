@@ -0,0 +1,60 @@
+import React, { useMemo } from 'react';
+import type { DemandProfilePoint } from '../../types';
+
+interface LoadProfileChartProps {
+  profile: DemandProfilePoint[];
+  peakKW: number;
+  demandMultiplier: number;
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const PADDING = { top: 10, right: 10, bottom: 20, left: 36 };
+
+export const LoadProfileChart: React.FC<LoadProfileChartProps> = ({ profile, peakKW, demandMultiplier }) => {
+  const chart = useMemo(() => {
+    const demandKW = peakKW * demandMultiplier;
+    const maxKW = Math.max(demandKW, ...profile.map(point => point.peakKW)) || 1;
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+    const x = (index: number) => PADDING.left + (profile.length > 1 ? (index / (profile.length - 1)) * plotWidth : plotWidth / 2);
+    const y = (kW: number) => PADDING.top + plotHeight - (kW / maxKW) * plotHeight;
+    const line = (field: 'peakKW' | 'averageKW') => profile.map((point, index) => `${x(index).toFixed(1)},${y(point[field]).toFixed(1)}`).join(' ');
+    // Label the first day of each month along the axis
+    const monthTicks = profile
+      .map((point, index) => ({ index, date: point.date }))
+      .filter(({ date }, index) => index === 0 || date.endsWith('-01'));
+    return { maxKW, demandKW, x, y, peakLine: line('peakKW'), averageLine: line('averageKW'), monthTicks };
+  }, [profile, peakKW, demandMultiplier]);
+
+  if (profile.length === 0) return null;
+
+  return (
+    <div className="mt-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Daily peak and average demand">
+        <line x1={PADDING.left} y1={chart.y(0)} x2={WIDTH - PADDING.right} y2={chart.y(0)} stroke="#6b7280" strokeWidth={0.5} />
+        <text x={PADDING.left - 4} y={chart.y(chart.maxKW) + 4} fontSize={9} textAnchor="end" fill="#374151">{chart.maxKW.toFixed(1)}</text>
+        <text x={PADDING.left - 4} y={chart.y(0)} fontSize={9} textAnchor="end" fill="#374151">0 kW</text>
+        {chart.monthTicks.map(tick => (
+          <text key={tick.date} x={chart.x(tick.index)} y={HEIGHT - 6} fontSize={8} textAnchor="middle" fill="#6b7280">
+            {tick.date.slice(0, 7)}
+          </text>
+        ))}
+        <line
+          x1={PADDING.left} y1={chart.y(chart.demandKW)} x2={WIDTH - PADDING.right} y2={chart.y(chart.demandKW)}
+          stroke="#dc2626" strokeWidth={1} strokeDasharray="4 3"
+        />
+        <text x={WIDTH - PADDING.right} y={chart.y(chart.demandKW) - 3} fontSize={9} textAnchor="end" fill="#dc2626">
+          {chart.demandKW.toFixed(2)} kW at {demandMultiplier * 100}%
+        </text>
+        <polyline points={chart.averageLine} fill="none" stroke="#10b981" strokeWidth={1} />
+        <polyline points={chart.peakLine} fill="none" stroke="#2563eb" strokeWidth={1} />
+      </svg>
+      <div className="flex gap-4 text-xs text-gray-600">
+        <span><span className="inline-block w-3 h-0.5 bg-blue-600 align-middle mr-1" />Daily peak</span>
+        <span><span className="inline-block w-3 h-0.5 bg-emerald-500 align-middle mr-1" />Daily average</span>
+        <span><span className="inline-block w-3 h-0.5 bg-red-600 align-middle mr-1" />220.87 demand</span>
+      </div>
+    </div>
+  );
+};
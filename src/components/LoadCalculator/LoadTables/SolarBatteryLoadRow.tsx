@@ -24,6 +24,11 @@ export const SolarBatteryLoadRow: React.FC<SolarBatteryLoadRowProps> = React.mem
             className="w-full border-gray-300 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
             placeholder="System description"
           />
+          {load.source === 'pv_layout' && (
+            <div className="text-xs text-gray-500 mt-1">
+              {load.moduleCount} modules, {load.dcKw?.toFixed(2)} kW DC from the roof layout
+            </div>
+          )}
         </td>
         <td className="px-4 py-3">
           <select
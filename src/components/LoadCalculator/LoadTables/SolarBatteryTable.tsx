@@ -5,6 +5,7 @@ import { useCalculations } from '../../../context/CalculationContext';
 import { useProjectSettings } from '../../../context/ProjectSettingsContext';
 import { TooltipWrapper } from '../../UI/TooltipWrapper';
 import { SolarBatteryLoadRow } from './SolarBatteryLoadRow';
+import { InterconnectionInputs } from '../InterconnectionInputs';
 
 export const SolarBatteryTable: React.FC = React.memo(() => {
   const { loads, updateLoad: updateLoadData, addLoad, removeLoad } = useLoadData();
@@ -147,6 +148,8 @@ export const SolarBatteryTable: React.FC = React.memo(() => {
         </div>
       </div>
 
+      <InterconnectionInputs />
+
       <div className="flex justify-between items-center">
         <h3 className="text-lg font-medium text-gray-900">Solar/Battery Systems</h3>
         <button
@@ -0,0 +1,212 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, FileStack, Plus, Trash2 } from 'lucide-react';
+import { Modal } from '../UI/Modal';
+import { useLoadCalculator } from '../../hooks/useLoadCalculator';
+import { exportPlanSetPDF } from '../../services/pdfExportService';
+import { PlanSetService } from '../../services/planSetService';
+import type { PlanSetRevision } from '../../services/planSetService';
+import { COMPONENT_TEMPLATES } from '../../data/componentTemplates';
+
+interface PlanSetExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+}
+
+// Listed equipment only; generic templates have no data sheet to print
+const CUT_SHEET_TEMPLATES = COMPONENT_TEMPLATES.filter(template => template.manufacturer);
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export const PlanSetExportDialog: React.FC<PlanSetExportDialogProps> = ({ isOpen, onClose, projectId }) => {
+  const { state, calculations } = useLoadCalculator();
+  const [sheets, setSheets] = useState(() =>
+    PlanSetService.DEFAULT_SHEET_ORDER.map(kind => ({ kind, included: true }))
+  );
+  const [revisions, setRevisions] = useState<PlanSetRevision[]>([]);
+  const [cutSheetIds, setCutSheetIds] = useState<string[]>([]);
+  const [exporting, setExporting] = useState(false);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const codeYear = calculations.codeYear || state.codeYear;
+  const titleBlock = useMemo(
+    () => PlanSetService.titleBlockFromProject(state.projectInfo, codeYear),
+    [state.projectInfo, codeYear]
+  );
+
+  const moveSheet = (index: number, offset: -1 | 1) => {
+    setSheets(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const updateRevision = (index: number, updates: Partial<PlanSetRevision>) => {
+    setRevisions(prev => prev.map((revision, i) => (i === index ? { ...revision, ...updates } : revision)));
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    setWarnings([]);
+    try {
+      const result = await exportPlanSetPDF({
+        titleBlock,
+        projectId,
+        sheetOrder: sheets.filter(sheet => sheet.included).map(sheet => sheet.kind),
+        revisions: revisions.filter(revision => revision.revision.trim()),
+        loadCalculation: {
+          results: calculations,
+          method: state.calculationMethod,
+          mainBreaker: state.mainBreaker,
+          codeYear,
+          squareFootage: state.squareFootage
+        },
+        cutSheets: CUT_SHEET_TEMPLATES
+          .filter(template => cutSheetIds.includes(template.id))
+          .map(template => PlanSetService.createCutSheet(template))
+      });
+      setWarnings(result.warnings);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate plan set');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Export Plan Set" titleIcon={FileStack} className="max-w-2xl">
+      <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+        <section>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Sheets</h3>
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {sheets.map((sheet, index) => (
+              <li key={sheet.kind} className="flex items-center gap-3 px-3 py-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={sheet.included}
+                  onChange={(e) => setSheets(prev => prev.map((s, i) => (i === index ? { ...s, included: e.target.checked } : s)))}
+                  aria-label={`Include ${PlanSetService.getSheetTitle(sheet.kind)}`}
+                />
+                <span className={`flex-1 ${sheet.included ? 'text-gray-900' : 'text-gray-400'}`}>
+                  {PlanSetService.getSheetTitle(sheet.kind)}
+                </span>
+                <button
+                  onClick={() => moveSheet(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  aria-label="Move up"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => moveSheet(index, 1)}
+                  disabled={index === sheets.length - 1}
+                  className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  aria-label="Move down"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        <section>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-medium text-gray-700">Revisions</h3>
+            <button
+              onClick={() => setRevisions(prev => [...prev, { revision: String(prev.length + 1), date: today(), description: '' }])}
+              className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="h-4 w-4" />
+              Add Revision
+            </button>
+          </div>
+          {revisions.length === 0 ? (
+            <p className="text-sm text-gray-500">No revisions; the title block shows revision {titleBlock.revision}.</p>
+          ) : (
+            <div className="space-y-2">
+              {revisions.map((revision, index) => (
+                <div key={index} className="flex gap-2">
+                  <input
+                    value={revision.revision}
+                    onChange={(e) => updateRevision(index, { revision: e.target.value })}
+                    className="w-16 px-2 py-1 border border-gray-300 rounded text-sm"
+                    aria-label="Revision"
+                  />
+                  <input
+                    type="date"
+                    value={revision.date}
+                    onChange={(e) => updateRevision(index, { date: e.target.value })}
+                    className="w-40 px-2 py-1 border border-gray-300 rounded text-sm"
+                    aria-label="Revision date"
+                  />
+                  <input
+                    value={revision.description}
+                    onChange={(e) => updateRevision(index, { description: e.target.value })}
+                    placeholder="Description"
+                    className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm"
+                    aria-label="Revision description"
+                  />
+                  <button
+                    onClick={() => setRevisions(prev => prev.filter((_, i) => i !== index))}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    aria-label="Remove revision"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Equipment Cut Sheets</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-1 max-h-48 overflow-y-auto border border-gray-200 rounded-md p-2">
+            {CUT_SHEET_TEMPLATES.map(template => (
+              <label key={template.id} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={cutSheetIds.includes(template.id)}
+                  onChange={(e) => setCutSheetIds(prev =>
+                    e.target.checked ? [...prev, template.id] : prev.filter(id => id !== template.id)
+                  )}
+                />
+                {template.name}
+              </label>
+            ))}
+          </div>
+        </section>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded p-2 text-sm text-red-700">{error}</div>
+        )}
+        {warnings.length > 0 && (
+          <ul className="bg-yellow-50 border border-yellow-200 rounded p-2 text-sm text-yellow-800 list-disc list-inside">
+            {warnings.map(warning => <li key={warning}>{warning}</li>)}
+          </ul>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={exporting || !sheets.some(sheet => sheet.included)}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {exporting ? 'Generating...' : 'Export Plan Set'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
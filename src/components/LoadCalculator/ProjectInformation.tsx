@@ -9,6 +9,7 @@ import { TooltipWrapper } from '../UI/TooltipWrapper';
 import { AddressAutocomplete } from '../UI/AddressAutocomplete';
 import { InputField } from '../UI/InputField';
 import { CRMProjectIntegrationService } from '../../services/crmProjectIntegrationService';
+import { IntervalDataImport } from './IntervalDataImport';
 
 export const ProjectInformation: React.FC = () => {
   const { state, updateProjectInfo, updateSettings } = useLoadCalculator();
@@ -262,6 +263,8 @@ export const ProjectInformation: React.FC = () => {
         </div>
       </div>
 
+      {state.calculationMethod === 'existing' && <IntervalDataImport />}
+
       {/* Save to CRM Section */}
       {featureFlags.crm.enabled && crm && (
         <div className="mt-6 pt-6 border-t border-white/20">
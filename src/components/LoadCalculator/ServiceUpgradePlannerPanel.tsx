@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { useLoadCalculator } from '../../hooks/useLoadCalculator';
+import { useLoadData } from '../../context/LoadDataContext';
+import { ServiceUpgradePlanner } from '../../services/serviceUpgradePlannerService';
+import type { UpgradeScenario } from '../../services/serviceUpgradePlannerService';
+
+const MAX_SCENARIOS_SHOWN = 6;
+
+export const ServiceUpgradePlannerPanel: React.FC = () => {
+  const { state, updateSettings } = useLoadCalculator();
+  const { updateLoad } = useLoadData();
+
+  const plan = useMemo(
+    () => ServiceUpgradePlanner.plan(state.loads, state.mainBreaker, state.panelDetails, {
+      calculationMethod: state.calculationMethod,
+      squareFootage: state.squareFootage,
+      actualDemandData: state.actualDemandData,
+      codeYear: state.codeYear
+    }),
+    [state.loads, state.mainBreaker, state.panelDetails, state.calculationMethod,
+     state.squareFootage, state.actualDemandData, state.codeYear]
+  );
+
+  const applyScenario = (scenario: UpgradeScenario) => {
+    scenario.loadChanges.forEach(change => {
+      Object.entries(change.updates).forEach(([field, value]) => {
+        updateLoad(change.category, change.id, field, value);
+      });
+    });
+    updateSettings(scenario.settings);
+  };
+
+  if (!plan || !plan.upgradeRequired || plan.scenarios.length === 0) return null;
+
+  return (
+    <div className="border border-orange-200 bg-orange-50 rounded-lg p-3">
+      <div className="text-sm font-medium text-orange-800">
+        Service Upgrade Planner
+      </div>
+      <p className="text-xs text-orange-700 mt-1">
+        Calculated load of {plan.baselineAmps.toFixed(1)}A exceeds the {plan.mainBreaker}A main
+        (a {plan.recommendedServiceSize}A service would be needed). Scenarios that keep the existing service:
+      </p>
+      <table className="w-full text-xs mt-2">
+        <thead>
+          <tr className="text-left text-orange-800">
+            <th className="py-1">Scenario</th>
+            <th className="py-1 text-right">Load</th>
+            <th className="py-1 text-right">Est. Cost</th>
+            <th className="py-1 text-center">Fits</th>
+            <th className="py-1"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {plan.scenarios.slice(0, MAX_SCENARIOS_SHOWN).map(scenario => (
+            <tr key={scenario.id} className="border-t border-orange-200 align-top">
+              <td className="py-1 pr-2">
+                <div className="font-medium text-orange-900">{scenario.title}</div>
+                <div className="text-orange-700">{scenario.description}</div>
+              </td>
+              <td className="py-1 font-mono text-right">{scenario.totalAmps.toFixed(1)}A</td>
+              <td className="py-1 font-mono text-right">${scenario.estimatedCost.toLocaleString()}</td>
+              <td className="py-1 text-center">
+                {scenario.avoidsUpgrade
+                  ? <CheckCircle className="h-4 w-4 text-green-600 inline" />
+                  : <XCircle className="h-4 w-4 text-red-600 inline" />}
+              </td>
+              <td className="py-1 text-right">
+                <button
+                  type="button"
+                  onClick={() => applyScenario(scenario)}
+                  className="px-2 py-1 text-xs bg-orange-600 text-white rounded hover:bg-orange-700"
+                >
+                  Apply
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-orange-600 mt-2">
+        Costs are installed estimates before incentives. Applying a scenario updates the load management settings and load entries above.
+      </p>
+    </div>
+  );
+};
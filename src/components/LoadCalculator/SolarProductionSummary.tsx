@@ -0,0 +1,149 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { Sun } from 'lucide-react';
+import { useLoadData } from '../../context/LoadDataContext';
+import { useAerialView } from '../../context/AerialViewContext';
+import { useSLDData } from '../../context/SLDDataContext';
+import { PVProductionService } from '../../services/pvProductionService';
+import type { PVProductionEstimate } from '../../types/pvProduction';
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Monthly AC production for the site's PV system, shown beside the load calculation.
+ * Arrays come from the roof layout editor, then the AI roof analysis; otherwise the solar rows of the
+ * load calculation are treated as a single equator-facing array.
+ */
+export const SolarProductionSummary: React.FC = () => {
+  const { loads } = useLoadData();
+  const { state: aerialState } = useAerialView();
+  const { state: sldState } = useSLDData();
+  const [estimate, setEstimate] = useState<PVProductionEstimate | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { coordinates, roofAnalysis, pvLayout } = aerialState;
+  const solarLoads = loads.solarBatteryLoads;
+
+  const system = useMemo(() => {
+    const loadInverters = PVProductionService.invertersFromSolarLoads(solarLoads || []);
+    const loadAcKw = loadInverters.reduce((sum, inverter) => sum + inverter.acKw * (inverter.quantity ?? 1), 0);
+    const layoutArrays = pvLayout ? PVProductionService.arraysFromLayout(pvLayout) : [];
+    const source = layoutArrays.length > 0 ? 'layout' : roofAnalysis ? 'analysis' : 'loads';
+    const arrays = source === 'layout'
+      ? layoutArrays
+      : source === 'analysis'
+        ? PVProductionService.arraysFromRoofAnalysis(roofAnalysis!)
+        : PVProductionService.defaultArrays(loadAcKw, coordinates?.latitude ?? 0);
+    const moduleCount = arrays.reduce((sum, array) => sum + (array.moduleCount ?? 0), 0);
+    const sldInverters = PVProductionService.invertersFromSLD(sldState.diagram, moduleCount || undefined);
+    return { arrays, source, inverters: sldInverters.length > 0 ? sldInverters : loadInverters };
+  }, [solarLoads, roofAnalysis, pvLayout, coordinates, sldState.diagram]);
+
+  const handleEstimate = useCallback(async () => {
+    if (!coordinates) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setEstimate(await PVProductionService.simulate(coordinates.latitude, coordinates.longitude, system.arrays, system.inverters));
+    } catch (err: any) {
+      setError(err?.userMessage || err?.message || 'Production estimate failed');
+    } finally {
+      setLoading(false);
+    }
+  }, [coordinates, system]);
+
+  const peakMonth = estimate ? Math.max(...estimate.monthly.map(month => month.acKwh), 1) : 1;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200" data-cy="solar-production-summary">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-yellow-100 rounded-lg">
+            <Sun className="h-5 w-5 text-yellow-600" />
+          </div>
+          <h3 className="text-lg font-semibold text-gray-900">Solar Production</h3>
+        </div>
+        <button
+          onClick={handleEstimate}
+          disabled={loading || !coordinates || system.arrays.length === 0}
+          className="px-3 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 disabled:opacity-50 text-sm"
+        >
+          {loading ? 'Simulating...' : 'Estimate Production'}
+        </button>
+      </div>
+
+      {!coordinates ? (
+        <p className="text-sm text-gray-600">Look up the site address in Aerial View to estimate monthly production.</p>
+      ) : system.arrays.length === 0 ? (
+        <p className="text-sm text-gray-600">Add a solar inverter or run an AI roof analysis to size the array.</p>
+      ) : (
+        <p className="text-sm text-gray-600 mb-4">
+          {system.arrays.reduce((sum, array) => sum + array.dcKw, 0).toFixed(2)} kW DC on {system.arrays.length} roof
+          plane{system.arrays.length === 1 ? '' : 's'}
+          {system.source === 'layout'
+            ? ' from the roof layout'
+            : system.source === 'analysis' ? ' from the AI roof analysis' : ' sized from the solar loads'}.
+        </p>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded p-2 text-sm text-red-700 mb-4">{error}</div>
+      )}
+
+      {estimate && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="bg-gray-50 rounded p-2">
+              <div className="text-xs text-gray-500">Annual AC</div>
+              <div className="font-semibold text-gray-900">{estimate.annual.acKwh.toLocaleString()} kWh</div>
+            </div>
+            <div className="bg-gray-50 rounded p-2">
+              <div className="text-xs text-gray-500">Specific Yield</div>
+              <div className="font-semibold text-gray-900">{estimate.annual.specificYield.toFixed(0)} kWh/kWp</div>
+            </div>
+            <div className="bg-gray-50 rounded p-2">
+              <div className="text-xs text-gray-500">DC:AC</div>
+              <div className="font-semibold text-gray-900">{estimate.system.dcAcRatio.toFixed(2)}</div>
+            </div>
+          </div>
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-medium">Month</th>
+                <th className="font-medium" />
+                <th className="text-right font-medium">kWh</th>
+              </tr>
+            </thead>
+            <tbody>
+              {estimate.monthly.map(month => (
+                <tr key={month.month} className="border-t border-gray-100">
+                  <td className="w-10">{MONTH_NAMES[month.month - 1]}</td>
+                  <td className="px-2">
+                    <div className="h-2 bg-yellow-400 rounded" style={{ width: `${(month.acKwh / peakMonth) * 100}%` }} />
+                  </td>
+                  <td className="text-right">{month.acKwh.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="text-xs text-gray-500 space-y-1">
+            <div>
+              Inverter clipping: {estimate.annual.clippedKwh.toLocaleString()} kWh. System losses: {estimate.losses.total.toFixed(1)}%.
+            </div>
+            <div>
+              {estimate.degradation.years}-year output at {estimate.degradation.ratePercent}%/yr degradation:{' '}
+              {estimate.degradation.lifetimeAcKwh.toLocaleString()} kWh, worth about $
+              {PVProductionService.lifetimeValue(estimate).toLocaleString()}.
+            </div>
+            <div>Weather: {estimate.weather.station.name} ({estimate.weather.source}).</div>
+            {estimate.weather.warnings?.map(warning => (
+              <div key={warning} className="text-yellow-700">{warning}</div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+/**
+ * DXF Import Dialog
+ *
+ * Reads a DXF single-line from disk, previews its layers and the blocks the
+ * default mappings did not recognize, and lets the user map those blocks to
+ * component types and leave layers out before replacing the diagram.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { FileUp } from 'lucide-react';
+import { Modal } from '../UI/Modal';
+import { DXFImportService } from '../../services/dxfImportService';
+import type { DXFBlockMapping, DXFImportResult } from '../../services/dxfImportService';
+import type { SLDComponent, SLDDiagram } from '../../types/sld';
+
+interface DXFImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (diagram: SLDDiagram) => void;
+  canvasSize?: { width: number; height: number };
+}
+
+const COMPONENT_TYPES = Array.from(new Set(DXFImportService.getDefaultBlockMappings().map(mapping => mapping.componentType)));
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const DXFImportDialog: React.FC<DXFImportDialogProps> = ({ isOpen, onClose, onImport, canvasSize }) => {
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [blockTypes, setBlockTypes] = useState<Record<string, SLDComponent['type']>>({});
+  const [excludedLayers, setExcludedLayers] = useState<string[]>([]);
+
+  // Re-imported whenever the block mapping changes so mapped blocks become components
+  const { preview, error } = useMemo((): { preview: DXFImportResult | null; error: string | null } => {
+    if (!file) return { preview: null, error: null };
+    const blockMappings: DXFBlockMapping[] = Object.entries(blockTypes).filter(([, componentType]) => componentType).map(([block, componentType]) => ({
+      pattern: new RegExp(`^${escapeRegExp(block)}$`),
+      componentType
+    }));
+    try {
+      return {
+        preview: DXFImportService.importDiagram(file.content, {
+          name: file.name.replace(/\.dxf$/i, ''),
+          blockMappings,
+          canvasSize,
+          fitToCanvas: true
+        }),
+        error: null
+      };
+    } catch (err) {
+      return { preview: null, error: err instanceof Error ? err.message : 'The file could not be read as a DXF drawing' };
+    }
+  }, [file, blockTypes, canvasSize]);
+
+  // Blocks stay listed once the user maps them so the choice can be changed
+  const mappableBlocks = useMemo(
+    () => Array.from(new Set([...(preview?.unmappedBlocks ?? []), ...Object.keys(blockTypes)])).sort(),
+    [preview, blockTypes]
+  );
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+    setBlockTypes({});
+    setExcludedLayers([]);
+    setFile({ name: selected.name, content: await selected.text() });
+  };
+
+  const handleImport = () => {
+    if (!preview) return;
+    onImport(DXFImportService.withoutLayers(preview, excludedLayers).diagram);
+    setFile(null);
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Import DXF Single-Line" titleIcon={FileUp} className="max-w-2xl">
+      <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+        <div>
+          <label htmlFor="dxf-file" className="block text-sm font-medium text-gray-700 mb-2">DXF file (ASCII R12 or later)</label>
+          <input id="dxf-file" type="file" accept=".dxf" onChange={handleFile} className="text-sm" />
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded p-2 text-sm text-red-700">{error}</div>
+        )}
+
+        {preview && (
+          <>
+            <p className="text-sm text-gray-600">
+              {preview.diagram.components.length} components, {preview.diagram.connections.length} wires,
+              {' '}{preview.diagram.labels?.length ?? 0} labels and {preview.diagram.annotations?.length ?? 0} annotations
+            </p>
+
+            <section>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Layers</h3>
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                {preview.layers.filter(layer => layer.objects.length > 0).map(layer => (
+                  <li key={layer.name} className="flex items-center gap-3 px-3 py-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={!excludedLayers.includes(layer.name)}
+                      onChange={(e) => setExcludedLayers(prev =>
+                        e.target.checked ? prev.filter(name => name !== layer.name) : [...prev, layer.name]
+                      )}
+                      aria-label={`Import layer ${layer.name}`}
+                    />
+                    <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: layer.color }} />
+                    <span className="flex-1 font-mono">{layer.name}</span>
+                    <span className="text-gray-500">{layer.objects.length} objects</span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            {mappableBlocks.length > 0 && (
+              <section>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Block Mapping</h3>
+                <p className="text-xs text-gray-500 mb-2">Unmapped blocks are imported as plain drawing annotations.</p>
+                <div className="space-y-2">
+                  {mappableBlocks.map(block => (
+                    <div key={block} className="flex items-center gap-3 text-sm">
+                      <span className="flex-1 font-mono">{block}</span>
+                      <select
+                        value={blockTypes[block] ?? ''}
+                        onChange={(e) => setBlockTypes(prev => ({ ...prev, [block]: e.target.value as SLDComponent['type'] }))}
+                        className="w-48 px-2 py-1 border border-gray-300 rounded text-sm"
+                        aria-label={`Component type for ${block}`}
+                      >
+                        <option value="">Annotation</option>
+                        {COMPONENT_TYPES.map(type => (
+                          <option key={type} value={type}>{type.replace(/_/g, ' ')}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {preview.warnings.length > 0 && (
+              <ul className="bg-yellow-50 border border-yellow-200 rounded p-2 text-sm text-yellow-800 list-disc list-inside">
+                {preview.warnings.map(warning => <li key={warning}>{warning}</li>)}
+              </ul>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!preview}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Replace Diagram
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -5,7 +5,8 @@
  */
 
 import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
-import { WebGLRenderer, RenderObject, RenderStats } from './engine/WebGLRenderer';
+import { RenderObject, RenderStats } from './engine/WebGLRenderer';
+import { createSLDRenderer, SLDRenderer } from './engine/RendererFactory';
 import { ViewportManager, ViewportState, ViewportBounds } from './engine/ViewportManager';
 import { LayerSystem, Layer, LayerObject } from './engine/LayerSystem';
 import type { SLDDiagram, SLDComponent, SLDConnection } from '../../types/sld';
@@ -40,7 +41,7 @@ export const EnhancedSLDCanvas: React.FC<EnhancedSLDCanvasProps> = ({
   const containerRef = useRef<HTMLDivElement>(null);
   
   // Engine instances
-  const rendererRef = useRef<WebGLRenderer | null>(null);
+  const rendererRef = useRef<SLDRenderer | null>(null);
   const viewportManagerRef = useRef<ViewportManager | null>(null);
   const layerSystemRef = useRef<LayerSystem | null>(null);
   
@@ -79,8 +80,8 @@ export const EnhancedSLDCanvas: React.FC<EnhancedSLDCanvasProps> = ({
       canvas.width = rect.width;
       canvas.height = rect.height;
 
-      // Initialize WebGL renderer
-      const renderer = new WebGLRenderer(canvas);
+      // Initialize renderer (WebGL2, or Canvas2D when unavailable)
+      const renderer = createSLDRenderer(canvas);
       rendererRef.current = renderer;
 
       // Initialize viewport manager
@@ -508,6 +509,11 @@ export const EnhancedSLDCanvas: React.FC<EnhancedSLDCanvasProps> = ({
           <div className="text-xs text-gray-500" title="Render time in milliseconds">
             Render: {canvasState.renderStats.renderTime.toFixed(1)}ms
           </div>
+          {canvasState.renderStats.backend && (
+            <div className="text-xs text-gray-500">
+              {canvasState.renderStats.backend === 'webgl2' ? 'WebGL2' : 'Canvas2D'}
+            </div>
+          )}
         </div>
       </div>
 
@@ -558,4 +564,4 @@ export const EnhancedSLDCanvas: React.FC<EnhancedSLDCanvasProps> = ({
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
\ No newline at end of file
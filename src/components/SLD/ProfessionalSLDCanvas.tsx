@@ -226,11 +226,10 @@ export const ProfessionalSLDCanvas: React.FC<ProfessionalSLDCanvasProps> = ({
       case 'dimension':
         updatedDiagram.annotations = [...(updatedDiagram.annotations || []), {
           id: geometry.id,
-          type: 'dimension',
-          startPoint: geometry.startPoint,
-          endPoint: geometry.endPoint,
-          value: geometry.displayValue,
-          style: geometry.style
+          kind: 'dimension',
+          points: [geometry.startPoint, geometry.endPoint],
+          text: geometry.displayValue,
+          color: geometry.style?.color
         }];
         break;
 
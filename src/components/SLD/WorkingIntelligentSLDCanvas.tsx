@@ -14,12 +14,14 @@ import {
   Settings,
   Eye,
   EyeOff,
-  Ruler
+  Ruler,
+  Upload
 } from 'lucide-react';
 import { useSLDData } from '../../context/SLDDataContext';
 import { useLoadData } from '../../context/LoadDataContext';
 import { useProjectSettings } from '../../context/ProjectSettingsContext';
 import { DraggableTitleBlock } from './DraggableTitleBlock';
+import { DXFImportDialog } from './DXFImportDialog';
 import { SLDGenerator } from './SLDGenerator';
 import { MeasurementRenderer } from './MeasurementRenderer';
 import { SLDMeasurementService } from '../../services/sldMeasurementService';
@@ -41,7 +43,7 @@ interface RubberbandState {
 }
 
 export const WorkingIntelligentSLDCanvas: React.FC = memo(() => {
-  const { state: sldState, updateComponent, selectComponents } = useSLDData();
+  const { state: sldState, dispatch: sldDispatch, updateComponent, selectComponents } = useSLDData();
   const { loads } = useLoadData();
   const { settings } = useProjectSettings();
   
@@ -52,6 +54,7 @@ export const WorkingIntelligentSLDCanvas: React.FC = memo(() => {
   const [showGrid, setShowGrid] = useState(true);
   const [titleBlockPosition, setTitleBlockPosition] = useState({ x: 50, y: 50 });
   const [showSettings, setShowSettings] = useState(false);
+  const [showDXFImport, setShowDXFImport] = useState(false);
   const [showMeasurements, setShowMeasurements] = useState(false);
   const [measurementService] = useState(() => new SLDMeasurementService());
   const [measurementsUpdated, setMeasurementsUpdated] = useState(0);
@@ -339,6 +342,14 @@ export const WorkingIntelligentSLDCanvas: React.FC = memo(() => {
         </div>
         
         <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowDXFImport(true)}
+            className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            <Upload className="h-4 w-4" />
+            Import DXF
+          </button>
+
           <button
             onClick={handleExport}
             className="flex items-center gap-2 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
@@ -468,6 +479,12 @@ export const WorkingIntelligentSLDCanvas: React.FC = memo(() => {
           )}
         </div>
       </div>
+
+      <DXFImportDialog
+        isOpen={showDXFImport}
+        onClose={() => setShowDXFImport(false)}
+        onImport={(diagram) => sldDispatch({ type: 'SET_DIAGRAM', payload: diagram })}
+      />
     </div>
   );
 });
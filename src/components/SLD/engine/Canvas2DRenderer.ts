@@ -0,0 +1,257 @@
+/**
+ * Canvas2D Fallback Renderer for Professional SLD
+ *
+ * Draws the same batched draw list as WebGLRenderer for browsers or devices
+ * without WebGL2, so diagrams look the same on either backend
+ */
+
+import type { RenderObject, RenderStats, Viewport } from './WebGLRenderer';
+import {
+  RenderBatchBuilder,
+  cullRenderObjects,
+  toCssColor,
+  INSTANCE_STRIDE,
+  LABEL_FONT_FAMILY,
+  VERTEX_STRIDE
+} from './RenderBatch';
+import type { DrawList, RGBA } from './RenderBatch';
+
+export class Canvas2DRenderer {
+  private canvas: HTMLCanvasElement;
+  private context: CanvasRenderingContext2D;
+  private viewport: Viewport;
+  private renderObjects: Map<string, RenderObject> = new Map();
+  private batch: RenderBatchBuilder;
+  private frameId: number = 0;
+  private lastFrameTime: number = 0;
+  private fpsHistory: number[] = [];
+  private devicePixelRatio: number;
+  private resizeObserver: ResizeObserver | null = null;
+  private handleWindowResize = () => {
+    this.devicePixelRatio = window.devicePixelRatio || 1;
+    this.handleResize();
+  };
+
+  private stats: RenderStats = {
+    totalObjects: 0,
+    visibleObjects: 0,
+    culledObjects: 0,
+    renderTime: 0,
+    fps: 60,
+    backend: 'canvas2d'
+  };
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    this.devicePixelRatio = window.devicePixelRatio || 1;
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas2D not supported');
+    }
+
+    this.context = context;
+    this.viewport = {
+      x: 0,
+      y: 0,
+      width: canvas.width,
+      height: canvas.height,
+      zoom: 1
+    };
+    this.batch = new RenderBatchBuilder(this.viewport, id => this.renderObjects.get(id));
+
+    this.setupEventListeners();
+  }
+
+  private setupEventListeners(): void {
+    this.resizeObserver = new ResizeObserver(() => {
+      this.handleResize();
+    });
+    this.resizeObserver.observe(this.canvas);
+
+    window.addEventListener('resize', this.handleWindowResize);
+  }
+
+  private handleResize(): void {
+    const rect = this.canvas.getBoundingClientRect();
+    const width = rect.width * this.devicePixelRatio;
+    const height = rect.height * this.devicePixelRatio;
+
+    this.canvas.width = width;
+    this.canvas.height = height;
+    this.viewport.width = width;
+    this.viewport.height = height;
+
+    this.render();
+  }
+
+  public setViewport(viewport: Partial<Viewport>): void {
+    this.viewport = { ...this.viewport, ...viewport };
+    this.render();
+  }
+
+  public addRenderObject(object: RenderObject): void {
+    this.renderObjects.set(object.id, object);
+  }
+
+  public removeRenderObject(id: string): void {
+    this.renderObjects.delete(id);
+  }
+
+  public updateRenderObject(id: string, updates: Partial<RenderObject>): void {
+    const existing = this.renderObjects.get(id);
+    if (existing) {
+      this.renderObjects.set(id, { ...existing, ...updates });
+    }
+  }
+
+  public clearRenderObjects(): void {
+    this.renderObjects.clear();
+  }
+
+  public render(): void {
+    const startTime = performance.now();
+    const context = this.context;
+
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+    const visibleObjects = cullRenderObjects(this.renderObjects.values(), this.viewport);
+    this.stats.totalObjects = this.renderObjects.size;
+    this.stats.visibleObjects = visibleObjects.length;
+    this.stats.culledObjects = this.renderObjects.size - visibleObjects.length;
+
+    this.batch.begin(this.viewport);
+    for (const object of visibleObjects) {
+      switch (object.type) {
+        case 'component':
+          this.batch.addComponent(object);
+          break;
+        case 'connection':
+          this.batch.addConnection(object);
+          break;
+        case 'label':
+          this.batch.addLabel(object);
+          break;
+        case 'grid':
+          this.batch.addGrid(object);
+          break;
+      }
+    }
+    this.drawList(this.batch.build());
+
+    this.stats.renderTime = performance.now() - startTime;
+    this.updateFPS();
+  }
+
+  private drawList(drawList: DrawList): void {
+    const context = this.context;
+    const { zoom, x, y } = this.viewport;
+    context.setTransform(zoom, 0, 0, zoom, -x * zoom, -y * zoom);
+
+    this.fillColoredTriangles(drawList.grid);
+    this.fillColoredTriangles(drawList.wires);
+
+    for (const batch of drawList.symbols) {
+      const vertices = batch.mesh.vertices;
+      for (let i = 0; i < batch.instanceCount; i++) {
+        const offset = i * INSTANCE_STRIDE;
+        const instances = batch.instances;
+        context.save();
+        context.translate(instances[offset], instances[offset + 1]);
+        context.rotate(instances[offset + 3]);
+        context.scale(instances[offset + 2], instances[offset + 2]);
+        context.fillStyle = toCssColor(instances.slice(offset + 4, offset + 8) as RGBA);
+        context.beginPath();
+        for (let v = 0; v < vertices.length; v += 6) {
+          context.moveTo(vertices[v], vertices[v + 1]);
+          context.lineTo(vertices[v + 2], vertices[v + 3]);
+          context.lineTo(vertices[v + 4], vertices[v + 5]);
+          context.closePath();
+        }
+        context.fill();
+        context.restore();
+      }
+    }
+
+    context.textBaseline = 'alphabetic';
+    for (const run of drawList.texts) {
+      context.font = `${run.bold ? 'bold ' : ''}${run.fontSize}px ${LABEL_FONT_FAMILY}`;
+      context.textAlign = run.align;
+      context.fillStyle = toCssColor(run.color);
+      context.fillText(run.text, run.x, run.y);
+    }
+  }
+
+  /**
+   * Fill colored triangles, starting a new path whenever the color changes
+   */
+  private fillColoredTriangles(vertices: number[]): void {
+    const context = this.context;
+    const triangleStride = VERTEX_STRIDE * 3;
+    let currentColor = '';
+
+    for (let t = 0; t < vertices.length; t += triangleStride) {
+      const color = toCssColor(vertices.slice(t + 2, t + 6) as RGBA);
+      if (color !== currentColor) {
+        if (currentColor) {
+          context.fill();
+        }
+        context.fillStyle = color;
+        context.beginPath();
+        currentColor = color;
+      }
+      context.moveTo(vertices[t], vertices[t + 1]);
+      context.lineTo(vertices[t + VERTEX_STRIDE], vertices[t + VERTEX_STRIDE + 1]);
+      context.lineTo(vertices[t + VERTEX_STRIDE * 2], vertices[t + VERTEX_STRIDE * 2 + 1]);
+      context.closePath();
+    }
+
+    if (currentColor) {
+      context.fill();
+    }
+  }
+
+  private updateFPS(): void {
+    const now = performance.now();
+    const delta = now - this.lastFrameTime;
+
+    if (delta > 0) {
+      this.fpsHistory.push(1000 / delta);
+      if (this.fpsHistory.length > 60) {
+        this.fpsHistory.shift();
+      }
+      this.stats.fps = this.fpsHistory.reduce((sum, fps) => sum + fps, 0) / this.fpsHistory.length;
+    }
+
+    this.lastFrameTime = now;
+  }
+
+  public startRenderLoop(): void {
+    const renderFrame = () => {
+      this.render();
+      this.frameId = requestAnimationFrame(renderFrame);
+    };
+
+    this.frameId = requestAnimationFrame(renderFrame);
+  }
+
+  public stopRenderLoop(): void {
+    if (this.frameId) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = 0;
+    }
+  }
+
+  public getStats(): RenderStats {
+    return { ...this.stats };
+  }
+
+  public dispose(): void {
+    this.stopRenderLoop();
+    this.resizeObserver?.disconnect();
+    window.removeEventListener('resize', this.handleWindowResize);
+    this.renderObjects.clear();
+  }
+}
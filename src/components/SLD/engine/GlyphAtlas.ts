@@ -0,0 +1,133 @@
+/**
+ * Glyph Atlas for WebGL Text Rendering
+ *
+ * Rasterizes glyphs on demand into a shared texture so labels draw as textured quads
+ * in one batch instead of one canvas text call per label
+ */
+
+import { LABEL_FONT_FAMILY } from './RenderBatch';
+import type { TextRun } from './RenderBatch';
+
+// Glyphs are rasterized once at this size and scaled per label
+export const GLYPH_RASTER_SIZE = 32;
+const ATLAS_SIZE = 1024;
+const GLYPH_PADDING = 2;
+const CELL_HEIGHT = Math.ceil(GLYPH_RASTER_SIZE * 1.25);
+const ASCENT = Math.ceil(GLYPH_RASTER_SIZE * 0.9);
+
+interface GlyphInfo {
+  u0: number;
+  v0: number;
+  u1: number;
+  v1: number;
+  cellWidth: number;
+  advance: number;
+}
+
+// Textured quad vertices: x, y, u, v, r, g, b, a
+export const GLYPH_VERTEX_STRIDE = 8;
+
+export class GlyphAtlas {
+  public readonly canvas: HTMLCanvasElement;
+  private context: CanvasRenderingContext2D;
+  private glyphs: Map<string, GlyphInfo> = new Map();
+  private cursorX = GLYPH_PADDING;
+  private cursorY = GLYPH_PADDING;
+  private dirty = true;
+
+  constructor() {
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = ATLAS_SIZE;
+    this.canvas.height = ATLAS_SIZE;
+
+    const context = this.canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas2D not available for glyph atlas');
+    }
+    this.context = context;
+  }
+
+  public isDirty(): boolean {
+    return this.dirty;
+  }
+
+  public markClean(): void {
+    this.dirty = false;
+  }
+
+  public measure(text: string, bold: boolean, fontSize: number): number {
+    const scale = fontSize / GLYPH_RASTER_SIZE;
+    let width = 0;
+    for (const char of text) {
+      width += this.getGlyph(char, bold).advance * scale;
+    }
+    return width;
+  }
+
+  /**
+   * Append two triangles per glyph for a text run, positioned on its baseline
+   */
+  public layoutRun(out: number[], run: TextRun): void {
+    const scale = run.fontSize / GLYPH_RASTER_SIZE;
+    let penX = run.align === 'center' ? run.x - this.measure(run.text, run.bold, run.fontSize) / 2 : run.x;
+    const top = run.y - ASCENT * scale;
+    const bottom = top + CELL_HEIGHT * scale;
+    const [r, g, b, a] = run.color;
+
+    for (const char of run.text) {
+      const glyph = this.getGlyph(char, run.bold);
+      const left = penX;
+      const right = penX + glyph.cellWidth * scale;
+      out.push(
+        left, top, glyph.u0, glyph.v0, r, g, b, a,
+        right, top, glyph.u1, glyph.v0, r, g, b, a,
+        right, bottom, glyph.u1, glyph.v1, r, g, b, a,
+        left, top, glyph.u0, glyph.v0, r, g, b, a,
+        right, bottom, glyph.u1, glyph.v1, r, g, b, a,
+        left, bottom, glyph.u0, glyph.v1, r, g, b, a
+      );
+      penX += glyph.advance * scale;
+    }
+  }
+
+  private getGlyph(char: string, bold: boolean): GlyphInfo {
+    const key = `${bold ? 'b' : 'n'}${char}`;
+    const existing = this.glyphs.get(key);
+    if (existing) return existing;
+
+    const context = this.context;
+    context.font = `${bold ? 'bold ' : ''}${GLYPH_RASTER_SIZE}px ${LABEL_FONT_FAMILY}`;
+    context.textBaseline = 'alphabetic';
+    context.textAlign = 'left';
+    const advance = context.measureText(char).width;
+    const cellWidth = Math.ceil(advance) + GLYPH_PADDING;
+
+    if (this.cursorX + cellWidth > ATLAS_SIZE) {
+      this.cursorX = GLYPH_PADDING;
+      this.cursorY += CELL_HEIGHT + GLYPH_PADDING;
+    }
+    if (this.cursorY + CELL_HEIGHT > ATLAS_SIZE) {
+      // Atlas is full: start over and let the next frame re-rasterize what it uses
+      context.clearRect(0, 0, ATLAS_SIZE, ATLAS_SIZE);
+      this.glyphs.clear();
+      this.cursorX = GLYPH_PADDING;
+      this.cursorY = GLYPH_PADDING;
+    }
+
+    context.fillStyle = '#ffffff';
+    context.fillText(char, this.cursorX, this.cursorY + ASCENT);
+
+    const glyph: GlyphInfo = {
+      u0: this.cursorX / ATLAS_SIZE,
+      v0: this.cursorY / ATLAS_SIZE,
+      u1: (this.cursorX + cellWidth) / ATLAS_SIZE,
+      v1: (this.cursorY + CELL_HEIGHT) / ATLAS_SIZE,
+      cellWidth,
+      advance
+    };
+    this.glyphs.set(key, glyph);
+    this.cursorX += cellWidth + GLYPH_PADDING;
+    this.dirty = true;
+    return glyph;
+  }
+}
@@ -4,6 +4,11 @@
  * Precise hit testing for complex component shapes with multi-select support
  */
 
+import { SpatialIndex } from '../../../utils/spatialIndex';
+
+// Default tolerance for path hit tests, also the minimum query padding
+const DEFAULT_PATH_TOLERANCE = 5;
+
 export interface Point {
   x: number;
   y: number;
@@ -39,6 +44,12 @@ export interface HitTestObject {
   tolerance?: number; // Hit test tolerance in pixels
 }
 
+export interface NearestHitOptions {
+  maxDistance?: number;
+  count?: number;
+  filter?: (object: HitTestObject) => boolean;
+}
+
 export interface HitTestResult {
   object: HitTestObject;
   distance: number;
@@ -54,29 +65,45 @@ export interface SelectionBounds {
 
 export class HitTestSystem {
   private objects: Map<string, HitTestObject> = new Map();
-  private spatialIndex: Map<string, Set<string>> = new Map(); // Simple spatial indexing
-  private gridSize: number = 100; // Grid size for spatial indexing
+  private spatialIndex: SpatialIndex<HitTestObject>;
+  private maxTolerance: number = DEFAULT_PATH_TOLERANCE; // Widest hit tolerance of any indexed object
+
+  constructor(spatialIndex: SpatialIndex<HitTestObject> = new SpatialIndex()) {
+    this.spatialIndex = spatialIndex;
+  }
+
+  public getSpatialIndex(): SpatialIndex<HitTestObject> {
+    return this.spatialIndex;
+  }
 
   public addObject(object: HitTestObject): void {
     this.objects.set(object.id, object);
-    this.updateSpatialIndex(object);
+    this.spatialIndex.insert(object.id, object.bounds, object);
+    this.maxTolerance = Math.max(this.maxTolerance, object.tolerance || 0);
+  }
+
+  /**
+   * Replace all objects at once using the index's bulk loader
+   */
+  public loadObjects(objects: HitTestObject[]): void {
+    this.objects = new Map(objects.map(object => [object.id, object]));
+    this.spatialIndex.load(objects.map(object => ({ id: object.id, bounds: object.bounds, item: object })));
+    this.maxTolerance = objects.reduce((max, object) => Math.max(max, object.tolerance || 0), DEFAULT_PATH_TOLERANCE);
   }
 
   public removeObject(id: string): void {
-    const object = this.objects.get(id);
-    if (object) {
-      this.removeFromSpatialIndex(object);
-      this.objects.delete(id);
+    if (this.objects.delete(id)) {
+      this.spatialIndex.remove(id);
     }
   }
 
   public updateObject(id: string, updates: Partial<HitTestObject>): void {
     const existing = this.objects.get(id);
     if (existing) {
-      this.removeFromSpatialIndex(existing);
       const updated = { ...existing, ...updates };
       this.objects.set(id, updated);
-      this.updateSpatialIndex(updated);
+      this.spatialIndex.update(id, updated.bounds, updated);
+      this.maxTolerance = Math.max(this.maxTolerance, updated.tolerance || 0);
     }
   }
 
@@ -89,52 +116,10 @@ export class HitTestSystem {
     this.spatialIndex.clear();
   }
 
-  private updateSpatialIndex(object: HitTestObject): void {
-    const gridKeys = this.getGridKeys(object.bounds);
-    gridKeys.forEach(key => {
-      if (!this.spatialIndex.has(key)) {
-        this.spatialIndex.set(key, new Set());
-      }
-      this.spatialIndex.get(key)!.add(object.id);
-    });
-  }
-
-  private removeFromSpatialIndex(object: HitTestObject): void {
-    const gridKeys = this.getGridKeys(object.bounds);
-    gridKeys.forEach(key => {
-      const cell = this.spatialIndex.get(key);
-      if (cell) {
-        cell.delete(object.id);
-        if (cell.size === 0) {
-          this.spatialIndex.delete(key);
-        }
-      }
-    });
-  }
-
-  private getGridKeys(bounds: Rectangle): string[] {
-    const keys: string[] = [];
-    const startX = Math.floor(bounds.x / this.gridSize);
-    const endX = Math.floor((bounds.x + bounds.width) / this.gridSize);
-    const startY = Math.floor(bounds.y / this.gridSize);
-    const endY = Math.floor((bounds.y + bounds.height) / this.gridSize);
-
-    for (let x = startX; x <= endX; x++) {
-      for (let y = startY; y <= endY; y++) {
-        keys.push(`${x},${y}`);
-      }
-    }
-
-    return keys;
-  }
-
   private getCandidateObjects(point: Point): HitTestObject[] {
-    const gridKey = `${Math.floor(point.x / this.gridSize)},${Math.floor(point.y / this.gridSize)}`;
-    const candidateIds = this.spatialIndex.get(gridKey) || new Set();
-    
-    return Array.from(candidateIds)
-      .map(id => this.objects.get(id))
-      .filter((obj): obj is HitTestObject => obj !== undefined && obj.visible && obj.selectable);
+    // Widen the query so objects whose tolerance reaches past their bounds are still found
+    return this.spatialIndex.searchPoint(point, this.maxTolerance)
+      .filter(obj => obj.visible && obj.selectable);
   }
 
   public hitTest(point: Point): HitTestResult[] {
@@ -164,6 +149,21 @@ export class HitTestSystem {
     return results.length > 0 ? results[0] : null;
   }
 
+  /**
+   * Nearest selectable objects to a point by bounding-box distance, for snapping
+   */
+  public findNearest(point: Point, options: NearestHitOptions = {}): HitTestResult[] {
+    const { maxDistance = Infinity, count = 1, filter } = options;
+
+    return this.spatialIndex
+      .nearest(point, {
+        count,
+        maxDistance,
+        filter: obj => obj.visible && obj.selectable && !obj.locked && (!filter || filter(obj))
+      })
+      .map(({ item, distance }) => ({ object: item, distance, point }));
+  }
+
   private testObjectHit(object: HitTestObject, point: Point): HitTestResult | null {
     if (object.locked || !object.visible || !object.selectable) {
       return null;
@@ -195,7 +195,7 @@ export class HitTestSystem {
 
       case 'path':
         if (object.shapeData && Array.isArray(object.shapeData)) {
-          hit = this.pointNearPath(point, object.shapeData, tolerance || 5);
+          hit = this.pointNearPath(point, object.shapeData, tolerance || DEFAULT_PATH_TOLERANCE);
           distance = hit ? 0 : this.distanceToPath(point, object.shapeData);
         }
         break;
@@ -319,7 +319,8 @@ export class HitTestSystem {
   public rectangleSelect(selectionBounds: SelectionBounds): HitTestResult[] {
     const results: HitTestResult[] = [];
 
-    for (const object of this.objects.values()) {
+    // Every shape lies inside its bounds, so the index narrows the exact tests to overlapping objects
+    for (const object of this.spatialIndex.search(selectionBounds)) {
       if (!object.visible || !object.selectable || object.locked) {
         continue;
       }
@@ -458,31 +459,20 @@ export class HitTestSystem {
   }
 
   public getObjectsInBounds(bounds: Rectangle): HitTestObject[] {
-    const results: HitTestObject[] = [];
-
-    for (const object of this.objects.values()) {
-      if (this.rectanglesIntersect(bounds, object.bounds)) {
-        results.push(object);
-      }
-    }
-
-    return results;
+    return this.spatialIndex.search(bounds);
   }
 
   public getStats(): {
     totalObjects: number;
-    spatialCells: number;
-    averageObjectsPerCell: number;
+    indexNodes: number;
+    indexHeight: number;
   } {
-    const totalObjects = this.objects.size;
-    const spatialCells = this.spatialIndex.size;
-    const totalObjectsInCells = Array.from(this.spatialIndex.values())
-      .reduce((sum, cell) => sum + cell.size, 0);
-    
+    const indexStats = this.spatialIndex.getStats();
+
     return {
-      totalObjects,
-      spatialCells,
-      averageObjectsPerCell: spatialCells > 0 ? totalObjectsInCells / spatialCells : 0
+      totalObjects: this.objects.size,
+      indexNodes: indexStats.nodes,
+      indexHeight: indexStats.height
     };
   }
 
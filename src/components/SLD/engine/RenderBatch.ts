@@ -0,0 +1,334 @@
+/**
+ * Render Batching for the SLD Render Engine
+ *
+ * Turns culled render objects into a backend-neutral draw list: colored triangles for
+ * the grid and wires, one instanced batch per symbol type, and text runs for labels.
+ * WebGLRenderer and Canvas2DRenderer draw the same list so both backends match.
+ */
+
+import type { RenderObject, Viewport } from './WebGLRenderer';
+import { getSymbolForComponent, strokeSegment, tessellateSymbol, SYMBOL_VIEWBOX } from './SymbolGeometry';
+import type { SymbolMesh } from './SymbolGeometry';
+
+export type RGBA = [number, number, number, number];
+
+// Colored triangle vertices: x, y, r, g, b, a
+export const VERTEX_STRIDE = 6;
+// Symbol instances: x, y, scale, rotation, r, g, b, a
+export const INSTANCE_STRIDE = 8;
+
+export const LABEL_FONT_FAMILY = 'Arial, sans-serif';
+export const COMPONENT_COLOR = '#1f2937';
+export const WIRE_WIDTH = 2;
+export const WIRE_COLORS: Record<string, string> = {
+  power: '#1f2937',
+  ac: '#1f2937',
+  dc: '#dc2626',
+  ground: '#16a34a',
+  control: '#2563eb'
+};
+export const GRID_MINOR_COLOR = '#f3f4f6';
+export const GRID_MAJOR_COLOR = '#d1d5db';
+export const GRID_MAJOR_INTERVAL = 5;
+// Minor grid lines closer than this on screen are skipped
+const MIN_GRID_SPACING_PX = 4;
+const COMPONENT_LABEL_SIZE = 10;
+const WIRE_LABEL_SIZE = 9;
+
+export interface SymbolBatch {
+  mesh: SymbolMesh;
+  instances: number[];
+  instanceCount: number;
+}
+
+export interface TextRun {
+  text: string;
+  x: number;
+  y: number; // Baseline
+  fontSize: number;
+  bold: boolean;
+  color: RGBA;
+  align: 'left' | 'center';
+}
+
+export interface DrawList {
+  grid: number[];
+  wires: number[];
+  symbols: SymbolBatch[];
+  texts: TextRun[];
+}
+
+export const parseColor = (color: string | undefined, fallback: RGBA = [0, 0, 0, 1]): RGBA => {
+  if (!color) return fallback;
+
+  const hex = color.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(d => d + d).join('') : hex[1];
+    return [
+      parseInt(digits.slice(0, 2), 16) / 255,
+      parseInt(digits.slice(2, 4), 16) / 255,
+      parseInt(digits.slice(4, 6), 16) / 255,
+      1
+    ];
+  }
+
+  const rgb = color.trim().match(/^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/i);
+  if (rgb) {
+    return [Number(rgb[1]) / 255, Number(rgb[2]) / 255, Number(rgb[3]) / 255, rgb[4] !== undefined ? Number(rgb[4]) : 1];
+  }
+
+  return fallback;
+};
+
+export const toCssColor = ([r, g, b, a]: RGBA): string =>
+  `rgba(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)}, ${a})`;
+
+/**
+ * Column-major world-to-screen matrix for zoom and pan, as GLSL mat3 expects
+ */
+export const createViewTransform = (viewport: Viewport): Float32Array => {
+  const zoom = viewport.zoom;
+  return new Float32Array([
+    zoom, 0, 0,
+    0, zoom, 0,
+    -viewport.x * zoom, -viewport.y * zoom, 1
+  ]);
+};
+
+export const cullRenderObjects = (objects: Iterable<RenderObject>, viewport: Viewport): RenderObject[] => {
+  const visibleObjects: RenderObject[] = [];
+  const viewBounds = {
+    left: viewport.x,
+    top: viewport.y,
+    right: viewport.x + viewport.width / viewport.zoom,
+    bottom: viewport.y + viewport.height / viewport.zoom
+  };
+
+  for (const object of objects) {
+    const objBounds = object.bounds;
+
+    // Check if object intersects with viewport
+    const intersects = !(
+      objBounds.x + objBounds.width < viewBounds.left ||
+      objBounds.x > viewBounds.right ||
+      objBounds.y + objBounds.height < viewBounds.top ||
+      objBounds.y > viewBounds.bottom
+    );
+
+    if (intersects && object.visible) {
+      visibleObjects.push(object);
+    }
+  }
+
+  // Sort by z-index
+  visibleObjects.sort((a, b) => a.zIndex - b.zIndex);
+
+  return visibleObjects;
+};
+
+const pushColoredTriangles = (out: number[], positions: number[], color: RGBA): void => {
+  for (let i = 0; i < positions.length; i += 2) {
+    out.push(positions[i], positions[i + 1], color[0], color[1], color[2], color[3]);
+  }
+};
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export class RenderBatchBuilder {
+  private viewport: Viewport;
+  private lookup: (id: string) => RenderObject | undefined;
+  private grid: number[] = [];
+  private wires: number[] = [];
+  private symbols: Map<string, SymbolBatch> = new Map();
+  private texts: TextRun[] = [];
+
+  constructor(viewport: Viewport, lookup: (id: string) => RenderObject | undefined = () => undefined) {
+    this.viewport = viewport;
+    this.lookup = lookup;
+  }
+
+  public begin(viewport: Viewport): void {
+    this.viewport = viewport;
+    this.grid = [];
+    this.wires = [];
+    this.symbols = new Map();
+    this.texts = [];
+  }
+
+  public addComponent(object: RenderObject): void {
+    const component = object.data || {};
+    const mesh = tessellateSymbol(getSymbolForComponent(component.type));
+    const { x, y, width, height } = object.bounds;
+    const centerX = x + width / 2;
+    const centerY = y + height / 2;
+    const scale = Math.min(width, height) / SYMBOL_VIEWBOX;
+    const rotation = ((component.rotation || 0) * Math.PI) / 180;
+    const color = parseColor(component.visual?.strokeColor, parseColor(COMPONENT_COLOR));
+
+    let batch = this.symbols.get(mesh.id);
+    if (!batch) {
+      batch = { mesh, instances: [], instanceCount: 0 };
+      this.symbols.set(mesh.id, batch);
+    }
+    batch.instances.push(centerX, centerY, scale, rotation, color[0], color[1], color[2], color[3]);
+    batch.instanceCount++;
+
+    // Symbol text follows the symbol position but stays upright
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    mesh.texts.forEach(text => {
+      this.texts.push({
+        text: text.text,
+        x: centerX + (text.x * cos - text.y * sin) * scale,
+        y: centerY + (text.x * sin + text.y * cos) * scale,
+        fontSize: text.size * scale,
+        bold: text.bold,
+        color,
+        align: 'center'
+      });
+    });
+
+    const name = component.visual?.label || component.name || component.label;
+    if (name) {
+      this.texts.push({
+        text: name,
+        x: centerX,
+        y: y + height + COMPONENT_LABEL_SIZE + 2,
+        fontSize: COMPONENT_LABEL_SIZE,
+        bold: false,
+        color: parseColor(COMPONENT_COLOR),
+        align: 'center'
+      });
+    }
+  }
+
+  public addConnection(object: RenderObject): void {
+    const connection = object.data || {};
+    const points = this.routeConnection(connection);
+    if (points.length < 2) return;
+
+    const color = parseColor(WIRE_COLORS[connection.type || connection.wireType] || WIRE_COLORS.power);
+    const positions: number[] = [];
+    for (let i = 0; i < points.length - 1; i++) {
+      strokeSegment(positions, points[i].x, points[i].y, points[i + 1].x, points[i + 1].y, WIRE_WIDTH, i > 0);
+    }
+    pushColoredTriangles(this.wires, positions, color);
+
+    if (connection.label) {
+      const middle = Math.floor((points.length - 1) / 2);
+      this.texts.push({
+        text: connection.label,
+        x: (points[middle].x + points[middle + 1].x) / 2,
+        y: (points[middle].y + points[middle + 1].y) / 2 - 4,
+        fontSize: WIRE_LABEL_SIZE,
+        bold: false,
+        color,
+        align: 'center'
+      });
+    }
+  }
+
+  public addLabel(object: RenderObject): void {
+    const label = object.data || {};
+    if (!label.text) return;
+
+    const fontSize = label.fontSize || 12;
+    this.texts.push({
+      text: label.text,
+      x: label.position?.x ?? object.bounds.x,
+      y: (label.position?.y ?? object.bounds.y) + fontSize,
+      fontSize,
+      bold: label.fontWeight === 'bold',
+      color: parseColor(label.color, parseColor(COMPONENT_COLOR)),
+      align: 'left'
+    });
+  }
+
+  public addGrid(object: RenderObject): void {
+    const size = object.data?.size || 20;
+    const zoom = this.viewport.zoom;
+    const left = Math.max(object.bounds.x, this.viewport.x);
+    const top = Math.max(object.bounds.y, this.viewport.y);
+    const right = Math.min(object.bounds.x + object.bounds.width, this.viewport.x + this.viewport.width / zoom);
+    const bottom = Math.min(object.bounds.y + object.bounds.height, this.viewport.y + this.viewport.height / zoom);
+    if (right <= left || bottom <= top) return;
+
+    const showMinor = size * zoom >= MIN_GRID_SPACING_PX;
+    const lineWidth = 1 / zoom;
+    const minor: number[] = [];
+    const major: number[] = [];
+
+    for (let index = Math.ceil(left / size); index * size <= right; index++) {
+      const isMajor = index % GRID_MAJOR_INTERVAL === 0;
+      if (!isMajor && !showMinor) continue;
+      strokeSegment(isMajor ? major : minor, index * size, top, index * size, bottom, lineWidth, false);
+    }
+    for (let index = Math.ceil(top / size); index * size <= bottom; index++) {
+      const isMajor = index % GRID_MAJOR_INTERVAL === 0;
+      if (!isMajor && !showMinor) continue;
+      strokeSegment(isMajor ? major : minor, left, index * size, right, index * size, lineWidth, false);
+    }
+
+    // Major lines go last so they draw over the minor ones they cross
+    pushColoredTriangles(this.grid, minor, parseColor(GRID_MINOR_COLOR));
+    pushColoredTriangles(this.grid, major, parseColor(GRID_MAJOR_COLOR));
+  }
+
+  public build(): DrawList {
+    return {
+      grid: this.grid,
+      wires: this.wires,
+      symbols: Array.from(this.symbols.values()),
+      texts: this.texts
+    };
+  }
+
+  /**
+   * Orthogonal route between the facing edges of two components, or the explicit
+   * start and end points when the connection carries them
+   */
+  private routeConnection(connection: any): Point[] {
+    if (connection.startPoint && connection.endPoint) {
+      return this.orthogonalRoute(connection.startPoint, connection.endPoint, true);
+    }
+
+    const from = this.lookup(connection.fromComponentId || connection.from);
+    const to = this.lookup(connection.toComponentId || connection.to);
+    if (!from || !to) return [];
+
+    const fromCenter = { x: from.bounds.x + from.bounds.width / 2, y: from.bounds.y + from.bounds.height / 2 };
+    const toCenter = { x: to.bounds.x + to.bounds.width / 2, y: to.bounds.y + to.bounds.height / 2 };
+    const horizontal = Math.abs(toCenter.x - fromCenter.x) >= Math.abs(toCenter.y - fromCenter.y);
+
+    if (horizontal) {
+      const direction = Math.sign(toCenter.x - fromCenter.x) || 1;
+      return this.orthogonalRoute(
+        { x: fromCenter.x + (direction * from.bounds.width) / 2, y: fromCenter.y },
+        { x: toCenter.x - (direction * to.bounds.width) / 2, y: toCenter.y },
+        true
+      );
+    }
+
+    const direction = Math.sign(toCenter.y - fromCenter.y) || 1;
+    return this.orthogonalRoute(
+      { x: fromCenter.x, y: fromCenter.y + (direction * from.bounds.height) / 2 },
+      { x: toCenter.x, y: toCenter.y - (direction * to.bounds.height) / 2 },
+      false
+    );
+  }
+
+  private orthogonalRoute(start: Point, end: Point, horizontalFirst: boolean): Point[] {
+    if (start.x === end.x || start.y === end.y) {
+      return [start, end];
+    }
+    if (horizontalFirst) {
+      const middleX = (start.x + end.x) / 2;
+      return [start, { x: middleX, y: start.y }, { x: middleX, y: end.y }, end];
+    }
+    const middleY = (start.y + end.y) / 2;
+    return [start, { x: start.x, y: middleY }, { x: end.x, y: middleY }, end];
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Renderer selection for the Professional SLD canvas
+ *
+ * Prefers the WebGL2 renderer and falls back to Canvas2D when WebGL2 is
+ * unavailable or its shaders fail to compile
+ */
+
+import { WebGLRenderer } from './WebGLRenderer';
+import type { RenderObject, RenderStats, Viewport } from './WebGLRenderer';
+import { Canvas2DRenderer } from './Canvas2DRenderer';
+
+export interface SLDRenderer {
+  setViewport(viewport: Partial<Viewport>): void;
+  addRenderObject(object: RenderObject): void;
+  removeRenderObject(id: string): void;
+  updateRenderObject(id: string, updates: Partial<RenderObject>): void;
+  clearRenderObjects(): void;
+  render(): void;
+  startRenderLoop(): void;
+  stopRenderLoop(): void;
+  getStats(): RenderStats;
+  dispose(): void;
+}
+
+export const createSLDRenderer = (
+  canvas: HTMLCanvasElement,
+  options: { preferWebGL?: boolean } = {}
+): SLDRenderer => {
+  if (options.preferWebGL !== false) {
+    try {
+      return new WebGLRenderer(canvas);
+    } catch (error) {
+      console.warn('WebGL2 renderer unavailable, falling back to Canvas2D:', error);
+    }
+  }
+  return new Canvas2DRenderer(canvas);
+};
@@ -4,6 +4,8 @@
  * Multi-select, selection handles, and group operations
  */
 
+import type { SpatialIndex } from '../../../utils/spatialIndex';
+
 export interface Point {
   x: number;
   y: number;
@@ -68,6 +70,9 @@ export class SelectionSystem {
   private onSelectionChange?: (selectedIds: string[], objects: SelectedObject[]) => void;
   private onBoundsChange?: (bounds: SelectionBounds | null) => void;
   private onObjectUpdate?: (id: string, updates: any) => void;
+  
+  // Selectable objects, shared with hit testing so moves keep both in sync
+  private spatialIndex: SpatialIndex<SelectedObject> | null = null;
 
   constructor() {
     this.state = {
@@ -94,6 +99,34 @@ export class SelectionSystem {
     this.onObjectUpdate = callback;
   }
 
+  public setSpatialIndex(index: SpatialIndex<SelectedObject> | null): void {
+    this.spatialIndex = index;
+  }
+
+  /**
+   * Marquee selection of every unlocked object overlapping the rectangle
+   */
+  public selectInRectangle(rect: Rectangle, multiSelect: boolean = false): string[] {
+    if (!this.spatialIndex) return [];
+
+    const hits = this.spatialIndex.search(rect).filter(obj => !obj.locked);
+    const selections = hits.map(obj => ({ id: obj.id, object: obj }));
+
+    if (multiSelect) {
+      selections.forEach(({ id, object }) => {
+        this.state.selectedIds.add(id);
+        this.state.objects.set(id, object);
+      });
+      this.state.isMultiSelect = this.state.selectedIds.size > 1;
+      this.updateSelectionBounds();
+      this.notifySelectionChange();
+    } else {
+      this.selectMultiple(selections);
+    }
+
+    return hits.map(obj => obj.id);
+  }
+
   public select(objectId: string, object: SelectedObject, multiSelect: boolean = false): void {
     if (!multiSelect) {
       this.clearSelection();
@@ -352,9 +385,7 @@ export class SelectionSystem {
       };
 
       const updatedObject = { ...obj, bounds: newBounds };
-      this.state.objects.set(id, updatedObject);
-      
-      this.onObjectUpdate?.(id, { position: { x: newBounds.x, y: newBounds.y } });
+      this.commitObjectUpdate(id, updatedObject, { position: { x: newBounds.x, y: newBounds.y } });
     });
 
     this.updateSelectionBounds();
@@ -436,9 +467,7 @@ export class SelectionSystem {
       };
 
       const updatedObject = { ...obj, bounds: newObjBounds };
-      this.state.objects.set(id, updatedObject);
-      
-      this.onObjectUpdate?.(id, {
+      this.commitObjectUpdate(id, updatedObject, {
         position: { x: newObjBounds.x, y: newObjBounds.y },
         size: { width: newObjBounds.width, height: newObjBounds.height }
       });
@@ -484,9 +513,7 @@ export class SelectionSystem {
 
       const newBounds = { ...obj.bounds, x: newX, y: newY };
       const updatedObject = { ...obj, bounds: newBounds };
-      this.state.objects.set(id, updatedObject);
-      
-      this.onObjectUpdate?.(id, { position: { x: newX, y: newY } });
+      this.commitObjectUpdate(id, updatedObject, { position: { x: newX, y: newY } });
     });
 
     this.updateSelectionBounds();
@@ -534,9 +561,7 @@ export class SelectionSystem {
       }
 
       const updatedObject = { ...obj, bounds: newBounds };
-      this.state.objects.set(obj.id, updatedObject);
-      
-      this.onObjectUpdate?.(obj.id, { 
+      this.commitObjectUpdate(obj.id, updatedObject, { 
         position: { x: newBounds.x, y: newBounds.y } 
       });
     });
@@ -580,9 +605,7 @@ export class SelectionSystem {
         rotation: obj.rotation + angle
       };
       
-      this.state.objects.set(id, updatedObject);
-      
-      this.onObjectUpdate?.(id, {
+      this.commitObjectUpdate(id, updatedObject, {
         position: { x: newBounds.x, y: newBounds.y },
         rotation: updatedObject.rotation
       });
@@ -591,6 +614,12 @@ export class SelectionSystem {
     this.updateSelectionBounds();
   }
 
+  private commitObjectUpdate(id: string, updatedObject: SelectedObject, updates: any): void {
+    this.state.objects.set(id, updatedObject);
+    this.spatialIndex?.update(id, updatedObject.bounds, updatedObject);
+    this.onObjectUpdate?.(id, updates);
+  }
+
   private notifySelectionChange(): void {
     const selectedIds = Array.from(this.state.selectedIds);
     const objects = Array.from(this.state.objects.values());
@@ -0,0 +1,343 @@
+/**
+ * Symbol Geometry for the SLD Render Engine
+ *
+ * Data-form copies of the IEEE 315 symbols drawn by IEEESymbolLibrary, tessellated
+ * into triangle meshes that the WebGL and Canvas2D renderers both draw unchanged
+ */
+
+// Symbols share the 60x60 viewBox used by IEEESymbolLibrary
+export const SYMBOL_VIEWBOX = 60;
+export const SYMBOL_STROKE_WIDTH = 2;
+export const CIRCLE_SEGMENTS = 24;
+const CURVE_SEGMENTS = 8;
+
+export type SymbolPrimitive =
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; weight?: number }
+  | { kind: 'polyline'; points: number[]; weight?: number }
+  | { kind: 'quad'; points: number[]; weight?: number } // Quadratic bezier chain: start, then control/end pairs
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; weight?: number }
+  | { kind: 'circle'; cx: number; cy: number; r: number; filled?: boolean; weight?: number }
+  | { kind: 'text'; x: number; y: number; text: string; size: number; bold?: boolean };
+
+export interface SymbolDefinition {
+  id: string;
+  name: string;
+  primitives: SymbolPrimitive[];
+}
+
+export interface SymbolText {
+  text: string;
+  x: number; // Centered symbol units
+  y: number; // Baseline, centered symbol units
+  size: number;
+  bold: boolean;
+}
+
+export interface SymbolMesh {
+  id: string;
+  // Triangle list as x,y pairs centered on the symbol origin
+  vertices: Float32Array;
+  vertexCount: number;
+  texts: SymbolText[];
+}
+
+const leads = (y = 30, left = 20, right = 40): SymbolPrimitive[] => [
+  { kind: 'line', x1: 5, y1: y, x2: left, y2: y },
+  { kind: 'line', x1: right, y1: y, x2: 55, y2: y }
+];
+
+export const IEEE_SYMBOL_DEFINITIONS: Record<string, SymbolDefinition> = {
+  ac_source: {
+    id: 'ac_source',
+    name: 'AC Voltage Source',
+    primitives: [
+      { kind: 'circle', cx: 30, cy: 30, r: 25 },
+      { kind: 'quad', points: [15, 30, 22.5, 15, 30, 30, 37.5, 45, 45, 30] }
+    ]
+  },
+  circuit_breaker: {
+    id: 'circuit_breaker',
+    name: 'Circuit Breaker',
+    primitives: [
+      { kind: 'rect', x: 20, y: 15, width: 20, height: 30 },
+      { kind: 'circle', cx: 25, cy: 25, r: 2, filled: true },
+      { kind: 'circle', cx: 35, cy: 35, r: 2, filled: true },
+      { kind: 'quad', points: [27, 25, 30, 20, 33, 35] },
+      ...leads()
+    ]
+  },
+  disconnect: {
+    id: 'disconnect',
+    name: 'Disconnect Switch',
+    primitives: [
+      { kind: 'rect', x: 20, y: 15, width: 20, height: 30 },
+      { kind: 'line', x1: 25, y1: 30, x2: 35, y2: 30 },
+      { kind: 'line', x1: 32, y1: 25, x2: 38, y2: 20 },
+      { kind: 'circle', cx: 25, cy: 30, r: 2, filled: true },
+      { kind: 'circle', cx: 35, cy: 30, r: 2, filled: true },
+      ...leads()
+    ]
+  },
+  meter: {
+    id: 'meter',
+    name: 'Watthour Meter',
+    primitives: [
+      { kind: 'circle', cx: 30, cy: 30, r: 20 },
+      { kind: 'text', x: 30, y: 34, text: 'kWh', size: 11, bold: true },
+      ...leads(30, 10, 50)
+    ]
+  },
+  load_general: {
+    id: 'load_general',
+    name: 'General Load',
+    primitives: [
+      { kind: 'rect', x: 15, y: 25, width: 30, height: 10 },
+      { kind: 'polyline', points: [18, 30, 22, 27, 26, 33, 30, 27, 34, 33, 38, 27, 42, 30] },
+      ...leads(30, 15, 45)
+    ]
+  },
+  ground_earth: {
+    id: 'ground_earth',
+    name: 'Earth Ground',
+    primitives: [
+      { kind: 'line', x1: 30, y1: 10, x2: 30, y2: 35 },
+      { kind: 'line', x1: 15, y1: 35, x2: 45, y2: 35, weight: 2 },
+      { kind: 'line', x1: 20, y1: 40, x2: 40, y2: 40 },
+      { kind: 'line', x1: 25, y1: 45, x2: 35, y2: 45 },
+      { kind: 'line', x1: 27, y1: 50, x2: 33, y2: 50 },
+      { kind: 'circle', cx: 30, cy: 10, r: 2, filled: true }
+    ]
+  },
+  busway: {
+    id: 'busway',
+    name: 'Panelboard Bus',
+    primitives: [
+      { kind: 'rect', x: 10, y: 20, width: 40, height: 20 },
+      { kind: 'line', x1: 15, y1: 25, x2: 45, y2: 25, weight: 2 },
+      { kind: 'line', x1: 15, y1: 30, x2: 45, y2: 30, weight: 2 },
+      { kind: 'line', x1: 15, y1: 35, x2: 45, y2: 35, weight: 2 },
+      ...leads(30, 10, 50)
+    ]
+  },
+  solar_panel: {
+    id: 'solar_panel',
+    name: 'Solar Panel',
+    primitives: [
+      { kind: 'rect', x: 10, y: 15, width: 40, height: 30 },
+      { kind: 'line', x1: 20, y1: 15, x2: 20, y2: 45, weight: 0.5 },
+      { kind: 'line', x1: 30, y1: 15, x2: 30, y2: 45, weight: 0.5 },
+      { kind: 'line', x1: 40, y1: 15, x2: 40, y2: 45, weight: 0.5 },
+      { kind: 'line', x1: 10, y1: 25, x2: 50, y2: 25, weight: 0.5 },
+      { kind: 'line', x1: 10, y1: 35, x2: 50, y2: 35, weight: 0.5 },
+      { kind: 'line', x1: 25, y1: 45, x2: 25, y2: 55 },
+      { kind: 'line', x1: 35, y1: 45, x2: 35, y2: 55 },
+      { kind: 'text', x: 22, y: 53, text: '+', size: 8 },
+      { kind: 'text', x: 38, y: 53, text: '-', size: 8 }
+    ]
+  },
+  battery: {
+    id: 'battery',
+    name: 'Battery',
+    primitives: [
+      { kind: 'line', x1: 20, y1: 15, x2: 20, y2: 45, weight: 2 },
+      { kind: 'line', x1: 25, y1: 10, x2: 25, y2: 50 },
+      { kind: 'line', x1: 30, y1: 15, x2: 30, y2: 45, weight: 2 },
+      { kind: 'line', x1: 35, y1: 10, x2: 35, y2: 50 },
+      { kind: 'line', x1: 40, y1: 15, x2: 40, y2: 45, weight: 2 },
+      { kind: 'text', x: 17, y: 12, text: '+', size: 10, bold: true },
+      { kind: 'text', x: 43, y: 12, text: '-', size: 10, bold: true },
+      ...leads()
+    ]
+  },
+  inverter: {
+    id: 'inverter',
+    name: 'Inverter',
+    primitives: [
+      { kind: 'rect', x: 15, y: 15, width: 30, height: 30 },
+      { kind: 'line', x1: 15, y1: 45, x2: 45, y2: 15 },
+      { kind: 'text', x: 23, y: 27, text: '=', size: 10, bold: true },
+      { kind: 'text', x: 37, y: 42, text: '~', size: 10, bold: true },
+      ...leads(30, 15, 45)
+    ]
+  },
+  evse: {
+    id: 'evse',
+    name: 'Electric Vehicle Supply Equipment',
+    primitives: [
+      { kind: 'rect', x: 15, y: 15, width: 30, height: 30 },
+      { kind: 'text', x: 30, y: 34, text: 'EV', size: 11, bold: true },
+      ...leads(30, 15, 45)
+    ]
+  },
+  generic: {
+    id: 'generic',
+    name: 'Equipment',
+    primitives: [
+      { kind: 'rect', x: 15, y: 15, width: 30, height: 30 },
+      ...leads(30, 15, 45)
+    ]
+  }
+};
+
+// SLD component types mapped to the symbol drawn for them
+export const COMPONENT_SYMBOL_MAP: Record<string, string> = {
+  pv_array: 'solar_panel',
+  inverter: 'inverter',
+  dc_disconnect: 'disconnect',
+  ac_disconnect: 'disconnect',
+  main_disconnect: 'disconnect',
+  disconnect: 'disconnect',
+  service_disconnect: 'disconnect',
+  battery: 'battery',
+  tesla_powerwall3: 'battery',
+  enphase_iq10c: 'battery',
+  main_panel: 'busway',
+  sub_panel: 'busway',
+  combiner_box: 'busway',
+  evse_charger: 'evse',
+  ev_charger: 'evse',
+  grid: 'ac_source',
+  utility_service: 'ac_source',
+  production_meter: 'meter',
+  consumption_meter: 'meter',
+  utility_meter: 'meter',
+  meter_socket: 'meter',
+  grounding_electrode: 'ground_earth',
+  breaker: 'circuit_breaker',
+  load_generic: 'load_general'
+};
+
+export const getSymbolForComponent = (componentType: string): SymbolDefinition =>
+  IEEE_SYMBOL_DEFINITIONS[COMPONENT_SYMBOL_MAP[componentType]] || IEEE_SYMBOL_DEFINITIONS.generic;
+
+/**
+ * Append a stroked segment as two triangles. Ends are extended by half the width
+ * (square caps) so that rectangle corners and polyline joints close without gaps.
+ */
+export const strokeSegment = (
+  out: number[],
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  width: number,
+  extendEnds = true
+): void => {
+  const length = Math.hypot(x2 - x1, y2 - y1);
+  if (length === 0) return;
+
+  const half = width / 2;
+  const ux = (x2 - x1) / length;
+  const uy = (y2 - y1) / length;
+  const cap = extendEnds ? half : 0;
+  const sx = x1 - ux * cap;
+  const sy = y1 - uy * cap;
+  const ex = x2 + ux * cap;
+  const ey = y2 + uy * cap;
+  const nx = -uy * half;
+  const ny = ux * half;
+
+  out.push(
+    sx + nx, sy + ny, ex + nx, ey + ny, ex - nx, ey - ny,
+    sx + nx, sy + ny, ex - nx, ey - ny, sx - nx, sy - ny
+  );
+};
+
+const strokePolyline = (out: number[], points: number[], width: number): void => {
+  for (let i = 0; i + 3 < points.length; i += 2) {
+    strokeSegment(out, points[i], points[i + 1], points[i + 2], points[i + 3], width);
+  }
+};
+
+const flattenQuadratic = (points: number[]): number[] => {
+  const flattened = [points[0], points[1]];
+  for (let i = 0; i + 6 <= points.length; i += 4) {
+    const [x0, y0, cx, cy, x1, y1] = points.slice(i, i + 6);
+    for (let step = 1; step <= CURVE_SEGMENTS; step++) {
+      const t = step / CURVE_SEGMENTS;
+      const mt = 1 - t;
+      flattened.push(
+        mt * mt * x0 + 2 * mt * t * cx + t * t * x1,
+        mt * mt * y0 + 2 * mt * t * cy + t * t * y1
+      );
+    }
+  }
+  return flattened;
+};
+
+const circlePoint = (cx: number, cy: number, r: number, index: number): [number, number] => {
+  const angle = (index / CIRCLE_SEGMENTS) * Math.PI * 2;
+  return [cx + Math.cos(angle) * r, cy + Math.sin(angle) * r];
+};
+
+const tessellateCircle = (out: number[], cx: number, cy: number, r: number, filled: boolean, width: number): void => {
+  for (let i = 0; i < CIRCLE_SEGMENTS; i++) {
+    if (filled) {
+      const [ax, ay] = circlePoint(cx, cy, r, i);
+      const [bx, by] = circlePoint(cx, cy, r, i + 1);
+      out.push(cx, cy, ax, ay, bx, by);
+    } else {
+      const [oax, oay] = circlePoint(cx, cy, r + width / 2, i);
+      const [obx, oby] = circlePoint(cx, cy, r + width / 2, i + 1);
+      const [iax, iay] = circlePoint(cx, cy, r - width / 2, i);
+      const [ibx, iby] = circlePoint(cx, cy, r - width / 2, i + 1);
+      out.push(oax, oay, obx, oby, ibx, iby, oax, oay, ibx, iby, iax, iay);
+    }
+  }
+};
+
+const meshCache = new Map<string, SymbolMesh>();
+
+/**
+ * Tessellate a symbol into a triangle mesh centered on its origin. Meshes are cached
+ * per symbol so every instance of a component type shares one geometry buffer.
+ */
+export const tessellateSymbol = (definition: SymbolDefinition): SymbolMesh => {
+  const cached = meshCache.get(definition.id);
+  if (cached) return cached;
+
+  const out: number[] = [];
+  const texts: SymbolText[] = [];
+  const offset = SYMBOL_VIEWBOX / 2;
+
+  definition.primitives.forEach(primitive => {
+    const width = SYMBOL_STROKE_WIDTH * ('weight' in primitive && primitive.weight ? primitive.weight : 1);
+    switch (primitive.kind) {
+      case 'line':
+        strokeSegment(out, primitive.x1, primitive.y1, primitive.x2, primitive.y2, width);
+        break;
+      case 'polyline':
+        strokePolyline(out, primitive.points, width);
+        break;
+      case 'quad':
+        strokePolyline(out, flattenQuadratic(primitive.points), width);
+        break;
+      case 'rect': {
+        const { x, y, width: w, height: h } = primitive;
+        strokePolyline(out, [x, y, x + w, y, x + w, y + h, x, y + h, x, y], width);
+        break;
+      }
+      case 'circle':
+        tessellateCircle(out, primitive.cx, primitive.cy, primitive.r, !!primitive.filled, width);
+        break;
+      case 'text':
+        texts.push({
+          text: primitive.text,
+          x: primitive.x - offset,
+          y: primitive.y - offset,
+          size: primitive.size,
+          bold: !!primitive.bold
+        });
+        break;
+    }
+  });
+
+  const vertices = new Float32Array(out.length);
+  for (let i = 0; i < out.length; i++) {
+    vertices[i] = out[i] - offset;
+  }
+
+  const mesh: SymbolMesh = { id: definition.id, vertices, vertexCount: out.length / 2, texts };
+  meshCache.set(definition.id, mesh);
+  return mesh;
+};
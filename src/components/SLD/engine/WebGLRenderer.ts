@@ -4,6 +4,16 @@
  * High-performance rendering engine with viewport culling and smooth transformations
  */
 
+import {
+  RenderBatchBuilder,
+  createViewTransform,
+  cullRenderObjects,
+  INSTANCE_STRIDE,
+  VERTEX_STRIDE
+} from './RenderBatch';
+import type { DrawList, SymbolBatch } from './RenderBatch';
+import { GlyphAtlas, GLYPH_VERTEX_STRIDE } from './GlyphAtlas';
+
 export interface RenderObject {
   id: string;
   type: 'component' | 'connection' | 'label' | 'grid';
@@ -32,6 +42,7 @@ export interface RenderStats {
   culledObjects: number;
   renderTime: number;
   fps: number;
+  backend?: 'webgl2' | 'canvas2d';
 }
 
 export class WebGLRenderer {
@@ -51,6 +62,13 @@ export class WebGLRenderer {
   // Buffers
   private vertexBuffer: WebGLBuffer | null = null;
   private indexBuffer: WebGLBuffer | null = null;
+  private instanceBuffer: WebGLBuffer | null = null;
+  private meshBuffers: Map<string, WebGLBuffer> = new Map();
+  private glyphTexture: WebGLTexture | null = null;
+  private glyphAtlas: GlyphAtlas | null = null;
+  
+  // Per-frame batches filled by the render* methods
+  private batch: RenderBatchBuilder;
   
   // Performance monitoring
   private stats: RenderStats = {
@@ -58,7 +76,8 @@ export class WebGLRenderer {
     visibleObjects: 0,
     culledObjects: 0,
     renderTime: 0,
-    fps: 60
+    fps: 60,
+    backend: 'webgl2'
   };
 
   constructor(canvas: HTMLCanvasElement) {
@@ -87,6 +106,7 @@ export class WebGLRenderer {
       height: canvas.height,
       zoom: 1
     };
+    this.batch = new RenderBatchBuilder(this.viewport, id => this.renderObjects.get(id));
     
     this.initializeWebGL();
     this.setupEventListeners();
@@ -111,6 +131,11 @@ export class WebGLRenderer {
     
     // Initialize buffers
     this.initializeBuffers();
+    
+    // Let callers fall back to Canvas2D instead of drawing nothing
+    if (!this.shaderPrograms.has('basic') || !this.shaderPrograms.has('instanced')) {
+      throw new Error('WebGL2 shader initialization failed');
+    }
   }
 
   private initializeShaders(): void {
@@ -165,6 +190,50 @@ export class WebGLRenderer {
     if (program) {
       this.shaderPrograms.set('basic', program);
     }
+    
+    // Instanced vertex shader: one symbol mesh drawn once per component
+    const instancedVertexSource = `#version 300 es
+      precision highp float;
+      
+      in vec2 a_position;
+      in vec2 a_offset;
+      in float a_scale;
+      in float a_rotation;
+      in vec4 a_color;
+      
+      uniform mat3 u_transform;
+      uniform vec2 u_resolution;
+      
+      out vec4 v_color;
+      
+      void main() {
+        float c = cos(a_rotation);
+        float s = sin(a_rotation);
+        vec2 local = vec2(a_position.x * c - a_position.y * s, a_position.x * s + a_position.y * c);
+        vec3 position = u_transform * vec3(local * a_scale + a_offset, 1.0);
+        
+        vec2 clipSpace = ((position.xy / u_resolution) * 2.0) - 1.0;
+        gl_Position = vec4(clipSpace * vec2(1, -1), 0, 1);
+        
+        v_color = a_color;
+      }
+    `;
+    
+    const instancedFragmentSource = `#version 300 es
+      precision highp float;
+      
+      in vec4 v_color;
+      out vec4 fragColor;
+      
+      void main() {
+        fragColor = v_color;
+      }
+    `;
+    
+    const instancedProgram = this.createShaderProgram(instancedVertexSource, instancedFragmentSource);
+    if (instancedProgram) {
+      this.shaderPrograms.set('instanced', instancedProgram);
+    }
   }
 
   private createShaderProgram(vertexSource: string, fragmentSource: string): WebGLProgram | null {
@@ -223,6 +292,9 @@ export class WebGLRenderer {
     
     // Create index buffer
     this.indexBuffer = gl.createBuffer();
+    
+    // Per-instance symbol transforms and colors
+    this.instanceBuffer = gl.createBuffer();
   }
 
   private setupEventListeners(): void {
@@ -285,34 +357,7 @@ export class WebGLRenderer {
   }
 
   private performViewportCulling(): RenderObject[] {
-    const visibleObjects: RenderObject[] = [];
-    const viewBounds = {
-      left: this.viewport.x,
-      top: this.viewport.y,
-      right: this.viewport.x + this.viewport.width / this.viewport.zoom,
-      bottom: this.viewport.y + this.viewport.height / this.viewport.zoom
-    };
-    
-    for (const object of this.renderObjects.values()) {
-      const objBounds = object.bounds;
-      
-      // Check if object intersects with viewport
-      const intersects = !(
-        objBounds.x + objBounds.width < viewBounds.left ||
-        objBounds.x > viewBounds.right ||
-        objBounds.y + objBounds.height < viewBounds.top ||
-        objBounds.y > viewBounds.bottom
-      );
-      
-      if (intersects && object.visible) {
-        visibleObjects.push(object);
-      }
-    }
-    
-    // Sort by z-index
-    visibleObjects.sort((a, b) => a.zIndex - b.zIndex);
-    
-    return visibleObjects;
+    return cullRenderObjects(this.renderObjects.values(), this.viewport);
   }
 
   public render(): void {
@@ -331,32 +376,12 @@ export class WebGLRenderer {
     this.stats.visibleObjects = visibleObjects.length;
     this.stats.culledObjects = this.renderObjects.size - visibleObjects.length;
     
-    // Use basic shader program
-    const program = this.shaderPrograms.get('basic');
-    if (!program) {
-      return;
-    }
-    
-    gl.useProgram(program);
-    
-    // Set uniforms
-    const transformLocation = gl.getUniformLocation(program, 'u_transform');
-    const resolutionLocation = gl.getUniformLocation(program, 'u_resolution');
-    
-    if (resolutionLocation) {
-      gl.uniform2f(resolutionLocation, this.viewport.width, this.viewport.height);
-    }
-    
-    // Create transformation matrix
-    const transform = this.createTransformMatrix();
-    if (transformLocation) {
-      gl.uniformMatrix3fv(transformLocation, false, transform);
-    }
-    
-    // Render visible objects
+    // Collect visible objects into batches, then draw each batch in one call
+    this.batch.begin(this.viewport);
     for (const object of visibleObjects) {
       this.renderObject(object);
     }
+    this.flushBatches(this.batch.build());
     
     // Update performance stats
     const endTime = performance.now();
@@ -364,24 +389,7 @@ export class WebGLRenderer {
     this.updateFPS();
   }
 
-  private createTransformMatrix(): Float32Array {
-    // Create 2D transformation matrix for zoom and pan
-    const zoom = this.viewport.zoom;
-    const panX = -this.viewport.x * zoom;
-    const panY = -this.viewport.y * zoom;
-    
-    return new Float32Array([
-      zoom, 0, panX,
-      0, zoom, panY,
-      0, 0, 1
-    ]);
-  }
-
   private renderObject(object: RenderObject): void {
-    // This is a simplified render method
-    // In a full implementation, this would handle different object types
-    // with appropriate rendering strategies
-    
     switch (object.type) {
       case 'component':
         this.renderComponent(object);
@@ -399,20 +407,182 @@ export class WebGLRenderer {
   }
 
   private renderComponent(object: RenderObject): void {
-    // Component rendering implementation
-    // This would create appropriate geometry and render it
+    // Adds an instance of the component's tessellated IEEE symbol
+    this.batch.addComponent(object);
   }
 
   private renderConnection(object: RenderObject): void {
-    // Connection line rendering implementation
+    // Adds the routed wire to the shared wire triangle batch
+    this.batch.addConnection(object);
   }
 
   private renderLabel(object: RenderObject): void {
-    // Text label rendering implementation
+    this.batch.addLabel(object);
   }
 
   private renderGrid(object: RenderObject): void {
-    // Grid rendering implementation
+    this.batch.addGrid(object);
+  }
+
+  private flushBatches(drawList: DrawList): void {
+    const basic = this.shaderPrograms.get('basic');
+    const instanced = this.shaderPrograms.get('instanced');
+    if (!basic || !instanced) {
+      return;
+    }
+    
+    const transform = createViewTransform(this.viewport);
+    
+    // Back to front: grid, wires, symbols, text
+    this.useProgram(basic, transform);
+    this.drawColoredTriangles(basic, drawList.grid);
+    this.drawColoredTriangles(basic, drawList.wires);
+    
+    this.useProgram(instanced, transform);
+    for (const batch of drawList.symbols) {
+      this.drawSymbolBatch(instanced, batch);
+    }
+    
+    if (drawList.texts.length > 0) {
+      this.useProgram(basic, transform);
+      this.drawText(basic, drawList);
+    }
+  }
+
+  private useProgram(program: WebGLProgram, transform: Float32Array): void {
+    const gl = this.gl;
+    gl.useProgram(program);
+    
+    const transformLocation = gl.getUniformLocation(program, 'u_transform');
+    const resolutionLocation = gl.getUniformLocation(program, 'u_resolution');
+    
+    if (resolutionLocation) {
+      gl.uniform2f(resolutionLocation, this.viewport.width, this.viewport.height);
+    }
+    if (transformLocation) {
+      gl.uniformMatrix3fv(transformLocation, false, transform);
+    }
+  }
+
+  private bindAttribute(
+    program: WebGLProgram,
+    name: string,
+    size: number,
+    stride: number,
+    offset: number,
+    divisor: number = 0
+  ): number {
+    const gl = this.gl;
+    const location = gl.getAttribLocation(program, name);
+    if (location < 0) {
+      return location;
+    }
+    
+    gl.enableVertexAttribArray(location);
+    gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride * 4, offset * 4);
+    gl.vertexAttribDivisor(location, divisor);
+    return location;
+  }
+
+  private drawColoredTriangles(program: WebGLProgram, vertices: number[]): void {
+    if (vertices.length === 0) {
+      return;
+    }
+    
+    const gl = this.gl;
+    gl.uniform1i(gl.getUniformLocation(program, 'u_useTexture'), 0);
+    
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(vertices), gl.DYNAMIC_DRAW);
+    
+    this.bindAttribute(program, 'a_position', 2, VERTEX_STRIDE, 0);
+    this.bindAttribute(program, 'a_color', 4, VERTEX_STRIDE, 2);
+    const texCoordLocation = gl.getAttribLocation(program, 'a_texCoord');
+    if (texCoordLocation >= 0) {
+      gl.disableVertexAttribArray(texCoordLocation);
+    }
+    
+    gl.drawArrays(gl.TRIANGLES, 0, vertices.length / VERTEX_STRIDE);
+  }
+
+  private drawSymbolBatch(program: WebGLProgram, batch: SymbolBatch): void {
+    if (batch.instanceCount === 0 || batch.mesh.vertexCount === 0) {
+      return;
+    }
+    
+    const gl = this.gl;
+    
+    // Symbol meshes never change, so upload each one once
+    let meshBuffer = this.meshBuffers.get(batch.mesh.id);
+    if (!meshBuffer) {
+      meshBuffer = gl.createBuffer() ?? undefined;
+      if (!meshBuffer) {
+        return;
+      }
+      gl.bindBuffer(gl.ARRAY_BUFFER, meshBuffer);
+      gl.bufferData(gl.ARRAY_BUFFER, batch.mesh.vertices, gl.STATIC_DRAW);
+      this.meshBuffers.set(batch.mesh.id, meshBuffer);
+    }
+    
+    gl.bindBuffer(gl.ARRAY_BUFFER, meshBuffer);
+    const positionLocation = this.bindAttribute(program, 'a_position', 2, 2, 0);
+    
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(batch.instances), gl.DYNAMIC_DRAW);
+    const instanceLocations = [
+      this.bindAttribute(program, 'a_offset', 2, INSTANCE_STRIDE, 0, 1),
+      this.bindAttribute(program, 'a_scale', 1, INSTANCE_STRIDE, 2, 1),
+      this.bindAttribute(program, 'a_rotation', 1, INSTANCE_STRIDE, 3, 1),
+      this.bindAttribute(program, 'a_color', 4, INSTANCE_STRIDE, 4, 1)
+    ];
+    
+    gl.drawArraysInstanced(gl.TRIANGLES, 0, batch.mesh.vertexCount, batch.instanceCount);
+    
+    // Reset divisors so the basic program's attributes are read per vertex again
+    for (const location of [positionLocation, ...instanceLocations]) {
+      if (location >= 0) {
+        gl.vertexAttribDivisor(location, 0);
+      }
+    }
+  }
+
+  private drawText(program: WebGLProgram, drawList: DrawList): void {
+    const gl = this.gl;
+    
+    if (!this.glyphAtlas) {
+      this.glyphAtlas = new GlyphAtlas();
+      this.glyphTexture = gl.createTexture();
+    }
+    const atlas = this.glyphAtlas;
+    
+    const vertices: number[] = [];
+    for (const run of drawList.texts) {
+      atlas.layoutRun(vertices, run);
+    }
+    if (vertices.length === 0) {
+      return;
+    }
+    
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.glyphTexture);
+    if (atlas.isDirty()) {
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, atlas.canvas);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      atlas.markClean();
+    }
+    gl.uniform1i(gl.getUniformLocation(program, 'u_texture'), 0);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_useTexture'), 1);
+    
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(vertices), gl.DYNAMIC_DRAW);
+    this.bindAttribute(program, 'a_position', 2, GLYPH_VERTEX_STRIDE, 0);
+    this.bindAttribute(program, 'a_texCoord', 2, GLYPH_VERTEX_STRIDE, 2);
+    this.bindAttribute(program, 'a_color', 4, GLYPH_VERTEX_STRIDE, 4);
+    
+    gl.drawArrays(gl.TRIANGLES, 0, vertices.length / GLYPH_VERTEX_STRIDE);
   }
 
   private updateFPS(): void {
@@ -470,6 +640,19 @@ export class WebGLRenderer {
       gl.deleteBuffer(this.indexBuffer);
     }
     
+    if (this.instanceBuffer) {
+      gl.deleteBuffer(this.instanceBuffer);
+    }
+    
+    for (const buffer of this.meshBuffers.values()) {
+      gl.deleteBuffer(buffer);
+    }
+    this.meshBuffers.clear();
+    
+    if (this.glyphTexture) {
+      gl.deleteTexture(this.glyphTexture);
+    }
+    
     for (const program of this.shaderPrograms.values()) {
       gl.deleteProgram(program);
     }
@@ -4,6 +4,9 @@
  * Advanced pathfinding with obstacle avoidance and optimization
  */
 
+import { SpatialIndex } from '../../../utils/spatialIndex';
+import type { NearestResult } from '../../../utils/spatialIndex';
+
 export interface Point {
   x: number;
   y: number;
@@ -49,6 +52,7 @@ export interface RoutingResult {
 export class WireRoutingEngine {
   private constraints: RoutingConstraints;
   private obstacles: Map<string, RoutingObstacle> = new Map();
+  private obstacleIndex: SpatialIndex<RoutingObstacle> = new SpatialIndex();
   private gridSize: number = 10;
   private pathfindingGrid: number[][] = [];
   private gridWidth: number = 0;
@@ -67,27 +71,40 @@ export class WireRoutingEngine {
 
   public addObstacle(obstacle: RoutingObstacle): void {
     this.obstacles.set(obstacle.id, obstacle);
+    this.obstacleIndex.insert(obstacle.id, obstacle.bounds, obstacle);
     this.invalidateGrid();
   }
 
   public removeObstacle(id: string): void {
     this.obstacles.delete(id);
+    this.obstacleIndex.remove(id);
     this.invalidateGrid();
   }
 
   public updateObstacle(id: string, updates: Partial<RoutingObstacle>): void {
     const existing = this.obstacles.get(id);
     if (existing) {
-      this.obstacles.set(id, { ...existing, ...updates });
+      const updated = { ...existing, ...updates };
+      this.obstacles.set(id, updated);
+      this.obstacleIndex.update(id, updated.bounds, updated);
       this.invalidateGrid();
     }
   }
 
   public clearObstacles(): void {
     this.obstacles.clear();
+    this.obstacleIndex.clear();
     this.invalidateGrid();
   }
 
+  public getObstaclesInBounds(bounds: Rectangle): RoutingObstacle[] {
+    return this.obstacleIndex.search(bounds);
+  }
+
+  public findNearestObstacle(point: Point, maxDistance: number = Infinity): NearestResult<RoutingObstacle> | null {
+    return this.obstacleIndex.nearest(point, { maxDistance })[0] || null;
+  }
+
   public routeWire(start: Point, end: Point, options: {
     routingStyle?: 'orthogonal' | 'diagonal' | 'manhattan';
     avoidObstacles?: boolean;
@@ -195,8 +212,15 @@ export class WireRoutingEngine {
     this.pathfindingGrid = Array(this.gridHeight).fill(null)
       .map(() => Array(this.gridWidth).fill(0));
 
-    // Mark obstacles in grid
-    for (const obstacle of this.obstacles.values()) {
+    // Mark obstacles in grid, looking up only those within reach of the routing area
+    const margin = this.constraints.avoidanceMargin;
+    const nearbyObstacles = this.obstacleIndex.search({
+      x: minX - margin,
+      y: minY - margin,
+      width: maxX - minX + margin * 2,
+      height: maxY - minY + margin * 2
+    });
+    for (const obstacle of nearbyObstacles) {
       this.markObstacleInGrid(obstacle, minX, minY);
     }
   }
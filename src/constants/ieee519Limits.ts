@@ -0,0 +1,57 @@
+// IEEE 519-2014 harmonic limits at the point of common coupling (PCC)
+
+export interface IEEE519VoltageLimit {
+  maxVoltageKV: number;
+  individualHarmonic: number; // % of fundamental
+  thd: number; // %
+}
+
+export interface IEEE519CurrentLimit {
+  maxIscIlRatio: number;
+  // Odd harmonic limits in % of maximum demand load current (IL) by harmonic range
+  ranges: { minOrder: number; maxOrder: number; limit: number }[];
+  tdd: number; // %
+}
+
+// Table 1 - Voltage distortion limits
+export const IEEE519_VOLTAGE_LIMITS: IEEE519VoltageLimit[] = [
+  { maxVoltageKV: 1.0, individualHarmonic: 5.0, thd: 8.0 },
+  { maxVoltageKV: 69, individualHarmonic: 3.0, thd: 5.0 },
+  { maxVoltageKV: 161, individualHarmonic: 1.5, thd: 2.5 },
+  { maxVoltageKV: Infinity, individualHarmonic: 1.0, thd: 1.5 }
+];
+
+const currentRanges = (limits: [number, number, number, number, number]) => [
+  { minOrder: 3, maxOrder: 10, limit: limits[0] },
+  { minOrder: 11, maxOrder: 16, limit: limits[1] },
+  { minOrder: 17, maxOrder: 22, limit: limits[2] },
+  { minOrder: 23, maxOrder: 34, limit: limits[3] },
+  { minOrder: 35, maxOrder: 50, limit: limits[4] }
+];
+
+// Table 2 - Current distortion limits for systems rated 120 V through 69 kV
+export const IEEE519_CURRENT_LIMITS: IEEE519CurrentLimit[] = [
+  { maxIscIlRatio: 20, ranges: currentRanges([4.0, 2.0, 1.5, 0.6, 0.3]), tdd: 5.0 },
+  { maxIscIlRatio: 50, ranges: currentRanges([7.0, 3.5, 2.5, 1.0, 0.5]), tdd: 8.0 },
+  { maxIscIlRatio: 100, ranges: currentRanges([10.0, 4.5, 4.0, 1.5, 0.7]), tdd: 12.0 },
+  { maxIscIlRatio: 1000, ranges: currentRanges([12.0, 5.5, 5.0, 2.0, 1.0]), tdd: 15.0 },
+  { maxIscIlRatio: Infinity, ranges: currentRanges([15.0, 7.0, 6.0, 2.5, 1.4]), tdd: 20.0 }
+];
+
+// Even harmonics are limited to 25% of the odd harmonic limits above
+export const IEEE519_EVEN_HARMONIC_FACTOR = 0.25;
+
+export const getIEEE519VoltageLimit = (nominalVoltageKV: number): IEEE519VoltageLimit =>
+  IEEE519_VOLTAGE_LIMITS.find(limit => nominalVoltageKV <= limit.maxVoltageKV) ??
+  IEEE519_VOLTAGE_LIMITS[IEEE519_VOLTAGE_LIMITS.length - 1];
+
+export const getIEEE519CurrentLimit = (iscIlRatio: number): IEEE519CurrentLimit =>
+  IEEE519_CURRENT_LIMITS.find(limit => iscIlRatio < limit.maxIscIlRatio) ??
+  IEEE519_CURRENT_LIMITS[IEEE519_CURRENT_LIMITS.length - 1];
+
+export const getIEEE519IndividualCurrentLimit = (limit: IEEE519CurrentLimit, order: number): number => {
+  const oddOrder = order % 2 === 0 ? order + 1 : order;
+  const range = limit.ranges.find(r => oddOrder >= r.minOrder && oddOrder <= r.maxOrder);
+  if (!range) return 0;
+  return order % 2 === 0 ? range.limit * IEEE519_EVEN_HARMONIC_FACTOR : range.limit;
+};
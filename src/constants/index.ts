@@ -1,2 +1,4 @@
 export * from './necConstants';
-export * from './loadTemplates';
\ No newline at end of file
+export * from './necRulePacks';
+export * from './loadTemplates';
+export * from './necOccupancyTables';
\ No newline at end of file
@@ -7,6 +7,8 @@ export const NEC_CONSTANTS = {
   EVSE_MIN_VA: 7200,
   CONTINUOUS_LOAD_FACTOR: 1.25,
   SERVICE_SIZES: [100, 125, 150, 175, 200, 225, 250, 300, 350, 400, 500, 600, 800, 1000, 1200],
+  // Standard fuse and breaker ratings, NEC 240.6(A)
+  STANDARD_OCPD_SIZES: [15, 20, 25, 30, 35, 40, 45, 50, 60, 70, 80, 90, 100, 110, 125, 150, 175, 200, 225, 250, 300, 350, 400, 450, 500, 600, 700, 800, 1000, 1200],
   DEMAND_FACTORS: {
     OPTIONAL_METHOD: {
       FIRST_10K: 1.0,
@@ -76,4 +78,11 @@ export const WIRE_RESISTANCE = {
     '3/0': 0.126, '4/0': 0.100, '250': 0.0847, '300': 0.0706,
     '350': 0.0605, '400': 0.0529, '500': 0.0424
   }
-} as const;
\ No newline at end of file
+} as const;
+// NEC Chapter 9 Table 9 - AC reactance (XL) in ohms per 1000 ft, PVC conduit
+export const WIRE_REACTANCE = {
+  '14': 0.058, '12': 0.054, '10': 0.050, '8': 0.052, '6': 0.051,
+  '4': 0.048, '3': 0.047, '2': 0.045, '1': 0.046, '1/0': 0.044,
+  '2/0': 0.043, '3/0': 0.042, '4/0': 0.041, '250': 0.041,
+  '300': 0.041, '350': 0.040, '400': 0.040, '500': 0.039
+} as const;
@@ -0,0 +1,108 @@
+// Demand tables for the multifamily and commercial load calculations
+import type { CommercialOccupancy } from '../types';
+
+export interface DemandTier {
+  // Upper bound of the tier in VA; null for the remainder
+  upToVA: number | null;
+  factor: number;
+}
+
+export const OCCUPANCY_LABELS: Record<CommercialOccupancy, string> = {
+  office: 'Office',
+  retail: 'Retail / Store',
+  restaurant: 'Restaurant',
+  warehouse: 'Warehouse',
+  school: 'School',
+  hospital: 'Hospital',
+  hotel: 'Hotel / Motel',
+  religious: 'Religious Facility',
+  parking_garage: 'Parking Garage',
+  manufacturing: 'Manufacturing'
+};
+
+// Lighting load demand factors; occupancies not listed are taken at 100%
+export const LIGHTING_DEMAND_TIERS: Partial<Record<CommercialOccupancy, DemandTier[]>> = {
+  hospital: [
+    { upToVA: 50000, factor: 0.4 },
+    { upToVA: null, factor: 0.2 }
+  ],
+  hotel: [
+    { upToVA: 20000, factor: 0.5 },
+    { upToVA: 100000, factor: 0.4 },
+    { upToVA: null, factor: 0.3 }
+  ],
+  warehouse: [
+    { upToVA: 12500, factor: 1 },
+    { upToVA: null, factor: 0.5 }
+  ]
+};
+
+// Non-dwelling receptacle loads: first 10 kVA at 100%, remainder at 50%
+export const RECEPTACLE_DEMAND_TIERS: DemandTier[] = [
+  { upToVA: 10000, factor: 1 },
+  { upToVA: null, factor: 0.5 }
+];
+
+export const RECEPTACLE_OUTLET_VA = 180;
+export const SIGN_OUTLET_VA = 1200;
+export const LARGEST_MOTOR_FACTOR = 0.25;
+
+/**
+ * Commercial kitchen equipment demand factor by number of units (Table 220.56)
+ */
+export const getKitchenDemandFactor = (units: number): number => {
+  if (units <= 2) return 1;
+  if (units === 3) return 0.9;
+  if (units === 4) return 0.8;
+  if (units === 5) return 0.7;
+  return 0.65;
+};
+
+// Table 220.84 demand factors for three or more dwelling units, by unit count
+const MULTIFAMILY_DEMAND_TABLE: Array<{ maxUnits: number; factor: number }> = [
+  { maxUnits: 5, factor: 0.45 },
+  { maxUnits: 7, factor: 0.44 },
+  { maxUnits: 10, factor: 0.43 },
+  { maxUnits: 11, factor: 0.42 },
+  { maxUnits: 13, factor: 0.41 },
+  { maxUnits: 15, factor: 0.4 },
+  { maxUnits: 17, factor: 0.39 },
+  { maxUnits: 20, factor: 0.38 },
+  { maxUnits: 21, factor: 0.37 },
+  { maxUnits: 23, factor: 0.36 },
+  { maxUnits: 25, factor: 0.35 },
+  { maxUnits: 27, factor: 0.34 },
+  { maxUnits: 30, factor: 0.33 },
+  { maxUnits: 31, factor: 0.32 },
+  { maxUnits: 33, factor: 0.31 },
+  { maxUnits: 36, factor: 0.3 },
+  { maxUnits: 38, factor: 0.29 },
+  { maxUnits: 42, factor: 0.28 },
+  { maxUnits: 45, factor: 0.27 },
+  { maxUnits: 50, factor: 0.26 },
+  { maxUnits: 55, factor: 0.25 },
+  { maxUnits: 61, factor: 0.24 }
+];
+
+export const MULTIFAMILY_MINIMUM_UNITS = 3;
+const MULTIFAMILY_FACTOR_62_AND_OVER = 0.23;
+
+export const getMultifamilyDemandFactor = (units: number): number =>
+  MULTIFAMILY_DEMAND_TABLE.find(row => units <= row.maxUnits)?.factor ?? MULTIFAMILY_FACTOR_62_AND_OVER;
+
+/**
+ * Apply a tiered demand table to a connected load
+ */
+export const applyDemandTiers = (connectedVA: number, tiers: DemandTier[]): number => {
+  let remaining = connectedVA;
+  let floor = 0;
+  let demand = 0;
+  for (const tier of tiers) {
+    if (remaining <= 0) break;
+    const span = tier.upToVA === null ? remaining : Math.min(remaining, tier.upToVA - floor);
+    demand += span * tier.factor;
+    remaining -= span;
+    floor = tier.upToVA ?? floor;
+  }
+  return demand;
+};
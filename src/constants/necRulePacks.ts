@@ -0,0 +1,220 @@
+// Edition-specific NEC rules used by the residential load calculation
+import type { CommercialOccupancy, NECCodeYear } from '../types';
+
+export type InterconnectionOptionId =
+  | 'supply_side'
+  | 'load_side_100_percent'
+  | 'load_side_120_percent'
+  | 'load_side_sum_of_breakers'
+  | 'load_side_center_fed'
+  | 'feeder_tap'
+  | 'power_control_system';
+
+export interface InterconnectionOption {
+  id: InterconnectionOptionId;
+  section: string;
+  description: string;
+}
+
+export interface NECRulePack {
+  codeYear: NECCodeYear;
+  label: string;
+  generalLoads: {
+    lightingVAPerSqFt: number;
+    lightingSection: string;
+    smallApplianceVA: number;
+    laundryVA: number;
+    bathroomVA: number;
+  };
+  demandFactors: {
+    optional: { section: string; firstVA: number; remainder: number };
+    standard: { section: string; firstVA: number; nextVA: number; next: number; above: number };
+    existing: { section: string; firstVA: number; remainder: number };
+  };
+  continuousLoadFactor: number;
+  evse: {
+    // Minimum load per EVSE; null where the edition has no EVSE load rule
+    minimumVA: number | null;
+    loadSection: string;
+  };
+  loadManagement: {
+    section: string;
+    description: string;
+  };
+  existingLoad: {
+    section: string;
+    demandMultiplier: number;
+    // Maximum demand is the highest average kW held over this interval; an average over the billing period does not qualify
+    peakIntervalMinutes: number;
+    recordingMinimumDays: number;
+    // The 30-day recording option is barred on services with renewables or peak shaving
+    recordingExcludesRenewables: boolean;
+    recordingExcludesPeakShaving: boolean;
+  };
+  interconnection: {
+    busbarMultiplier: number;
+    supplySideSection: string;
+    loadSideSection: string;
+    options: InterconnectionOption[];
+  };
+  occupancy: {
+    lightingSection: string;
+    // General lighting unit loads in VA/ft² for non-dwelling occupancies
+    lightingUnitLoads: Record<CommercialOccupancy, number>;
+    // The table notes the 210.20(A) 125% continuous multiplier is already in the unit loads
+    lightingUnitLoadsInclude125: boolean;
+    lightingDemandSection: string;
+    receptacleSection: string;
+    kitchenSection: string;
+    multifamilySection: string;
+  };
+}
+
+const GENERAL_LOADS: NECRulePack['generalLoads'] = {
+  lightingVAPerSqFt: 3,
+  lightingSection: '220.12',
+  smallApplianceVA: 1500,
+  laundryVA: 1500,
+  bathroomVA: 1500
+};
+
+const DEMAND_FACTORS: NECRulePack['demandFactors'] = {
+  optional: { section: '220.82', firstVA: 10000, remainder: 0.4 },
+  standard: { section: '220.42', firstVA: 3000, nextVA: 117000, next: 0.35, above: 0.25 },
+  existing: { section: '220.83', firstVA: 8000, remainder: 0.4 }
+};
+
+// 220.87 reads the same in every supported edition
+const EXISTING_LOAD: NECRulePack['existingLoad'] = {
+  section: '220.87',
+  demandMultiplier: 1.25,
+  peakIntervalMinutes: 15,
+  recordingMinimumDays: 30,
+  recordingExcludesRenewables: true,
+  recordingExcludesPeakShaving: true
+};
+
+// The 2020 edition replaced the 1970s unit loads with energy-code based values
+const UNIT_LOADS_2017: Record<CommercialOccupancy, number> = {
+  office: 3.5,
+  retail: 3,
+  restaurant: 2,
+  warehouse: 0.25,
+  school: 3,
+  hospital: 2,
+  hotel: 2,
+  religious: 1,
+  parking_garage: 0.5,
+  manufacturing: 2
+};
+
+const UNIT_LOADS_2020: Record<CommercialOccupancy, number> = {
+  office: 1.3,
+  retail: 1.9,
+  restaurant: 1.5,
+  warehouse: 1.2,
+  school: 1.5,
+  hospital: 1.6,
+  hotel: 1.7,
+  religious: 2.2,
+  parking_garage: 0.3,
+  manufacturing: 2.2
+};
+
+const NEC_2017: NECRulePack = {
+  codeYear: '2017',
+  label: 'NEC 2017',
+  generalLoads: GENERAL_LOADS,
+  demandFactors: DEMAND_FACTORS,
+  continuousLoadFactor: 1.25,
+  evse: { minimumVA: null, loadSection: '625.42' },
+  loadManagement: {
+    section: '625.42',
+    description: 'EVSE load limited to the automatic load management system setting'
+  },
+  existingLoad: EXISTING_LOAD,
+  interconnection: {
+    busbarMultiplier: 1.2,
+    supplySideSection: '705.12(A)',
+    loadSideSection: '705.12(B)(2)(3)(b)',
+    options: [
+      { id: 'supply_side', section: '705.12(A)', description: 'Supply-side connection ahead of the service disconnect' },
+      { id: 'load_side_100_percent', section: '705.12(B)(2)(3)(a)', description: 'Sum of sources and main OCPD within 100% of busbar rating' },
+      { id: 'load_side_120_percent', section: '705.12(B)(2)(3)(b)', description: 'Backfed breaker opposite the main, sources within 120% of busbar rating' },
+      { id: 'load_side_sum_of_breakers', section: '705.12(B)(2)(3)(c)', description: 'Sum of all breakers, excluding the main, within busbar rating' },
+      { id: 'load_side_center_fed', section: '705.12(B)(2)(3)(d)', description: 'Center-fed dwelling panel, 120% rule with the source at either end' },
+      { id: 'feeder_tap', section: '705.12(B)(2)(1)', description: 'Feeder connection with conductor ampacity per 705.12(B)(2)(1)' }
+    ]
+  },
+  occupancy: {
+    lightingSection: 'Table 220.12',
+    lightingUnitLoads: UNIT_LOADS_2017,
+    lightingUnitLoadsInclude125: false,
+    lightingDemandSection: 'Table 220.42',
+    receptacleSection: '220.44',
+    kitchenSection: '220.56',
+    multifamilySection: '220.84'
+  }
+};
+
+const NEC_2020: NECRulePack = {
+  ...NEC_2017,
+  codeYear: '2020',
+  label: 'NEC 2020',
+  interconnection: {
+    busbarMultiplier: 1.2,
+    supplySideSection: '705.11',
+    loadSideSection: '705.12(B)(3)(2)',
+    options: [
+      { id: 'supply_side', section: '705.11', description: 'Supply-side source connection' },
+      { id: 'load_side_100_percent', section: '705.12(B)(3)(1)', description: 'Sum of sources and main OCPD within 100% of busbar rating' },
+      { id: 'load_side_120_percent', section: '705.12(B)(3)(2)', description: 'Backfed breaker opposite the main, sources within 120% of busbar rating' },
+      { id: 'load_side_sum_of_breakers', section: '705.12(B)(3)(3)', description: 'Sum of all breakers, excluding the main, within busbar rating' },
+      { id: 'load_side_center_fed', section: '705.12(B)(3)(6)', description: 'Center-fed dwelling panel, 120% rule with the source at either end' },
+      { id: 'feeder_tap', section: '705.12(B)(1)', description: 'Feeder connection with conductor ampacity per 705.12(B)(1)' },
+      { id: 'power_control_system', section: '705.13', description: 'Power control system limits current to the busbar or conductor rating' }
+    ]
+  },
+  occupancy: {
+    ...NEC_2017.occupancy,
+    lightingUnitLoads: UNIT_LOADS_2020,
+    lightingUnitLoadsInclude125: true
+  }
+};
+
+const NEC_2023: NECRulePack = {
+  ...NEC_2020,
+  codeYear: '2023',
+  label: 'NEC 2023',
+  // Article 220 was reorganized: dwelling lighting moved to 220.41 and the lighting demand factors to Table 220.45
+  generalLoads: { ...GENERAL_LOADS, lightingSection: '220.41' },
+  demandFactors: {
+    ...DEMAND_FACTORS,
+    standard: { ...DEMAND_FACTORS.standard, section: 'Table 220.45' }
+  },
+  evse: { minimumVA: 7200, loadSection: '220.57' },
+  loadManagement: {
+    section: '220.70',
+    description: 'Managed loads counted at the energy management system setpoint'
+  },
+  occupancy: {
+    ...NEC_2020.occupancy,
+    lightingSection: 'Table 220.42(A)',
+    lightingDemandSection: 'Table 220.45',
+    receptacleSection: '220.47'
+  }
+};
+
+export const NEC_RULE_PACKS: Record<NECCodeYear, NECRulePack> = {
+  '2017': NEC_2017,
+  '2020': NEC_2020,
+  '2023': NEC_2023
+};
+
+export const DEFAULT_NEC_CODE_YEAR: NECCodeYear = '2023';
+
+/**
+ * Rule pack for an edition; unknown editions fall back to the current default
+ */
+export const getNECRulePack = (codeYear?: string | number): NECRulePack =>
+  NEC_RULE_PACKS[String(codeYear) as NECCodeYear] || NEC_RULE_PACKS[DEFAULT_NEC_CODE_YEAR];
@@ -1,4 +1,7 @@
 import React, { createContext, useContext, useReducer, useMemo } from 'react';
+import type { ObstructionTag } from '../types/solarAccess';
+import type { RoofAnalysisResult } from '../services/aiRoofAnalysisService';
+import type { PVLayout } from '../types/pvLayout';
 
 // Simplified aerial view state without AI services
 interface Coordinates {
@@ -28,6 +31,7 @@ interface AreaMeasurement {
   area: number;
   unit: 'sqft' | 'sqm';
   label?: string;
+  obstruction?: ObstructionTag;
 }
 
 interface PolylineMeasurement {
@@ -37,6 +41,7 @@ interface PolylineMeasurement {
   segmentDistances: number[];
   unit: 'feet' | 'meters';
   label?: string;
+  obstruction?: ObstructionTag;
 }
 
 interface AerialViewState {
@@ -59,6 +64,12 @@ interface AerialViewState {
     polyline: PolylineMeasurement[];
   };
   
+  // Latest AI roof analysis (segments and panel layout) for the current site
+  roofAnalysis: RoofAnalysisResult | null;
+  
+  // Module layout drawn over the satellite image
+  pvLayout: PVLayout | null;
+  
   // UI State
   ui: {
     viewMode: 'satellite' | 'streetview' | 'measurements';
@@ -79,7 +90,10 @@ type AerialViewAction =
   | { type: 'ADD_AREA_MEASUREMENT'; payload: AreaMeasurement }
   | { type: 'ADD_POLYLINE_MEASUREMENT'; payload: PolylineMeasurement }
   | { type: 'REMOVE_MEASUREMENT'; payload: { type: 'linear' | 'area' | 'polyline'; id: string } }
+  | { type: 'TAG_OBSTRUCTION'; payload: { type: 'area' | 'polyline'; id: string; obstruction: ObstructionTag | null } }
   | { type: 'CLEAR_MEASUREMENTS' }
+  | { type: 'SET_ROOF_ANALYSIS'; payload: RoofAnalysisResult | null }
+  | { type: 'SET_PV_LAYOUT'; payload: PVLayout | null }
   | { type: 'UPDATE_UI_STATE'; payload: Partial<AerialViewState['ui']> }
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_ERROR'; payload: string | null }
@@ -99,7 +113,10 @@ interface AerialViewContextType {
   addAreaMeasurement: (measurement: AreaMeasurement) => void;
   addPolylineMeasurement: (measurement: PolylineMeasurement) => void;
   removeMeasurement: (type: 'linear' | 'area' | 'polyline', id: string) => void;
+  tagObstruction: (type: 'area' | 'polyline', id: string, obstruction: ObstructionTag | null) => void;
   clearMeasurements: () => void;
+  setRoofAnalysis: (analysis: RoofAnalysisResult | null) => void;
+  setPVLayout: (layout: PVLayout | null) => void;
   updateUIState: (updates: Partial<AerialViewState['ui']>) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
@@ -117,6 +134,8 @@ const initialState: AerialViewState = {
     area: [],
     polyline: []
   },
+  roofAnalysis: null,
+  pvLayout: null,
   ui: {
     viewMode: 'satellite',
     showMeasurements: true,
@@ -196,6 +215,19 @@ function aerialViewReducer(state: AerialViewState, action: AerialViewAction): Ae
       };
     }
     
+    case 'TAG_OBSTRUCTION': {
+      const { type, id, obstruction } = action.payload;
+      const tag = <T extends AreaMeasurement | PolylineMeasurement>(m: T): T =>
+        m.id === id ? { ...m, obstruction: obstruction ?? undefined } : m;
+      return {
+        ...state,
+        measurements: {
+          ...state.measurements,
+          [type]: state.measurements[type].map(tag)
+        }
+      };
+    }
+    
     case 'CLEAR_MEASUREMENTS':
       return {
         ...state,
@@ -206,6 +238,18 @@ function aerialViewReducer(state: AerialViewState, action: AerialViewAction): Ae
         }
       };
       
+    case 'SET_ROOF_ANALYSIS':
+      return {
+        ...state,
+        roofAnalysis: action.payload
+      };
+      
+    case 'SET_PV_LAYOUT':
+      return {
+        ...state,
+        pvLayout: action.payload
+      };
+      
     case 'UPDATE_UI_STATE':
       return {
         ...state,
@@ -285,10 +329,22 @@ export const AerialViewProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     dispatch({ type: 'REMOVE_MEASUREMENT', payload: { type, id } });
   }, []);
   
+  const tagObstruction = React.useCallback((type: 'area' | 'polyline', id: string, obstruction: ObstructionTag | null) => {
+    dispatch({ type: 'TAG_OBSTRUCTION', payload: { type, id, obstruction } });
+  }, []);
+  
   const clearMeasurements = React.useCallback(() => {
     dispatch({ type: 'CLEAR_MEASUREMENTS' });
   }, []);
   
+  const setRoofAnalysis = React.useCallback((analysis: RoofAnalysisResult | null) => {
+    dispatch({ type: 'SET_ROOF_ANALYSIS', payload: analysis });
+  }, []);
+  
+  const setPVLayout = React.useCallback((layout: PVLayout | null) => {
+    dispatch({ type: 'SET_PV_LAYOUT', payload: layout });
+  }, []);
+  
   const updateUIState = React.useCallback((updates: Partial<AerialViewState['ui']>) => {
     dispatch({ type: 'UPDATE_UI_STATE', payload: updates });
   }, []);
@@ -317,7 +373,10 @@ export const AerialViewProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     addAreaMeasurement,
     addPolylineMeasurement,
     removeMeasurement,
+    tagObstruction,
     clearMeasurements,
+    setRoofAnalysis,
+    setPVLayout,
     updateUIState,
     setLoading,
     setError,
@@ -333,7 +392,10 @@ export const AerialViewProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     addAreaMeasurement,
     addPolylineMeasurement,
     removeMeasurement,
+    tagObstruction,
     clearMeasurements,
+    setRoofAnalysis,
+    setPVLayout,
     updateUIState,
     setLoading,
     setError,
@@ -75,7 +75,8 @@ export const CalculationProvider: React.FC<{ children: React.ReactNode }> = ({ c
         settings.loadManagementMaxLoad,
         settings.simpleSwitchMode,
         settings.simpleSwitchLoadA,
-        settings.simpleSwitchLoadB
+        settings.simpleSwitchLoadB,
+        settings.codeYear
       );
       
       const endTime = performance.now();
@@ -135,7 +136,8 @@ export const CalculationProvider: React.FC<{ children: React.ReactNode }> = ({ c
     settings.loadManagementMaxLoad,
     settings.simpleSwitchMode,
     settings.simpleSwitchLoadA,
-    settings.simpleSwitchLoadB
+    settings.simpleSwitchLoadB,
+    settings.codeYear
   ]);
   
   // Validation messages with performance tracking
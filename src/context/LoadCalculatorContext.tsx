@@ -273,9 +273,10 @@ export const LoadCalculatorProvider: React.FC<{ children: ReactNode }> = ({ chil
     squareFootage: state.squareFootage,
     mainBreaker: state.mainBreaker,
     panelDetails: state.panelDetails,
-    actualDemandData: state.actualDemandData
+    actualDemandData: state.actualDemandData,
+    codeYear: state.codeYear
   }), [state.calculationMethod, state.squareFootage, state.mainBreaker, 
-       state.panelDetails, state.actualDemandData]);
+       state.panelDetails, state.actualDemandData, state.codeYear]);
 
   const loadManagementInputs = useMemo(() => ({
     useEMS: state.useEMS,
@@ -303,7 +304,8 @@ export const LoadCalculatorProvider: React.FC<{ children: ReactNode }> = ({ chil
       loadManagementInputs.loadManagementMaxLoad,
       loadManagementInputs.simpleSwitchMode,
       loadManagementInputs.simpleSwitchLoadA,
-      loadManagementInputs.simpleSwitchLoadB
+      loadManagementInputs.simpleSwitchLoadB,
+      baseCalculationInputs.codeYear
     ),
     [loads, baseCalculationInputs, loadManagementInputs]
   );
@@ -1,4 +1,5 @@
 import React, { createContext, useContext, useReducer, useCallback, ReactNode } from 'react';
+import type { ObstructionTag } from '../types/solarAccess';
 
 export interface EditorPoint {
   x: number;
@@ -20,6 +21,7 @@ export interface EditorMeasurement {
     strokeWidth: number;
     fill?: string;
   };
+  obstruction?: ObstructionTag;
 }
 
 export interface EditorAnnotation {
@@ -96,6 +98,7 @@ type EditorAction =
   | { type: 'ADD_ANNOTATION'; payload: EditorAnnotation }
   | { type: 'UPDATE_CURRENT_MEASUREMENT'; payload: EditorMeasurement | null }
   | { type: 'UPDATE_CURRENT_ANNOTATION'; payload: EditorAnnotation | null }
+  | { type: 'UPDATE_MEASUREMENT'; payload: { id: string; updates: Partial<EditorMeasurement> } }
   | { type: 'REMOVE_MEASUREMENT'; payload: string }
   | { type: 'REMOVE_ANNOTATION'; payload: string }
   | { type: 'CLEAR_ALL' }
@@ -227,6 +230,16 @@ function editorReducer(state: EditorState, action: EditorAction): EditorState {
     case 'UPDATE_CURRENT_ANNOTATION':
       return { ...state, currentAnnotation: action.payload };
 
+    case 'UPDATE_MEASUREMENT':
+      return {
+        ...state,
+        measurements: state.measurements.map(measurement =>
+          measurement.id === action.payload.id
+            ? { ...measurement, ...action.payload.updates }
+            : measurement
+        )
+      };
+
     case 'REMOVE_MEASUREMENT':
       return {
         ...state,
@@ -358,6 +371,7 @@ interface PhotoEditorContextType {
   // Measurement actions
   addMeasurement: (measurement: EditorMeasurement) => void;
   updateCurrentMeasurement: (measurement: EditorMeasurement | null) => void;
+  updateMeasurement: (id: string, updates: Partial<EditorMeasurement>) => void;
   removeMeasurement: (id: string) => void;
   
   // Annotation actions
@@ -424,6 +438,10 @@ export const PhotoEditorProvider: React.FC<{ children: ReactNode }> = ({ childre
     dispatch({ type: 'UPDATE_CURRENT_MEASUREMENT', payload: measurement });
   }, []);
 
+  const updateMeasurement = useCallback((id: string, updates: Partial<EditorMeasurement>) => {
+    dispatch({ type: 'UPDATE_MEASUREMENT', payload: { id, updates } });
+  }, []);
+
   const removeMeasurement = useCallback((id: string) => {
     dispatch({ type: 'REMOVE_MEASUREMENT', payload: id });
   }, []);
@@ -533,6 +551,7 @@ export const PhotoEditorProvider: React.FC<{ children: ReactNode }> = ({ childre
     setDrawing,
     addMeasurement,
     updateCurrentMeasurement,
+    updateMeasurement,
     removeMeasurement,
     addAnnotation,
     updateCurrentAnnotation,
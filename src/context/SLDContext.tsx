@@ -1,13 +1,36 @@
-import React, { createContext, useContext, useReducer, useCallback, useMemo, ReactNode } from 'react';
-import type { SLDDiagram, SLDComponent, SLDConnection, SLDPosition, SLDSize } from '../types/sld';
-import { CommandManager, type SLDCommand, type CommandHistory } from '../services/sldCommandService';
-import { collaborationService, type CollaborationSession, type User } from '../services/sldCollaborationService';
+import React, { createContext, useContext, useReducer, useCallback, useEffect, useMemo, ReactNode } from 'react';
+import type {
+  SLDDiagram,
+  SLDComponent,
+  SLDConnection,
+  SLDPosition,
+  SLDSize,
+  SLDLayer,
+  SLDMeasurement,
+  SLDTitleBlock
+} from '../types/sld';
+import {
+  CommandManager,
+  DiagramChangeCommand,
+  diffDiagrams,
+  type SLDCommand,
+  type CommandHistory
+} from '../services/sldCommandService';
+import {
+  collaborationService,
+  type CollaborationSession,
+  type PresenceCursor,
+  type SLDChange,
+  type SyncConnectOptions,
+  type User
+} from '../services/sldCollaborationService';
 
 // Enhanced SLD State
 interface SLDState {
   diagram: SLDDiagram | null;
   commandManager: CommandManager | null;
   collaboration: CollaborationSession | null;
+  presence: PresenceCursor[];
   performance: {
     virtualRendering: boolean;
     cullingDistance: number;
@@ -56,10 +79,15 @@ interface ValidationResult {
 type SLDAction =
   | { type: 'SET_DIAGRAM'; payload: SLDDiagram }
   | { type: 'UPDATE_DIAGRAM'; payload: Partial<SLDDiagram> }
+  | { type: 'APPLY_REMOTE_CHANGES'; payload: Partial<SLDDiagram> }
   | { type: 'EXECUTE_COMMAND'; payload: SLDCommand }
   | { type: 'UNDO' }
   | { type: 'REDO' }
+  | { type: 'BEGIN_TRANSACTION'; payload: string }
+  | { type: 'COMMIT_TRANSACTION' }
+  | { type: 'CANCEL_TRANSACTION' }
   | { type: 'SET_COLLABORATION_SESSION'; payload: CollaborationSession | null }
+  | { type: 'SET_PRESENCE'; payload: PresenceCursor[] }
   | { type: 'SET_PERFORMANCE_SETTINGS'; payload: Partial<SLDState['performance']> }
   | { type: 'SET_VALIDATION_RESULTS'; payload: ValidationResult[] }
   | { type: 'SET_SELECTED_ELEMENTS'; payload: string[] }
@@ -69,10 +97,21 @@ type SLDAction =
   | { type: 'ADD_COMPONENT'; payload: SLDComponent }
   | { type: 'REMOVE_COMPONENT'; payload: string }
   | { type: 'MOVE_COMPONENT'; payload: { id: string; position: SLDPosition } }
+  | { type: 'MOVE_COMPONENTS'; payload: Array<{ id: string; position: SLDPosition }> }
   | { type: 'RESIZE_COMPONENT'; payload: { id: string; size: SLDSize } }
   | { type: 'ADD_CONNECTION'; payload: SLDConnection }
   | { type: 'REMOVE_CONNECTION'; payload: string }
-  | { type: 'UPDATE_COMPONENT_PROPERTY'; payload: { id: string; property: string; value: any } };
+  | { type: 'UPDATE_CONNECTION'; payload: { id: string; updates: Partial<SLDConnection> } }
+  | { type: 'UPDATE_CONNECTION_ROUTE'; payload: { id: string; routePoints: SLDPosition[] } }
+  | { type: 'UPDATE_COMPONENT_PROPERTY'; payload: { id: string; property: string; value: any } }
+  | { type: 'SET_LAYER'; payload: SLDLayer }
+  | { type: 'REMOVE_LAYER'; payload: string }
+  | { type: 'ASSIGN_LAYER'; payload: { componentIds: string[]; layerId: string } }
+  | { type: 'ADD_MEASUREMENT'; payload: SLDMeasurement }
+  | { type: 'UPDATE_MEASUREMENT'; payload: { id: string; updates: Partial<SLDMeasurement> } }
+  | { type: 'REMOVE_MEASUREMENT'; payload: string }
+  | { type: 'UPDATE_TITLE_BLOCK'; payload: Partial<SLDTitleBlock> }
+  | { type: 'APPLY_TEMPLATE'; payload: { template: SLDDiagram; offset?: SLDPosition } };
 
 // Context Interface
 interface SLDContextType {
@@ -86,23 +125,42 @@ interface SLDContextType {
   canUndo: () => boolean;
   canRedo: () => boolean;
   getHistory: () => CommandHistory;
+  beginTransaction: (description: string) => void;
+  commitTransaction: () => void;
+  cancelTransaction: () => void;
+  runTransaction: (description: string, edit: () => void) => void;
   
   // Collaboration
-  startCollaboration: (user: User) => void;
-  joinCollaboration: (sessionId: string, user: User) => void;
+  startCollaboration: (user: User, sync?: SyncConnectOptions) => void;
+  joinCollaboration: (sessionId: string, user: User, sync?: SyncConnectOptions) => void;
   leaveCollaboration: () => void;
   getCollaborationSession: () => CollaborationSession | null;
+  updateCursor: (position: SLDPosition) => void;
   
   // Component Management
   addComponent: (component: SLDComponent) => void;
   removeComponent: (componentId: string) => void;
   moveComponent: (componentId: string, position: SLDPosition) => void;
+  moveComponents: (moves: Array<{ id: string; position: SLDPosition }>) => void;
   resizeComponent: (componentId: string, size: SLDSize) => void;
   updateComponentProperty: (componentId: string, property: string, value: any) => void;
+  removeElements: (elementIds: string[]) => void;
   
   // Connection Management
   addConnection: (connection: SLDConnection) => void;
   removeConnection: (connectionId: string) => void;
+  updateConnection: (connectionId: string, updates: Partial<SLDConnection>) => void;
+  updateConnectionRoute: (connectionId: string, routePoints: SLDPosition[]) => void;
+
+  // Layers, Measurements and Title Block
+  setLayer: (layer: SLDLayer) => void;
+  removeLayer: (layerId: string) => void;
+  assignLayer: (componentIds: string[], layerId: string) => void;
+  addMeasurement: (measurement: SLDMeasurement) => void;
+  updateMeasurement: (measurementId: string, updates: Partial<SLDMeasurement>) => void;
+  removeMeasurement: (measurementId: string) => void;
+  updateTitleBlock: (updates: Partial<SLDTitleBlock>) => void;
+  applyTemplate: (template: SLDDiagram, offset?: SLDPosition) => void;
   
   // Selection Management
   selectElements: (elementIds: string[]) => void;
@@ -129,6 +187,7 @@ const initialState: SLDState = {
   diagram: null,
   commandManager: null,
   collaboration: null,
+  presence: [],
   performance: {
     virtualRendering: true,
     cullingDistance: 1000,
@@ -156,51 +215,149 @@ const initialState: SLDState = {
   }
 };
 
+// The command manager owns the working diagram. State gets a fresh copy that
+// carries the undo history, so saving the diagram saves its history too.
+const syncDiagram = (state: SLDState): SLDState => {
+  if (!state.commandManager) return state;
+  return {
+    ...state,
+    diagram: { ...state.commandManager.getDiagram(), commandHistory: state.commandManager.toRecord() }
+  };
+};
+
+// Every diagram edit is recorded as a command built from the before/after difference
+const commitDiagramChange = (
+  state: SLDState,
+  update: (diagram: SLDDiagram) => SLDDiagram,
+  description: string,
+  mergeKey?: string
+): SLDState => {
+  if (!state.diagram || !state.commandManager) return state;
+
+  const changes = diffDiagrams(state.diagram, update(state.diagram));
+  if (changes.length === 0) return state;
+
+  const command = new DiagramChangeCommand(state.commandManager.getDiagram(), changes, description, mergeKey);
+  state.commandManager.executeCommand(command);
+  return syncDiagram(state);
+};
+
+const updateComponents = (diagram: SLDDiagram, ids: string[], update: (component: SLDComponent) => SLDComponent): SLDDiagram => ({
+  ...diagram,
+  components: diagram.components.map(c => (ids.includes(c.id) ? update(c) : c))
+});
+
+const updateConnections = (diagram: SLDDiagram, id: string, updates: Partial<SLDConnection>): SLDDiagram => ({
+  ...diagram,
+  connections: diagram.connections.map(c => (c.id === id ? { ...c, ...updates } : c))
+});
+
+// Template items get fresh ids so a template can be applied more than once
+const mergeTemplate = (diagram: SLDDiagram, template: SLDDiagram, offset: SLDPosition = { x: 0, y: 0 }): SLDDiagram => {
+  const suffix = Date.now().toString(36);
+  const ids = new Map(template.components.map(c => [c.id, `${c.id}-${suffix}`]));
+  const mapId = (id?: string) => (id && ids.get(id)) || id;
+
+  const components = template.components.map(c => ({
+    ...c,
+    id: ids.get(c.id)!,
+    position: { x: c.position.x + offset.x, y: c.position.y + offset.y }
+  }));
+  const connections = template.connections.map(c => ({
+    ...c,
+    id: `${c.id}-${suffix}`,
+    from: mapId(c.from)!,
+    to: mapId(c.to)!,
+    fromComponentId: mapId(c.fromComponentId),
+    toComponentId: mapId(c.toComponentId)
+  }));
+  const labels = (template.labels ?? []).map(l => ({
+    ...l,
+    id: `${l.id}-${suffix}`,
+    position: { x: l.position.x + offset.x, y: l.position.y + offset.y }
+  }));
+
+  return {
+    ...diagram,
+    components: [...diagram.components, ...components],
+    connections: [...diagram.connections, ...connections],
+    labels: labels.length > 0 ? [...(diagram.labels ?? []), ...labels] : diagram.labels
+  };
+};
+
 // Reducer
 function sldReducer(state: SLDState, action: SLDAction): SLDState {
   switch (action.type) {
     case 'SET_DIAGRAM': {
       console.log('SLDContext: SET_DIAGRAM action received:', action.payload);
-      const commandManager = new CommandManager(action.payload);
-      const newState = {
-        ...state,
-        diagram: action.payload,
-        commandManager
-      };
+      const { commandHistory, ...diagram } = action.payload;
+      const commandManager = commandHistory
+        ? CommandManager.fromRecord(diagram, commandHistory)
+        : new CommandManager(diagram);
+      const newState = syncDiagram({ ...state, commandManager });
       console.log('SLDContext: New state after SET_DIAGRAM:', newState);
       return newState;
     }
     
     case 'UPDATE_DIAGRAM': {
-      if (!state.diagram) return state;
-      return {
-        ...state,
-        diagram: { ...state.diagram, ...action.payload }
-      };
+      return commitDiagramChange(state, diagram => ({ ...diagram, ...action.payload }), 'Update diagram');
+    }
+
+    case 'APPLY_REMOTE_CHANGES': {
+      // Collaborators' edits are applied but are not part of the local undo history
+      if (!state.diagram || !state.commandManager) return state;
+      const changes = diffDiagrams(state.diagram, { ...state.diagram, ...action.payload });
+      new DiagramChangeCommand(state.commandManager.getDiagram(), changes, 'Remote changes').execute();
+      return syncDiagram(state);
     }
     
     case 'EXECUTE_COMMAND': {
       if (!state.commandManager) return state;
       state.commandManager.executeCommand(action.payload);
-      return { ...state };
+      return syncDiagram(state);
     }
     
     case 'UNDO': {
       if (!state.commandManager) return state;
       state.commandManager.undo();
-      return { ...state };
+      return syncDiagram(state);
     }
     
     case 'REDO': {
       if (!state.commandManager) return state;
       state.commandManager.redo();
-      return { ...state };
+      return syncDiagram(state);
+    }
+
+    case 'BEGIN_TRANSACTION': {
+      state.commandManager?.beginTransaction(action.payload);
+      return state;
+    }
+
+    case 'COMMIT_TRANSACTION': {
+      if (!state.commandManager) return state;
+      state.commandManager.commitTransaction();
+      return syncDiagram(state);
+    }
+
+    case 'CANCEL_TRANSACTION': {
+      if (!state.commandManager) return state;
+      state.commandManager.cancelTransaction();
+      return syncDiagram(state);
     }
     
     case 'SET_COLLABORATION_SESSION': {
       return {
         ...state,
-        collaboration: action.payload
+        collaboration: action.payload,
+        presence: action.payload ? state.presence : []
+      };
+    }
+
+    case 'SET_PRESENCE': {
+      return {
+        ...state,
+        presence: action.payload
       };
     }
     
@@ -226,6 +383,8 @@ function sldReducer(state: SLDState, action: SLDAction): SLDState {
     }
     
     case 'SET_DRAG_STATE': {
+      // Each drag is its own undo step
+      state.commandManager?.sealMerge();
       return {
         ...state,
         isDragging: action.payload.isDragging,
@@ -248,99 +407,156 @@ function sldReducer(state: SLDState, action: SLDAction): SLDState {
     }
     
     case 'ADD_COMPONENT': {
-      if (!state.diagram) return state;
-      return {
-        ...state,
-        diagram: {
-          ...state.diagram,
-          components: [...state.diagram.components, action.payload],
-          lastModified: new Date()
-        }
-      };
+      const component = action.payload;
+      return commitDiagramChange(state, diagram => ({
+        ...diagram,
+        components: [...diagram.components, component]
+      }), `Add ${component.name || component.type}`);
     }
     
     case 'REMOVE_COMPONENT': {
-      if (!state.diagram) return state;
-      return {
-        ...state,
-        diagram: {
-          ...state.diagram,
-          components: state.diagram.components.filter(c => c.id !== action.payload),
-          lastModified: new Date()
-        }
-      };
+      return commitDiagramChange(state, diagram => ({
+        ...diagram,
+        components: diagram.components.filter(c => c.id !== action.payload)
+      }), 'Remove component');
     }
     
     case 'MOVE_COMPONENT': {
-      if (!state.diagram) return state;
-      return {
-        ...state,
-        diagram: {
-          ...state.diagram,
-          components: state.diagram.components.map(c =>
-            c.id === action.payload.id
-              ? { ...c, position: action.payload.position }
-              : c
-          ),
-          lastModified: new Date()
-        }
-      };
+      const { id, position } = action.payload;
+      return commitDiagramChange(
+        state,
+        diagram => updateComponents(diagram, [id], c => ({ ...c, position })),
+        'Move component',
+        `move:${id}`
+      );
+    }
+
+    case 'MOVE_COMPONENTS': {
+      const positions = new Map(action.payload.map(move => [move.id, move.position]));
+      const ids = [...positions.keys()];
+      return commitDiagramChange(
+        state,
+        diagram => updateComponents(diagram, ids, c => ({ ...c, position: positions.get(c.id)! })),
+        `Move ${ids.length} components`,
+        `move:${[...ids].sort().join(',')}`
+      );
     }
     
     case 'RESIZE_COMPONENT': {
-      if (!state.diagram) return state;
-      return {
-        ...state,
-        diagram: {
-          ...state.diagram,
-          components: state.diagram.components.map(c =>
-            c.id === action.payload.id
-              ? { ...c, size: action.payload.size }
-              : c
-          ),
-          lastModified: new Date()
-        }
-      };
+      const { id, size } = action.payload;
+      return commitDiagramChange(
+        state,
+        diagram => updateComponents(diagram, [id], c => ({ ...c, size })),
+        'Resize component',
+        `resize:${id}`
+      );
     }
     
     case 'ADD_CONNECTION': {
-      if (!state.diagram) return state;
-      return {
-        ...state,
-        diagram: {
-          ...state.diagram,
-          connections: [...state.diagram.connections, action.payload],
-          lastModified: new Date()
-        }
-      };
+      return commitDiagramChange(state, diagram => ({
+        ...diagram,
+        connections: [...diagram.connections, action.payload]
+      }), 'Add connection');
     }
     
     case 'REMOVE_CONNECTION': {
-      if (!state.diagram) return state;
-      return {
-        ...state,
-        diagram: {
-          ...state.diagram,
-          connections: state.diagram.connections.filter(c => c.id !== action.payload),
-          lastModified: new Date()
-        }
-      };
+      return commitDiagramChange(state, diagram => ({
+        ...diagram,
+        connections: diagram.connections.filter(c => c.id !== action.payload)
+      }), 'Remove connection');
+    }
+
+    case 'UPDATE_CONNECTION': {
+      const { id, updates } = action.payload;
+      return commitDiagramChange(state, diagram => updateConnections(diagram, id, updates), 'Update connection');
+    }
+
+    case 'UPDATE_CONNECTION_ROUTE': {
+      const { id, routePoints } = action.payload;
+      return commitDiagramChange(
+        state,
+        diagram => updateConnections(diagram, id, { routePoints }),
+        'Edit wire route',
+        `route:${id}`
+      );
     }
     
     case 'UPDATE_COMPONENT_PROPERTY': {
-      if (!state.diagram) return state;
-      return {
-        ...state,
-        diagram: {
-          ...state.diagram,
-          components: state.diagram.components.map(c =>
-            c.id === action.payload.id
-              ? { ...c, [action.payload.property]: action.payload.value }
-              : c
-          ),
-          lastModified: new Date()
-        }
-      };
+      const { id, property, value } = action.payload;
+      return commitDiagramChange(
+        state,
+        diagram => updateComponents(diagram, [id], c => ({ ...c, [property]: value })),
+        `Update ${property}`
+      );
+    }
+
+    case 'SET_LAYER': {
+      const layer = action.payload;
+      return commitDiagramChange(state, diagram => {
+        const layers = diagram.layers ?? [];
+        return {
+          ...diagram,
+          layers: layers.some(l => l.id === layer.id)
+            ? layers.map(l => (l.id === layer.id ? layer : l))
+            : [...layers, layer]
+        };
+      }, `Update layer ${layer.name}`);
+    }
+
+    case 'REMOVE_LAYER': {
+      const layerId = action.payload;
+      return commitDiagramChange(state, diagram => {
+        const assigned = diagram.components.filter(c => c.layerId === layerId).map(c => c.id);
+        return {
+          ...updateComponents(diagram, assigned, ({ layerId: _removed, ...c }) => c as SLDComponent),
+          layers: (diagram.layers ?? []).filter(l => l.id !== layerId)
+        };
+      }, 'Remove layer');
+    }
+
+    case 'ASSIGN_LAYER': {
+      const { componentIds, layerId } = action.payload;
+      return commitDiagramChange(
+        state,
+        diagram => updateComponents(diagram, componentIds, c => ({ ...c, layerId })),
+        `Move ${componentIds.length} components to layer`
+      );
+    }
+
+    case 'ADD_MEASUREMENT': {
+      return commitDiagramChange(state, diagram => ({
+        ...diagram,
+        measurements: [...(diagram.measurements ?? []), action.payload]
+      }), 'Add measurement');
+    }
+
+    case 'UPDATE_MEASUREMENT': {
+      const { id, updates } = action.payload;
+      return commitDiagramChange(state, diagram => ({
+        ...diagram,
+        measurements: (diagram.measurements ?? []).map(m => (m.id === id ? { ...m, ...updates } : m))
+      }), 'Edit measurement', `measurement:${id}`);
+    }
+
+    case 'REMOVE_MEASUREMENT': {
+      return commitDiagramChange(state, diagram => ({
+        ...diagram,
+        measurements: (diagram.measurements ?? []).filter(m => m.id !== action.payload)
+      }), 'Remove measurement');
+    }
+
+    case 'UPDATE_TITLE_BLOCK': {
+      // Typing in a title block field merges into one step per field
+      const fields = Object.keys(action.payload).sort().join(',');
+      return commitDiagramChange(state, diagram => ({
+        ...diagram,
+        titleBlock: { ...diagram.titleBlock, ...action.payload }
+      }), 'Edit title block', `title-block:${fields}`);
+    }
+
+    case 'APPLY_TEMPLATE': {
+      const { template, offset } = action.payload;
+      return commitDiagramChange(state, diagram => mergeTemplate(diagram, template, offset), `Apply template ${template.name}`);
     }
     
     default:
@@ -381,17 +597,53 @@ export const SLDProvider: React.FC<SLDProviderProps> = ({ children }) => {
     return state.commandManager?.getHistory() || { commands: [], currentIndex: -1, maxHistory: 50 };
   }, [state.commandManager]);
 
+  const beginTransaction = useCallback((description: string) => {
+    dispatch({ type: 'BEGIN_TRANSACTION', payload: description });
+  }, []);
+
+  const commitTransaction = useCallback(() => {
+    dispatch({ type: 'COMMIT_TRANSACTION' });
+  }, []);
+
+  const cancelTransaction = useCallback(() => {
+    dispatch({ type: 'CANCEL_TRANSACTION' });
+  }, []);
+
+  // Actions dispatched by the edit run in order between begin and commit
+  const runTransaction = useCallback((description: string, edit: () => void) => {
+    dispatch({ type: 'BEGIN_TRANSACTION', payload: description });
+    try {
+      edit();
+    } finally {
+      dispatch({ type: 'COMMIT_TRANSACTION' });
+    }
+  }, []);
+
   // Collaboration
-  const startCollaboration = useCallback((user: User) => {
+  const startCollaboration = useCallback((user: User, sync?: SyncConnectOptions) => {
     if (!state.diagram) return;
-    const session = collaborationService.createSession(state.diagram.id, user);
+    const session = collaborationService.createSession(state.diagram.id, user, state.diagram);
     dispatch({ type: 'SET_COLLABORATION_SESSION', payload: session });
+    if (sync) {
+      collaborationService.connect(session.id, sync).catch(error => {
+        console.error('Failed to connect to sync server:', error);
+      });
+    }
   }, [state.diagram]);
 
-  const joinCollaboration = useCallback((sessionId: string, user: User) => {
-    const session = collaborationService.joinSession(sessionId, user);
-    dispatch({ type: 'SET_COLLABORATION_SESSION', payload: session });
-  }, []);
+  const joinCollaboration = useCallback((sessionId: string, user: User, sync?: SyncConnectOptions) => {
+    if (!sync) {
+      const session = collaborationService.joinSession(sessionId, user);
+      dispatch({ type: 'SET_COLLABORATION_SESSION', payload: session });
+      return;
+    }
+
+    collaborationService.joinRemoteSession(sessionId, state.diagram?.id || '', user, sync)
+      .then(session => dispatch({ type: 'SET_COLLABORATION_SESSION', payload: session }))
+      .catch(error => {
+        console.error('Failed to join collaboration session:', error);
+      });
+  }, [state.diagram?.id]);
 
   const leaveCollaboration = useCallback(() => {
     if (state.collaboration) {
@@ -407,34 +659,129 @@ export const SLDProvider: React.FC<SLDProviderProps> = ({ children }) => {
     return state.collaboration;
   }, [state.collaboration]);
 
+  const updateCursor = useCallback((position: SLDPosition) => {
+    if (!state.collaboration) return;
+    collaborationService.updatePresence(state.collaboration.id, position, state.selectedElements);
+  }, [state.collaboration, state.selectedElements]);
+
+  // Local edits are shared with the session; remote edits arrive merged
+  const shareChange = useCallback((change: Omit<SLDChange, 'id' | 'timestamp' | 'version' | 'userId'>) => {
+    const currentUser = collaborationService.getCurrentUser();
+    if (!state.collaboration || !currentUser) return;
+    collaborationService.addChange(state.collaboration.id, { ...change, userId: currentUser.id });
+  }, [state.collaboration]);
+
+  useEffect(() => {
+    if (!state.collaboration) return;
+
+    return collaborationService.subscribe(state.collaboration.id, event => {
+      if (event.type === 'changes' && event.diagram) {
+        dispatch({
+          type: 'APPLY_REMOTE_CHANGES',
+          payload: { components: event.diagram.components, connections: event.diagram.connections }
+        });
+      } else if (event.type === 'presence') {
+        dispatch({ type: 'SET_PRESENCE', payload: event.cursors });
+      }
+    });
+  }, [state.collaboration]);
+
   // Component Management
   const addComponent = useCallback((component: SLDComponent) => {
     dispatch({ type: 'ADD_COMPONENT', payload: component });
-  }, []);
+    shareChange({ type: 'component_add', componentId: component.id, data: component });
+  }, [shareChange]);
 
   const removeComponent = useCallback((componentId: string) => {
     dispatch({ type: 'REMOVE_COMPONENT', payload: componentId });
-  }, []);
+    shareChange({ type: 'component_remove', componentId, data: null });
+  }, [shareChange]);
 
   const moveComponent = useCallback((componentId: string, position: SLDPosition) => {
     dispatch({ type: 'MOVE_COMPONENT', payload: { id: componentId, position } });
-  }, []);
+    shareChange({ type: 'component_move', componentId, data: { position } });
+  }, [shareChange]);
+
+  const moveComponents = useCallback((moves: Array<{ id: string; position: SLDPosition }>) => {
+    dispatch({ type: 'MOVE_COMPONENTS', payload: moves });
+    moves.forEach(({ id, position }) => shareChange({ type: 'component_move', componentId: id, data: { position } }));
+  }, [shareChange]);
 
   const resizeComponent = useCallback((componentId: string, size: SLDSize) => {
     dispatch({ type: 'RESIZE_COMPONENT', payload: { id: componentId, size } });
-  }, []);
+    shareChange({ type: 'component_resize', componentId, data: { size } });
+  }, [shareChange]);
 
   const updateComponentProperty = useCallback((componentId: string, property: string, value: any) => {
     dispatch({ type: 'UPDATE_COMPONENT_PROPERTY', payload: { id: componentId, property, value } });
-  }, []);
+    shareChange({ type: 'component_update', componentId, data: { [property]: value } });
+  }, [shareChange]);
 
   // Connection Management
   const addConnection = useCallback((connection: SLDConnection) => {
     dispatch({ type: 'ADD_CONNECTION', payload: connection });
-  }, []);
+    shareChange({ type: 'connection_add', connectionId: connection.id, data: connection });
+  }, [shareChange]);
 
   const removeConnection = useCallback((connectionId: string) => {
     dispatch({ type: 'REMOVE_CONNECTION', payload: connectionId });
+    shareChange({ type: 'connection_remove', connectionId, data: null });
+  }, [shareChange]);
+
+  const updateConnection = useCallback((connectionId: string, updates: Partial<SLDConnection>) => {
+    dispatch({ type: 'UPDATE_CONNECTION', payload: { id: connectionId, updates } });
+  }, []);
+
+  const updateConnectionRoute = useCallback((connectionId: string, routePoints: SLDPosition[]) => {
+    dispatch({ type: 'UPDATE_CONNECTION_ROUTE', payload: { id: connectionId, routePoints } });
+  }, []);
+
+  // Deleting a selection removes its components, their wires and any selected wires as one step
+  const removeElements = useCallback((elementIds: string[]) => {
+    if (!state.diagram) return;
+    const ids = new Set(elementIds);
+    const components = state.diagram.components.filter(c => ids.has(c.id));
+    const connections = state.diagram.connections.filter(c =>
+      ids.has(c.id) || [c.from, c.to, c.fromComponentId, c.toComponentId].some(id => id && ids.has(id))
+    );
+
+    runTransaction(`Delete ${components.length + connections.length} elements`, () => {
+      connections.forEach(c => removeConnection(c.id));
+      components.forEach(c => removeComponent(c.id));
+    });
+  }, [state.diagram, runTransaction, removeConnection, removeComponent]);
+
+  // Layers, Measurements and Title Block
+  const setLayer = useCallback((layer: SLDLayer) => {
+    dispatch({ type: 'SET_LAYER', payload: layer });
+  }, []);
+
+  const removeLayer = useCallback((layerId: string) => {
+    dispatch({ type: 'REMOVE_LAYER', payload: layerId });
+  }, []);
+
+  const assignLayer = useCallback((componentIds: string[], layerId: string) => {
+    dispatch({ type: 'ASSIGN_LAYER', payload: { componentIds, layerId } });
+  }, []);
+
+  const addMeasurement = useCallback((measurement: SLDMeasurement) => {
+    dispatch({ type: 'ADD_MEASUREMENT', payload: measurement });
+  }, []);
+
+  const updateMeasurement = useCallback((measurementId: string, updates: Partial<SLDMeasurement>) => {
+    dispatch({ type: 'UPDATE_MEASUREMENT', payload: { id: measurementId, updates } });
+  }, []);
+
+  const removeMeasurement = useCallback((measurementId: string) => {
+    dispatch({ type: 'REMOVE_MEASUREMENT', payload: measurementId });
+  }, []);
+
+  const updateTitleBlock = useCallback((updates: Partial<SLDTitleBlock>) => {
+    dispatch({ type: 'UPDATE_TITLE_BLOCK', payload: updates });
+  }, []);
+
+  const applyTemplate = useCallback((template: SLDDiagram, offset?: SLDPosition) => {
+    dispatch({ type: 'APPLY_TEMPLATE', payload: { template, offset } });
   }, []);
 
   // Selection Management
@@ -535,17 +882,34 @@ export const SLDProvider: React.FC<SLDProviderProps> = ({ children }) => {
     canUndo,
     canRedo,
     getHistory,
+    beginTransaction,
+    commitTransaction,
+    cancelTransaction,
+    runTransaction,
     startCollaboration,
     joinCollaboration,
     leaveCollaboration,
     getCollaborationSession,
+    updateCursor,
     addComponent,
     removeComponent,
     moveComponent,
+    moveComponents,
     resizeComponent,
     updateComponentProperty,
+    removeElements,
     addConnection,
     removeConnection,
+    updateConnection,
+    updateConnectionRoute,
+    setLayer,
+    removeLayer,
+    assignLayer,
+    addMeasurement,
+    updateMeasurement,
+    removeMeasurement,
+    updateTitleBlock,
+    applyTemplate,
     selectElements,
     clearSelection,
     setZoom,
@@ -565,17 +929,34 @@ export const SLDProvider: React.FC<SLDProviderProps> = ({ children }) => {
     canUndo,
     canRedo,
     getHistory,
+    beginTransaction,
+    commitTransaction,
+    cancelTransaction,
+    runTransaction,
     startCollaboration,
     joinCollaboration,
     leaveCollaboration,
     getCollaborationSession,
+    updateCursor,
     addComponent,
     removeComponent,
     moveComponent,
+    moveComponents,
     resizeComponent,
     updateComponentProperty,
+    removeElements,
     addConnection,
     removeConnection,
+    updateConnection,
+    updateConnectionRoute,
+    setLayer,
+    removeLayer,
+    assignLayer,
+    addMeasurement,
+    updateMeasurement,
+    removeMeasurement,
+    updateTitleBlock,
+    applyTemplate,
     selectElements,
     clearSelection,
     setZoom,
@@ -80,6 +80,7 @@ export const COMPONENT_TEMPLATES: ComponentTemplate[] = [
       acOutputKW: 0.29,
       acOutputVA: 300,
       dcInputVoltage: 60,
+      mpptVoltageRange: '27-45V',
       dcInputCurrent: 14,
       acOutputVoltage: 240,
       efficiency: 0.976,
@@ -283,6 +284,7 @@ export const COMPONENT_TEMPLATES: ComponentTemplate[] = [
       efficiency: 0.99,
       weightedEfficiency: 0.985,
       mpptChannels: 1,
+      maxInputCurrent: 20,
       powerOptimizers: 'DC optimizers required',
       gridTieCapability: 'Grid-tied with backup option',
       rapidShutdown: 'Module-level shutdown',
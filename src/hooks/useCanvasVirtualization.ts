@@ -7,11 +7,22 @@
 import { useRef, useCallback, useEffect, useMemo } from 'react';
 import { createComponentLogger } from '../services/loggingService';
 import { SLDPerformanceService } from '../services/sldPerformanceService';
+import { SpatialIndex } from '../utils/spatialIndex';
 import type { SLDComponent, SLDConnection } from '../types/sld';
 import type { ViewportState, VirtualizationConfig, VirtualizationMetrics } from '../types/virtualization';
 
 const logger = createComponentLogger('useCanvasVirtualization');
 
+// Component bounds estimate used for viewport culling
+const COMPONENT_EXTENT = 50;
+
+const getComponentBounds = (component: SLDComponent) => ({
+  x: component.position.x - COMPONENT_EXTENT,
+  y: component.position.y - COMPONENT_EXTENT,
+  width: COMPONENT_EXTENT * 2,
+  height: COMPONENT_EXTENT * 2
+});
+
 const DEFAULT_CONFIG: VirtualizationConfig = {
   chunkSize: 1000,
   maxVisibleComponents: 500,
@@ -43,6 +54,17 @@ export function useCanvasVirtualization(
     ...config
   }), [config]);
 
+  // Spatial index over component bounds, rebuilt in one bulk load when components change
+  const componentIndex = useMemo(() => {
+    const index = new SpatialIndex<{ component: SLDComponent; order: number }>();
+    index.load(components.map((component, order) => ({
+      id: component.id,
+      bounds: getComponentBounds(component),
+      item: { component, order }
+    })));
+    return index;
+  }, [components]);
+
   const viewportRef = useRef<ViewportState>({
     x: 0,
     y: 0,
@@ -289,16 +311,17 @@ export function useCanvasVirtualization(
    * Get currently visible components
    */
   const getVisibleComponents = useCallback(() => {
-    return components.filter(component => {
-      const bounds = {
-        x: component.position.x - 50, // Component bounds estimate
-        y: component.position.y - 50,
-        width: 100,
-        height: 100
-      };
-      return isVisible(bounds);
-    });
-  }, [components, isVisible]);
+    const viewport = viewportRef.current;
+    return componentIndex
+      .search({
+        x: viewport.x,
+        y: viewport.y,
+        width: viewport.width / viewport.scale,
+        height: viewport.height / viewport.scale
+      })
+      .sort((a, b) => a.order - b.order)
+      .map(({ component }) => component);
+  }, [componentIndex]);
 
   /**
    * Focus viewport on specific component
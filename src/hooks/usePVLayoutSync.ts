@@ -0,0 +1,66 @@
+import { useEffect } from 'react';
+import { useLoadData } from '../context/LoadDataContext';
+import { useSLDData } from '../context/SLDDataContext';
+import { PVLayoutService } from '../services/pvLayoutService';
+import { StringSizingService } from '../services/stringSizingService';
+import type { SLDComponent } from '../types/sld';
+import type { PVLayout, PVLayoutSummary } from '../types/pvLayout';
+
+/**
+ * Keeps the load calculation and single-line diagram in step with the roof layout editor.
+ * The solar row tagged as the layout's carries its module count and DC/AC ratings, and each
+ * roof face with modules gets a PV array symbol holding its strings. Once an inverter is chosen
+ * for string sizing, the arrays carry their string limits and an inverter symbol joins them.
+ */
+export const usePVLayoutSync = (layout: PVLayout | null, summary: PVLayoutSummary | null) => {
+  const { loads, addLoad, updateLoad } = useLoadData();
+  const { state: sldState, addComponent, updateComponent, removeComponent } = useSLDData();
+
+  // Only module count, stringing and array ratings reach the other modules, not every drag
+  const syncKey = layout && summary
+    ? JSON.stringify({
+        dcKw: summary.dcKw,
+        strings: summary.strings.map(s => [s.faceId, s.moduleIds.length]),
+        module: layout.module,
+        faces: layout.faces.map(face => [face.id, face.label, face.pitchDegrees, face.azimuthDegrees]),
+        stringSizing: layout.stringSizing
+      })
+    : null;
+
+  useEffect(() => {
+    if (!layout || !summary) return;
+
+    const existing = loads.solarBatteryLoads.find(load => load.source === 'pv_layout');
+    if (existing) {
+      const fields = PVLayoutService.solarLoadFields(summary, existing);
+      Object.entries(fields).forEach(([field, value]) => {
+        if (existing[field as keyof typeof existing] !== value) updateLoad('solar', existing.id, field, value);
+      });
+    } else if (summary.moduleCount > 0) {
+      addLoad('solar', PVLayoutService.solarLoadFields(summary));
+    }
+
+    const sizing = StringSizingService.sizeLayout(layout, summary.strings);
+    const components: SLDComponent[] = [
+      ...PVLayoutService.pvArrayComponents(layout, summary.strings).map(array => StringSizingService.applyToPVArray(array, sizing)),
+      ...(sizing ? [StringSizingService.inverterComponent(sizing)] : [])
+    ];
+    const current = (sldState.diagram?.components || []).filter(component => component.specifications?.source === 'pv_layout');
+    components.forEach(component => {
+      const match = current.find(c => c.id === component.id);
+      if (match) {
+        // Leave the symbol where the user placed it on the diagram
+        updateComponent(component.id, {
+          ...component,
+          position: match.position,
+          specifications: { ...match.specifications, ...component.specifications }
+        });
+      } else {
+        addComponent(component);
+      }
+    });
+    current
+      .filter(component => !components.some(generated => generated.id === component.id))
+      .forEach(component => removeComponent(component.id));
+  }, [syncKey]);
+};
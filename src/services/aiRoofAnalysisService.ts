@@ -54,6 +54,9 @@ export class AIRoofAnalysisService {
   private static isModelLoaded = false;
   private static modelLoadPromise: Promise<void> | null = null;
 
+  // Square grid the image is resampled to; segment coordinates are in these pixels
+  static readonly ANALYSIS_SIZE = 512;
+
   /**
    * Initialize TensorFlow.js and load pre-trained models
    */
@@ -172,7 +175,7 @@ export class AIRoofAnalysisService {
       const tensor = tf.browser.fromPixels(imageElement);
       
       // Resize to standard dimensions for processing
-      const resized = tf.image.resizeBilinear(tensor, [512, 512]);
+      const resized = tf.image.resizeBilinear(tensor, [this.ANALYSIS_SIZE, this.ANALYSIS_SIZE]);
       
       // Normalize pixel values to 0-1 range
       const normalized = resized.div(255.0);
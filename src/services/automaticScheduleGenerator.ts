@@ -11,6 +11,9 @@
 
 import { EnhancedWireSizingService } from './enhancedWireSizingService';
 import type { WireSizingParameters } from './enhancedWireSizingService';
+import { PhaseBalancingService } from './phaseBalancingService';
+import type { PhaseLoad, ServiceSystem } from './phaseBalancingService';
+import type { PhaseLoadSummary } from '../types';
 
 export interface ScheduleData {
   id: string;
@@ -87,6 +90,8 @@ export interface PanelScheduleOptions {
   showProtectionSettings: boolean;
   necCompliance: boolean;
   groupByPhase: boolean;
+  // Reassign circuit phases and numbers to minimise phase imbalance; on by default for three-phase panels
+  balancePhases?: boolean;
 }
 
 export interface LoadScheduleOptions {
@@ -140,6 +145,7 @@ export interface SLDCircuitData {
   loadType: 'continuous' | 'non-continuous' | 'motor' | 'evse';
   phase: 'A' | 'B' | 'C' | 'AB' | 'BC' | 'CA' | 'ABC';
   equipment?: string;
+  system?: 'ac' | 'dc'; // PV source and output circuits are 'dc'
 }
 
 export interface SLDLoadData {
@@ -273,10 +279,16 @@ export class AutomaticScheduleGenerator {
     let totalLoad = 0;
     let totalCurrent = 0;
     
+    const system = PhaseBalancingService.getServiceSystem(panelData.phases, panelData.voltage);
+    const balancePhases = options.balancePhases ?? system.phases === 3;
+    const circuits = balancePhases
+      ? this.balanceCircuitPhases(panelData.circuits, system)
+      : panelData.circuits;
+    
     // Sort circuits by number or group by phase
     const sortedCircuits = options.groupByPhase 
-      ? this.groupCircuitsByPhase(panelData.circuits)
-      : panelData.circuits.sort((a, b) => a.number - b.number);
+      ? this.groupCircuitsByPhase(circuits)
+      : circuits.sort((a, b) => a.number - b.number);
     
     sortedCircuits.forEach(circuit => {
       const cells: ScheduleCell[] = [
@@ -346,7 +358,11 @@ export class AutomaticScheduleGenerator {
       headers,
       rows,
       totals,
-      notes: this.generatePanelScheduleNotes(panelData, options),
+      notes: this.generatePanelScheduleNotes(
+        panelData,
+        { ...options, balancePhases },
+        PhaseBalancingService.summarize(circuits.map(circuit => this.toPhaseLoad(circuit)), system)
+      ),
       necReferences: ['NEC 408.4', 'NEC 210.11', 'NEC 220.14']
     };
   }
@@ -739,11 +755,16 @@ export class AutomaticScheduleGenerator {
       });
     }
     
-    // Group circuits by wire size
-    const wireGroups = this.groupCircuitsByWireSize(circuits);
+    // Group circuits by wire size, PV DC circuits listed after the AC wiring
+    const dcCircuits = circuits.filter(circuit => circuit.system === 'dc');
+    const wireGroups = [
+      ...Object.entries(this.groupCircuitsByWireSize(circuits.filter(circuit => circuit.system !== 'dc'))),
+      ...Object.entries(this.groupCircuitsByWireSize(dcCircuits))
+    ];
     const rows: ScheduleRow[] = [];
     
-    Object.entries(wireGroups).forEach(([wireSize, sizeCircuits]) => {
+    wireGroups.forEach(([wireSize, sizeCircuits]) => {
+      const dc = sizeCircuits[0].system === 'dc';
       const totalLength = sizeCircuits.reduce((sum, circuit) => sum + circuit.length, 0);
       const conductorCount = this.calculateConductorCount(sizeCircuits[0]);
       const totalWireLength = totalLength * conductorCount;
@@ -752,7 +773,7 @@ export class AutomaticScheduleGenerator {
       const conduitSize = this.estimateConduitSize(wireSize, conductorCount);
       
       const cells: ScheduleCell[] = [
-        { value: `${wireSize} AWG` },
+        { value: dc ? `${wireSize} AWG PV WIRE` : `${wireSize} AWG` },
         { value: totalLength, formatted: totalLength.toLocaleString() },
         { value: conductorCount }
       ];
@@ -774,7 +795,7 @@ export class AutomaticScheduleGenerator {
       }
       
       rows.push({
-        id: `wire_${wireSize}`,
+        id: dc ? `wire_dc_${wireSize}` : `wire_${wireSize}`,
         cells
       });
     });
@@ -788,8 +809,10 @@ export class AutomaticScheduleGenerator {
       projectInfo,
       headers,
       rows,
-      notes: this.generateWireScheduleNotes(options),
-      necReferences: ['NEC 310.15', 'NEC Chapter 9', 'NEC 358.22']
+      notes: this.generateWireScheduleNotes(options, dcCircuits.length > 0),
+      necReferences: dcCircuits.length > 0
+        ? ['NEC 310.15', 'NEC Chapter 9', 'NEC 358.22', 'NEC 690.8', 'NEC 690.31']
+        : ['NEC 310.15', 'NEC Chapter 9', 'NEC 358.22']
     };
   }
   
@@ -804,6 +827,26 @@ export class AutomaticScheduleGenerator {
     });
   }
   
+  private static toPhaseLoad(circuit: SLDCircuitData): PhaseLoad {
+    return {
+      id: circuit.id,
+      va: circuit.load,
+      poles: circuit.phase.length as PhaseLoad['poles'],
+      phase: circuit.phase,
+      number: circuit.number
+    };
+  }
+  
+  private static balanceCircuitPhases(circuits: SLDCircuitData[], system: ServiceSystem): SLDCircuitData[] {
+    const balanced = PhaseBalancingService.balance(circuits.map(circuit => this.toPhaseLoad(circuit)), system);
+    const slots = PhaseBalancingService.assignSlots(balanced, system);
+    return circuits.map((circuit, index) => ({
+      ...circuit,
+      phase: balanced[index].phase ?? circuit.phase,
+      number: slots.get(circuit.id) ?? circuit.number
+    }));
+  }
+  
   private static calculateVoltageDropForCircuit(circuit: SLDCircuitData): number {
     // Simplified voltage drop calculation
     // In production, would use EnhancedWireSizingService
@@ -884,6 +927,7 @@ export class AutomaticScheduleGenerator {
   
   private static calculateConductorCount(circuit: SLDCircuitData): number {
     // Simplified conductor count calculation
+    if (circuit.system === 'dc') return 2; // Positive + Negative
     if (circuit.voltage <= 120) return 2; // Hot + Neutral
     if (circuit.voltage <= 240) return 2; // Hot + Hot or Hot + Neutral
     return 3; // 3-phase
@@ -906,7 +950,11 @@ export class AutomaticScheduleGenerator {
     return prices[wireSize] || 1.0;
   }
   
-  private static generatePanelScheduleNotes(panel: SLDPanelData, options: PanelScheduleOptions): string[] {
+  private static generatePanelScheduleNotes(
+    panel: SLDPanelData,
+    options: PanelScheduleOptions,
+    phaseSummary: PhaseLoadSummary
+  ): string[] {
     const notes = [
       'All circuits sized per NEC requirements',
       `Panel rated for ${panel.busRating}A, ${panel.voltage}V, ${panel.phases}-phase`
@@ -916,6 +964,11 @@ export class AutomaticScheduleGenerator {
       notes.push('Voltage drops calculated at full load');
     }
     
+    notes.push(...PhaseBalancingService.describe(phaseSummary));
+    if (options.balancePhases) {
+      notes.push('Circuits assigned to phases by automatic load balancing');
+    }
+    
     return notes;
   }
   
@@ -940,7 +993,7 @@ export class AutomaticScheduleGenerator {
     ];
   }
   
-  private static generateWireScheduleNotes(options: WireScheduleOptions): string[] {
+  private static generateWireScheduleNotes(options: WireScheduleOptions, includesPV = false): string[] {
     const notes = [
       'All conductors 75°C copper unless noted',
       'Wire quantities include 10% waste factor'
@@ -950,6 +1003,10 @@ export class AutomaticScheduleGenerator {
       notes.push('Conduit sizing per NEC Chapter 9');
     }
     
+    if (includesPV) {
+      notes.push('PV source circuits: 90°C PV wire sized at 156% of module Isc per NEC 690.8');
+    }
+    
     return notes;
   }
   
@@ -5,7 +5,8 @@
  * for electrical component libraries with manufacturer data integration
  */
 
-import { ComponentTemplate } from '../data/componentTemplates';
+import { COMPONENT_TEMPLATES, ComponentTemplate } from '../data/componentTemplates';
+import type { InverterMPPTWindow } from '../types/stringSizing';
 
 export interface ComponentCategory {
   id: string;
@@ -93,6 +94,13 @@ export interface SearchResult {
   suggestions?: string[];
 }
 
+// Datasheet ranges are a single maximum (60) or a span ('300-550V')
+const parseVoltageRange = (value: unknown): { min: number; max: number } | null => {
+  if (typeof value === 'number') return value > 0 ? { min: 0, max: value } : null;
+  const match = String(value ?? '').match(/([\d.]+)\s*-\s*([\d.]+)/);
+  return match ? { min: Number(match[1]), max: Number(match[2]) } : null;
+};
+
 export class ComponentDatabaseService {
   private components: Map<string, EnhancedComponentTemplate> = new Map();
   private categories: Map<string, ComponentCategory> = new Map();
@@ -682,6 +690,42 @@ export class ComponentDatabaseService {
     return this.components.get(id);
   }
 
+  /**
+   * MPPT input limits of an inverter for string sizing. The tracking window comes from
+   * mpptVoltageRange or dcInputVoltage; a range with no maxDcInputVoltage is capped at its top.
+   */
+  getMPPTWindow(id: string): InverterMPPTWindow | undefined {
+    const component = this.components.get(id);
+    if (!component || component.type !== 'inverter') return undefined;
+
+    const specs = component.specifications;
+    const range = parseVoltageRange(specs.mpptVoltageRange ?? specs.dcInputVoltage);
+    if (!range) return undefined;
+
+    const maxCurrent = Number(specs.maxMpptCurrent ?? specs.maxStringCurrent ?? specs.maxInputCurrent ?? specs.dcInputCurrent);
+    return {
+      componentId: component.id,
+      manufacturer: component.manufacturer || '',
+      model: component.model || component.name,
+      inverterType: specs.inverterType === 'micro' ? 'micro' : specs.powerOptimizers ? 'power_optimizer' : 'string',
+      acOutputKW: Number(specs.acOutputKW) || 0,
+      minVoltage: range.min,
+      maxVoltage: range.max,
+      maxInputVoltage: Number(specs.maxDcInputVoltage) || Number(specs.dcInputVoltage) || range.max,
+      channels: Math.max(1, Number(specs.mpptChannels) || 1),
+      maxCurrentPerMppt: maxCurrent > 0 ? maxCurrent : undefined
+    };
+  }
+
+  /**
+   * MPPT windows of every inverter in the database
+   */
+  getInverterMPPTWindows(): InverterMPPTWindow[] {
+    return Array.from(this.components.keys())
+      .map(id => this.getMPPTWindow(id))
+      .filter((window): window is InverterMPPTWindow => window !== undefined);
+  }
+
   /**
    * Get all categories
    */
@@ -841,4 +885,8 @@ export class ComponentDatabaseService {
       this.searchIndex.get(normalizedTerm)!.add(component.id);
     });
   }
-}
\ No newline at end of file
+}
+
+// Shared database seeded with the built-in component templates
+export const componentDatabaseService = new ComponentDatabaseService();
+componentDatabaseService.importComponents(COMPONENT_TEMPLATES);
\ No newline at end of file
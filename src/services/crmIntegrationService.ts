@@ -4,6 +4,7 @@
 import { useCRM } from '../context/CRMContext';
 import { useProjectSettings } from '../context/ProjectSettingsContext';
 import { useLoadData } from '../context/LoadDataContext';
+import { PVProductionService } from './pvProductionService';
 import type { 
   Customer, 
   CRMProject, 
@@ -11,6 +12,7 @@ import type {
   CreateCRMProjectRequest,
   CreateActivityRequest 
 } from '../types/crm';
+import type { PVProductionEstimate } from '../types/pvProduction';
 
 interface ProjectIntegrationData {
   projectName: string;
@@ -37,7 +39,8 @@ export class CRMIntegrationService {
     crmActions: ReturnType<typeof useCRM>,
     projectSettings: any,
     loadData: any,
-    calculations: any
+    calculations: any,
+    production?: PVProductionEstimate
   ): Promise<{ customer: Customer; project: CRMProject }> {
     
     // Extract customer information from project settings
@@ -67,7 +70,8 @@ export class CRMIntegrationService {
       customer.id, 
       projectSettings, 
       loadData, 
-      calculations
+      calculations,
+      production
     );
     
     const project = await crmActions.createProject(projectData);
@@ -120,13 +124,14 @@ export class CRMIntegrationService {
     customerId: string,
     projectSettings: any,
     loadData: any,
-    calculations: any
+    calculations: any,
+    production?: PVProductionEstimate
   ): CreateCRMProjectRequest {
     const projectInfo = projectSettings?.projectInfo || {};
     const totalLoad = calculations?.totalLoad || 0;
     
     // Estimate project value based on load calculations
-    const estimatedValue = this.estimateProjectValue(loadData, calculations);
+    const estimatedValue = this.estimateProjectValue(loadData, calculations, production);
     
     return {
       customer_id: customerId,
@@ -146,13 +151,14 @@ export class CRMIntegrationService {
         totalLoad: totalLoad,
         mainBreakerSize: projectSettings?.mainBreaker,
         calculationMethod: projectSettings?.calculationMethod,
-        squareFootage: projectSettings?.squareFootage
+        squareFootage: projectSettings?.squareFootage,
+        ...(production && this.productionFields(production))
       }
     };
   }
 
   // Estimate project value based on load calculations and industry standards
-  private static estimateProjectValue(loadData: any, calculations: any): number {
+  private static estimateProjectValue(loadData: any, calculations: any, production?: PVProductionEstimate): number {
     if (!calculations) return 0;
 
     const totalLoad = calculations.totalLoad || 0;
@@ -169,8 +175,10 @@ export class CRMIntegrationService {
       baseValue += evseCount * 2500; // Average EVSE installation cost
     }
     
-    // Solar installation premium
-    if (hasSolar) {
+    // Solar install price from system size: the simulated DC size when available, else the inverter
+    if (production) {
+      baseValue += production.system.dcKw * 1000 * 3; // $3 per watt solar premium
+    } else if (hasSolar) {
       const inverterSize = loadData.solarBattery.solar.inverterSize;
       baseValue += inverterSize * 3; // $3 per watt solar premium
     }
@@ -185,6 +193,26 @@ export class CRMIntegrationService {
     return Math.round(baseValue / 100) * 100;
   }
 
+  // Production custom fields; lifetime savings get their own field since value is the install price
+  private static productionFields(production: PVProductionEstimate) {
+    return {
+      solarProduction: this.summarizeProduction(production),
+      solarLifetimeValue: PVProductionService.lifetimeValue(production)
+    };
+  }
+
+  // Production figures worth keeping on the CRM project
+  private static summarizeProduction(production: PVProductionEstimate) {
+    return {
+      dcKw: production.system.dcKw,
+      acKw: production.system.acKw,
+      annualKwh: production.annual.acKwh,
+      monthlyKwh: production.monthly.map(month => month.acKwh),
+      lifetimeKwh: production.degradation.lifetimeAcKwh,
+      weatherStation: production.weather.station.name
+    };
+  }
+
   // Determine project priority based on load and value
   private static determinePriority(totalLoad: number, estimatedValue: number): 'low' | 'medium' | 'high' | 'urgent' {
     if (estimatedValue > 50000 || totalLoad > 300) return 'high';
@@ -268,13 +296,14 @@ export class CRMIntegrationService {
     loadCalculatorProjectId: string,
     projectSettings: any,
     loadData: any,
-    calculations: any
+    calculations: any,
+    production?: PVProductionEstimate
   ): Promise<void> {
     const crmProjectId = this.getCRMProjectId(loadCalculatorProjectId);
     if (!crmProjectId) return;
 
     // Update project value and custom fields
-    const updatedValue = this.estimateProjectValue(loadData, calculations);
+    const updatedValue = this.estimateProjectValue(loadData, calculations, production);
     const updatedPriority = this.determinePriority(
       calculations?.totalLoad || 0, 
       updatedValue
@@ -289,7 +318,8 @@ export class CRMIntegrationService {
           lastUpdated: new Date().toISOString(),
           loadCalculations: calculations,
           loadData: loadData,
-          projectSettings: projectSettings
+          projectSettings: projectSettings,
+          ...(production && this.productionFields(production))
         }
       });
 
@@ -316,25 +346,28 @@ export const useCRMIntegration = () => {
   const { settings } = useProjectSettings();
   const { loads } = useLoadData();
 
-  const createProjectFromCurrentSession = async (calculations: any) => {
+  const createProjectFromCurrentSession = async (calculations: any, production?: PVProductionEstimate) => {
     return CRMIntegrationService.createProjectFromSession(
       crmActions,
       settings,
       loads,
-      calculations
+      calculations,
+      production
     );
   };
 
   const updateCRMFromCurrentSession = async (
     loadCalculatorProjectId: string,
-    calculations: any
+    calculations: any,
+    production?: PVProductionEstimate
   ) => {
     return CRMIntegrationService.updateCRMFromCalculator(
       crmActions,
       loadCalculatorProjectId,
       settings,
       loads,
-      calculations
+      calculations,
+      production
     );
   };
 
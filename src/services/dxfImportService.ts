@@ -0,0 +1,697 @@
+/**
+ * DXF Import Service
+ *
+ * Brings an engineer's existing CAD single-line into the SLD canvas:
+ * - Block inserts become components through a block-name mapping backed by the
+ *   component templates
+ * - Polylines and chained lines that run between two components become connections
+ * - DXF layers become canvas layers
+ * - Text becomes labels; anything else is kept as annotations so nothing is lost
+ */
+
+import type {
+  SLDAnnotation,
+  SLDComponent,
+  SLDComponentBase,
+  SLDConnection,
+  SLDDiagram,
+  SLDLabel,
+  SLDPosition,
+  SLDSize
+} from '../types/sld';
+import { COMPONENT_TEMPLATES } from '../data/componentTemplates';
+import type { ComponentTemplate } from '../data/componentTemplates';
+import { parseDXF } from '../utils/dxfParser';
+import type { ParsedDXF, ParsedDXFBlock, ParsedDXFEntity } from '../utils/dxfParser';
+import { aciToHex } from '../utils/dxfWriter';
+import type { DXFLayer, DXFPoint } from '../utils/dxfWriter';
+
+export interface DXFBlockMapping {
+  pattern: RegExp;
+  componentType: SLDComponent['type'];
+  templateId?: string; // Seeds size, specifications and manufacturer data
+}
+
+export interface DXFImportOptions {
+  name?: string;
+  blockMappings?: DXFBlockMapping[]; // Checked before the default mappings
+  includeDefaultMappings?: boolean;
+  canvasSize?: SLDSize;
+  fitToCanvas?: boolean; // Otherwise one drawing unit is one canvas pixel
+  margin?: number;
+  connectionTolerance?: number; // Canvas pixels between a wire end and a component
+}
+
+export type DXFImportObjectType = 'component' | 'connection' | 'label' | 'annotation';
+
+export interface DXFImportLayer {
+  name: string; // Layer name in the DXF file
+  layerId: string;
+  color: string;
+  visible: boolean;
+  locked: boolean;
+  objects: { id: string; type: DXFImportObjectType }[];
+}
+
+export interface DXFImportResult {
+  diagram: SLDDiagram;
+  layers: DXFImportLayer[];
+  unmappedBlocks: string[]; // Named blocks kept as annotations for want of a mapping
+  warnings: string[];
+}
+
+/**
+ * The parts of the canvas LayerSystem an import writes to
+ */
+export interface DXFLayerTarget {
+  getLayer(id: string): unknown;
+  createLayer(id: string, name: string, options?: { color?: string; visible?: boolean; locked?: boolean }): unknown;
+  addObject(object: { id: string; layerId: string; type: DXFImportObjectType; data: unknown }): boolean;
+  setLayerLocked(id: string, locked: boolean): boolean;
+}
+
+interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+interface WireRoute {
+  layer: string;
+  color?: number;
+  points: SLDPosition[];
+  source: string;
+}
+
+type Transform = (point: DXFPoint) => SLDPosition;
+
+const DEFAULT_CANVAS_SIZE: SLDSize = { width: 1200, height: 800 };
+const DEFAULT_MARGIN = 40;
+const DEFAULT_CONNECTION_TOLERANCE = 10;
+const MAX_BLOCK_NESTING = 4;
+
+// Text height in a DXF is the cap height; canvas font sizes are the em size
+const CAP_HEIGHT_RATIO = 0.7;
+
+const SLD_COMPONENT_TYPES: SLDComponent['type'][] = [
+  'pv_array', 'inverter', 'dc_disconnect', 'ac_disconnect', 'main_disconnect', 'disconnect',
+  'battery', 'main_panel', 'sub_panel', 'combiner_box',
+  'evse_charger', 'ev_charger', 'breaker', 'grid', 'production_meter', 'consumption_meter',
+  'utility_meter', 'grounding_electrode', 'utility_service', 'meter_socket', 'service_disconnect',
+  'load_generic'
+];
+
+// Most specific names first: "PV_DISCONNECT" is a disconnect, "SUB_PANEL" is not a main panel
+const DEFAULT_BLOCK_MAPPINGS: DXFBlockMapping[] = [
+  { pattern: /PROD(UCTION)?.?METER|PV.?METER|REC.?METER/i, componentType: 'production_meter', templateId: 'production_meter_template' },
+  { pattern: /CONS(UMPTION)?.?METER|NET.?METER/i, componentType: 'consumption_meter', templateId: 'consumption_meter_template' },
+  { pattern: /UTIL(ITY)?.?METER|REVENUE.?METER/i, componentType: 'utility_meter', templateId: 'utility_meter_template' },
+  { pattern: /METER/i, componentType: 'meter_socket', templateId: 'utility_meter_template' },
+  { pattern: /SERVICE.?DISC|MAIN.?DISC/i, componentType: 'service_disconnect', templateId: 'ac_disconnect_template' },
+  { pattern: /DC.?DISC/i, componentType: 'dc_disconnect', templateId: 'dc_disconnect_template' },
+  { pattern: /DISC|SAFETY.?SWITCH/i, componentType: 'ac_disconnect', templateId: 'ac_disconnect_template' },
+  { pattern: /COMBINER|IQ.?COMB/i, componentType: 'combiner_box', templateId: 'enphase_iq8_combiner_template' },
+  { pattern: /SUB.?PANEL|(^|[^A-Z])SP\d*$/i, componentType: 'sub_panel', templateId: 'sub_panel_template' },
+  { pattern: /PANEL|MSP|MDP|LOAD.?CENTER|SWITCHBOARD/i, componentType: 'main_panel', templateId: 'main_electrical_panel_template' },
+  { pattern: /BREAKER|OCPD|(^|[^A-Z])CB([^A-Z]|$)/i, componentType: 'breaker', templateId: 'circuit_breaker_template' },
+  { pattern: /POWERWALL/i, componentType: 'battery', templateId: 'tesla_powerwall_template' },
+  { pattern: /IQ8|MICRO.?INV/i, componentType: 'inverter', templateId: 'enphase_iq8_microinverter_template' },
+  { pattern: /WALL.?CONNECTOR/i, componentType: 'evse_charger', templateId: 'tesla_wall_connector_template' },
+  { pattern: /INVERTER|(^|[^A-Z])INV([^A-Z]|$)/i, componentType: 'inverter' },
+  { pattern: /BATT|ESS|STORAGE/i, componentType: 'battery' },
+  { pattern: /EVSE|EV.?CHARGER|(^|[^A-Z])EV([^A-Z]|$)/i, componentType: 'evse_charger' },
+  { pattern: /PV|ARRAY|MODULE|SOLAR/i, componentType: 'pv_array', templateId: 'pv_array_template' },
+  { pattern: /GROUND|GND|GEC|ELECTRODE/i, componentType: 'grounding_electrode', templateId: 'grounding_rod_template' },
+  { pattern: /XFMR|TRANSFORMER/i, componentType: 'utility_service', templateId: 'utility_transformer_template' },
+  { pattern: /SERVICE|UTILITY/i, componentType: 'utility_service', templateId: 'service_entrance_template' },
+  { pattern: /GRID/i, componentType: 'grid' },
+  { pattern: /LOAD/i, componentType: 'load_generic' }
+];
+
+// Attributes copied onto the component itself as well as its properties
+const TOP_LEVEL_ATTRIBUTES = ['rating', 'voltage', 'manufacturer', 'model'];
+
+export class DXFImportService {
+  /**
+   * Parse a DXF file and convert its model space into an SLD diagram
+   */
+  static importDiagram(content: string, options: DXFImportOptions = {}): DXFImportResult {
+    const parsed = parseDXF(content);
+    const warnings: string[] = [];
+    const canvasSize = options.canvasSize ?? DEFAULT_CANVAS_SIZE;
+    const tolerance = options.connectionTolerance ?? DEFAULT_CONNECTION_TOLERANCE;
+    const mappings = [
+      ...(options.blockMappings ?? []),
+      ...(options.includeDefaultMappings === false ? [] : DEFAULT_BLOCK_MAPPINGS)
+    ];
+    const blocks = new Map(parsed.blocks.map(block => [block.name, block]));
+
+    const entities = parsed.entities.filter(entity => !entity.paperSpace);
+    if (entities.length < parsed.entities.length) {
+      warnings.push(`${parsed.entities.length - entities.length} paper space entities were skipped`);
+    }
+
+    const layers = this.createLayers(parsed);
+    const transform = this.createTransform(entities, blocks, canvasSize, options);
+    const scale = this.getTransformScale(transform);
+
+    const components: SLDComponent[] = [];
+    const connections: SLDConnection[] = [];
+    const labels: SLDLabel[] = [];
+    const annotations: SLDAnnotation[] = [];
+    const unmappedBlocks = new Set<string>();
+
+    const assign = (layerName: string, id: string, type: DXFImportObjectType) => {
+      if (!layers.has(layerName)) {
+        layers.set(layerName, this.createImportLayer({ name: layerName, color: 7, lineType: 'CONTINUOUS' }));
+      }
+      layers.get(layerName)!.objects.push({ id, type });
+    };
+    const colorOf = (entity: { layer: string; color?: number }) =>
+      aciToHex(entity.color ?? parsed.layers.find(layer => layer.name === entity.layer)?.color ?? 7);
+    const addAnnotation = (
+      entity: { layer: string; color?: number },
+      annotation: Omit<SLDAnnotation, 'id' | 'color' | 'layer'>
+    ) => {
+      const id = `dxf-annotation-${annotations.length + 1}`;
+      annotations.push({ id, color: colorOf(entity), layer: entity.layer, ...annotation });
+      assign(entity.layer, id, 'annotation');
+    };
+
+    // Block inserts
+    entities.forEach(entity => {
+      if (entity.type !== 'insert') return;
+      const block = blocks.get(entity.block);
+      const mapping = block?.anonymous ? undefined : this.findBlockMapping(entity, mappings);
+      const corners = this.getInsertPoints(entity, blocks, 0).map(transform);
+
+      if (!mapping) {
+        if (!block?.anonymous) unmappedBlocks.add(entity.block);
+        addAnnotation(entity, {
+          kind: 'block',
+          points: corners.length > 0 ? this.getCorners(this.getBounds(corners)) : [transform(entity.position)],
+          source: entity.block
+        });
+        return;
+      }
+
+      const component = this.createComponent(entity, mapping, corners, transform(entity.position), components);
+      components.push(component);
+      assign(entity.layer, component.id, 'component');
+    });
+
+    unmappedBlocks.forEach(name => {
+      warnings.push(`Block ${name} has no component mapping and was kept as an annotation`);
+    });
+
+    // Wires
+    const componentBounds = components.map(component => ({
+      id: component.id,
+      bounds: this.inflate(this.getComponentBounds(component), tolerance)
+    }));
+    const findComponent = (point: SLDPosition) => componentBounds
+      .filter(({ bounds }) => this.contains(bounds, point))
+      .sort((a, b) => this.area(a.bounds) - this.area(b.bounds))[0]?.id;
+
+    const routes: WireRoute[] = [
+      ...entities.flatMap(entity => entity.type === 'polyline' && entity.points.length >= 2
+        ? [{ layer: entity.layer, color: entity.color, points: entity.points.map(transform), source: 'POLYLINE' }]
+        : []),
+      ...this.chainLines(
+        entities.filter((entity): entity is Extract<ParsedDXFEntity, { type: 'line' }> => entity.type === 'line'),
+        transform,
+        tolerance / 5,
+        point => findComponent(point) !== undefined
+      )
+    ];
+
+    routes.forEach(route => {
+      const from = findComponent(route.points[0]);
+      const to = findComponent(route.points[route.points.length - 1]);
+
+      if (!from || !to || from === to) {
+        addAnnotation(route, {
+          kind: route.points.length === 2 ? 'line' : 'polyline',
+          points: route.points,
+          source: route.source
+        });
+        return;
+      }
+
+      const connection: SLDConnection = {
+        id: `dxf-wire-${connections.length + 1}`,
+        from,
+        to,
+        fromComponentId: from,
+        toComponentId: to,
+        startPoint: route.points[0],
+        endPoint: route.points[route.points.length - 1],
+        type: this.getConnectionType(route.layer),
+        metadata: { route: route.points, dxfLayer: route.layer }
+      };
+      connections.push(connection);
+      assign(route.layer, connection.id, 'connection');
+    });
+
+    // Text labels a wire when it sits on the wire, otherwise it is a free label
+    entities.forEach(entity => {
+      if (entity.type !== 'text' || !entity.text.trim()) return;
+      const position = transform(entity.position);
+      const height = entity.height * scale;
+      const wire = connections.find(connection =>
+        !connection.label &&
+        connection.metadata?.dxfLayer === entity.layer &&
+        this.distanceToRoute(position, connection.metadata.route) <= Math.max(height * 1.5, tolerance)
+      );
+
+      if (wire) {
+        wire.label = entity.text;
+        return;
+      }
+
+      const label: SLDLabel = {
+        id: `dxf-label-${labels.length + 1}`,
+        text: entity.text,
+        position,
+        fontSize: Math.round(height / CAP_HEIGHT_RATIO * 10) / 10,
+        fontWeight: 'normal',
+        color: colorOf(entity),
+        necRequired: false
+      };
+      labels.push(label);
+      assign(entity.layer, label.id, 'label');
+    });
+
+    // Everything else
+    entities.forEach(entity => {
+      switch (entity.type) {
+        case 'circle':
+          addAnnotation(entity, { kind: 'circle', points: [transform(entity.center)], radius: entity.radius * scale });
+          break;
+        case 'arc':
+          addAnnotation(entity, {
+            kind: 'arc',
+            points: [transform(entity.center)],
+            radius: entity.radius * scale,
+            // The y flip mirrors the sweep direction
+            startAngle: (360 - entity.endAngle) % 360,
+            endAngle: (360 - entity.startAngle) % 360
+          });
+          break;
+        case 'solid':
+          addAnnotation(entity, { kind: 'polyline', points: entity.points.map(transform), closed: true, source: 'SOLID' });
+          break;
+        case 'dimension':
+          addAnnotation(entity, {
+            kind: 'dimension',
+            points: [transform(entity.start), transform(entity.end)],
+            text: entity.text ?? (entity.measurement !== undefined ? String(Math.round(entity.measurement * 100) / 100) : undefined),
+            source: 'DIMENSION'
+          });
+          break;
+        case 'unknown':
+          addAnnotation(entity, { kind: 'other', points: entity.points.map(transform), source: entity.dxfType });
+          break;
+      }
+    });
+
+    const diagram: SLDDiagram = {
+      id: `dxf-import-${Date.now()}`,
+      name: options.name ?? 'Imported DXF Drawing',
+      created: new Date(),
+      lastModified: new Date(),
+      components,
+      connections,
+      labels,
+      annotations,
+      canvasSize,
+      metadata: {
+        generatedFrom: 'dxf',
+        dxfVersion: typeof parsed.header.$ACADVER === 'string' ? parsed.header.$ACADVER : undefined
+      }
+    };
+
+    return { diagram, layers: Array.from(layers.values()), unmappedBlocks: Array.from(unmappedBlocks), warnings };
+  }
+
+  /**
+   * Drop everything on the named DXF layers, along with wires left without a component at either end
+   */
+  static withoutLayers(result: DXFImportResult, layerNames: string[]): DXFImportResult {
+    const dropped = new Set(result.layers
+      .filter(layer => layerNames.includes(layer.name))
+      .flatMap(layer => layer.objects.map(object => object.id)));
+    const { diagram } = result;
+    const components = diagram.components.filter(component => !dropped.has(component.id));
+    const componentIds = new Set(components.map(component => component.id));
+    const connections = diagram.connections.filter(connection =>
+      !dropped.has(connection.id) && componentIds.has(connection.from) && componentIds.has(connection.to)
+    );
+    const kept = new Set([
+      ...componentIds,
+      ...connections.map(connection => connection.id),
+      ...(diagram.labels ?? []).map(label => label.id),
+      ...(diagram.annotations ?? []).map(annotation => annotation.id)
+    ].filter(id => !dropped.has(id)));
+
+    return {
+      ...result,
+      diagram: {
+        ...diagram,
+        components,
+        connections,
+        labels: diagram.labels?.filter(label => kept.has(label.id)),
+        annotations: diagram.annotations?.filter(annotation => kept.has(annotation.id))
+      },
+      layers: result.layers
+        .filter(layer => !layerNames.includes(layer.name))
+        .map(layer => ({ ...layer, objects: layer.objects.filter(object => kept.has(object.id)) }))
+    };
+  }
+
+  /**
+   * Create a canvas layer for every imported DXF layer that received objects and place
+   * the objects on it. Locked DXF layers are locked after they are populated.
+   */
+  static applyToLayerSystem(target: DXFLayerTarget, result: DXFImportResult): number {
+    const { diagram } = result;
+    const objects = new Map<string, unknown>([
+      ...diagram.components.map(component => [component.id, component] as const),
+      ...diagram.connections.map(connection => [connection.id, connection] as const),
+      ...(diagram.labels ?? []).map(label => [label.id, label] as const),
+      ...(diagram.annotations ?? []).map(annotation => [annotation.id, annotation] as const)
+    ]);
+    let placed = 0;
+
+    result.layers.filter(layer => layer.objects.length > 0).forEach(layer => {
+      if (!target.getLayer(layer.layerId)) {
+        target.createLayer(layer.layerId, layer.name, { color: layer.color, visible: layer.visible, locked: false });
+      }
+      layer.objects.forEach(({ id, type }) => {
+        if (target.addObject({ id, layerId: layer.layerId, type, data: objects.get(id) })) placed++;
+      });
+      if (layer.locked) target.setLayerLocked(layer.layerId, true);
+    });
+
+    return placed;
+  }
+
+  static getDefaultBlockMappings(): DXFBlockMapping[] {
+    return [...DEFAULT_BLOCK_MAPPINGS];
+  }
+
+  private static createLayers(parsed: ParsedDXF): Map<string, DXFImportLayer> {
+    return new Map(parsed.layers.map(layer => [layer.name, this.createImportLayer(layer)]));
+  }
+
+  private static createImportLayer(layer: DXFLayer): DXFImportLayer {
+    return {
+      name: layer.name,
+      layerId: `dxf_${layer.name.toLowerCase().replace(/[^a-z0-9]+/g, '_')}`,
+      color: aciToHex(layer.color),
+      visible: !layer.off,
+      locked: layer.locked ?? false,
+      objects: []
+    };
+  }
+
+  /**
+   * Drawing units to canvas pixels with the y axis pointing down. When fitting, the
+   * model space extents are scaled into the canvas inside the margin.
+   */
+  private static createTransform(
+    entities: ParsedDXFEntity[],
+    blocks: Map<string, ParsedDXFBlock>,
+    canvasSize: SLDSize,
+    options: DXFImportOptions
+  ): Transform {
+    if (options.fitToCanvas === false) {
+      return point => ({ x: point.x, y: canvasSize.height - point.y });
+    }
+
+    const points = entities.flatMap(entity => this.getEntityPoints(entity, blocks, 0));
+    if (points.length === 0) {
+      return point => ({ x: point.x, y: canvasSize.height - point.y });
+    }
+
+    const margin = options.margin ?? DEFAULT_MARGIN;
+    const bounds = this.getBounds(points);
+    const width = bounds.maxX - bounds.minX;
+    const height = bounds.maxY - bounds.minY;
+    const scales = [
+      width > 0 ? (canvasSize.width - 2 * margin) / width : Infinity,
+      height > 0 ? (canvasSize.height - 2 * margin) / height : Infinity
+    ];
+    const scale = Math.min(...scales) === Infinity ? 1 : Math.min(...scales);
+
+    return point => ({
+      x: margin + (point.x - bounds.minX) * scale,
+      y: margin + (bounds.maxY - point.y) * scale
+    });
+  }
+
+  private static getTransformScale(transform: Transform): number {
+    const origin = transform({ x: 0, y: 0 });
+    return transform({ x: 1, y: 0 }).x - origin.x;
+  }
+
+  /**
+   * Model space points of an entity, used for the drawing extents
+   */
+  private static getEntityPoints(entity: ParsedDXFEntity, blocks: Map<string, ParsedDXFBlock>, depth: number): DXFPoint[] {
+    switch (entity.type) {
+      case 'line':
+        return [entity.start, entity.end];
+      case 'polyline':
+      case 'solid':
+        return entity.points;
+      case 'circle':
+      case 'arc':
+        return [
+          { x: entity.center.x - entity.radius, y: entity.center.y - entity.radius },
+          { x: entity.center.x + entity.radius, y: entity.center.y + entity.radius }
+        ];
+      case 'text':
+        return [entity.position];
+      case 'insert': {
+        const geometry = this.getInsertPoints(entity, blocks, depth);
+        return geometry.length > 0 ? geometry : [entity.position];
+      }
+      case 'dimension':
+        return [entity.start, entity.end];
+      case 'unknown':
+        return entity.points;
+    }
+  }
+
+  /**
+   * Block geometry placed by an insert. Text and attribute definitions are left out
+   * because their extents depend on the font.
+   */
+  private static getInsertPoints(
+    insert: Extract<ParsedDXFEntity, { type: 'insert' }>,
+    blocks: Map<string, ParsedDXFBlock>,
+    depth: number
+  ): DXFPoint[] {
+    const block = blocks.get(insert.block);
+    if (!block || depth >= MAX_BLOCK_NESTING) return [];
+
+    const angle = insert.rotation * Math.PI / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    return block.entities
+      .filter(entity => entity.type !== 'text' && entity.type !== 'unknown' && entity.type !== 'dimension')
+      .flatMap(entity => this.getEntityPoints(entity, blocks, depth + 1))
+      .map(point => {
+        const x = (point.x - block.basePoint.x) * insert.scale.x;
+        const y = (point.y - block.basePoint.y) * insert.scale.y;
+        return {
+          x: insert.position.x + x * cos - y * sin,
+          y: insert.position.y + x * sin + y * cos
+        };
+      });
+  }
+
+  /**
+   * A TYPE attribute naming an SLD component type wins over the block name, so
+   * drawings exported from this app come back as the same components.
+   */
+  private static findBlockMapping(
+    insert: Extract<ParsedDXFEntity, { type: 'insert' }>,
+    mappings: DXFBlockMapping[]
+  ): DXFBlockMapping | undefined {
+    const typeAttribute = insert.attributes.TYPE as SLDComponent['type'] | undefined;
+    const byName = mappings.find(mapping => mapping.pattern.test(insert.block));
+
+    if (typeAttribute && SLD_COMPONENT_TYPES.includes(typeAttribute)) {
+      return byName?.componentType === typeAttribute ? byName : { pattern: /.*/, componentType: typeAttribute };
+    }
+    return byName;
+  }
+
+  private static createComponent(
+    insert: Extract<ParsedDXFEntity, { type: 'insert' }>,
+    mapping: DXFBlockMapping,
+    corners: SLDPosition[],
+    insertion: SLDPosition,
+    existing: SLDComponent[]
+  ): SLDComponent {
+    const template: ComponentTemplate | undefined = mapping.templateId
+      ? COMPONENT_TEMPLATES.find(candidate => candidate.id === mapping.templateId)
+      : undefined;
+    const bounds = corners.length > 0 ? this.getBounds(corners) : undefined;
+    const size = bounds
+      ? { width: bounds.maxX - bounds.minX, height: bounds.maxY - bounds.minY }
+      : { ...(template?.defaultSize ?? { width: 60, height: 60 }) };
+    const position = bounds ? { x: bounds.minX, y: bounds.minY } : insertion;
+
+    const { NAME: name, ID: requestedId, TYPE: _type, ...rest } = insert.attributes;
+    const attributes = Object.fromEntries(
+      Object.entries(rest)
+        .filter(([, value]) => value.trim() !== '')
+        .map(([tag, value]) => [tag.toLowerCase(), this.parseAttributeValue(value)])
+    );
+    const id = requestedId && !existing.some(component => component.id === requestedId)
+      ? requestedId
+      : `dxf-component-${existing.length + 1}`;
+
+    // Type-specific fields come from the template and block attributes where the drawing has them
+    const component: SLDComponentBase = {
+      id,
+      type: mapping.componentType,
+      name: name || template?.name || insert.block,
+      position,
+      size,
+      width: size.width,
+      height: size.height,
+      ...(template?.manufacturer ? { manufacturer: template.manufacturer, model: template.model } : {}),
+      ...Object.fromEntries(Object.entries(attributes).filter(([key]) => TOP_LEVEL_ATTRIBUTES.includes(key))),
+      specifications: { ...(template?.specifications ?? {}), ...attributes },
+      properties: { ...attributes, dxfBlock: insert.block, dxfLayer: insert.layer }
+    };
+    return component as SLDComponent;
+  }
+
+  private static parseAttributeValue(value: string): string | number {
+    return /^-?\d+(\.\d+)?$/.test(value.trim()) ? Number(value) : value;
+  }
+
+  /**
+   * Joins LINE entities that share end points into routes. Routes do not continue
+   * through a point inside a component, where one wire ends and the next begins.
+   */
+  private static chainLines(
+    lines: Extract<ParsedDXFEntity, { type: 'line' }>[],
+    transform: Transform,
+    tolerance: number,
+    isTerminal: (point: SLDPosition) => boolean
+  ): WireRoute[] {
+    const segments = lines.map(line => ({ line, points: [transform(line.start), transform(line.end)] }));
+    const used = new Set<number>();
+    const routes: WireRoute[] = [];
+    const near = (a: SLDPosition, b: SLDPosition) => Math.hypot(a.x - b.x, a.y - b.y) <= tolerance;
+
+    segments.forEach((segment, index) => {
+      if (used.has(index)) return;
+      used.add(index);
+      const points = [...segment.points];
+
+      const extend = (atEnd: boolean): boolean => {
+        const tip = atEnd ? points[points.length - 1] : points[0];
+        if (isTerminal(tip)) return false;
+        const next = segments.findIndex((candidate, candidateIndex) =>
+          !used.has(candidateIndex) &&
+          candidate.line.layer === segment.line.layer &&
+          candidate.points.some(point => near(point, tip))
+        );
+        if (next < 0) return false;
+
+        used.add(next);
+        const [a, b] = segments[next].points;
+        const far = near(a, tip) ? b : a;
+        if (atEnd) points.push(far);
+        else points.unshift(far);
+        return true;
+      };
+
+      while (extend(true));
+      while (extend(false));
+
+      routes.push({ layer: segment.line.layer, color: segment.line.color, points, source: 'LINE' });
+    });
+
+    return routes;
+  }
+
+  private static getConnectionType(layerName: string): SLDConnection['type'] {
+    if (/(^|[^A-Z])DC([^A-Z]|$)/i.test(layerName)) return 'dc';
+    if (/GROUND|GND|GEC|EGC/i.test(layerName)) return 'ground';
+    if (/CONTROL|CTRL|COMM/i.test(layerName)) return 'control';
+    return 'ac';
+  }
+
+  private static distanceToRoute(point: SLDPosition, route: SLDPosition[]): number {
+    let best = Infinity;
+    for (let i = 0; i < route.length - 1; i++) {
+      const start = route[i];
+      const end = route[i + 1];
+      const dx = end.x - start.x;
+      const dy = end.y - start.y;
+      const lengthSquared = dx * dx + dy * dy;
+      const t = lengthSquared > 0
+        ? Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared))
+        : 0;
+      best = Math.min(best, Math.hypot(point.x - (start.x + t * dx), point.y - (start.y + t * dy)));
+    }
+    return best;
+  }
+
+  private static getComponentBounds(component: SLDComponent): Bounds {
+    const width = component.size?.width ?? component.width ?? 0;
+    const height = component.size?.height ?? component.height ?? 0;
+    return {
+      minX: component.position.x,
+      minY: component.position.y,
+      maxX: component.position.x + width,
+      maxY: component.position.y + height
+    };
+  }
+
+  private static getBounds(points: DXFPoint[]): Bounds {
+    return {
+      minX: Math.min(...points.map(point => point.x)),
+      minY: Math.min(...points.map(point => point.y)),
+      maxX: Math.max(...points.map(point => point.x)),
+      maxY: Math.max(...points.map(point => point.y))
+    };
+  }
+
+  private static getCorners(bounds: Bounds): SLDPosition[] {
+    return [
+      { x: bounds.minX, y: bounds.minY },
+      { x: bounds.maxX, y: bounds.minY },
+      { x: bounds.maxX, y: bounds.maxY },
+      { x: bounds.minX, y: bounds.maxY }
+    ];
+  }
+
+  private static inflate(bounds: Bounds, amount: number): Bounds {
+    return {
+      minX: bounds.minX - amount,
+      minY: bounds.minY - amount,
+      maxX: bounds.maxX + amount,
+      maxY: bounds.maxY + amount
+    };
+  }
+
+  private static contains(bounds: Bounds, point: SLDPosition): boolean {
+    return point.x >= bounds.minX && point.x <= bounds.maxX && point.y >= bounds.minY && point.y <= bounds.maxY;
+  }
+
+  private static area(bounds: Bounds): number {
+    return (bounds.maxX - bounds.minX) * (bounds.maxY - bounds.minY);
+  }
+}
+
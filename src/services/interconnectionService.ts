@@ -0,0 +1,227 @@
+/**
+ * Interconnection Service
+ *
+ * Evaluates PV and battery sources against every NEC 705 interconnection option
+ * for the selected code edition:
+ * - Load-side 100%, 120%, sum-of-breakers and center-fed busbar rules
+ * - Feeder connections and supply-side connections
+ * - Power control system (705.13) limited source current
+ * - Required overcurrent device sizes and the warning label text for each option
+ */
+
+import { NEC_CONSTANTS, DEFAULT_NEC_CODE_YEAR, getNECRulePack } from '../constants';
+import type { InterconnectionOption, InterconnectionOptionId } from '../constants';
+import type { NECCodeYear, PanelDetails, SolarBatteryLoad } from '../types';
+
+export interface InterconnectionInput {
+  sources: SolarBatteryLoad[];
+  mainBreaker: number;
+  busRating: number;
+  centerFed?: boolean;
+  // Sum of the load breakers in the panel, excluding the main, for the sum rule
+  loadBreakerTotal?: number;
+  feederAmpacity?: number;
+  feederOCPD?: number;
+  // Defaults to the main breaker rating
+  serviceConductorAmpacity?: number;
+  // Controlled current setting of a 705.13 power control system
+  pcsControlledCurrent?: number;
+}
+
+export interface InterconnectionSource {
+  name: string;
+  type: SolarBatteryLoad['type'];
+  location: SolarBatteryLoad['location'];
+  outputAmps: number;
+  // 125% of the output circuit current
+  continuousAmps: number;
+  requiredBreakerAmps: number;
+}
+
+export interface InterconnectionOptionResult {
+  id: InterconnectionOptionId;
+  section: string;
+  description: string;
+  // False when the input the option needs was not provided or it does not apply
+  evaluated: boolean;
+  compliant: boolean;
+  limitAmps: number | null;
+  sourceAmps: number;
+  requiredBreakerAmps: number;
+  inUse: boolean;
+  reason: string;
+  labels: string[];
+}
+
+export interface InterconnectionEvaluation {
+  codeYear: NECCodeYear;
+  sources: InterconnectionSource[];
+  solarAmps: number;
+  batteryAmps: number;
+  // Source current the busbar rules are checked against, after any PCS limit
+  sourceAmps: number;
+  pcsLimited: boolean;
+  options: InterconnectionOptionResult[];
+  compliantOptions: InterconnectionOptionId[];
+  configurationCompliant: boolean;
+}
+
+const CONTINUOUS_FACTOR = 1.25;
+const AMPS_EPSILON = 1e-6;
+
+export const INTERCONNECTION_LABELS = {
+  multipleSources: 'WARNING: THIS EQUIPMENT IS FED BY MULTIPLE SOURCES OF POWER',
+  doNotRelocate: 'WARNING: POWER SOURCE OUTPUT CONNECTION - DO NOT RELOCATE THIS OVERCURRENT DEVICE',
+  sumOfBreakers: 'WARNING: THIS EQUIPMENT FED BY MULTIPLE SOURCES. TOTAL RATING OF ALL OVERCURRENT DEVICES, ' +
+    'EXCLUDING MAIN SUPPLY OVERCURRENT DEVICE, SHALL NOT EXCEED AMPACITY OF BUSBAR.',
+  powerControlSystem: (amps: number) => `WARNING: POWER CONTROL SYSTEM CONTROLLED CURRENT SETTING ${amps} A - DO NOT CHANGE`
+};
+
+const nextStandardOCPD = (amps: number): number =>
+  amps <= 0 ? 0 : NEC_CONSTANTS.STANDARD_OCPD_SIZES.find(size => size >= amps - AMPS_EPSILON) ?? Math.ceil(amps / 100) * 100;
+
+const round = (amps: number): number => Math.round(amps * 10) / 10;
+
+export class InterconnectionService {
+
+  /**
+   * Interconnection inputs entered with the panel details
+   */
+  static panelInputs(panel: PanelDetails): Partial<InterconnectionInput> {
+    const { centerFed, loadBreakerTotal, feederAmpacity, feederOCPD, pcsControlledCurrent } = panel;
+    return { centerFed, loadBreakerTotal, feederAmpacity, feederOCPD, pcsControlledCurrent };
+  }
+
+  /**
+   * Compare every interconnection option in the edition's rule pack for the given sources
+   */
+  static evaluate(input: InterconnectionInput, codeYear: string = DEFAULT_NEC_CODE_YEAR): InterconnectionEvaluation {
+    const rules = getNECRulePack(codeYear);
+    const sources = input.sources
+      .filter(load => load.kw > 0 && load.inverterAmps > 0)
+      .map(load => this.toSource(load));
+
+    const sumOf = (items: InterconnectionSource[], field: 'outputAmps' | 'continuousAmps' | 'requiredBreakerAmps') =>
+      items.reduce((sum, source) => sum + source[field], 0);
+    const ratedAmps = sumOf(sources, 'continuousAmps');
+    const pcsLimited = input.pcsControlledCurrent !== undefined && input.pcsControlledCurrent < ratedAmps;
+    const sourceAmps = pcsLimited ? input.pcsControlledCurrent! : ratedAmps;
+
+    const options = rules.interconnection.options.map(option =>
+      this.evaluateOption(option, input, sources, sourceAmps, rules.interconnection.busbarMultiplier)
+    );
+
+    // The design as entered: load-side sources on the busbar, supply-side sources on the service conductors
+    const loadSide = sources.filter(source => source.location !== 'supply_side');
+    const supplySide = sources.filter(source => source.location === 'supply_side');
+    const busbarOption = options.find(option => option.id === (input.centerFed ? 'load_side_center_fed' : 'load_side_120_percent'));
+    const loadSideAmps = pcsLimited ? Math.min(input.pcsControlledCurrent!, sumOf(loadSide, 'continuousAmps')) : sumOf(loadSide, 'continuousAmps');
+    const serviceAmps = input.serviceConductorAmpacity ?? input.mainBreaker;
+    const configurationCompliant =
+      (loadSide.length === 0 || (busbarOption?.limitAmps != null && loadSideAmps <= busbarOption.limitAmps + AMPS_EPSILON)) &&
+      (supplySide.length === 0 || sumOf(supplySide, 'outputAmps') <= serviceAmps + AMPS_EPSILON);
+
+    return {
+      codeYear: rules.codeYear,
+      sources,
+      solarAmps: sumOf(sources.filter(source => source.type === 'solar'), 'continuousAmps'),
+      batteryAmps: sumOf(sources.filter(source => source.type === 'battery'), 'continuousAmps'),
+      sourceAmps,
+      pcsLimited,
+      options,
+      compliantOptions: options.filter(option => option.compliant).map(option => option.id),
+      configurationCompliant
+    };
+  }
+
+  private static toSource(load: SolarBatteryLoad): InterconnectionSource {
+    const continuousAmps = load.inverterAmps * CONTINUOUS_FACTOR;
+    return {
+      name: load.name,
+      type: load.type,
+      location: load.location,
+      outputAmps: load.inverterAmps,
+      continuousAmps,
+      requiredBreakerAmps: nextStandardOCPD(continuousAmps)
+    };
+  }
+
+  private static evaluateOption(
+    option: InterconnectionOption,
+    input: InterconnectionInput,
+    sources: InterconnectionSource[],
+    sourceAmps: number,
+    busbarMultiplier: number
+  ): InterconnectionOptionResult {
+    const { mainBreaker, busRating } = input;
+    const backfedBreakers = sources.reduce((sum, source) => sum + source.requiredBreakerAmps, 0);
+    const inUse = sources.some(source => option.id === 'supply_side'
+      ? source.location === 'supply_side'
+      : source.location !== 'supply_side' && option.id === (input.centerFed ? 'load_side_center_fed' : 'load_side_120_percent'));
+
+    const result = (
+      limitAmps: number | null,
+      checkedAmps: number,
+      requiredBreakerAmps: number,
+      labels: string[],
+      reason?: string
+    ): InterconnectionOptionResult => {
+      const evaluated = limitAmps !== null && reason === undefined;
+      const compliant = evaluated && sources.length > 0 && checkedAmps <= limitAmps! + AMPS_EPSILON;
+      return {
+        id: option.id,
+        section: option.section,
+        description: option.description,
+        evaluated,
+        compliant,
+        limitAmps: limitAmps === null ? null : round(limitAmps),
+        sourceAmps: round(checkedAmps),
+        requiredBreakerAmps,
+        inUse,
+        reason: reason ?? (compliant
+          ? `${round(checkedAmps)} A within the ${round(limitAmps!)} A limit`
+          : `${round(checkedAmps)} A exceeds the ${round(limitAmps!)} A limit`),
+        labels: [INTERCONNECTION_LABELS.multipleSources, ...labels]
+      };
+    };
+
+    switch (option.id) {
+      case 'supply_side': {
+        // Continuous output ratings against the service conductors, with a fused disconnect at 125%
+        const outputAmps = sources.reduce((sum, source) => sum + source.outputAmps, 0);
+        return result(input.serviceConductorAmpacity ?? mainBreaker, outputAmps, nextStandardOCPD(outputAmps * CONTINUOUS_FACTOR), []);
+      }
+      case 'load_side_100_percent':
+        return result(busRating - mainBreaker, sourceAmps, backfedBreakers, []);
+      case 'load_side_120_percent':
+        return input.centerFed
+          ? result(null, sourceAmps, backfedBreakers, [], 'Center-fed panelboard: the breaker cannot be at the opposite end from the main')
+          : result(busRating * busbarMultiplier - mainBreaker, sourceAmps, backfedBreakers, [INTERCONNECTION_LABELS.doNotRelocate]);
+      case 'load_side_sum_of_breakers':
+        return input.loadBreakerTotal === undefined
+          ? result(null, backfedBreakers, backfedBreakers, [], 'Needs the total rating of the load breakers')
+          : result(busRating - input.loadBreakerTotal, backfedBreakers, backfedBreakers, [INTERCONNECTION_LABELS.sumOfBreakers]);
+      case 'load_side_center_fed':
+        return input.centerFed
+          ? result(busRating * busbarMultiplier - mainBreaker, sourceAmps, backfedBreakers, [INTERCONNECTION_LABELS.doNotRelocate])
+          : result(null, sourceAmps, backfedBreakers, [], 'Only applies to center-fed dwelling panelboards');
+      case 'feeder_tap':
+        return input.feederAmpacity === undefined || input.feederOCPD === undefined
+          ? result(null, sourceAmps, backfedBreakers, [], 'Needs the feeder ampacity and feeder overcurrent device rating')
+          : result(input.feederAmpacity - input.feederOCPD, sourceAmps, backfedBreakers, []);
+      case 'power_control_system': {
+        // The PCS setting takes the place of the source current under the 120% rule
+        const allowedSetting = Math.max(0, busRating * busbarMultiplier - mainBreaker);
+        if (input.pcsControlledCurrent === undefined) {
+          return result(null, sourceAmps, backfedBreakers, [], `No PCS configured; a controlled current of ${round(allowedSetting)} A or less would comply`);
+        }
+        return result(
+          allowedSetting,
+          input.pcsControlledCurrent,
+          backfedBreakers,
+          [INTERCONNECTION_LABELS.powerControlSystem(input.pcsControlledCurrent)]
+        );
+      }
+    }
+  }
+}
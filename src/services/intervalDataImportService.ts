@@ -0,0 +1,379 @@
+/**
+ * Interval Data Import Service
+ *
+ * Builds NEC 220.87 existing-load data from utility meter exports:
+ * - Green Button (ESPI) XML interval blocks
+ * - Green Button CSV downloads and generic 15-minute interval CSV exports
+ * - Peak demand over the most recent 12 months, with the 125% multiplier
+ * - Data gaps, interval length and heating/cooling season coverage
+ */
+
+import { ErrorHandlingService } from './errorHandlingService';
+import { ErrorType } from '../types/error';
+import { DEFAULT_NEC_CODE_YEAR, getNECRulePack } from '../constants';
+import type { NECRulePack } from '../constants';
+import type {
+  ActualDemandData,
+  DemandProfilePoint,
+  IntervalDataGap,
+  IntervalDataQuality,
+  NECCodeYear
+} from '../types';
+
+export type IntervalDataFormat = 'green_button_xml' | 'green_button_csv' | 'interval_csv';
+
+export interface IntervalReading {
+  // Interval start, UTC milliseconds
+  start: number;
+  durationMinutes: number;
+  // Average demand over the interval
+  kW: number;
+}
+
+export interface IntervalImport {
+  format: IntervalDataFormat;
+  readings: IntervalReading[];
+}
+
+export interface MonthlyPeak {
+  month: string;
+  peakKW: number;
+}
+
+export interface IntervalDemandAnalysis {
+  codeYear: NECCodeYear;
+  peakKW: number;
+  peakTimestamp: string;
+  averageKW: number;
+  demandMultiplier: number;
+  // Peak at the 220.87 multiplier
+  demandKW: number;
+  monthlyPeaks: MonthlyPeak[];
+  profile: DemandProfilePoint[];
+  quality: IntervalDataQuality;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const YEAR_DAYS = 365;
+const DEFAULT_INTERVAL_MINUTES = 15;
+const COOLING_SEASON_MONTHS = [6, 7, 8];
+const HEATING_SEASON_MONTHS = [12, 1, 2];
+const MONTHS_REPORTED = 12;
+
+export const INTERVAL_FORMAT_LABELS: Record<IntervalDataFormat, string> = {
+  green_button_xml: 'Green Button XML',
+  green_button_csv: 'Green Button CSV',
+  interval_csv: 'Interval CSV'
+};
+
+// ESPI unit of measure codes
+const ESPI_UOM_WATT_HOURS = 72;
+const ESPI_UOM_WATTS = 38;
+
+const round = (value: number, places = 2): number => Math.round(value * 10 ** places) / 10 ** places;
+
+const isoDate = (ms: number): string => new Date(ms).toISOString().slice(0, 10);
+const isoMinute = (ms: number): string => new Date(ms).toISOString().slice(0, 16).replace('T', ' ');
+
+const importError = (message: string, userMessage: string, details?: unknown) =>
+  ErrorHandlingService.createError(ErrorType.FILE_PROCESSING, message, userMessage, details, 'IntervalDataImportService.parse');
+
+/**
+ * Timestamps are the meter's local clock time, held as UTC so months and days do not shift
+ * with the browser time zone. Accepts ISO dates and US month/day/year, with optional time and AM/PM.
+ */
+const parseTimestamp = (value: string): number | null => {
+  const text = value.trim().replace(/^"|"$/g, '');
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?)?/i);
+  let parts: number[];
+  if (iso) {
+    parts = [+iso[1], +iso[2], +iso[3], +(iso[4] ?? 0), +(iso[5] ?? 0), +(iso[6] ?? 0)];
+  } else if (us) {
+    const year = us[3].length === 2 ? 2000 + +us[3] : +us[3];
+    let hour = +(us[4] ?? 0);
+    if (us[7]) hour = (hour % 12) + (us[7].toUpperCase() === 'PM' ? 12 : 0);
+    parts = [year, +us[1], +us[2], hour, +(us[5] ?? 0), +(us[6] ?? 0)];
+  } else {
+    return null;
+  }
+  const [year, month, day, hour, minute, second] = parts;
+  return Date.UTC(year, month - 1, day, hour, minute, second);
+};
+
+const splitCSVLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const xmlBlocks = (xml: string, tag: string): string[] =>
+  Array.from(xml.matchAll(new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g')), match => match[1]);
+
+const xmlNumber = (xml: string, tag: string): number | null => {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>\\s*(-?[\\d.]+)\\s*</`));
+  return match ? Number(match[1]) : null;
+};
+
+export class IntervalDataImportService {
+
+  /**
+   * Parse a utility export, detecting Green Button XML or CSV from the content
+   */
+  static parse(content: string): IntervalImport {
+    const text = content.replace(/^\uFEFF/, '').trim();
+    if (!text) {
+      throw importError('Empty interval data file', 'The selected file is empty.');
+    }
+    const result = text.startsWith('<') ? this.parseGreenButtonXML(text) : this.parseCSV(text);
+    if (result.readings.length === 0) {
+      throw importError('No interval readings found', 'No interval readings were found in the file. Check that it is a Green Button or interval usage export.', { format: result.format });
+    }
+    return result;
+  }
+
+  /**
+   * ESPI IntervalReading entries; energy readings are converted to average kW over each interval.
+   * ESPI starts are UTC epoch seconds, shifted by the LocalTimeParameters offset to meter local
+   * standard time to match CSV exports
+   */
+  static parseGreenButtonXML(xml: string): IntervalImport {
+    const tzOffset = xmlNumber(xmlBlocks(xml, 'LocalTimeParameters')[0] ?? '', 'tzOffset') ?? 0;
+    const readingType = xmlBlocks(xml, 'ReadingType')[0] ?? '';
+    const uom = xmlNumber(readingType, 'uom') ?? ESPI_UOM_WATT_HOURS;
+    const multiplier = 10 ** (xmlNumber(readingType, 'powerOfTenMultiplier') ?? 0);
+    if (uom !== ESPI_UOM_WATT_HOURS && uom !== ESPI_UOM_WATTS) {
+      throw importError(`Unsupported ESPI unit of measure ${uom}`, 'The Green Button file does not contain electric usage in Wh or W.', { uom });
+    }
+
+    const readings = xmlBlocks(xml, 'IntervalReading').flatMap(block => {
+      const period = xmlBlocks(block, 'timePeriod')[0] ?? '';
+      const start = xmlNumber(period, 'start');
+      const duration = xmlNumber(period, 'duration');
+      const value = xmlNumber(block, 'value');
+      if (start === null || !duration || value === null) return [];
+      const watts = uom === ESPI_UOM_WATTS
+        ? value * multiplier
+        : (value * multiplier) / (duration / 3600);
+      return [{ start: (start + tzOffset) * 1000, durationMinutes: duration / 60, kW: watts / 1000 }];
+    });
+
+    return { format: 'green_button_xml', readings };
+  }
+
+  /**
+   * Green Button CSV (TYPE, DATE, START TIME, END TIME, USAGE, UNITS) or a generic
+   * interval export with a timestamp column and a kWh or kW column
+   */
+  static parseCSV(csv: string): IntervalImport {
+    const lines = csv.split(/\r?\n/).filter(line => line.trim() !== '');
+    const headerIndex = lines.findIndex(line => {
+      const cells = splitCSVLine(line).map(cell => cell.toLowerCase());
+      return cells.some(cell => /date|time|start/.test(cell)) && cells.some(cell => /usage|import|kwh|\bkw\b|demand|value/.test(cell));
+    });
+    if (headerIndex === -1) {
+      throw importError('No interval header row found', 'Could not find the date and usage columns in the CSV file.');
+    }
+
+    const header = splitCSVLine(lines[headerIndex]).map(cell => cell.toLowerCase());
+    const find = (pattern: RegExp) => header.findIndex(cell => pattern.test(cell));
+    const dateColumn = find(/^date$/);
+    const startColumn = dateColumn >= 0 ? find(/start time|^start$|^time$/) : find(/timestamp|datetime|start|date|time/);
+    const endColumn = find(/end time|^end$|interval end/);
+    const valueColumn = find(/usage|import|kwh|\bkw\b|demand|value/);
+    const unitsColumn = find(/^units?$/);
+    const format: IntervalDataFormat = header[0] === 'type' && dateColumn >= 0 ? 'green_button_csv' : 'interval_csv';
+
+    const unitFor = (cells: string[]): string =>
+      (unitsColumn >= 0 ? cells[unitsColumn] : header[valueColumn]).toLowerCase();
+
+    const rows = lines.slice(headerIndex + 1).flatMap(line => {
+      const cells = splitCSVLine(line);
+      const stamp = dateColumn >= 0 ? `${cells[dateColumn]} ${cells[startColumn] ?? ''}` : cells[startColumn];
+      const start = stamp ? parseTimestamp(stamp) : null;
+      const value = Number((cells[valueColumn] ?? '').replace(/[^\d.-]/g, ''));
+      if (start === null || cells[valueColumn] === undefined || cells[valueColumn] === '' || Number.isNaN(value)) return [];
+
+      let end: number | null = null;
+      if (endColumn >= 0 && cells[endColumn]) {
+        end = dateColumn >= 0 ? parseTimestamp(`${cells[dateColumn]} ${cells[endColumn]}`) : parseTimestamp(cells[endColumn]);
+      }
+      return [{ start, end, value, unit: unitFor(cells) }];
+    });
+
+    // Durations from the end column (Green Button ends are inclusive, e.g. 00:14), else the reading spacing
+    const starts = rows.map(row => row.start).sort((a, b) => a - b);
+    const spacing = starts.slice(1).map((start, index) => start - starts[index]).filter(delta => delta > 0);
+    const typicalMinutes = spacing.length > 0 ? this.mostCommon(spacing) / MINUTE_MS : DEFAULT_INTERVAL_MINUTES;
+
+    const readings = rows.map(row => {
+      const durationMinutes = row.end !== null && row.end > row.start
+        ? Math.round((row.end - row.start) / MINUTE_MS / typicalMinutes) * typicalMinutes || typicalMinutes
+        : typicalMinutes;
+      const isEnergy = /wh/.test(row.unit) || !/\bk?w\b|demand/.test(row.unit);
+      const scale = /kw/.test(row.unit) || !/\bw/.test(row.unit) ? 1 : 1 / 1000;
+      const kW = isEnergy ? (row.value * scale) / (durationMinutes / 60) : row.value * scale;
+      return { start: row.start, durationMinutes, kW };
+    });
+
+    return { format, readings };
+  }
+
+  /**
+   * Peak and average demand over the latest 12 months of readings, with data quality flags
+   */
+  static analyze(readings: IntervalReading[], codeYear: string = DEFAULT_NEC_CODE_YEAR): IntervalDemandAnalysis {
+    if (readings.length === 0) {
+      throw importError('No interval readings to analyze', 'No interval readings were found in the file.');
+    }
+    const rules = getNECRulePack(codeYear);
+    const sorted = this.dedupe(readings);
+
+    // Reduce rather than spread: a year of 1-minute data overflows the argument limit
+    const endMs = sorted.reduce((latest, reading) => Math.max(latest, reading.start + reading.durationMinutes * MINUTE_MS), 0);
+    const windowStart = Math.max(sorted[0].start, endMs - YEAR_DAYS * DAY_MS);
+    const window = sorted.filter(reading => reading.start >= windowStart);
+
+    const intervalMinutes = this.mostCommon(window.map(reading => reading.durationMinutes));
+    const peak = window.reduce((best, reading) => (reading.kW > best.kW ? reading : best), window[0]);
+    const recordedMs = window.reduce((sum, reading) => sum + reading.durationMinutes * MINUTE_MS, 0);
+    const energyKWh = window.reduce((sum, reading) => sum + reading.kW * (reading.durationMinutes / 60), 0);
+    const spanMs = endMs - windowStart;
+
+    const gaps: IntervalDataGap[] = [];
+    window.forEach((reading, index) => {
+      const next = window[index + 1];
+      const gapStart = reading.start + reading.durationMinutes * MINUTE_MS;
+      if (next && next.start - gapStart >= intervalMinutes * MINUTE_MS) {
+        gaps.push({ start: isoMinute(gapStart), end: isoMinute(next.start), hours: round((next.start - gapStart) / HOUR_MS) });
+      }
+    });
+
+    const monthlyPeaks = new Map<string, number>();
+    const daily = new Map<string, { peakKW: number; energyKWh: number; hours: number }>();
+    window.forEach(reading => {
+      const month = isoDate(reading.start).slice(0, 7);
+      monthlyPeaks.set(month, Math.max(monthlyPeaks.get(month) ?? 0, reading.kW));
+      const day = daily.get(isoDate(reading.start)) ?? { peakKW: 0, energyKWh: 0, hours: 0 };
+      day.peakKW = Math.max(day.peakKW, reading.kW);
+      day.energyKWh += reading.kW * (reading.durationMinutes / 60);
+      day.hours += reading.durationMinutes / 60;
+      daily.set(isoDate(reading.start), day);
+    });
+
+    const monthsCovered = Array.from(new Set(Array.from(monthlyPeaks.keys()).map(month => Number(month.slice(5, 7))))).sort((a, b) => a - b);
+    const days = round(spanMs / DAY_MS, 1);
+    const coveragePercent = round((recordedMs / spanMs) * 100, 1);
+    const quality: IntervalDataQuality = {
+      intervalMinutes,
+      startDate: isoDate(windowStart),
+      endDate: isoDate(endMs - 1),
+      days,
+      coveragePercent,
+      gaps,
+      monthsCovered,
+      coversCoolingSeason: COOLING_SEASON_MONTHS.some(month => monthsCovered.includes(month)),
+      coversHeatingSeason: HEATING_SEASON_MONTHS.some(month => monthsCovered.includes(month)),
+      warnings: []
+    };
+    quality.warnings = this.qualityWarnings(quality, rules.existingLoad);
+
+    return {
+      codeYear: rules.codeYear,
+      peakKW: round(peak.kW),
+      peakTimestamp: isoMinute(peak.start),
+      averageKW: round(energyKWh / (recordedMs / HOUR_MS)),
+      demandMultiplier: rules.existingLoad.demandMultiplier,
+      demandKW: round(peak.kW * rules.existingLoad.demandMultiplier),
+      monthlyPeaks: Array.from(monthlyPeaks.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([month, peakKW]) => ({ month, peakKW: round(peakKW) })),
+      profile: Array.from(daily.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, day]) => ({ date, peakKW: round(day.peakKW), averageKW: round(day.energyKWh / day.hours) })),
+      quality
+    };
+  }
+
+  /**
+   * Existing-load data for the calculator, with where the numbers came from
+   */
+  static toActualDemandData(analysis: IntervalDemandAnalysis, format: IntervalDataFormat, fileName?: string): ActualDemandData {
+    const { quality } = analysis;
+    const months = analysis.monthlyPeaks.slice(-MONTHS_REPORTED);
+    const monthly = Object.fromEntries(
+      Array.from({ length: MONTHS_REPORTED }, (_, index) => [`month${index + 1}`, months[index]?.peakKW ?? 0])
+    );
+
+    return {
+      enabled: true,
+      peakDemand: analysis.peakKW,
+      averageDemand: analysis.averageKW,
+      dataSource: fileName ? `${INTERVAL_FORMAT_LABELS[format]}: ${fileName}` : INTERVAL_FORMAT_LABELS[format],
+      measurementPeriod: `${quality.startDate} to ${quality.endDate} (${quality.days} days, ${quality.intervalMinutes}-min intervals)`,
+      ...monthly,
+      peakTimestamp: analysis.peakTimestamp,
+      loadProfile: analysis.profile,
+      dataQuality: quality
+    };
+  }
+
+  /**
+   * Parse, analyze and convert in one step
+   */
+  static importFile(content: string, fileName?: string, codeYear?: string): { analysis: IntervalDemandAnalysis; actualDemandData: ActualDemandData } {
+    const { format, readings } = this.parse(content);
+    const analysis = this.analyze(readings, codeYear);
+    return { analysis, actualDemandData: this.toActualDemandData(analysis, format, fileName) };
+  }
+
+  private static qualityWarnings(quality: IntervalDataQuality, existingLoad: NECRulePack['existingLoad']): string[] {
+    const { section, recordingMinimumDays, peakIntervalMinutes } = existingLoad;
+    const warnings: string[] = [];
+    if (quality.days < recordingMinimumDays) {
+      warnings.push(`Only ${quality.days} days of data; NEC ${section} needs 12 months of demand data or at least ${recordingMinimumDays} days of recording`);
+    } else if (quality.days < YEAR_DAYS - 1) {
+      warnings.push(`${quality.days} days of data: NEC ${section} recording option, not permitted with renewable energy or peak shaving`);
+    }
+    if (quality.intervalMinutes > peakIntervalMinutes) {
+      warnings.push(`${quality.intervalMinutes}-minute intervals understate the peak; NEC ${section} uses the highest ${peakIntervalMinutes}-minute average demand`);
+    }
+    if (quality.gaps.length > 0) {
+      const missingHours = round(quality.gaps.reduce((sum, gap) => sum + gap.hours, 0), 1);
+      warnings.push(`${quality.gaps.length} data gap${quality.gaps.length === 1 ? '' : 's'} totalling ${missingHours} hours (${quality.coveragePercent}% coverage)`);
+    }
+    if (!quality.coversCoolingSeason) {
+      warnings.push('No data from the cooling season (June to August); the peak may not include air conditioning');
+    }
+    if (!quality.coversHeatingSeason) {
+      warnings.push('No data from the heating season (December to February); the peak may not include electric heat');
+    }
+    return warnings;
+  }
+
+  private static dedupe(readings: IntervalReading[]): IntervalReading[] {
+    const byStart = new Map<number, IntervalReading>();
+    readings.forEach(reading => byStart.set(reading.start, reading));
+    return Array.from(byStart.values()).sort((a, b) => a.start - b.start);
+  }
+
+  private static mostCommon(values: number[]): number {
+    const counts = new Map<number, number>();
+    values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0] - b[0])[0][0];
+  }
+}
@@ -10,11 +10,22 @@
  */
 
 import jsPDF from 'jspdf';
+import { DXFWriter, hexToACI, sanitizeDXFName } from '../utils/dxfWriter';
+import type { DXFAttribute, DXFEntity, DXFPoint } from '../utils/dxfWriter';
+import { XLSXWriter, columnLetter } from '../utils/xlsxWriter';
+import type { XLSXCell, XLSXCellStyle, XLSXCellValue, XLSXSheet } from '../utils/xlsxWriter';
+import { SLDLayerService } from './sldLayerService';
+import type { LayerAssignment, LayerDefinition } from './sldLayerService';
+import type { CellStyle, ScheduleCell, ScheduleColumn, ScheduleData } from './automaticScheduleGenerator';
+
+export type PlanSheetSize =
+  | 'ansi_a' | 'ansi_b' | 'ansi_c' | 'ansi_d' | 'ansi_e'
+  | 'arch_a' | 'arch_b' | 'arch_c' | 'arch_d' | 'arch_e';
 
 export interface ExportOptions {
   format: 'pdf' | 'dwg' | 'svg' | 'png' | 'excel' | 'csv';
   scale: 'fit' | 'actual' | number; // Scale factor or fit mode
-  paperSize: 'letter' | 'a4' | 'a3' | 'a2' | 'a1' | 'a0' | 'custom';
+  paperSize: 'letter' | 'a4' | 'a3' | 'a2' | 'a1' | 'a0' | PlanSheetSize | 'custom';
   orientation: 'portrait' | 'landscape';
   quality: 'draft' | 'standard' | 'high' | 'print';
   includeElements: {
@@ -48,6 +59,12 @@ export interface ExportData {
   canvasSize: { width: number; height: number };
   viewBox: { x: number; y: number; width: number; height: number };
   gridSettings: GridSettings;
+  
+  // Layer organization (SLDLayerService.exportLayerConfiguration)
+  layerConfiguration?: {
+    layers: LayerDefinition[];
+    assignments: LayerAssignment[];
+  };
 }
 
 export interface SLDComponent {
@@ -100,11 +117,13 @@ export interface TitleBlockData {
   position: { x: number; y: number };
 }
 
-export interface ScheduleData {
-  type: 'panel' | 'load' | 'equipment' | 'wire';
-  title: string;
-  headers: string[];
-  rows: (string | number)[][];
+/**
+ * Where schedule tables go on a PDF sheet; startSheet adds and decorates each page
+ */
+export interface PDFScheduleLayout {
+  margin: number;
+  bottom: number;
+  startSheet: () => void;
 }
 
 export interface ExportResult {
@@ -121,6 +140,63 @@ export interface ExportResult {
   };
 }
 
+// Drawing standards in canvas units, shared by the DXF and SVG exports
+const DIMENSION_OFFSET = 15;
+const DIMENSION_ARROW_SIZE = 6;
+const TITLE_BLOCK = { width: 360, rowHeight: 30 };
+const TITLE_BLOCK_COLUMNS = 3;
+
+// DXF export drawing standards, in canvas units
+const DXF_FONT_SIZE = 12;
+const DXF_CAP_HEIGHT_RATIO = 0.7;
+const DXF_TEXT_HEIGHT = DXF_FONT_SIZE * DXF_CAP_HEIGHT_RATIO;
+const DXF_TITLE_BLOCK_LAYER = 'TITLE_BLOCK';
+const DXF_LINE_TYPES: Record<LayerDefinition['lineType'], string> = {
+  solid: 'CONTINUOUS',
+  dashed: 'DASHED',
+  dotted: 'DOT',
+  dashdot: 'DASHDOT'
+};
+const DXF_LINE_WEIGHTS = [0, 5, 9, 13, 15, 18, 20, 25, 30, 35, 40, 50, 53, 60, 70, 80, 90, 100, 106, 120, 140, 158, 200, 211];
+
+// Plan sheet sizes in mm, portrait
+export const PLAN_SHEET_SIZES: Record<PlanSheetSize, [number, number]> = {
+  ansi_a: [215.9, 279.4],
+  ansi_b: [279.4, 431.8],
+  ansi_c: [431.8, 558.8],
+  ansi_d: [558.8, 863.6],
+  ansi_e: [863.6, 1117.6],
+  arch_a: [228.6, 304.8],
+  arch_b: [304.8, 457.2],
+  arch_c: [457.2, 609.6],
+  arch_d: [609.6, 914.4],
+  arch_e: [914.4, 1219.2]
+};
+
+// PDF sheet layout in mm; text never drops below 3/32" lettering when scaled down
+const PDF_MARGIN = 10;
+const PDF_TITLE_BLOCK = { width: 170, headerHeight: 12, rowHeight: 9 };
+const PDF_SCHEDULE = { rowHeight: 6, fontSize: 8, titleFontSize: 14, headerFill: '#e5e7eb', totalFill: '#f3f4f6' };
+const PDF_MIN_FONT_SIZE = 6.75;
+const PDF_MIN_GRID_SPACING = 2;
+const PDF_LINE_WEIGHT_PER_PX = 0.25;
+const MM_PER_POINT = 25.4 / 72;
+
+// Highlighted schedule rows, in both the workbook and the PDF
+const SCHEDULE_HIGHLIGHT_COLOR = '#fef3c7';
+
+// Workbook styling; schedule column widths are percentages of this many characters
+const XLSX_SCHEDULE_WIDTH = 140;
+const XLSX_MAX_COLUMN_WIDTH = 60;
+const XLSX_TITLE_STYLE: XLSXCellStyle = { bold: true, fontSize: 14 };
+const XLSX_HEADER_STYLE: XLSXCellStyle = { bold: true, backgroundColor: '#e5e7eb', border: true, align: 'center' };
+const XLSX_TOTAL_STYLE: XLSXCellStyle = { bold: true, backgroundColor: '#f3f4f6', border: true };
+const XLSX_CALCULATION_UNITS: Record<string, string> = {
+  totalLoad: 'VA',
+  serviceSize: 'A',
+  voltage: 'V'
+};
+
 export class MultiFormatExportService {
   
   /**
@@ -157,27 +233,70 @@ export class MultiFormatExportService {
    * Export to PDF with vector graphics
    */
   private static async exportToPDF(data: ExportData, options: ExportOptions): Promise<ExportResult> {
-    const { paperSize, orientation, scale } = options;
+    const { orientation } = options;
     
     // Create PDF with specified paper size
     const pdf = new jsPDF({
       orientation,
       unit: 'mm',
-      format: paperSize === 'custom' && options.customSize 
-        ? [options.customSize.width, options.customSize.height]
-        : paperSize
+      format: this.getPDFFormat(options)
     });
     
     const pageWidth = pdf.internal.pageSize.getWidth();
     const pageHeight = pdf.internal.pageSize.getHeight();
-    const margin = 10;
+    const margin = PDF_MARGIN;
+    const includeTitleBlock = options.includeElements.titleBlock && !!data.titleBlock;
+    
+    // The title block strip along the bottom of the sheet is kept clear of the drawing
+    const titleBlockHeight = includeTitleBlock && data.titleBlock
+      ? this.getPDFTitleBlockHeight(data.titleBlock, data.projectInfo) + margin / 2
+      : 0;
     const drawingArea = {
       width: pageWidth - (2 * margin),
-      height: pageHeight - (2 * margin)
+      height: pageHeight - (2 * margin) - titleBlockHeight
     };
     
-    // Calculate scaling
-    const scaleFactors = this.calculateScaling(data.canvasSize, drawingArea, scale);
+    this.drawDiagramToPDF(pdf, data, options, margin, drawingArea);
+    
+    // Draw title block
+    if (includeTitleBlock && data.titleBlock) {
+      this.drawTitleBlockToPDF(pdf, data.titleBlock, data.projectInfo, pageWidth, pageHeight);
+    }
+    
+    // Add schedules if enabled
+    if (options.includeElements.schedules && data.schedules.length > 0) {
+      this.addSchedulesToPDF(pdf, data.schedules, data.projectInfo, includeTitleBlock ? data.titleBlock : undefined);
+    }
+    
+    const pdfBlob = pdf.output('blob');
+    const filename = this.generateFilename(data.projectInfo.projectName, 'pdf');
+    
+    return {
+      success: true,
+      data: pdfBlob,
+      filename,
+      size: pdfBlob.size,
+      metadata: {
+        format: 'pdf',
+        dimensions: { width: pageWidth, height: pageHeight },
+        fileSize: pdfBlob.size,
+        createdAt: new Date()
+      }
+    };
+  }
+  
+  /**
+   * Draw the diagram into the current page, scaled to the drawing area whose
+   * top-left corner sits at the sheet margin
+   */
+  static drawDiagramToPDF(
+    pdf: jsPDF,
+    data: ExportData,
+    options: Pick<ExportOptions, 'scale' | 'includeElements'>,
+    margin: number,
+    drawingArea: { width: number; height: number }
+  ): void {
+    const scaleFactors = this.calculateScaling(data.canvasSize, drawingArea, options.scale);
     
     // Draw grid if enabled
     if (options.includeElements.grid) {
@@ -209,32 +328,6 @@ export class MultiFormatExportService {
         this.drawAnnotationToPDF(pdf, annotation, margin, scaleFactors);
       });
     }
-    
-    // Draw title block
-    if (options.includeElements.titleBlock && data.titleBlock) {
-      this.drawTitleBlockToPDF(pdf, data.titleBlock, pageWidth, pageHeight);
-    }
-    
-    // Add schedules if enabled
-    if (options.includeElements.schedules && data.schedules.length > 0) {
-      this.addSchedulesToPDF(pdf, data.schedules);
-    }
-    
-    const pdfBlob = pdf.output('blob');
-    const filename = this.generateFilename(data.projectInfo.projectName, 'pdf');
-    
-    return {
-      success: true,
-      data: pdfBlob,
-      filename,
-      size: pdfBlob.size,
-      metadata: {
-        format: 'pdf',
-        dimensions: { width: pageWidth, height: pageHeight },
-        fileSize: pdfBlob.size,
-        createdAt: new Date()
-      }
-    };
   }
   
   /**
@@ -244,14 +337,16 @@ export class MultiFormatExportService {
     const { scale } = options;
     const canvasSize = data.canvasSize;
     
-    // Calculate scaled dimensions
+    // Calculate scaled dimensions; plan sheet sizes print at their physical size in mm
     const scaleFactor = typeof scale === 'number' ? scale : 1;
-    const svgWidth = canvasSize.width * scaleFactor;
-    const svgHeight = canvasSize.height * scaleFactor;
+    const sheet = this.getPlanSheetSize(options);
+    const svgWidth = sheet ? sheet.width : canvasSize.width * scaleFactor;
+    const svgHeight = sheet ? sheet.height : canvasSize.height * scaleFactor;
+    const units = sheet ? 'mm' : '';
     
     // Create SVG content
     let svgContent = `<?xml version="1.0" encoding="UTF-8"?>
-<svg width="${svgWidth}" height="${svgHeight}" viewBox="0 0 ${canvasSize.width} ${canvasSize.height}" 
+<svg width="${svgWidth}${units}" height="${svgHeight}${units}" viewBox="0 0 ${canvasSize.width} ${canvasSize.height}" 
      xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
   <defs>
     <style>
@@ -260,6 +355,7 @@ export class MultiFormatExportService {
       .measurement { stroke: #2563eb; stroke-width: 1; fill: none; }
       .text { font-family: Arial, sans-serif; font-size: 12px; fill: #111827; }
       .grid { stroke: #e5e7eb; stroke-width: 0.5; opacity: 0.5; }
+      .title-block { fill: #ffffff; stroke: #111827; stroke-width: 1; }
     </style>
   </defs>`;
     
@@ -294,6 +390,10 @@ export class MultiFormatExportService {
       });
     }
     
+    if (options.includeElements.titleBlock && data.titleBlock) {
+      svgContent += this.generateTitleBlockSVG(data.titleBlock, data.projectInfo);
+    }
+    
     svgContent += '</svg>';
     
     const blob = new Blob([svgContent], { type: 'image/svg+xml' });
@@ -398,31 +498,52 @@ export class MultiFormatExportService {
   }
   
   /**
-   * Export to DWG format (simplified implementation)
+   * Export to DXF (R2000) for CAD systems. SLD layers become DXF layers,
+   * components become block inserts carrying their properties as attributes,
+   * and wires become LWPOLYLINE routes. DXF Y runs up, so the canvas is flipped.
    */
   private static async exportToDWG(data: ExportData, options: ExportOptions): Promise<ExportResult> {
-    // Note: Full DWG export would require a specialized library like dxf-writer
-    // This is a simplified implementation that creates a DXF file (ASCII format)
-    
-    let dxfContent = this.generateDXFHeader();
+    const writer = new DXFWriter();
+    const layerService = new SLDLayerService();
+    if (data.layerConfiguration) {
+      layerService.importLayerConfiguration(data.layerConfiguration);
+    }
     
-    // Add entities section
-    dxfContent += '0\\nSECTION\\n2\\nENTITIES\\n';
+    this.addDXFLayers(writer, layerService);
     
-    // Add components as blocks
+    // Add components as block inserts
     data.components.forEach(component => {
-      dxfContent += this.generateComponentDXF(component);
+      this.generateComponentDXF(writer, component, data, layerService);
     });
     
     // Add wires as polylines
     if (options.includeElements.wireRouting) {
       data.wires.forEach(wire => {
-        dxfContent += this.generateWireDXF(wire);
+        this.generateWireDXF(writer, wire, data, layerService);
+      });
+    }
+    
+    if (options.includeElements.grid && data.gridSettings.size > 0) {
+      this.generateGridDXF(writer, data);
+    }
+    
+    if (options.includeElements.measurements) {
+      data.measurements.forEach(measurement => {
+        this.generateMeasurementDXF(writer, measurement, data);
+      });
+    }
+    
+    if (options.includeElements.annotations) {
+      data.annotations.forEach(annotation => {
+        this.generateAnnotationDXF(writer, annotation, data);
       });
     }
     
-    dxfContent += '0\\nENDSEC\\n0\\nEOF\\n';
+    if (options.includeElements.titleBlock && data.titleBlock) {
+      this.generateTitleBlockDXF(writer, data.titleBlock, data);
+    }
     
+    const dxfContent = writer.toString();
     const blob = new Blob([dxfContent], { type: 'application/dxf' });
     const filename = this.generateFilename(data.projectInfo.projectName, 'dxf');
     
@@ -441,29 +562,32 @@ export class MultiFormatExportService {
   }
   
   /**
-   * Export to Excel format
+   * Export to an Excel workbook: a component list, the load calculation and one
+   * sheet per schedule, with formulas so estimators can keep working the numbers
    */
   private static async exportToExcel(data: ExportData, options: ExportOptions): Promise<ExportResult> {
-    // Create workbook data structure
-    const workbook = {
-      SheetNames: ['Components', 'Calculations', 'Schedules'],
-      Sheets: {
-        Components: this.generateComponentsSheet(data.components),
-        Calculations: this.generateCalculationsSheet(data.calculations),
-        Schedules: this.generateSchedulesSheet(data.schedules)
-      }
-    };
+    const writer = new XLSXWriter();
+    writer.addSheet(this.generateComponentsSheet(data.components));
+    writer.addSheet(this.generateCalculationsSheet(data.calculations));
     
-    // Convert to Excel format (would use SheetJS in production)
-    const csvData = this.convertWorkbookToCSV(workbook);
-    const blob = new Blob([csvData], { type: 'text/csv' });
-    const filename = this.generateFilename(data.projectInfo.projectName, 'csv');
+    if (options.includeElements.schedules) {
+      data.schedules.forEach(schedule => writer.addSheet(this.generateScheduleSheet(schedule)));
+    }
+    
+    const blob = writer.toBlob();
+    const filename = this.generateFilename(data.projectInfo.projectName, 'xlsx');
     
     return {
       success: true,
       data: blob,
       filename,
-      size: blob.size
+      size: blob.size,
+      metadata: {
+        format: 'xlsx',
+        dimensions: data.canvasSize,
+        fileSize: blob.size,
+        createdAt: new Date()
+      }
     };
   }
   
@@ -582,36 +706,579 @@ export class MultiFormatExportService {
     return `<path id="${wire.id}" d="${pathData}" class="wire"/>`;
   }
   
-  private static generateDXFHeader(): string {
-    return `0
-SECTION
-2
-HEADER
-9
-$ACADVER
-1
-AC1021
-0
-ENDSEC
-`;
-  }
-  
-  private static generateComponentDXF(component: SLDComponent): string {
-    return `0
-INSERT
-8
-COMPONENTS
-2
-${component.type.toUpperCase()}
-10
-${component.position.x}
-20
-${component.position.y}
-30
-0.0
-`;
+  /**
+   * DXF generation helpers
+   */
+  
+  private static addDXFLayers(writer: DXFWriter, layerService: SLDLayerService): void {
+    writer.addLineType({ name: 'DASHED', description: 'Dashed __ __ __', pattern: [12, -6] });
+    writer.addLineType({ name: 'DOT', description: 'Dot . . . .', pattern: [0, -4] });
+    writer.addLineType({ name: 'DASHDOT', description: 'Dash dot __ . __ .', pattern: [12, -4, 0, -4] });
+    
+    layerService.getAllLayers().forEach(layer => {
+      writer.addLayer({
+        name: this.getDXFLayerName(layer.id),
+        color: hexToACI(layer.color),
+        lineType: DXF_LINE_TYPES[layer.lineType],
+        lineWeight: this.getDXFLineWeight(layer.strokeWidth),
+        off: !layer.visible,
+        locked: layer.locked,
+        plot: layer.printable
+      });
+    });
+    
+    writer.addLayer({ name: DXF_TITLE_BLOCK_LAYER, color: 7, lineType: 'CONTINUOUS', lineWeight: 50 });
+  }
+  
+  private static getDXFLayerName(layerId: string): string {
+    return sanitizeDXFName(layerId);
+  }
+  
+  /**
+   * Stroke width in pixels to the nearest standard lineweight (hundredths of a mm)
+   */
+  private static getDXFLineWeight(strokeWidth: number): number {
+    const millimetres = strokeWidth * 0.25;
+    return DXF_LINE_WEIGHTS.reduce((best, weight) =>
+      Math.abs(weight - millimetres * 100) < Math.abs(best - millimetres * 100) ? weight : best
+    );
+  }
+  
+  private static toDXFPoint(point: { x: number; y: number }, data: ExportData): DXFPoint {
+    return { x: point.x, y: data.canvasSize.height - point.y };
+  }
+  
+  /**
+   * Components of the same symbol share a block; the block is drawn at the first
+   * instance's size and later instances are scaled to their own size.
+   */
+  private static generateComponentDXF(
+    writer: DXFWriter,
+    component: SLDComponent,
+    data: ExportData,
+    layerService: SLDLayerService
+  ): void {
+    const blockName = sanitizeDXFName(`SLD_${component.symbol || component.type}`);
+    const layerId = layerService.getComponentLayer(component.id)?.id
+      ?? layerService.autoAssignComponent(component.id, component.type);
+    const layerName = this.getDXFLayerName(layerId);
+    const siblings = data.components.filter(candidate =>
+      sanitizeDXFName(`SLD_${candidate.symbol || candidate.type}`) === blockName
+    );
+    const blockSize = siblings[0].size;
+    const insertion = this.toDXFPoint(component.position, data);
+    const attributes = this.getComponentAttributes(component, siblings, data);
+    
+    if (!writer.hasBlock(blockName)) {
+      writer.addBlock({
+        name: blockName,
+        basePoint: { x: 0, y: 0 },
+        entities: [
+          {
+            type: 'lwpolyline',
+            layer: '0',
+            closed: true,
+            points: [
+              { x: 0, y: 0 },
+              { x: blockSize.width, y: 0 },
+              { x: blockSize.width, y: -blockSize.height },
+              { x: 0, y: -blockSize.height }
+            ]
+          },
+          ...attributes.map((attribute): DXFEntity => ({
+            type: 'attdef',
+            layer: '0',
+            attribute: {
+              ...attribute,
+              value: '',
+              position: {
+                x: attribute.position.x - insertion.x,
+                y: attribute.position.y - insertion.y
+              }
+            }
+          }))
+        ]
+      });
+    }
+    
+    writer.addEntity({
+      type: 'insert',
+      layer: layerName,
+      block: blockName,
+      position: insertion,
+      scale: {
+        x: blockSize.width > 0 ? component.size.width / blockSize.width : 1,
+        y: blockSize.height > 0 ? component.size.height / blockSize.height : 1
+      },
+      attributes
+    });
+  }
+  
+  /**
+   * The component name is shown under the symbol; its id, type and properties
+   * travel as invisible attributes so they survive into CAD schedules.
+   */
+  private static getComponentAttributes(
+    component: SLDComponent,
+    siblings: SLDComponent[],
+    data: ExportData
+  ): DXFAttribute[] {
+    const propertyKeys = Array.from(new Set(siblings.flatMap(sibling =>
+      Object.entries(sibling.properties || {})
+        .filter(([, value]) => ['string', 'number', 'boolean'].includes(typeof value))
+        .map(([key]) => key)
+    )));
+    const values: [string, string, boolean][] = [
+      ['NAME', component.name, false],
+      ['ID', component.id, true],
+      ['TYPE', component.type, true],
+      ...propertyKeys.map((key): [string, string, boolean] => [key, String(component.properties?.[key] ?? ''), true])
+    ];
+    
+    // Attribute text stacks below the symbol, in drawing coordinates
+    const insertion = this.toDXFPoint(component.position, data);
+    return values.map(([tag, value, invisible], index) => ({
+      tag: sanitizeDXFName(tag),
+      prompt: tag,
+      value,
+      invisible,
+      height: DXF_TEXT_HEIGHT,
+      position: {
+        x: insertion.x,
+        y: insertion.y - component.size.height - DXF_TEXT_HEIGHT * 1.5 * (index + 1)
+      }
+    }));
   }
   
+  private static generateWireDXF(
+    writer: DXFWriter,
+    wire: SLDWire,
+    data: ExportData,
+    layerService: SLDLayerService
+  ): void {
+    if (wire.path.length < 2) return;
+    
+    const layer = layerService.getComponentLayer(wire.id)
+      ?? layerService.getComponentLayer(wire.startComponent)
+      ?? layerService.getActiveLayer();
+    const layerName = layer ? this.getDXFLayerName(layer.id) : '0';
+    const points = wire.path.map(point => this.toDXFPoint(point, data));
+    
+    writer.addEntity({
+      type: 'lwpolyline',
+      layer: layerName,
+      lineType: wire.style?.style && wire.style.style !== 'solid'
+        ? DXF_LINE_TYPES[wire.style.style === 'dashed' ? 'dashed' : 'dotted']
+        : undefined,
+      points
+    });
+    
+    if (wire.label) {
+      // Label the middle segment, just above the line
+      const segment = Math.floor((points.length - 1) / 2);
+      const start = points[segment];
+      const end = points[segment + 1];
+      const angle = Math.atan2(end.y - start.y, end.x - start.x) * 180 / Math.PI;
+      writer.addEntity({
+        type: 'text',
+        layer: layerName,
+        position: { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 + DXF_TEXT_HEIGHT / 2 },
+        height: DXF_TEXT_HEIGHT,
+        text: wire.label,
+        rotation: angle > 90 || angle < -90 ? angle + 180 : angle,
+        align: 'center'
+      });
+    }
+  }
+  
+  private static generateGridDXF(writer: DXFWriter, data: ExportData): void {
+    const { width, height } = data.canvasSize;
+    const spacing = data.gridSettings.size;
+    const layer = this.getDXFLayerName('construction_grid');
+    
+    for (let x = 0; x <= width; x += spacing) {
+      writer.addEntity({ type: 'line', layer, start: { x, y: 0 }, end: { x, y: height } });
+    }
+    for (let y = 0; y <= height; y += spacing) {
+      writer.addEntity({ type: 'line', layer, start: { x: 0, y }, end: { x: width, y } });
+    }
+  }
+  
+  /**
+   * Linear measurements become aligned DIMENSION entities; other measurement
+   * types are placed as text at their centroid.
+   */
+  private static generateMeasurementDXF(writer: DXFWriter, measurement: SLDMeasurement, data: ExportData): void {
+    if (measurement.points.length === 0) return;
+    const points = measurement.points.map(point => this.toDXFPoint(point, data));
+    
+    if (measurement.type === 'linear' && points.length >= 2) {
+      writer.addEntity({
+        type: 'dimension',
+        layer: this.getDXFLayerName('dimension_linear'),
+        start: points[0],
+        end: points[points.length - 1],
+        offset: DIMENSION_OFFSET,
+        text: measurement.displayValue,
+        textHeight: DXF_TEXT_HEIGHT
+      });
+      return;
+    }
+    
+    writer.addEntity({
+      type: 'text',
+      layer: this.getDXFLayerName(measurement.type === 'angular' ? 'dimension_angular' : 'dimension_linear'),
+      position: {
+        x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+        y: points.reduce((sum, point) => sum + point.y, 0) / points.length
+      },
+      height: DXF_TEXT_HEIGHT,
+      text: measurement.displayValue,
+      align: 'center'
+    });
+  }
+  
+  private static generateAnnotationDXF(writer: DXFWriter, annotation: SLDAnnotation, data: ExportData): void {
+    const layer = this.getDXFLayerName(annotation.type === 'dimension' ? 'dimension_linear' : 'annotation_text');
+    const height = (annotation.style?.fontSize || DXF_FONT_SIZE) * DXF_CAP_HEIGHT_RATIO;
+    const origin = this.toDXFPoint(annotation.position, data);
+    
+    // TEXT is single line; multi-line annotations are stacked
+    annotation.content.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+      writer.addEntity({
+        type: 'text',
+        layer,
+        position: { x: origin.x, y: origin.y - height * 1.5 * index },
+        height,
+        text: line
+      });
+    });
+  }
+  
+  /**
+   * Title block border and fields, anchored at the title block's top-left corner
+   */
+  private static generateTitleBlockDXF(writer: DXFWriter, titleBlock: TitleBlockData, data: ExportData): void {
+    const layer = DXF_TITLE_BLOCK_LAYER;
+    const { width, rowHeight } = TITLE_BLOCK;
+    const origin = this.toDXFPoint(titleBlock.position, data);
+    const fields = this.getTitleBlockFields(titleBlock, data.projectInfo);
+    const columns = TITLE_BLOCK_COLUMNS;
+    const rows = 1 + Math.ceil(fields.length / columns);
+    const height = rows * rowHeight;
+    const cellWidth = width / columns;
+    const labelHeight = DXF_TEXT_HEIGHT * 0.6;
+    
+    writer.addEntity({
+      type: 'lwpolyline',
+      layer,
+      closed: true,
+      points: [
+        origin,
+        { x: origin.x + width, y: origin.y },
+        { x: origin.x + width, y: origin.y - height },
+        { x: origin.x, y: origin.y - height }
+      ]
+    });
+    
+    for (let row = 1; row < rows; row++) {
+      const y = origin.y - row * rowHeight;
+      writer.addEntity({ type: 'line', layer, start: { x: origin.x, y }, end: { x: origin.x + width, y } });
+    }
+    for (let column = 1; column < columns; column++) {
+      const x = origin.x + column * cellWidth;
+      writer.addEntity({ type: 'line', layer, start: { x, y: origin.y - rowHeight }, end: { x, y: origin.y - height } });
+    }
+    
+    writer.addEntity({
+      type: 'text',
+      layer,
+      position: { x: origin.x + DXF_TEXT_HEIGHT, y: origin.y - rowHeight * 0.45 },
+      height: DXF_TEXT_HEIGHT * 1.5,
+      text: titleBlock.projectName || data.projectInfo.projectName
+    });
+    if (data.projectInfo.propertyAddress) {
+      writer.addEntity({
+        type: 'text',
+        layer,
+        position: { x: origin.x + DXF_TEXT_HEIGHT, y: origin.y - rowHeight * 0.85 },
+        height: labelHeight,
+        text: data.projectInfo.propertyAddress
+      });
+    }
+    
+    fields.forEach(([label, value], index) => {
+      const x = origin.x + (index % columns) * cellWidth + labelHeight;
+      const top = origin.y - (1 + Math.floor(index / columns)) * rowHeight;
+      writer.addEntity({ type: 'text', layer, position: { x, y: top - labelHeight * 1.5 }, height: labelHeight, text: label });
+      if (value) {
+        writer.addEntity({ type: 'text', layer, position: { x, y: top - rowHeight + labelHeight }, height: DXF_TEXT_HEIGHT, text: value });
+      }
+    });
+  }
+  
+  private static generateComponentsSheet(components: SLDComponent[]): XLSXSheet {
+    const propertyKeys = Array.from(new Set(components.flatMap(component =>
+      Object.entries(component.properties || {})
+        .filter(([, value]) => ['string', 'number', 'boolean'].includes(typeof value))
+        .map(([key]) => key)
+    )));
+    const header = ['ID', 'Name', 'Type', 'X', 'Y', 'Width', 'Height', ...propertyKeys.map(key => this.humanizeKey(key))];
+    const rows = components.map(component => [
+      component.id,
+      component.name,
+      component.type,
+      component.position.x,
+      component.position.y,
+      component.size.width,
+      component.size.height,
+      ...propertyKeys.map(key => {
+        const value = component.properties?.[key];
+        return ['string', 'number', 'boolean'].includes(typeof value) ? value as string | number | boolean : null;
+      })
+    ]);
+
+    return {
+      name: 'Components',
+      frozenRows: 1,
+      columnWidths: this.getColumnWidths([header, ...rows]),
+      rows: [
+        header.map(value => ({ value, style: XLSX_HEADER_STYLE })),
+        ...rows,
+        [
+          { value: 'Total components', style: XLSX_TOTAL_STYLE },
+          {
+            value: { formula: `COUNTA(A2:A${rows.length + 1})`, result: rows.length },
+            style: XLSX_TOTAL_STYLE
+          }
+        ]
+      ]
+    };
+  }
+
+  /**
+   * Calculation results as item/value rows. Load current and service utilization are
+   * formulas on the value cells, so changing the load or service size in Excel flows through.
+   */
+  private static generateCalculationsSheet(calculations: CalculationResults): XLSXSheet {
+    const rows: (XLSXCell | string | number)[][] = [
+      ['Item', 'Value', 'Units'].map(value => ({ value, style: XLSX_HEADER_STYLE }))
+    ];
+    const rowOf: Record<string, number> = {};
+
+    this.flattenCalculations(calculations).forEach(([path, value]) => {
+      rowOf[path] = rows.length + 1;
+      rows.push([
+        path.split('.').map(key => this.humanizeKey(key)).join(' › '),
+        typeof value === 'number'
+          ? { value, style: { numberFormat: Number.isInteger(value) ? '#,##0' : '#,##0.00' } }
+          : String(value),
+        XLSX_CALCULATION_UNITS[path] ?? ''
+      ]);
+    });
+
+    const { totalLoad, serviceSize } = calculations;
+    if (typeof totalLoad === 'number' && typeof serviceSize === 'number' && serviceSize > 0) {
+      const voltage = typeof calculations.voltage === 'number' && calculations.voltage > 0 ? calculations.voltage : 240;
+      const current = totalLoad / voltage;
+      const voltageReference = rowOf.voltage ? `B${rowOf.voltage}` : String(voltage);
+      const currentRow = rows.length + 1;
+
+      rows.push(
+        [
+          { value: 'Calculated Load Current', style: { bold: true } },
+          { value: { formula: `B${rowOf.totalLoad}/${voltageReference}`, result: current }, style: { bold: true, numberFormat: '#,##0.0' } },
+          'A'
+        ],
+        [
+          { value: 'Service Capacity Used', style: { bold: true } },
+          { value: { formula: `B${currentRow}/B${rowOf.serviceSize}`, result: current / serviceSize }, style: { bold: true, numberFormat: '0.0%' } },
+          ''
+        ],
+        [
+          { value: 'Remaining Capacity', style: { bold: true } },
+          { value: { formula: `B${rowOf.serviceSize}-B${currentRow}`, result: serviceSize - current }, style: { bold: true, numberFormat: '#,##0.0' } },
+          'A'
+        ]
+      );
+    }
+
+    return {
+      name: 'Calculations',
+      frozenRows: 1,
+      columnWidths: this.getColumnWidths(rows),
+      rows
+    };
+  }
+
+  /**
+   * Scalar calculation results keyed by dotted path; nested objects and arrays are
+   * expanded so every number gets its own cell
+   */
+  private static flattenCalculations(value: unknown, path = '', depth = 0): [string, string | number | boolean][] {
+    if (value === null || value === undefined) return [];
+    if (['string', 'number', 'boolean'].includes(typeof value)) {
+      return path ? [[path, value as string | number | boolean]] : [];
+    }
+    if (value instanceof Date) return path ? [[path, value.toISOString().slice(0, 10)]] : [];
+    if (depth >= 3 || typeof value !== 'object') return [];
+
+    if (Array.isArray(value)) {
+      if (value.every(item => ['string', 'number'].includes(typeof item))) {
+        return path && value.length ? [[path, value.join(', ')]] : [];
+      }
+      return value.flatMap((item, index) => this.flattenCalculations(item, `${path}.${index + 1}`, depth + 1));
+    }
+
+    return Object.entries(value as Record<string, unknown>).flatMap(([key, child]) =>
+      this.flattenCalculations(child, path ? `${path}.${key}` : key, depth + 1)
+    );
+  }
+
+  /**
+   * One schedule per sheet: title block, column headers, styled rows, a totals row
+   * with SUM formulas, then notes and NEC references
+   */
+  private static generateScheduleSheet(schedule: ScheduleData): XLSXSheet {
+    const columns = schedule.headers;
+    const lastColumn = columnLetter(Math.max(columns.length - 1, 0));
+    const rows: (XLSXCell | string)[][] = [[{ value: schedule.title, style: XLSX_TITLE_STYLE }]];
+    const merges = [`A1:${lastColumn}1`];
+
+    if (schedule.subtitle) {
+      rows.push([{ value: schedule.subtitle, style: { italic: true } }]);
+      merges.push(`A${rows.length}:${lastColumn}${rows.length}`);
+    }
+    const project = [schedule.projectInfo.name, schedule.projectInfo.number].filter(Boolean).join(' - ');
+    rows.push([`Project: ${project}`]);
+    rows.push([`Updated: ${new Date(schedule.lastUpdated).toISOString().slice(0, 10)}`]);
+    rows.push([]);
+
+    const headerRow = rows.length;
+    rows.push(columns.map(column => ({ value: column.header, style: XLSX_HEADER_STYLE })));
+
+    const firstDataRow = rows.length + 1;
+    schedule.rows.forEach(row => {
+      rows.push(columns.map((column, index) => this.toScheduleCell(row.cells[index], column, !!row.highlighted)));
+    });
+    const lastDataRow = rows.length;
+
+    const totals = schedule.totals ?? {};
+    if (Object.keys(totals).length > 0) {
+      const labelColumn = columns.findIndex(column => !totals[column.id]);
+      rows.push(columns.map((column, index) => {
+        const total = totals[column.id];
+        if (!total) {
+          return { value: index === labelColumn ? 'TOTAL' : null, style: XLSX_TOTAL_STYLE };
+        }
+
+        // Totals that are a plain column sum stay live; demand-adjusted totals are values
+        const columnSum = schedule.rows.reduce((sum, row) => {
+          const value = row.cells[index]?.value;
+          return sum + (typeof value === 'number' ? value : 0);
+        }, 0);
+        const isColumnSum = schedule.rows.length > 0 &&
+          Math.abs(columnSum - total.value) <= 1e-6 * Math.max(1, Math.abs(total.value));
+        const letter = columnLetter(index);
+
+        return {
+          value: isColumnSum
+            ? { formula: `SUM(${letter}${firstDataRow}:${letter}${lastDataRow})`, result: total.value }
+            : total.value,
+          style: { ...XLSX_TOTAL_STYLE, align: column.align, numberFormat: this.getExcelNumberFormat(column) }
+        };
+      }));
+    }
+
+    if (schedule.notes?.length) {
+      rows.push([], [{ value: 'NOTES', style: { bold: true } }]);
+      schedule.notes.forEach((note, index) => rows.push([`${index + 1}. ${note}`]));
+    }
+    if (schedule.necReferences?.length) {
+      rows.push([], [{ value: `NEC References: ${schedule.necReferences.join(', ')}`, style: { italic: true } }]);
+    }
+
+    return {
+      name: schedule.title,
+      frozenRows: headerRow + 1,
+      columnWidths: columns.map(column =>
+        Math.min(XLSX_MAX_COLUMN_WIDTH, Math.max(column.header.length + 2, column.width * XLSX_SCHEDULE_WIDTH / 100))
+      ),
+      merges,
+      rows
+    };
+  }
+
+  private static toScheduleCell(cell: ScheduleCell | undefined, column: ScheduleColumn, highlighted: boolean): XLSXCell {
+    const value = cell?.value ?? null;
+    const numeric = typeof value === 'number';
+
+    return {
+      value,
+      style: {
+        ...this.toXLSXStyle(cell?.style),
+        backgroundColor: cell?.style?.backgroundColor ?? (highlighted ? SCHEDULE_HIGHLIGHT_COLOR : undefined),
+        border: true,
+        align: column.align,
+        numberFormat: numeric ? this.getExcelNumberFormat(column) : undefined
+      }
+    };
+  }
+
+  private static toXLSXStyle(style?: CellStyle): XLSXCellStyle {
+    if (!style) return {};
+    return {
+      bold: style.fontWeight === 'bold' || undefined,
+      fontSize: style.fontSize,
+      textColor: style.textColor,
+      backgroundColor: style.backgroundColor
+    };
+  }
+
+  /**
+   * Schedule column formats use numeral-style codes ('0,0', '0.0'); percentage
+   * columns already hold percent values, so the sign is appended rather than scaled
+   */
+  private static getExcelNumberFormat(column: ScheduleColumn): string | undefined {
+    if (!column.format && column.dataType === 'number') return undefined;
+
+    const decimals = column.format?.split('.')[1]?.replace(/[^0#]/g, '').length
+      ?? (column.dataType === 'currency' ? 2 : 0);
+    const grouped = column.format ? column.format.includes(',') : column.dataType === 'currency';
+    const base = `${grouped ? '#,##0' : '0'}${decimals > 0 ? `.${'0'.repeat(decimals)}` : ''}`;
+
+    switch (column.dataType) {
+      case 'currency':
+        return `"$"${base}`;
+      case 'percentage':
+        return `${base}"%"`;
+      default:
+        return base;
+    }
+  }
+
+  /**
+   * Column widths in characters from the longest displayed value, formulas by their result
+   */
+  private static getColumnWidths(rows: (XLSXCell | XLSXCellValue)[][]): number[] {
+    const widths: number[] = [];
+    rows.forEach(row => row.forEach((cell, index) => {
+      const value = typeof cell === 'object' && cell !== null && 'value' in cell ? cell.value : cell;
+      const shown = typeof value === 'object' && value !== null ? value.result : value;
+      const length = shown === null || shown === undefined ? 0 : String(shown).length;
+      widths[index] = Math.min(XLSX_MAX_COLUMN_WIDTH, Math.max(widths[index] ?? 8, length + 2));
+    }));
+    return widths;
+  }
+
+  private static humanizeKey(key: string): string {
+    return key
+      .replace(/_/g, ' ')
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/^./, first => first.toUpperCase());
+  }
+
   private static generateFilename(projectName: string, extension: string): string {
     const sanitized = projectName.replace(/[^a-zA-Z0-9]/g, '_');
     const timestamp = new Date().toISOString().slice(0, 10);
@@ -647,23 +1314,617 @@ ${component.position.y}
     ctx.putImageData(imageData, 0, 0);
   }
   
-  // Placeholder implementations for complex methods
-  private static drawGridToPDF(pdf: jsPDF, area: any, margin: number, grid: any, scale: any): void {}
-  private static drawMeasurementToPDF(pdf: jsPDF, measurement: any, margin: number, scale: any): void {}
-  private static drawAnnotationToPDF(pdf: jsPDF, annotation: any, margin: number, scale: any): void {}
-  private static drawTitleBlockToPDF(pdf: jsPDF, titleBlock: any, width: number, height: number): void {}
-  private static addSchedulesToPDF(pdf: jsPDF, schedules: any[]): void {}
-  private static generateGridSVG(grid: any, canvas: any): string { return ''; }
-  private static generateMeasurementSVG(measurement: any): string { return ''; }
-  private static generateAnnotationSVG(annotation: any): string { return ''; }
-  private static generateWireDXF(wire: any): string { return ''; }
-  private static generateComponentsSheet(components: any[]): any { return {}; }
-  private static generateCalculationsSheet(calculations: any): any { return {}; }
-  private static generateSchedulesSheet(schedules: any[]): any { return {}; }
-  private static convertWorkbookToCSV(workbook: any): string { return ''; }
+  /**
+   * Plan sheet and PDF drawing helpers
+   */
+  
+  private static getPlanSheetSize(options: ExportOptions): { width: number; height: number } | null {
+    const size = PLAN_SHEET_SIZES[options.paperSize as PlanSheetSize];
+    if (!size) return null;
+    const [short, long] = size;
+    return options.orientation === 'landscape'
+      ? { width: long, height: short }
+      : { width: short, height: long };
+  }
+  
+  private static getPDFFormat(options: ExportOptions): string | [number, number] {
+    if (options.paperSize === 'custom' && options.customSize) {
+      const factor = options.customSize.units === 'inches' ? 25.4 : 1;
+      return [options.customSize.width * factor, options.customSize.height * factor];
+    }
+    return PLAN_SHEET_SIZES[options.paperSize as PlanSheetSize] ?? options.paperSize;
+  }
+  
+  private static toPDFPoint(point: DrawingPoint, margin: number, scale: { x: number; y: number }): DrawingPoint {
+    return { x: margin + point.x * scale.x, y: margin + point.y * scale.y };
+  }
+  
+  /**
+   * Canvas font sizes scale with the drawing but stay legible on the plotted sheet
+   */
+  private static getPDFFontSize(canvasFontSize: number, scale: { x: number; y: number }): number {
+    return Math.max(PDF_MIN_FONT_SIZE, canvasFontSize * scale.y / MM_PER_POINT);
+  }
+  
+  private static toRGB(color: string | undefined, fallback: string): [number, number, number] {
+    const hex = (color ?? '').trim().replace(/^#/, '');
+    const full = hex.length === 3 ? hex.split('').map(digit => digit + digit).join('') : hex;
+    if (!/^[0-9a-f]{6}$/i.test(full)) {
+      return fallback === color ? [0, 0, 0] : this.toRGB(fallback, fallback);
+    }
+    return [parseInt(full.slice(0, 2), 16), parseInt(full.slice(2, 4), 16), parseInt(full.slice(4, 6), 16)];
+  }
+  
+  /**
+   * Truncate text to a single line that fits the given width
+   */
+  private static fitPDFText(pdf: jsPDF, text: string, width: number): string {
+    if (!text || pdf.getTextWidth(text) <= width) return text;
+    const lines: string[] = pdf.splitTextToSize(text, width);
+    return lines[0] ?? '';
+  }
+  
+  /**
+   * Text centered on a point and rotated counterclockwise by angle degrees
+   */
+  private static drawCenteredTextToPDF(pdf: jsPDF, text: string, at: DrawingPoint, angle: number): void {
+    const halfWidth = pdf.getTextWidth(text) / 2;
+    const radians = angle * Math.PI / 180;
+    pdf.text(
+      text,
+      at.x - Math.cos(radians) * halfWidth,
+      at.y + Math.sin(radians) * halfWidth,
+      angle ? { angle } : {}
+    );
+  }
+  
+  private static drawGridToPDF(
+    pdf: jsPDF,
+    area: { width: number; height: number },
+    margin: number,
+    grid: GridSettings,
+    scale: { x: number; y: number }
+  ): void {
+    let stepX = grid.size * scale.x;
+    let stepY = grid.size * scale.y;
+    if (!(stepX > 0 && stepY > 0)) return;
+    
+    // Thin the grid out until lines are far enough apart to plot cleanly
+    while (Math.min(stepX, stepY) < PDF_MIN_GRID_SPACING) {
+      stepX *= 5;
+      stepY *= 5;
+    }
+    
+    const [r, g, b] = this.toRGB(grid.color, '#e5e7eb');
+    pdf.setDrawColor(r, g, b);
+    pdf.setLineWidth(0.1);
+    for (let x = 0; x <= area.width + 1e-6; x += stepX) {
+      pdf.line(margin + x, margin, margin + x, margin + area.height);
+    }
+    for (let y = 0; y <= area.height + 1e-6; y += stepY) {
+      pdf.line(margin, margin + y, margin + area.width, margin + y);
+    }
+  }
+  
+  private static drawMeasurementToPDF(
+    pdf: jsPDF,
+    measurement: SLDMeasurement,
+    margin: number,
+    scale: { x: number; y: number }
+  ): void {
+    const geometry = this.getMeasurementGeometry(measurement);
+    if (!geometry) return;
+    const toPDF = (point: DrawingPoint) => this.toPDFPoint(point, margin, scale);
+    
+    const [r, g, b] = this.toRGB(measurement.style?.color, '#2563eb');
+    pdf.setDrawColor(r, g, b);
+    pdf.setFillColor(r, g, b);
+    pdf.setTextColor(r, g, b);
+    pdf.setLineWidth(PDF_LINE_WEIGHT_PER_PX * (measurement.style?.lineWidth || 1));
+    
+    geometry.lines.forEach(([from, to]) => {
+      const start = toPDF(from);
+      const end = toPDF(to);
+      pdf.line(start.x, start.y, end.x, end.y);
+    });
+    geometry.arrows.forEach(arrow => {
+      const [tip, left, right] = arrow.map(toPDF);
+      pdf.triangle(tip.x, tip.y, left.x, left.y, right.x, right.y, 'F');
+    });
+    
+    pdf.setFontSize(this.getPDFFontSize(measurement.style?.textSize || DXF_FONT_SIZE, scale));
+    this.drawCenteredTextToPDF(pdf, measurement.displayValue, toPDF(geometry.label.position), geometry.label.angle);
+  }
+  
+  /**
+   * Annotation text with one line per row of content; callouts are boxed and
+   * any annotation with a background color gets a filled box behind it
+   */
+  private static drawAnnotationToPDF(
+    pdf: jsPDF,
+    annotation: SLDAnnotation,
+    margin: number,
+    scale: { x: number; y: number }
+  ): void {
+    if (!annotation.content.trim()) return;
+    const lines = annotation.content.split(/\r?\n/);
+    const fontSize = this.getPDFFontSize(annotation.style?.fontSize || DXF_FONT_SIZE, scale);
+    const lineHeight = fontSize * MM_PER_POINT * 1.2;
+    const origin = this.toPDFPoint(annotation.position, margin, scale);
+    const [r, g, b] = this.toRGB(annotation.style?.color, '#111827');
+    
+    pdf.setFontSize(fontSize);
+    if (annotation.type === 'callout' || annotation.style?.background) {
+      const padding = lineHeight * 0.3;
+      const width = Math.max(...lines.map(line => pdf.getTextWidth(line))) + 2 * padding;
+      const height = lines.length * lineHeight + 2 * padding;
+      const [fillR, fillG, fillB] = this.toRGB(annotation.style?.background, '#ffffff');
+      pdf.setFillColor(fillR, fillG, fillB);
+      pdf.setDrawColor(r, g, b);
+      pdf.setLineWidth(0.25);
+      pdf.rect(origin.x - padding, origin.y - lineHeight * 0.8 - padding, width, height, annotation.type === 'callout' ? 'FD' : 'F');
+    }
+    
+    pdf.setTextColor(r, g, b);
+    lines.forEach((line, index) => {
+      pdf.text(line, origin.x, origin.y + index * lineHeight);
+    });
+  }
+  
+  private static getPDFTitleBlockHeight(titleBlock: TitleBlockData, projectInfo: ProjectInformation): number {
+    const rows = Math.ceil(this.getTitleBlockFields(titleBlock, projectInfo).length / TITLE_BLOCK_COLUMNS);
+    return PDF_TITLE_BLOCK.headerHeight + rows * PDF_TITLE_BLOCK.rowHeight;
+  }
+  
+  /**
+   * Sheet border and a title block in the lower-right corner, sized in mm so it
+   * reads the same on every sheet size
+   */
+  private static drawTitleBlockToPDF(
+    pdf: jsPDF,
+    titleBlock: TitleBlockData,
+    projectInfo: ProjectInformation,
+    pageWidth: number,
+    pageHeight: number
+  ): void {
+    const margin = PDF_MARGIN;
+    const { headerHeight, rowHeight } = PDF_TITLE_BLOCK;
+    const fields = this.getTitleBlockFields(titleBlock, projectInfo);
+    const rows = Math.ceil(fields.length / TITLE_BLOCK_COLUMNS);
+    const width = Math.min(PDF_TITLE_BLOCK.width, pageWidth - 2 * margin);
+    const height = headerHeight + rows * rowHeight;
+    const cellWidth = width / TITLE_BLOCK_COLUMNS;
+    const x = pageWidth - margin - width;
+    const y = pageHeight - margin - height;
+    
+    pdf.setDrawColor(17, 24, 39);
+    pdf.setLineWidth(0.7);
+    pdf.rect(margin / 2, margin / 2, pageWidth - margin, pageHeight - margin);
+    
+    pdf.setLineWidth(0.35);
+    pdf.rect(x, y, width, height);
+    for (let row = 0; row < rows; row++) {
+      const lineY = y + headerHeight + row * rowHeight;
+      pdf.line(x, lineY, x + width, lineY);
+    }
+    for (let column = 1; column < TITLE_BLOCK_COLUMNS; column++) {
+      const lineX = x + column * cellWidth;
+      pdf.line(lineX, y + headerHeight, lineX, y + height);
+    }
+    
+    pdf.setTextColor(17, 24, 39);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(12);
+    pdf.text(this.fitPDFText(pdf, titleBlock.projectName || projectInfo.projectName, width - 4), x + 2, y + 5.5);
+    pdf.setFont('helvetica', 'normal');
+    if (projectInfo.propertyAddress) {
+      pdf.setFontSize(PDF_MIN_FONT_SIZE);
+      pdf.text(this.fitPDFText(pdf, projectInfo.propertyAddress, width - 4), x + 2, y + headerHeight - 2);
+    }
+    
+    fields.forEach(([label, value], index) => {
+      const left = x + (index % TITLE_BLOCK_COLUMNS) * cellWidth + 1.5;
+      const top = y + headerHeight + Math.floor(index / TITLE_BLOCK_COLUMNS) * rowHeight;
+      pdf.setFontSize(PDF_MIN_FONT_SIZE);
+      pdf.setTextColor(107, 114, 128);
+      pdf.text(label, left, top + 2.8);
+      if (value) {
+        pdf.setFontSize(9);
+        pdf.setTextColor(17, 24, 39);
+        pdf.text(this.fitPDFText(pdf, value, cellWidth - 3), left, top + rowHeight - 1.8);
+      }
+    });
+  }
+  
+  private static addSchedulesToPDF(
+    pdf: jsPDF,
+    schedules: ScheduleData[],
+    projectInfo: ProjectInformation,
+    titleBlock?: TitleBlockData
+  ): void {
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const layout: PDFScheduleLayout = {
+      margin: PDF_MARGIN,
+      bottom: pageHeight - PDF_MARGIN -
+        (titleBlock ? this.getPDFTitleBlockHeight(titleBlock, projectInfo) + PDF_MARGIN / 2 : 0),
+      startSheet: () => {
+        pdf.addPage();
+        if (titleBlock) {
+          this.drawTitleBlockToPDF(pdf, titleBlock, projectInfo, pageWidth, pageHeight);
+        }
+      }
+    };
+    
+    schedules.forEach(schedule => this.addScheduleToPDF(pdf, schedule, layout));
+  }
+  
+  /**
+   * Lay a schedule out as a table starting on a new sheet. Tables that run past
+   * the bottom of the layout continue on the next sheet with the header row repeated.
+   */
+  static addScheduleToPDF(pdf: jsPDF, schedule: ScheduleData, layout: PDFScheduleLayout): void {
+    const { margin, bottom, startSheet } = layout;
+    const { rowHeight, fontSize, titleFontSize } = PDF_SCHEDULE;
+    const tableWidth = pdf.internal.pageSize.getWidth() - 2 * margin;
+    let y = margin;
+    
+    const newSheet = () => {
+      startSheet();
+      y = margin;
+    };
+    const columns = schedule.headers;
+    const totalWidth = columns.reduce((sum, column) => sum + Math.max(column.width, 0), 0);
+    const widths = columns.map(column =>
+      totalWidth > 0 ? tableWidth * Math.max(column.width, 0) / totalWidth : tableWidth / columns.length
+    );
+    const header: ScheduleTableCell[] = columns.map(column => ({
+      text: column.header,
+      bold: true,
+      fill: PDF_SCHEDULE.headerFill,
+      align: 'center'
+    }));
+    const addRow = (cells: ScheduleTableCell[]) => {
+      if (y + rowHeight > bottom) {
+        newSheet();
+        this.drawScheduleRowToPDF(pdf, header, columns, widths, margin, y);
+        y += rowHeight;
+      }
+      this.drawScheduleRowToPDF(pdf, cells, columns, widths, margin, y);
+      y += rowHeight;
+    };
+    const addText = (text: string, style: 'normal' | 'bold' | 'italic') => {
+      pdf.setFont('helvetica', style);
+      pdf.setFontSize(fontSize);
+      pdf.setTextColor(17, 24, 39);
+      const lines: string[] = pdf.splitTextToSize(text, tableWidth);
+      lines.forEach(line => {
+        if (y + rowHeight > bottom) newSheet();
+        pdf.text(line, margin, y + rowHeight * 0.7);
+        y += rowHeight * 0.8;
+      });
+      pdf.setFont('helvetica', 'normal');
+    };
+    
+    newSheet();
+    pdf.setTextColor(17, 24, 39);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(titleFontSize);
+    pdf.text(schedule.title, margin, y + titleFontSize * MM_PER_POINT);
+    y += titleFontSize * MM_PER_POINT + 2;
+    
+    const project = [schedule.projectInfo.name, schedule.projectInfo.number].filter(Boolean).join(' - ');
+    if (schedule.subtitle) addText(schedule.subtitle, 'italic');
+    addText(`Project: ${project}    Updated: ${new Date(schedule.lastUpdated).toISOString().slice(0, 10)}`, 'normal');
+    y += 2;
+    
+    this.drawScheduleRowToPDF(pdf, header, columns, widths, margin, y);
+    y += rowHeight;
+    schedule.rows.forEach(row => {
+      addRow(columns.map((_, index) => {
+        const cell = row.cells[index];
+        return {
+          text: cell?.formatted ?? (cell?.value !== undefined && cell?.value !== null ? String(cell.value) : ''),
+          bold: cell?.style?.fontWeight === 'bold',
+          color: cell?.style?.textColor,
+          fill: cell?.style?.backgroundColor ?? (row.highlighted ? SCHEDULE_HIGHLIGHT_COLOR : undefined)
+        };
+      }));
+    });
+    
+    const totals = schedule.totals ?? {};
+    if (Object.keys(totals).length > 0) {
+      const labelColumn = columns.findIndex(column => !totals[column.id]);
+      addRow(columns.map((column, index) => ({
+        text: totals[column.id]?.formatted ?? (index === labelColumn ? 'TOTAL' : ''),
+        bold: true,
+        fill: PDF_SCHEDULE.totalFill
+      })));
+    }
+    
+    if (schedule.notes?.length) {
+      y += 2;
+      addText('NOTES', 'bold');
+      schedule.notes.forEach((note, index) => addText(`${index + 1}. ${note}`, 'normal'));
+    }
+    if (schedule.necReferences?.length) {
+      y += 2;
+      addText(`NEC References: ${schedule.necReferences.join(', ')}`, 'italic');
+    }
+  }
+  
+  private static drawScheduleRowToPDF(
+    pdf: jsPDF,
+    cells: ScheduleTableCell[],
+    columns: ScheduleColumn[],
+    widths: number[],
+    x: number,
+    y: number
+  ): void {
+    const { rowHeight, fontSize } = PDF_SCHEDULE;
+    let left = x;
+    
+    pdf.setFontSize(fontSize);
+    pdf.setLineWidth(0.2);
+    cells.forEach((cell, index) => {
+      const width = widths[index];
+      if (cell.fill) {
+        const [r, g, b] = this.toRGB(cell.fill, '#ffffff');
+        pdf.setFillColor(r, g, b);
+        pdf.rect(left, y, width, rowHeight, 'F');
+      }
+      pdf.setDrawColor(156, 163, 175);
+      pdf.rect(left, y, width, rowHeight);
+      
+      const [r, g, b] = this.toRGB(cell.color, '#111827');
+      pdf.setTextColor(r, g, b);
+      pdf.setFont('helvetica', cell.bold ? 'bold' : 'normal');
+      const align = cell.align ?? columns[index]?.align ?? 'left';
+      const textX = align === 'right' ? left + width - 1 : align === 'center' ? left + width / 2 : left + 1;
+      pdf.text(this.fitPDFText(pdf, cell.text, width - 2), textX, y + rowHeight * 0.68, { align });
+      left += width;
+    });
+    pdf.setFont('helvetica', 'normal');
+  }
+  
+  /**
+   * Shared drawing geometry
+   */
+  
+  private static getTitleBlockFields(titleBlock: TitleBlockData, projectInfo: ProjectInformation): [string, string][] {
+    return [
+      ['DRAWING NO.', titleBlock.drawingNumber],
+      ['REV', titleBlock.revision],
+      ['SHEET', titleBlock.sheet],
+      ['DATE', titleBlock.date],
+      ['SCALE', titleBlock.scale],
+      ['DRAWN BY', titleBlock.drawnBy],
+      ['CHECKED BY', titleBlock.checkedBy],
+      ['APPROVED BY', titleBlock.approvedBy],
+      ['CLIENT', projectInfo.clientName ?? '']
+    ];
+  }
+  
+  /**
+   * Measurement linework in canvas units. Linear measurements become aligned
+   * dimensions drawn above (or left of) the measured run; angular and area
+   * measurements trace their points and a single point gets a cross marker.
+   */
+  private static getMeasurementGeometry(measurement: SLDMeasurement): MeasurementGeometry | null {
+    const points = measurement.points;
+    if (points.length === 0) return null;
+    const first = points[0];
+    const last = points[points.length - 1];
+    const length = Math.hypot(last.x - first.x, last.y - first.y);
+    
+    if (measurement.type === 'linear' && length > 0) {
+      const ux = (last.x - first.x) / length;
+      const uy = (last.y - first.y) / length;
+      let nx = uy;
+      let ny = -ux;
+      if (ny > 0 || (ny === 0 && nx > 0)) {
+        nx = -nx;
+        ny = -ny;
+      }
+      const at = (point: DrawingPoint, normal: number, along = 0): DrawingPoint => ({
+        x: point.x + nx * normal + ux * along,
+        y: point.y + ny * normal + uy * along
+      });
+      const start = at(first, DIMENSION_OFFSET);
+      const end = at(last, DIMENSION_OFFSET);
+      const overshoot = DIMENSION_ARROW_SIZE / 2;
+      const barb = DIMENSION_ARROW_SIZE / 3;
+      
+      // Text reads left to right or bottom to top
+      let angle = Math.atan2(-uy, ux) * 180 / Math.PI;
+      if (angle > 90) angle -= 180;
+      else if (angle <= -90) angle += 180;
+      
+      return {
+        lines: [
+          [start, end],
+          [first, at(first, DIMENSION_OFFSET + overshoot)],
+          [last, at(last, DIMENSION_OFFSET + overshoot)]
+        ],
+        arrows: [
+          [start, at(start, barb, DIMENSION_ARROW_SIZE), at(start, -barb, DIMENSION_ARROW_SIZE)],
+          [end, at(end, barb, -DIMENSION_ARROW_SIZE), at(end, -barb, -DIMENSION_ARROW_SIZE)]
+        ],
+        label: {
+          position: at({ x: (first.x + last.x) / 2, y: (first.y + last.y) / 2 }, DIMENSION_OFFSET + overshoot),
+          angle
+        }
+      };
+    }
+    
+    const lines: [DrawingPoint, DrawingPoint][] = points.slice(1).map((point, index) => [points[index], point]);
+    if (measurement.type === 'area' && points.length >= 3) {
+      lines.push([last, first]);
+    }
+    if (points.length === 1) {
+      const size = DIMENSION_ARROW_SIZE;
+      lines.push(
+        [{ x: first.x - size, y: first.y }, { x: first.x + size, y: first.y }],
+        [{ x: first.x, y: first.y - size }, { x: first.x, y: first.y + size }]
+      );
+    }
+    
+    const anchor = measurement.type === 'angular' && points.length >= 3
+      ? points[1]
+      : {
+          x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+          y: points.reduce((sum, point) => sum + point.y, 0) / points.length
+        };
+    const labelOffset = measurement.type === 'area' ? 0 : DIMENSION_OFFSET;
+    return { lines, arrows: [], label: { position: { x: anchor.x, y: anchor.y - labelOffset }, angle: 0 } };
+  }
+  
+  /**
+   * SVG generation helpers
+   */
+  
+  private static escapeXML(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+  
+  private static formatSVGNumber(value: number): string {
+    return String(Math.round(value * 1000) / 1000);
+  }
+  
+  private static generateGridSVG(grid: GridSettings, canvas: { width: number; height: number }): string {
+    if (!(grid.size > 0)) return '';
+    const color = this.escapeXML(grid.color || '#e5e7eb');
+    return `
+  <defs>
+    <pattern id="grid" width="${grid.size}" height="${grid.size}" patternUnits="userSpaceOnUse">
+      <path d="M ${grid.size} 0 L 0 0 0 ${grid.size}" class="grid" fill="none" style="stroke: ${color}"/>
+    </pattern>
+  </defs>
+  <rect width="${canvas.width}" height="${canvas.height}" fill="url(#grid)"/>`;
+  }
+  
+  private static generateMeasurementSVG(measurement: SLDMeasurement): string {
+    const geometry = this.getMeasurementGeometry(measurement);
+    if (!geometry) return '';
+    const n = (value: number) => this.formatSVGNumber(value);
+    const color = this.escapeXML(measurement.style?.color || '#2563eb');
+    const { position, angle } = geometry.label;
+    
+    const lines = geometry.lines.map(([from, to]) =>
+      `<line x1="${n(from.x)}" y1="${n(from.y)}" x2="${n(to.x)}" y2="${n(to.y)}"/>`
+    ).join('');
+    const arrows = geometry.arrows.map(arrow =>
+      `<polygon points="${arrow.map(point => `${n(point.x)},${n(point.y)}`).join(' ')}"/>`
+    ).join('');
+    const rotation = angle ? ` transform="rotate(${n(-angle)} ${n(position.x)} ${n(position.y)})"` : '';
+    
+    return `
+      <g id="${this.escapeXML(measurement.id)}" class="measurement" style="stroke: ${color}; stroke-width: ${measurement.style?.lineWidth || 1}">
+        ${lines}<g style="fill: ${color}; stroke: none">${arrows}</g>
+        <text x="${n(position.x)}" y="${n(position.y)}" text-anchor="middle" class="text"${rotation}
+              style="fill: ${color}; stroke: none; font-size: ${measurement.style?.textSize || DXF_FONT_SIZE}px">${this.escapeXML(measurement.displayValue)}</text>
+      </g>`;
+  }
+  
+  private static generateAnnotationSVG(annotation: SLDAnnotation): string {
+    if (!annotation.content.trim()) return '';
+    const n = (value: number) => this.formatSVGNumber(value);
+    const lines = annotation.content.split(/\r?\n/);
+    const fontSize = annotation.style?.fontSize || DXF_FONT_SIZE;
+    const lineHeight = fontSize * 1.2;
+    const color = this.escapeXML(annotation.style?.color || '#111827');
+    const { x, y } = annotation.position;
+    
+    // Text metrics are not available here, so box widths use an average glyph width
+    let box = '';
+    if (annotation.type === 'callout' || annotation.style?.background) {
+      const padding = lineHeight * 0.3;
+      const width = Math.max(...lines.map(line => line.length)) * fontSize * 0.6 + 2 * padding;
+      const height = lines.length * lineHeight + 2 * padding;
+      const fill = this.escapeXML(annotation.style?.background || '#ffffff');
+      const stroke = annotation.type === 'callout' ? color : 'none';
+      box = `<rect x="${n(x - padding)}" y="${n(y - lineHeight * 0.8 - padding)}" width="${n(width)}" height="${n(height)}" fill="${fill}" stroke="${stroke}"/>`;
+    }
+    const spans = lines.map((line, index) =>
+      `<tspan x="${n(x)}" dy="${index === 0 ? 0 : n(lineHeight)}">${this.escapeXML(line)}</tspan>`
+    ).join('');
+    
+    return `
+      <g id="${this.escapeXML(annotation.id)}">
+        ${box}<text x="${n(x)}" y="${n(y)}" class="text" style="fill: ${color}; font-size: ${fontSize}px">${spans}</text>
+      </g>`;
+  }
+  
+  /**
+   * Title block in canvas units, laid out like the DXF title block with its
+   * top-left corner at the title block position
+   */
+  private static generateTitleBlockSVG(titleBlock: TitleBlockData, projectInfo: ProjectInformation): string {
+    const n = (value: number) => this.formatSVGNumber(value);
+    const { width, rowHeight } = TITLE_BLOCK;
+    const fields = this.getTitleBlockFields(titleBlock, projectInfo);
+    const rows = 1 + Math.ceil(fields.length / TITLE_BLOCK_COLUMNS);
+    const height = rows * rowHeight;
+    const cellWidth = width / TITLE_BLOCK_COLUMNS;
+    const { x, y } = titleBlock.position;
+    
+    const rules: string[] = [];
+    for (let row = 1; row < rows; row++) {
+      rules.push(`<line x1="${n(x)}" y1="${n(y + row * rowHeight)}" x2="${n(x + width)}" y2="${n(y + row * rowHeight)}"/>`);
+    }
+    for (let column = 1; column < TITLE_BLOCK_COLUMNS; column++) {
+      const lineX = n(x + column * cellWidth);
+      rules.push(`<line x1="${lineX}" y1="${n(y + rowHeight)}" x2="${lineX}" y2="${n(y + height)}"/>`);
+    }
+    
+    const text: string[] = [
+      `<text x="${n(x + 8)}" y="${n(y + rowHeight * 0.55)}" class="text" style="font-size: 16px; font-weight: bold">${this.escapeXML(titleBlock.projectName || projectInfo.projectName)}</text>`
+    ];
+    if (projectInfo.propertyAddress) {
+      text.push(`<text x="${n(x + 8)}" y="${n(y + rowHeight * 0.88)}" class="text" style="font-size: 8px">${this.escapeXML(projectInfo.propertyAddress)}</text>`);
+    }
+    fields.forEach(([label, value], index) => {
+      const left = n(x + (index % TITLE_BLOCK_COLUMNS) * cellWidth + 6);
+      const top = y + (1 + Math.floor(index / TITLE_BLOCK_COLUMNS)) * rowHeight;
+      text.push(`<text x="${left}" y="${n(top + 9)}" class="text" style="font-size: 7px; fill: #6b7280">${label}</text>`);
+      if (value) {
+        text.push(`<text x="${left}" y="${n(top + rowHeight - 6)}" class="text">${this.escapeXML(value)}</text>`);
+      }
+    });
+    
+    return `
+      <g id="title-block">
+        <rect x="${n(x)}" y="${n(y)}" width="${width}" height="${height}" class="title-block"/>
+        <g class="title-block">${rules.join('')}</g>
+        ${text.join('\n        ')}
+      </g>`;
+  }
 }
 
 // Type definitions for missing interfaces
+interface DrawingPoint {
+  x: number;
+  y: number;
+}
+
+interface MeasurementGeometry {
+  lines: [DrawingPoint, DrawingPoint][];
+  arrows: DrawingPoint[][];
+  label: { position: DrawingPoint; angle: number };
+}
+
+interface ScheduleTableCell {
+  text: string;
+  bold?: boolean;
+  color?: string;
+  fill?: string;
+  align?: ScheduleColumn['align'];
+}
+
 interface ComponentConnection {
   id: string;
   point: { x: number; y: number };
@@ -1,15 +1,61 @@
-import { NEC_CONSTANTS } from '../constants';
+import { NEC_CONSTANTS, DEFAULT_NEC_CODE_YEAR, getNECRulePack } from '../constants';
 import { ErrorHandlingService, ErrorType } from './errorHandlingService';
 import { ValidationService } from './validationService';
+import { PhaseBalancingService } from './phaseBalancingService';
+import { InterconnectionService } from './interconnectionService';
+import { calculateMultifamilyDemand, calculateCommercialDemand } from './occupancyLoadCalculations';
+import type { PhaseLoad, ServiceSystem } from './phaseBalancingService';
 import type {
   CalculationResults,
   LoadState,
   CalculationMethod,
   ValidationMessage,
   ActualDemandData,
-  PanelDetails 
+  PanelDetails,
+  NECCodeReference,
+  LoadItem,
+  PhaseLoadSummary
 } from '../types';
 
+const MONTHS_PER_YEAR = 12;
+
+/**
+ * Months of recorded maximum demand in the 220.87 data set
+ */
+const countDemandMonths = (actualDemandData: ActualDemandData): number =>
+  Array.from({ length: MONTHS_PER_YEAR }, (_, index) => actualDemandData[`month${index + 1}` as keyof ActualDemandData])
+    .filter(value => typeof value === 'number' && value > 0).length;
+
+/**
+ * Per-phase demand: connected loads are auto-balanced across the service phases
+ * and the calculated demand is spread in proportion to them
+ */
+const calculatePhaseLoads = (
+  baseGeneralVA: number,
+  loads: Record<'general' | 'hvac' | 'evse' | 'battery', LoadItem[]>,
+  totalDemandVA: number,
+  system: ServiceSystem
+): PhaseLoadSummary => {
+  const connected: PhaseLoad[] = [
+    // Lighting and receptacle circuits are spread over every phase
+    { id: 'general-lighting', va: baseGeneralVA, poles: system.phases === 3 ? 3 : 2 },
+    ...Object.entries(loads).flatMap(([group, items]) => items
+      .filter(load => load.total > 0)
+      .map(load => ({
+        id: `${group}-${load.id}`,
+        va: load.total,
+        poles: PhaseBalancingService.polesForVoltage(load.volts, system)
+      })))
+  ];
+  const connectedVA = connected.reduce((sum, load) => sum + load.va, 0);
+  const scale = connectedVA > 0 ? totalDemandVA / connectedVA : 0;
+
+  return PhaseBalancingService.summarize(
+    PhaseBalancingService.balance(connected.map(load => ({ ...load, va: load.va * scale })), system),
+    system
+  );
+};
+
 export const calculateLoadDemand = (
   loadState: LoadState,
   calculationMethod: CalculationMethod,
@@ -33,7 +79,8 @@ export const calculateLoadDemand = (
     id: number;
     name: string;
     amps: number;
-  } | null = null
+  } | null = null,
+  codeYear: string = DEFAULT_NEC_CODE_YEAR
 ): CalculationResults => {
   try {
     ValidationService.validateCalculationInputs(
@@ -44,6 +91,15 @@ export const calculateLoadDemand = (
       panelDetails,
       actualDemandData
     );
+
+  // Validation guarantees the method's input is present
+  if (calculationMethod === 'multifamily') {
+    return calculateMultifamilyDemand(loadState.multifamily!, codeYear);
+  }
+  if (calculationMethod === 'commercial') {
+    return calculateCommercialDemand(loadState.commercial!, codeYear);
+  }
+
   const { 
     generalLoads = [], 
     hvacLoads = [], 
@@ -51,15 +107,24 @@ export const calculateLoadDemand = (
     solarBatteryLoads = [] 
   } = loadState || {};
   
+  const rules = getNECRulePack(codeYear);
+  const { optional, standard, existing } = rules.demandFactors;
+  const codeBasis: NECCodeReference[] = [];
+
   const calc: Partial<CalculationResults> = {
     warnings: [],
-    errors: []
+    errors: [],
+    codeYear: rules.codeYear
   };
   
-  const lightingVA = squareFootage * NEC_CONSTANTS.GENERAL_LIGHTING_VA_PER_SQFT;
-  const smallApplianceVA = NEC_CONSTANTS.SMALL_APPLIANCE_VA * 2; 
-  const laundryVA = NEC_CONSTANTS.LAUNDRY_VA;
-  const bathroomVA = NEC_CONSTANTS.BATHROOM_VA;
+  const lightingVA = squareFootage * rules.generalLoads.lightingVAPerSqFt;
+  const smallApplianceVA = rules.generalLoads.smallApplianceVA * 2; 
+  const laundryVA = rules.generalLoads.laundryVA;
+  const bathroomVA = rules.generalLoads.bathroomVA;
+  codeBasis.push({
+    section: rules.generalLoads.lightingSection,
+    description: `General lighting at ${rules.generalLoads.lightingVAPerSqFt} VA/sq ft`
+  });
   
   const baseGeneralVA = lightingVA + smallApplianceVA + laundryVA + bathroomVA;
   calc.generalLoadVA = baseGeneralVA;
@@ -67,39 +132,72 @@ export const calculateLoadDemand = (
   const rawApplianceDemand = generalLoads.reduce((sum, load) => sum + load.total, 0);
   calc.applianceDemand = rawApplianceDemand;
   
+  // 220.87 needs the recorded maximum demand; an average understates it, so average-only data falls back to 220.83
+  const measuredDemandKW = actualDemandData.peakDemand;
+  const usesMeasuredDemand = calculationMethod === 'existing' && actualDemandData.enabled && measuredDemandKW > 0;
+  const averageDemandOnly = calculationMethod === 'existing' && actualDemandData.enabled && !usesMeasuredDemand
+    && actualDemandData.averageDemand > 0;
+
   switch (calculationMethod) {
     case 'optional': {
       const totalGeneralAndAppliances = baseGeneralVA + rawApplianceDemand;
-      const first10kVA = Math.min(totalGeneralAndAppliances, 10000);
-      const remainder = Math.max(totalGeneralAndAppliances - 10000, 0);
-      calc.generalDemand = first10kVA + (remainder * NEC_CONSTANTS.DEMAND_FACTORS.OPTIONAL_METHOD.REMAINDER);
+      const first10kVA = Math.min(totalGeneralAndAppliances, optional.firstVA);
+      const remainder = Math.max(totalGeneralAndAppliances - optional.firstVA, 0);
+      calc.generalDemand = first10kVA + (remainder * optional.remainder);
       calc.appliancesIncludedInGeneral = true;
+      codeBasis.push({
+        section: optional.section,
+        description: `Optional method: first ${optional.firstVA.toLocaleString()} VA at 100%, remainder at ${optional.remainder * 100}%`
+      });
       break;
     }
       
     case 'standard': {
-      const first3kVA = Math.min(baseGeneralVA, 3000);
-      const next117kVA = Math.min(Math.max(baseGeneralVA - 3000, 0), 117000);
-      const above120kVA = Math.max(baseGeneralVA - 120000, 0);
+      const first3kVA = Math.min(baseGeneralVA, standard.firstVA);
+      const next117kVA = Math.min(Math.max(baseGeneralVA - standard.firstVA, 0), standard.nextVA);
+      const above120kVA = Math.max(baseGeneralVA - standard.firstVA - standard.nextVA, 0);
       calc.generalDemand = first3kVA + 
-        (next117kVA * NEC_CONSTANTS.DEMAND_FACTORS.STANDARD_METHOD.NEXT_117K) + 
-        (above120kVA * NEC_CONSTANTS.DEMAND_FACTORS.STANDARD_METHOD.ABOVE_120K);
+        (next117kVA * standard.next) + 
+        (above120kVA * standard.above);
+      codeBasis.push({
+        section: standard.section,
+        description: `Standard method: first ${standard.firstVA.toLocaleString()} VA at 100%, next ${standard.nextVA.toLocaleString()} VA at ${standard.next * 100}%, remainder at ${standard.above * 100}%`
+      });
       break;
     }
       
     case 'existing': {
-      if (actualDemandData.enabled && actualDemandData.averageDemand > 0) {
-        calc.generalDemand = actualDemandData.averageDemand * 1000; 
+      if (usesMeasuredDemand) {
+        calc.generalDemand = measuredDemandKW * 1000 * rules.existingLoad.demandMultiplier;
+        codeBasis.push({
+          section: rules.existingLoad.section,
+          description: `Existing load: recorded maximum demand of ${measuredDemandKW} kW at ${rules.existingLoad.demandMultiplier * 100}%`
+        });
       } else {
-        const first8kVA = Math.min(baseGeneralVA, 8000);
-        const remainderExisting = Math.max(baseGeneralVA - 8000, 0);
-        calc.generalDemand = first8kVA + (remainderExisting * NEC_CONSTANTS.DEMAND_FACTORS.EXISTING_DWELLING.REMAINDER);
+        const first8kVA = Math.min(baseGeneralVA, existing.firstVA);
+        const remainderExisting = Math.max(baseGeneralVA - existing.firstVA, 0);
+        calc.generalDemand = first8kVA + (remainderExisting * existing.remainder);
+        codeBasis.push({
+          section: existing.section,
+          description: `Existing dwelling: first ${existing.firstVA.toLocaleString()} VA at 100%, remainder at ${existing.remainder * 100}%`
+        });
       }
       break;
     }
   }
   
-  let totalEvseVA = evseLoads.reduce((sum, load) => sum + load.total, 0);
+  // 220.57 (2023) counts each EVSE at no less than 7,200 VA
+  const minimumEvseVA = rules.evse.minimumVA;
+  let totalEvseVA = evseLoads.reduce((sum, load) => sum +
+    (minimumEvseVA !== null && load.quantity > 0 ? Math.max(load.va, minimumEvseVA) * load.quantity : load.total), 0);
+  if (totalEvseVA > 0) {
+    codeBasis.push({
+      section: rules.evse.loadSection,
+      description: minimumEvseVA !== null
+        ? `EVSE at the larger of ${minimumEvseVA.toLocaleString()} VA or nameplate rating`
+        : 'EVSE at nameplate rating'
+    });
+  }
   let totalEvseAmps = evseLoads.reduce((sum, load) => sum + (load.amps * load.quantity), 0);
   
   let simpleSwitchManagedEvseVA = 0;
@@ -172,8 +270,9 @@ export const calculateLoadDemand = (
       calc.evseDemand = (totalEvseVA - simpleSwitchManagedEvseVA) + (effectiveLoad * 240);
     } else {
       // Apply 125% continuous load factor to managed EVSE loads
-      calc.evseDemand = (effectiveLoad * 240) * NEC_CONSTANTS.CONTINUOUS_LOAD_FACTOR; 
+      calc.evseDemand = (effectiveLoad * 240) * rules.continuousLoadFactor; 
     }
+    codeBasis.push({ section: rules.loadManagement.section, description: `${deviceName}: ${rules.loadManagement.description}` });
     
     if (effectiveLoadMgmt === 'simpleswitch') {
       if (simpleSwitchMode === 'branch_sharing') {
@@ -216,12 +315,12 @@ export const calculateLoadDemand = (
     }
   } else {
     // Apply 125% continuous load factor to EVSE loads per NEC 625.17
-    calc.evseDemand = totalEvseVA * NEC_CONSTANTS.CONTINUOUS_LOAD_FACTOR; 
+    calc.evseDemand = totalEvseVA * rules.continuousLoadFactor; 
   }
   
   // Apply 125% continuous load factor to HVAC loads per NEC 210.19(A)(1)
   const rawHvacDemand = hvacLoads.reduce((sum, load) => sum + load.total, 0);
-  calc.hvacDemand = (rawHvacDemand * NEC_CONSTANTS.CONTINUOUS_LOAD_FACTOR) - simpleSwitchManagedHvacVA;
+  calc.hvacDemand = (rawHvacDemand * rules.continuousLoadFactor) - simpleSwitchManagedHvacVA;
   
   if (simpleSwitchManagedGeneralVA > 0) {
     const adjustedApplianceDemand = rawApplianceDemand - simpleSwitchManagedGeneralVA;
@@ -229,9 +328,9 @@ export const calculateLoadDemand = (
     switch (calculationMethod) {
       case 'optional': {
         const totalGeneralAndAppliances = baseGeneralVA + adjustedApplianceDemand;
-        const first10kVA = Math.min(totalGeneralAndAppliances, 10000);
-        const remainder = Math.max(totalGeneralAndAppliances - 10000, 0);
-        calc.generalDemand = first10kVA + (remainder * NEC_CONSTANTS.DEMAND_FACTORS.OPTIONAL_METHOD.REMAINDER);
+        const first10kVA = Math.min(totalGeneralAndAppliances, optional.firstVA);
+        const remainder = Math.max(totalGeneralAndAppliances - optional.firstVA, 0);
+        calc.generalDemand = first10kVA + (remainder * optional.remainder);
         break;
       }
       case 'standard': {
@@ -239,11 +338,11 @@ export const calculateLoadDemand = (
         break;
       }
       case 'existing': {
-        if (!actualDemandData.enabled || actualDemandData.averageDemand <= 0) {
+        if (!usesMeasuredDemand) {
           const totalGeneralAndAppliances = baseGeneralVA + adjustedApplianceDemand;
-          const first8kVA = Math.min(totalGeneralAndAppliances, 8000);
-          const remainderExisting = Math.max(totalGeneralAndAppliances - 8000, 0);
-          calc.generalDemand = first8kVA + (remainderExisting * NEC_CONSTANTS.DEMAND_FACTORS.EXISTING_DWELLING.REMAINDER);
+          const first8kVA = Math.min(totalGeneralAndAppliances, existing.firstVA);
+          const remainderExisting = Math.max(totalGeneralAndAppliances - existing.firstVA, 0);
+          calc.generalDemand = first8kVA + (remainderExisting * existing.remainder);
         }
         break;
       }
@@ -281,7 +380,7 @@ export const calculateLoadDemand = (
   };
   
   const busbarRating = panelDetails.busRating || getDefaultBusbarRating(mainBreaker);
-  const maxAllowableBackfeed = (busbarRating * 1.2) - mainBreaker;
+  const maxAllowableBackfeed = (busbarRating * rules.interconnection.busbarMultiplier) - mainBreaker;
   calc.interconnectionCompliant = calc.totalInterconnectionAmps <= maxAllowableBackfeed;
   
   const supplySideAmps = solarBatteryLoads
@@ -293,19 +392,41 @@ export const calculateLoadDemand = (
     .reduce((sum, load) => sum + load.total, 0);
   
   calc.batteryChargingDemand = batteryChargingVA;
+
+  if (backfeedAndLoadSideAmps > 0) {
+    codeBasis.push({
+      section: rules.interconnection.loadSideSection,
+      description: `Load-side interconnection within ${Math.round(rules.interconnection.busbarMultiplier * 100)}% of busbar rating`
+    });
+  }
+  if (supplySideAmps > 0) {
+    codeBasis.push({ section: rules.interconnection.supplySideSection, description: 'Supply-side interconnection' });
+  }
   
   const applianceContribution = calc.appliancesIncludedInGeneral ? 0 : (calc.applianceDemand || 0);
   const totalDemandVA = (calc.generalDemand || 0) + applianceContribution + 
     (calc.hvacDemand || 0) + (calc.evseDemand || 0) + batteryChargingVA;
   
+  const serviceSystem = PhaseBalancingService.getServiceSystem(panelDetails.phases, panelDetails.voltage);
   calc.totalVA = totalDemandVA;
-  calc.totalAmps = totalDemandVA / 240; 
+  calc.totalAmps = PhaseBalancingService.lineCurrent(totalDemandVA, serviceSystem);
+  calc.phaseLoads = calculatePhaseLoads(
+    baseGeneralVA,
+    {
+      general: generalLoads,
+      hvac: hvacLoads,
+      evse: evseLoads,
+      battery: solarBatteryLoads.filter(load => load.type === 'battery' && load.kw > 0)
+    },
+    totalDemandVA,
+    serviceSystem
+  );
   
   const criticalLoads = [
     ...generalLoads.filter(load => load.critical),
     ...hvacLoads.filter(load => load.critical)
   ];
-  calc.criticalLoadsAmps = criticalLoads.reduce((sum, load) => sum + (load.total / 240), 0);
+  calc.criticalLoadsAmps = criticalLoads.reduce((sum, load) => sum + PhaseBalancingService.lineCurrent(load.total, serviceSystem), 0);
   
   calc.spareCapacity = ((mainBreaker - (calc.totalAmps || 0)) / mainBreaker) * 100;
   
@@ -326,8 +447,20 @@ export const calculateLoadDemand = (
     errors.push({
       type: 'error',
       message: `Solar interconnection ${calc.totalInterconnectionAmps}A exceeds 120% rule limit of ${maxAllowableBackfeed.toFixed(1)}A`,
-      code: 'NEC 705.12(B)(3)(2)'
+      code: `NEC ${rules.interconnection.loadSideSection}`
     });
+    
+    const alternatives = InterconnectionService.evaluate(
+      { ...InterconnectionService.panelInputs(panelDetails), sources: solarBatteryLoads, mainBreaker, busRating: busbarRating },
+      codeYear
+    ).options.filter(option => option.compliant);
+    if (alternatives.length > 0) {
+      warnings.push({
+        type: 'warning',
+        message: `Compliant interconnection alternatives: ${alternatives.map(option => `${option.description} (NEC ${option.section})`).join('; ')}`,
+        code: `NEC ${alternatives[0].section}`
+      });
+    }
   }
   
   const activeEvseCount = evseLoads.filter(load => load.quantity > 0).length;
@@ -339,25 +472,44 @@ export const calculateLoadDemand = (
     });
   }
   
+  if (averageDemandOnly) {
+    warnings.push({
+      type: 'warning',
+      message: `NEC ${rules.existingLoad.section} needs the maximum demand (highest ${rules.existingLoad.peakIntervalMinutes}-minute average); average demand alone is not accepted, so the ${existing.section} calculation is used. Enter the recorded peak demand`,
+      code: `NEC ${rules.existingLoad.section}`
+    });
+  }
+
   const hasRenewableEnergy = (calc.solarCapacityKW || 0) > 0 || (calc.batteryCapacityKW || 0) > 0;
-  if (hasRenewableEnergy && calculationMethod === 'existing' && actualDemandData.enabled) {
+  // Only the short-term recording option is barred; a full year of demand data remains valid
+  const recordedMonths = countDemandMonths(actualDemandData);
+  const usesRecordingOption = usesMeasuredDemand && recordedMonths < MONTHS_PER_YEAR;
+  if (hasRenewableEnergy && usesRecordingOption && rules.existingLoad.recordingExcludesRenewables) {
+    errors.push({
+      type: 'error',
+      message: `Cannot use the NEC ${rules.existingLoad.section} ${rules.existingLoad.recordingMinimumDays}-day recording option with renewable energy systems present; provide 12 months of demand data`,
+      code: `NEC ${rules.existingLoad.section} Exception`
+    });
+  }
+  if (effectiveLoadMgmt !== 'none' && usesRecordingOption && rules.existingLoad.recordingExcludesPeakShaving) {
     errors.push({
       type: 'error',
-      message: 'Cannot use NEC 220.87 existing load determination with renewable energy systems present',
-      code: 'NEC 220.87 Exception'
+      message: `Cannot use the NEC ${rules.existingLoad.section} ${rules.existingLoad.recordingMinimumDays}-day recording option with load management (peak load shaving); provide 12 months of demand data`,
+      code: `NEC ${rules.existingLoad.section} Exception`
     });
   }
   
   if (supplySideAmps > 0) {
     warnings.push({
       type: 'warning',
-      message: `Supply side connections (${supplySideAmps.toFixed(1)}A) bypass 120% rule but require utility approval per NEC 705.12(A)`,
-      code: 'NEC 705.12(A)'
+      message: `Supply side connections (${supplySideAmps.toFixed(1)}A) bypass 120% rule but require utility approval per NEC ${rules.interconnection.supplySideSection}`,
+      code: `NEC ${rules.interconnection.supplySideSection}`
     });
   }
   
   calc.warnings = warnings;
   calc.errors = errors;
+  calc.codeBasis = codeBasis;
   
   return calc as CalculationResults;
   
@@ -0,0 +1,384 @@
+import {
+  NEC_CONSTANTS,
+  DEFAULT_NEC_CODE_YEAR,
+  getNECRulePack,
+  OCCUPANCY_LABELS,
+  LIGHTING_DEMAND_TIERS,
+  RECEPTACLE_DEMAND_TIERS,
+  RECEPTACLE_OUTLET_VA,
+  SIGN_OUTLET_VA,
+  LARGEST_MOTOR_FACTOR,
+  MULTIFAMILY_MINIMUM_UNITS,
+  applyDemandTiers,
+  getKitchenDemandFactor,
+  getMultifamilyDemandFactor
+} from '../constants';
+import { ErrorHandlingService } from './errorHandlingService';
+import { ErrorType } from '../types/error';
+import type {
+  CalculationResults,
+  CommercialCalculationInput,
+  LoadBreakdownItem,
+  MultifamilyCalculationInput,
+  NamedLoad,
+  NECCodeReference,
+  NECCodeYear,
+  ValidationMessage
+} from '../types';
+
+const SMALL_APPLIANCE_CIRCUIT_VA = NEC_CONSTANTS.SMALL_APPLIANCE_VA;
+const MINIMUM_SPARE_CAPACITY_PERCENT = 25;
+
+const loadVA = (load: NamedLoad): number => load.va * (load.quantity ?? 1);
+
+const lineAmps = (va: number, voltage: number, phases: 1 | 3): number =>
+  va / (phases === 3 ? voltage * Math.sqrt(3) : voltage);
+
+const validateService = (voltage: number, phases: number, mainBreaker: number, context: string): void => {
+  if (!(voltage > 0) || ![1, 3].includes(phases)) {
+    throw ErrorHandlingService.createError(
+      ErrorType.VALIDATION,
+      'Service voltage and phase are required',
+      'Please enter a valid service voltage and phase.',
+      { voltage, phases },
+      context
+    );
+  }
+  if (!(mainBreaker > 0)) {
+    throw ErrorHandlingService.createError(
+      ErrorType.VALIDATION,
+      'Main breaker rating must be positive',
+      'Please enter a valid main breaker rating.',
+      { mainBreaker },
+      context
+    );
+  }
+};
+
+/**
+ * Turn the demand breakdown into service totals shared by both occupancy methods
+ */
+const buildResults = (
+  demand: Pick<CalculationResults, 'generalLoadVA' | 'generalDemand' | 'applianceDemand' | 'hvacDemand'>,
+  breakdown: LoadBreakdownItem[],
+  service: { voltage: number; phases: 1 | 3; mainBreaker: number },
+  codeYear: NECCodeYear,
+  codeBasis: NECCodeReference[],
+  warnings: ValidationMessage[],
+  errors: ValidationMessage[]
+): CalculationResults => {
+  const totalVA = breakdown.reduce((sum, item) => sum + item.demandVA, 0);
+  const totalAmps = lineAmps(totalVA, service.voltage, service.phases);
+  const spareCapacity = ((service.mainBreaker - totalAmps) / service.mainBreaker) * 100;
+  const largestServiceSize = NEC_CONSTANTS.SERVICE_SIZES[NEC_CONSTANTS.SERVICE_SIZES.length - 1];
+  // Continuous loads are already at 125% in the breakdown
+  const recommendedServiceSize = NEC_CONSTANTS.SERVICE_SIZES.find(size => size >= totalAmps) || largestServiceSize;
+
+  if (totalAmps > largestServiceSize) {
+    warnings.push({
+      type: 'warning',
+      message: `Calculated load of ${totalAmps.toFixed(1)}A exceeds the largest standard service size of ${largestServiceSize}A`,
+      code: 'NEC 230.42'
+    });
+  }
+  if (spareCapacity < MINIMUM_SPARE_CAPACITY_PERCENT) {
+    warnings.push({
+      type: 'warning',
+      message: 'Less than 25% spare capacity remaining for future expansion',
+      code: 'NEC 220.14(A)'
+    });
+  }
+  if (totalAmps > service.mainBreaker) {
+    errors.push({
+      type: 'error',
+      message: `Calculated load of ${totalAmps.toFixed(1)}A exceeds the ${service.mainBreaker}A service rating`,
+      code: 'NEC 230.79'
+    });
+  }
+
+  return {
+    totalAmps,
+    totalVA,
+    totalDemand: totalVA,
+    ...demand,
+    evseDemand: 0,
+    batteryChargingDemand: 0,
+    solarCapacityKW: 0,
+    batteryCapacityKW: 0,
+    totalInterconnectionAmps: 0,
+    interconnectionCompliant: true,
+    criticalLoadsAmps: 0,
+    spareCapacity,
+    recommendedServiceSize,
+    warnings,
+    errors,
+    codeYear,
+    codeBasis,
+    breakdown
+  };
+};
+
+/**
+ * Multifamily dwelling service or feeder load per NEC 220.84 (optional method
+ * for three or more units) with house loads added per Part III
+ */
+export const calculateMultifamilyDemand = (
+  input: MultifamilyCalculationInput,
+  codeYear: string = DEFAULT_NEC_CODE_YEAR
+): CalculationResults => {
+  try {
+    const { unitTypes, houseLoads, voltage, phases, mainBreaker } = input;
+    validateService(voltage, phases, mainBreaker, 'occupancyLoadCalculations.calculateMultifamilyDemand');
+    if (!unitTypes?.length || unitTypes.some(unit => !(unit.count > 0) || unit.squareFootage < 0)) {
+      throw ErrorHandlingService.createError(
+        ErrorType.VALIDATION,
+        'At least one dwelling unit type with a positive count is required',
+        'Please add the dwelling units served.',
+        { unitTypes },
+        'occupancyLoadCalculations.calculateMultifamilyDemand'
+      );
+    }
+
+    const rules = getNECRulePack(codeYear);
+    const section = rules.occupancy.multifamilySection;
+    const warnings: ValidationMessage[] = [];
+    const errors: ValidationMessage[] = [];
+
+    const totalUnits = unitTypes.reduce((sum, unit) => sum + unit.count, 0);
+    const qualifies = totalUnits >= MULTIFAMILY_MINIMUM_UNITS;
+    // Without three units the table does not apply and the load stays at 100%
+    const demandFactor = qualifies ? getMultifamilyDemandFactor(totalUnits) : 1;
+
+    if (!qualifies) {
+      errors.push({
+        type: 'error',
+        message: `NEC ${section} applies to three or more dwelling units; ${totalUnits} provided`,
+        code: `NEC ${section}(A)`
+      });
+    }
+    unitTypes
+      .filter(unit => !unit.electricCooking)
+      .forEach(unit => errors.push({
+        type: 'error',
+        message: `${unit.name} must be equipped with electric cooking equipment to use NEC ${section}`,
+        code: `NEC ${section}(A)(2)`
+      }));
+    unitTypes
+      .filter(unit => unit.heatingVA <= 0 && unit.coolingVA <= 0)
+      .forEach(unit => errors.push({
+        type: 'error',
+        message: `${unit.name} must have electric space heating, air conditioning, or both to use NEC ${section}`,
+        code: `NEC ${section}(A)(3)`
+      }));
+
+    const breakdown: LoadBreakdownItem[] = unitTypes.map(unit => {
+      const perUnitVA = unit.squareFootage * rules.generalLoads.lightingVAPerSqFt +
+        (unit.smallApplianceCircuits + unit.laundryCircuits) * SMALL_APPLIANCE_CIRCUIT_VA +
+        unit.applianceVA +
+        Math.max(unit.heatingVA, unit.coolingVA);
+      const connectedVA = perUnitVA * unit.count;
+      return {
+        description: `${unit.name}: ${unit.count} × ${perUnitVA.toLocaleString()} VA at ${Math.round(demandFactor * 100)}%`,
+        section: `${section}(C)`,
+        connectedVA,
+        demandVA: connectedVA * demandFactor
+      };
+    });
+    const unitsConnectedVA = breakdown.reduce((sum, item) => sum + item.connectedVA, 0);
+    const unitsDemandVA = unitsConnectedVA * demandFactor;
+
+    const houseBreakdown: LoadBreakdownItem[] = houseLoads.map(load => ({
+      description: `House load: ${load.name}${load.continuous ? ' (continuous)' : ''}`,
+      section: `${section}(B)`,
+      connectedVA: loadVA(load),
+      demandVA: loadVA(load) * (load.continuous ? rules.continuousLoadFactor : 1)
+    }));
+    const houseDemandVA = houseBreakdown.reduce((sum, item) => sum + item.demandVA, 0);
+
+    const codeBasis: NECCodeReference[] = [
+      { section, description: `${Math.round(demandFactor * 100)}% demand factor for ${totalUnits} dwelling units` }
+    ];
+    if (houseBreakdown.length > 0) {
+      codeBasis.push({ section: `${section}(B)`, description: 'House loads added to the dwelling unit demand' });
+    }
+
+    return buildResults(
+      {
+        generalLoadVA: unitsConnectedVA,
+        generalDemand: unitsDemandVA,
+        applianceDemand: houseDemandVA,
+        // Heating and cooling are part of each unit's connected load
+        hvacDemand: 0
+      },
+      [...breakdown, ...houseBreakdown],
+      { voltage, phases, mainBreaker },
+      rules.codeYear,
+      codeBasis,
+      warnings,
+      errors
+    );
+  } catch (error) {
+    throw ErrorHandlingService.handleCalculationError(
+      'multifamily load calculation',
+      { unitTypes: input?.unitTypes?.length, codeYear },
+      error,
+      'occupancyLoadCalculations.calculateMultifamilyDemand'
+    );
+  }
+};
+
+/**
+ * Commercial service or feeder load per NEC 220 Part III: occupancy lighting,
+ * receptacle, kitchen, motor and HVAC demand
+ */
+export const calculateCommercialDemand = (
+  input: CommercialCalculationInput,
+  codeYear: string = DEFAULT_NEC_CODE_YEAR
+): CalculationResults => {
+  try {
+    const {
+      occupancy,
+      squareFootage,
+      receptacleOutlets,
+      signOutlets,
+      kitchenEquipment,
+      motors,
+      heatingVA,
+      coolingVA,
+      otherLoads,
+      voltage,
+      phases,
+      mainBreaker
+    } = input;
+    validateService(voltage, phases, mainBreaker, 'occupancyLoadCalculations.calculateCommercialDemand');
+
+    const rules = getNECRulePack(codeYear);
+    const unitLoad = rules.occupancy.lightingUnitLoads[occupancy];
+    if (unitLoad === undefined || !(squareFootage > 0)) {
+      throw ErrorHandlingService.createError(
+        ErrorType.VALIDATION,
+        'A listed occupancy and positive floor area are required',
+        'Please select the occupancy type and enter the floor area.',
+        { occupancy, squareFootage },
+        'occupancyLoadCalculations.calculateCommercialDemand'
+      );
+    }
+
+    const warnings: ValidationMessage[] = [];
+    const errors: ValidationMessage[] = [];
+    const continuous = rules.continuousLoadFactor;
+    const codeBasis: NECCodeReference[] = [
+      { section: rules.occupancy.lightingSection, description: `${OCCUPANCY_LABELS[occupancy]} lighting at ${unitLoad} VA/ft²` }
+    ];
+
+    const lightingConnectedVA = squareFootage * unitLoad;
+    const lightingTiers = LIGHTING_DEMAND_TIERS[occupancy];
+    const lightingContinuous = rules.occupancy.lightingUnitLoadsInclude125 ? 1 : continuous;
+    const lightingDemandVA = (lightingTiers ? applyDemandTiers(lightingConnectedVA, lightingTiers) : lightingConnectedVA) * lightingContinuous;
+    if (lightingTiers) {
+      codeBasis.push({ section: rules.occupancy.lightingDemandSection, description: `${OCCUPANCY_LABELS[occupancy]} lighting demand factors` });
+    }
+    const lighting: LoadBreakdownItem = {
+      description: `General lighting: ${squareFootage.toLocaleString()} ft² × ${unitLoad} VA/ft²` +
+        (rules.occupancy.lightingUnitLoadsInclude125 ? ' (125% included in unit load)' : ' (continuous)'),
+      section: rules.occupancy.lightingSection,
+      connectedVA: lightingConnectedVA,
+      demandVA: lightingDemandVA
+    };
+
+    const receptacleConnectedVA = receptacleOutlets * RECEPTACLE_OUTLET_VA;
+    const receptacles: LoadBreakdownItem = {
+      description: `Receptacles: ${receptacleOutlets} outlets × ${RECEPTACLE_OUTLET_VA} VA`,
+      section: rules.occupancy.receptacleSection,
+      connectedVA: receptacleConnectedVA,
+      demandVA: applyDemandTiers(receptacleConnectedVA, RECEPTACLE_DEMAND_TIERS)
+    };
+    if (receptacleConnectedVA > 0) {
+      codeBasis.push({ section: rules.occupancy.receptacleSection, description: 'Receptacle load over 10 kVA at 50%' });
+    }
+
+    const signConnectedVA = signOutlets * SIGN_OUTLET_VA;
+    const signs: LoadBreakdownItem = {
+      description: `Sign outlets: ${signOutlets} × ${SIGN_OUTLET_VA} VA (continuous)`,
+      section: '220.14(F)',
+      connectedVA: signConnectedVA,
+      demandVA: signConnectedVA * continuous
+    };
+
+    // Table 220.56 demand, never less than the two largest pieces of equipment
+    const kitchenUnits = kitchenEquipment.flatMap(load => Array<number>(load.quantity ?? 1).fill(load.va));
+    const kitchenConnectedVA = kitchenUnits.reduce((sum, va) => sum + va, 0);
+    const twoLargestVA = [...kitchenUnits].sort((a, b) => b - a).slice(0, 2).reduce((sum, va) => sum + va, 0);
+    const kitchenFactor = getKitchenDemandFactor(kitchenUnits.length);
+    const kitchen: LoadBreakdownItem = {
+      description: `Kitchen equipment: ${kitchenUnits.length} units at ${Math.round(kitchenFactor * 100)}%`,
+      section: rules.occupancy.kitchenSection,
+      connectedVA: kitchenConnectedVA,
+      demandVA: Math.max(kitchenConnectedVA * kitchenFactor, twoLargestVA)
+    };
+    if (kitchenUnits.length > 0) {
+      codeBasis.push({ section: rules.occupancy.kitchenSection, description: `Kitchen equipment demand factor ${Math.round(kitchenFactor * 100)}%` });
+    }
+
+    const motorConnectedVA = motors.reduce((sum, load) => sum + loadVA(load), 0);
+    const largestMotorVA = motors.reduce((largest, load) => Math.max(largest, load.va), 0);
+    const motorItems: LoadBreakdownItem[] = motorConnectedVA > 0 ? [
+      {
+        description: `Motors: ${motors.map(load => load.name).join(', ')}`,
+        section: '220.50',
+        connectedVA: motorConnectedVA,
+        demandVA: motorConnectedVA
+      },
+      {
+        description: `Largest motor at ${Math.round(LARGEST_MOTOR_FACTOR * 100)}%`,
+        section: '430.24',
+        connectedVA: 0,
+        demandVA: largestMotorVA * LARGEST_MOTOR_FACTOR
+      }
+    ] : [];
+    if (motorItems.length > 0) {
+      codeBasis.push({ section: '430.24', description: '25% of the largest motor added' });
+    }
+
+    const hvacDemandVA = Math.max(heatingVA, coolingVA);
+    const hvac: LoadBreakdownItem = {
+      description: `HVAC: larger of heating (${heatingVA.toLocaleString()} VA) and cooling (${coolingVA.toLocaleString()} VA)`,
+      section: '220.60',
+      connectedVA: heatingVA + coolingVA,
+      demandVA: hvacDemandVA
+    };
+
+    const otherItems: LoadBreakdownItem[] = otherLoads.map(load => ({
+      description: `${load.name}${load.continuous ? ' (continuous)' : ''}`,
+      section: '220.14',
+      connectedVA: loadVA(load),
+      demandVA: loadVA(load) * (load.continuous ? continuous : 1)
+    }));
+
+    const breakdown = [lighting, receptacles, signs, kitchen, ...motorItems, hvac, ...otherItems]
+      .filter(item => item.connectedVA > 0 || item.demandVA > 0);
+    const sumDemand = (items: LoadBreakdownItem[]) => items.reduce((sum, item) => sum + item.demandVA, 0);
+
+    return buildResults(
+      {
+        generalLoadVA: lightingConnectedVA + receptacleConnectedVA,
+        generalDemand: sumDemand([lighting, receptacles, signs]),
+        applianceDemand: sumDemand([kitchen, ...motorItems, ...otherItems]),
+        hvacDemand: hvacDemandVA
+      },
+      breakdown,
+      { voltage, phases, mainBreaker },
+      rules.codeYear,
+      codeBasis,
+      warnings,
+      errors
+    );
+  } catch (error) {
+    throw ErrorHandlingService.handleCalculationError(
+      'commercial load calculation',
+      { occupancy: input?.occupancy, squareFootage: input?.squareFootage, codeYear },
+      error,
+      'occupancyLoadCalculations.calculateCommercialDemand'
+    );
+  }
+};
@@ -9,6 +9,8 @@ import type {
 } from '../types';
 import { AttachmentService } from './attachmentService';
 import { CRMProjectIntegrationService } from './crmProjectIntegrationService';
+import { PlanSetService } from './planSetService';
+import type { PlanSetOptions, PlanSetResult } from './planSetService';
 
 export const exportToPDF = async (
   calculations: CalculationResults,
@@ -42,6 +44,8 @@ export const exportToPDF = async (
   const margin = 15;
   const contentWidth = pageWidth - (2 * margin);
   let currentY = 18;
+  // The edition the calculation actually ran under wins over the form setting
+  const reportCodeYear = calculations.codeYear || codeYear;
 
   // === PROFESSIONAL MINIMALIST HEADER ===
   // Clean title without heavy background
@@ -57,8 +61,10 @@ export const exportToPDF = async (
   pdf.setTextColor(107, 114, 128); // Medium gray
   const methodText = calculationMethod === 'optional' ? 'NEC 220.83 Optional Method' : 
                      calculationMethod === 'standard' ? 'NEC 220.42 Standard Method' : 
+                     calculationMethod === 'multifamily' ? 'NEC 220.84 Multifamily Dwelling Method' :
+                     calculationMethod === 'commercial' ? 'NEC 220.40 Commercial Occupancy Method' :
                      'NEC 220.87 Existing Dwelling Method';
-  pdf.text(`${methodText} • NEC ${codeYear} Compliant`, pageWidth / 2, currentY, { align: 'center' });
+  pdf.text(`${methodText} • NEC ${reportCodeYear} Compliant`, pageWidth / 2, currentY, { align: 'center' });
   
   // Subtle divider line
   currentY += 6;
@@ -629,6 +635,37 @@ export const exportToPDF = async (
     sectionY += 8;
   }
 
+  // Code basis: the edition-specific rules the calculation applied
+  if (calculations.codeBasis && calculations.codeBasis.length > 0) {
+    if (sectionY + 10 + calculations.codeBasis.length * 4 > 250) {
+      pdf.addPage();
+      sectionY = 20;
+    }
+
+    sectionY += 5;
+    pdf.setFillColor(107, 114, 128); // Gray accent
+    pdf.rect(margin, sectionY - 2, 3, 7, 'F');
+
+    pdf.setFontSize(11);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(31, 41, 55);
+    pdf.text(`CODE BASIS - NEC ${reportCodeYear}`, margin + 6, sectionY + 2);
+    sectionY += 9;
+
+    pdf.setFontSize(8);
+    pdf.setTextColor(55, 65, 81);
+    calculations.codeBasis.forEach(entry => {
+      pdf.setFont('helvetica', 'bold');
+      pdf.text(`NEC ${entry.section}`, margin + 2, sectionY);
+      pdf.setFont('helvetica', 'normal');
+      pdf.text(entry.description, margin + 35, sectionY);
+      sectionY += 4;
+    });
+
+    pdf.setTextColor(0, 0, 0);
+    sectionY += 4;
+  }
+
   // === AERIAL VIEW ATTACHMENTS SECTION ===
   if (projectId) {
     try {
@@ -753,7 +790,7 @@ export const exportToPDF = async (
   pdf.setFontSize(7);
   pdf.setFont('helvetica', 'normal');
   pdf.setTextColor(107, 114, 128);
-  pdf.text(`NEC ${codeYear} Compliant Calculation • Generated: ${new Date().toLocaleDateString()}`, margin, footerY + 4);
+  pdf.text(`NEC ${reportCodeYear} Compliant Calculation • Generated: ${new Date().toLocaleDateString()}`, margin, footerY + 4);
   
   // Key metrics aligned right
   const footerSpareCapacity = calculations.spareCapacity || 0;
@@ -798,4 +835,23 @@ export const exportToPDF = async (
     // Don't let CRM errors break the PDF export
     console.warn('Failed to save PDF to CRM (continuing with local save):', crmError);
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Build the multi-sheet permit plan set and download it
+ */
+export const exportPlanSetPDF = async (options: PlanSetOptions): Promise<PlanSetResult> => {
+  const result = await PlanSetService.generatePlanSet(options);
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to generate plan set');
+  }
+
+  const url = URL.createObjectURL(result.data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = result.filename;
+  link.click();
+  URL.revokeObjectURL(url);
+
+  return result;
+};
@@ -0,0 +1,203 @@
+/**
+ * Phase Balancing Service
+ *
+ * Per-phase loading for single-phase 3-wire and three-phase 4-wire wye services:
+ * - Service system lookup from panel voltage and phase count
+ * - Per-phase VA and line current with the neutral current from the phasor sum
+ * - Auto-balancing of branch circuits across phases A/B/C
+ * - Breaker slot numbering that matches the assigned phases
+ */
+
+import type { PhaseConnection, PhaseId, PhaseLoadSummary, ServiceSystemId } from '../types';
+
+export interface ServiceSystem {
+  id: ServiceSystemId;
+  phases: 1 | 3;
+  lineToLine: number;
+  lineToNeutral: number;
+  conductors: PhaseId[];
+  // 120/240V legs are 180° apart; wye phases are 120° apart
+  neutralAngle: 180 | 120;
+}
+
+export interface PhaseLoad {
+  id: string;
+  va: number;
+  poles: 1 | 2 | 3;
+  phase?: PhaseConnection;
+  // Circuit number in the panel, when the load is a branch circuit
+  number?: number;
+}
+
+export const SERVICE_SYSTEMS: Record<ServiceSystemId, ServiceSystem> = {
+  '120/240V 1Φ': { id: '120/240V 1Φ', phases: 1, lineToLine: 240, lineToNeutral: 120, conductors: ['A', 'B'], neutralAngle: 180 },
+  '120/208V 1Φ': { id: '120/208V 1Φ', phases: 1, lineToLine: 208, lineToNeutral: 120, conductors: ['A', 'B'], neutralAngle: 120 },
+  '208Y/120V 3Φ': { id: '208Y/120V 3Φ', phases: 3, lineToLine: 208, lineToNeutral: 120, conductors: ['A', 'B', 'C'], neutralAngle: 120 },
+  '480Y/277V 3Φ': { id: '480Y/277V 3Φ', phases: 3, lineToLine: 480, lineToNeutral: 277, conductors: ['A', 'B', 'C'], neutralAngle: 120 }
+};
+
+const emptyPhases = (): Record<PhaseId, number> => ({ A: 0, B: 0, C: 0 });
+
+const phasesOf = (connection: PhaseConnection): PhaseId[] => connection.split('') as PhaseId[];
+
+export class PhaseBalancingService {
+
+  /**
+   * Service system for a panel; 208 V single-phase panels are fed from a wye network
+   */
+  static getServiceSystem(phases: number, voltage: number): ServiceSystem {
+    if (phases === 3) {
+      return voltage >= 400 ? SERVICE_SYSTEMS['480Y/277V 3Φ'] : SERVICE_SYSTEMS['208Y/120V 3Φ'];
+    }
+    return voltage === 208 ? SERVICE_SYSTEMS['120/208V 1Φ'] : SERVICE_SYSTEMS['120/240V 1Φ'];
+  }
+
+  /**
+   * Line current of a balanced load on the service
+   */
+  static lineCurrent(va: number, system: ServiceSystem): number {
+    return system.phases === 3
+      ? va / (system.lineToLine * Math.sqrt(3))
+      : va / system.lineToLine;
+  }
+
+  /**
+   * Pole count for a load from its voltage: line-to-neutral loads take one pole
+   */
+  static polesForVoltage(volts: number, system: ServiceSystem): 1 | 2 {
+    return volts > 0 && volts <= system.lineToNeutral ? 1 : 2;
+  }
+
+  /**
+   * Connections a load with the given pole count can take on the system
+   */
+  static getConnectionOptions(poles: 1 | 2 | 3, system: ServiceSystem): PhaseConnection[] {
+    if (poles === 1) return system.conductors;
+    if (system.phases === 1) return ['AB'];
+    return poles === 2 ? ['AB', 'BC', 'CA'] : ['ABC'];
+  }
+
+  /**
+   * Per-phase VA, line currents and neutral current for loads with phases assigned
+   */
+  static summarize(loads: PhaseLoad[], system: ServiceSystem): PhaseLoadSummary {
+    const phaseVA = emptyPhases();
+    const phaseAmps = emptyPhases();
+    // Line-to-neutral current per phase; only these return on the neutral
+    const neutralLegAmps = emptyPhases();
+
+    loads.forEach(load => {
+      const connection = load.phase ?? this.getConnectionOptions(load.poles, system)[0];
+      const phases = phasesOf(connection);
+      const lineAmps = phases.length === 1
+        ? load.va / system.lineToNeutral
+        : phases.length === 2
+          ? load.va / system.lineToLine
+          : load.va / (system.lineToLine * Math.sqrt(3));
+
+      phases.forEach(phase => {
+        phaseVA[phase] += load.va / phases.length;
+        phaseAmps[phase] += lineAmps;
+      });
+      if (phases.length === 1) {
+        neutralLegAmps[phases[0]] += lineAmps;
+      }
+    });
+
+    const { A, B, C } = neutralLegAmps;
+    const neutralAmps = system.neutralAngle === 180
+      ? Math.abs(A - B)
+      : Math.sqrt(Math.max(0, A * A + B * B + C * C - A * B - B * C - C * A));
+
+    const used = system.conductors.map(phase => phaseAmps[phase]);
+    const average = used.reduce((sum, amps) => sum + amps, 0) / used.length;
+    const imbalancePercent = average > 0
+      ? (Math.max(...used.map(amps => Math.abs(amps - average))) / average) * 100
+      : 0;
+
+    return { system: system.id, phaseVA, phaseAmps, neutralAmps, imbalancePercent };
+  }
+
+  /**
+   * Assign loads to phases, largest first, each onto the connection that keeps
+   * the most heavily loaded phase lowest
+   */
+  static balance(loads: PhaseLoad[], system: ServiceSystem): PhaseLoad[] {
+    const phaseVA = emptyPhases();
+    const assigned = new Map<string, PhaseConnection>();
+
+    [...loads]
+      .sort((a, b) => b.va - a.va || a.id.localeCompare(b.id))
+      .forEach(load => {
+        let best: { connection: PhaseConnection; peak: number; spread: number } | null = null;
+        for (const connection of this.getConnectionOptions(load.poles, system)) {
+          const phases = phasesOf(connection);
+          const trial = { ...phaseVA };
+          phases.forEach(phase => { trial[phase] += load.va / phases.length; });
+          const levels = system.conductors.map(phase => trial[phase]);
+          const peak = Math.max(...levels);
+          const spread = peak - Math.min(...levels);
+          if (!best || peak < best.peak - 1e-9 || (Math.abs(peak - best.peak) <= 1e-9 && spread < best.spread - 1e-9)) {
+            best = { connection, peak, spread };
+          }
+        }
+        const phases = phasesOf(best!.connection);
+        phases.forEach(phase => { phaseVA[phase] += load.va / phases.length; });
+        assigned.set(load.id, best!.connection);
+      });
+
+    return loads.map(load => ({ ...load, phase: assigned.get(load.id) }));
+  }
+
+  /**
+   * Phase of a breaker slot: slots run in pairs down the panel, rotating A-B(-C)
+   */
+  static getSlotPhase(slot: number, system: ServiceSystem): PhaseId {
+    const row = Math.ceil(slot / 2);
+    return system.conductors[(row - 1) % system.conductors.length];
+  }
+
+  /**
+   * Number circuits so each lands in a slot on its assigned phases; multi-pole
+   * breakers take vertically adjacent slots. Circuits keep their relative order.
+   */
+  static assignSlots(loads: PhaseLoad[], system: ServiceSystem): Map<string, number> {
+    const taken = new Set<number>();
+    const slots = new Map<string, number>();
+
+    [...loads]
+      .sort((a, b) => (a.number ?? Infinity) - (b.number ?? Infinity))
+      .forEach(load => {
+        // A connection the panel cannot take (e.g. ABC in a single-phase panel) falls back to the default
+        const connection = load.phase && phasesOf(load.phase).every(phase => system.conductors.includes(phase))
+          ? load.phase
+          : this.getConnectionOptions(load.poles, system)[0];
+        const required = new Set(phasesOf(connection));
+        for (let slot = 1; ; slot++) {
+          const span = Array.from({ length: required.size }, (_, index) => slot + index * 2);
+          const fits = span.every(position => !taken.has(position)) &&
+            span.every(position => required.has(this.getSlotPhase(position, system)));
+          if (fits) {
+            span.forEach(position => taken.add(position));
+            slots.set(load.id, slot);
+            break;
+          }
+        }
+      });
+
+    return slots;
+  }
+
+  /**
+   * Format per-phase totals for schedules and reports
+   */
+  static describe(summary: PhaseLoadSummary): string[] {
+    const phases = SERVICE_SYSTEMS[summary.system].conductors;
+    return [
+      `${summary.system} phase loading: ` + phases
+        .map(phase => `${phase} ${Math.round(summary.phaseVA[phase]).toLocaleString()} VA (${summary.phaseAmps[phase].toFixed(1)} A)`)
+        .join(', '),
+      `Neutral current ${summary.neutralAmps.toFixed(1)} A, phase imbalance ${summary.imbalancePercent.toFixed(1)}%`
+    ];
+  }
+}
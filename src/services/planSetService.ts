@@ -0,0 +1,988 @@
+/**
+ * Permit Plan Set Service
+ *
+ * Builds one sheet-indexed PDF for permit submission: a cover sheet with the
+ * site map, sheet index and load calculation summary, followed by the load
+ * calculation, single-line diagram, panel and wire schedules, equipment cut
+ * sheets and NEC placards. Every sheet carries the same title block, and
+ * revisions are listed in the title block and clouded on the sheets they touch.
+ */
+
+import jsPDF from 'jspdf';
+import type { TitleBlockData } from '../components/SLD/TitleBlockTemplates';
+import type { ComponentTemplate } from '../data/componentTemplates';
+import type { CalculationMethod, CalculationResults, ProjectInformation } from '../types';
+import { getNECRulePack } from '../constants';
+import { AttachmentService } from './attachmentService';
+import { AutomaticScheduleGenerator } from './automaticScheduleGenerator';
+import type {
+  ProjectReference,
+  ScheduleData,
+  SLDCircuitData,
+  SLDPanelData
+} from './automaticScheduleGenerator';
+import { MultiFormatExportService, PLAN_SHEET_SIZES } from './multiFormatExportService';
+import { StringSizingService } from './stringSizingService';
+import type { PVLayout } from '../types/pvLayout';
+import type { ExportData, PDFScheduleLayout, PlanSheetSize } from './multiFormatExportService';
+
+export type PlanSetSheetKind =
+  | 'cover'
+  | 'load_calculation'
+  | 'single_line'
+  | 'panel_schedules'
+  | 'wire_schedule'
+  | 'cut_sheets'
+  | 'placards';
+
+/**
+ * Project-wide title block fields; drawing number, title and sheet count are
+ * filled in per sheet
+ */
+export type PlanSetTitleBlock = Omit<TitleBlockData, 'drawingTitle' | 'drawingNumber' | 'sheetNumber' | 'totalSheets'>;
+
+export interface PlanSetRevisionCloud {
+  sheet: string; // Sheet number (e.g. 'E-2') or a sheet kind to cloud every sheet of that kind
+  x: number; // mm from the left edge of the sheet
+  y: number; // mm from the top edge of the sheet
+  width: number;
+  height: number;
+}
+
+export interface PlanSetRevision {
+  revision: string;
+  date: string;
+  description: string;
+  clouds?: PlanSetRevisionCloud[];
+}
+
+export interface PlanSetLoadCalculation {
+  results: CalculationResults;
+  method: CalculationMethod;
+  mainBreaker: number;
+  codeYear: string;
+  squareFootage?: number;
+}
+
+export interface PlanSetCutSheet {
+  title: string;
+  manufacturer?: string;
+  model?: string;
+  imageData?: string; // Data URL of the product image or data sheet page
+  specifications: Record<string, string | number | boolean>;
+  certifications?: string[];
+  sourceUrl?: string;
+}
+
+export interface PlanSetPlacard {
+  id: string;
+  necReference: string;
+  style: 'danger' | 'warning' | 'caution';
+  heading: string;
+  lines: string[];
+  location?: string;
+}
+
+export interface PlanSetOptions {
+  titleBlock: PlanSetTitleBlock;
+  paperSize?: PlanSheetSize;
+  orientation?: 'portrait' | 'landscape';
+  sheetOrder?: PlanSetSheetKind[];
+  revisions?: PlanSetRevision[];
+  projectId?: string; // Aerial captures in AttachmentService supply the site map
+  siteMap?: string; // Data URL used instead of the aerial capture
+  loadCalculation?: PlanSetLoadCalculation;
+  diagram?: ExportData;
+  panels?: SLDPanelData[];
+  circuits?: SLDCircuitData[]; // Wire schedule circuits; defaults to every panel circuit
+  pvLayout?: PVLayout; // Adds the DC source circuits of its sized strings to the wire schedule
+  cutSheets?: PlanSetCutSheet[];
+  placards?: PlanSetPlacard[]; // Defaults to the placards the load calculation calls for
+}
+
+export interface PlanSetSheet {
+  kind: PlanSetSheetKind;
+  number: string;
+  title: string;
+  page: number;
+}
+
+export interface PlanSetResult {
+  success: boolean;
+  data?: Blob;
+  filename: string;
+  sheets: PlanSetSheet[];
+  warnings: string[];
+  error?: string;
+}
+
+interface PlanSetImage {
+  data: string;
+  width?: number;
+  height?: number;
+  caption?: string;
+}
+
+const DEFAULT_SHEET_ORDER: PlanSetSheetKind[] = [
+  'cover',
+  'load_calculation',
+  'single_line',
+  'panel_schedules',
+  'wire_schedule',
+  'cut_sheets',
+  'placards'
+];
+
+const SHEET_DEFINITIONS: Record<PlanSetSheetKind, { prefix: string; title: string }> = {
+  cover: { prefix: 'G', title: 'COVER SHEET' },
+  load_calculation: { prefix: 'E', title: 'LOAD CALCULATION' },
+  single_line: { prefix: 'E', title: 'SINGLE LINE DIAGRAM' },
+  panel_schedules: { prefix: 'E', title: 'PANEL SCHEDULE' },
+  wire_schedule: { prefix: 'E', title: 'WIRE & CONDUIT SCHEDULE' },
+  cut_sheets: { prefix: 'E', title: 'EQUIPMENT CUT SHEET' },
+  placards: { prefix: 'E', title: 'NEC PLACARDS & LABELS' }
+};
+
+const METHOD_SECTIONS: Record<CalculationMethod, { section: string; name: string }> = {
+  optional: { section: '220.83', name: 'Optional Method' },
+  standard: { section: '220.42', name: 'Standard Method' },
+  existing: { section: '220.87', name: 'Existing Dwelling Method' },
+  multifamily: { section: '220.84', name: 'Multifamily Dwelling Method' },
+  commercial: { section: '220.40', name: 'Commercial Occupancy Method' }
+};
+
+// Sheet layout in mm
+const MARGIN = 10;
+const TITLE_BLOCK_HEIGHT = 32;
+const TITLE_BLOCK_GAP = 4;
+const TITLE_BLOCK_COLUMNS = [0.3, 0.25, 0.3, 0.15];
+const TITLE_BLOCK_REVISION_ROWS = 4;
+const MIN_FONT_SIZE = 6.75;
+const CLOUD_SCALLOP = 8;
+const PLACARD_COLORS: Record<PlanSetPlacard['style'], { fill: [number, number, number]; text: [number, number, number] }> = {
+  danger: { fill: [185, 28, 28], text: [255, 255, 255] },
+  warning: { fill: [234, 88, 12], text: [0, 0, 0] },
+  caution: { fill: [250, 204, 21], text: [0, 0, 0] }
+};
+
+export class PlanSetService {
+  static readonly DEFAULT_SHEET_ORDER: readonly PlanSetSheetKind[] = DEFAULT_SHEET_ORDER;
+
+  static getSheetTitle(kind: PlanSetSheetKind): string {
+    return SHEET_DEFINITIONS[kind].title;
+  }
+
+  /**
+   * Title block fields from the load calculator's project information
+   */
+  static titleBlockFromProject(projectInfo: ProjectInformation, codeYear: string): PlanSetTitleBlock {
+    const address = [projectInfo.propertyAddress, projectInfo.city, [projectInfo.state, projectInfo.zipCode].filter(Boolean).join(' ')]
+      .filter(Boolean)
+      .join(', ');
+    return {
+      projectName: projectInfo.projectName || projectInfo.customerName || 'Untitled Project',
+      projectNumber: projectInfo.projectNumber || projectInfo.jobNumber || undefined,
+      revision: '0',
+      date: projectInfo.date || new Date().toISOString().slice(0, 10),
+      drawnBy: projectInfo.calculatedBy || projectInfo.contractorName || '',
+      approvedBy: projectInfo.engineerName || undefined,
+      client: projectInfo.customerName,
+      address,
+      permitNumber: projectInfo.permitNumber || undefined,
+      ahj: projectInfo.jurisdiction || undefined,
+      scale: 'NTS',
+      necCodeYear: ['2017', '2020', '2023'].includes(codeYear) ? codeYear as PlanSetTitleBlock['necCodeYear'] : undefined
+    };
+  }
+
+  /**
+   * Build the plan set. Sheet kinds without data are skipped with a warning;
+   * numbering follows the final sheet order.
+   */
+  static async generatePlanSet(options: PlanSetOptions): Promise<PlanSetResult> {
+    const warnings: string[] = [];
+    try {
+      const paperSize = options.paperSize ?? 'ansi_b';
+      const pdf = new jsPDF({
+        orientation: options.orientation ?? 'landscape',
+        unit: 'mm',
+        format: PLAN_SHEET_SIZES[paperSize]
+      });
+      const order = options.sheetOrder ?? DEFAULT_SHEET_ORDER;
+      const sheets: PlanSetSheet[] = [];
+      const addSheet = (kind: PlanSetSheetKind, title = SHEET_DEFINITIONS[kind].title) => {
+        if (sheets.length > 0) pdf.addPage();
+        sheets.push({ kind, title, number: '', page: pdf.getNumberOfPages() });
+      };
+      const scheduleLayout = (kind: PlanSetSheetKind, title?: string): PDFScheduleLayout => ({
+        margin: MARGIN,
+        bottom: this.getDrawingBottom(pdf),
+        startSheet: () => addSheet(kind, title)
+      });
+      const reference = this.getProjectReference(options.titleBlock);
+      const panels = options.panels ?? [];
+      const circuits = [
+        ...(options.circuits ?? panels.flatMap(panel => panel.circuits)),
+        ...(options.pvLayout ? StringSizingService.layoutDCCircuits(options.pvLayout) : [])
+      ];
+
+      for (const kind of order) {
+        switch (kind) {
+          case 'cover':
+            addSheet(kind);
+            break;
+          case 'load_calculation':
+            if (!options.loadCalculation) {
+              warnings.push('Load calculation sheet skipped: no calculation results were provided');
+              break;
+            }
+            MultiFormatExportService.addScheduleToPDF(
+              pdf,
+              this.generateLoadCalculationSchedule(options.loadCalculation, reference),
+              scheduleLayout(kind)
+            );
+            break;
+          case 'single_line':
+            if (!options.diagram) {
+              warnings.push('Single line diagram sheet skipped: no diagram was provided');
+              break;
+            }
+            addSheet(kind);
+            this.drawSingleLine(pdf, options.diagram);
+            break;
+          case 'panel_schedules':
+            if (panels.length === 0) {
+              warnings.push('Panel schedule sheets skipped: no panels were provided');
+              break;
+            }
+            panels.forEach(panel => MultiFormatExportService.addScheduleToPDF(
+              pdf,
+              AutomaticScheduleGenerator.generatePanelSchedule(panel, reference),
+              scheduleLayout(kind, `${SHEET_DEFINITIONS[kind].title} - ${panel.name.toUpperCase()}`)
+            ));
+            break;
+          case 'wire_schedule':
+            if (circuits.length === 0) {
+              warnings.push('Wire schedule sheet skipped: no circuits were provided');
+              break;
+            }
+            MultiFormatExportService.addScheduleToPDF(
+              pdf,
+              AutomaticScheduleGenerator.generateWireSchedule(circuits, reference),
+              scheduleLayout(kind)
+            );
+            break;
+          case 'cut_sheets':
+            if (!options.cutSheets?.length) {
+              warnings.push('Cut sheets skipped: no equipment cut sheets were provided');
+              break;
+            }
+            options.cutSheets.forEach(cutSheet => {
+              addSheet(kind, `${SHEET_DEFINITIONS[kind].title} - ${cutSheet.title.toUpperCase()}`);
+              this.drawCutSheet(pdf, cutSheet, warnings);
+            });
+            break;
+          case 'placards': {
+            const placards = options.placards ??
+              (options.loadCalculation ? this.getDefaultPlacards(options.loadCalculation) : []);
+            if (placards.length === 0) {
+              warnings.push('Placard sheet skipped: no placards apply');
+              break;
+            }
+            addSheet(kind);
+            this.drawPlacards(pdf, placards, () => addSheet(kind));
+            break;
+          }
+        }
+      }
+
+      this.numberSheets(sheets);
+
+      const cover = sheets.find(sheet => sheet.kind === 'cover');
+      if (cover) {
+        const siteMap = await this.loadSiteMap(options, warnings);
+        pdf.setPage(cover.page);
+        this.drawCoverSheet(pdf, options, sheets, siteMap, warnings);
+      }
+
+      const revisions = options.revisions ?? [];
+      sheets.forEach((sheet, index) => {
+        pdf.setPage(sheet.page);
+        this.drawTitleBlock(pdf, this.getSheetTitleBlock(options, sheet, index, sheets.length), revisions);
+        revisions.forEach(revision => {
+          revision.clouds
+            ?.filter(cloud => cloud.sheet === sheet.number || cloud.sheet === sheet.kind)
+            .forEach(cloud => this.drawRevisionCloud(pdf, cloud, revision.revision));
+        });
+      });
+
+      const blob = pdf.output('blob');
+      return {
+        success: true,
+        data: blob,
+        filename: this.generateFilename(options.titleBlock.projectName),
+        sheets,
+        warnings
+      };
+    } catch (error) {
+      return {
+        success: false,
+        filename: '',
+        sheets: [],
+        warnings,
+        error: error instanceof Error ? error.message : 'Unknown plan set error'
+      };
+    }
+  }
+
+  /**
+   * Cut sheet content from a component library template
+   */
+  static createCutSheet(
+    template: Pick<ComponentTemplate, 'name' | 'manufacturer' | 'model' | 'specifications'>,
+    imageData?: string
+  ): PlanSetCutSheet {
+    const specifications: PlanSetCutSheet['specifications'] = {};
+    Object.entries(template.specifications).forEach(([key, value]) => {
+      if (['string', 'number', 'boolean'].includes(typeof value)) {
+        specifications[this.humanizeKey(key)] = value;
+      }
+    });
+    return {
+      title: template.name,
+      manufacturer: template.manufacturer,
+      model: template.model,
+      imageData,
+      specifications
+    };
+  }
+
+  /**
+   * Placards the calculation calls for: service disconnect always; PV rapid
+   * shutdown, source directory and backfed breaker labels with solar; ESS
+   * disconnect with storage
+   */
+  static getDefaultPlacards(calculation: PlanSetLoadCalculation): PlanSetPlacard[] {
+    const { results } = calculation;
+    const placards: PlanSetPlacard[] = [
+      {
+        id: 'service_disconnect',
+        necReference: '230.70(B)',
+        style: 'danger',
+        heading: 'MAIN SERVICE DISCONNECT',
+        lines: [`RATED ${calculation.mainBreaker} A, 120/240 V`],
+        location: 'Service equipment'
+      }
+    ];
+
+    if (results.solarCapacityKW > 0) {
+      const outputCurrent = Math.round(results.solarCapacityKW * 1000 / 240 * 10) / 10;
+      placards.push(
+        {
+          id: 'rapid_shutdown',
+          necReference: '690.56(C)',
+          style: 'caution',
+          heading: 'SOLAR PV SYSTEM EQUIPPED WITH RAPID SHUTDOWN',
+          lines: [
+            "TURN RAPID SHUTDOWN SWITCH TO THE 'OFF' POSITION",
+            'TO SHUT DOWN PV SYSTEM AND REDUCE',
+            'SHOCK HAZARD IN THE ARRAY'
+          ],
+          location: 'Within 3 ft of the service disconnect'
+        },
+        {
+          id: 'pv_ac_disconnect',
+          necReference: '690.54',
+          style: 'warning',
+          heading: 'PHOTOVOLTAIC SYSTEM AC DISCONNECT',
+          lines: [`RATED AC OUTPUT CURRENT: ${outputCurrent} A`, 'NOMINAL OPERATING AC VOLTAGE: 240 V'],
+          location: 'PV AC disconnect'
+        },
+        {
+          id: 'power_source_directory',
+          necReference: '705.10',
+          style: 'warning',
+          heading: 'CAUTION: MULTIPLE SOURCES OF POWER',
+          lines: ['THIS SERVICE IS ALSO SUPPLIED BY A', 'PHOTOVOLTAIC SYSTEM. DISCONNECTS', 'LOCATED AS SHOWN ON SITE MAP.'],
+          location: 'Service equipment'
+        },
+        {
+          id: 'backfed_breaker',
+          necReference: '705.12(B)(3)(2)',
+          style: 'danger',
+          heading: 'WARNING: POWER SOURCE OUTPUT CONNECTION',
+          lines: ['DO NOT RELOCATE THIS', 'OVERCURRENT DEVICE'],
+          location: 'Adjacent to the backfed breaker'
+        }
+      );
+    }
+
+    if (results.batteryCapacityKW > 0) {
+      placards.push({
+        id: 'ess_disconnect',
+        necReference: '706.15(C)',
+        style: 'warning',
+        heading: 'ENERGY STORAGE SYSTEM DISCONNECT',
+        lines: [`RATED POWER: ${results.batteryCapacityKW} kW`, 'NOMINAL AC VOLTAGE: 240 V'],
+        location: 'ESS disconnecting means'
+      });
+    }
+
+    return placards;
+  }
+
+  /**
+   * Load calculation laid out as a schedule so it shares the table renderer
+   */
+  static generateLoadCalculationSchedule(calculation: PlanSetLoadCalculation, projectInfo: ProjectReference): ScheduleData {
+    const { results, mainBreaker } = calculation;
+    const rules = getNECRulePack(results.codeYear);
+    // Multifamily and commercial results carry their own line-by-line demand
+    const demandItems: [string, string, number, string][] = results.breakdown
+      ? results.breakdown.map(item => [item.description, item.section, item.demandVA, 'VA'])
+      : [
+        ['General lighting & receptacles (connected)', rules.generalLoads.lightingSection, results.generalLoadVA, 'VA'],
+        ['General lighting & receptacles (demand)', rules.demandFactors.standard.section, results.generalDemand, 'VA'],
+        ['Fixed appliances', '220.53', results.applianceDemand, 'VA'],
+        ['Heating & air conditioning', '220.60', results.hvacDemand, 'VA'],
+        ['EV charging equipment', '220.57', results.evseDemand, 'VA'],
+        ['Battery charging', '706', results.batteryChargingDemand, 'VA']
+      ];
+    const currentLabel = results.phaseLoads
+      ? `Calculated load current at ${results.phaseLoads.system}`
+      : results.breakdown ? 'Calculated load current' : 'Calculated load current at 240 V';
+    const items: [string, string, number, string][] = [
+      ...demandItems,
+      ['Total calculated demand', '220.40', results.totalDemand, 'VA'],
+      [currentLabel, '220.40', results.totalAmps, 'A'],
+      ['Service rating', '230.79', mainBreaker, 'A'],
+      ['Recommended service size', '230.42', results.recommendedServiceSize, 'A'],
+      ['Spare capacity', '', results.spareCapacity, '%']
+    ];
+    if (results.solarCapacityKW > 0 || results.batteryCapacityKW > 0) {
+      items.push(
+        ['PV system capacity', '690', results.solarCapacityKW, 'kW'],
+        ['Energy storage capacity', '706', results.batteryCapacityKW, 'kW'],
+        [`Interconnection current (${results.interconnectionCompliant ? 'compliant' : 'NOT compliant'})`, '705.12', results.totalInterconnectionAmps, 'A']
+      );
+    }
+
+    const totalRows = new Set([demandItems.length, demandItems.length + 1]);
+    return {
+      id: 'load_calculation',
+      type: 'load',
+      title: 'ELECTRICAL LOAD CALCULATION',
+      subtitle: `${this.getMethodLabel(calculation.method)} - NEC ${results.codeYear || calculation.codeYear}` +
+        (calculation.squareFootage ? ` - ${calculation.squareFootage.toLocaleString()} sq ft` : ''),
+      lastUpdated: projectInfo.date,
+      projectInfo,
+      headers: [
+        { id: 'item', header: 'LOAD', width: 55, align: 'left', dataType: 'text' },
+        { id: 'reference', header: 'NEC', width: 15, align: 'center', dataType: 'text' },
+        { id: 'value', header: 'VALUE', width: 20, align: 'right', dataType: 'number' },
+        { id: 'unit', header: 'UNIT', width: 10, align: 'center', dataType: 'text' }
+      ],
+      rows: items.map(([item, reference, value, unit], index) => ({
+        id: `load_${index}`,
+        highlighted: totalRows.has(index),
+        cells: [
+          { value: item, style: totalRows.has(index) ? { fontWeight: 'bold' } : undefined },
+          { value: reference },
+          { value, formatted: this.formatNumber(value, unit) },
+          { value: unit }
+        ]
+      })),
+      notes: [...results.errors, ...results.warnings].map(message => `${message.type.toUpperCase()}: ${message.message}`),
+      necReferences: results.codeBasis
+        ? results.codeBasis.map(entry => `NEC ${entry.section}`)
+        : ['NEC 220.40', `NEC ${METHOD_SECTIONS[calculation.method].section}`]
+    };
+  }
+
+  private static getMethodLabel(method: CalculationMethod): string {
+    const { section, name } = METHOD_SECTIONS[method];
+    return `NEC ${section} ${name}`;
+  }
+
+  private static getProjectReference(titleBlock: PlanSetTitleBlock): ProjectReference {
+    const date = new Date(titleBlock.date);
+    return {
+      name: titleBlock.projectName,
+      number: titleBlock.projectNumber,
+      address: titleBlock.address,
+      engineer: titleBlock.approvedBy,
+      date: isNaN(date.getTime()) ? new Date() : date
+    };
+  }
+
+  /**
+   * Sheet numbers count up per discipline prefix in plan set order
+   */
+  private static numberSheets(sheets: PlanSetSheet[]): void {
+    const counters: Record<string, number> = {};
+    sheets.forEach(sheet => {
+      const prefix = SHEET_DEFINITIONS[sheet.kind].prefix;
+      counters[prefix] = (counters[prefix] ?? 0) + 1;
+      sheet.number = `${prefix}-${counters[prefix]}`;
+    });
+  }
+
+  private static getSheetTitleBlock(
+    options: PlanSetOptions,
+    sheet: PlanSetSheet,
+    index: number,
+    totalSheets: number
+  ): TitleBlockData {
+    const latest = options.revisions?.[options.revisions.length - 1];
+    return {
+      ...options.titleBlock,
+      revision: latest?.revision ?? options.titleBlock.revision,
+      scale: sheet.kind === 'single_line' ? options.titleBlock.scale : 'NTS',
+      drawingTitle: sheet.title,
+      drawingNumber: sheet.number,
+      sheetNumber: String(index + 1),
+      totalSheets: String(totalSheets)
+    };
+  }
+
+  private static getDrawingBottom(pdf: jsPDF): number {
+    return pdf.internal.pageSize.getHeight() - MARGIN - TITLE_BLOCK_HEIGHT - TITLE_BLOCK_GAP;
+  }
+
+  private static async loadSiteMap(options: PlanSetOptions, warnings: string[]): Promise<PlanSetImage | null> {
+    if (options.siteMap) return { data: options.siteMap };
+    if (!options.projectId) return null;
+
+    const captures = AttachmentService.getProjectAttachments(options.projectId, { type: ['satellite_image'] });
+    const capture = captures.find(attachment => attachment.markedForExport) ?? captures[0];
+    if (!capture) {
+      warnings.push('No aerial capture found for the site map');
+      return null;
+    }
+    try {
+      return {
+        data: capture.base64Data ?? await AttachmentService.urlToBase64(capture.url),
+        width: capture.metadata.width,
+        height: capture.metadata.height,
+        caption: capture.name
+      };
+    } catch {
+      warnings.push(`Aerial capture "${capture.name}" could not be loaded for the site map`);
+      return null;
+    }
+  }
+
+  /**
+   * Image scaled to fit the box and centered in it; returns false when the
+   * image cannot be embedded
+   */
+  private static drawImage(
+    pdf: jsPDF,
+    image: PlanSetImage,
+    box: { x: number; y: number; width: number; height: number }
+  ): boolean {
+    try {
+      const properties = image.width && image.height ? image : pdf.getImageProperties(image.data);
+      const aspect = (properties.width || 4) / (properties.height || 3);
+      const width = Math.min(box.width, box.height * aspect);
+      const height = width / aspect;
+      const format = /^data:image\/jpe?g/i.test(image.data) ? 'JPEG' : 'PNG';
+      pdf.addImage(image.data, format, box.x + (box.width - width) / 2, box.y + (box.height - height) / 2, width, height);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private static drawCoverSheet(
+    pdf: jsPDF,
+    options: PlanSetOptions,
+    sheets: PlanSetSheet[],
+    siteMap: PlanSetImage | null,
+    warnings: string[]
+  ): void {
+    const { titleBlock, loadCalculation } = options;
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const bottom = this.getDrawingBottom(pdf);
+    const contentWidth = pageWidth - 2 * MARGIN;
+    const mapWidth = contentWidth * 0.6 - 5;
+    const columnX = MARGIN + contentWidth * 0.6;
+    const columnWidth = contentWidth * 0.4;
+    const top = MARGIN + 22;
+
+    pdf.setTextColor(17, 24, 39);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(18);
+    pdf.text('ELECTRICAL PERMIT PLAN SET', MARGIN, MARGIN + 8);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(10);
+    pdf.text(this.fitText(pdf, [titleBlock.projectName, titleBlock.address].filter(Boolean).join(' - '), contentWidth), MARGIN, MARGIN + 15);
+
+    // Site map from the aerial capture
+    this.drawHeading(pdf, 'SITE MAP', MARGIN, top);
+    const mapBox = { x: MARGIN, y: top + 3, width: mapWidth, height: bottom - top - 10 };
+    pdf.setDrawColor(156, 163, 175);
+    pdf.setLineWidth(0.25);
+    pdf.rect(mapBox.x, mapBox.y, mapBox.width, mapBox.height);
+    if (!siteMap || !this.drawImage(pdf, siteMap, { x: mapBox.x + 1, y: mapBox.y + 1, width: mapBox.width - 2, height: mapBox.height - 2 })) {
+      if (siteMap) warnings.push('Site map image could not be embedded');
+      pdf.setFontSize(10);
+      pdf.setTextColor(107, 114, 128);
+      pdf.text('SITE MAP NOT AVAILABLE', mapBox.x + mapBox.width / 2, mapBox.y + mapBox.height / 2, { align: 'center' });
+    }
+    pdf.setFontSize(MIN_FONT_SIZE);
+    pdf.setTextColor(107, 114, 128);
+    pdf.text(this.fitText(pdf, siteMap?.caption ?? 'Site map', mapWidth), MARGIN, mapBox.y + mapBox.height + 4);
+
+    // Sheet index, project data and load calculation summary
+    let y = top;
+    const addRows = (heading: string, rows: [string, string][]) => {
+      this.drawHeading(pdf, heading, columnX, y);
+      y += 5;
+      pdf.setFontSize(8);
+      rows.forEach(([label, value]) => {
+        if (y > bottom) return;
+        pdf.setFont('helvetica', 'bold');
+        pdf.setTextColor(55, 65, 81);
+        pdf.text(label, columnX, y);
+        pdf.setFont('helvetica', 'normal');
+        pdf.setTextColor(17, 24, 39);
+        pdf.text(this.fitText(pdf, value, columnWidth * 0.7), columnX + columnWidth * 0.3, y);
+        y += 4.5;
+      });
+      y += 4;
+    };
+
+    addRows('SHEET INDEX', sheets.map(sheet => [sheet.number, sheet.title]));
+    addRows('PROJECT DATA', [
+      ['CLIENT', titleBlock.client],
+      ['ADDRESS', titleBlock.address],
+      ['AHJ', titleBlock.ahj ?? ''],
+      ['PERMIT NO.', titleBlock.permitNumber ?? ''],
+      ['NEC CODE', titleBlock.necCodeYear ? `NEC ${titleBlock.necCodeYear}` : loadCalculation ? `NEC ${loadCalculation.codeYear}` : ''],
+      ['SERVICE', titleBlock.service ?? (loadCalculation ? `${loadCalculation.mainBreaker} A` : '')],
+      ['VOLTAGE', titleBlock.voltage ?? '']
+    ].filter(([, value]) => value) as [string, string][]);
+
+    if (loadCalculation) {
+      const { results, mainBreaker } = loadCalculation;
+      addRows('LOAD CALCULATION', [
+        ['METHOD', this.getMethodLabel(loadCalculation.method)],
+        ['DEMAND', `${this.formatNumber(results.totalDemand, 'VA')} VA`],
+        ['CURRENT', `${this.formatNumber(results.totalAmps, 'A')} A at 240 V`],
+        ['SERVICE', `${mainBreaker} A (${results.totalAmps <= mainBreaker ? 'adequate' : 'UPGRADE REQUIRED'})`],
+        ['SPARE', `${this.formatNumber(results.spareCapacity, '%')} %`]
+      ]);
+    }
+  }
+
+  private static drawSingleLine(pdf: jsPDF, diagram: ExportData): void {
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    MultiFormatExportService.drawDiagramToPDF(
+      pdf,
+      diagram,
+      {
+        scale: 'fit',
+        includeElements: {
+          titleBlock: false,
+          grid: false,
+          measurements: true,
+          annotations: true,
+          wireRouting: true,
+          schedules: false,
+          legends: false
+        }
+      },
+      MARGIN,
+      { width: pageWidth - 2 * MARGIN, height: this.getDrawingBottom(pdf) - MARGIN }
+    );
+  }
+
+  /**
+   * Product image on the left, specification table on the right
+   */
+  private static drawCutSheet(pdf: jsPDF, cutSheet: PlanSetCutSheet, warnings: string[]): void {
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const bottom = this.getDrawingBottom(pdf);
+    const contentWidth = pageWidth - 2 * MARGIN;
+    const top = MARGIN + 18;
+
+    pdf.setTextColor(17, 24, 39);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(14);
+    pdf.text(this.fitText(pdf, cutSheet.title, contentWidth), MARGIN, MARGIN + 6);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    const identity = [cutSheet.manufacturer, cutSheet.model].filter(Boolean).join(' ');
+    if (identity) pdf.text(this.fitText(pdf, identity, contentWidth), MARGIN, MARGIN + 12);
+
+    let tableX = MARGIN;
+    let tableWidth = contentWidth;
+    if (cutSheet.imageData) {
+      const box = { x: MARGIN, y: top, width: contentWidth * 0.45, height: bottom - top };
+      if (this.drawImage(pdf, { data: cutSheet.imageData }, box)) {
+        tableX = MARGIN + contentWidth * 0.5;
+        tableWidth = contentWidth * 0.5;
+      } else {
+        warnings.push(`Cut sheet image for ${cutSheet.title} could not be embedded`);
+      }
+    }
+
+    this.drawHeading(pdf, 'SPECIFICATIONS', tableX, top);
+    let y = top + 3;
+    const rowHeight = 6;
+    pdf.setFontSize(8);
+    pdf.setLineWidth(0.2);
+    Object.entries(cutSheet.specifications).forEach(([label, value]) => {
+      if (y + rowHeight > bottom) return;
+      pdf.setDrawColor(156, 163, 175);
+      pdf.rect(tableX, y, tableWidth * 0.5, rowHeight);
+      pdf.rect(tableX + tableWidth * 0.5, y, tableWidth * 0.5, rowHeight);
+      pdf.setFont('helvetica', 'bold');
+      pdf.setTextColor(55, 65, 81);
+      pdf.text(this.fitText(pdf, label, tableWidth * 0.5 - 2), tableX + 1, y + rowHeight * 0.68);
+      pdf.setFont('helvetica', 'normal');
+      pdf.setTextColor(17, 24, 39);
+      pdf.text(this.fitText(pdf, String(value), tableWidth * 0.5 - 2), tableX + tableWidth * 0.5 + 1, y + rowHeight * 0.68);
+      y += rowHeight;
+    });
+
+    y += 5;
+    if (cutSheet.certifications?.length && y < bottom) {
+      pdf.text(this.fitText(pdf, `Listings: ${cutSheet.certifications.join(', ')}`, tableWidth), tableX, y);
+      y += 5;
+    }
+    if (cutSheet.sourceUrl && y < bottom) {
+      pdf.setTextColor(107, 114, 128);
+      pdf.text(this.fitText(pdf, `Manufacturer data sheet: ${cutSheet.sourceUrl}`, tableWidth), tableX, y);
+    }
+  }
+
+  /**
+   * Placards two across, each a colored header band over its wording with the
+   * NEC reference and mounting location beneath
+   */
+  private static drawPlacards(pdf: jsPDF, placards: PlanSetPlacard[], startSheet: () => void): void {
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const bottom = this.getDrawingBottom(pdf);
+    const gap = 8;
+    const width = (pageWidth - 2 * MARGIN - gap) / 2;
+    const lineHeight = 4.5;
+    let y = MARGIN;
+    let rowHeight = 0;
+
+    placards.forEach((placard, index) => {
+      const column = index % 2;
+      const height = 9 + placard.lines.length * lineHeight + 3;
+      if (column === 0) {
+        y += rowHeight;
+        rowHeight = 0;
+        if (y + height + 5 > bottom) {
+          startSheet();
+          y = MARGIN;
+        }
+      }
+      rowHeight = Math.max(rowHeight, height + 5 + gap);
+      const x = MARGIN + column * (width + gap);
+      const colors = PLACARD_COLORS[placard.style];
+
+      pdf.setLineWidth(0.5);
+      pdf.setDrawColor(17, 24, 39);
+      pdf.setFillColor(...colors.fill);
+      pdf.rect(x, y, width, 9, 'F');
+      pdf.rect(x, y, width, height);
+      pdf.setTextColor(...colors.text);
+      pdf.setFont('helvetica', 'bold');
+      pdf.setFontSize(9);
+      pdf.text(this.fitText(pdf, placard.heading, width - 4), x + width / 2, y + 6, { align: 'center' });
+
+      pdf.setTextColor(17, 24, 39);
+      pdf.setFontSize(8);
+      placard.lines.forEach((line, lineIndex) => {
+        pdf.text(this.fitText(pdf, line, width - 4), x + width / 2, y + 9 + (lineIndex + 1) * lineHeight, { align: 'center' });
+      });
+
+      pdf.setFont('helvetica', 'normal');
+      pdf.setFontSize(MIN_FONT_SIZE);
+      pdf.setTextColor(107, 114, 128);
+      const caption = `NEC ${placard.necReference}${placard.location ? ` - ${placard.location}` : ''}`;
+      pdf.text(this.fitText(pdf, caption, width), x, y + height + 3.5);
+    });
+  }
+
+  /**
+   * Sheet border and a full-width title block strip: project, revisions,
+   * sign-off fields and the sheet number
+   */
+  private static drawTitleBlock(pdf: jsPDF, titleBlock: TitleBlockData, revisions: PlanSetRevision[]): void {
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const width = pageWidth - 2 * MARGIN;
+    const height = TITLE_BLOCK_HEIGHT;
+    const x = MARGIN;
+    const y = pageHeight - MARGIN - height;
+    const cells = TITLE_BLOCK_COLUMNS.reduce<{ x: number; width: number }[]>((result, fraction) => {
+      const previous = result[result.length - 1];
+      result.push({ x: previous ? previous.x + previous.width : x, width: width * fraction });
+      return result;
+    }, []);
+    const [project, revisionCell, fieldCell, sheetCell] = cells;
+
+    pdf.setDrawColor(17, 24, 39);
+    pdf.setLineWidth(0.7);
+    pdf.rect(MARGIN / 2, MARGIN / 2, pageWidth - MARGIN, pageHeight - MARGIN);
+    pdf.setLineWidth(0.35);
+    pdf.rect(x, y, width, height);
+    cells.slice(1).forEach(cell => pdf.line(cell.x, y, cell.x, y + height));
+
+    const label = (text: string, labelX: number, labelY: number) => {
+      pdf.setFont('helvetica', 'normal');
+      pdf.setFontSize(MIN_FONT_SIZE);
+      pdf.setTextColor(107, 114, 128);
+      pdf.text(text, labelX, labelY);
+      pdf.setTextColor(17, 24, 39);
+    };
+
+    // Project
+    label('PROJECT', project.x + 2, y + 3.5);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(10);
+    pdf.text(this.fitText(pdf, titleBlock.projectName, project.width - 4), project.x + 2, y + 9);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(8);
+    [
+      titleBlock.client,
+      titleBlock.address,
+      titleBlock.projectNumber ? `PROJECT NO. ${titleBlock.projectNumber}` : ''
+    ].filter(Boolean).forEach((line, index) => {
+      pdf.text(this.fitText(pdf, line, project.width - 4), project.x + 2, y + 14.5 + index * 4.5);
+    });
+
+    // Revision history, latest revisions last
+    label('REV', revisionCell.x + 2, y + 3.5);
+    label('DATE', revisionCell.x + 10, y + 3.5);
+    label('DESCRIPTION', revisionCell.x + 30, y + 3.5);
+    pdf.setLineWidth(0.2);
+    pdf.line(revisionCell.x, y + 5, revisionCell.x + revisionCell.width, y + 5);
+    pdf.setFontSize(MIN_FONT_SIZE);
+    revisions.slice(-TITLE_BLOCK_REVISION_ROWS).forEach((revision, index) => {
+      const rowY = y + 9 + index * 4.5;
+      pdf.text(revision.revision, revisionCell.x + 2, rowY);
+      pdf.text(revision.date, revisionCell.x + 10, rowY);
+      pdf.text(this.fitText(pdf, revision.description, revisionCell.width - 32), revisionCell.x + 30, rowY);
+    });
+
+    // Sign-off fields, two across
+    const fields: [string, string][] = [
+      ['DRAWN BY', titleBlock.drawnBy],
+      ['CHECKED BY', titleBlock.checkedBy ?? ''],
+      ['APPROVED BY', titleBlock.approvedBy ?? ''],
+      ['DATE', titleBlock.date],
+      ['SCALE', titleBlock.scale],
+      ['REVISION', titleBlock.revision],
+      ['PERMIT NO.', titleBlock.permitNumber ?? ''],
+      ['AHJ', titleBlock.ahj ?? '']
+    ];
+    const fieldRows = Math.ceil(fields.length / 2);
+    const fieldHeight = height / fieldRows;
+    const fieldWidth = fieldCell.width / 2;
+    for (let row = 1; row < fieldRows; row++) {
+      pdf.line(fieldCell.x, y + row * fieldHeight, fieldCell.x + fieldCell.width, y + row * fieldHeight);
+    }
+    pdf.line(fieldCell.x + fieldWidth, y, fieldCell.x + fieldWidth, y + height);
+    fields.forEach(([name, value], index) => {
+      const left = fieldCell.x + (index % 2) * fieldWidth + 1.5;
+      const top = y + Math.floor(index / 2) * fieldHeight;
+      label(name, left, top + 2.8);
+      if (value) {
+        pdf.setFontSize(8);
+        pdf.text(this.fitText(pdf, value, fieldWidth - 3), left, top + fieldHeight - 1.5);
+      }
+    });
+
+    // Sheet title and number
+    const center = sheetCell.x + sheetCell.width / 2;
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(8);
+    const titleLines: string[] = pdf.splitTextToSize(titleBlock.drawingTitle, sheetCell.width - 4);
+    titleLines.slice(0, 2).forEach((line, index) => pdf.text(line, center, y + 5 + index * 3.5, { align: 'center' }));
+    pdf.setFontSize(20);
+    pdf.text(titleBlock.drawingNumber, center, y + 21, { align: 'center' });
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(MIN_FONT_SIZE);
+    pdf.text(`SHEET ${titleBlock.sheetNumber} OF ${titleBlock.totalSheets}`, center, y + 28.5, { align: 'center' });
+  }
+
+  /**
+   * Scalloped cloud around the revised area with the revision delta at its
+   * top-right corner
+   */
+  private static drawRevisionCloud(pdf: jsPDF, cloud: PlanSetRevisionCloud, revision: string): void {
+    const { x, y, width, height } = cloud;
+    const corners = [
+      { x, y },
+      { x: x + width, y },
+      { x: x + width, y: y + height },
+      { x, y: y + height }
+    ];
+
+    pdf.setDrawColor(220, 38, 38);
+    pdf.setLineWidth(0.35);
+    corners.forEach((from, index) => {
+      const to = corners[(index + 1) % corners.length];
+      const length = Math.hypot(to.x - from.x, to.y - from.y);
+      if (length === 0) return;
+      const count = Math.max(1, Math.round(length / CLOUD_SCALLOP));
+      const dx = (to.x - from.x) / count;
+      const dy = (to.y - from.y) / count;
+      // Outward normal of a clockwise edge, scaled so each scallop is a half circle
+      const bulge = 4 / 3 * (length / count / 2);
+      const nx = (dy / (length / count)) * bulge;
+      const ny = (-dx / (length / count)) * bulge;
+      const segments = Array.from({ length: count }, () => [nx, ny, dx + nx, dy + ny, dx, dy]);
+      pdf.lines(segments, from.x, from.y, [1, 1], 'S', false);
+    });
+
+    const deltaX = x + width;
+    const deltaY = y;
+    pdf.setFillColor(255, 255, 255);
+    pdf.triangle(deltaX, deltaY - 4, deltaX - 3.5, deltaY + 2, deltaX + 3.5, deltaY + 2, 'FD');
+    pdf.setTextColor(220, 38, 38);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(MIN_FONT_SIZE);
+    pdf.text(revision, deltaX, deltaY + 1.2, { align: 'center' });
+    pdf.setFont('helvetica', 'normal');
+  }
+
+  private static drawHeading(pdf: jsPDF, text: string, x: number, y: number): void {
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(10);
+    pdf.setTextColor(17, 24, 39);
+    pdf.text(text, x, y);
+    pdf.setFont('helvetica', 'normal');
+  }
+
+  private static fitText(pdf: jsPDF, text: string, width: number): string {
+    if (!text || pdf.getTextWidth(text) <= width) return text;
+    const lines: string[] = pdf.splitTextToSize(text, width);
+    return lines[0] ?? '';
+  }
+
+  private static formatNumber(value: number, unit: string): string {
+    const digits = unit === 'A' || unit === 'kW' || unit === '%' ? 1 : 0;
+    return (value || 0).toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+  }
+
+  private static humanizeKey(key: string): string {
+    return key
+      .replace(/_/g, ' ')
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/^./, letter => letter.toUpperCase());
+  }
+
+  private static generateFilename(projectName: string): string {
+    const sanitized = (projectName || 'Project').replace(/[^a-zA-Z0-9]/g, '_');
+    const timestamp = new Date().toISOString().slice(0, 10);
+    return `${sanitized}_Plan_Set_${timestamp}.pdf`;
+  }
+}
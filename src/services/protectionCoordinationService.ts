@@ -0,0 +1,786 @@
+/**
+ * Protection Coordination (Time-Current Curve) Service
+ *
+ * Overcurrent device coordination for single line diagrams:
+ * - Representative TCC library for thermal-magnetic breakers, electronic trip units and fuses
+ * - Upstream/downstream device pairing from SLD connections
+ * - Coordination margin checks across the fault current range
+ * - Log-log TCC plot rendering (SVG and PDF) for permit packages
+ *
+ * Curves are generic representations of UL 489 breakers and UL 248 fuse classes.
+ * Selective coordination required by NEC 700.32, 701.32 and 620.62 must still be
+ * confirmed against manufacturer published curves or tested combinations.
+ */
+
+import type jsPDF from 'jspdf';
+import type { SLDComponent, SLDDiagram } from '../types/sld';
+import type {
+  CoordinationProblem,
+  ProtectionCoordination,
+  ProtectionDeviceOperation
+} from './loadFlowAnalysisService';
+
+export type FuseClass = 'RK1' | 'RK5' | 'J' | 'T' | 'CC' | 'L';
+
+export interface ThermalMagneticSettings {
+  kind: 'thermal_magnetic';
+  rating: number; // A
+  instantaneousPickup: number; // multiple of rating
+  thermalConstant?: number; // seconds, I²t constant of the thermal element
+}
+
+export interface ElectronicTripSettings {
+  kind: 'electronic_trip';
+  rating: number; // sensor / rating plug, A
+  longTimePickup: number; // multiple of rating (Ir = pickup × rating)
+  longTimeDelay: number; // seconds at 6 × Ir
+  shortTimePickup?: number; // multiple of Ir
+  shortTimeDelay?: number; // seconds
+  shortTimeI2t?: boolean;
+  instantaneousPickup?: number; // multiple of rating
+}
+
+export interface FuseSettings {
+  kind: 'fuse';
+  rating: number; // A
+  fuseClass: FuseClass;
+}
+
+export type ProtectiveDeviceSettings = ThermalMagneticSettings | ElectronicTripSettings | FuseSettings;
+
+export interface ProtectiveDevice {
+  id: string;
+  name: string;
+  componentId?: string;
+  settings: ProtectiveDeviceSettings;
+  availableFaultCurrent?: number; // A, at the device line terminals
+}
+
+export interface TripTimeBand {
+  minimum: number; // seconds, Infinity when the device will not operate
+  maximum: number; // seconds (total clearing), Infinity when operation is not assured
+}
+
+export interface TCCPoint {
+  current: number; // A
+  minimumTime: number; // seconds
+  maximumTime: number; // seconds
+}
+
+export interface CoordinationPairResult {
+  upstreamId: string;
+  downstreamId: string;
+  minimumMargin: number; // seconds, upstream minimum minus downstream clearing
+  atCurrent: number; // A
+  evaluatedUpTo: number; // A
+  coordinated: boolean;
+  problem?: CoordinationProblem;
+}
+
+export interface TCCStudyResult extends ProtectionCoordination {
+  devices: ProtectiveDevice[];
+  pairs: CoordinationPairResult[];
+}
+
+export interface TCCStudyOptions {
+  availableFaultCurrents?: Record<string, number>; // A, keyed by component id
+  coordinationTimeInterval?: number; // seconds
+}
+
+export interface TCCPlotOptions {
+  width?: number;
+  height?: number;
+  minCurrent?: number; // A
+  maxCurrent?: number; // A
+  minTime?: number; // seconds
+  maxTime?: number; // seconds
+  title?: string;
+  faultCurrents?: { label: string; current: number }[]; // A
+}
+
+export interface TCCPlotLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  major: boolean;
+}
+
+export interface TCCPlotLabel {
+  x: number;
+  y: number;
+  text: string;
+  anchor: 'start' | 'middle' | 'end';
+}
+
+export interface TCCPlotCurve {
+  deviceId: string;
+  name: string;
+  color: string;
+  minimum: { x: number; y: number }[][];
+  maximum: { x: number; y: number }[][];
+}
+
+export interface TCCPlotGeometry {
+  width: number;
+  height: number;
+  plotArea: { x: number; y: number; width: number; height: number };
+  title: string;
+  gridLines: TCCPlotLine[];
+  labels: TCCPlotLabel[];
+  curves: TCCPlotCurve[];
+  markers: { x: number; label: string }[];
+}
+
+interface FuseCurve {
+  meltingTimeAt500: number; // seconds at 5 × rating
+  slope: number; // log-log slope of the melting curve
+}
+
+// Representative melting characteristics by UL 248 class
+const FUSE_CURVES: Record<FuseClass, FuseCurve> = {
+  RK1: { meltingTimeAt500: 12, slope: 3.0 },
+  RK5: { meltingTimeAt500: 15, slope: 2.5 },
+  J: { meltingTimeAt500: 10, slope: 3.2 },
+  T: { meltingTimeAt500: 0.2, slope: 4.0 },
+  CC: { meltingTimeAt500: 1.5, slope: 3.5 },
+  L: { meltingTimeAt500: 40, slope: 2.2 }
+};
+
+const DEFAULT_THERMAL_CONSTANT = 250; // seconds, about 7 s at 6 × rating
+const DEFAULT_INSTANTANEOUS_PICKUP = 10;
+const DEFAULT_COORDINATION_TIME_INTERVAL = 0.1; // seconds
+const DEFAULT_AVAILABLE_FAULT_CURRENT = 10000; // A
+const THERMAL_BAND = { minimum: 0.5, maximum: 2.0 };
+const PICKUP_TOLERANCE = { thermalMagnetic: 0.2, electronic: 0.1 };
+const INSTANTANEOUS_TIME = { minimum: 0.008, maximum: 0.025 }; // seconds (½ to 1½ cycles)
+const ELECTRONIC_INSTANTANEOUS_TIME = { minimum: 0.01, maximum: 0.05 };
+const FUSE_MINIMUM_MELT = 1.35; // multiple of rating
+const FUSE_CLEARING_FACTOR = 1.1;
+const FUSE_MINIMUM_TIME = { melting: 0.002, clearing: 0.004 }; // current-limiting region
+const MAXIMUM_TIME = 10000; // seconds; slower operation is treated as no trip
+const CURVE_SAMPLES = 300;
+const PAIR_SAMPLES = 120;
+const CURVE_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c', '#0891b2', '#be185d', '#4d7c0f'];
+
+const PROTECTIVE_COMPONENT_TYPES = ['breaker', 'main_panel', 'sub_panel', 'disconnect', 'ac_disconnect', 'main_disconnect', 'service_disconnect'];
+
+export class ProtectionCoordinationService {
+
+  /**
+   * Minimum (resettable / melting) and maximum (total clearing) operating times at a current
+   */
+  static getTripTimes(settings: ProtectiveDeviceSettings, current: number): TripTimeBand {
+    if (current <= 0) {
+      return { minimum: Infinity, maximum: Infinity };
+    }
+
+    let band: TripTimeBand;
+    switch (settings.kind) {
+      case 'thermal_magnetic':
+        band = this.getThermalMagneticTimes(settings, current);
+        break;
+      case 'electronic_trip':
+        band = this.getElectronicTripTimes(settings, current);
+        break;
+      case 'fuse':
+        band = this.getFuseTimes(settings, current);
+        break;
+    }
+
+    return {
+      minimum: band.minimum > MAXIMUM_TIME ? Infinity : band.minimum,
+      maximum: band.maximum > MAXIMUM_TIME ? Infinity : band.maximum
+    };
+  }
+
+  /**
+   * Sample a device's time-current band over a logarithmic current range
+   */
+  static generateCurve(settings: ProtectiveDeviceSettings, minCurrent: number, maxCurrent: number, samples = CURVE_SAMPLES): TCCPoint[] {
+    return this.logSpace(minCurrent, maxCurrent, samples).map(current => {
+      const times = this.getTripTimes(settings, current);
+      return { current, minimumTime: times.minimum, maximumTime: times.maximum };
+    });
+  }
+
+  /**
+   * Check that the upstream device's minimum curve stays above the downstream
+   * clearing curve, with the coordination time interval in the time-delay region
+   */
+  static checkCoordination(
+    upstream: ProtectiveDevice,
+    downstream: ProtectiveDevice,
+    maxFaultCurrent: number,
+    coordinationTimeInterval = DEFAULT_COORDINATION_TIME_INTERVAL
+  ): CoordinationPairResult {
+    const startCurrent = downstream.settings.rating * 1.05;
+    const endCurrent = Math.max(maxFaultCurrent, startCurrent * 1.01);
+    let worst = { deficiency: -Infinity, margin: Infinity, current: startCurrent, required: 0 };
+
+    this.logSpace(startCurrent, endCurrent, PAIR_SAMPLES).forEach(current => {
+      const upstreamTimes = this.getTripTimes(upstream.settings, current);
+      const downstreamTimes = this.getTripTimes(downstream.settings, current);
+
+      // Neither device operates at this current
+      if (!isFinite(upstreamTimes.minimum) && !isFinite(downstreamTimes.maximum)) return;
+
+      const margin = upstreamTimes.minimum - downstreamTimes.maximum;
+      // Only overlap is checked where the downstream device clears instantaneously
+      const required = downstreamTimes.maximum > coordinationTimeInterval ? coordinationTimeInterval : 0;
+      const deficiency = required - margin;
+
+      if (deficiency > worst.deficiency) {
+        worst = { deficiency, margin, current, required };
+      }
+    });
+
+    const coordinated = worst.deficiency <= 0;
+    const result: CoordinationPairResult = {
+      upstreamId: upstream.id,
+      downstreamId: downstream.id,
+      minimumMargin: worst.margin,
+      atCurrent: worst.current,
+      evaluatedUpTo: endCurrent,
+      coordinated
+    };
+
+    if (!coordinated) {
+      result.problem = {
+        upstream: upstream.id,
+        downstream: downstream.id,
+        coordinationTime: worst.margin,
+        minimumRequired: worst.required,
+        atCurrent: worst.current / 1000,
+        severity: this.getProblemSeverity(upstream.settings, worst.margin, worst.current)
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * Coordination study over every upstream/downstream pair of protective devices on the SLD
+   */
+  static analyzeSLD(diagram: SLDDiagram, options: TCCStudyOptions = {}): TCCStudyResult {
+    const coordinationTimeInterval = options.coordinationTimeInterval ?? DEFAULT_COORDINATION_TIME_INTERVAL;
+    const devices = diagram.components
+      .map(component => this.getDeviceFromComponent(component, options.availableFaultCurrents?.[component.id]))
+      .filter((device): device is ProtectiveDevice => device !== null);
+    const deviceById = new Map(devices.map(device => [device.componentId, device]));
+
+    const pairs = devices.flatMap(downstream => {
+      const upstreamComponentId = this.findUpstreamDevice(diagram, downstream.componentId!, deviceById);
+      const upstream = upstreamComponentId ? deviceById.get(upstreamComponentId) : undefined;
+      if (!upstream) return [];
+      return [this.checkCoordination(
+        upstream,
+        downstream,
+        downstream.availableFaultCurrent ?? DEFAULT_AVAILABLE_FAULT_CURRENT,
+        coordinationTimeInterval
+      )];
+    });
+
+    const deviceOperations: ProtectionDeviceOperation[] = devices.map(device => {
+      const current = device.availableFaultCurrent ?? DEFAULT_AVAILABLE_FAULT_CURRENT;
+      const times = this.getTripTimes(device.settings, current);
+      return {
+        deviceId: device.id,
+        deviceType: device.settings.kind,
+        operationTime: times.maximum,
+        current: current / 1000,
+        operated: isFinite(times.maximum)
+      };
+    });
+
+    const coordinationProblems = pairs
+      .map(pair => pair.problem)
+      .filter((problem): problem is CoordinationProblem => problem !== undefined);
+
+    return {
+      devices,
+      pairs,
+      deviceOperations,
+      coordinationProblems,
+      recommendations: this.generateRecommendations(coordinationProblems, devices, options.availableFaultCurrents)
+    };
+  }
+
+  /**
+   * Protective device represented by an SLD component. Settings can be overridden
+   * through `specifications.protectiveDevice`; fusible disconnects default to class RK5.
+   */
+  static getDeviceFromComponent(component: SLDComponent, availableFaultCurrent?: number): ProtectiveDevice | null {
+    if (!PROTECTIVE_COMPONENT_TYPES.includes(component.type)) return null;
+
+    const overrides = (component.specifications?.protectiveDevice ?? {}) as Partial<ProtectiveDeviceSettings>;
+    const name = component.name || component.label || component.id;
+    let rating: number;
+    let settings: ProtectiveDeviceSettings;
+
+    switch (component.type) {
+      case 'breaker':
+        rating = this.parseRating(component.rating);
+        break;
+      case 'main_panel':
+        rating = component.rating;
+        break;
+      case 'sub_panel':
+        // Main-lug-only subpanels are protected by their feeder breaker
+        rating = Number(component.specifications?.mainBreakerRating) || 0;
+        break;
+      case 'disconnect':
+      case 'ac_disconnect':
+      case 'main_disconnect':
+      case 'service_disconnect':
+        if (!component.fusible) return null;
+        rating = this.parseRating(component.specifications?.fuseRating ?? component.rating);
+        break;
+      default:
+        return null;
+    }
+
+    rating = overrides.rating ?? rating;
+    if (!rating || rating <= 0) return null;
+
+    if (overrides.kind === 'electronic_trip') {
+      settings = {
+        kind: 'electronic_trip',
+        rating,
+        longTimePickup: overrides.longTimePickup ?? 1,
+        longTimeDelay: overrides.longTimeDelay ?? 10,
+        shortTimePickup: overrides.shortTimePickup,
+        shortTimeDelay: overrides.shortTimeDelay,
+        shortTimeI2t: overrides.shortTimeI2t,
+        instantaneousPickup: overrides.instantaneousPickup
+      };
+    } else if (overrides.kind === 'fuse' || component.type.endsWith('disconnect')) {
+      settings = {
+        kind: 'fuse',
+        rating,
+        fuseClass: (overrides as Partial<FuseSettings>).fuseClass ?? 'RK5'
+      };
+    } else {
+      const thermalMagnetic = overrides as Partial<ThermalMagneticSettings>;
+      settings = {
+        kind: 'thermal_magnetic',
+        rating,
+        instantaneousPickup: thermalMagnetic.instantaneousPickup ?? DEFAULT_INSTANTANEOUS_PICKUP,
+        thermalConstant: thermalMagnetic.thermalConstant
+      };
+    }
+
+    return {
+      id: component.id,
+      name,
+      componentId: component.id,
+      settings,
+      availableFaultCurrent
+    };
+  }
+
+  /**
+   * Lay out a log-log TCC plot (current in amperes on X, time in seconds on Y)
+   */
+  static buildTCCPlot(devices: ProtectiveDevice[], options: TCCPlotOptions = {}): TCCPlotGeometry {
+    const width = options.width ?? 600;
+    const height = options.height ?? 700;
+    const minCurrent = options.minCurrent ?? this.decadeFloor(Math.min(...devices.map(d => d.settings.rating), 10));
+    const maxCurrent = options.maxCurrent ?? this.decadeCeil(Math.max(
+      ...devices.map(d => d.availableFaultCurrent ?? DEFAULT_AVAILABLE_FAULT_CURRENT),
+      ...(options.faultCurrents ?? []).map(f => f.current)
+    ));
+    const minTime = options.minTime ?? 0.01;
+    const maxTime = options.maxTime ?? 1000;
+    const plotArea = { x: 60, y: 40, width: width - 80, height: height - 100 };
+
+    const toX = (current: number) =>
+      plotArea.x + (Math.log10(current / minCurrent) / Math.log10(maxCurrent / minCurrent)) * plotArea.width;
+    const toY = (time: number) =>
+      plotArea.y + (1 - Math.log10(time / minTime) / Math.log10(maxTime / minTime)) * plotArea.height;
+
+    const gridLines: TCCPlotLine[] = [];
+    const labels: TCCPlotLabel[] = [];
+
+    this.decadeTicks(minCurrent, maxCurrent).forEach(tick => {
+      const x = toX(tick.value);
+      gridLines.push({ x1: x, y1: plotArea.y, x2: x, y2: plotArea.y + plotArea.height, major: tick.major });
+      if (tick.major) {
+        labels.push({ x, y: plotArea.y + plotArea.height + 15, text: this.formatCurrent(tick.value), anchor: 'middle' });
+      }
+    });
+    this.decadeTicks(minTime, maxTime).forEach(tick => {
+      const y = toY(tick.value);
+      gridLines.push({ x1: plotArea.x, y1: y, x2: plotArea.x + plotArea.width, y2: y, major: tick.major });
+      if (tick.major) {
+        labels.push({ x: plotArea.x - 6, y: y + 3, text: `${tick.value}`, anchor: 'end' });
+      }
+    });
+    labels.push({ x: plotArea.x + plotArea.width / 2, y: height - 30, text: 'CURRENT IN AMPERES', anchor: 'middle' });
+    labels.push({ x: 12, y: plotArea.y - 12, text: 'TIME IN SECONDS', anchor: 'start' });
+
+    const toSegments = (points: TCCPoint[], select: (point: TCCPoint) => number) => {
+      const segments: { x: number; y: number }[][] = [];
+      let current: { x: number; y: number }[] = [];
+      points.forEach(point => {
+        const time = select(point);
+        if (!isFinite(time) || time > maxTime) {
+          if (current.length > 1) segments.push(current);
+          current = [];
+          return;
+        }
+        current.push({ x: toX(point.current), y: toY(Math.max(time, minTime)) });
+      });
+      if (current.length > 1) segments.push(current);
+      return segments;
+    };
+
+    const curves = devices.map((device, index) => {
+      const points = this.generateCurve(device.settings, minCurrent, maxCurrent);
+      return {
+        deviceId: device.id,
+        name: `${device.name} (${this.describeSettings(device.settings)})`,
+        color: CURVE_COLORS[index % CURVE_COLORS.length],
+        minimum: toSegments(points, point => point.minimumTime),
+        maximum: toSegments(points, point => point.maximumTime)
+      };
+    });
+
+    const markers = (options.faultCurrents ?? [])
+      .filter(fault => fault.current >= minCurrent && fault.current <= maxCurrent)
+      .map(fault => ({ x: toX(fault.current), label: `${fault.label} ${this.formatCurrent(fault.current)}` }));
+
+    return {
+      width,
+      height,
+      plotArea,
+      title: options.title ?? 'TIME-CURRENT COORDINATION',
+      gridLines,
+      labels,
+      curves,
+      markers
+    };
+  }
+
+  static renderTCCPlotSVG(plot: TCCPlotGeometry): string {
+    const { plotArea } = plot;
+    const path = (points: { x: number; y: number }[]) =>
+      points.map((point, i) => `${i === 0 ? 'M' : 'L'}${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(' ');
+    const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+    const parts: string[] = [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${plot.width}" height="${plot.height}" viewBox="0 0 ${plot.width} ${plot.height}" font-family="Arial, sans-serif">`,
+      `<rect width="${plot.width}" height="${plot.height}" fill="#ffffff"/>`,
+      `<text x="${plot.width / 2}" y="20" text-anchor="middle" font-size="14" font-weight="bold">${escape(plot.title)}</text>`
+    ];
+
+    plot.gridLines.forEach(line => {
+      parts.push(
+        `<line x1="${line.x1.toFixed(1)}" y1="${line.y1.toFixed(1)}" x2="${line.x2.toFixed(1)}" y2="${line.y2.toFixed(1)}" ` +
+        `stroke="${line.major ? '#9ca3af' : '#e5e7eb'}" stroke-width="${line.major ? 0.8 : 0.4}"/>`
+      );
+    });
+    parts.push(`<rect x="${plotArea.x}" y="${plotArea.y}" width="${plotArea.width}" height="${plotArea.height}" fill="none" stroke="#111827" stroke-width="1"/>`);
+
+    plot.labels.forEach(label => {
+      parts.push(`<text x="${label.x.toFixed(1)}" y="${label.y.toFixed(1)}" text-anchor="${label.anchor}" font-size="10">${escape(label.text)}</text>`);
+    });
+
+    plot.markers.forEach(marker => {
+      parts.push(
+        `<line x1="${marker.x.toFixed(1)}" y1="${plotArea.y}" x2="${marker.x.toFixed(1)}" y2="${plotArea.y + plotArea.height}" ` +
+        'stroke="#111827" stroke-width="1" stroke-dasharray="6,3"/>',
+        `<text x="${(marker.x - 3).toFixed(1)}" y="${plotArea.y + 12}" text-anchor="end" font-size="9">${escape(marker.label)}</text>`
+      );
+    });
+
+    plot.curves.forEach((curve, index) => {
+      curve.minimum.forEach(segment => {
+        parts.push(`<path d="${path(segment)}" fill="none" stroke="${curve.color}" stroke-width="1.5"/>`);
+      });
+      curve.maximum.forEach(segment => {
+        parts.push(`<path d="${path(segment)}" fill="none" stroke="${curve.color}" stroke-width="1.5" stroke-dasharray="4,2"/>`);
+      });
+      const legendY = plotArea.y + 14 + index * 14;
+      parts.push(
+        `<line x1="${plotArea.x + plotArea.width - 190}" y1="${legendY - 3}" x2="${plotArea.x + plotArea.width - 170}" y2="${legendY - 3}" stroke="${curve.color}" stroke-width="2"/>`,
+        `<text x="${plotArea.x + plotArea.width - 165}" y="${legendY}" font-size="9">${escape(curve.name)}</text>`
+      );
+    });
+
+    parts.push('</svg>');
+    return parts.join('\n');
+  }
+
+  /**
+   * Draw the plot with jsPDF primitives; geometry units are scaled to fit the given box (mm)
+   */
+  static drawTCCPlotToPDF(pdf: jsPDF, plot: TCCPlotGeometry, x: number, y: number, width: number): void {
+    const scale = width / plot.width;
+    const px = (value: number) => x + value * scale;
+    const py = (value: number) => y + value * scale;
+    const hexToRgb = (hex: string): [number, number, number] => [
+      parseInt(hex.slice(1, 3), 16),
+      parseInt(hex.slice(3, 5), 16),
+      parseInt(hex.slice(5, 7), 16)
+    ];
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(11);
+    pdf.setTextColor(0, 0, 0);
+    pdf.text(plot.title, px(plot.width / 2), py(20), { align: 'center' });
+
+    plot.gridLines.forEach(line => {
+      if (line.major) {
+        pdf.setDrawColor(156, 163, 175);
+      } else {
+        pdf.setDrawColor(229, 231, 235);
+      }
+      pdf.setLineWidth(line.major ? 0.2 : 0.1);
+      pdf.line(px(line.x1), py(line.y1), px(line.x2), py(line.y2));
+    });
+
+    pdf.setDrawColor(17, 24, 39);
+    pdf.setLineWidth(0.3);
+    pdf.rect(px(plot.plotArea.x), py(plot.plotArea.y), plot.plotArea.width * scale, plot.plotArea.height * scale);
+
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(7);
+    plot.labels.forEach(label => {
+      pdf.text(label.text, px(label.x), py(label.y), { align: label.anchor === 'middle' ? 'center' : label.anchor === 'end' ? 'right' : 'left' });
+    });
+
+    plot.markers.forEach(marker => {
+      pdf.setLineDashPattern([2, 1], 0);
+      pdf.line(px(marker.x), py(plot.plotArea.y), px(marker.x), py(plot.plotArea.y + plot.plotArea.height));
+      pdf.setLineDashPattern([], 0);
+      pdf.text(marker.label, px(marker.x) - 1, py(plot.plotArea.y + 12), { align: 'right' });
+    });
+
+    plot.curves.forEach((curve, index) => {
+      pdf.setDrawColor(...hexToRgb(curve.color));
+      pdf.setLineWidth(0.35);
+      const drawSegments = (segments: { x: number; y: number }[][]) => {
+        segments.forEach(segment => {
+          for (let i = 1; i < segment.length; i++) {
+            pdf.line(px(segment[i - 1].x), py(segment[i - 1].y), px(segment[i].x), py(segment[i].y));
+          }
+        });
+      };
+      drawSegments(curve.minimum);
+      pdf.setLineDashPattern([1, 0.6], 0);
+      drawSegments(curve.maximum);
+      pdf.setLineDashPattern([], 0);
+
+      const legendY = plot.plotArea.y + 14 + index * 14;
+      const legendX = plot.plotArea.x + plot.plotArea.width - 190;
+      pdf.line(px(legendX), py(legendY - 3), px(legendX + 20), py(legendY - 3));
+      pdf.text(curve.name, px(legendX + 25), py(legendY));
+    });
+  }
+
+  // Curve models
+
+  private static getThermalMagneticTimes(settings: ThermalMagneticSettings, current: number): TripTimeBand {
+    const multiple = current / settings.rating;
+    const thermalConstant = settings.thermalConstant ?? DEFAULT_THERMAL_CONSTANT;
+    const instantaneousPickup = settings.instantaneousPickup * settings.rating;
+    const tolerance = PICKUP_TOLERANCE.thermalMagnetic;
+
+    // Thermal element: t = K / (M² - 1), with a band around the nominal constant
+    const thermal = (factor: number, minimumMultiple: number) =>
+      multiple > minimumMultiple ? (thermalConstant * factor) / (multiple * multiple - 1) : Infinity;
+    let minimum = thermal(THERMAL_BAND.minimum, 1.05);
+    let maximum = thermal(THERMAL_BAND.maximum, 1.0);
+
+    if (current >= instantaneousPickup * (1 - tolerance)) {
+      minimum = Math.min(minimum, INSTANTANEOUS_TIME.minimum);
+    }
+    if (current >= instantaneousPickup * (1 + tolerance)) {
+      maximum = Math.min(maximum, INSTANTANEOUS_TIME.maximum);
+    }
+
+    return { minimum, maximum };
+  }
+
+  private static getElectronicTripTimes(settings: ElectronicTripSettings, current: number): TripTimeBand {
+    const tolerance = PICKUP_TOLERANCE.electronic;
+    const longTimeCurrent = settings.longTimePickup * settings.rating;
+    let minimum = Infinity;
+    let maximum = Infinity;
+
+    // Long-time I²t characteristic calibrated at 6 × Ir
+    const longTimeMultiple = current / longTimeCurrent;
+    const longTimeNominal = settings.longTimeDelay * 36 / (longTimeMultiple * longTimeMultiple);
+    if (current > longTimeCurrent * (1 - tolerance)) minimum = longTimeNominal * (1 - tolerance * 2);
+    if (current > longTimeCurrent * (1 + tolerance)) maximum = longTimeNominal * (1 + tolerance * 2);
+
+    if (settings.shortTimePickup && settings.shortTimeDelay !== undefined) {
+      const shortTimeCurrent = settings.shortTimePickup * longTimeCurrent;
+      const i2tFactor = settings.shortTimeI2t
+        ? Math.max(1, Math.pow((10 * longTimeCurrent) / current, 2))
+        : 1;
+      const delay = settings.shortTimeDelay * i2tFactor;
+      if (current >= shortTimeCurrent * (1 - tolerance)) minimum = Math.min(minimum, Math.max(delay * 0.8, INSTANTANEOUS_TIME.minimum));
+      if (current >= shortTimeCurrent * (1 + tolerance)) maximum = Math.min(maximum, delay + 0.06);
+    }
+
+    if (settings.instantaneousPickup) {
+      const instantaneousCurrent = settings.instantaneousPickup * settings.rating;
+      if (current >= instantaneousCurrent * (1 - tolerance)) minimum = Math.min(minimum, ELECTRONIC_INSTANTANEOUS_TIME.minimum);
+      if (current >= instantaneousCurrent * (1 + tolerance)) maximum = Math.min(maximum, ELECTRONIC_INSTANTANEOUS_TIME.maximum);
+    }
+
+    return { minimum, maximum };
+  }
+
+  private static getFuseTimes(settings: FuseSettings, current: number): TripTimeBand {
+    const multiple = current / settings.rating;
+    if (multiple <= FUSE_MINIMUM_MELT) {
+      return { minimum: Infinity, maximum: Infinity };
+    }
+
+    const curve = FUSE_CURVES[settings.fuseClass];
+    const melting = curve.meltingTimeAt500 * Math.pow(multiple / 5, -curve.slope);
+    return {
+      minimum: Math.max(melting, FUSE_MINIMUM_TIME.melting),
+      maximum: Math.max(melting * FUSE_CLEARING_FACTOR, FUSE_MINIMUM_TIME.clearing)
+    };
+  }
+
+  // SLD traversal
+
+  /**
+   * Walk upstream along connections (from → to is source → load) to the nearest protective device
+   */
+  private static findUpstreamDevice(
+    diagram: SLDDiagram,
+    componentId: string,
+    devices: Map<string | undefined, ProtectiveDevice>
+  ): string | undefined {
+    const visited = new Set<string>([componentId]);
+    let frontier = [componentId];
+
+    while (frontier.length > 0) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        const feeders = diagram.connections
+          .filter(connection => (connection.to || connection.toComponentId) === id && connection.type !== 'ground')
+          .map(connection => connection.from || connection.fromComponentId)
+          .filter((from): from is string => !!from && !visited.has(from));
+
+        for (const feeder of feeders) {
+          if (devices.has(feeder)) return feeder;
+          visited.add(feeder);
+          next.push(feeder);
+        }
+      }
+      frontier = next;
+    }
+
+    return undefined;
+  }
+
+  private static getProblemSeverity(upstream: ProtectiveDeviceSettings, margin: number, current: number): CoordinationProblem['severity'] {
+    if (margin >= 0) return 'minor';
+    const instantaneousPickup = upstream.kind === 'thermal_magnetic'
+      ? upstream.instantaneousPickup * upstream.rating * (1 - PICKUP_TOLERANCE.thermalMagnetic)
+      : upstream.kind === 'electronic_trip' && upstream.instantaneousPickup
+        ? upstream.instantaneousPickup * upstream.rating * (1 - PICKUP_TOLERANCE.electronic)
+        : Infinity;
+    // Overlap below the upstream instantaneous pickup cannot be fixed with tested combinations
+    return current < instantaneousPickup ? 'critical' : 'major';
+  }
+
+  private static generateRecommendations(
+    problems: CoordinationProblem[],
+    devices: ProtectiveDevice[],
+    availableFaultCurrents?: Record<string, number>
+  ): string[] {
+    const recommendations: string[] = [];
+    const nameOf = (id: string) => devices.find(device => device.id === id)?.name ?? id;
+
+    problems.forEach(problem => {
+      const pair = `${nameOf(problem.upstream)} / ${nameOf(problem.downstream)}`;
+      const at = problem.atCurrent !== undefined ? ` at ${(problem.atCurrent * 1000).toFixed(0)} A` : '';
+      switch (problem.severity) {
+        case 'critical':
+          recommendations.push(
+            `${pair}: curves overlap in the overload/short-time region${at}. Increase the upstream rating, ` +
+            'add short-time delay, or use a time-delay fuse upstream.'
+          );
+          break;
+        case 'major':
+          recommendations.push(
+            `${pair}: instantaneous regions overlap${at}. Verify with manufacturer selective coordination tables ` +
+            'where NEC 700.32, 701.32 or 620.62 applies.'
+          );
+          break;
+        case 'minor':
+          recommendations.push(
+            `${pair}: margin of ${problem.coordinationTime.toFixed(3)} s${at} is below the ` +
+            `${problem.minimumRequired.toFixed(2)} s coordination time interval.`
+          );
+          break;
+      }
+    });
+
+    if (!availableFaultCurrents || Object.keys(availableFaultCurrents).length === 0) {
+      recommendations.push(
+        `Available fault current was not provided; pairs were evaluated up to ${DEFAULT_AVAILABLE_FAULT_CURRENT.toLocaleString('en-US')} A.`
+      );
+    }
+
+    return recommendations;
+  }
+
+  // Formatting helpers
+
+  private static parseRating(rating: string | number | undefined): number {
+    if (typeof rating === 'number') return rating;
+    const match = rating?.match(/[\d.]+/);
+    return match ? parseFloat(match[0]) : 0;
+  }
+
+  private static describeSettings(settings: ProtectiveDeviceSettings): string {
+    switch (settings.kind) {
+      case 'thermal_magnetic':
+        return `${settings.rating}A TM`;
+      case 'electronic_trip':
+        return `${settings.rating}A ETU`;
+      case 'fuse':
+        return `${settings.rating}A Class ${settings.fuseClass}`;
+    }
+  }
+
+  private static formatCurrent(current: number): string {
+    return current >= 1000 ? `${(current / 1000).toLocaleString('en-US')}k` : `${current}`;
+  }
+
+  private static logSpace(start: number, end: number, samples: number): number[] {
+    const logStart = Math.log10(start);
+    const step = (Math.log10(end) - logStart) / Math.max(samples - 1, 1);
+    return Array.from({ length: samples }, (_, i) => Math.pow(10, logStart + step * i));
+  }
+
+  private static decadeFloor(value: number): number {
+    return Math.pow(10, Math.floor(Math.log10(Math.max(value, 1e-3))));
+  }
+
+  private static decadeCeil(value: number): number {
+    return Math.pow(10, Math.ceil(Math.log10(Math.max(value, 1e-3))));
+  }
+
+  private static decadeTicks(min: number, max: number): { value: number; major: boolean }[] {
+    const ticks: { value: number; major: boolean }[] = [];
+    for (let decade = this.decadeFloor(min); decade <= max * 1.0001; decade *= 10) {
+      for (let step = 1; step < 10; step++) {
+        const value = Number((decade * step).toPrecision(6));
+        if (value >= min * 0.9999 && value <= max * 1.0001) {
+          ticks.push({ value, major: step === 1 });
+        }
+      }
+    }
+    return ticks;
+  }
+}
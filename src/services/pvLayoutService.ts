@@ -0,0 +1,625 @@
+/**
+ * PV Layout Service
+ *
+ * Geometry behind the roof layout editor:
+ * - Per-edge fire-code setbacks and access pathways inset from each roof face
+ * - Portrait or landscape rows filled around keep-out zones
+ * - Placement checks for dragged and rotated modules
+ * - Series strings for the single-line diagram and the solar row of the load calculation
+ *
+ * Faces are drawn in plan view, so distances along the slope are foreshortened by cos(pitch).
+ * Setback insets assume convex faces.
+ */
+
+import { NEC_CONSTANTS } from '../constants';
+import type { RoofAnalysisResult } from './aiRoofAnalysisService';
+import type { SLDPVArray } from '../types/sld';
+import type { SolarBatteryLoad } from '../types/load';
+import type {
+  FireCodeRuleSet,
+  LayoutPoint,
+  ModuleOrientation,
+  PVKeepOut,
+  PVLayout,
+  PVLayoutString,
+  PVLayoutSummary,
+  PVModuleSpec,
+  PVPlacedModule,
+  PVRoofFace,
+  RoofEdgeType
+} from '../types/pvLayout';
+
+const INCHES_PER_FOOT = 12;
+const EPSILON = 1e-6;
+
+const round = (value: number, digits: number): number => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const add = (a: LayoutPoint, b: LayoutPoint, scale = 1): LayoutPoint => ({ x: a.x + b.x * scale, y: a.y + b.y * scale });
+const dot = (a: LayoutPoint, b: LayoutPoint): number => a.x * b.x + a.y * b.y;
+const cross = (a: LayoutPoint, b: LayoutPoint): number => a.x * b.y - a.y * b.x;
+
+export class PVLayoutService {
+  static readonly FIRE_CODE_RULE_SETS: FireCodeRuleSet[] = [
+    {
+      id: 'irc-2021',
+      name: 'IRC 2021 residential',
+      reference: 'IRC R324.6',
+      edgeSetbacksIn: { eave: 0, ridge: 18, rake: 0, hip: 18, valley: 18 },
+      highCoverageRidgeSetbackIn: 36,
+      coverageThresholdPercent: 33,
+      pathwayWidthIn: 36
+    },
+    {
+      id: 'irc-2021-sprinklered',
+      name: 'IRC 2021 residential, sprinklered',
+      reference: 'IRC R324.6.2 Exception',
+      edgeSetbacksIn: { eave: 0, ridge: 18, rake: 0, hip: 18, valley: 18 },
+      highCoverageRidgeSetbackIn: 36,
+      coverageThresholdPercent: 66,
+      pathwayWidthIn: 36
+    },
+    {
+      id: 'ifc-2021-commercial',
+      name: 'IFC 2021 commercial',
+      reference: 'IFC 1205.3',
+      edgeSetbacksIn: { eave: 48, ridge: 48, rake: 48, hip: 48, valley: 48 },
+      pathwayWidthIn: 48
+    },
+    {
+      id: 'none',
+      name: 'No fire-code setbacks',
+      reference: '',
+      edgeSetbacksIn: { eave: 0, ridge: 0, rake: 0, hip: 0, valley: 0 },
+      pathwayWidthIn: 0
+    }
+  ];
+
+  static readonly DEFAULT_MODULE: PVModuleSpec = {
+    manufacturer: 'Generic',
+    model: '400W Mono',
+    watts: 400,
+    widthIn: 44.6,
+    lengthIn: 67.8,
+    voc: 37.1,
+    vmp: 31.0,
+    isc: 13.8,
+    imp: 12.9,
+    tempCoeffVoc: -0.27,
+    tempCoeffVmp: -0.35
+  };
+
+  static readonly EDGE_TYPES: RoofEdgeType[] = ['eave', 'ridge', 'rake', 'hip', 'valley'];
+  static readonly DEFAULT_MAX_MODULES_PER_STRING = 12;
+  static readonly DEFAULT_DC_AC_RATIO = 1.2;
+  static readonly MODULE_GAP_IN = 1; // clamp gap between modules in a row
+  static readonly FILL_STEP_IN = 2; // how far a row slides past a blocked position
+  static readonly DEFAULT_KEEP_OUT_BUFFER_IN = 6;
+
+  static createLayout(
+    faces: PVRoofFace[],
+    feetPerPixel: number,
+    ruleSet: FireCodeRuleSet = this.FIRE_CODE_RULE_SETS[0],
+    module: PVModuleSpec = this.DEFAULT_MODULE
+  ): PVLayout {
+    return {
+      faces,
+      keepOuts: [],
+      modules: [],
+      module,
+      ruleSet,
+      feetPerPixel,
+      maxModulesPerString: this.DEFAULT_MAX_MODULES_PER_STRING
+    };
+  }
+
+  /**
+   * Roof faces from the AI roof analysis, which reports segments on a square analysis grid.
+   * Segments below the suitability cut-off used for its auto-layout are skipped.
+   */
+  static facesFromRoofAnalysis(
+    analysis: Pick<RoofAnalysisResult, 'roofSegments'>,
+    scale: LayoutPoint = { x: 1, y: 1 },
+    minSuitability: number = 0.6
+  ): PVRoofFace[] {
+    return analysis.roofSegments
+      .filter(segment => segment.suitability >= minSuitability && segment.coordinates.length >= 3)
+      .map((segment, index) => this.createFace(
+        segment.id,
+        `Face ${index + 1}`,
+        segment.coordinates.map(point => ({ x: point.x * scale.x, y: point.y * scale.y })),
+        segment.slope,
+        segment.orientation
+      ));
+  }
+
+  static createFace(id: string, label: string, points: LayoutPoint[], pitchDegrees: number, azimuthDegrees: number): PVRoofFace {
+    return {
+      id,
+      label,
+      points,
+      pitchDegrees,
+      azimuthDegrees,
+      edgeTypes: this.classifyEdges(points, azimuthDegrees),
+      orientation: 'portrait',
+      rowSpacingIn: 0
+    };
+  }
+
+  /**
+   * Edges facing downslope are eaves, edges facing upslope are ridges and the rest are rakes.
+   * Hips and valleys can't be told apart from the outline and are set by the user.
+   */
+  static classifyEdges(points: LayoutPoint[], azimuthDegrees: number): RoofEdgeType[] {
+    const downslope = this.downslope(azimuthDegrees);
+    return points.map((_, i) => {
+      const outward = this.edgeNormal(points, i);
+      const facing = dot(outward, downslope);
+      if (facing > Math.SQRT1_2) return 'eave';
+      if (facing < -Math.SQRT1_2) return 'ridge';
+      return 'rake';
+    });
+  }
+
+  /**
+   * Surface setback in inches for each edge of a face. The ridge setback grows with array coverage,
+   * and the access pathway is held along the first rake edge, or a hip when the face has no rake.
+   */
+  static edgeSetbacks(face: PVRoofFace, ruleSet: FireCodeRuleSet, coveragePercent: number = 0): number[] {
+    const highCoverage = ruleSet.highCoverageRidgeSetbackIn !== undefined
+      && coveragePercent > (ruleSet.coverageThresholdPercent ?? 100);
+    const setbacks = face.edgeTypes.map(type =>
+      type === 'ridge' && highCoverage ? ruleSet.highCoverageRidgeSetbackIn! : ruleSet.edgeSetbacksIn[type]
+    );
+
+    if (ruleSet.pathwayWidthIn > 0) {
+      const rake = face.edgeTypes.indexOf('rake');
+      const pathwayEdge = rake >= 0 ? rake : face.edgeTypes.indexOf('hip');
+      if (pathwayEdge >= 0) setbacks[pathwayEdge] = Math.max(setbacks[pathwayEdge], ruleSet.pathwayWidthIn);
+    }
+    return setbacks;
+  }
+
+  /**
+   * The part of a face left for modules once every edge is set back. Empty when the setbacks
+   * consume the face.
+   */
+  static buildableArea(face: PVRoofFace, ruleSet: FireCodeRuleSet, feetPerPixel: number, coveragePercent: number = 0): LayoutPoint[] {
+    const setbacks = this.edgeSetbacks(face, ruleSet, coveragePercent);
+    const cosPitch = Math.cos(this.toRadians(face.pitchDegrees));
+    const axes = this.faceAxes(face);
+    const distances = face.points.map((point, i) => {
+      const next = face.points[(i + 1) % face.points.length];
+      const length = Math.hypot(next.x - point.x, next.y - point.y) || 1;
+      const direction = { x: (next.x - point.x) / length, y: (next.y - point.y) / length };
+      // A plan offset across an edge covers more roof surface the closer the edge runs to level
+      const planFactor = Math.sqrt((cosPitch * dot(direction, axes.row)) ** 2 + dot(direction, axes.downslope) ** 2);
+      return this.inchesToPixels(setbacks[i] ?? 0, feetPerPixel) * planFactor;
+    });
+    return this.offsetPolygon(face.points, distances);
+  }
+
+  /**
+   * Plan-view footprint of a module, foreshortened along the slope of its face
+   */
+  static moduleFootprint(module: PVPlacedModule, face: PVRoofFace, spec: PVModuleSpec, feetPerPixel: number): LayoutPoint[] {
+    const { along, across } = this.moduleSize(face, module.orientation, spec, feetPerPixel);
+    const angle = this.toRadians(this.faceRotation(face) + module.rotationDegrees);
+    const row = { x: Math.cos(angle), y: Math.sin(angle) };
+    const slope = { x: -row.y, y: row.x };
+    return [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([i, j]) =>
+      add(add(module.center, row, (i * along) / 2), slope, (j * across) / 2)
+    );
+  }
+
+  /**
+   * Fill a face with rows of modules from the ridge down, replacing any modules already on it.
+   * Rows slide past keep-outs and modules on neighbouring faces. When the filled array pushes
+   * coverage over the rule set's threshold, the face is refilled with the wider ridge setback.
+   */
+  static fillFace(layout: PVLayout, faceId: string): PVLayout {
+    const face = layout.faces.find(f => f.id === faceId);
+    if (!face) return layout;
+
+    const others = layout.modules.filter(module => module.faceId !== faceId);
+    const baseCoverage = this.coveragePercent({ ...layout, modules: others });
+    let modules = this.fillRows(layout, face, others, baseCoverage);
+    let filled = { ...layout, modules: [...others, ...modules] };
+
+    const threshold = layout.ruleSet.coverageThresholdPercent;
+    if (threshold !== undefined && layout.ruleSet.highCoverageRidgeSetbackIn !== undefined && this.coveragePercent(filled) > threshold) {
+      modules = this.fillRows(layout, face, others, 100);
+      filled = { ...layout, modules: [...others, ...modules] };
+    }
+    return filled;
+  }
+
+  static fillAllFaces(layout: PVLayout): PVLayout {
+    return layout.faces.reduce<PVLayout>((current, face) => this.fillFace(current, face.id), { ...layout, modules: [] });
+  }
+
+  /**
+   * Array plan area as a share of the roof plan area, the basis of the IRC ridge setback
+   */
+  static coveragePercent(layout: PVLayout): number {
+    const roofArea = layout.faces.reduce((sum, face) => sum + Math.abs(this.signedArea(face.points)), 0);
+    if (roofArea <= 0) return 0;
+    const arrayArea = layout.modules.reduce((sum, module) => {
+      const face = layout.faces.find(f => f.id === module.faceId);
+      if (!face) return sum;
+      const { along, across } = this.moduleSize(face, module.orientation, layout.module, layout.feetPerPixel);
+      return sum + along * across;
+    }, 0);
+    return (arrayArea / roofArea) * 100;
+  }
+
+  /**
+   * Modules that sit outside their face's buildable area, over a keep-out or on another module
+   */
+  static invalidModules(layout: PVLayout): string[] {
+    const coverage = this.coveragePercent(layout);
+    const areas = new Map(layout.faces.map(face => [
+      face.id,
+      this.buildableArea(face, layout.ruleSet, layout.feetPerPixel, coverage)
+    ]));
+    const keepOuts = layout.keepOuts.map(keepOut => this.keepOutArea(keepOut, layout.feetPerPixel));
+    const footprints = layout.modules.map(module => {
+      const face = layout.faces.find(f => f.id === module.faceId);
+      return face ? this.moduleFootprint(module, face, layout.module, layout.feetPerPixel) : null;
+    });
+
+    return layout.modules
+      .filter((module, i) => {
+        const footprint = footprints[i];
+        const area = areas.get(module.faceId);
+        if (!footprint || !area || !this.polygonContains(area, footprint)) return true;
+        if (keepOuts.some(keepOut => this.polygonsOverlap(footprint, keepOut))) return true;
+        return footprints.some((other, j) => j !== i && other !== null && this.polygonsOverlap(footprint, other));
+      })
+      .map(module => module.id);
+  }
+
+  /**
+   * Series strings of at most maxModulesPerString, one set per face so every string shares a
+   * plane of array. Modules are wired in a serpentine along the rows and strings are balanced.
+   */
+  static buildStrings(layout: PVLayout): PVLayoutString[] {
+    const strings: PVLayoutString[] = [];
+    const maxPerString = Math.max(1, Math.floor(layout.maxModulesPerString));
+
+    layout.faces.forEach(face => {
+      const ordered = this.serpentine(layout, face);
+      if (ordered.length === 0) return;
+      const count = Math.ceil(ordered.length / maxPerString);
+      const base = Math.floor(ordered.length / count);
+      let start = 0;
+      for (let i = 0; i < count; i++) {
+        const size = base + (i < ordered.length % count ? 1 : 0);
+        strings.push({ id: `S${strings.length + 1}`, faceId: face.id, moduleIds: ordered.slice(start, start + size).map(m => m.id) });
+        start += size;
+      }
+    });
+    return strings;
+  }
+
+  static summarize(layout: PVLayout): PVLayoutSummary {
+    const moduleCount = layout.modules.length;
+    return {
+      moduleCount,
+      dcKw: round((moduleCount * layout.module.watts) / 1000, 3),
+      coveragePercent: round(this.coveragePercent(layout), 1),
+      invalidModuleIds: this.invalidModules(layout),
+      strings: this.buildStrings(layout)
+    };
+  }
+
+  /**
+   * Fields for the solar row of the load calculation that mirrors the layout. AC output assumes the
+   * default DC:AC ratio, and amps and breaker follow the same rules as entering kW in the table.
+   */
+  static solarLoadFields(summary: PVLayoutSummary, existing?: SolarBatteryLoad): Partial<SolarBatteryLoad> {
+    const volts = existing?.volts || 240;
+    const kw = round(summary.dcKw / this.DEFAULT_DC_AC_RATIO, 2);
+    const inverterAmps = (kw * 1000) / volts;
+    const requiredBreaker = inverterAmps * 1.25;
+    return {
+      name: existing?.name || 'Solar PV System (Roof Layout)',
+      type: 'solar',
+      location: existing?.location || 'backfeed',
+      source: 'pv_layout',
+      moduleCount: summary.moduleCount,
+      dcKw: summary.dcKw,
+      kw,
+      volts,
+      inverterAmps,
+      amps: inverterAmps,
+      va: inverterAmps * volts,
+      total: inverterAmps * volts,
+      breaker: inverterAmps > 0
+        ? NEC_CONSTANTS.STANDARD_OCPD_SIZES.find(size => size >= requiredBreaker) ?? Math.ceil(requiredBreaker / 5) * 5
+        : 0,
+      quantity: kw > 0 ? 1 : 0
+    };
+  }
+
+  /**
+   * One PV array symbol per roof face. Strings on a face differ by at most one module, so the
+   * symbol carries the longest string and the full breakdown sits under specifications.
+   */
+  static pvArrayComponents(layout: PVLayout, strings: PVLayoutString[]): SLDPVArray[] {
+    const { module } = layout;
+    return layout.faces
+      .map((face, index) => ({ face, index, faceStrings: strings.filter(s => s.faceId === face.id) }))
+      .filter(({ faceStrings }) => faceStrings.length > 0)
+      .map(({ face, index, faceStrings }) => {
+        const modulesPerString = Math.max(...faceStrings.map(s => s.moduleIds.length));
+        const moduleCount = faceStrings.reduce((sum, s) => sum + s.moduleIds.length, 0);
+        return {
+          id: `pv_layout_${face.id}`,
+          type: 'pv_array' as const,
+          name: `PV Array ${face.label}`,
+          label: `PV ${face.label}`,
+          position: { x: 80 + index * 160, y: 80 },
+          numStrings: faceStrings.length,
+          modulesPerString,
+          moduleWattage: module.watts,
+          moduleVoltage: module.vmp,
+          moduleCurrent: module.imp,
+          arrayVoltage: round(module.vmp * modulesPerString, 1),
+          arrayCurrent: round(module.imp * faceStrings.length, 1),
+          manufacturer: module.manufacturer,
+          model: module.model,
+          location: 'roof' as const,
+          specifications: {
+            source: 'pv_layout',
+            faceId: face.id,
+            moduleCount,
+            dcKw: round((moduleCount * module.watts) / 1000, 3),
+            voc: module.voc,
+            isc: module.isc,
+            pitchDegrees: face.pitchDegrees,
+            azimuthDegrees: face.azimuthDegrees,
+            strings: faceStrings.map(s => ({ id: s.id, modules: s.moduleIds.length }))
+          }
+        };
+      });
+  }
+
+  static keepOutArea(keepOut: PVKeepOut, feetPerPixel: number): LayoutPoint[] {
+    const buffer = this.inchesToPixels(keepOut.bufferIn, feetPerPixel);
+    return this.offsetPolygon(keepOut.points, keepOut.points.map(() => -buffer));
+  }
+
+  static createKeepOut(id: string, corner: LayoutPoint, opposite: LayoutPoint, bufferIn: number = this.DEFAULT_KEEP_OUT_BUFFER_IN): PVKeepOut {
+    const minX = Math.min(corner.x, opposite.x);
+    const maxX = Math.max(corner.x, opposite.x);
+    const minY = Math.min(corner.y, opposite.y);
+    const maxY = Math.max(corner.y, opposite.y);
+    return {
+      id,
+      label: 'Vent',
+      points: [{ x: minX, y: minY }, { x: maxX, y: minY }, { x: maxX, y: maxY }, { x: minX, y: maxY }],
+      bufferIn
+    };
+  }
+
+  /**
+   * Image rotation, in degrees, of a face's row direction
+   */
+  static faceRotation(face: PVRoofFace): number {
+    return face.azimuthDegrees;
+  }
+
+  static inchesToPixels(inches: number, feetPerPixel: number): number {
+    return feetPerPixel > 0 ? inches / INCHES_PER_FOOT / feetPerPixel : 0;
+  }
+
+  static containsPoint(polygon: LayoutPoint[], point: LayoutPoint): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = polygon[i];
+      const b = polygon[j];
+      if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  private static fillRows(layout: PVLayout, face: PVRoofFace, others: PVPlacedModule[], coveragePercent: number): PVPlacedModule[] {
+    const { feetPerPixel, module: spec } = layout;
+    const area = this.buildableArea(face, layout.ruleSet, feetPerPixel, coveragePercent);
+    if (area.length < 3) return [];
+
+    const axes = this.faceAxes(face);
+    const { along, across } = this.moduleSize(face, face.orientation, spec, feetPerPixel);
+    const gap = this.inchesToPixels(this.MODULE_GAP_IN, feetPerPixel);
+    const rowGap = this.inchesToPixels(face.rowSpacingIn, feetPerPixel) * Math.cos(this.toRadians(face.pitchDegrees));
+    const step = this.inchesToPixels(this.FILL_STEP_IN, feetPerPixel);
+    if (!(along > 0 && across > 0 && step > 0)) return [];
+
+    // Work in face coordinates: s along the rows, t down the slope
+    const local = area.map(point => ({ s: dot(point, axes.row), t: dot(point, axes.downslope) }));
+    const tMin = Math.min(...local.map(p => p.t));
+    const tMax = Math.max(...local.map(p => p.t));
+    const obstacles = [
+      ...layout.keepOuts.map(keepOut => this.keepOutArea(keepOut, feetPerPixel)),
+      ...others.flatMap(module => {
+        const otherFace = layout.faces.find(f => f.id === module.faceId);
+        return otherFace ? [this.moduleFootprint(module, otherFace, spec, feetPerPixel)] : [];
+      })
+    ];
+
+    const placed: PVPlacedModule[] = [];
+    for (let top = tMin, row = 0; top + across <= tMax + EPSILON; top += across + rowGap, row++) {
+      const upper = this.span(local, top);
+      const lower = this.span(local, top + across);
+      if (!upper || !lower) continue;
+      const right = Math.min(upper[1], lower[1]);
+      let column = 0;
+      for (let left = Math.max(upper[0], lower[0]); left + along <= right + EPSILON;) {
+        const candidate: PVPlacedModule = {
+          id: `${face.id}-${row + 1}-${column + 1}`,
+          faceId: face.id,
+          center: add(
+            { x: axes.row.x * (left + along / 2), y: axes.row.y * (left + along / 2) },
+            axes.downslope,
+            top + across / 2
+          ),
+          orientation: face.orientation,
+          rotationDegrees: 0
+        };
+        const footprint = this.moduleFootprint(candidate, face, spec, feetPerPixel);
+        if (obstacles.some(obstacle => this.polygonsOverlap(footprint, obstacle))) {
+          left += step;
+          continue;
+        }
+        placed.push(candidate);
+        column++;
+        left += along + gap;
+      }
+    }
+    return placed;
+  }
+
+  // Modules on a face in wiring order: rows from the ridge down, alternating direction
+  private static serpentine(layout: PVLayout, face: PVRoofFace): PVPlacedModule[] {
+    const axes = this.faceAxes(face);
+    const { across } = this.moduleSize(face, face.orientation, layout.module, layout.feetPerPixel);
+    const modules = layout.modules
+      .filter(module => module.faceId === face.id)
+      .map(module => ({ module, s: dot(module.center, axes.row), t: dot(module.center, axes.downslope) }))
+      .sort((a, b) => a.t - b.t);
+
+    const rows: Array<typeof modules> = [];
+    modules.forEach(entry => {
+      const current = rows[rows.length - 1];
+      if (current && entry.t - current[0].t < across / 2) current.push(entry);
+      else rows.push([entry]);
+    });
+
+    return rows.flatMap((row, index) => {
+      const sorted = [...row].sort((a, b) => a.s - b.s);
+      return (index % 2 === 0 ? sorted : sorted.reverse()).map(entry => entry.module);
+    });
+  }
+
+  private static moduleSize(face: PVRoofFace, orientation: ModuleOrientation, spec: PVModuleSpec, feetPerPixel: number) {
+    const [alongIn, acrossIn] = orientation === 'portrait' ? [spec.widthIn, spec.lengthIn] : [spec.lengthIn, spec.widthIn];
+    return {
+      along: this.inchesToPixels(alongIn, feetPerPixel),
+      across: this.inchesToPixels(acrossIn, feetPerPixel) * Math.cos(this.toRadians(face.pitchDegrees))
+    };
+  }
+
+  private static faceAxes(face: PVRoofFace): { row: LayoutPoint; downslope: LayoutPoint } {
+    const downslope = this.downslope(face.azimuthDegrees);
+    return { row: { x: -downslope.y, y: downslope.x }, downslope };
+  }
+
+  // Image y grows southward, so north is -y
+  private static downslope(azimuthDegrees: number): LayoutPoint {
+    const azimuth = this.toRadians(azimuthDegrees);
+    return { x: Math.sin(azimuth), y: -Math.cos(azimuth) };
+  }
+
+  // Unit normal of edge i pointing out of the polygon
+  private static edgeNormal(points: LayoutPoint[], i: number): LayoutPoint {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    const sign = this.signedArea(points) >= 0 ? 1 : -1;
+    return { x: (sign * (b.y - a.y)) / length, y: (sign * -(b.x - a.x)) / length };
+  }
+
+  /**
+   * Move each edge inward by its distance (outward when negative) and rejoin neighbouring edges.
+   * Returns an empty polygon when an edge flips, i.e. the offsets consume the shape.
+   */
+  private static offsetPolygon(points: LayoutPoint[], distances: number[]): LayoutPoint[] {
+    const n = points.length;
+    if (n < 3) return [];
+    const lines = points.map((point, i) => {
+      const normal = this.edgeNormal(points, i);
+      const next = points[(i + 1) % n];
+      return {
+        origin: add(point, normal, -distances[i]),
+        direction: { x: next.x - point.x, y: next.y - point.y }
+      };
+    });
+
+    const result = lines.map((line, i) => {
+      const previous = lines[(i - 1 + n) % n];
+      const denominator = cross(previous.direction, line.direction);
+      if (Math.abs(denominator) < EPSILON) return line.origin;
+      const offset = { x: line.origin.x - previous.origin.x, y: line.origin.y - previous.origin.y };
+      return add(previous.origin, previous.direction, cross(offset, line.direction) / denominator);
+    });
+
+    const flipped = result.some((point, i) => {
+      const next = result[(i + 1) % n];
+      return dot({ x: next.x - point.x, y: next.y - point.y }, lines[i].direction) <= EPSILON;
+    });
+    return flipped ? [] : result;
+  }
+
+  // Range of s covered by the polygon at a given t
+  private static span(local: Array<{ s: number; t: number }>, t: number): [number, number] | null {
+    const hits: number[] = [];
+    local.forEach((a, i) => {
+      const b = local[(i + 1) % local.length];
+      if ((a.t <= t + EPSILON && b.t >= t - EPSILON) || (b.t <= t + EPSILON && a.t >= t - EPSILON)) {
+        if (Math.abs(b.t - a.t) < EPSILON) hits.push(a.s, b.s);
+        else hits.push(a.s + ((t - a.t) / (b.t - a.t)) * (b.s - a.s));
+      }
+    });
+    return hits.length > 0 ? [Math.min(...hits), Math.max(...hits)] : null;
+  }
+
+  private static signedArea(points: LayoutPoint[]): number {
+    return points.reduce((sum, point, i) => sum + cross(point, points[(i + 1) % points.length]), 0) / 2;
+  }
+
+  // Every corner inside, which is enough for the convex areas setbacks leave
+  private static polygonContains(outer: LayoutPoint[], inner: LayoutPoint[]): boolean {
+    if (outer.length < 3) return false;
+    const tolerance = this.scaleTolerance(outer);
+    const shrunk = inner.map(point => {
+      const center = this.centroid(inner);
+      const length = Math.hypot(point.x - center.x, point.y - center.y) || 1;
+      return add(point, { x: (center.x - point.x) / length, y: (center.y - point.y) / length }, tolerance);
+    });
+    return shrunk.every(point => this.containsPoint(outer, point));
+  }
+
+  // Separating axis test for convex polygons; touching edges don't count as overlap
+  private static polygonsOverlap(a: LayoutPoint[], b: LayoutPoint[]): boolean {
+    if (a.length < 3 || b.length < 3) return false;
+    const tolerance = Math.min(this.scaleTolerance(a), this.scaleTolerance(b));
+    return [a, b].every(polygon => polygon.every((point, i) => {
+      const next = polygon[(i + 1) % polygon.length];
+      const axis = { x: -(next.y - point.y), y: next.x - point.x };
+      const length = Math.hypot(axis.x, axis.y);
+      if (length < EPSILON) return true;
+      const project = (shape: LayoutPoint[]) => shape.map(p => dot(p, axis) / length);
+      const [pa, pb] = [project(a), project(b)];
+      return Math.min(Math.max(...pa), Math.max(...pb)) - Math.max(Math.min(...pa), Math.min(...pb)) > tolerance;
+    }));
+  }
+
+  private static scaleTolerance(points: LayoutPoint[]): number {
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    return Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)) * 1e-6;
+  }
+
+  private static centroid(points: LayoutPoint[]): LayoutPoint {
+    return {
+      x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+      y: points.reduce((sum, p) => sum + p.y, 0) / points.length
+    };
+  }
+
+  private static toRadians(degrees: number): number {
+    return (degrees * Math.PI) / 180;
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * PV production service
+ * Builds DC arrays from the roof layout or AI roof analysis and inverter ratings from the single-line diagram,
+ * then requests a PVWatts-style hourly simulation over a typical meteorological year
+ */
+
+import { SecureApiService } from './secureApiService';
+import { ErrorHandlingService } from './errorHandlingService';
+import { ErrorType } from '../types/error';
+import type { RoofAnalysisResult } from './aiRoofAnalysisService';
+import type { SLDDiagram, SLDInverter } from '../types/sld';
+import type { SolarBatteryLoad } from '../types/load';
+import type { PVArray, PVInverter, PVProductionEstimate, PVProductionRequest } from '../types/pvProduction';
+import type { PVLayout } from '../types/pvLayout';
+
+type Point = { x: number; y: number };
+
+export class PVProductionService {
+  // Panel rating assumed by the AI roof analysis layout
+  static readonly DEFAULT_MODULE_WATTS = 400;
+  static readonly DEFAULT_DC_AC_RATIO = 1.2;
+  static readonly DEFAULT_RATE_PER_KWH = 0.15;
+  static readonly DEFAULT_RATE_ESCALATION = 2.5; // percent per year
+
+  /**
+   * One array per roof segment that received panels. Panels are assigned to the segment containing
+   * their center, or the nearest segment when the layout spills past an outline.
+   */
+  static arraysFromRoofAnalysis(
+    analysis: Pick<RoofAnalysisResult, 'roofSegments' | 'panelPlacement'>,
+    moduleWatts: number = this.DEFAULT_MODULE_WATTS
+  ): PVArray[] {
+    const { roofSegments, panelPlacement } = analysis;
+    if (roofSegments.length === 0) return [];
+
+    const counts = new Map<string, number>();
+    panelPlacement.forEach(panel => {
+      const center = { x: panel.x + panel.width / 2, y: panel.y + panel.height / 2 };
+      const segment = roofSegments.find(s => this.containsPoint(s.coordinates, center))
+        ?? roofSegments.reduce((nearest, s) =>
+          this.distanceTo(s.coordinates, center) < this.distanceTo(nearest.coordinates, center) ? s : nearest
+        );
+      counts.set(segment.id, (counts.get(segment.id) || 0) + 1);
+    });
+
+    return roofSegments
+      .filter(segment => counts.has(segment.id))
+      .map(segment => {
+        const moduleCount = counts.get(segment.id)!;
+        return {
+          id: segment.id,
+          dcKw: (moduleCount * moduleWatts) / 1000,
+          pitchDegrees: segment.slope,
+          azimuthDegrees: segment.orientation,
+          moduleCount,
+          mounting: 'roof' as const
+        };
+      });
+  }
+
+  /**
+   * One array per face of the roof layout editor that holds modules
+   */
+  static arraysFromLayout(layout: Pick<PVLayout, 'faces' | 'modules' | 'module'>): PVArray[] {
+    return layout.faces
+      .map(face => ({ face, moduleCount: layout.modules.filter(module => module.faceId === face.id).length }))
+      .filter(({ moduleCount }) => moduleCount > 0)
+      .map(({ face, moduleCount }) => ({
+        id: face.id,
+        dcKw: (moduleCount * layout.module.watts) / 1000,
+        pitchDegrees: face.pitchDegrees,
+        azimuthDegrees: face.azimuthDegrees,
+        moduleCount,
+        mounting: 'roof' as const
+      }));
+  }
+
+  /**
+   * A single equator-facing 30° array sized from the AC capacity, for sites without a roof layout
+   */
+  static defaultArrays(acKw: number, latitude: number): PVArray[] {
+    if (!(acKw > 0)) return [];
+    return [{
+      id: 'default',
+      dcKw: acKw * this.DEFAULT_DC_AC_RATIO,
+      pitchDegrees: 30,
+      azimuthDegrees: latitude >= 0 ? 180 : 0,
+      mounting: 'roof'
+    }];
+  }
+
+  /**
+   * Inverter ratings from the diagram. Library parts keep ratings under specifications, and efficiency
+   * may be entered as a percent. A microinverter symbol stands for one unit per module.
+   */
+  static invertersFromSLD(diagram: SLDDiagram | null | undefined, moduleCount?: number): PVInverter[] {
+    if (!diagram) return [];
+    return diagram.components
+      .filter((component): component is SLDInverter => component.type === 'inverter')
+      .map(inverter => {
+        const specs = (inverter as SLDInverter & { specifications?: Record<string, any> }).specifications || {};
+        const acKw = Number(inverter.acOutputKW ?? specs.acOutputKW);
+        const efficiency = Number(specs.cecEfficiency ?? inverter.efficiency ?? specs.efficiency);
+        const inverterType = inverter.inverterType ?? specs.inverterType;
+        return {
+          id: inverter.id,
+          acKw,
+          efficiency: efficiency > 0 ? (efficiency > 1 ? efficiency / 100 : efficiency) : undefined,
+          quantity: Number(specs.quantity) || (inverterType === 'micro' && moduleCount ? moduleCount : 1)
+        };
+      })
+      .filter(inverter => inverter.acKw > 0);
+  }
+
+  /**
+   * Solar rows of the load calculation carry the inverter output in kW
+   */
+  static invertersFromSolarLoads(loads: SolarBatteryLoad[]): PVInverter[] {
+    return loads
+      .filter(load => load.type === 'solar' && load.kw > 0)
+      .map(load => ({ id: `load-${load.id}`, acKw: load.kw, quantity: load.quantity > 0 ? load.quantity : 1 }));
+  }
+
+  static async simulate(
+    latitude: number,
+    longitude: number,
+    arrays: PVArray[],
+    inverters: PVInverter[] = [],
+    options: Omit<PVProductionRequest, 'lat' | 'lon' | 'arrays' | 'inverters'> = {}
+  ): Promise<PVProductionEstimate> {
+    if (arrays.length === 0) {
+      throw ErrorHandlingService.createError(
+        ErrorType.VALIDATION,
+        'At least one array is required',
+        'Run an AI roof analysis or add a solar inverter to the load calculation to estimate production',
+        { latitude, longitude },
+        'PVProductionService.simulate'
+      );
+    }
+
+    try {
+      return await SecureApiService.getSolarProduction({ lat: latitude, lon: longitude, arrays, inverters, ...options });
+    } catch (error) {
+      throw ErrorHandlingService.handleApiError(error, 'PVProductionService.simulate');
+    }
+  }
+
+  /**
+   * Retail value of the degraded lifetime output, with the utility rate escalating yearly
+   */
+  static lifetimeValue(
+    estimate: Pick<PVProductionEstimate, 'degradation'>,
+    ratePerKwh: number = this.DEFAULT_RATE_PER_KWH,
+    escalationPercent: number = this.DEFAULT_RATE_ESCALATION
+  ): number {
+    return Math.round(estimate.degradation.schedule.reduce(
+      (sum, { year, acKwh }) => sum + acKwh * ratePerKwh * (1 + escalationPercent / 100) ** (year - 1),
+      0
+    ));
+  }
+
+  private static containsPoint(polygon: Point[], point: Point): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = polygon[i];
+      const b = polygon[j];
+      if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  private static distanceTo(polygon: Point[], point: Point): number {
+    if (polygon.length === 0) return Infinity;
+    const cx = polygon.reduce((sum, p) => sum + p.x, 0) / polygon.length;
+    const cy = polygon.reduce((sum, p) => sum + p.y, 0) / polygon.length;
+    return Math.hypot(point.x - cx, point.y - cy);
+  }
+}
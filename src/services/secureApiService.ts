@@ -1,4 +1,5 @@
 import { createComponentLogger } from './loggingService';
+import type { PVProductionEstimate, PVProductionRequest } from '../types/pvProduction';
 
 const logger = createComponentLogger('SecureApiService');
 
@@ -304,6 +305,56 @@ export class SecureApiService {
     }
   }
 
+  // Solar access report from tagged obstructions
+  static async getSolarAccessReport(request: {
+    lat: number;
+    lon: number;
+    segments: unknown[];
+    obstructions: unknown[];
+    year?: number;
+  }): Promise<any> {
+    try {
+      const response = await fetch(`${this.API_BASE}/shading`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request)
+      });
+      
+      if (!response.ok) {
+        throw new Error(`Solar access analysis failed: ${response.statusText}`);
+      }
+      
+      return await response.json();
+    } catch (error) {
+      logger.error('Solar access analysis error', error instanceof Error ? error : new Error(String(error)), { lat: request.lat, lon: request.lon });
+      throw error;
+    }
+  }
+
+  // Hourly PV production simulation over a typical meteorological year
+  static async getSolarProduction(request: PVProductionRequest): Promise<PVProductionEstimate> {
+    try {
+      const response = await fetch(`${this.API_BASE}/solar-production`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request)
+      });
+      
+      if (!response.ok) {
+        throw new Error(`Solar production simulation failed: ${response.statusText}`);
+      }
+      
+      return await response.json();
+    } catch (error) {
+      logger.error('Solar production simulation error', error instanceof Error ? error : new Error(String(error)), { lat: request.lat, lon: request.lon });
+      throw error;
+    }
+  }
+
   // Street View API
   static async getStreetView(
     lat: number,
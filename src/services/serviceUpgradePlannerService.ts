@@ -0,0 +1,348 @@
+/**
+ * Service Upgrade Planner
+ *
+ * Searches for ways to keep an existing service instead of upgrading it:
+ * - EMS and DCC caps on the EVSE load
+ * - SimpleSwitch branch sharing between two specific loads
+ * - Downsizing EV chargers to a lower amperage
+ * - Replacing resistance heat with a heat pump
+ * Each scenario is run through the dwelling load calculation and ranked by
+ * whether it avoids the upgrade and by estimated installed cost.
+ */
+
+import { calculateLoadDemand } from './necCalculations';
+import { DEFAULT_NEC_CODE_YEAR } from '../constants';
+import type {
+  ActualDemandData,
+  CalculationMethod,
+  LoadItem,
+  LoadState,
+  PanelDetails
+} from '../types';
+
+export type UpgradeStrategy = 'ems' | 'simpleswitch' | 'dcc' | 'evse_downsize' | 'heat_pump';
+
+export interface SimpleSwitchLoadSelection {
+  type: 'general' | 'hvac' | 'evse';
+  id: number;
+  name: string;
+  amps: number;
+}
+
+// Load management fields of the calculator state a scenario sets
+export interface LoadManagementSettings {
+  loadManagementType: 'none' | 'ems' | 'simpleswitch' | 'dcc';
+  loadManagementMaxLoad: number;
+  useEMS: boolean;
+  emsMaxLoad: number;
+  simpleSwitchMode: 'branch_sharing' | 'feeder_monitoring';
+  simpleSwitchLoadA: SimpleSwitchLoadSelection | null;
+  simpleSwitchLoadB: SimpleSwitchLoadSelection | null;
+}
+
+export interface LoadChange {
+  category: 'general' | 'hvac' | 'evse';
+  id: number;
+  updates: Partial<LoadItem>;
+}
+
+export interface UpgradeScenario {
+  id: string;
+  strategies: UpgradeStrategy[];
+  title: string;
+  description: string;
+  settings: LoadManagementSettings;
+  loadChanges: LoadChange[];
+  totalAmps: number;
+  spareCapacity: number;
+  avoidsUpgrade: boolean;
+  estimatedCost: number;
+}
+
+export interface UpgradePlan {
+  mainBreaker: number;
+  // Calculated load with no load management and no changes
+  baselineAmps: number;
+  upgradeRequired: boolean;
+  recommendedServiceSize: number;
+  scenarios: UpgradeScenario[];
+}
+
+export interface UpgradePlannerOptions {
+  calculationMethod: CalculationMethod;
+  squareFootage: number;
+  actualDemandData: ActualDemandData;
+  codeYear?: string;
+}
+
+// Installed cost estimates in USD, before incentives
+export const UPGRADE_COST_ESTIMATES = {
+  ems: 1800,
+  simpleswitch: 1100,
+  dcc: 1600,
+  evseDownsizePerCharger: 150,
+  heatPumpPerUnit: 9000
+};
+
+// Caps and charger settings tried, largest first so the least restrictive one that fits wins
+const EVSE_AMP_STEPS = [48, 40, 32, 24, 16];
+// Heat pump input as a fraction of the resistance heat it replaces, without auxiliary strips
+const HEAT_PUMP_LOAD_FACTOR = 0.4;
+// SimpleSwitch rating for a shared branch (warning SS-001 above this)
+const SIMPLESWITCH_MAX_AMPS = 50;
+
+const NO_LOAD_MANAGEMENT: LoadManagementSettings = {
+  loadManagementType: 'none',
+  loadManagementMaxLoad: 0,
+  useEMS: false,
+  emsMaxLoad: 0,
+  simpleSwitchMode: 'branch_sharing',
+  simpleSwitchLoadA: null,
+  simpleSwitchLoadB: null
+};
+
+const STRATEGY_LABELS: Record<UpgradeStrategy, string> = {
+  ems: 'EMS',
+  simpleswitch: 'SimpleSwitch',
+  dcc: 'DCC',
+  evse_downsize: 'EVSE downsize',
+  heat_pump: 'Heat pump'
+};
+
+interface LoadVariant {
+  strategies: UpgradeStrategy[];
+  descriptions: string[];
+  loadChanges: LoadChange[];
+  cost: number;
+}
+
+const activeLoads = <T extends LoadItem>(loads: T[]): T[] => loads.filter(load => load.quantity > 0);
+
+const withAmps = (load: LoadItem, amps: number, extra: Partial<LoadItem> = {}): Partial<LoadItem> => ({
+  amps,
+  va: amps * load.volts,
+  total: amps * load.volts * load.quantity,
+  ...extra
+});
+
+export class ServiceUpgradePlanner {
+
+  /**
+   * Enumerate upgrade avoidance scenarios for the loads and rank them: scenarios
+   * that keep the existing main breaker first, then by estimated cost. Returns
+   * null for the multifamily and commercial methods, which have no dwelling
+   * loads to manage, and for inputs the calculator rejects (e.g. a cleared
+   * square footage while the form is being edited).
+   */
+  static plan(
+    loadState: LoadState,
+    mainBreaker: number,
+    panelDetails: PanelDetails,
+    options: UpgradePlannerOptions
+  ): UpgradePlan | null {
+    if (options.calculationMethod === 'multifamily' || options.calculationMethod === 'commercial') return null;
+    try {
+      return this.buildPlan(loadState, mainBreaker, panelDetails, options);
+    } catch {
+      return null;
+    }
+  }
+
+  private static buildPlan(
+    loadState: LoadState,
+    mainBreaker: number,
+    panelDetails: PanelDetails,
+    options: UpgradePlannerOptions
+  ): UpgradePlan {
+    const run = (loads: LoadState, settings: LoadManagementSettings) => calculateLoadDemand(
+      loads,
+      options.calculationMethod,
+      options.squareFootage,
+      mainBreaker,
+      panelDetails,
+      options.actualDemandData,
+      settings.useEMS,
+      settings.emsMaxLoad,
+      settings.loadManagementType,
+      settings.loadManagementMaxLoad,
+      settings.simpleSwitchMode,
+      settings.simpleSwitchLoadA,
+      settings.simpleSwitchLoadB,
+      options.codeYear ?? DEFAULT_NEC_CODE_YEAR
+    );
+
+    const baseline = run(loadState, NO_LOAD_MANAGEMENT);
+    const scenarios: UpgradeScenario[] = [];
+
+    const addScenario = (variant: LoadVariant, management?: { strategy: UpgradeStrategy; settings: LoadManagementSettings; description: string; cost: number }) => {
+      const strategies = management ? [management.strategy, ...variant.strategies] : variant.strategies;
+      if (strategies.length === 0) return;
+      const settings = management?.settings ?? NO_LOAD_MANAGEMENT;
+      const result = run(this.applyLoadChanges(loadState, variant.loadChanges), settings);
+      scenarios.push({
+        id: strategies.join('+') + (settings.simpleSwitchLoadA && settings.simpleSwitchLoadB
+          ? `:${settings.simpleSwitchLoadA.type}${settings.simpleSwitchLoadA.id}-${settings.simpleSwitchLoadB.type}${settings.simpleSwitchLoadB.id}`
+          : ''),
+        strategies,
+        title: strategies.map(strategy => STRATEGY_LABELS[strategy]).join(' + '),
+        description: [management?.description, ...variant.descriptions].filter(Boolean).join('; '),
+        settings,
+        loadChanges: variant.loadChanges,
+        totalAmps: result.totalAmps,
+        spareCapacity: result.spareCapacity,
+        avoidsUpgrade: result.totalAmps <= mainBreaker,
+        estimatedCost: variant.cost + (management?.cost ?? 0)
+      });
+    };
+
+    const heatPump = this.heatPumpVariant(loadState);
+    const loadVariants: LoadVariant[] = [{ strategies: [], descriptions: [], loadChanges: [], cost: 0 }];
+    if (heatPump) loadVariants.push(heatPump);
+
+    loadVariants.forEach(variant => {
+      addScenario(variant);
+
+      const loads = this.applyLoadChanges(loadState, variant.loadChanges);
+      const totalEvseAmps = activeLoads(loads.evseLoads).reduce((sum, load) => sum + load.amps * load.quantity, 0);
+
+      (['ems', 'dcc'] as const).forEach(strategy => {
+        if (totalEvseAmps === 0) return;
+        const cap = this.largestFittingStep(totalEvseAmps, amps => run(loads, this.capSettings(strategy, amps)).totalAmps <= mainBreaker);
+        addScenario(variant, {
+          strategy,
+          settings: this.capSettings(strategy, cap),
+          description: `${strategy === 'ems' ? 'EMS' : 'DCC'} limits EV charging to ${cap} A`,
+          cost: UPGRADE_COST_ESTIMATES[strategy]
+        });
+      });
+
+      this.simpleSwitchPairs(loads).forEach(([loadA, loadB]) => {
+        addScenario(variant, {
+          strategy: 'simpleswitch',
+          settings: { ...NO_LOAD_MANAGEMENT, loadManagementType: 'simpleswitch', simpleSwitchLoadA: loadA, simpleSwitchLoadB: loadB },
+          description: `SimpleSwitch shares one circuit between ${loadA.name} and ${loadB.name}`,
+          cost: UPGRADE_COST_ESTIMATES.simpleswitch
+        });
+      });
+
+      const downsize = this.evseDownsizeVariant(loads, changes =>
+        run(this.applyLoadChanges(loads, changes), NO_LOAD_MANAGEMENT).totalAmps <= mainBreaker
+      );
+      if (downsize) {
+        addScenario({
+          strategies: [...variant.strategies, ...downsize.strategies],
+          descriptions: [...variant.descriptions, ...downsize.descriptions],
+          loadChanges: [...variant.loadChanges, ...downsize.loadChanges],
+          cost: variant.cost + downsize.cost
+        });
+      }
+    });
+
+    scenarios.sort((a, b) =>
+      Number(b.avoidsUpgrade) - Number(a.avoidsUpgrade) ||
+      a.estimatedCost - b.estimatedCost ||
+      a.totalAmps - b.totalAmps
+    );
+
+    return {
+      mainBreaker,
+      baselineAmps: baseline.totalAmps,
+      upgradeRequired: baseline.totalAmps > mainBreaker,
+      recommendedServiceSize: baseline.recommendedServiceSize,
+      scenarios
+    };
+  }
+
+  /**
+   * Loads with a scenario's changes applied
+   */
+  static applyLoadChanges(loadState: LoadState, changes: LoadChange[]): LoadState {
+    if (changes.length === 0) return loadState;
+    const apply = <T extends LoadItem>(loads: T[], category: LoadChange['category']): T[] => loads.map(load => {
+      const change = changes.find(candidate => candidate.category === category && candidate.id === load.id);
+      return change ? { ...load, ...change.updates } : load;
+    });
+    return {
+      ...loadState,
+      generalLoads: apply(loadState.generalLoads, 'general'),
+      hvacLoads: apply(loadState.hvacLoads, 'hvac'),
+      evseLoads: apply(loadState.evseLoads, 'evse')
+    };
+  }
+
+  private static capSettings(strategy: 'ems' | 'dcc', amps: number): LoadManagementSettings {
+    return { ...NO_LOAD_MANAGEMENT, loadManagementType: strategy, loadManagementMaxLoad: amps };
+  }
+
+  /**
+   * Largest EVSE step below the current amps that passes, or the smallest step
+   */
+  private static largestFittingStep(currentAmps: number, fits: (amps: number) => boolean): number {
+    const steps = EVSE_AMP_STEPS.filter(amps => amps < currentAmps);
+    return steps.find(fits) ?? steps[steps.length - 1] ?? currentAmps;
+  }
+
+  private static heatPumpVariant(loadState: LoadState): LoadVariant | null {
+    const heaters = activeLoads(loadState.hvacLoads).filter(load => load.type === 'resistance_heat');
+    if (heaters.length === 0) return null;
+    return {
+      strategies: ['heat_pump'],
+      descriptions: heaters.map(load => {
+        const amps = Math.ceil(load.amps * HEAT_PUMP_LOAD_FACTOR);
+        return `Replace ${load.name} (${load.amps} A) with a ${amps} A heat pump`;
+      }),
+      loadChanges: heaters.map(load => ({
+        category: 'hvac' as const,
+        id: load.id,
+        updates: withAmps(load, Math.ceil(load.amps * HEAT_PUMP_LOAD_FACTOR), {
+          name: `Heat Pump (replaces ${load.name})`,
+          type: 'hvac'
+        })
+      })),
+      cost: heaters.reduce((sum, load) => sum + load.quantity * UPGRADE_COST_ESTIMATES.heatPumpPerUnit, 0)
+    };
+  }
+
+  /**
+   * Lower every charger above a common setting, trying settings from the highest down
+   */
+  private static evseDownsizeVariant(
+    loadState: LoadState,
+    fits: (changes: LoadChange[]) => boolean
+  ): LoadVariant | null {
+    const chargers = activeLoads(loadState.evseLoads);
+    const largest = Math.max(0, ...chargers.map(load => load.amps));
+    const changesAt = (amps: number): LoadChange[] => chargers
+      .filter(load => load.amps > amps)
+      .map(load => ({ category: 'evse' as const, id: load.id, updates: withAmps(load, amps) }));
+
+    const setting = this.largestFittingStep(largest, amps => fits(changesAt(amps)));
+    const changes = changesAt(setting);
+    if (changes.length === 0) return null;
+
+    const downsized = chargers.filter(load => load.amps > setting);
+    return {
+      strategies: ['evse_downsize'],
+      descriptions: [`Set ${downsized.map(load => load.name).join(', ')} to ${setting} A`],
+      loadChanges: changes,
+      cost: downsized.reduce((sum, load) => sum + load.quantity * UPGRADE_COST_ESTIMATES.evseDownsizePerCharger, 0)
+    };
+  }
+
+  /**
+   * Pairs of 240 V loads a SimpleSwitch can share, each within its rating
+   */
+  private static simpleSwitchPairs(loadState: LoadState): [SimpleSwitchLoadSelection, SimpleSwitchLoadSelection][] {
+    const candidates: SimpleSwitchLoadSelection[] = [
+      ...activeLoads(loadState.generalLoads).filter(load => load.volts >= 208).map(load => ({ type: 'general' as const, id: load.id, name: load.name, amps: load.amps })),
+      ...activeLoads(loadState.hvacLoads).map(load => ({ type: 'hvac' as const, id: load.id, name: load.name, amps: load.amps })),
+      ...activeLoads(loadState.evseLoads).map(load => ({ type: 'evse' as const, id: load.id, name: load.name, amps: load.amps }))
+    ].filter(load => load.amps > 0 && load.amps <= SIMPLESWITCH_MAX_AMPS);
+
+    const pairs: [SimpleSwitchLoadSelection, SimpleSwitchLoadSelection][] = [];
+    candidates.forEach((loadA, index) => {
+      candidates.slice(index + 1).forEach(loadB => pairs.push([loadA, loadB]));
+    });
+    return pairs;
+  }
+}
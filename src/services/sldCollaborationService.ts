@@ -1,4 +1,4 @@
-import type { SLDDiagram, SLDComponent, SLDConnection } from '../types/sld';
+import type { SLDDiagram, SLDComponent, SLDConnection, SLDPosition } from '../types/sld';
 
 export interface User {
   id: string;
@@ -18,6 +18,7 @@ export interface SLDChange {
   data: any;
   timestamp: Date;
   userId: string;
+  /** Lamport clock value; with userId and id it totally orders concurrent changes */
   version: number;
   conflictResolution?: 'local' | 'remote' | 'merged';
 }
@@ -30,6 +31,7 @@ export interface CollaborationSession {
   version: number;
   lastSync: Date;
   isActive: boolean;
+  token?: string; // Shared with invitees; the sync server only admits joins that present it
   permissions: {
     canEdit: boolean;
     canInvite: boolean;
@@ -45,9 +47,143 @@ export interface ConflictResolution {
   resolvedAt: Date;
 }
 
+export interface PresenceCursor {
+  userId: string;
+  name: string;
+  color: string;
+  position: SLDPosition;
+  selection: string[];
+  updatedAt: Date;
+}
+
+export type SyncMessage =
+  | { type: 'join'; sessionId: string; diagramId: string; token?: string; user: User; snapshot?: SLDDiagram | null; changes: SLDChange[] }
+  | { type: 'welcome'; sessionId: string; diagramId: string; snapshot: SLDDiagram | null; changes: SLDChange[]; participants: User[]; presence: PresenceCursor[] }
+  | { type: 'changes'; changes: SLDChange[] }
+  | { type: 'presence'; position: SLDPosition; selection: string[] }
+  | { type: 'presence'; presence: PresenceCursor }
+  | { type: 'participant_joined'; user: User }
+  | { type: 'participant_left'; userId: string }
+  | { type: 'leave' }
+  | { type: 'error'; message: string };
+
+export interface SyncTransportHandlers {
+  onMessage: (message: SyncMessage) => void;
+  onClose: () => void;
+}
+
+/**
+ * Connection to the sync server; swap in another implementation for tests or other hosts
+ */
+export interface SLDSyncTransport {
+  connect(handlers: SyncTransportHandlers): Promise<void>;
+  send(message: SyncMessage): void;
+  close(): void;
+  isOpen(): boolean;
+}
+
+export interface SyncConnectOptions {
+  url?: string;
+  transport?: SLDSyncTransport;
+  flushIntervalMs?: number;
+  token?: string; // Session token from the host's invite
+}
+
+export type CollaborationEvent =
+  | { type: 'changes'; changes: SLDChange[]; diagram: SLDDiagram | null }
+  | { type: 'presence'; cursors: PresenceCursor[] }
+  | { type: 'participants'; participants: User[] }
+  | { type: 'status'; connected: boolean }
+  | { type: 'error'; message: string };
+
+export const DEFAULT_SYNC_URL = 'ws://localhost:3002/sld-sync';
+const SYNC_FLUSH_INTERVAL_MS = 50;
+
+/** Nested component records whose keys merge independently */
+const MERGEABLE_COMPONENT_FIELDS = ['properties', 'specifications', 'visual'];
+
+interface RegisterStamp {
+  version: number;
+  userId: string;
+  changeId: string;
+}
+
+/**
+ * Last-writer-wins register for one field of the diagram. Component and
+ * connection existence live in the register whose field is null; a null value
+ * there is a removal tombstone.
+ */
+interface Register {
+  target: 'component' | 'connection' | 'diagram';
+  id: string;
+  field: string | null;
+  value: any;
+  stamp: RegisterStamp;
+}
+
+interface SessionReplica {
+  base: SLDDiagram | null;
+  registers: Map<string, Register>;
+  presence: Map<string, PresenceCursor>;
+  transport: SLDSyncTransport | null;
+  listeners: Set<(event: CollaborationEvent) => void>;
+}
+
+/**
+ * WebSocket transport for the Node sync server (sync-server.js)
+ */
+export class WebSocketSyncTransport implements SLDSyncTransport {
+  private socket: WebSocket | null = null;
+
+  constructor(private url: string = DEFAULT_SYNC_URL) {}
+
+  connect(handlers: SyncTransportHandlers): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url);
+      let opened = false;
+
+      socket.onopen = () => {
+        opened = true;
+        resolve();
+      };
+      socket.onerror = () => {
+        if (!opened) reject(new Error(`Could not connect to sync server at ${this.url}`));
+      };
+      socket.onmessage = (event: MessageEvent) => {
+        try {
+          handlers.onMessage(JSON.parse(String(event.data)));
+        } catch (error) {
+          console.error('Invalid sync message:', error);
+        }
+      };
+      socket.onclose = () => {
+        this.socket = null;
+        if (opened) handlers.onClose();
+      };
+      this.socket = socket;
+    });
+  }
+
+  send(message: SyncMessage): void {
+    if (this.isOpen()) {
+      this.socket!.send(JSON.stringify(message));
+    }
+  }
+
+  close(): void {
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  isOpen(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+}
+
 export class SLDCollaborationService {
   private static instance: SLDCollaborationService;
   private sessions: Map<string, CollaborationSession> = new Map();
+  private replicas: Map<string, SessionReplica> = new Map();
   private currentUser: User | null = null;
   private changeQueue: SLDChange[] = [];
   private syncInterval: NodeJS.Timeout | null = null;
@@ -60,7 +196,7 @@ export class SLDCollaborationService {
   }
 
   // Session Management
-  createSession(diagramId: string, user: User): CollaborationSession {
+  createSession(diagramId: string, user: User, diagram?: SLDDiagram): CollaborationSession {
     const session: CollaborationSession = {
       id: this.generateSessionId(),
       diagramId,
@@ -69,6 +205,7 @@ export class SLDCollaborationService {
       version: 1,
       lastSync: new Date(),
       isActive: true,
+      token: this.generateSessionToken(),
       permissions: {
         canEdit: true,
         canInvite: true,
@@ -77,6 +214,7 @@ export class SLDCollaborationService {
     };
 
     this.sessions.set(session.id, session);
+    this.replicas.set(session.id, this.createReplica(diagram));
     this.currentUser = user;
     return session;
   }
@@ -94,12 +232,45 @@ export class SLDCollaborationService {
     return null;
   }
 
+  /**
+   * Join a session hosted on the sync server. The diagram and change log
+   * arrive with the server's welcome message.
+   */
+  async joinRemoteSession(sessionId: string, diagramId: string, user: User, options: SyncConnectOptions = {}): Promise<CollaborationSession> {
+    if (!this.sessions.has(sessionId)) {
+      this.sessions.set(sessionId, {
+        id: sessionId,
+        diagramId,
+        participants: [user],
+        changes: [],
+        version: 1,
+        lastSync: new Date(),
+        isActive: true,
+        token: options.token,
+        permissions: {
+          canEdit: true,
+          canInvite: false,
+          canExport: true
+        }
+      });
+      this.replicas.set(sessionId, this.createReplica());
+    }
+
+    this.currentUser = user;
+    await this.connect(sessionId, options);
+    return this.sessions.get(sessionId)!;
+  }
+
   leaveSession(sessionId: string, userId: string): void {
     const session = this.sessions.get(sessionId);
     if (session) {
       session.participants = session.participants.filter(p => p.id !== userId);
+      if (userId === this.currentUser?.id) {
+        this.disconnect(sessionId);
+      }
       if (session.participants.length === 0) {
         this.sessions.delete(sessionId);
+        this.replicas.delete(sessionId);
       }
     }
   }
@@ -121,6 +292,7 @@ export class SLDCollaborationService {
     session.changes.push(newChange);
     session.version = newChange.version;
     session.lastSync = new Date();
+    this.writeRegisters(sessionId, newChange);
 
     // Add to sync queue
     this.changeQueue.push(newChange);
@@ -128,6 +300,54 @@ export class SLDCollaborationService {
     return newChange;
   }
 
+  /**
+   * Current diagram: the session's base diagram with every merged change applied
+   */
+  getDiagram(sessionId: string): SLDDiagram | null {
+    const replica = this.replicas.get(sessionId);
+    if (!replica?.base) return null;
+
+    const diagram: SLDDiagram = structuredClone(replica.base);
+    const components = new Map<string, SLDComponent>(diagram.components.map(component => [component.id, component]));
+    const connections = new Map<string, SLDConnection>(diagram.connections.map(connection => [connection.id, connection]));
+    const existence = new Map<string, RegisterStamp>();
+
+    // Existence first, so field writes older than a re-add are dropped
+    replica.registers.forEach(register => {
+      if (register.field !== null || register.target === 'diagram') return;
+      const items: Map<string, any> = register.target === 'component' ? components : connections;
+      existence.set(`${register.target}:${register.id}`, register.stamp);
+      if (register.value === null) {
+        items.delete(register.id);
+      } else {
+        items.set(register.id, structuredClone(register.value));
+      }
+    });
+
+    replica.registers.forEach(register => {
+      if (register.field === null) return;
+      if (register.target === 'diagram') {
+        (diagram as any)[register.field] = structuredClone(register.value);
+        return;
+      }
+
+      const item: any = register.target === 'component' ? components.get(register.id) : connections.get(register.id);
+      const added = existence.get(`${register.target}:${register.id}`);
+      if (!item || (added && !this.isNewer(register.stamp, added))) return;
+
+      const [field, key] = register.field.split('.');
+      if (key !== undefined) {
+        item[field] = { ...(item[field] || {}), [key]: structuredClone(register.value) };
+      } else {
+        item[field] = structuredClone(register.value);
+      }
+    });
+
+    diagram.components = Array.from(components.values());
+    diagram.connections = Array.from(connections.values());
+    return diagram;
+  }
+
   // Conflict Resolution
   detectConflicts(sessionId: string, incomingChanges: SLDChange[]): SLDChange[] {
     const session = this.sessions.get(sessionId);
@@ -148,21 +368,14 @@ export class SLDCollaborationService {
     return conflicts;
   }
 
+  /**
+   * Two changes conflict when they write the same register. Edits to
+   * different fields of one component merge without conflict.
+   */
   private isConflicting(change1: SLDChange, change2: SLDChange): boolean {
-    // Same component/connection being modified
-    if (change1.componentId && change1.componentId === change2.componentId) {
-      return true;
-    }
-    if (change1.connectionId && change1.connectionId === change2.connectionId) {
-      return true;
-    }
-
-    // Same diagram-level changes
-    if (change1.type === 'diagram_update' && change2.type === 'diagram_update') {
-      return true;
-    }
-
-    return false;
+    if (change1.id === change2.id) return false;
+    const keys = new Set(this.getRegisterWrites(change1).map(register => this.getRegisterKey(register)));
+    return this.getRegisterWrites(change2).some(register => keys.has(this.getRegisterKey(register)));
   }
 
   resolveConflict(changeId: string, resolution: 'local' | 'remote' | 'merged', mergedData?: any): ConflictResolution {
@@ -174,13 +387,90 @@ export class SLDCollaborationService {
       resolvedAt: new Date()
     };
 
-    // Apply resolution logic here
-    // This would typically involve updating the change and notifying other participants
+    // Registers already converge on the latest write; a manual resolution
+    // re-issues the chosen data as a new change so every replica adopts it
+    if (resolution !== 'remote') {
+      for (const [sessionId, session] of this.sessions) {
+        const change = session.changes.find(c => c.id === changeId);
+        if (!change || !this.currentUser) continue;
+
+        const local = resolution === 'local'
+          ? [...session.changes].reverse().find(c => c.userId === this.currentUser!.id && this.isConflicting(c, change))
+          : undefined;
+        const data = resolution === 'merged' ? mergedData : local?.data;
+        if (data !== undefined) {
+          this.addChange(sessionId, {
+            type: change.type,
+            componentId: change.componentId,
+            connectionId: change.connectionId,
+            data,
+            userId: this.currentUser.id
+          });
+        }
+        break;
+      }
+    }
 
     return resolutionResult;
   }
 
   // Synchronization
+  /**
+   * Open the sync transport for a session, replay the server's change log and
+   * start flushing local changes
+   */
+  async connect(sessionId: string, options: SyncConnectOptions = {}): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    const replica = this.replicas.get(sessionId);
+    if (!session || !replica || !this.currentUser) {
+      throw new Error('Session not found');
+    }
+
+    replica.transport?.close();
+    const transport = options.transport || new WebSocketSyncTransport(options.url);
+    await transport.connect({
+      onMessage: message => this.handleSyncMessage(sessionId, message),
+      onClose: () => {
+        if (replica.transport === transport) {
+          replica.transport = null;
+          this.emit(sessionId, { type: 'status', connected: false });
+        }
+      }
+    });
+    replica.transport = transport;
+
+    // The whole log is resent so a restarted server or emptied room recovers
+    transport.send({
+      type: 'join',
+      sessionId,
+      diagramId: session.diagramId,
+      token: options.token ?? session.token,
+      user: this.currentUser,
+      snapshot: replica.base,
+      changes: session.changes
+    });
+    this.changeQueue = this.changeQueue.filter(change => !session.changes.includes(change));
+
+    this.emit(sessionId, { type: 'status', connected: true });
+    this.startSync(sessionId, options.flushIntervalMs ?? SYNC_FLUSH_INTERVAL_MS);
+  }
+
+  disconnect(sessionId: string): void {
+    const replica = this.replicas.get(sessionId);
+    if (!replica?.transport) return;
+
+    const transport = replica.transport;
+    replica.transport = null;
+    transport.send({ type: 'leave' });
+    transport.close();
+    this.stopSync();
+    this.emit(sessionId, { type: 'status', connected: false });
+  }
+
+  isConnected(sessionId: string): boolean {
+    return this.replicas.get(sessionId)?.transport?.isOpen() || false;
+  }
+
   startSync(sessionId: string, intervalMs: number = 5000): void {
     if (this.syncInterval) {
       clearInterval(this.syncInterval);
@@ -198,17 +488,21 @@ export class SLDCollaborationService {
     }
   }
 
-  private async syncChanges(sessionId: string): Promise<void> {
+  /**
+   * Send queued local changes now instead of waiting for the sync timer
+   */
+  syncChanges(sessionId: string): void {
     const session = this.sessions.get(sessionId);
-    if (!session || this.changeQueue.length === 0) return;
+    const transport = this.replicas.get(sessionId)?.transport;
+    if (!session || !transport?.isOpen() || this.changeQueue.length === 0) return;
 
-    const changesToSync = [...this.changeQueue];
-    this.changeQueue = [];
+    const changesToSync = this.changeQueue.filter(change => session.changes.includes(change));
+    if (changesToSync.length === 0) return;
+    this.changeQueue = this.changeQueue.filter(change => !changesToSync.includes(change));
 
     try {
-      // In a real implementation, this would send changes to a server
-      // For now, we'll simulate the sync process
-      await this.simulateServerSync(sessionId, changesToSync);
+      transport.send({ type: 'changes', changes: changesToSync });
+      session.lastSync = new Date();
     } catch (error) {
       console.error('Failed to sync changes:', error);
       // Re-queue failed changes
@@ -216,17 +510,72 @@ export class SLDCollaborationService {
     }
   }
 
-  private async simulateServerSync(sessionId: string, changes: SLDChange[]): Promise<void> {
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 100));
+  // Presence
+  updatePresence(sessionId: string, position: SLDPosition, selection: string[] = []): void {
+    this.replicas.get(sessionId)?.transport?.send({ type: 'presence', position, selection });
+  }
+
+  /**
+   * Other participants' cursors, each in the colour of its User
+   */
+  getPresence(sessionId: string): PresenceCursor[] {
+    const replica = this.replicas.get(sessionId);
+    return replica ? Array.from(replica.presence.values()) : [];
+  }
+
+  subscribe(sessionId: string, listener: (event: CollaborationEvent) => void): () => void {
+    const replica = this.replicas.get(sessionId);
+    if (!replica) return () => {};
+
+    replica.listeners.add(listener);
+    return () => replica.listeners.delete(listener);
+  }
 
+  private handleSyncMessage(sessionId: string, message: SyncMessage): void {
     const session = this.sessions.get(sessionId);
-    if (session) {
-      // Simulate receiving changes from other participants
-      const remoteChanges = changes.filter(c => c.userId !== this.currentUser?.id);
-      if (remoteChanges.length > 0) {
-        this.handleRemoteChanges(sessionId, remoteChanges);
-      }
+    const replica = this.replicas.get(sessionId);
+    if (!session || !replica) return;
+
+    switch (message.type) {
+      case 'welcome':
+        if (!replica.base && message.snapshot) {
+          replica.base = message.snapshot;
+        }
+        session.participants = message.participants;
+        replica.presence = new Map(
+          message.presence
+            .filter(cursor => cursor.userId !== this.currentUser?.id)
+            .map(cursor => [cursor.userId, this.reviveCursor(cursor)])
+        );
+        this.handleRemoteChanges(sessionId, message.changes);
+        this.emit(sessionId, { type: 'participants', participants: session.participants });
+        this.emit(sessionId, { type: 'presence', cursors: this.getPresence(sessionId) });
+        break;
+      case 'changes':
+        this.handleRemoteChanges(sessionId, message.changes);
+        break;
+      case 'presence':
+        if ('presence' in message) {
+          replica.presence.set(message.presence.userId, this.reviveCursor(message.presence));
+          this.emit(sessionId, { type: 'presence', cursors: this.getPresence(sessionId) });
+        }
+        break;
+      case 'participant_joined':
+        if (!session.participants.find(p => p.id === message.user.id)) {
+          session.participants.push(message.user);
+        }
+        this.emit(sessionId, { type: 'participants', participants: session.participants });
+        break;
+      case 'participant_left':
+        session.participants = session.participants.filter(p => p.id !== message.userId);
+        replica.presence.delete(message.userId);
+        this.emit(sessionId, { type: 'participants', participants: session.participants });
+        this.emit(sessionId, { type: 'presence', cursors: this.getPresence(sessionId) });
+        break;
+      case 'error':
+        console.error('Sync server error:', message.message);
+        this.emit(sessionId, { type: 'error', message: message.message });
+        break;
     }
   }
 
@@ -234,37 +583,122 @@ export class SLDCollaborationService {
     const session = this.sessions.get(sessionId);
     if (!session) return;
 
-    // Check for conflicts
-    const conflicts = this.detectConflicts(sessionId, remoteChanges);
-    
-    if (conflicts.length > 0) {
-      // Handle conflicts - in a real app, this would trigger UI for user resolution
-      console.warn('Conflicts detected:', conflicts);
-    }
+    const known = new Set(session.changes.map(change => change.id));
+    const incoming = remoteChanges
+      .filter(change => !known.has(change.id))
+      .map(change => ({ ...change, timestamp: new Date(change.timestamp) }));
+    if (incoming.length === 0) return;
 
-    // Apply non-conflicting changes
-    const nonConflictingChanges = remoteChanges.filter(change => 
-      !conflicts.find(conflict => conflict.id === change.id)
+    // Record how each conflict resolved; the registers decide the outcome
+    const conflicts = new Set(this.detectConflicts(sessionId, incoming).map(change => change.id));
+    const localComponents = new Set(
+      session.changes.filter(c => c.userId === this.currentUser?.id && c.componentId).map(c => c.componentId)
     );
 
-    for (const change of nonConflictingChanges) {
-      this.applyChange(sessionId, change);
+    for (const change of incoming) {
+      if (conflicts.has(change.id)) {
+        change.conflictResolution = this.applyChange(sessionId, change) ? 'remote' : 'local';
+      } else {
+        this.applyChange(sessionId, change);
+        if (change.componentId && localComponents.has(change.componentId)) {
+          change.conflictResolution = 'merged';
+        }
+      }
     }
+
+    this.emit(sessionId, { type: 'changes', changes: incoming, diagram: this.getDiagram(sessionId) });
   }
 
-  private applyChange(sessionId: string, change: SLDChange): void {
+  /**
+   * Merge a remote change; returns true when it won at least one register
+   */
+  private applyChange(sessionId: string, change: SLDChange): boolean {
     const session = this.sessions.get(sessionId);
-    if (!session) return;
+    if (!session) return false;
 
-    // Apply the change to the diagram
-    // This would typically involve updating the actual diagram object
-    // For now, we'll just log the change
-    console.log('Applying change:', change);
-
-    // Update session
     session.changes.push(change);
+    // Lamport clock: later local changes order after everything seen
     session.version = Math.max(session.version, change.version);
     session.lastSync = new Date();
+    return this.writeRegisters(sessionId, change);
+  }
+
+  private writeRegisters(sessionId: string, change: SLDChange): boolean {
+    const replica = this.replicas.get(sessionId);
+    if (!replica) return false;
+
+    let won = false;
+    for (const register of this.getRegisterWrites(change)) {
+      const key = this.getRegisterKey(register);
+      const current = replica.registers.get(key);
+      if (!current || this.isNewer(register.stamp, current.stamp)) {
+        replica.registers.set(key, register);
+        won = true;
+      }
+    }
+    return won;
+  }
+
+  private getRegisterWrites(change: SLDChange): Register[] {
+    const stamp: RegisterStamp = { version: change.version, userId: change.userId, changeId: change.id };
+    const data = change.data ?? {};
+    const componentId = change.componentId ?? data.id;
+    const connectionId = change.connectionId ?? data.id;
+    const write = (target: Register['target'], id: string, field: string | null, value: any): Register => ({ target, id, field, value, stamp });
+
+    switch (change.type) {
+      case 'component_add':
+        return componentId ? [write('component', componentId, null, data)] : [];
+      case 'component_remove':
+        return componentId ? [write('component', componentId, null, null)] : [];
+      case 'component_move':
+        return componentId ? [write('component', componentId, 'position', data.position ?? data)] : [];
+      case 'component_resize':
+        return componentId ? [write('component', componentId, 'size', data.size ?? data)] : [];
+      case 'component_update':
+        if (!componentId) return [];
+        return Object.entries(data).filter(([field]) => field !== 'id').flatMap(([field, value]) =>
+          MERGEABLE_COMPONENT_FIELDS.includes(field) && value && typeof value === 'object'
+            ? Object.entries(value).map(([key, nested]) => write('component', componentId, `${field}.${key}`, nested))
+            : [write('component', componentId, field, value)]
+        );
+      case 'connection_add':
+        return connectionId ? [write('connection', connectionId, null, data)] : [];
+      case 'connection_remove':
+        return connectionId ? [write('connection', connectionId, null, null)] : [];
+      case 'diagram_update':
+        return Object.entries(data).map(([field, value]) => write('diagram', '', field, value));
+      default:
+        return [];
+    }
+  }
+
+  private getRegisterKey(register: Register): string {
+    return JSON.stringify([register.target, register.id, register.field]);
+  }
+
+  private isNewer(stamp: RegisterStamp, other: RegisterStamp): boolean {
+    if (stamp.version !== other.version) return stamp.version > other.version;
+    if (stamp.userId !== other.userId) return stamp.userId > other.userId;
+    return stamp.changeId > other.changeId;
+  }
+
+  private createReplica(diagram?: SLDDiagram): SessionReplica {
+    return {
+      base: diagram ? structuredClone(diagram) : null,
+      registers: new Map(),
+      presence: new Map(),
+      transport: null,
+      listeners: new Set()
+    };
+  }
+
+  private reviveCursor(cursor: PresenceCursor): PresenceCursor {
+    return { ...cursor, updatedAt: new Date(cursor.updatedAt) };
+  }
+
+  private emit(sessionId: string, event: CollaborationEvent): void {
+    this.replicas.get(sessionId)?.listeners.forEach(listener => listener(event));
   }
 
   // Utility Methods
@@ -272,6 +706,10 @@ export class SLDCollaborationService {
     return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  private generateSessionToken(): string {
+    return Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
   private generateChangeId(): string {
     return `change_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -291,11 +729,13 @@ export class SLDCollaborationService {
   // Cleanup
   cleanup(): void {
     this.stopSync();
+    this.replicas.forEach(replica => replica.transport?.close());
     this.sessions.clear();
+    this.replicas.clear();
     this.changeQueue = [];
     this.currentUser = null;
   }
 }
 
 // Export singleton instance
-export const collaborationService = SLDCollaborationService.getInstance(); 
\ No newline at end of file
+export const collaborationService = SLDCollaborationService.getInstance();
\ No newline at end of file
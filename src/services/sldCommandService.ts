@@ -1,4 +1,14 @@
-import type { SLDDiagram, SLDComponent, SLDConnection, SLDPosition, SLDSize } from '../types/sld';
+import type {
+  SLDDiagram,
+  SLDComponent,
+  SLDConnection,
+  SLDPosition,
+  SLDSize,
+  SLDDiagramChange,
+  SLDDiagramCollection,
+  SLDCommandRecord,
+  SLDCommandHistoryRecord
+} from '../types/sld';
 
 export interface SLDCommand {
   execute(): void;
@@ -6,6 +16,10 @@ export interface SLDCommand {
   redo(): void;
   description: string;
   timestamp: Date;
+  // Folds a follow-up command into this one, e.g. the steps of a drag
+  mergeWith?(next: SLDCommand): boolean;
+  // Commands without a record cannot be saved with the project
+  toRecord?(): SLDCommandRecord | null;
 }
 
 export interface CommandHistory {
@@ -22,18 +36,111 @@ export class CommandManager {
   };
 
   private diagram: SLDDiagram;
+  private transaction: CompositeCommand | null = null;
+  private transactionDepth = 0;
+  private mergeSealed = false;
 
   constructor(diagram: SLDDiagram) {
     this.diagram = diagram;
   }
 
+  /**
+   * Rebuild a manager from the history saved with a diagram
+   */
+  static fromRecord(diagram: SLDDiagram, record: SLDCommandHistoryRecord): CommandManager {
+    const manager = new CommandManager(diagram);
+    manager.history.commands = record.commands.map(command => commandFromRecord(diagram, command));
+    manager.history.currentIndex = Math.min(record.currentIndex, manager.history.commands.length - 1);
+    manager.mergeSealed = true;
+    return manager;
+  }
+
+  getDiagram(): SLDDiagram {
+    return this.diagram;
+  }
+
   executeCommand(command: SLDCommand): void {
+    command.execute();
+
+    if (this.transaction) {
+      const commands = this.transaction.commands;
+      const previous = commands[commands.length - 1];
+      if (this.mergeSealed || !previous?.mergeWith?.(command)) {
+        commands.push(command);
+      }
+      this.mergeSealed = false;
+      return;
+    }
+
+    this.record(command);
+  }
+
+  /**
+   * Stop the next command from merging into the last one, e.g. at the end of a drag
+   */
+  sealMerge(): void {
+    this.mergeSealed = true;
+  }
+
+  /**
+   * Group the following commands into one undo step until commitTransaction.
+   * Transactions nest; only the outermost commit records the group.
+   */
+  beginTransaction(description: string): void {
+    if (this.transactionDepth++ === 0) {
+      this.transaction = new CompositeCommand(description);
+    }
+  }
+
+  commitTransaction(): void {
+    if (this.transactionDepth === 0 || --this.transactionDepth > 0) return;
+
+    const transaction = this.transaction!;
+    this.transaction = null;
+    if (transaction.commands.length > 0) {
+      this.mergeSealed = true;
+      this.record(transaction);
+    }
+  }
+
+  cancelTransaction(): void {
+    if (!this.transaction) return;
+
+    this.transaction.undo();
+    this.transaction = null;
+    this.transactionDepth = 0;
+  }
+
+  isInTransaction(): boolean {
+    return this.transaction !== null;
+  }
+
+  /**
+   * Plain data form of the history. Commands that cannot be recorded split
+   * the history; only the run containing the current position is kept.
+   */
+  toRecord(): SLDCommandHistoryRecord {
+    const records = this.history.commands.map(command => command.toRecord?.() ?? null);
+    let start = this.history.currentIndex + 1;
+    while (start > 0 && records[start - 1]) start--;
+    let end = this.history.currentIndex + 1;
+    while (end < records.length && records[end]) end++;
+
+    return {
+      commands: records.slice(start, end) as SLDCommandRecord[],
+      currentIndex: this.history.currentIndex - start
+    };
+  }
+
+  private record(command: SLDCommand): void {
     // Remove any commands after current index (when undoing and then executing new command)
     this.history.commands = this.history.commands.slice(0, this.history.currentIndex + 1);
-    
-    // Execute the command
-    command.execute();
-    
+
+    const previous = this.history.commands[this.history.currentIndex];
+    const merged = !this.mergeSealed && previous?.mergeWith?.(command);
+    this.mergeSealed = false;
+    if (merged) return;
+
     // Add to history
     this.history.commands.push(command);
     this.history.currentIndex++;
@@ -46,6 +153,8 @@ export class CommandManager {
   }
 
   undo(): boolean {
+    this.closeTransaction();
+    this.mergeSealed = true;
     if (this.history.currentIndex >= 0) {
       const command = this.history.commands[this.history.currentIndex];
       command.undo();
@@ -56,6 +165,8 @@ export class CommandManager {
   }
 
   redo(): boolean {
+    this.closeTransaction();
+    this.mergeSealed = true;
     if (this.history.currentIndex < this.history.commands.length - 1) {
       this.history.currentIndex++;
       const command = this.history.commands[this.history.currentIndex];
@@ -81,6 +192,195 @@ export class CommandManager {
     this.history.commands = [];
     this.history.currentIndex = -1;
   }
+
+  private closeTransaction(): void {
+    if (this.transactionDepth > 0) {
+      this.transactionDepth = 1;
+      this.commitTransaction();
+    }
+  }
+}
+
+// Successive mergeable commands further apart than this stay separate undo steps
+export const MERGE_WINDOW_MS = 1000;
+
+const DIAGRAM_COLLECTIONS: SLDDiagramCollection[] = ['components', 'connections', 'labels', 'annotations', 'layers', 'measurements'];
+
+// Bookkeeping fields that are not part of an edit
+const UNTRACKED_FIELDS = new Set<string>(['lastModified', 'commandHistory', ...DIAGRAM_COLLECTIONS]);
+
+/**
+ * Changes that turn one diagram into another. Items are matched by id and
+ * compared by reference, so both diagrams must come from immutable updates.
+ */
+export function diffDiagrams(before: SLDDiagram, after: SLDDiagram): SLDDiagramChange[] {
+  const changes: SLDDiagramChange[] = [];
+
+  DIAGRAM_COLLECTIONS.forEach(collection => {
+    const previous = (before[collection] ?? []) as Array<{ id: string }>;
+    const next = (after[collection] ?? []) as Array<{ id: string }>;
+    if (previous === next) return;
+
+    const nextIds = new Set(next.map(item => item.id));
+    previous.forEach((item, index) => {
+      if (!nextIds.has(item.id)) {
+        changes.push({ kind: 'item', collection, id: item.id, index, before: item, after: null });
+      }
+    });
+
+    const previousById = new Map(previous.map(item => [item.id, item]));
+    next.forEach((item, index) => {
+      const old = previousById.get(item.id) ?? null;
+      if (old !== item) {
+        changes.push({ kind: 'item', collection, id: item.id, index, before: old, after: item });
+      }
+    });
+  });
+
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  fields.forEach(field => {
+    if (UNTRACKED_FIELDS.has(field)) return;
+    const previous = (before as any)[field];
+    const next = (after as any)[field];
+    if (previous !== next) {
+      changes.push({ kind: 'field', field, before: previous, after: next });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Apply one side of a change list to a diagram in place. Collections are
+ * replaced rather than mutated so earlier copies of the diagram stay intact.
+ */
+export function applyDiagramChanges(diagram: SLDDiagram, changes: SLDDiagramChange[], side: 'before' | 'after'): void {
+  const target = diagram as any;
+
+  changes.forEach(change => {
+    const value = change[side];
+    if (change.kind === 'field') {
+      if (value === undefined) {
+        delete target[change.field];
+      } else {
+        target[change.field] = value;
+      }
+      return;
+    }
+
+    const items = [...(target[change.collection] ?? [])] as Array<{ id: string }>;
+    const index = items.findIndex(item => item.id === change.id);
+    if (value === null) {
+      if (index !== -1) items.splice(index, 1);
+    } else if (index !== -1) {
+      items[index] = value as { id: string };
+    } else {
+      items.splice(Math.min(change.index, items.length), 0, value as { id: string });
+    }
+    target[change.collection] = items;
+  });
+
+  diagram.lastModified = new Date();
+}
+
+const isSameTarget = (a: SLDDiagramChange, b: SLDDiagramChange): boolean =>
+  a.kind === 'item' && b.kind === 'item'
+    ? a.collection === b.collection && a.id === b.id
+    : a.kind === 'field' && b.kind === 'field' && a.field === b.field;
+
+function commandFromRecord(diagram: SLDDiagram, record: SLDCommandRecord): SLDCommand {
+  if (record.commands) {
+    const group = new CompositeCommand(record.description, new Date(record.timestamp));
+    group.commands = record.commands.map(command => commandFromRecord(diagram, command));
+    return group;
+  }
+  return new DiagramChangeCommand(diagram, record.changes ?? [], record.description, record.mergeKey, new Date(record.timestamp));
+}
+
+/**
+ * Generic edit stored as before/after values, used for every SLDContext action.
+ * Commands sharing a merge key within MERGE_WINDOW_MS collapse into one step.
+ */
+export class DiagramChangeCommand implements SLDCommand {
+  constructor(
+    private diagram: SLDDiagram,
+    private changes: SLDDiagramChange[],
+    public description: string,
+    public mergeKey?: string,
+    public timestamp: Date = new Date()
+  ) {}
+
+  execute(): void {
+    applyDiagramChanges(this.diagram, this.changes, 'after');
+  }
+
+  undo(): void {
+    applyDiagramChanges(this.diagram, [...this.changes].reverse(), 'before');
+  }
+
+  redo(): void {
+    this.execute();
+  }
+
+  mergeWith(next: SLDCommand): boolean {
+    if (!(next instanceof DiagramChangeCommand) || !this.mergeKey || next.mergeKey !== this.mergeKey) return false;
+    if (next.timestamp.getTime() - this.timestamp.getTime() > MERGE_WINDOW_MS) return false;
+
+    // Keep the original before values and take the latest after values
+    next.changes.forEach(change => {
+      const index = this.changes.findIndex(existing => isSameTarget(existing, change));
+      if (index === -1) {
+        this.changes.push(change);
+      } else {
+        this.changes[index] = { ...this.changes[index], after: change.after } as SLDDiagramChange;
+      }
+    });
+    this.timestamp = next.timestamp;
+    return true;
+  }
+
+  toRecord(): SLDCommandRecord {
+    return {
+      description: this.description,
+      timestamp: this.timestamp.toISOString(),
+      ...(this.mergeKey ? { mergeKey: this.mergeKey } : {}),
+      changes: [...this.changes]
+    };
+  }
+}
+
+/**
+ * Commands executed inside a transaction, undone and redone as one step
+ */
+export class CompositeCommand implements SLDCommand {
+  public commands: SLDCommand[] = [];
+
+  constructor(
+    public description: string,
+    public timestamp: Date = new Date()
+  ) {}
+
+  execute(): void {
+    this.commands.forEach(command => command.execute());
+  }
+
+  undo(): void {
+    [...this.commands].reverse().forEach(command => command.undo());
+  }
+
+  redo(): void {
+    this.commands.forEach(command => command.redo());
+  }
+
+  toRecord(): SLDCommandRecord | null {
+    const records = this.commands.map(command => command.toRecord?.() ?? null);
+    if (records.some(record => !record)) return null;
+    return {
+      description: this.description,
+      timestamp: this.timestamp.toISOString(),
+      commands: records as SLDCommandRecord[]
+    };
+  }
 }
 
 // Command implementations
@@ -0,0 +1,743 @@
+/**
+ * SLD Network Service
+ *
+ * Converts a single-line diagram into an ElectricalNetwork for load flow,
+ * short circuit and harmonic studies:
+ * - Utility service, meters and panels become buses
+ * - Feeder wires become cable branches sized from their conductors
+ * - Breakers and disconnects on a feeder become its protective devices
+ * - Loads, inverters and batteries become network loads and generators
+ */
+
+import type {
+  SLDComponent,
+  SLDConnection,
+  SLDDiagram
+} from '../types/sld';
+import type {
+  ElectricalNetwork,
+  NetworkBranch,
+  NetworkBus,
+  NetworkGenerator,
+  NetworkLoad,
+  NetworkProtectionDevice
+} from './loadFlowAnalysisService';
+import { NEC_CONSTANTS, WIRE_RESISTANCE, WIRE_REACTANCE } from '../constants/necConstants';
+import { calculateWireSize } from './wireCalculations';
+import { SLDWireService } from './sldWireService';
+import { ProtectionCoordinationService } from './protectionCoordinationService';
+
+export interface SLDNetworkOptions {
+  baseMVA?: number;
+  frequency?: number; // Hz
+  drawingScale?: number; // feet per canvas unit, used when a wire has no length
+  defaultConductorLength?: number; // feet
+  utilityFaultCurrent?: number; // available fault current at the service, amperes; DEFAULT_UTILITY_FAULT_CURRENT when missing
+  utilityXRRatio?: number;
+  generationFactor?: number; // fraction of inverter AC rating being produced
+  panelDemandKVA?: Record<string, number>; // calculated demand served from a panel, keyed by component id
+  loadPowerFactor?: number;
+}
+
+export interface SLDNetworkConductor {
+  connectionId: string;
+  conductorSize: string;
+  material: 'copper' | 'aluminum';
+  length: number; // feet
+  ampacity: number;
+  autoSized: boolean;
+}
+
+export interface SLDNetworkResult {
+  network: ElectricalNetwork;
+  componentBusMap: Record<string, string>;
+  conductors: SLDNetworkConductor[];
+  warnings: string[];
+}
+
+type NodeRole = 'bus' | 'passthrough' | 'load' | 'generator' | 'ignored';
+
+interface ConductorImpedance {
+  resistance: number; // ohms
+  reactance: number; // ohms
+  ampacity: number;
+  length: number; // feet
+}
+
+interface ComponentPath {
+  busId: string;
+  targetId: string;
+  connectionIds: string[];
+  via: string[];
+}
+
+const BUS_COMPONENT_TYPES: SLDComponent['type'][] = [
+  'utility_service', 'grid', 'utility_meter', 'meter_socket', 'production_meter',
+  'consumption_meter', 'main_panel', 'sub_panel', 'combiner_box'
+];
+const SOURCE_COMPONENT_TYPES: SLDComponent['type'][] = ['utility_service', 'grid', 'utility_meter', 'meter_socket'];
+const PASSTHROUGH_COMPONENT_TYPES: SLDComponent['type'][] = [
+  'breaker', 'disconnect', 'ac_disconnect', 'main_disconnect', 'service_disconnect'
+];
+const LOAD_COMPONENT_TYPES: SLDComponent['type'][] = ['load_generic', 'evse_charger', 'ev_charger'];
+const GENERATOR_COMPONENT_TYPES: SLDComponent['type'][] = ['inverter', 'battery'];
+
+const DEFAULT_BASE_MVA = 1;
+const DEFAULT_FREQUENCY = 60;
+const DEFAULT_VOLTAGE = 240;
+const DEFAULT_CONDUCTOR_LENGTH = 50; // feet, matches SLDWireService's default run
+const MIN_CONDUCTOR_LENGTH = 1; // feet, keeps back-to-back equipment from shorting buses together
+// Assumed when the utility has not supplied its available fault current; without a source
+// impedance the service would be an infinite bus and every interrupting rating would fail
+const DEFAULT_UTILITY_FAULT_CURRENT = 10000; // A
+const DEFAULT_UTILITY_XR_RATIO = 6;
+const DEFAULT_LOAD_POWER_FACTOR = 0.9;
+const MOTOR_LOAD_POWER_FACTOR = 0.85;
+const EV_CHARGER_POWER_FACTOR = 0.98;
+
+export class SLDNetworkService {
+
+  /**
+   * Build an electrical network from the diagram. Loads and generators are lumped
+   * onto the bus that feeds them; conductors between buses become cable branches.
+   * The component map resolves any AC component to its bus, for example as the
+   * `resolveBusId` argument of LoadFlowAnalysisService.getEquipmentRatingsFromSLD.
+   */
+  static buildNetwork(diagram: SLDDiagram, options: SLDNetworkOptions = {}): SLDNetworkResult {
+    const warnings: string[] = [];
+    const baseMVA = options.baseMVA ?? DEFAULT_BASE_MVA;
+    const components = new Map(diagram.components.map(component => [component.id, component]));
+    const roles = new Map(diagram.components.map(component => [component.id, this.getNodeRole(component)]));
+    const connections = diagram.connections.filter(connection => this.isPowerConnection(connection, components));
+    const phases = this.getSystemPhases(diagram);
+
+    const source = this.findSourceComponent(diagram);
+    if (!source) {
+      throw new Error('Diagram has no utility service, meter or main panel to act as the source bus');
+    }
+    if (!SOURCE_COMPONENT_TYPES.includes(source.type)) {
+      warnings.push(`No utility service on the diagram; ${this.getComponentName(source)} is treated as the source`);
+    }
+
+    // Conductor impedance of every wire, sized by the wire-sizing services when not specified
+    const conductors: SLDNetworkConductor[] = [];
+    const impedances = new Map<string, ConductorImpedance>();
+    connections.forEach(connection => {
+      const conductor = this.getConductor(connection, components, diagram, options, warnings);
+      conductors.push(conductor);
+      impedances.set(connection.id, this.getConductorImpedance(conductor, phases));
+    });
+
+    const { segments, attachments } = this.tracePaths(diagram, connections, roles);
+
+    // Orient feeders away from the source; anything not reachable from it is dropped
+    const busOrder: string[] = [source.id];
+    const parentSegment = new Map<string, ComponentPath>();
+    for (let i = 0; i < busOrder.length; i++) {
+      segments
+        .filter(segment => segment.busId === busOrder[i] && !busOrder.includes(segment.targetId))
+        .forEach(segment => {
+          busOrder.push(segment.targetId);
+          parentSegment.set(segment.targetId, segment);
+        });
+    }
+
+    diagram.components
+      .filter(component => roles.get(component.id) === 'bus' && !busOrder.includes(component.id))
+      .forEach(component => warnings.push(
+        `${this.getComponentName(component)} is not connected to the source and was left out of the network`
+      ));
+
+    const componentBusMap: Record<string, string> = {};
+    busOrder.forEach(busId => { componentBusMap[busId] = busId; });
+
+    // Meters and combiners carry no voltage of their own and take their feeder's
+    const voltages = new Map<string, number>();
+    busOrder.forEach(busId => {
+      const parent = parentSegment.get(busId);
+      voltages.set(busId, this.getComponentVoltage(components.get(busId)!)
+        ?? (parent ? voltages.get(parent.busId) : undefined)
+        ?? diagram.metadata?.voltageLevel
+        ?? DEFAULT_VOLTAGE);
+    });
+
+    const buses: NetworkBus[] = busOrder.map(busId => {
+      const component = components.get(busId)!;
+      return {
+        id: busId,
+        name: this.getComponentName(component),
+        type: busId === source.id ? 'slack' : 'pq',
+        nominalVoltage: voltages.get(busId)! / 1000,
+        voltage: { real: 1, imaginary: 0 },
+        angle: 0,
+        coordinates: { x: component.position.x, y: component.position.y },
+        connectedElements: []
+      };
+    });
+    const busById = new Map(buses.map(bus => [bus.id, bus]));
+
+    // Feeder branches, in the order their downstream bus was reached
+    const branches: NetworkBranch[] = [];
+    const protectionDevices: NetworkProtectionDevice[] = [];
+    busOrder.slice(1).forEach(busId => {
+      const segment = parentSegment.get(busId)!;
+      const fromBus = busById.get(segment.busId)!;
+      const branch = this.createBranch(segment, fromBus, impedances, phases, baseMVA);
+      branches.push(branch);
+      fromBus.connectedElements.push(branch.id);
+      busById.get(busId)!.connectedElements.push(branch.id);
+
+      segment.via.forEach(componentId => {
+        componentBusMap[componentId] ??= segment.busId;
+        const device = ProtectionCoordinationService.getDeviceFromComponent(components.get(componentId)!);
+        if (device) {
+          protectionDevices.push({ id: device.id, name: device.name, branchId: branch.id, settings: device.settings });
+        }
+      });
+    });
+
+    // Loads and generators on the bus that feeds them
+    const loads: NetworkLoad[] = [];
+    const generators: NetworkGenerator[] = [];
+    attachments
+      .filter(attachment => busById.has(attachment.busId) && !componentBusMap[attachment.targetId])
+      .forEach(attachment => {
+        const bus = busById.get(attachment.busId)!;
+        const component = components.get(attachment.targetId)!;
+        componentBusMap[component.id] = bus.id;
+        attachment.via.forEach(componentId => { componentBusMap[componentId] ??= bus.id; });
+
+        if (roles.get(component.id) === 'load') {
+          const load = this.createLoad(component, bus, options, warnings);
+          if (load) {
+            loads.push(load);
+            bus.connectedElements.push(load.id);
+            bus.loadConnected = load.id;
+          }
+        } else {
+          const generator = this.createGenerator(component, bus, options, warnings);
+          if (generator) {
+            generators.push(generator);
+            bus.connectedElements.push(generator.id);
+            bus.generationConnected = [...(bus.generationConnected ?? []), generator.id];
+          }
+        }
+      });
+
+    Object.entries(options.panelDemandKVA ?? {}).forEach(([componentId, kva]) => {
+      const bus = busById.get(componentId);
+      if (!bus || kva <= 0) return;
+      const powerFactor = options.loadPowerFactor ?? DEFAULT_LOAD_POWER_FACTOR;
+      const load = this.buildLoad(`${componentId}-demand`, `${bus.name} demand load`, bus, kva, powerFactor);
+      loads.push(load);
+      bus.connectedElements.push(load.id);
+      bus.loadConnected ??= load.id;
+    });
+
+    // Utility source impedance behind the service point
+    const utilityFaultCurrent = options.utilityFaultCurrent && options.utilityFaultCurrent > 0
+      ? options.utilityFaultCurrent
+      : undefined;
+    if (utilityFaultCurrent === undefined) {
+      warnings.push(
+        `Utility available fault current was not provided; ${DEFAULT_UTILITY_FAULT_CURRENT.toLocaleString('en-US')} A was assumed at the service. ` +
+        'Enter the utility\'s figure before relying on interrupting rating checks'
+      );
+    }
+    this.addUtilitySource(
+      buses,
+      branches,
+      utilityFaultCurrent ?? DEFAULT_UTILITY_FAULT_CURRENT,
+      options.utilityXRRatio ?? DEFAULT_UTILITY_XR_RATIO,
+      baseMVA
+    );
+
+    const sourceBus = buses.find(bus => bus.type === 'slack')!;
+    const baseVoltage = sourceBus.nominalVoltage;
+
+    const network: ElectricalNetwork = {
+      id: `${diagram.id}-network`,
+      name: `${diagram.name} network`,
+      description: `Electrical network built from single-line diagram ${diagram.name}`,
+      buses,
+      branches,
+      loads,
+      generators,
+      transformers: [],
+      protectionDevices,
+      topology: {
+        islands: [{
+          id: `${diagram.id}-island-1`,
+          buses: buses.map(bus => bus.id),
+          generators: generators.map(generator => generator.id),
+          loads: loads.map(load => load.id),
+          isolated: false
+        }],
+        contingencies: [],
+        criticalPaths: [],
+        redundancy: {
+          overallRedundancy: 0,
+          criticalElements: [],
+          singlePointsOfFailure: [],
+          recommendations: []
+        }
+      },
+      baseValues: {
+        baseMVA,
+        baseVoltage,
+        baseFrequency: options.frequency ?? DEFAULT_FREQUENCY,
+        baseImpedance: (baseVoltage * baseVoltage) / baseMVA
+      },
+      analysisSettings: {
+        convergenceTolerance: 1e-6,
+        maxIterations: 20,
+        accelerationFactor: 1,
+        flatStart: true,
+        includeHarmonics: false,
+        harmonicOrders: [3, 5, 7, 9, 11, 13],
+        shortCircuitTypes: ['three_phase', 'line_to_ground', 'line_to_line', 'line_to_line_to_ground']
+      }
+    };
+
+    return { network, componentBusMap, conductors, warnings };
+  }
+
+  private static getNodeRole(component: SLDComponent): NodeRole {
+    if (BUS_COMPONENT_TYPES.includes(component.type)) return 'bus';
+    if (PASSTHROUGH_COMPONENT_TYPES.includes(component.type)) return 'passthrough';
+    if (LOAD_COMPONENT_TYPES.includes(component.type)) return 'load';
+    if (component.type === 'battery') {
+      // DC-coupled batteries discharge through the hybrid inverter
+      return component.coupling === 'dc' ? 'ignored' : 'generator';
+    }
+    if (GENERATOR_COMPONENT_TYPES.includes(component.type)) return 'generator';
+    return 'ignored';
+  }
+
+  /**
+   * AC power wires only; DC, grounding and control wiring is not part of the network
+   */
+  private static isPowerConnection(connection: SLDConnection, components: Map<string, SLDComponent>): boolean {
+    if (connection.type === 'dc' || connection.type === 'ground' || connection.type === 'control') return false;
+    if (connection.wireType === 'dc' || connection.wireType === 'ground') return false;
+    const fromId = this.getFromId(connection);
+    const toId = this.getToId(connection);
+    return components.has(fromId) && components.has(toId) && fromId !== toId;
+  }
+
+  private static getFromId(connection: SLDConnection): string {
+    return connection.from || connection.fromComponentId || '';
+  }
+
+  private static getToId(connection: SLDConnection): string {
+    return connection.to || connection.toComponentId || '';
+  }
+
+  private static findSourceComponent(diagram: SLDDiagram): SLDComponent | undefined {
+    for (const type of [...SOURCE_COMPONENT_TYPES, 'main_panel']) {
+      const component = diagram.components.find(candidate => candidate.type === type);
+      if (component) return component;
+    }
+    return undefined;
+  }
+
+  private static getSystemPhases(diagram: SLDDiagram): 1 | 3 {
+    const mainPanel = diagram.components.find(component => component.type === 'main_panel');
+    return mainPanel?.type === 'main_panel' && mainPanel.phase === 3 ? 3 : 1;
+  }
+
+  /**
+   * Walk outward from every bus through breakers and disconnects, recording the
+   * wires to each neighbouring bus (segments) and to each load or generator (attachments)
+   */
+  private static tracePaths(
+    diagram: SLDDiagram,
+    connections: SLDConnection[],
+    roles: Map<string, NodeRole>
+  ): { segments: ComponentPath[]; attachments: ComponentPath[] } {
+    const adjacency = new Map<string, { connection: SLDConnection; otherId: string }[]>();
+    connections.forEach(connection => {
+      const fromId = this.getFromId(connection);
+      const toId = this.getToId(connection);
+      adjacency.set(fromId, [...(adjacency.get(fromId) ?? []), { connection, otherId: toId }]);
+      adjacency.set(toId, [...(adjacency.get(toId) ?? []), { connection, otherId: fromId }]);
+    });
+
+    const segments: ComponentPath[] = [];
+    const attachments: ComponentPath[] = [];
+
+    diagram.components
+      .filter(component => roles.get(component.id) === 'bus')
+      .forEach(bus => {
+        const walk = (nodeId: string, connectionIds: string[], via: string[]) => {
+          (adjacency.get(nodeId) ?? []).forEach(({ connection, otherId }) => {
+            if (connectionIds.includes(connection.id) || otherId === bus.id || via.includes(otherId)) return;
+            const path = { busId: bus.id, targetId: otherId, connectionIds: [...connectionIds, connection.id], via };
+
+            switch (roles.get(otherId)) {
+              case 'bus':
+                segments.push(path);
+                break;
+              case 'passthrough':
+                walk(otherId, path.connectionIds, [...via, otherId]);
+                break;
+              case 'load':
+              case 'generator':
+                attachments.push(path);
+                break;
+            }
+          });
+        };
+        walk(bus.id, [], []);
+      });
+
+    return { segments, attachments };
+  }
+
+  /**
+   * Conductor size and length for a wire. Sizes on the drawing are used as-is;
+   * otherwise the conductor is sized for the wire current or the rating of the
+   * equipment it connects.
+   */
+  private static getConductor(
+    connection: SLDConnection,
+    components: Map<string, SLDComponent>,
+    diagram: SLDDiagram,
+    options: SLDNetworkOptions,
+    warnings: string[]
+  ): SLDNetworkConductor {
+    const material = connection.specifications?.material ?? 'copper';
+    const fromComponent = components.get(this.getFromId(connection))!;
+    const toComponent = components.get(this.getToId(connection))!;
+
+    let length = connection.length;
+    if (length === undefined && options.drawingScale) {
+      length = SLDWireService.calculateWireLength(fromComponent, toComponent, 'conduit') * options.drawingScale;
+    }
+    if (length === undefined) {
+      length = options.defaultConductorLength ?? DEFAULT_CONDUCTOR_LENGTH;
+    }
+    length = Math.max(length, MIN_CONDUCTOR_LENGTH);
+
+    let conductorSize = this.normalizeConductorSize(
+      connection.conductorSize ?? connection.specifications?.wireSize ?? connection.wireGauge
+    );
+    let autoSized = false;
+
+    if (!conductorSize || !this.getResistance(conductorSize, material)) {
+      autoSized = true;
+      if (connection.current && connection.current > 0) {
+        conductorSize = SLDWireService.calculateWireSizing(
+          connection,
+          length,
+          connection.specifications?.insulation ?? '75C'
+        ).conductorSize;
+      } else {
+        const ratedCurrent = this.getComponentCurrentRating(toComponent)
+          || this.getComponentCurrentRating(fromComponent)
+          || diagram.metadata?.serviceSize;
+        if (!ratedCurrent) {
+          warnings.push(`Wire ${connection.id} has no conductor size or current; sized for a 100 A circuit`);
+        }
+        // Ratings are overcurrent device sizes, which already include the 125% continuous factor
+        conductorSize = calculateWireSize(
+          (ratedCurrent || 100) / NEC_CONSTANTS.CONTINUOUS_LOAD_FACTOR,
+          connection.voltage ?? this.getComponentVoltage(toComponent) ?? DEFAULT_VOLTAGE,
+          length,
+          connection.specifications?.insulation ?? '75C',
+          3,
+          material
+        );
+      }
+    }
+
+    return {
+      connectionId: connection.id,
+      conductorSize,
+      material,
+      length,
+      ampacity: this.getAmpacity(conductorSize, material, connection.specifications?.insulation ?? '75C'),
+      autoSized
+    };
+  }
+
+  /**
+   * Series impedance of the circuit in ohms. Single-phase circuits carry the
+   * current out and back, so both conductors are counted; the network is then
+   * solved as its balanced three-phase equivalent, which preserves voltage drop.
+   */
+  private static getConductorImpedance(conductor: SLDNetworkConductor, phases: 1 | 3): ConductorImpedance {
+    const conductorsInPath = phases === 3 ? 1 : 2;
+    const scale = conductorsInPath * conductor.length / 1000;
+    const reactance = WIRE_REACTANCE[conductor.conductorSize as keyof typeof WIRE_REACTANCE] ?? 0;
+    return {
+      resistance: this.getResistance(conductor.conductorSize, conductor.material) * scale,
+      reactance: reactance * scale,
+      ampacity: conductor.ampacity,
+      length: conductor.length
+    };
+  }
+
+  private static createBranch(
+    segment: ComponentPath,
+    fromBus: NetworkBus,
+    impedances: Map<string, ConductorImpedance>,
+    phases: 1 | 3,
+    baseMVA: number
+  ): NetworkBranch {
+    const series = segment.connectionIds.map(id => impedances.get(id)!);
+    const resistance = series.reduce((sum, impedance) => sum + impedance.resistance, 0);
+    const reactance = series.reduce((sum, impedance) => sum + impedance.reactance, 0);
+    const ampacity = Math.min(...series.map(impedance => impedance.ampacity));
+    const length = series.reduce((sum, impedance) => sum + impedance.length, 0);
+    const baseImpedance = (fromBus.nominalVoltage * fromBus.nominalVoltage) / baseMVA;
+    const perUnit = { real: resistance / baseImpedance, imaginary: reactance / baseImpedance };
+    const magnitude = Math.hypot(perUnit.real, perUnit.imaginary);
+
+    return {
+      id: segment.connectionIds.join('+'),
+      name: `${fromBus.name} feeder`,
+      type: 'cable',
+      fromBus: fromBus.id,
+      toBus: segment.targetId,
+      resistance: perUnit.real,
+      reactance: perUnit.imaginary,
+      susceptance: 0,
+      ratingMVA: ampacity * fromBus.nominalVoltage * (phases === 3 ? Math.sqrt(3) : 1) / 1000,
+      length: length * 0.0003048,
+      impedance: perUnit,
+      admittance: magnitude > 0
+        ? { real: perUnit.real / (magnitude * magnitude), imaginary: -perUnit.imaginary / (magnitude * magnitude) }
+        : { real: 0, imaginary: 0 }
+    };
+  }
+
+  private static createLoad(
+    component: SLDComponent,
+    bus: NetworkBus,
+    options: SLDNetworkOptions,
+    warnings: string[]
+  ): NetworkLoad | null {
+    let kva = 0;
+    let powerFactor = options.loadPowerFactor ?? DEFAULT_LOAD_POWER_FACTOR;
+
+    switch (component.type) {
+      case 'evse_charger':
+      case 'ev_charger':
+        kva = component.powerKW || (component.current * component.voltage) / 1000;
+        powerFactor = EV_CHARGER_POWER_FACTOR;
+        break;
+      case 'load_generic': {
+        // Circuit rating is the overcurrent device, sized at 125% of a continuous load
+        const rating = this.getComponentCurrentRating(component);
+        const voltage = component.voltage || bus.nominalVoltage * 1000;
+        kva = rating * voltage / NEC_CONSTANTS.CONTINUOUS_LOAD_FACTOR / 1000;
+        if (component.loadType === 'motor' || component.loadType === 'hvac') {
+          powerFactor = MOTOR_LOAD_POWER_FACTOR;
+        }
+        break;
+      }
+    }
+
+    if (kva <= 0) {
+      warnings.push(`${this.getComponentName(component)} has no power or current rating and was not modelled`);
+      return null;
+    }
+
+    return this.buildLoad(component.id, this.getComponentName(component), bus, kva, powerFactor);
+  }
+
+  private static buildLoad(id: string, name: string, bus: NetworkBus, kva: number, powerFactor: number): NetworkLoad {
+    const mva = kva / 1000;
+    return {
+      id,
+      name,
+      busId: bus.id,
+      type: 'constant_power',
+      activePower: mva * powerFactor,
+      reactivePower: mva * Math.sqrt(1 - powerFactor * powerFactor),
+      voltage: bus.nominalVoltage,
+      powerFactor,
+      loadModel: {
+        constantPowerPercent: 100,
+        constantCurrentPercent: 0,
+        constantImpedancePercent: 0,
+        voltageExponent: 0,
+        frequencyExponent: 0
+      }
+    };
+  }
+
+  /**
+   * Inverters produce at unity power factor; batteries are modelled at standby so
+   * they contribute fault current without offsetting the load.
+   */
+  private static createGenerator(
+    component: SLDComponent,
+    bus: NetworkBus,
+    options: SLDNetworkOptions,
+    warnings: string[]
+  ): NetworkGenerator | null {
+    let ratedKW = 0;
+    let outputKW = 0;
+
+    if (component.type === 'inverter') {
+      ratedKW = component.acOutputKW;
+      outputKW = ratedKW * (options.generationFactor ?? 1);
+    } else if (component.type === 'battery') {
+      ratedKW = component.powerKW;
+    }
+
+    if (!ratedKW || ratedKW <= 0) {
+      warnings.push(`${this.getComponentName(component)} has no AC power rating and was not modelled`);
+      return null;
+    }
+
+    return {
+      id: component.id,
+      name: this.getComponentName(component),
+      busId: bus.id,
+      type: 'inverter',
+      ratedPower: ratedKW / 1000,
+      ratedVoltage: bus.nominalVoltage,
+      powerOutput: outputKW / 1000,
+      voltageSetpoint: 0,
+      reactance: { xd: 0, xq: 0, xdp: 0, xqp: 0, xdpp: 0, xqpp: 0, xl: 0 }
+    };
+  }
+
+  /**
+   * Put the utility's source impedance (from the available fault current) between
+   * an infinite bus and the service point. The impedance is modelled as the
+   * service transformer so its grounded secondary returns zero sequence current.
+   * Fault studies report current on a three-phase base, so the source is matched
+   * on that base for single-phase services too.
+   */
+  private static addUtilitySource(
+    buses: NetworkBus[],
+    branches: NetworkBranch[],
+    faultCurrent: number,
+    xrRatio: number,
+    baseMVA: number
+  ): void {
+    const service = buses.find(bus => bus.type === 'slack')!;
+    const shortCircuitMVA = faultCurrent * service.nominalVoltage * Math.sqrt(3) / 1000;
+    const magnitude = baseMVA / shortCircuitMVA;
+    const angle = Math.atan(xrRatio);
+    const impedance = { real: magnitude * Math.cos(angle), imaginary: magnitude * Math.sin(angle) };
+    const sourceId = `${service.id}-utility-source`;
+    const branchId = `${service.id}-utility-impedance`;
+
+    buses.unshift({
+      ...service,
+      id: sourceId,
+      name: 'Utility source',
+      connectedElements: [branchId],
+      loadConnected: undefined,
+      generationConnected: undefined
+    });
+    service.type = 'pq';
+    service.connectedElements.unshift(branchId);
+
+    branches.unshift({
+      id: branchId,
+      name: 'Utility source impedance',
+      type: 'transformer',
+      fromBus: sourceId,
+      toBus: service.id,
+      resistance: impedance.real,
+      reactance: impedance.imaginary,
+      susceptance: 0,
+      ratingMVA: shortCircuitMVA,
+      impedance,
+      admittance: {
+        real: impedance.real / (magnitude * magnitude),
+        imaginary: -impedance.imaginary / (magnitude * magnitude)
+      },
+      tapRatio: 1,
+      phaseShift: 0
+    });
+  }
+
+  // Component data helpers
+
+  private static getComponentName(component: SLDComponent): string {
+    return component.name || component.label || component.id;
+  }
+
+  private static getComponentVoltage(component: SLDComponent): number | undefined {
+    let voltage: number | undefined;
+    switch (component.type) {
+      case 'grid':
+        voltage = component.serviceVoltage;
+        break;
+      case 'utility_service':
+      case 'meter_socket':
+      case 'main_panel':
+      case 'sub_panel':
+      case 'load_generic':
+      case 'evse_charger':
+      case 'ev_charger':
+      case 'breaker':
+      case 'service_disconnect':
+      case 'disconnect':
+      case 'ac_disconnect':
+      case 'main_disconnect':
+        voltage = component.voltage;
+        break;
+      case 'inverter':
+        voltage = component.acOutputVoltage;
+        break;
+    }
+    return voltage || undefined;
+  }
+
+  private static getComponentCurrentRating(component: SLDComponent): number {
+    switch (component.type) {
+      case 'main_panel':
+      case 'sub_panel':
+        return component.rating;
+      case 'breaker':
+      case 'disconnect':
+      case 'ac_disconnect':
+      case 'main_disconnect':
+      case 'service_disconnect':
+      case 'utility_service':
+      case 'meter_socket':
+      case 'load_generic':
+        return this.parseRating(component.rating);
+      case 'combiner_box':
+        return component.maxCurrent;
+      case 'evse_charger':
+      case 'ev_charger':
+        return this.parseRating(component.circuitBreaker) || component.current * NEC_CONSTANTS.CONTINUOUS_LOAD_FACTOR;
+      default:
+        return 0;
+    }
+  }
+
+  private static parseRating(rating: string | number | undefined): number {
+    if (typeof rating === 'number') return rating;
+    const match = rating?.match(/[\d.]+/);
+    return match ? parseFloat(match[0]) : 0;
+  }
+
+  /**
+   * "#4 AWG", "4 AWG Cu", "4/0" and "250 kcmil" style sizes to the table keys
+   */
+  private static normalizeConductorSize(size: string | undefined): string | undefined {
+    const match = size?.match(/(\d+\/0|\d+)/);
+    return match ? match[1] : undefined;
+  }
+
+  private static getResistance(size: string, material: 'copper' | 'aluminum'): number {
+    const table: Record<string, number> = WIRE_RESISTANCE[material];
+    return table[size] ?? 0;
+  }
+
+  private static getAmpacity(size: string, material: 'copper' | 'aluminum', insulation: '60C' | '75C' | '90C'): number {
+    const ratings = NEC_CONSTANTS.WIRE_AMPACITY[size as keyof typeof NEC_CONSTANTS.WIRE_AMPACITY];
+    if (!ratings) return 0;
+    return material === 'aluminum' ? ratings.aluminum : ratings[`copper${insulation}`];
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Solar access service
+ * Turns tagged aerial and photo editor shapes into obstructions, builds roof segments
+ * from Google Solar data and requests horizon, solar access and TSRF reports
+ */
+
+import { SecureApiService } from './secureApiService';
+import { ErrorHandlingService } from './errorHandlingService';
+import { AerialMeasurementService } from './aerialMeasurementService';
+import { ErrorType } from '../types/error';
+import type {
+  ObstructionKind,
+  ObstructionTag,
+  SolarAccessObstruction,
+  SolarAccessPoint,
+  SolarAccessReport,
+  SolarAccessSegment
+} from '../types/solarAccess';
+
+const FEET_PER_METER = 3.28084;
+const METERS_PER_DEGREE_LATITUDE = 111320;
+
+interface TaggedShape {
+  id: string;
+  points: Array<{ x: number; y: number }>;
+  obstruction?: ObstructionTag;
+}
+
+interface TaggedEditorShape extends TaggedShape {
+  type: 'linear' | 'area' | 'angle';
+}
+
+interface RoofSegmentStats {
+  pitchDegrees?: number;
+  azimuthDegrees?: number;
+  center?: { latitude: number; longitude: number };
+  planeHeightAtCenterMeters?: number; // Meters above sea level, not above grade
+}
+
+export class SolarAccessService {
+  static readonly OBSTRUCTION_KINDS: ObstructionKind[] = ['tree', 'chimney', 'building'];
+
+  // Typical heights above grade, used until the installer enters a measured one
+  static readonly DEFAULT_HEIGHTS_FT: Record<ObstructionKind, number> = {
+    tree: 35,
+    chimney: 25,
+    building: 20
+  };
+
+  static readonly DEFAULT_ROOF_HEIGHT_FT = 15;
+  static readonly MAX_ROOF_HEIGHT_FT = 200;
+
+  /**
+   * Tagged aerial measurements in feet east/north of the image center, which is the geocoded site
+   */
+  static obstructionsFromAerial(
+    measurements: { area: TaggedShape[]; polyline: TaggedShape[] },
+    view: { zoom: number; latitude: number; center: { x: number; y: number } }
+  ): SolarAccessObstruction[] {
+    const feetPerPixel = AerialMeasurementService.calculateMetersPerPixel(view.zoom, view.latitude) * FEET_PER_METER;
+    return [
+      ...measurements.area.map(shape => this.toObstruction(shape, true, feetPerPixel, view.center)),
+      ...measurements.polyline.map(shape => this.toObstruction(shape, false, feetPerPixel, view.center))
+    ].filter((obstruction): obstruction is SolarAccessObstruction => obstruction !== null);
+  }
+
+  /**
+   * Tagged photo editor measurements on a calibrated satellite image; scale is pixels per foot
+   */
+  static obstructionsFromEditor(
+    measurements: TaggedEditorShape[],
+    pixelsPerFoot: number,
+    center: { x: number; y: number }
+  ): SolarAccessObstruction[] {
+    if (!(pixelsPerFoot > 0)) return [];
+    return measurements
+      .filter(measurement => measurement.type !== 'angle')
+      .map(measurement => this.toObstruction(measurement, measurement.type === 'area', 1 / pixelsPerFoot, center))
+      .filter((obstruction): obstruction is SolarAccessObstruction => obstruction !== null);
+  }
+
+  /**
+   * Roof segments from Google Solar roofSegmentStats, positioned relative to the site origin.
+   * Plane heights are above sea level. When the ground elevation at the site is unknown the
+   * lowest plane is taken to sit DEFAULT_ROOF_HEIGHT_FT above grade and the others keep their
+   * height above it, so a second story still sees over a neighbor the first story does not
+   */
+  static segmentsFromRoofStats(
+    roofSegmentStats: RoofSegmentStats[] | undefined,
+    origin: { latitude: number; longitude: number; groundElevationMeters?: number }
+  ): SolarAccessSegment[] {
+    const planeHeights = (roofSegmentStats || [])
+      .map(stats => stats.planeHeightAtCenterMeters)
+      .filter((height): height is number => height !== undefined);
+    const groundElevationMeters = origin.groundElevationMeters ?? (planeHeights.length > 0
+      ? Math.min(...planeHeights) - this.DEFAULT_ROOF_HEIGHT_FT / FEET_PER_METER
+      : undefined);
+
+    const segments = (roofSegmentStats || [])
+      .filter(stats => stats.pitchDegrees !== undefined && stats.azimuthDegrees !== undefined)
+      .map((stats, index) => ({
+        id: `segment-${index + 1}`,
+        pitchDegrees: stats.pitchDegrees as number,
+        azimuthDegrees: stats.azimuthDegrees as number,
+        position: stats.center ? this.offsetFeet(origin, stats.center) : { x: 0, y: 0 },
+        heightFt: this.heightAboveGrade(stats.planeHeightAtCenterMeters, groundElevationMeters)
+      }));
+
+    if (segments.length > 0) return segments;
+
+    // Without roof data assume one equator-facing 30° plane at the site
+    return [{
+      id: 'segment-1',
+      pitchDegrees: 30,
+      azimuthDegrees: origin.latitude >= 0 ? 180 : 0,
+      position: { x: 0, y: 0 },
+      heightFt: this.DEFAULT_ROOF_HEIGHT_FT
+    }];
+  }
+
+  private static heightAboveGrade(planeHeightMeters?: number, groundElevationMeters?: number): number {
+    if (planeHeightMeters === undefined || groundElevationMeters === undefined) return this.DEFAULT_ROOF_HEIGHT_FT;
+    const heightFt = (planeHeightMeters - groundElevationMeters) * FEET_PER_METER;
+    // A plane below grade or taller than any house means the two datums disagree
+    return heightFt > 0 && heightFt <= this.MAX_ROOF_HEIGHT_FT ? heightFt : this.DEFAULT_ROOF_HEIGHT_FT;
+  }
+
+  static async getReport(
+    latitude: number,
+    longitude: number,
+    segments: SolarAccessSegment[],
+    obstructions: SolarAccessObstruction[]
+  ): Promise<SolarAccessReport> {
+    if (segments.length === 0) {
+      throw ErrorHandlingService.createError(
+        ErrorType.VALIDATION,
+        'At least one roof segment is required',
+        'Run a solar analysis or add a roof segment before requesting a solar access report',
+        { latitude, longitude },
+        'SolarAccessService.getReport'
+      );
+    }
+
+    const invalid = obstructions.find(obstruction => !(obstruction.heightFt > 0));
+    if (invalid) {
+      throw ErrorHandlingService.createError(
+        ErrorType.VALIDATION,
+        'Obstruction height must be greater than zero',
+        'Enter a height for every tagged tree, chimney or building',
+        { obstructionId: invalid.id },
+        'SolarAccessService.getReport'
+      );
+    }
+
+    try {
+      return await SecureApiService.getSolarAccessReport({ lat: latitude, lon: longitude, segments, obstructions });
+    } catch (error) {
+      throw ErrorHandlingService.handleApiError(error, 'SolarAccessService.getReport');
+    }
+  }
+
+  /**
+   * Polar sun-path projection: zenith at the center, horizon on the rim, north up
+   */
+  static projectSkyPosition(azimuth: number, elevation: number, radius: number): SolarAccessPoint {
+    const distance = radius * (90 - Math.max(0, Math.min(90, elevation))) / 90;
+    const angle = azimuth * Math.PI / 180;
+    return { x: distance * Math.sin(angle), y: -distance * Math.cos(angle) };
+  }
+
+  private static toObstruction(
+    shape: TaggedShape,
+    closed: boolean,
+    feetPerPixel: number,
+    center: { x: number; y: number }
+  ): SolarAccessObstruction | null {
+    if (!shape.obstruction || shape.points.length === 0) return null;
+    return {
+      id: shape.id,
+      kind: shape.obstruction.kind,
+      heightFt: shape.obstruction.heightFt,
+      closed,
+      // Image y grows downward; north is up
+      points: shape.points.map(point => ({
+        x: (point.x - center.x) * feetPerPixel,
+        y: (center.y - point.y) * feetPerPixel
+      }))
+    };
+  }
+
+  private static offsetFeet(
+    origin: { latitude: number; longitude: number },
+    point: { latitude: number; longitude: number }
+  ): SolarAccessPoint {
+    const metersPerDegreeLongitude = METERS_PER_DEGREE_LATITUDE * Math.cos(origin.latitude * Math.PI / 180);
+    return {
+      x: (point.longitude - origin.longitude) * metersPerDegreeLongitude * FEET_PER_METER,
+      y: (point.latitude - origin.latitude) * METERS_PER_DEGREE_LATITUDE * FEET_PER_METER
+    };
+  }
+}
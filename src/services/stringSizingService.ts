@@ -0,0 +1,310 @@
+/**
+ * String Sizing Service
+ *
+ * Checks series strings against inverter MPPT windows over the site's temperature extremes:
+ * - Maximum modules per string from Voc at the record low, NEC 690.7(A)
+ * - Minimum modules per string from Vmp at the hot-day cell temperature
+ * - MPPT input current at 125% of Isc, NEC 690.8(A)(1), and the DC:AC ratio
+ * - DC source circuit conductors at 156% of Isc, NEC 690.8(B)
+ */
+
+import { NEC_CONSTANTS } from '../constants';
+import { componentDatabaseService } from './componentDatabaseService';
+import { EnhancedWireSizingService } from './enhancedWireSizingService';
+import { PVLayoutService } from './pvLayoutService';
+import type { SLDCircuitData } from './automaticScheduleGenerator';
+import type { SLDInverter, SLDPVArray } from '../types/sld';
+import type { PVLayout, PVLayoutString } from '../types/pvLayout';
+import type {
+  InverterMPPTWindow,
+  SiteTemperatures,
+  StringSizingIssue,
+  StringSizingModule,
+  StringSizingRequest,
+  StringSizingResult
+} from '../types/stringSizing';
+
+const STC_TEMP_C = 25;
+
+const round = (value: number, digits: number): number => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export interface LayoutStringSizing {
+  inverter: InverterMPPTWindow;
+  inverterCount: number;
+  result: StringSizingResult;
+  circuits: SLDCircuitData[];
+}
+
+export class StringSizingService {
+  static readonly MAX_SYSTEM_VOLTAGE = 600; // One- and two-family dwellings, NEC 690.7
+  static readonly ROOF_CELL_TEMP_RISE_C = 35; // Flush roof mount above ambient
+  static readonly MAX_DC_AC_RATIO = 1.3;
+  static readonly DEFAULT_TEMP_COEFF_VMP = -0.35; // %/°C, typical crystalline silicon
+  static readonly DEFAULT_SOURCE_CIRCUIT_LENGTH_FT = 50;
+  static readonly DEFAULT_SITE: SiteTemperatures = { recordLowC: -10, designHighC: 35 };
+
+  // NEC Table 690.7(A): lowest ambient in °C and the Voc correction for crystalline modules
+  static readonly VOC_CORRECTION_FACTORS: Array<[number, number]> = [
+    [20, 1.02], [15, 1.04], [10, 1.06], [5, 1.08], [0, 1.10], [-5, 1.12], [-10, 1.14],
+    [-15, 1.16], [-20, 1.18], [-25, 1.20], [-30, 1.21], [-35, 1.23], [-40, 1.25]
+  ];
+
+  /**
+   * Module Voc at the record low, from the datasheet coefficient or Table 690.7(A)
+   */
+  static vocAtTemperature(module: StringSizingModule, temperatureC: number): number {
+    if (temperatureC >= STC_TEMP_C) return module.voc;
+    if (module.tempCoeffVoc !== undefined) {
+      return module.voc * (1 + ((temperatureC - STC_TEMP_C) * module.tempCoeffVoc) / 100);
+    }
+    const row = this.VOC_CORRECTION_FACTORS.find(([minTemp]) => temperatureC >= minTemp);
+    return module.voc * (row ? row[1] : this.VOC_CORRECTION_FACTORS[this.VOC_CORRECTION_FACTORS.length - 1][1]);
+  }
+
+  static vmpAtCellTemperature(module: StringSizingModule, cellTempC: number): number {
+    const coefficient = module.tempCoeffVmp ?? this.DEFAULT_TEMP_COEFF_VMP;
+    return module.vmp * (1 + ((cellTempC - STC_TEMP_C) * coefficient) / 100);
+  }
+
+  static sizeStrings(request: StringSizingRequest): StringSizingResult {
+    const {
+      module,
+      site,
+      inverter,
+      stringLengths = [],
+      inverterCount = 1,
+      cellTempRiseC = this.ROOF_CELL_TEMP_RISE_C,
+      maxSystemVoltage = this.MAX_SYSTEM_VOLTAGE,
+      maxDcAcRatio = this.MAX_DC_AC_RATIO
+    } = request;
+    const issues: StringSizingIssue[] = [];
+
+    const vocCold = this.vocAtTemperature(module, site.recordLowC);
+    const vmpHot = this.vmpAtCellTemperature(module, site.designHighC + cellTempRiseC);
+    const voltageLimit = Math.min(inverter.maxInputVoltage, maxSystemVoltage);
+    const maxModulesPerString = vocCold > 0 ? Math.floor(voltageLimit / vocCold) : 0;
+    const minModulesPerString = vmpHot > 0 ? Math.max(1, Math.ceil(inverter.minVoltage / vmpHot)) : 1;
+
+    if (minModulesPerString > maxModulesPerString) {
+      issues.push({
+        code: 'no_valid_length',
+        severity: 'error',
+        message: `No string length fits: ${minModulesPerString} modules are needed to stay in the MPPT window when hot, ` +
+          `but only ${maxModulesPerString} stay under ${voltageLimit} V when cold`,
+        necReference: 'NEC 690.7(A)'
+      });
+    }
+
+    const longest = stringLengths.length > 0 ? Math.max(...stringLengths) : 0;
+    const shortest = stringLengths.length > 0 ? Math.min(...stringLengths) : 0;
+    const maxStringVoltage = round(vocCold * longest, 1);
+    if (longest > maxModulesPerString) {
+      issues.push({
+        code: 'max_voltage',
+        severity: 'error',
+        message: `${longest}-module strings reach ${maxStringVoltage} V at ${site.recordLowC}°C, over the ${voltageLimit} V limit`,
+        necReference: 'NEC 690.7(A)'
+      });
+    }
+    if (stringLengths.length > 0 && shortest < minModulesPerString) {
+      issues.push({
+        code: 'min_voltage',
+        severity: 'warning',
+        message: `${shortest}-module strings fall to ${round(vmpHot * shortest, 1)} V on a ${site.designHighC}°C day, ` +
+          `below the ${inverter.minVoltage} V MPPT minimum`
+      });
+    }
+
+    const inputs = inverter.channels * Math.max(1, inverterCount);
+    const stringsPerMppt = stringLengths.length > 0 ? Math.ceil(stringLengths.length / inputs) : 0;
+    const mpptCurrent = round(stringsPerMppt * module.isc * 1.25, 2);
+    if (inverter.maxCurrentPerMppt !== undefined && mpptCurrent > inverter.maxCurrentPerMppt) {
+      issues.push({
+        code: 'mppt_current',
+        severity: 'error',
+        message: `${stringsPerMppt} string${stringsPerMppt === 1 ? '' : 's'} per MPPT input carry ${mpptCurrent} A, ` +
+          `over the ${inverter.maxCurrentPerMppt} A input rating`,
+        necReference: 'NEC 690.8(A)(1)'
+      });
+    }
+
+    const dcKw = round(stringLengths.reduce((sum, length) => sum + length, 0) * module.watts / 1000, 3);
+    const acKw = round(inverter.acOutputKW * Math.max(1, inverterCount), 3);
+    const dcAcRatio = acKw > 0 ? round(dcKw / acKw, 2) : 0;
+    if (dcAcRatio > maxDcAcRatio) {
+      issues.push({
+        code: 'dc_ac_ratio',
+        severity: 'warning',
+        message: `DC:AC ratio of ${dcAcRatio} is above ${maxDcAcRatio}; expect inverter clipping`
+      });
+    }
+
+    return {
+      vocCold: round(vocCold, 2),
+      vmpHot: round(vmpHot, 2),
+      minModulesPerString,
+      maxModulesPerString,
+      maxStringVoltage,
+      stringsPerMppt,
+      mpptCurrent,
+      dcKw,
+      acKw,
+      dcAcRatio,
+      issues
+    };
+  }
+
+  /**
+   * PV source circuits for the wire schedule, one per string, sharing a conduit to the inverter.
+   * Fuses are only listed when more than two strings are paralleled on an input, NEC 690.9(A).
+   */
+  static sizeDCConductors(
+    strings: Array<{ id: string; modules: number }>,
+    module: StringSizingModule,
+    site: SiteTemperatures,
+    options: { stringsPerMppt?: number; lengthFt?: number } = {}
+  ): SLDCircuitData[] {
+    const { stringsPerMppt = 1, lengthFt = this.DEFAULT_SOURCE_CIRCUIT_LENGTH_FT } = options;
+    const fuse = stringsPerMppt > 2
+      ? NEC_CONSTANTS.STANDARD_OCPD_SIZES.find(size => size >= module.isc * 1.56) ?? 0
+      : 0;
+
+    return strings.map((s, index) => {
+      const voltage = round(module.vmp * s.modules, 1);
+      const sizing = EnhancedWireSizingService.calculateWireSizing({
+        loadCurrent: module.isc,
+        voltage,
+        distance: lengthFt,
+        conductorMaterial: 'copper',
+        tempRating: '90C',
+        ambientTemp: site.designHighC,
+        conduitFill: strings.length * 2,
+        loadType: 'solar_dc',
+        circuitType: 'branch',
+        installationMethod: 'conduit'
+      });
+      return {
+        id: `dc_${s.id}`,
+        number: index + 1,
+        description: `PV source circuit ${s.id} (${s.modules} modules)`,
+        load: s.modules * module.watts,
+        current: round(module.isc * 1.25, 2),
+        voltage,
+        protectionRating: fuse,
+        conductorSize: sizing.recommendedSize,
+        conduitSize: sizing.conduitSize,
+        length: lengthFt,
+        loadType: 'continuous' as const,
+        phase: 'AB' as const, // Positive and negative conductors
+        equipment: 'PV array',
+        system: 'dc' as const
+      };
+    });
+  }
+
+  /**
+   * Sizes the layout's strings against the inverter chosen in its string sizing settings. A
+   * microinverter takes one module per input, so each module counts as its own string.
+   */
+  static sizeLayout(layout: PVLayout, strings: PVLayoutString[]): LayoutStringSizing | null {
+    if (!layout.stringSizing) return null;
+    const inverter = componentDatabaseService.getMPPTWindow(layout.stringSizing.inverterId);
+    if (!inverter) return null;
+
+    const site = { recordLowC: layout.stringSizing.recordLowC, designHighC: layout.stringSizing.designHighC };
+    const moduleCount = strings.reduce((sum, s) => sum + s.moduleIds.length, 0);
+    const micro = inverter.inverterType === 'micro';
+    const inverterCount = micro ? Math.max(1, moduleCount) : 1;
+    const result = this.sizeStrings({
+      module: layout.module,
+      site,
+      inverter,
+      stringLengths: micro ? Array(moduleCount).fill(1) : strings.map(s => s.moduleIds.length),
+      inverterCount
+    });
+    const circuits = micro
+      ? []
+      : this.sizeDCConductors(
+          strings.map(s => ({ id: s.id, modules: s.moduleIds.length })),
+          layout.module,
+          site,
+          { stringsPerMppt: result.stringsPerMppt }
+        );
+
+    return { inverter, inverterCount, result, circuits };
+  }
+
+  /**
+   * DC source circuits of the layout's strings for the wire schedule, empty until an inverter is chosen
+   */
+  static layoutDCCircuits(layout: PVLayout): SLDCircuitData[] {
+    return this.sizeLayout(layout, PVLayoutService.buildStrings(layout))?.circuits ?? [];
+  }
+
+  /**
+   * Records the string limits and DC conductor size on an array symbol; without sizing the
+   * previous results are cleared.
+   */
+  static applyToPVArray(array: SLDPVArray, sizing: LayoutStringSizing | null): SLDPVArray {
+    if (!sizing) return { ...array, specifications: { ...array.specifications, stringSizing: undefined } };
+
+    const { result, circuits } = sizing;
+    const stringIds: string[] = (array.specifications?.strings || []).map((s: { id: string }) => s.id);
+    const conductorSizes = circuits.filter(c => stringIds.some(id => c.id === `dc_${id}`)).map(c => c.conductorSize);
+    return {
+      ...array,
+      specifications: {
+        ...array.specifications,
+        stringSizing: {
+          minModulesPerString: result.minModulesPerString,
+          maxModulesPerString: result.maxModulesPerString,
+          vocCold: result.vocCold,
+          vmpHot: result.vmpHot,
+          maxStringVoltage: round(result.vocCold * array.modulesPerString, 1),
+          dcConductorSize: conductorSizes[0],
+          issues: result.issues.map(issue => issue.code)
+        }
+      }
+    };
+  }
+
+  /**
+   * Inverter symbol for the sized layout, carrying its MPPT window and per-input loading
+   */
+  static inverterComponent(sizing: LayoutStringSizing): SLDInverter {
+    const { inverter, inverterCount, result } = sizing;
+    const specs = componentDatabaseService.getComponent(inverter.componentId)?.specifications || {};
+    return {
+      id: 'pv_layout_inverter',
+      type: 'inverter',
+      name: `${inverter.manufacturer} ${inverter.model}`.trim(),
+      label: inverterCount > 1 ? `Inverter ×${inverterCount}` : 'Inverter',
+      position: { x: 80, y: 240 },
+      inverterType: inverter.inverterType,
+      manufacturer: inverter.manufacturer,
+      model: inverter.model,
+      acOutputKW: inverter.acOutputKW,
+      dcInputVoltage: inverter.maxInputVoltage,
+      acOutputVoltage: Number(specs.acOutputVoltage) || 240,
+      efficiency: Number(specs.efficiency) || 0.96,
+      mpptChannels: inverter.channels,
+      specifications: {
+        source: 'pv_layout',
+        componentId: inverter.componentId,
+        quantity: inverterCount,
+        cecEfficiency: specs.cecEfficiency,
+        mpptVoltageRange: `${inverter.minVoltage}-${inverter.maxVoltage}V`,
+        maxDcInputVoltage: inverter.maxInputVoltage,
+        maxCurrentPerMppt: inverter.maxCurrentPerMppt,
+        stringSizing: {
+          stringsPerMppt: result.stringsPerMppt,
+          mpptCurrent: result.mpptCurrent,
+          dcKw: result.dcKw,
+          acKw: result.acKw,
+          dcAcRatio: result.dcAcRatio,
+          issues: result.issues.map(issue => issue.code)
+        }
+      }
+    };
+  }
+}
@@ -27,7 +27,7 @@ export class ValidationService {
       );
     }
 
-    const validMethods: CalculationMethod[] = ['standard', 'optional', 'existing'];
+    const validMethods: CalculationMethod[] = ['standard', 'optional', 'existing', 'multifamily', 'commercial'];
     if (!validMethods.includes(calculationMethod)) {
       throw ErrorHandlingService.createError(
         ErrorType.VALIDATION,
@@ -38,6 +38,22 @@ export class ValidationService {
       );
     }
 
+    // Multifamily and commercial inputs carry their own service and are validated in occupancyLoadCalculations
+    if (calculationMethod === 'multifamily' || calculationMethod === 'commercial') {
+      if (!loadState[calculationMethod]) {
+        throw ErrorHandlingService.createError(
+          ErrorType.VALIDATION,
+          `${calculationMethod === 'multifamily' ? 'Multifamily' : 'Commercial'} calculation input is required`,
+          calculationMethod === 'multifamily'
+            ? 'Please add the dwelling units served.'
+            : 'Please enter the occupancy and its loads.',
+          { calculationMethod },
+          'ValidationService.validateCalculationInputs'
+        );
+      }
+      return;
+    }
+
     if (typeof squareFootage !== 'number' || squareFootage <= 0 || squareFootage > 100000) {
       throw ErrorHandlingService.createError(
         ErrorType.VALIDATION,
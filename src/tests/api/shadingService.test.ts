@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from 'vitest';
+import { solarPositionService } from '../../../api/services/solarPositionService.js';
+import { shadingService } from '../../../api/services/shadingService.js';
+import shadingHandler from '../../../api/shading';
+
+const createMockResponse = () => ({
+  status: vi.fn().mockReturnThis(),
+  json: vi.fn().mockReturnThis(),
+  setHeader: vi.fn().mockReturnThis(),
+  end: vi.fn()
+});
+
+const getElevation = (horizon: { azimuthStep: number; elevations: number[] }, azimuth: number) =>
+  horizon.elevations[Math.floor(azimuth / horizon.azimuthStep)];
+
+describe('Shading service', () => {
+  it('matches the NREL SPA reference example', () => {
+    // NREL/TP-560-34302 Appendix A.5: Golden, CO, 2003-10-17 12:30:30 MST
+    const position = solarPositionService.calculate(new Date(Date.UTC(2003, 9, 17, 19, 30, 30)), 39.742476, -105.1786, {
+      elevation: 1830.14,
+      pressure: 820,
+      temperature: 11,
+      deltaT: 67
+    });
+
+    expect(position.julianDay).toBeCloseTo(2452930.312847, 6);
+    expect(position.earthSunDistance).toBeCloseTo(0.9965422974, 9);
+    expect(position.zenith).toBeCloseTo(50.11162, 5);
+    expect(position.azimuth).toBeCloseTo(194.34024, 5);
+  });
+
+  it('transposes clear-sky irradiance onto tilted roof planes', () => {
+    // Solar noon near the June solstice at sea level
+    const sun = solarPositionService.calculate(new Date(Date.UTC(2024, 5, 21, 19, 5)), 34.05, -118.24);
+    const clearSky = shadingService.calculateClearSkyIrradiance(sun, { linkeTurbidity: 3 });
+
+    expect(clearSky.ghi).toBeGreaterThan(900);
+    expect(clearSky.ghi).toBeLessThan(1100);
+    expect(clearSky.dhi).toBeLessThan(clearSky.ghi * 0.2);
+    expect(clearSky.dni * Math.cos(sun.zenith * Math.PI / 180) + clearSky.dhi).toBeCloseTo(clearSky.ghi, 6);
+
+    const flat = shadingService.calculatePlaneOfArrayIrradiance(sun, clearSky, { pitchDegrees: 0, azimuthDegrees: 180 });
+    const north = shadingService.calculatePlaneOfArrayIrradiance(sun, clearSky, { pitchDegrees: 45, azimuthDegrees: 0 });
+    expect(flat.poa).toBeCloseTo(clearSky.ghi, 0);
+    expect(north.poa).toBeLessThan(flat.poa);
+
+    const shaded = shadingService.calculatePlaneOfArrayIrradiance(sun, clearSky, { pitchDegrees: 20, azimuthDegrees: 180 }, {
+      shading: { beam: () => 1 }
+    });
+    expect(shaded.poa).toBeCloseTo(shaded.skyDiffuse + shaded.groundReflected, 6);
+    expect(shaded.shadingFactor).toBeGreaterThan(0.7);
+  });
+
+  it('builds an 8760-hour profile for each roof segment', () => {
+    const profile = shadingService.calculateHourlyProfile(39.74, -105.18, {
+      year: 2024,
+      timezone: -7,
+      elevation: 1830,
+      segments: [
+        { pitchDegrees: 30, azimuthDegrees: 180 },
+        { pitchDegrees: 30, azimuthDegrees: 0 }
+      ]
+    });
+
+    expect(profile.hours).toBe(8760);
+    expect(profile.clearSky.ghi).toHaveLength(8760);
+    expect(profile.segments[0].poa).toHaveLength(8760);
+
+    // Midnight is dark, summer noon is bright
+    expect(profile.clearSky.ghi[0]).toBe(0);
+    expect(profile.clearSky.ghi[171 * 24 + 12]).toBeGreaterThan(900);
+
+    const [south, north] = profile.segments;
+    expect(south.annual.poaKwhPerM2).toBeGreaterThan(profile.annualGhiKwhPerM2);
+    expect(north.annual.poaKwhPerM2).toBeLessThan(profile.annualGhiKwhPerM2);
+    expect(south.monthly.reduce((sum: number, m: { poaKwhPerM2: number }) => sum + m.poaKwhPerM2, 0)).toBeCloseTo(south.annual.poaKwhPerM2, -1);
+  });
+
+  it('builds a horizon from obstructions and reports monthly solar access', () => {
+    // 45 ft tree canopy 30-50 ft south of a 15 ft roof
+    const tree = { id: 'oak', kind: 'tree', heightFt: 45, points: [{ x: -10, y: -30 }, { x: 10, y: -30 }, { x: 10, y: -50 }, { x: -10, y: -50 }] };
+    const horizon = shadingService.calculateHorizonProfile([tree], { observerHeightFt: 15 });
+
+    expect(horizon.elevations).toHaveLength(72);
+    expect(getElevation(horizon, 180)).toBeCloseTo(45, 0);
+    expect(getElevation(horizon, 0)).toBe(0);
+    expect(horizon.sources[36]).toBe('oak');
+
+    // Shorter than the roof: no horizon at all
+    const hedge = shadingService.calculateHorizonProfile([{ ...tree, heightFt: 10 }], { observerHeightFt: 15 });
+    expect(hedge.elevations.every((elevation: number) => elevation === 0)).toBe(true);
+
+    const report = shadingService.calculateSolarAccess(39.74, -105.18, {
+      year: 2024,
+      timezone: -7,
+      segments: [
+        { id: 'shaded', pitchDegrees: 30, azimuthDegrees: 180, horizon },
+        { id: 'open', pitchDegrees: 30, azimuthDegrees: 180 }
+      ]
+    });
+    const [shaded, open] = report.segments;
+
+    // The low winter sun is behind the tree, the high summer sun clears it
+    expect(shaded.monthly[11].solarAccess).toBeLessThan(80);
+    expect(shaded.monthly[5].solarAccess).toBeGreaterThan(95);
+    expect(open.annual.solarAccess).toBe(100);
+    expect(shaded.annual.tsrf).toBeCloseTo(shaded.annual.solarAccess * shaded.annual.tof / 100, 0);
+    expect(report.sunPath).toHaveLength(12);
+    expect(report.sunPath[5].points.length).toBeGreaterThan(report.sunPath[11].points.length);
+  });
+
+  it('serves solar access reports for posted obstructions', async () => {
+    const res = createMockResponse();
+    await shadingHandler({
+      method: 'POST',
+      headers: {},
+      query: {},
+      body: {
+        lat: 39.74,
+        lon: -105.18,
+        year: 2025,
+        segments: [{ id: 'south', pitchDegrees: 30, azimuthDegrees: 180, position: { x: 0, y: 0 }, heightFt: 15 }],
+        obstructions: [{ id: 'chimney', kind: 'chimney', heightFt: 25, points: [{ x: 0, y: -6 }, { x: 2, y: -6 }] }]
+      }
+    }, res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    const body = res.json.mock.calls[0][0];
+    expect(body.segments[0].id).toBe('south');
+    expect(body.segments[0].monthly).toHaveLength(12);
+    expect(body.segments[0].annual.solarAccess).toBeLessThan(100);
+
+    const invalid = createMockResponse();
+    await shadingHandler({
+      method: 'POST',
+      headers: {},
+      query: {},
+      body: { lat: 39.74, lon: -105.18, segments: [{ pitchDegrees: 30, azimuthDegrees: 180 }], obstructions: [{ kind: 'fence', heightFt: 6, points: [] }] }
+    }, invalid);
+    expect(invalid.status).toHaveBeenCalledWith(400);
+    expect(invalid.json.mock.calls[0][0].details).toHaveLength(2);
+  });
+
+  it('serves the profile from /api/shading without a weather API key', async () => {
+    const res = createMockResponse();
+    await shadingHandler({
+      method: 'GET',
+      headers: {},
+      query: { lat: '39.74', lon: '-105.18', profile: '8760', year: '2025', timezone: '-7', segments: '30:180,15:90' }
+    }, res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    const body = res.json.mock.calls[0][0];
+    expect(body.models).toEqual({ solarPosition: 'NREL SPA', clearSky: 'Ineichen-Perez', transposition: 'Perez 1990' });
+    expect(body.segments.map((s: any) => s.pitchDegrees)).toEqual([30, 15]);
+  });
+});
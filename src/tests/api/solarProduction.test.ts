@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+import { tmyService } from '../../../api/services/tmyService.js';
+import { solarService } from '../../../api/services/solarService.js';
+import solarProductionHandler from '../../../api/solar-production';
+
+const createMockResponse = () => ({
+  status: vi.fn().mockReturnThis(),
+  json: vi.fn().mockReturnThis(),
+  setHeader: vi.fn().mockReturnThis(),
+  end: vi.fn()
+});
+
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+describe('Solar production simulation', () => {
+  // Denver-area site, shared by the simulations below
+  const weather = tmyService.generateTypicalYear(39.74, -104.99, { year: 2024 });
+
+  it('synthesizes a typical year that matches the nearest station', () => {
+    expect(weather.station.id).toBe('725650');
+    expect(weather.ghi).toHaveLength(8760);
+    expect(weather.sun).toHaveLength(8760);
+
+    const station = tmyService.STATIONS.find((s: { id: string }) => s.id === '725650')!;
+    let offset = 0;
+    DAYS_IN_MONTH.forEach((days, month) => {
+      const total = weather.ghi.slice(offset, offset + days * 24).reduce((sum: number, value: number) => sum + value, 0);
+      expect(total / 1000 / days).toBeCloseTo(station.ghi[month], 6);
+      offset += days * 24;
+    });
+
+    // Components stay consistent: GHI = DNI cos(zenith) + DHI
+    const noon = 172 * 24 + 12;
+    const cosZenith = Math.cos(weather.sun[noon].zenith * Math.PI / 180);
+    expect(weather.dni[noon] * cosZenith + weather.dhi[noon]).toBeCloseTo(weather.ghi[noon], 6);
+    expect(Math.max(...weather.temperature)).toBeLessThan(35);
+  });
+
+  it('warns when the nearest station is too far away to represent the site', () => {
+    expect(weather.warnings).toEqual([]);
+
+    // Madrid maps to an East Coast station thousands of kilometers away
+    const distant = tmyService.generateTypicalYear(40.42, -3.7, { year: 2024 });
+    expect(distant.station.distanceKm).toBeGreaterThan(tmyService.MAX_STATION_DISTANCE_KM);
+    expect(distant.warnings).toEqual([expect.stringContaining('upload a TMY3 file')]);
+  });
+
+  it('reads NSRDB TMY3 files', () => {
+    const rows = Array.from({ length: 8760 }, (_, i) =>
+      `01/01/1988,${(i % 24) + 1}:00,0,0,${i % 24 === 12 ? 800 : 0},1,${i % 24 === 12 ? 600 : 0},1,100,1,1,1,2.5`
+    );
+    const csv = [
+      '725650,"DENVER INTL AP",CO,-7.0,39.833,-104.65,1650',
+      'Date (MM/DD/YYYY),Time (HH:MM),ETR (W/m^2),ETRN (W/m^2),GHI (W/m^2),GHI source,DNI (W/m^2),DNI source,DHI (W/m^2),DHI source,Dry-bulb (C),Dry-bulb source,Wspd (m/s)',
+      ...rows
+    ].join('\n');
+
+    const tmy = tmyService.parseTmy3(csv, { year: 2024 });
+    expect(tmy.station).toMatchObject({ id: '725650', name: 'DENVER INTL AP, CO' });
+    expect(tmy.timezone).toBe(-7);
+    expect(tmy.ghi[11]).toBe(0);
+    expect(tmy.ghi[12]).toBe(800);
+    expect(tmy.dni[12]).toBe(600);
+    expect(tmy.dhi[12]).toBe(100);
+    expect(tmy.temperature[0]).toBe(1);
+    expect(tmy.windSpeed[0]).toBe(2.5);
+
+    expect(() => tmyService.parseTmy3(csv.split('\n').slice(0, 100).join('\n'))).toThrow('8760 hourly rows');
+  });
+
+  it('applies incidence, temperature and inverter models', () => {
+    expect(solarService.calculateIncidenceAngleModifier(0)).toBeCloseTo(1, 6);
+    expect(solarService.calculateIncidenceAngleModifier(60)).toBeGreaterThan(0.9);
+    expect(solarService.calculateIncidenceAngleModifier(90)).toBe(0);
+
+    // Roof mount runs hotter than open rack at the same irradiance and wind
+    const roof = solarService.calculateCellTemperature(1000, 25, 1, 'roof');
+    const openRack = solarService.calculateCellTemperature(1000, 25, 1, 'openRack');
+    expect(roof).toBeGreaterThan(openRack);
+    expect(openRack).toBeGreaterThan(45);
+
+    const partLoad = solarService.calculateInverterOutput(2, 5, 0.96);
+    expect(partLoad.ac / 2).toBeGreaterThan(0.94);
+    expect(partLoad.clipped).toBe(0);
+    const clipped = solarService.calculateInverterOutput(7, 5, 0.96);
+    expect(clipped.ac).toBe(5);
+    expect(clipped.clipped).toBeGreaterThan(1.5);
+  });
+
+  it('simulates AC production with clipping, losses and degradation', () => {
+    const array = { id: 'south', dcKw: 7, pitchDegrees: 25, azimuthDegrees: 180 };
+    const undersized = solarService.simulateProduction(39.74, -104.99, {
+      arrays: [array],
+      inverters: [{ id: 'inv', acKw: 5, efficiency: 0.97 }],
+      weather
+    });
+    const matched = solarService.simulateProduction(39.74, -104.99, {
+      arrays: [array],
+      inverters: [{ id: 'inv', acKw: 7.6, efficiency: 0.97 }],
+      weather
+    });
+
+    expect(undersized.losses.total).toBeCloseTo(14.08, 2);
+    expect(undersized.system.dcAcRatio).toBe(1.4);
+    expect(undersized.monthly).toHaveLength(12);
+    expect(matched.annual.specificYield).toBeGreaterThan(1300);
+    expect(matched.annual.specificYield).toBeLessThan(1800);
+    expect(undersized.annual.clippedKwh).toBeGreaterThan(0);
+    expect(matched.annual.clippedKwh).toBe(0);
+    expect(undersized.annual.acKwh).toBeLessThan(matched.annual.acKwh);
+
+    const { schedule } = undersized.degradation;
+    expect(schedule).toHaveLength(25);
+    expect(schedule[0].acKwh).toBe(undersized.annual.acKwh);
+    expect(schedule[1].acKwh).toBe(Math.round(undersized.annual.acKwh * 0.995));
+
+    // A north-facing plane and a cleaner loss budget move production the expected way
+    const north = solarService.simulateProduction(39.74, -104.99, {
+      arrays: [{ ...array, azimuthDegrees: 0 }],
+      losses: { soiling: 0, shading: 0 },
+      weather
+    });
+    expect(north.losses.total).toBeLessThan(undersized.losses.total);
+    expect(north.annual.acKwh).toBeLessThan(matched.annual.acKwh);
+  });
+
+  it('validates production requests', async () => {
+    const invalid = createMockResponse();
+    await solarProductionHandler({
+      method: 'POST',
+      headers: {},
+      body: { lat: 39.74, lon: -104.99, arrays: [{ dcKw: 5, pitchDegrees: 25 }], losses: { dust: 4 } }
+    }, invalid);
+    expect(invalid.status).toHaveBeenCalledWith(400);
+    expect(invalid.json.mock.calls[0][0].details).toEqual(expect.arrayContaining([
+      'Array 1 needs dcKw, pitchDegrees and azimuthDegrees',
+      'Unknown loss category dust'
+    ]));
+
+    const wrongMethod = createMockResponse();
+    await solarProductionHandler({ method: 'GET', headers: {}, query: {} }, wrongMethod);
+    expect(wrongMethod.status).toHaveBeenCalledWith(405);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { SolarAccessReport } from '../../components/AerialView/SolarAccessReport';
+import { SolarAccessService } from '../../services/solarAccessService';
+
+// The report reads the site and tagged shapes from both contexts; only the fields it uses are provided
+vi.mock('../../context/AerialViewContext', () => ({
+  useAerialView: () => ({
+    state: {
+      coordinates: { latitude: 40, longitude: -105 },
+      measurements: { area: [], polyline: [] },
+      zoom: 20
+    }
+  })
+}));
+
+vi.mock('../../context/PhotoEditorContext', () => ({
+  usePhotoEditor: () => ({
+    state: { measurements: [], imageType: 'satellite', imageMetadata: null, unit: 'ft' }
+  })
+}));
+
+describe('SolarAccessReport', () => {
+  it('sends roof segment heights from the Google plane heights', async () => {
+    const getReport = vi.spyOn(SolarAccessService, 'getReport').mockResolvedValue({ segments: [] } as any);
+    // A one-story wing at 1612 m and a second story 3 m higher, as returned by buildingInsights
+    const roofSegmentStats = [
+      { pitchDegrees: 20, azimuthDegrees: 180, planeHeightAtCenterMeters: 1612 },
+      { pitchDegrees: 30, azimuthDegrees: 180, planeHeightAtCenterMeters: 1615 }
+    ];
+
+    render(<SolarAccessReport roofSegmentStats={roofSegmentStats} imageSize={{ width: 640, height: 640 }} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Run Solar Access Report' }));
+
+    await waitFor(() => expect(getReport).toHaveBeenCalledTimes(1));
+    const [latitude, longitude, segments] = getReport.mock.calls[0];
+    expect([latitude, longitude]).toEqual([40, -105]);
+    expect(segments.map(segment => segment.heightFt)).toEqual([
+      expect.closeTo(SolarAccessService.DEFAULT_ROOF_HEIGHT_FT, 6),
+      expect.closeTo(SolarAccessService.DEFAULT_ROOF_HEIGHT_FT + 3 * 3.28084, 6)
+    ]);
+  });
+});
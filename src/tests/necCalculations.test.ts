@@ -292,7 +292,7 @@ describe('NEC Load Calculations', () => {
       // Supply side bypasses 120% rule, so should be compliant
       expect(result.interconnectionCompliant).toBe(true);
       expect(result.totalInterconnectionAmps).toBe(0); // Supply side not counted
-      expect(result.warnings.some(w => w.code === 'NEC 705.12(A)')).toBe(true);
+      expect(result.warnings.some(w => w.code === 'NEC 705.11')).toBe(true);
     });
 
     it('should handle mixed interconnection locations', () => {
@@ -375,4 +375,147 @@ describe('NEC Load Calculations', () => {
     const expectedSpareCapacity = ((200 - (result.totalAmps || 0)) / 200) * 100;
     expect(result.spareCapacity).toBeCloseTo(expectedSpareCapacity, 1);
   });
-});
\ No newline at end of file
+
+  describe('NEC code editions', () => {
+    // Fresh copies: the tests above mutate the shared templates
+    const createEditionLoadState = (overrides: Partial<LoadState> = {}): LoadState => ({
+      generalLoads: LOAD_TEMPLATES.general.map(load => ({ ...load })),
+      hvacLoads: LOAD_TEMPLATES.hvac.map(load => ({ ...load })),
+      evseLoads: LOAD_TEMPLATES.evse.map(load => ({ ...load, quantity: 0, total: 0 })),
+      solarBatteryLoads: [],
+      ...overrides
+    });
+
+    const createSolar = (inverterAmps: number, location: 'backfeed' | 'supply_side' = 'backfeed') => ({
+      id: 1, name: 'Solar PV', kw: inverterAmps * 0.24, inverterAmps, volts: 240, breaker: 0, type: 'solar' as const,
+      location, amps: 0, va: 0, total: 0, quantity: 1, circuit: ''
+    });
+
+    const calculate = (loadState: LoadState, codeYear?: string, method: CalculationMethod = 'optional', actualDemandData = testActualDemandData) =>
+      calculateLoadDemand(loadState, method, 2000, 200, testPanelDetails, actualDemandData, false, 0,
+        'none', 0, 'branch_sharing', null, null, codeYear);
+
+    it('defaults to NEC 2023 and reports the edition with its code basis', () => {
+      const result = calculate(createEditionLoadState());
+
+      expect(result.codeYear).toBe('2023');
+      expect(result.codeBasis?.map(entry => entry.section)).toEqual(['220.41', '220.82']);
+      expect(calculate(createEditionLoadState(), '2017').codeYear).toBe('2017');
+      expect(calculate(createEditionLoadState(), '2017').codeBasis?.map(entry => entry.section)).toEqual(['220.12', '220.82']);
+      expect(calculate(createEditionLoadState(), '2023', 'standard').codeBasis?.[1].section).toBe('Table 220.45');
+      expect(calculate(createEditionLoadState(), '2020', 'standard').codeBasis?.[1].section).toBe('220.42');
+      expect(calculate(createEditionLoadState(), '1999').codeYear).toBe('2023');
+    });
+
+    it('cites the edition-specific 705 sections for interconnections', () => {
+      const overloaded = () => createEditionLoadState({ solarBatteryLoads: [createSolar(83.3)] });
+
+      expect(calculate(overloaded(), '2017').errors[0].code).toBe('NEC 705.12(B)(2)(3)(b)');
+      expect(calculate(overloaded(), '2020').errors[0].code).toBe('NEC 705.12(B)(3)(2)');
+      expect(calculate(overloaded(), '2023').warnings.find(w => w.message.startsWith('Compliant interconnection alternatives'))?.code)
+        .toBe('NEC 705.11');
+
+      // Panel interconnection details bring the sum-of-breakers and PCS options into the alternatives
+      const withPanelInputs = calculateLoadDemand(overloaded(), 'optional', 2000, 200,
+        { ...testPanelDetails, loadBreakerTotal: 80, pcsControlledCurrent: 40 }, testActualDemandData, false, 0,
+        'none', 0, 'branch_sharing', null, null, '2023');
+      const alternatives = withPanelInputs.warnings.find(w => w.message.startsWith('Compliant interconnection alternatives'))!.message;
+      expect(alternatives).toContain('NEC 705.12(B)(3)(3)');
+      expect(alternatives).toContain('NEC 705.13');
+      expect(calculate(overloaded(), '2023').warnings.find(w => w.message.startsWith('Compliant interconnection alternatives'))!.message)
+        .not.toContain('NEC 705.13');
+
+      const supplySide = () => createEditionLoadState({ solarBatteryLoads: [createSolar(125, 'supply_side')] });
+      expect(calculate(supplySide(), '2017').warnings.some(w => w.code === 'NEC 705.12(A)')).toBe(true);
+      expect(calculate(supplySide(), '2023').warnings.some(w => w.code === 'NEC 705.11')).toBe(true);
+    });
+
+    it('applies the 2023 220.57 EVSE minimum of 7,200 VA', () => {
+      const smallCharger = () => createEditionLoadState({
+        evseLoads: [{ id: 1, name: '16A Charger', quantity: 2, amps: 16, volts: 240, va: 3840, total: 7680, continuous: true, circuit: '' }]
+      });
+
+      const nec2023 = calculate(smallCharger(), '2023');
+      expect(nec2023.evseDemand).toBe(2 * 7200 * 1.25);
+      expect(nec2023.codeBasis?.some(entry => entry.section === '220.57')).toBe(true);
+
+      const nec2020 = calculate(smallCharger(), '2020');
+      expect(nec2020.evseDemand).toBe(7680 * 1.25);
+      expect(nec2020.codeBasis?.some(entry => entry.section === '625.42')).toBe(true);
+    });
+
+    it('credits energy management under 220.70 in 2023 and 625.42 before', () => {
+      const managed = (codeYear: string) => calculateLoadDemand(
+        createEditionLoadState({
+          evseLoads: [{ id: 1, name: 'Level 2 EV Charger', quantity: 2, amps: 48, volts: 240, va: 11520, total: 23040, continuous: true, circuit: '' }]
+        }),
+        'optional', 2000, 200, testPanelDetails, testActualDemandData, true, 40, 'ems', 40, 'branch_sharing', null, null, codeYear
+      );
+
+      expect(managed('2023').evseDemand).toBe(40 * 240 * 1.25);
+      expect(managed('2023').codeBasis?.find(entry => entry.section === '220.70')?.description).toContain('Energy Management System');
+      expect(managed('2017').codeBasis?.some(entry => entry.section === '625.42')).toBe(true);
+      expect(managed('2017').codeBasis?.some(entry => entry.section === '220.70')).toBe(false);
+    });
+
+    it('uses 125% of the recorded maximum demand for 220.87', () => {
+      const months = Object.fromEntries(Array.from({ length: 12 }, (_, index) => [`month${index + 1}`, 8 + (index % 3)]));
+      const yearOfData: ActualDemandData = { ...testActualDemandData, enabled: true, averageDemand: 8, peakDemand: 10, ...months };
+      const thirtyDays: ActualDemandData = { ...testActualDemandData, enabled: true, averageDemand: 8, peakDemand: 10, measurementPeriod: '30 days' };
+
+      const result = calculate(createEditionLoadState(), '2023', 'existing', yearOfData);
+      expect(result.generalDemand).toBe(12500);
+      expect(result.codeBasis?.some(entry => entry.section === '220.87')).toBe(true);
+
+      // Renewables only bar the 30-day recording option
+      const withSolar = () => createEditionLoadState({ solarBatteryLoads: [createSolar(20)] });
+      expect(calculate(withSolar(), '2023', 'existing', yearOfData).errors.some(e => e.code === 'NEC 220.87 Exception')).toBe(false);
+      expect(calculate(withSolar(), '2023', 'existing', thirtyDays).errors.some(e => e.code === 'NEC 220.87 Exception')).toBe(true);
+
+      // Load management is peak shaving and bars the recording option too
+      const managedRecording = calculateLoadDemand(createEditionLoadState(), 'existing', 2000, 200, testPanelDetails, thirtyDays,
+        true, 40, 'ems', 40, 'branch_sharing', null, null, '2020');
+      expect(managedRecording.errors.find(e => e.code === 'NEC 220.87 Exception')?.message).toContain('peak load shaving');
+    });
+
+    it('refuses average-only demand data for 220.87', () => {
+      const averageOnly: ActualDemandData = { ...testActualDemandData, enabled: true, averageDemand: 8, peakDemand: 0 };
+      const result = calculate(createEditionLoadState(), '2017', 'existing', averageOnly);
+      const calculated = calculate(createEditionLoadState(), '2017', 'existing');
+
+      expect(result.generalDemand).toBe(calculated.generalDemand);
+      expect(result.codeBasis?.some(entry => entry.section === '220.83')).toBe(true);
+      expect(result.warnings.find(w => w.code === 'NEC 220.87')?.message).toContain('highest 15-minute average');
+    });
+  });
+
+  describe('Three-phase services', () => {
+    const createThreePhaseLoadState = (): LoadState => ({
+      generalLoads: LOAD_TEMPLATES.general.map(load => ({ ...load })),
+      hvacLoads: LOAD_TEMPLATES.hvac.map(load => ({ ...load })),
+      evseLoads: LOAD_TEMPLATES.evse.map(load => ({ ...load })),
+      solarBatteryLoads: []
+    });
+
+    it('divides the demand by √3 × line voltage and reports per-phase loading', () => {
+      const result = calculateLoadDemand(
+        createThreePhaseLoadState(), 'standard', 2000, 200,
+        { ...testPanelDetails, phases: 3, voltage: 208 }, testActualDemandData
+      );
+
+      expect(result.totalAmps).toBeCloseTo(result.totalVA / (208 * Math.sqrt(3)), 6);
+      expect(result.phaseLoads?.system).toBe('208Y/120V 3Φ');
+      const { A, B, C } = result.phaseLoads!.phaseVA;
+      expect(A + B + C).toBeCloseTo(result.totalVA, 6);
+      expect(Math.min(A, B, C)).toBeGreaterThan(0);
+    });
+
+    it('keeps single-phase services on the 240 V line voltage', () => {
+      const result = calculateLoadDemand(createThreePhaseLoadState(), 'standard', 2000, 200, testPanelDetails, testActualDemandData);
+
+      expect(result.totalAmps).toBeCloseTo(result.totalVA / 240, 6);
+      expect(result.phaseLoads?.system).toBe('120/240V 1Φ');
+      expect(result.phaseLoads?.phaseVA.C).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest';
+import { calculateMultifamilyDemand, calculateCommercialDemand } from '../services/occupancyLoadCalculations';
+import { calculateLoadDemand } from '../services/necCalculations';
+import { getMultifamilyDemandFactor } from '../constants';
+import { initialActualDemandData } from '../constants/initialActualDemandData';
+import type {
+  CalculationMethod,
+  CommercialCalculationInput,
+  DwellingUnitType,
+  LoadState,
+  MultifamilyCalculationInput,
+  PanelDetails
+} from '../types';
+
+const THREE_PHASE_208 = 208 * Math.sqrt(3);
+
+const createUnitType = (overrides: Partial<DwellingUnitType> = {}): DwellingUnitType => ({
+  name: 'Type A',
+  count: 10,
+  squareFootage: 1000,
+  smallApplianceCircuits: 2,
+  laundryCircuits: 1,
+  applianceVA: 12000,
+  heatingVA: 5000,
+  coolingVA: 3000,
+  electricCooking: true,
+  ...overrides
+});
+
+const createMultifamily = (overrides: Partial<MultifamilyCalculationInput> = {}): MultifamilyCalculationInput => ({
+  unitTypes: [createUnitType()],
+  houseLoads: [
+    { name: 'Corridor lighting', va: 3000, continuous: true },
+    { name: 'Elevator', va: 10000 }
+  ],
+  voltage: 208,
+  phases: 3,
+  mainBreaker: 400,
+  ...overrides
+});
+
+const createCommercial = (overrides: Partial<CommercialCalculationInput> = {}): CommercialCalculationInput => ({
+  occupancy: 'office',
+  squareFootage: 10000,
+  receptacleOutlets: 100,
+  signOutlets: 1,
+  kitchenEquipment: [
+    { name: 'Fryer', va: 10000, quantity: 2 },
+    { name: 'Oven', va: 6000 },
+    { name: 'Dishwasher', va: 4000 }
+  ],
+  motors: [
+    { name: 'Exhaust fan', va: 5000 },
+    { name: 'Pump', va: 2000, quantity: 2 }
+  ],
+  heatingVA: 20000,
+  coolingVA: 15000,
+  otherLoads: [],
+  voltage: 208,
+  phases: 3,
+  mainBreaker: 400,
+  ...overrides
+});
+
+describe('Multifamily Load Calculations (NEC 220.84)', () => {
+  it('looks up the Table 220.84 demand factor by unit count', () => {
+    expect(getMultifamilyDemandFactor(3)).toBe(0.45);
+    expect(getMultifamilyDemandFactor(10)).toBe(0.43);
+    expect(getMultifamilyDemandFactor(25)).toBe(0.35);
+    expect(getMultifamilyDemandFactor(61)).toBe(0.24);
+    expect(getMultifamilyDemandFactor(200)).toBe(0.23);
+  });
+
+  it('applies the unit-count factor to the dwelling loads and adds house loads', () => {
+    const result = calculateMultifamilyDemand(createMultifamily());
+
+    // 3,000 lighting + 4,500 circuits + 12,000 appliances + 5,000 heat per unit
+    expect(result.generalLoadVA).toBe(245000);
+    expect(result.generalDemand).toBeCloseTo(105350, 2);
+    expect(result.applianceDemand).toBe(13750);
+    expect(result.totalVA).toBeCloseTo(119100, 2);
+    expect(result.totalAmps).toBeCloseTo(119100 / THREE_PHASE_208, 2);
+    expect(result.recommendedServiceSize).toBe(350);
+    expect(result.errors).toEqual([]);
+    expect(result.breakdown?.map(item => item.section)).toEqual(['220.84(C)', '220.84(B)', '220.84(B)']);
+    expect(result.codeBasis?.[0]).toEqual({ section: '220.84', description: '43% demand factor for 10 dwelling units' });
+  });
+
+  it('flags buildings that do not meet the 220.84(A) conditions', () => {
+    const result = calculateMultifamilyDemand(createMultifamily({
+      unitTypes: [createUnitType({ count: 2, electricCooking: false, heatingVA: 0, coolingVA: 0 })],
+      houseLoads: []
+    }));
+
+    expect(result.errors.map(error => error.code)).toEqual(['NEC 220.84(A)', 'NEC 220.84(A)(2)', 'NEC 220.84(A)(3)']);
+    // No demand reduction without three units
+    expect(result.generalDemand).toBe(result.generalLoadVA);
+  });
+
+  it('rejects a building without dwelling units', () => {
+    expect(() => calculateMultifamilyDemand(createMultifamily({ unitTypes: [] }))).toThrow();
+  });
+});
+
+describe('Commercial Load Calculations (NEC 220 Part III)', () => {
+  it('builds the lighting, receptacle, kitchen, motor and HVAC breakdown', () => {
+    const result = calculateCommercialDemand(createCommercial());
+    const demandBySection = Object.fromEntries(result.breakdown!.map(item => [item.section, item.demandVA]));
+
+    // 10,000 ft² × 1.3 VA/ft²; the 2023 unit loads already include the 125% continuous multiplier
+    expect(demandBySection['Table 220.42(A)']).toBe(13000);
+    // 18,000 VA receptacles: first 10 kVA + 50% of remainder
+    expect(demandBySection['220.47']).toBe(14000);
+    expect(demandBySection['220.14(F)']).toBe(1500);
+    // Four kitchen units at 80%
+    expect(demandBySection['220.56']).toBe(24000);
+    expect(demandBySection['220.50']).toBe(9000);
+    expect(demandBySection['430.24']).toBe(1250);
+    expect(demandBySection['220.60']).toBe(20000);
+
+    expect(result.totalVA).toBeCloseTo(82750, 2);
+    expect(result.generalDemand).toBeCloseTo(28500, 2);
+    expect(result.applianceDemand).toBe(34250);
+    expect(result.hvacDemand).toBe(20000);
+    expect(result.totalAmps).toBeCloseTo(82750 / THREE_PHASE_208, 2);
+    expect(result.recommendedServiceSize).toBe(250);
+  });
+
+  it('uses the edition unit loads and section numbers', () => {
+    const nec2017 = calculateCommercialDemand(createCommercial(), '2017');
+
+    expect(nec2017.codeYear).toBe('2017');
+    expect(nec2017.breakdown![0]).toMatchObject({ section: 'Table 220.12', connectedVA: 35000, demandVA: 43750 });
+    expect(nec2017.breakdown![1].section).toBe('220.44');
+    expect(calculateCommercialDemand(createCommercial(), '2020').breakdown![0].connectedVA).toBe(13000);
+  });
+
+  it('adds 125% to lighting only where the edition unit loads leave it out', () => {
+    const retail = createCommercial({ occupancy: 'retail', squareFootage: 5000 });
+
+    // 5,000 ft² × 3 VA/ft² at 125% under the 2017 Table 220.12
+    expect(calculateCommercialDemand(retail, '2017').breakdown![0]).toMatchObject({ connectedVA: 15000, demandVA: 18750 });
+    // 5,000 ft² × 1.9 VA/ft² as listed in 2020 and 2023
+    ['2020', '2023'].forEach(codeYear => {
+      const [lighting] = calculateCommercialDemand(retail, codeYear).breakdown!;
+      expect(lighting).toMatchObject({ connectedVA: 9500, demandVA: 9500 });
+      expect(lighting.description).toContain('125% included');
+    });
+  });
+
+  it('applies the hotel lighting demand factors', () => {
+    const result = calculateCommercialDemand(createCommercial({
+      occupancy: 'hotel',
+      squareFootage: 60000,
+      receptacleOutlets: 0,
+      signOutlets: 0,
+      kitchenEquipment: [],
+      motors: [],
+      heatingVA: 0,
+      coolingVA: 0
+    }));
+
+    // 102,000 VA: 20,000 at 50%, 80,000 at 40%, 2,000 at 30%
+    expect(result.breakdown).toHaveLength(1);
+    expect(result.breakdown![0].demandVA).toBeCloseTo(42600, 2);
+    expect(result.codeBasis?.map(entry => entry.section)).toEqual(['Table 220.42(A)', 'Table 220.45']);
+  });
+
+  it('never takes kitchen demand below the two largest units', () => {
+    const result = calculateCommercialDemand(createCommercial({
+      kitchenEquipment: [
+        { name: 'Range', va: 10000 },
+        { name: 'Warmer', va: 1000, quantity: 2 }
+      ]
+    }));
+
+    expect(result.breakdown!.find(item => item.section === '220.56')!.demandVA).toBe(11000);
+  });
+
+  it('rejects an unknown occupancy', () => {
+    expect(() => calculateCommercialDemand(createCommercial({ occupancy: 'casino' as any }))).toThrow();
+  });
+});
+
+describe('Occupancy methods through calculateLoadDemand', () => {
+  const panel: PanelDetails = {
+    manufacturer: '', model: '', type: 'Main Panel', phases: 3, voltage: 208, busRating: 400,
+    interruptingRating: 22000, availableSpaces: 42, usedSpaces: 0
+  };
+  const calculate = (loadState: Partial<LoadState>, method: CalculationMethod) => calculateLoadDemand(
+    { generalLoads: [], hvacLoads: [], evseLoads: [], solarBatteryLoads: [], ...loadState },
+    method, 2000, 400, panel, initialActualDemandData, false, 0, 'none', 0, 'branch_sharing', null, null, '2020'
+  );
+
+  it('routes the multifamily and commercial methods to their calculations', () => {
+    expect(calculate({ multifamily: createMultifamily() }, 'multifamily')).toEqual(calculateMultifamilyDemand(createMultifamily(), '2020'));
+    expect(calculate({ commercial: createCommercial() }, 'commercial')).toEqual(calculateCommercialDemand(createCommercial(), '2020'));
+  });
+
+  it('requires the input for the selected method', () => {
+    expect(() => calculate({ commercial: createCommercial() }, 'multifamily')).toThrowError(
+      expect.objectContaining({ message: expect.stringContaining('Multifamily calculation input is required') })
+    );
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { SpatialIndex } from '../../utils/spatialIndex';
+import { HitTestSystem } from '../../components/SLD/engine/HitTestSystem';
+import type { HitTestObject } from '../../components/SLD/engine/HitTestSystem';
+import { SelectionSystem } from '../../components/SLD/engine/SelectionSystem';
+import type { SelectedObject } from '../../components/SLD/engine/SelectionSystem';
+import { WireRoutingEngine } from '../../components/SLD/routing/WireRoutingEngine';
+
+const DIAGRAM_SIZE = 5000;
+
+const measureExecutionTime = <T>(fn: () => T): { result: T; duration: number } => {
+  const start = performance.now();
+  const result = fn();
+  return { result, duration: performance.now() - start };
+};
+
+// Deterministic pseudo-random numbers so failures reproduce
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const generateDiagram = (count: number, seed = 42): HitTestObject[] => {
+  const random = createRandom(seed);
+  // Roughly a 70x70 grid of equipment spread over a 14,000px square sheet
+  return Array.from({ length: count }, (_, i) => ({
+    id: `component-${i}`,
+    type: 'component' as const,
+    bounds: {
+      x: Math.floor(random() * 14000),
+      y: Math.floor(random() * 14000),
+      width: 60 + Math.floor(random() * 60),
+      height: 40 + Math.floor(random() * 40)
+    },
+    zIndex: i % 3,
+    selectable: true,
+    locked: false,
+    visible: true
+  }));
+};
+
+const intersects = (a: HitTestObject['bounds'], b: HitTestObject['bounds']) =>
+  !(a.x + a.width < b.x || b.x + b.width < a.x || a.y + a.height < b.y || b.y + b.height < a.y);
+
+const sortedIds = (objects: Array<{ id: string }>) => objects.map(object => object.id).sort();
+
+describe('Spatial Index Performance', () => {
+  describe('Correctness against a linear scan', () => {
+    it('returns the same objects as a brute-force bounds search after moves and removals', () => {
+      const objects = generateDiagram(2000);
+      const index = new SpatialIndex<HitTestObject>();
+      objects.forEach(object => index.insert(object.id, object.bounds, object));
+
+      // Move every third object, remove every seventh
+      const live = new Map(objects.map(object => [object.id, object]));
+      objects.forEach((object, i) => {
+        if (i % 7 === 0) {
+          index.remove(object.id);
+          live.delete(object.id);
+        } else if (i % 3 === 0) {
+          const moved = { ...object, bounds: { ...object.bounds, x: object.bounds.x + (i % 2 ? 5 : 3000), y: object.bounds.y - 40 } };
+          index.update(object.id, moved.bounds, moved);
+          live.set(object.id, moved);
+        }
+      });
+
+      const random = createRandom(7);
+      for (let query = 0; query < 50; query++) {
+        const bounds = { x: random() * 14000, y: random() * 14000, width: random() * 2000, height: random() * 2000 };
+        const expected = Array.from(live.values()).filter(object => intersects(object.bounds, bounds));
+        expect(sortedIds(index.search(bounds))).toEqual(sortedIds(expected));
+      }
+      expect(index.size).toBe(live.size);
+    });
+
+    it('finds the nearest objects in distance order', () => {
+      const objects = generateDiagram(1000);
+      const index = new SpatialIndex<HitTestObject>();
+      index.load(objects.map(object => ({ id: object.id, bounds: object.bounds, item: object })));
+
+      const point = { x: 7000, y: 7000 };
+      const distance = (object: HitTestObject) => {
+        const dx = Math.max(object.bounds.x - point.x, 0, point.x - (object.bounds.x + object.bounds.width));
+        const dy = Math.max(object.bounds.y - point.y, 0, point.y - (object.bounds.y + object.bounds.height));
+        return Math.sqrt(dx * dx + dy * dy);
+      };
+      const expected = [...objects].sort((a, b) => distance(a) - distance(b)).slice(0, 5).map(distance);
+
+      const nearest = index.nearest(point, { count: 5 });
+      expect(nearest.map(result => result.distance)).toEqual(expected);
+      expect(index.nearest(point, { maxDistance: expected[0] - 1 })).toEqual([]);
+    });
+  });
+
+  describe('SLD systems on a 5,000 element diagram', () => {
+    it('hit tests and rectangle-selects through the index', () => {
+      const objects = generateDiagram(DIAGRAM_SIZE);
+      const hitTest = new HitTestSystem();
+
+      const { duration: loadTime } = measureExecutionTime(() => objects.forEach(object => hitTest.addObject(object)));
+
+      const random = createRandom(3);
+      const points = Array.from({ length: 1000 }, () => ({ x: random() * 14000, y: random() * 14000 }));
+      const { result: hits, duration: hitTime } = measureExecutionTime(() => points.map(point => hitTest.hitTestFirst(point)));
+
+      const target = objects[1234];
+      const center = { x: target.bounds.x + target.bounds.width / 2, y: target.bounds.y + target.bounds.height / 2 };
+      expect(hitTest.hitTest(center).map(result => result.object.id)).toContain(target.id);
+
+      const marquee = { x: 5000, y: 5000, width: 2000, height: 1500 };
+      const { result: selected, duration: selectTime } = measureExecutionTime(() => hitTest.rectangleSelect(marquee));
+      expect(sortedIds(selected.map(result => result.object))).toEqual(
+        sortedIds(objects.filter(object => intersects(object.bounds, marquee)))
+      );
+
+      expect(loadTime).toBeLessThan(500);
+      expect(hitTime).toBeLessThan(100);
+      expect(selectTime).toBeLessThan(20);
+      expect(hitTest.getStats().indexHeight).toBeGreaterThan(1);
+
+      console.log('Spatial Index Benchmarks (5,000 elements):');
+      console.log(`insert: ${loadTime.toFixed(2)}ms, 1000 hit tests: ${hitTime.toFixed(2)}ms (${hits.filter(Boolean).length} hits), marquee: ${selectTime.toFixed(2)}ms`);
+    });
+
+    it('keeps the index current while dragging a large selection', () => {
+      const objects: SelectedObject[] = generateDiagram(DIAGRAM_SIZE).map(object => ({
+        id: object.id,
+        type: 'component',
+        bounds: object.bounds,
+        rotation: 0,
+        locked: false,
+        data: {}
+      }));
+      const index = new SpatialIndex<SelectedObject>();
+      index.load(objects.map(object => ({ id: object.id, bounds: object.bounds, item: object })));
+
+      const selection = new SelectionSystem();
+      selection.setSpatialIndex(index);
+      const selectedIds = selection.selectInRectangle({ x: 0, y: 0, width: 7000, height: 7000 });
+      expect(selectedIds.length).toBeGreaterThan(DIAGRAM_SIZE / 5);
+
+      // Ten drag steps, each moving every selected object
+      const { duration } = measureExecutionTime(() => {
+        selection.startDrag({ x: 0, y: 0 });
+        for (let step = 1; step <= 10; step++) {
+          selection.updateDrag({ x: step * 10, y: step * 5 });
+        }
+        selection.endDrag();
+      });
+
+      const moved = selection.getSelectedObjects()[0];
+      expect(index.get(moved.id)?.bounds).toEqual(moved.bounds);
+      expect(sortedIds(index.search(moved.bounds))).toContain(moved.id);
+      expect(duration).toBeLessThan(1000);
+
+      console.log(`Dragging ${selectedIds.length} objects x10: ${duration.toFixed(2)}ms`);
+    });
+
+    it('limits wire routing obstacle lookups to the routing area', () => {
+      const engine = new WireRoutingEngine();
+      generateDiagram(DIAGRAM_SIZE).forEach(object => {
+        engine.addObstacle({ id: object.id, bounds: object.bounds, type: 'component', priority: 1 });
+      });
+
+      const { result: nearby, duration } = measureExecutionTime(() => engine.getObstaclesInBounds({ x: 1000, y: 1000, width: 500, height: 500 }));
+      expect(nearby.length).toBeLessThan(DIAGRAM_SIZE / 20);
+      expect(duration).toBeLessThan(10);
+
+      const nearest = engine.findNearestObstacle({ x: 1200, y: 1200 });
+      expect(nearest).not.toBeNull();
+      expect(nearest!.distance).toBeGreaterThanOrEqual(0);
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, it, expect } from 'vitest';
+import { DXFImportService } from '../../services/dxfImportService';
+import { MultiFormatExportService } from '../../services/multiFormatExportService';
+import type { ExportData } from '../../services/multiFormatExportService';
+import { LayerSystem } from '../../components/SLD/engine/LayerSystem';
+
+const dxf = (...pairs: (string | number)[]) => pairs.map(String).join('\r\n') + '\r\n';
+
+const line = (layer: string, x1: number, y1: number, x2: number, y2: number) =>
+  [0, 'LINE', 8, layer, 10, x1, 20, y1, 11, x2, 21, y2];
+
+const block = (name: string, ...entities: (string | number)[][]) =>
+  [0, 'BLOCK', 8, '0', 2, name, 70, 0, 10, 0, 20, 0, ...entities.flat(), 0, 'ENDBLK', 8, '0'];
+
+const insert = (layer: string, name: string, x: number, y: number, attributes: Record<string, string> = {}) => {
+  const attribs = Object.entries(attributes).flatMap(([tag, value]) => [0, 'ATTRIB', 8, layer, 10, x, 20, y - 5, 40, 2, 1, value, 2, tag, 70, 0]);
+  return [
+    0, 'INSERT', 8, layer, ...(attribs.length ? [66, 1] : []), 2, name, 10, x, 20, y,
+    ...attribs, ...(attribs.length ? [0, 'SEQEND', 8, layer] : [])
+  ];
+};
+
+// A hand-drawn R12 one-line: main panel feeding a PV disconnect over three LINE segments
+const createR12Drawing = () => dxf(
+  0, 'SECTION', 2, 'HEADER', 9, '$ACADVER', 1, 'AC1009', 0, 'ENDSEC',
+  0, 'SECTION', 2, 'TABLES',
+  0, 'TABLE', 2, 'LAYER', 70, 2,
+  0, 'LAYER', 2, 'E-POWER', 70, 0, 62, 1, 6, 'CONTINUOUS',
+  0, 'LAYER', 2, 'E-NOTES', 70, 4, 62, -3, 6, 'CONTINUOUS',
+  0, 'ENDTAB', 0, 'ENDSEC',
+  0, 'SECTION', 2, 'BLOCKS',
+  ...block('MSP', line('0', 0, 0, 20, 0), line('0', 20, 0, 20, 30), line('0', 20, 30, 0, 30), line('0', 0, 30, 0, 0)),
+  ...block('PV-DISC', line('0', 0, 0, 10, 10), line('0', 0, 10, 10, 0)),
+  ...block('NORTH_ARROW', [0, 'CIRCLE', 8, '0', 10, 0, 20, 0, 40, 5]),
+  0, 'ENDSEC',
+  0, 'SECTION', 2, 'ENTITIES',
+  ...insert('E-POWER', 'MSP', 0, 0, { NAME: 'MSP-1', RATING: '225', VOLTAGE: '120/240V' }),
+  ...insert('E-POWER', 'PV-DISC', 100, 0),
+  ...line('E-POWER', 20, 15, 60, 15),
+  ...line('E-POWER', 60, 5, 100, 5),
+  ...line('E-POWER', 60, 15, 60, 5),
+  0, 'TEXT', 8, 'E-POWER', 10, 35, 20, 17, 40, 2, 1, '#10 THWN',
+  0, 'MTEXT', 8, 'E-NOTES', 10, 0, 20, 60, 40, 2.8, 1, '{\\fArial|b1;NOTE:}\\PVERIFY IN FIELD',
+  ...insert('E-NOTES', 'NORTH_ARROW', 150, 60),
+  0, 'CIRCLE', 8, 'E-NOTES', 10, 150, 20, 40, 40, 4,
+  0, 'ELLIPSE', 8, 'E-NOTES', 10, 120, 20, 50,
+  0, 'ENDSEC',
+  0, 'EOF'
+);
+
+const createExportData = (): ExportData => ({
+  components: [
+    {
+      id: 'msp',
+      type: 'main_panel',
+      name: 'Main Panel',
+      position: { x: 100, y: 100 },
+      size: { width: 60, height: 80 },
+      properties: { rating: 200, voltage: '120/240V' },
+      symbol: 'panel',
+      connections: []
+    },
+    {
+      id: 'sub',
+      type: 'sub_panel',
+      name: 'Garage Subpanel',
+      position: { x: 300, y: 100 },
+      size: { width: 40, height: 60 },
+      properties: { rating: 100 },
+      symbol: 'panel',
+      connections: []
+    }
+  ],
+  wires: [
+    {
+      id: 'feeder',
+      startComponent: 'msp',
+      endComponent: 'sub',
+      path: [{ x: 160, y: 140 }, { x: 230, y: 140 }, { x: 230, y: 130 }, { x: 300, y: 130 }],
+      style: { color: '#dc2626', width: 2, style: 'solid' },
+      label: '3#2 CU, 1#6 GND'
+    }
+  ],
+  measurements: [
+    {
+      id: 'm1',
+      type: 'linear',
+      points: [{ x: 100, y: 300 }, { x: 300, y: 300 }],
+      value: 40,
+      displayValue: "40'-0\"",
+      style: { color: '#2563eb', lineWidth: 1, textSize: 10 }
+    }
+  ],
+  annotations: [],
+  projectInfo: { projectName: 'Smith Residence' },
+  calculations: { totalLoad: 32000, serviceSize: 200, method: 'optional' },
+  schedules: [],
+  canvasSize: { width: 800, height: 600 },
+  viewBox: { x: 0, y: 0, width: 800, height: 600 },
+  gridSettings: { size: 20, visible: false, color: '#e5e7eb' }
+});
+
+const exportDXF = async (data: ExportData): Promise<string> => {
+  const result = await MultiFormatExportService.exportSLD(data, {
+    format: 'dwg',
+    scale: 'fit',
+    paperSize: 'letter',
+    orientation: 'landscape',
+    quality: 'standard',
+    includeElements: {
+      titleBlock: false,
+      grid: false,
+      measurements: true,
+      annotations: true,
+      wireRouting: true,
+      schedules: false,
+      legends: false
+    }
+  });
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(result.data as Blob);
+  });
+};
+
+describe('DXFImportService', () => {
+  it('maps block inserts to template-backed components and chains wire lines into a connection', () => {
+    const { diagram, warnings } = DXFImportService.importDiagram(createR12Drawing(), {
+      fitToCanvas: false,
+      canvasSize: { width: 400, height: 300 }
+    });
+
+    const [panel, disconnect] = diagram.components;
+    expect(panel).toMatchObject({
+      type: 'main_panel',
+      name: 'MSP-1',
+      position: { x: 0, y: 270 },
+      size: { width: 20, height: 30 },
+      rating: 225,
+      voltage: '120/240V'
+    });
+    expect(panel.specifications).toMatchObject({ rating: 225, wireLandingSize: '4/0 AWG max' });
+    expect(disconnect.type).toBe('ac_disconnect');
+    expect(disconnect.name).toBe('AC Disconnect');
+
+    expect(diagram.connections).toHaveLength(1);
+    const [wire] = diagram.connections;
+    expect(wire.from).toBe(panel.id);
+    expect(wire.to).toBe(disconnect.id);
+    expect(wire.type).toBe('ac');
+    expect(wire.label).toBe('#10 THWN');
+    expect(wire.metadata?.route).toEqual([
+      { x: 20, y: 285 }, { x: 60, y: 285 }, { x: 60, y: 295 }, { x: 100, y: 295 }
+    ]);
+
+    expect(diagram.labels?.map(label => label.text)).toEqual(['NOTE:\nVERIFY IN FIELD']);
+    expect(diagram.annotations?.map(annotation => annotation.kind)).toEqual(['block', 'circle', 'other']);
+    expect(diagram.annotations?.find(annotation => annotation.kind === 'other')?.source).toBe('ELLIPSE');
+    expect(warnings).toEqual(['Block NORTH_ARROW has no component mapping and was kept as an annotation']);
+  });
+
+  it('applies custom block mappings first and fits the drawing inside the canvas', () => {
+    const { diagram } = DXFImportService.importDiagram(createR12Drawing(), {
+      blockMappings: [{ pattern: /^PV-DISC$/, componentType: 'dc_disconnect', templateId: 'dc_disconnect_template' }],
+      canvasSize: { width: 1000, height: 500 },
+      margin: 50
+    });
+
+    expect(diagram.components.map(component => component.type)).toEqual(['main_panel', 'dc_disconnect']);
+    expect(diagram.connections).toHaveLength(1);
+
+    const points = [
+      ...diagram.components.flatMap(component => [
+        component.position,
+        { x: component.position.x + component.size!.width, y: component.position.y + component.size!.height }
+      ]),
+      ...diagram.annotations!.flatMap(annotation => annotation.points)
+    ];
+    points.forEach(point => {
+      expect(point.x).toBeGreaterThanOrEqual(50 - 1e-6);
+      expect(point.x).toBeLessThanOrEqual(950 + 1e-6);
+      expect(point.y).toBeGreaterThanOrEqual(50 - 1e-6);
+      expect(point.y).toBeLessThanOrEqual(450 + 1e-6);
+    });
+  });
+
+  it('round-trips components and wires exported by the DXF writer', async () => {
+    const content = await exportDXF(createExportData());
+    const { diagram, layers } = DXFImportService.importDiagram(content, {
+      fitToCanvas: false,
+      canvasSize: { width: 800, height: 600 }
+    });
+
+    const msp = diagram.components.find(component => component.id === 'msp')!;
+    const sub = diagram.components.find(component => component.id === 'sub')!;
+    expect(msp).toMatchObject({ type: 'main_panel', name: 'Main Panel', position: { x: 100, y: 100 }, size: { width: 60, height: 80 } });
+    expect(msp.properties).toMatchObject({ rating: 200, voltage: '120/240V' });
+    expect(sub.type).toBe('sub_panel');
+    expect(sub.position.x).toBeCloseTo(300, 3);
+    expect(sub.size?.width).toBeCloseTo(40, 3);
+    expect(sub.size?.height).toBeCloseTo(60, 3);
+
+    const feeder = diagram.connections.find(connection => connection.from === 'msp' && connection.to === 'sub')!;
+    expect(feeder.label).toBe('3#2 CU, 1#6 GND');
+    expect(feeder.metadata?.route).toEqual([{ x: 160, y: 140 }, { x: 230, y: 140 }, { x: 230, y: 130 }, { x: 300, y: 130 }]);
+
+    expect(diagram.annotations?.find(annotation => annotation.kind === 'dimension')?.text).toBe("40'-0\"");
+    expect(layers.find(layer => layer.name === 'POWER_MAIN')?.objects).toEqual(expect.arrayContaining([
+      { id: 'msp', type: 'component' },
+      { id: feeder.id, type: 'connection' }
+    ]));
+  });
+
+  it('creates canvas layers for imported DXF layers', () => {
+    const result = DXFImportService.importDiagram(createR12Drawing());
+    const layerSystem = new LayerSystem();
+
+    const placed = DXFImportService.applyToLayerSystem(layerSystem, result);
+
+    expect(placed).toBe(result.layers.reduce((total, layer) => total + layer.objects.length, 0));
+    const power = layerSystem.getLayer('dxf_e_power')!;
+    expect(power.name).toBe('E-POWER');
+    expect(power.color).toBe('#ff0000');
+    expect(layerSystem.getObjectsInLayer('dxf_e_power').map(object => object.type).sort())
+      .toEqual(['component', 'component', 'connection']);
+
+    const notes = layerSystem.getLayer('dxf_e_notes')!;
+    expect(notes.visible).toBe(false);
+    expect(notes.locked).toBe(true);
+    expect(layerSystem.getObjectsInLayer('dxf_e_notes')).toHaveLength(4);
+  });
+
+  it('reports unmapped blocks and drops excluded layers with the wires they strand', () => {
+    const result = DXFImportService.importDiagram(createR12Drawing());
+    expect(result.unmappedBlocks).toEqual(['NORTH_ARROW']);
+
+    const withoutNotes = DXFImportService.withoutLayers(result, ['E-NOTES']);
+    expect(withoutNotes.diagram.labels).toEqual([]);
+    expect(withoutNotes.diagram.annotations).toEqual([]);
+    expect(withoutNotes.diagram.components).toHaveLength(2);
+    expect(withoutNotes.diagram.connections).toHaveLength(1);
+    expect(withoutNotes.layers.map(layer => layer.name)).not.toContain('E-NOTES');
+
+    const [panel] = result.diagram.components;
+    const powerLayer = result.layers.find(layer => layer.name === 'E-POWER')!;
+    const withoutPanel = DXFImportService.withoutLayers(
+      { ...result, layers: [...result.layers, { ...powerLayer, name: 'E-PANEL', objects: [{ id: panel.id, type: 'component' }] }] },
+      ['E-PANEL']
+    );
+    expect(withoutPanel.diagram.components.map(component => component.id)).not.toContain(panel.id);
+    expect(withoutPanel.diagram.connections).toEqual([]);
+    expect(withoutPanel.layers.find(layer => layer.name === 'E-POWER')!.objects).toHaveLength(1);
+  });
+
+  it('rejects files that are not ASCII DXF', () => {
+    expect(() => DXFImportService.importDiagram('not a drawing')).toThrow();
+    expect(() => DXFImportService.importDiagram(dxf(0, 'SECTION', 2, 'HEADER', 0, 'ENDSEC', 0, 'EOF'))).toThrow(/ENTITIES/);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { InterconnectionService, INTERCONNECTION_LABELS } from '../../services/interconnectionService';
+import type { InterconnectionInput } from '../../services/interconnectionService';
+import type { SolarBatteryLoad } from '../../types';
+
+const createSource = (
+  name: string,
+  inverterAmps: number,
+  type: SolarBatteryLoad['type'] = 'solar',
+  location: SolarBatteryLoad['location'] = 'backfeed'
+): SolarBatteryLoad => ({
+  id: Math.round(inverterAmps), name, kw: inverterAmps * 0.24, inverterAmps, volts: 240, breaker: 0, type,
+  location, amps: 0, va: 0, total: 0, quantity: 1, circuit: ''
+});
+
+// 32 A inverter and 24 A battery: 40 A + 30 A at 125%
+const createInput = (overrides: Partial<InterconnectionInput> = {}): InterconnectionInput => ({
+  sources: [createSource('Solar PV', 32), createSource('Powerwall', 24, 'battery')],
+  mainBreaker: 200,
+  busRating: 200,
+  ...overrides
+});
+
+const optionById = (input: InterconnectionInput, codeYear?: string) => {
+  const evaluation = InterconnectionService.evaluate(input, codeYear);
+  return { evaluation, option: (id: string) => evaluation.options.find(option => option.id === id)! };
+};
+
+describe('InterconnectionService', () => {
+  it('compares every 705.12 option side by side with breaker sizes', () => {
+    const { evaluation, option } = optionById(createInput({ loadBreakerTotal: 120 }));
+
+    expect(evaluation.sourceAmps).toBe(70);
+    expect(evaluation.batteryAmps).toBe(30);
+    expect(evaluation.sources.map(source => source.requiredBreakerAmps)).toEqual([40, 30]);
+
+    expect(option('load_side_100_percent')).toMatchObject({ evaluated: true, compliant: false, limitAmps: 0 });
+    expect(option('load_side_120_percent')).toMatchObject({ compliant: false, limitAmps: 40, inUse: true, section: '705.12(B)(3)(2)' });
+    expect(option('load_side_120_percent').labels).toContain(INTERCONNECTION_LABELS.doNotRelocate);
+    expect(option('load_side_sum_of_breakers')).toMatchObject({ compliant: true, limitAmps: 80, sourceAmps: 70 });
+    expect(option('load_side_sum_of_breakers').labels).toContain(INTERCONNECTION_LABELS.sumOfBreakers);
+    expect(option('load_side_center_fed').evaluated).toBe(false);
+    expect(option('feeder_tap').evaluated).toBe(false);
+    // Supply side checks the continuous output against the service conductors
+    expect(option('supply_side')).toMatchObject({ compliant: true, sourceAmps: 56, requiredBreakerAmps: 70, section: '705.11' });
+
+    expect(evaluation.compliantOptions).toEqual(['supply_side', 'load_side_sum_of_breakers']);
+    expect(evaluation.configurationCompliant).toBe(false);
+  });
+
+  it('uses the power control system setting in place of the source current', () => {
+    const unconfigured = optionById(createInput()).option('power_control_system');
+    expect(unconfigured.evaluated).toBe(false);
+    expect(unconfigured.reason).toContain('40 A or less');
+
+    const { evaluation, option } = optionById(createInput({ pcsControlledCurrent: 40 }));
+    expect(evaluation.pcsLimited).toBe(true);
+    expect(evaluation.sourceAmps).toBe(40);
+    expect(option('power_control_system')).toMatchObject({ compliant: true, section: '705.13' });
+    expect(option('power_control_system').labels).toContain(INTERCONNECTION_LABELS.powerControlSystem(40));
+    expect(option('load_side_120_percent').compliant).toBe(true);
+    expect(evaluation.configurationCompliant).toBe(true);
+  });
+
+  it('applies the center-fed rule instead of opposite-end placement', () => {
+    const { evaluation, option } = optionById(createInput({ sources: [createSource('Solar PV', 32)], centerFed: true }));
+
+    expect(option('load_side_120_percent').evaluated).toBe(false);
+    expect(option('load_side_center_fed')).toMatchObject({ compliant: true, inUse: true, limitAmps: 40 });
+    expect(evaluation.configurationCompliant).toBe(true);
+  });
+
+  it('checks feeder connections against the feeder ampacity', () => {
+    const { option } = optionById(createInput({ feederAmpacity: 150, feederOCPD: 100 }));
+
+    expect(option('feeder_tap')).toMatchObject({ evaluated: true, compliant: false, limitAmps: 50, sourceAmps: 70 });
+  });
+
+  it('follows the edition rule pack', () => {
+    const { evaluation, option } = optionById(createInput(), '2017');
+
+    expect(evaluation.codeYear).toBe('2017');
+    expect(option('supply_side').section).toBe('705.12(A)');
+    expect(option('load_side_120_percent').section).toBe('705.12(B)(2)(3)(b)');
+    expect(evaluation.options.some(candidate => candidate.id === 'power_control_system')).toBe(false);
+  });
+});
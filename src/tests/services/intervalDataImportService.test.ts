@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { IntervalDataImportService } from '../../services/intervalDataImportService';
+import { calculateLoadDemand } from '../../services/necCalculations';
+import { LOAD_TEMPLATES } from '../../constants';
+import type { LoadState, PanelDetails } from '../../types';
+
+// 2024-07-01 00:00 UTC
+const JULY_1 = 1719792000;
+
+const greenButtonXML = (readings: { start: number; wh: number }[], tzOffset?: number) => `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:espi="http://naesb.org/espi">
+  ${tzOffset === undefined ? '' : `<entry><content><espi:LocalTimeParameters>
+    <espi:tzOffset>${tzOffset}</espi:tzOffset>
+  </espi:LocalTimeParameters></content></entry>`}
+  <entry><content><espi:ReadingType>
+    <espi:accumulationBehaviour>4</espi:accumulationBehaviour>
+    <espi:powerOfTenMultiplier>0</espi:powerOfTenMultiplier>
+    <espi:uom>72</espi:uom>
+  </espi:ReadingType></content></entry>
+  <entry><content><espi:IntervalBlock>
+    <espi:interval><espi:duration>86400</espi:duration><espi:start>${JULY_1}</espi:start></espi:interval>
+    ${readings.map(reading => `<espi:IntervalReading>
+      <espi:timePeriod><espi:duration>900</espi:duration><espi:start>${reading.start}</espi:start></espi:timePeriod>
+      <espi:value>${reading.wh}</espi:value>
+    </espi:IntervalReading>`).join('\n')}
+  </espi:IntervalBlock></content></entry>
+</feed>`;
+
+// Hourly demand for a year from October, with a 9 kW August peak
+const hourlyYearCSV = (): string => {
+  const rows = ['Account,12345', '', 'Interval Start,Demand (kW)'];
+  const start = Date.UTC(2023, 9, 1);
+  for (let hour = 0; hour < 365 * 24; hour++) {
+    const stamp = new Date(start + hour * 3600 * 1000);
+    const month = stamp.getUTCMonth() + 1;
+    const kW = month === 8 && stamp.getUTCDate() === 15 && stamp.getUTCHours() === 17 ? 9 : 1 + (stamp.getUTCHours() % 3);
+    rows.push(`${stamp.toISOString().slice(0, 16).replace('T', ' ')},${kW}`);
+  }
+  return rows.join('\n');
+};
+
+describe('IntervalDataImportService', () => {
+  it('reads Green Button XML energy intervals as average kW and flags gaps', () => {
+    const { format, readings } = IntervalDataImportService.parse(greenButtonXML([
+      { start: JULY_1, wh: 500 },
+      { start: JULY_1 + 900, wh: 1000 },
+      { start: JULY_1 + 1800, wh: 2500 },
+      { start: JULY_1 + 3600, wh: 750 }
+    ]));
+
+    expect(format).toBe('green_button_xml');
+    expect(readings.map(reading => reading.kW)).toEqual([2, 4, 10, 3]);
+
+    const analysis = IntervalDataImportService.analyze(readings, '2023');
+    expect(analysis).toMatchObject({ peakKW: 10, peakTimestamp: '2024-07-01 00:30', demandKW: 12.5, averageKW: 4.75 });
+    expect(analysis.quality.intervalMinutes).toBe(15);
+    expect(analysis.quality.gaps).toEqual([{ start: '2024-07-01 00:45', end: '2024-07-01 01:00', hours: 0.25 }]);
+    expect(analysis.quality.coversCoolingSeason).toBe(true);
+    expect(analysis.quality.coversHeatingSeason).toBe(false);
+    expect(analysis.quality.warnings).toEqual([
+      expect.stringContaining('needs 12 months of demand data or at least 30 days'),
+      '1 data gap totalling 0.3 hours (80% coverage)',
+      expect.stringContaining('heating season')
+    ]);
+  });
+
+  it('shifts Green Button XML to meter local time and analyzes long one-minute exports', () => {
+    // Mountain standard time, UTC-7
+    const { readings } = IntervalDataImportService.parse(greenButtonXML([{ start: JULY_1, wh: 500 }], -25200));
+    expect(readings[0].start).toBe(Date.UTC(2024, 5, 30, 17, 0));
+
+    // 100 days of one-minute readings is more than a spread argument list can hold
+    const minutes = 100 * 24 * 60;
+    const oneMinute = Array.from({ length: minutes }, (_, index) => ({
+      start: Date.UTC(2024, 0, 1) + index * 60000,
+      durationMinutes: 1,
+      kW: index === minutes - 1 ? 12 : 2
+    }));
+    const analysis = IntervalDataImportService.analyze(oneMinute);
+    expect(analysis.peakKW).toBe(12);
+    expect(analysis.quality.days).toBe(100);
+  });
+
+  it('reads Green Button CSV downloads with inclusive end times', () => {
+    const csv = [
+      'Name,JANE DOE',
+      'Address,"1 MAIN ST, SPRINGFIELD"',
+      '',
+      'TYPE,DATE,START TIME,END TIME,USAGE (kWh),COST,NOTES',
+      'Electric usage,2024-01-15,00:00,00:14,0.50,$0.10,',
+      'Electric usage,2024-01-15,00:15,00:29,1.75,$0.35,',
+      'Electric usage,2024-01-15,00:30,00:44,0.25,$0.05,'
+    ].join('\n');
+
+    const { format, readings } = IntervalDataImportService.parse(csv);
+    expect(format).toBe('green_button_csv');
+    expect(readings).toEqual([
+      { start: Date.UTC(2024, 0, 15, 0, 0), durationMinutes: 15, kW: 2 },
+      { start: Date.UTC(2024, 0, 15, 0, 15), durationMinutes: 15, kW: 7 },
+      { start: Date.UTC(2024, 0, 15, 0, 30), durationMinutes: 15, kW: 1 }
+    ]);
+  });
+
+  it('finds the 12-month peak in an interval CSV and fills the existing-load data', () => {
+    const { analysis, actualDemandData } = IntervalDataImportService.importFile(hourlyYearCSV(), 'meter.csv');
+
+    expect(analysis.peakKW).toBe(9);
+    expect(analysis.peakTimestamp).toBe('2024-08-15 17:00');
+    expect(analysis.demandKW).toBe(11.25);
+    expect(analysis.quality).toMatchObject({ days: 365, coveragePercent: 100, gaps: [], coversCoolingSeason: true, coversHeatingSeason: true });
+    expect(analysis.quality.monthsCovered).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+    expect(analysis.quality.warnings).toEqual([expect.stringContaining('60-minute intervals understate the peak')]);
+    expect(analysis.profile).toHaveLength(365);
+
+    expect(actualDemandData).toMatchObject({
+      enabled: true,
+      peakDemand: 9,
+      dataSource: 'Interval CSV: meter.csv',
+      measurementPeriod: '2023-10-01 to 2024-09-29 (365 days, 60-min intervals)',
+      month1: 3,
+      month11: 9
+    });
+  });
+
+  it('feeds the recorded peak into the 220.87 calculation at 125%', () => {
+    const { actualDemandData } = IntervalDataImportService.importFile(hourlyYearCSV());
+    const loads: LoadState = {
+      generalLoads: LOAD_TEMPLATES.general.map(load => ({ ...load, quantity: 0, total: 0 })),
+      hvacLoads: LOAD_TEMPLATES.hvac.map(load => ({ ...load, quantity: 0, total: 0 })),
+      evseLoads: LOAD_TEMPLATES.evse.map(load => ({ ...load, quantity: 0, total: 0 })),
+      solarBatteryLoads: LOAD_TEMPLATES.solar.map(load => ({ ...load }))
+    };
+    const panel: PanelDetails = {
+      manufacturer: '', model: '', type: 'Main Panel', phases: 1, voltage: 240, busRating: 200,
+      interruptingRating: 10000, availableSpaces: 40, usedSpaces: 0
+    };
+
+    const result = calculateLoadDemand(loads, 'existing', 2000, 200, panel, actualDemandData);
+    expect(result.generalDemand).toBe(11250);
+  });
+
+  it('rejects files without interval readings', () => {
+    expect(() => IntervalDataImportService.parse('')).toThrowError(expect.objectContaining({ userMessage: 'The selected file is empty.' }));
+    expect(() => IntervalDataImportService.parse('name,address\nJane,1 Main St')).toThrowError(
+      expect.objectContaining({ userMessage: expect.stringContaining('date and usage columns') })
+    );
+  });
+});
@@ -0,0 +1,396 @@
+import { describe, it, expect } from 'vitest';
+import { LoadFlowAnalysisService } from '../../services/loadFlowAnalysisService';
+import type {
+  ElectricalNetwork,
+  NetworkBus,
+  NetworkBranch,
+  NetworkLoad,
+  NetworkGenerator,
+  NetworkTransformer
+} from '../../services/loadFlowAnalysisService';
+import type { SLDDiagram } from '../../types/sld';
+
+const createBus = (id: string, type: NetworkBus['type']): NetworkBus => ({
+  id,
+  name: id,
+  type,
+  nominalVoltage: 0.48,
+  voltage: { real: 1, imaginary: 0 },
+  angle: 0,
+  coordinates: { x: 0, y: 0 },
+  connectedElements: []
+});
+
+const createBranch = (id: string, fromBus: string, toBus: string, resistance: number, reactance: number): NetworkBranch => ({
+  id,
+  name: id,
+  type: 'cable',
+  fromBus,
+  toBus,
+  resistance,
+  reactance,
+  susceptance: 0,
+  ratingMVA: 1,
+  impedance: { real: resistance, imaginary: reactance },
+  admittance: { real: 0, imaginary: 0 }
+});
+
+const createLoad = (id: string, busId: string, activePower: number, reactivePower: number): NetworkLoad => ({
+  id,
+  name: id,
+  busId,
+  type: 'constant_power',
+  activePower,
+  reactivePower,
+  voltage: 0.48,
+  powerFactor: activePower / Math.hypot(activePower, reactivePower),
+  loadModel: {
+    constantPowerPercent: 100,
+    constantCurrentPercent: 0,
+    constantImpedancePercent: 0,
+    voltageExponent: 0,
+    frequencyExponent: 0
+  }
+});
+
+const createGenerator = (id: string, busId: string, powerOutput: number, voltageSetpoint: number): NetworkGenerator => ({
+  id,
+  name: id,
+  busId,
+  type: 'inverter',
+  ratedPower: powerOutput * 1.2,
+  ratedVoltage: 0.48,
+  powerOutput,
+  voltageSetpoint,
+  reactance: { xd: 0, xq: 0, xdp: 0, xqp: 0, xdpp: 0.2, xqpp: 0.2, xl: 0 }
+});
+
+const createNetwork = (overrides: Partial<ElectricalNetwork>): ElectricalNetwork => ({
+  id: 'test-network',
+  name: 'Test Network',
+  description: '',
+  buses: [],
+  branches: [],
+  loads: [],
+  generators: [],
+  transformers: [],
+  topology: {
+    islands: [],
+    contingencies: [],
+    criticalPaths: [],
+    redundancy: { overallRedundancy: 0, criticalElements: [], singlePointsOfFailure: [], recommendations: [] }
+  },
+  baseValues: { baseMVA: 1, baseVoltage: 0.48, baseFrequency: 60, baseImpedance: 0.2304 },
+  analysisSettings: {
+    convergenceTolerance: 1e-8,
+    maxIterations: 20,
+    accelerationFactor: 1,
+    flatStart: true,
+    includeHarmonics: false,
+    harmonicOrders: [],
+    shortCircuitTypes: ['three_phase']
+  },
+  ...overrides
+});
+
+describe('LoadFlowAnalysisService.performLoadFlow', () => {
+  it('solves a two-bus feeder and balances generation, load and losses', async () => {
+    const network = createNetwork({
+      buses: [createBus('service', 'slack'), createBus('panel', 'pq')],
+      branches: [createBranch('feeder', 'service', 'panel', 0.02, 0.04)],
+      loads: [createLoad('panel-load', 'panel', 0.4, 0.2)]
+    });
+
+    const result = await LoadFlowAnalysisService.performLoadFlow(network);
+    const panel = result.busResults.find(bus => bus.busId === 'panel')!;
+    const service = result.busResults.find(bus => bus.busId === 'service')!;
+    const feeder = result.branchResults[0];
+
+    expect(result.converged).toBe(true);
+    expect(result.iterations).toBeGreaterThan(0);
+    expect(panel.voltageMagnitude).toBeLessThan(1);
+    expect(panel.voltageMagnitude).toBeGreaterThan(0.95);
+    expect(panel.activePowerLoad).toBeCloseTo(0.4, 6);
+
+    // I²R losses in the feeder should match the slack surplus
+    const current = Math.hypot(feeder.current.real, feeder.current.imaginary);
+    expect(feeder.losses.real).toBeCloseTo(current * current * 0.02, 6);
+    expect(service.activePowerGeneration).toBeCloseTo(0.4 + feeder.losses.real, 6);
+    expect(Math.abs(result.powerFlow.powerBalance.real)).toBeLessThan(1e-6);
+    expect(result.powerFlow.swingBusPower.real).toBeCloseTo(service.activePowerGeneration, 6);
+  });
+
+  it('holds PV bus voltage at the generator setpoint', async () => {
+    const network = createNetwork({
+      buses: [createBus('utility', 'slack'), createBus('pv-bus', 'pv'), createBus('load-bus', 'pq')],
+      branches: [
+        createBranch('line-1', 'utility', 'load-bus', 0.01, 0.05),
+        createBranch('line-2', 'pv-bus', 'load-bus', 0.01, 0.05)
+      ],
+      loads: [createLoad('load', 'load-bus', 0.6, 0.3)],
+      generators: [createGenerator('inverter', 'pv-bus', 0.3, 1.02)]
+    });
+
+    const result = await LoadFlowAnalysisService.performLoadFlow(network);
+    const pvBus = result.busResults.find(bus => bus.busId === 'pv-bus')!;
+
+    expect(result.converged).toBe(true);
+    expect(pvBus.voltageMagnitude).toBeCloseTo(1.02, 8);
+    expect(pvBus.activePowerGeneration).toBeCloseTo(0.3, 8);
+    expect(pvBus.reactivePowerGeneration).toBeGreaterThan(0);
+  });
+
+  it('applies transformer tap ratios', async () => {
+    const buildNetwork = (tapPosition: number) => createNetwork({
+      buses: [createBus('primary', 'slack'), createBus('secondary', 'pq')],
+      loads: [createLoad('load', 'secondary', 0.2, 0.1)],
+      transformers: [{
+        id: 'xfmr',
+        name: 'XFMR-1',
+        type: 'two_winding',
+        primaryBus: 'primary',
+        secondaryBus: 'secondary',
+        ratedPower: 0.5,
+        primaryVoltage: 0.48,
+        secondaryVoltage: 0.208,
+        impedance: { real: 0.01, imaginary: 0.05 },
+        tapPosition,
+        tapRange: { min: -2, max: 2, step: 0.025 },
+        connectionType: 'delta'
+      }]
+    });
+
+    const nominal = await LoadFlowAnalysisService.performLoadFlow(buildNetwork(0));
+    const boosted = await LoadFlowAnalysisService.performLoadFlow(buildNetwork(-2));
+    const secondary = (result: typeof nominal) =>
+      result.busResults.find(bus => bus.busId === 'secondary')!.voltageMagnitude;
+
+    expect(nominal.converged).toBe(true);
+    expect(boosted.converged).toBe(true);
+    expect(secondary(boosted)).toBeGreaterThan(secondary(nominal));
+  });
+
+  it('reports non-convergence and voltage violations for an infeasible load', async () => {
+    const network = createNetwork({
+      buses: [createBus('service', 'slack'), createBus('panel', 'pq')],
+      branches: [createBranch('feeder', 'service', 'panel', 0.2, 0.4)],
+      loads: [createLoad('panel-load', 'panel', 5, 2)]
+    });
+
+    const result = await LoadFlowAnalysisService.performLoadFlow(network);
+
+    expect(result.converged).toBe(false);
+    expect(result.warnings.some(warning => warning.includes('did not converge'))).toBe(true);
+    // Only the load bus sags; the slack bus is held at 1.0 pu
+    const { voltageViolations } = result.voltageProfile;
+    expect(voltageViolations.map(violation => violation.busId)).toEqual(['panel']);
+    expect(voltageViolations[0].limit).toEqual({ min: 0.95, max: 1.05 });
+    expect(voltageViolations[0].voltage).toBeLessThan(0.95);
+    expect(voltageViolations[0].severity).toBe('critical');
+    expect(result.warnings.some(warning => warning.startsWith('Bus panel voltage'))).toBe(true);
+  });
+
+  it('rejects networks without a slack bus', async () => {
+    const network = createNetwork({
+      buses: [createBus('panel', 'pq')]
+    });
+
+    await expect(LoadFlowAnalysisService.performLoadFlow(network)).rejects.toThrow('no slack bus');
+  });
+});
+
+describe('LoadFlowAnalysisService short circuit', () => {
+  // 500 kVA, 5.75% impedance, 480 V secondary fed from an infinite bus
+  const serviceTransformer: NetworkTransformer = {
+    id: 'xfmr',
+    name: 'Utility Transformer',
+    type: 'two_winding',
+    primaryBus: 'utility',
+    secondaryBus: 'msb',
+    ratedPower: 0.5,
+    primaryVoltage: 12.47,
+    secondaryVoltage: 0.48,
+    impedance: { real: 0, imaginary: 0.0575 },
+    tapPosition: 0,
+    tapRange: { min: -2, max: 2, step: 0.025 },
+    connectionType: 'delta'
+  };
+  const expectedThreePhase = 0.5 / (Math.sqrt(3) * 0.48) / 0.0575; // ≈ 10.46 kA
+
+  const createServiceNetwork = () => createNetwork({
+    buses: [{ ...createBus('utility', 'slack'), nominalVoltage: 12.47 }, createBus('msb', 'pq')],
+    transformers: [serviceTransformer]
+  });
+
+  it('calculates bolted fault currents at the transformer secondary', async () => {
+    const network = createServiceNetwork();
+    const fault = async (type: Parameters<typeof LoadFlowAnalysisService.performShortCircuitAnalysis>[2]) => {
+      const result = await LoadFlowAnalysisService.performShortCircuitAnalysis(network, 'msb', type);
+      return Math.hypot(result.faultCurrent.real, result.faultCurrent.imaginary);
+    };
+
+    expect(await fault('three_phase')).toBeCloseTo(expectedThreePhase, 2);
+    // Equal sequence impedances make the ground fault equal the three-phase fault
+    expect(await fault('line_to_ground')).toBeCloseTo(expectedThreePhase, 2);
+    expect(await fault('line_to_line')).toBeCloseTo(expectedThreePhase * Math.sqrt(3) / 2, 2);
+    expect(await fault('line_to_line_to_ground')).toBeGreaterThan(await fault('line_to_line'));
+  });
+
+  it('depresses the faulted bus voltage and reports branch currents', async () => {
+    const network = createNetwork({
+      ...createServiceNetwork(),
+      buses: [...createServiceNetwork().buses, createBus('panel', 'pq')],
+      branches: [createBranch('feeder', 'msb', 'panel', 0.05, 0.02)]
+    });
+
+    const result = await LoadFlowAnalysisService.performShortCircuitAnalysis(network, 'panel', 'three_phase');
+    const panelVoltage = result.busVoltages.find(bus => bus.busId === 'panel')!;
+    const msbVoltage = result.busVoltages.find(bus => bus.busId === 'msb')!;
+    const feeder = result.branchCurrents.find(branch => branch.branchId === 'feeder')!;
+
+    expect(panelVoltage.voltageMagnitude).toBeLessThan(1e-3);
+    expect(msbVoltage.voltageMagnitude).toBeGreaterThan(0);
+    expect(feeder.currentMagnitude).toBeCloseTo(Math.hypot(result.faultCurrent.real, result.faultCurrent.imaginary), 3);
+    expect(feeder.currentMagnitude).toBeLessThan(expectedThreePhase);
+  });
+
+  it('evaluates protective devices on faulted branches', async () => {
+    const base = createServiceNetwork();
+    const network = createNetwork({
+      ...base,
+      buses: [...base.buses, createBus('panel', 'pq'), createBus('load', 'pq')],
+      branches: [
+        createBranch('feeder', 'msb', 'panel', 0.05, 0.02),
+        createBranch('branch-circuit', 'panel', 'load', 0.5, 0.05)
+      ],
+      protectionDevices: [
+        { id: 'main', name: 'Main 400A', branchId: 'feeder', settings: { kind: 'thermal_magnetic', rating: 400, instantaneousPickup: 10 } },
+        { id: 'cb-20', name: 'Branch 20A', branchId: 'branch-circuit', settings: { kind: 'thermal_magnetic', rating: 20, instantaneousPickup: 10 } }
+      ]
+    });
+
+    const result = await LoadFlowAnalysisService.performShortCircuitAnalysis(network, 'load', 'three_phase');
+    const operations = result.protectionCoordination.deviceOperations;
+
+    expect(operations.find(op => op.deviceId === 'cb-20')?.operated).toBe(true);
+    expect(operations.find(op => op.deviceId === 'main')?.current).toBeGreaterThan(0);
+    expect(result.protectionCoordination.coordinationProblems.every(problem => problem.upstream === 'main')).toBe(true);
+  });
+
+  it('flags equipment whose interrupting rating is below the available fault current', async () => {
+    const diagram = {
+      id: 'sld',
+      name: 'Test SLD',
+      components: [
+        { id: 'msb', type: 'main_panel', position: { x: 0, y: 0 }, rating: 400, busRating: 400, voltage: 480, phase: 3, manufacturer: '', model: '', meterLocation: 'external', groundingElectrode: true },
+        { id: 'cb-1', type: 'breaker', position: { x: 0, y: 0 }, rating: '100A', poles: 3, breakerType: 'standard', voltage: 480, manufacturer: '', model: '', interruptingRating: 14000 }
+      ],
+      connections: [{ id: 'w1', from: 'msb', to: 'cb-1', type: 'ac' }]
+    } as SLDDiagram;
+
+    const ratings = LoadFlowAnalysisService.getEquipmentRatingsFromSLD(diagram, {
+      manufacturer: 'Square D',
+      model: 'I-Line',
+      type: 'Main Panel',
+      phases: 3,
+      voltage: 480,
+      busRating: 400,
+      interruptingRating: 10000,
+      availableSpaces: 42,
+      usedSpaces: 0
+    });
+    const study = await LoadFlowAnalysisService.performShortCircuitStudy(createServiceNetwork(), ratings);
+    const msbSummary = study.busSummaries.find(bus => bus.busId === 'msb')!;
+
+    expect(ratings).toHaveLength(2);
+    expect(ratings.every(rating => rating.busId === 'msb')).toBe(true);
+    expect(msbSummary.maximumFaultCurrent).toBeCloseTo(expectedThreePhase, 1);
+    expect(msbSummary.availableFaultCurrentLabel).toContain('NEC 110.24');
+    expect(study.inadequateEquipment.map(stress => stress.equipmentId)).toEqual(['msb']);
+    expect(study.equipmentStress.find(stress => stress.equipmentId === 'cb-1')?.withinRating).toBe(true);
+    expect(study.warnings.some(warning => warning.includes('infinite bus'))).toBe(false);
+  });
+
+  it('warns when the source bus has no source impedance', async () => {
+    const network = createNetwork({
+      buses: [createBus('service', 'slack'), createBus('panel', 'pq')],
+      branches: [createBranch('feeder', 'service', 'panel', 0.01, 0.005)]
+    });
+    const study = await LoadFlowAnalysisService.performShortCircuitStudy(network);
+
+    expect(study.warnings).toEqual([expect.stringContaining('service has no source impedance and is treated as an infinite bus')]);
+  });
+});
+
+describe('LoadFlowAnalysisService harmonic analysis', () => {
+  const sixPulseDrive = {
+    fundamentalFrequency: 60,
+    harmonics: [
+      { order: 5, magnitude: 0.35, angle: 0 },
+      { order: 7, magnitude: 0.2, angle: 0 },
+      { order: 11, magnitude: 0.09, angle: 0 },
+      { order: 13, magnitude: 0.07, angle: 0 }
+    ],
+    thd: 0,
+    tdd: 0
+  };
+
+  const createHarmonicNetwork = (spectrum?: typeof sixPulseDrive) => createNetwork({
+    buses: [{ ...createBus('utility', 'slack'), nominalVoltage: 12.47 }, createBus('msb', 'pq')],
+    transformers: [{
+      id: 'xfmr',
+      name: 'Utility Transformer',
+      type: 'two_winding',
+      primaryBus: 'utility',
+      secondaryBus: 'msb',
+      ratedPower: 0.5,
+      primaryVoltage: 12.47,
+      secondaryVoltage: 0.48,
+      impedance: { real: 0.01, imaginary: 0.0575 },
+      tapPosition: 0,
+      tapRange: { min: -2, max: 2, step: 0.025 },
+      connectionType: 'delta'
+    }],
+    loads: [{ ...createLoad('vfd', 'msb', 0.3, 0.1), harmonicContent: spectrum }],
+    analysisSettings: {
+      ...createNetwork({}).analysisSettings,
+      harmonicOrders: [3, 5, 7, 11, 13]
+    }
+  });
+
+  it('reports no distortion when no harmonic sources are present', async () => {
+    const result = await LoadFlowAnalysisService.performHarmonicAnalysis(createHarmonicNetwork());
+
+    expect(result.systemTHD).toBe(0);
+    expect(result.busHarmonics.every(bus => bus.thd === 0 && bus.tdd === 0)).toBe(true);
+    expect(result.complianceCheck.ieee519Compliant).toBe(true);
+  });
+
+  it('solves harmonic voltages and flags IEEE 519 current limits for a six-pulse drive', async () => {
+    const result = await LoadFlowAnalysisService.performHarmonicAnalysis(createHarmonicNetwork(sixPulseDrive));
+    const msb = result.busHarmonics.find(bus => bus.busId === 'msb')!;
+    const transformer = result.branchHarmonics.find(branch => branch.branchId === 'xfmr')!;
+
+    expect(msb.thd).toBeGreaterThan(0);
+    expect(msb.harmonics.find(h => h.order === 5)!.magnitude).toBeGreaterThan(msb.harmonics.find(h => h.order === 13)!.magnitude);
+    // The drive is the only load, so the supply current carries its full spectrum
+    expect(msb.tdd).toBeCloseTo(Math.sqrt(0.35 ** 2 + 0.2 ** 2 + 0.09 ** 2 + 0.07 ** 2) * 100, 1);
+    expect(transformer.thdCurrent).toBeGreaterThan(30);
+    expect(result.systemTDD).toBeGreaterThan(0);
+    expect(result.complianceCheck.ieee519Compliant).toBe(false);
+    expect(result.complianceCheck.violations.some(v => v.parameter === 'current_tdd')).toBe(true);
+    expect(result.recommendations.length).toBeGreaterThan(0);
+  });
+
+  it('blocks triplen harmonics at a delta transformer winding', async () => {
+    const result = await LoadFlowAnalysisService.performHarmonicAnalysis(createHarmonicNetwork({
+      ...sixPulseDrive,
+      harmonics: [{ order: 3, magnitude: 0.5, angle: 0 }]
+    }));
+    const utility = result.busHarmonics.find(bus => bus.busId === 'utility')!;
+    const msb = result.busHarmonics.find(bus => bus.busId === 'msb')!;
+
+    expect(msb.thd).toBeGreaterThan(0);
+    expect(utility.tdd).toBeLessThan(1e-3);
+  });
+});
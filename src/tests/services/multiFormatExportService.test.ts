@@ -0,0 +1,427 @@
+import { describe, it, expect } from 'vitest';
+import { MultiFormatExportService } from '../../services/multiFormatExportService';
+import type { ExportData, ExportOptions } from '../../services/multiFormatExportService';
+import { AutomaticScheduleGenerator } from '../../services/automaticScheduleGenerator';
+
+const createOptions = (format: ExportOptions['format']): ExportOptions => ({
+  format,
+  scale: 'fit',
+  paperSize: 'letter',
+  orientation: 'landscape',
+  quality: 'standard',
+  includeElements: {
+    titleBlock: true,
+    grid: false,
+    measurements: true,
+    annotations: true,
+    wireRouting: true,
+    schedules: true,
+    legends: false
+  }
+});
+
+const createExportData = (): ExportData => ({
+  components: [
+    {
+      id: 'msp',
+      type: 'main_panel',
+      name: 'Main Panel',
+      position: { x: 100, y: 100 },
+      size: { width: 60, height: 80 },
+      properties: { rating: 200, voltage: '120/240V', nested: { ignored: true } },
+      symbol: 'panel',
+      connections: []
+    },
+    {
+      id: 'sub',
+      type: 'sub_panel',
+      name: 'Garage Subpanel',
+      position: { x: 300, y: 100 },
+      size: { width: 40, height: 60 },
+      properties: { rating: 100 },
+      symbol: 'panel',
+      connections: []
+    }
+  ],
+  wires: [
+    {
+      id: 'feeder',
+      startComponent: 'msp',
+      endComponent: 'sub',
+      path: [{ x: 160, y: 140 }, { x: 230, y: 140 }, { x: 230, y: 130 }, { x: 300, y: 130 }],
+      style: { color: '#dc2626', width: 2, style: 'solid' },
+      label: '3#2 CU, 1#6 GND'
+    }
+  ],
+  measurements: [
+    {
+      id: 'm1',
+      type: 'linear',
+      points: [{ x: 100, y: 300 }, { x: 300, y: 300 }],
+      value: 40,
+      displayValue: "40'-0\"",
+      style: { color: '#2563eb', lineWidth: 1, textSize: 10 }
+    }
+  ],
+  annotations: [
+    { id: 'a1', type: 'text', position: { x: 50, y: 400 }, content: 'GENERAL NOTES\n1. ALL WORK PER NEC 2023', style: { fontSize: 12, color: '#000000' } }
+  ],
+  titleBlock: {
+    projectName: 'Smith Residence',
+    drawingNumber: 'E-1',
+    revision: 'A',
+    date: '2026-10-19',
+    drawnBy: 'JD',
+    checkedBy: 'PE',
+    approvedBy: '',
+    scale: 'NTS',
+    sheet: '1 of 3',
+    position: { x: 400, y: 450 }
+  },
+  projectInfo: { projectName: 'Smith Residence' },
+  calculations: { totalLoad: 32000, serviceSize: 200, method: 'optional' },
+  schedules: [],
+  canvasSize: { width: 800, height: 600 },
+  viewBox: { x: 0, y: 0, width: 800, height: 600 },
+  gridSettings: { size: 20, visible: true, color: '#e5e7eb' }
+});
+
+const readBlob = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsText(blob);
+});
+
+const parsePairs = (dxf: string): [number, string][] => {
+  const lines = dxf.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  const pairs: [number, string][] = [];
+  for (let i = 0; i < lines.length; i += 2) {
+    pairs.push([parseInt(lines[i], 10), lines[i + 1]]);
+  }
+  return pairs;
+};
+
+const exportDXF = async (data: ExportData = createExportData()) => {
+  const result = await MultiFormatExportService.exportSLD(data, createOptions('dwg'));
+  expect(result.success).toBe(true);
+  expect(result.filename).toMatch(/\.dxf$/);
+  return parsePairs(await readBlob(result.data as Blob));
+};
+
+// Group code pairs of every entity or table record of the given type
+const findRecords = (pairs: [number, string][], type: string): [number, string][][] => {
+  const records: [number, string][][] = [];
+  pairs.forEach(([code, value], index) => {
+    if (code !== 0 || value !== type) return;
+    const end = pairs.findIndex(([nextCode], next) => next > index && nextCode === 0);
+    records.push(pairs.slice(index, end));
+  });
+  return records;
+};
+
+const groupValue = (record: [number, string][], code: number) => record.find(([candidate]) => candidate === code)?.[1];
+
+describe('MultiFormatExportService DXF export', () => {
+  it('writes well-formed R2000 group code pairs with real line breaks', async () => {
+    const result = await MultiFormatExportService.exportSLD(createExportData(), createOptions('dwg'));
+    const text = await readBlob(result.data as Blob);
+    const pairs = parsePairs(text);
+
+    expect(text).not.toContain('\\n');
+    expect(pairs.every(([code]) => Number.isInteger(code))).toBe(true);
+    expect(pairs.filter(([code, value]) => code === 2 && value !== undefined).map(([, value]) => value))
+      .toEqual(expect.arrayContaining(['HEADER', 'CLASSES', 'TABLES', 'BLOCKS', 'ENTITIES', 'OBJECTS']));
+    expect(pairs[pairs.length - 1]).toEqual([0, 'EOF']);
+
+    const version = pairs.findIndex(([code, value]) => code === 9 && value === '$ACADVER');
+    expect(pairs[version + 1]).toEqual([1, 'AC1015']);
+
+    // Handles are unique and below the handle seed
+    const seedIndex = pairs.findIndex(([code, value]) => code === 9 && value === '$HANDSEED');
+    const handles = pairs
+      .filter(([code], index) => (code === 5 || code === 105) && index !== seedIndex + 1)
+      .map(([, value]) => parseInt(value, 16));
+    expect(new Set(handles).size).toBe(handles.length);
+    expect(Math.max(...handles)).toBeLessThan(parseInt(pairs[seedIndex + 1][1], 16));
+  });
+
+  it('maps SLD layers to DXF layers and components to block inserts with attributes', async () => {
+    const pairs = await exportDXF();
+    const layerNames = findRecords(pairs, 'LAYER').map(record => groupValue(record, 2));
+
+    expect(layerNames).toEqual(expect.arrayContaining(['POWER_MAIN', 'POWER_BRANCH', 'DIMENSION_LINEAR', 'TITLE_BLOCK']));
+
+    // Both panels share one block definition, each insert carries its own attributes
+    expect(pairs.filter(([code, value]) => code === 2 && value === 'SLD_PANEL').length).toBeGreaterThanOrEqual(4);
+    expect(findRecords(pairs, 'INSERT').length).toBe(2);
+    expect(findRecords(pairs, 'SEQEND').length).toBe(2);
+    expect(findRecords(pairs, 'ATTDEF').length).toBe(5);
+
+    const attributeValues = findRecords(pairs, 'ATTRIB').map(record => groupValue(record, 1));
+    expect(attributeValues).toEqual(expect.arrayContaining(['Main Panel', '200', '120/240V', 'Garage Subpanel']));
+    expect(groupValue(findRecords(pairs, 'INSERT')[0], 8)).toBe('POWER_MAIN');
+  });
+
+  it('exports wires as LWPOLYLINE routes in flipped drawing coordinates', async () => {
+    const pairs = await exportDXF();
+    const route = findRecords(pairs, 'LWPOLYLINE').find(record => Number(groupValue(record, 10)) === 160)!;
+    const vertices = route.filter(([code]) => code === 10 || code === 20).map(([, value]) => Number(value));
+
+    expect(groupValue(route, 8)).toBe('POWER_MAIN');
+    expect(vertices).toEqual([160, 460, 230, 460, 230, 470, 300, 470]);
+    expect(pairs.some(([code, value]) => code === 1 && value === '3#2 CU, 1#6 GND')).toBe(true);
+  });
+
+  it('adds dimension entities with geometry blocks and title block text', async () => {
+    const pairs = await exportDXF();
+
+    expect(findRecords(pairs, 'DIMENSION').length).toBe(1);
+    expect(pairs.some(([code, value]) => code === 2 && value === '*D1')).toBe(true);
+    expect(pairs.some(([code, value]) => code === 1 && value === "40'-0\"")).toBe(true);
+
+    const text = pairs.filter(([code]) => code === 1).map(([, value]) => value);
+    expect(text).toEqual(expect.arrayContaining(['Smith Residence', 'E-1', 'DRAWING NO.', '1 of 3', 'GENERAL NOTES', '1. ALL WORK PER NEC 2023']));
+  });
+
+  it('honours layer assignments from the layer service', async () => {
+    const data = createExportData();
+    data.layerConfiguration = {
+      layers: [
+        { id: 'power_main', name: 'Main Power', description: '', color: '#dc2626', strokeWidth: 3, visible: true, locked: false, printable: true, opacity: 1, lineType: 'solid', category: 'power', order: 2 },
+        { id: 'e_feeders', name: 'Feeders', description: '', color: '#0000ff', strokeWidth: 2, visible: true, locked: true, printable: true, opacity: 1, lineType: 'dashed', category: 'custom', order: 1 }
+      ],
+      assignments: [{ componentId: 'feeder', layerId: 'e_feeders' }]
+    };
+    const pairs = await exportDXF(data);
+    const feederLayer = findRecords(pairs, 'LAYER').find(record => groupValue(record, 2) === 'E_FEEDERS')!;
+    const route = findRecords(pairs, 'LWPOLYLINE').find(record => Number(groupValue(record, 10)) === 160)!;
+
+    expect(groupValue(feederLayer, 70)).toBe('4');
+    expect(groupValue(feederLayer, 62)).toBe('5');
+    expect(groupValue(feederLayer, 6)).toBe('DASHED');
+    expect(groupValue(route, 8)).toBe('E_FEEDERS');
+  });
+});
+
+const readBlobBytes = (blob: Blob): Promise<Uint8Array> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(blob);
+});
+
+// Entries of a stored (uncompressed) ZIP archive by path
+const unzip = (bytes: Uint8Array): Record<string, string> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    expect(view.getUint16(offset + 8, true)).toBe(0);
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const start = offset + 30 + nameLength;
+    files[decoder.decode(bytes.subarray(offset + 30, start))] = decoder.decode(bytes.subarray(start, start + size));
+    offset = start + size;
+  }
+  return files;
+};
+
+const createPanelSchedule = () => AutomaticScheduleGenerator.generatePanelSchedule(
+  {
+    id: 'msp',
+    name: 'Main Panel',
+    type: 'main',
+    busRating: 225,
+    mainBreakerRating: 200,
+    voltage: 240,
+    phases: 1,
+    location: 'Garage',
+    circuits: [
+      { id: 'c1', number: 1, description: 'Kitchen Receptacles', load: 1800, current: 15, voltage: 120, protectionRating: 20, conductorSize: '12', length: 50, loadType: 'non-continuous', phase: 'A' },
+      { id: 'c2', number: 2, description: 'EV Charger', load: 9600, current: 40, voltage: 240, protectionRating: 50, conductorSize: '6', length: 60, loadType: 'evse', phase: 'AB' }
+    ]
+  },
+  { name: 'Smith Residence', number: 'P-100', date: new Date('2026-10-19') }
+);
+
+describe('MultiFormatExportService Excel export', () => {
+  const exportWorkbook = async (data: ExportData) => {
+    const result = await MultiFormatExportService.exportSLD(data, createOptions('excel'));
+    expect(result.success).toBe(true);
+    expect(result.filename).toMatch(/\.xlsx$/);
+    expect((result.data as Blob).type).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    return unzip(await readBlobBytes(result.data as Blob));
+  };
+
+  it('writes a workbook package with one sheet per schedule', async () => {
+    const data = createExportData();
+    data.schedules = [createPanelSchedule()];
+    const files = await exportWorkbook(data);
+
+    expect(Object.keys(files)).toEqual(expect.arrayContaining([
+      '[Content_Types].xml', '_rels/.rels', 'xl/workbook.xml', 'xl/_rels/workbook.xml.rels', 'xl/styles.xml',
+      'xl/worksheets/sheet1.xml', 'xl/worksheets/sheet2.xml', 'xl/worksheets/sheet3.xml'
+    ]));
+    const sheetNames = Array.from(files['xl/workbook.xml'].matchAll(/<sheet name="([^"]+)"/g)).map(match => match[1]);
+    expect(sheetNames).toEqual(['Components', 'Calculations', 'Main Panel - Panel Schedule']);
+
+    // Components list with its properties and a live count
+    const components = files['xl/worksheets/sheet1.xml'];
+    expect(components).toContain('<t xml:space="preserve">Garage Subpanel</t>');
+    expect(components).toContain('<f>COUNTA(A2:A3)</f><v>2</v>');
+    expect(components).toContain('<pane ySplit="1"');
+  });
+
+  it('builds the calculations sheet with formulas on the calculated values', async () => {
+    const files = await exportWorkbook(createExportData());
+    const calculations = files['xl/worksheets/sheet2.xml'];
+
+    expect(calculations).toContain('<t xml:space="preserve">Total Load</t>');
+    expect(calculations).toMatch(/<c r="B2"[^>]*><v>32000<\/v><\/c>/);
+    expect(calculations).toContain('<f>B2/240</f>');
+    expect(calculations).toContain('<f>B5/B3</f>');
+    expect(files['xl/styles.xml']).toContain('formatCode="0.0%"');
+  });
+
+  it('carries schedule column widths, cell styles and SUM totals into the sheet', async () => {
+    const data = createExportData();
+    data.schedules = [createPanelSchedule()];
+    const files = await exportWorkbook(data);
+    const schedule = files['xl/worksheets/sheet3.xml'];
+    const styles = files['xl/styles.xml'];
+
+    // Title, subtitle, project and date rows, a blank row, then headers on row 6
+    expect(schedule).toContain('<mergeCell ref="A1:I1"/>');
+    expect(schedule).toMatch(/<c r="A6"[^>]*t="inlineStr"><is><t xml:space="preserve">CKT #<\/t>/);
+    expect(schedule).toContain('<pane ySplit="6"');
+    expect(schedule).toContain('<col min="2" max="2" width="35" customWidth="1"/>');
+
+    expect(schedule).toContain('<f>SUM(C7:C8)</f><v>11400</v>');
+    expect(schedule).toContain('<f>SUM(D7:D8)</f><v>55</v>');
+    expect(styles).toContain('formatCode="#,##0"');
+    expect(styles).toContain('<color rgb="FF059669"/>');
+    expect(schedule).toContain('NEC References: NEC 408.4, NEC 210.11, NEC 220.14');
+  });
+
+  it('leaves schedules out when they are not selected', async () => {
+    const data = createExportData();
+    data.schedules = [createPanelSchedule()];
+    const result = await MultiFormatExportService.exportSLD(data, {
+      ...createOptions('excel'),
+      includeElements: { ...createOptions('excel').includeElements, schedules: false }
+    });
+    const files = unzip(await readBlobBytes(result.data as Blob));
+
+    expect(files['xl/worksheets/sheet3.xml']).toBeUndefined();
+  });
+});
+
+describe('MultiFormatExportService SVG export', () => {
+  const exportSVG = async (data: ExportData, options: Partial<ExportOptions> = {}) => {
+    const result = await MultiFormatExportService.exportSLD(data, { ...createOptions('svg'), ...options });
+    expect(result.success).toBe(true);
+    const svg = await readBlob(result.data as Blob);
+    return { result, document: new DOMParser().parseFromString(svg, 'image/svg+xml') };
+  };
+
+  it('draws linear measurements as dimensions with arrowheads and readable text', async () => {
+    const { document } = await exportSVG(createExportData());
+    const dimension = document.getElementById('m1')!;
+
+    const [dimensionLine, ...extensions] = Array.from(dimension.querySelectorAll('line'));
+    expect([dimensionLine.getAttribute('y1'), dimensionLine.getAttribute('y2')]).toEqual(['285', '285']);
+    expect(extensions.map(line => line.getAttribute('x1'))).toEqual(['100', '300']);
+    expect(dimension.querySelectorAll('polygon')).toHaveLength(2);
+
+    const text = dimension.querySelector('text')!;
+    expect(text.textContent).toBe("40'-0\"");
+    expect(text.getAttribute('x')).toBe('200');
+    expect(text.getAttribute('transform')).toBeNull();
+  });
+
+  it('keeps vertical dimension text reading bottom to top', async () => {
+    const data = createExportData();
+    data.measurements[0].points = [{ x: 500, y: 400 }, { x: 500, y: 100 }];
+    const { document } = await exportSVG(data);
+
+    const text = document.querySelector('#m1 text')!;
+    expect(text.getAttribute('transform')).toBe('rotate(-90 482 250)');
+  });
+
+  it('renders multi-line annotations, callouts, the grid and the title block', async () => {
+    const data = createExportData();
+    data.annotations.push({
+      id: 'a2', type: 'callout', position: { x: 600, y: 80 }, content: 'VERIFY <200A> MAIN',
+      style: { fontSize: 10, color: '#dc2626', background: '#fef3c7' }
+    });
+    const { document } = await exportSVG(data, {
+      includeElements: { ...createOptions('svg').includeElements, grid: true }
+    });
+
+    expect(Array.from(document.querySelectorAll('#a1 tspan')).map(span => span.textContent))
+      .toEqual(['GENERAL NOTES', '1. ALL WORK PER NEC 2023']);
+    expect(document.querySelector('#a1 rect')).toBeNull();
+    const callout = document.querySelector('#a2 rect')!;
+    expect(callout.getAttribute('fill')).toBe('#fef3c7');
+    expect(callout.getAttribute('stroke')).toBe('#dc2626');
+    expect(document.querySelector('#a2 tspan')!.textContent).toBe('VERIFY <200A> MAIN');
+
+    expect(document.querySelector('pattern#grid')!.getAttribute('width')).toBe('20');
+    const titleBlock = Array.from(document.querySelectorAll('#title-block text')).map(text => text.textContent);
+    expect(titleBlock).toEqual(expect.arrayContaining(['Smith Residence', 'DRAWING NO.', 'E-1', 'SHEET', '1 of 3']));
+  });
+
+  it('sizes the sheet in millimetres for ANSI and ARCH paper', async () => {
+    const { result, document } = await exportSVG(createExportData(), { paperSize: 'arch_d' });
+    const svg = document.documentElement;
+
+    expect(svg.getAttribute('width')).toBe('914.4mm');
+    expect(svg.getAttribute('height')).toBe('609.6mm');
+    expect(svg.getAttribute('viewBox')).toBe('0 0 800 600');
+    expect(result.metadata?.dimensions).toEqual({ width: 914.4, height: 609.6 });
+  });
+});
+
+describe('MultiFormatExportService PDF export', () => {
+  const exportPDF = async (data: ExportData, options: Partial<ExportOptions> = {}) => {
+    const result = await MultiFormatExportService.exportSLD(data, { ...createOptions('pdf'), ...options });
+    expect(result.success).toBe(true);
+    return { result, pdf: await readBlob(result.data as Blob) };
+  };
+  const pageCount = (pdf: string) => pdf.match(/\/Type \/Page\b/g)?.length ?? 0;
+
+  it('plots on ANSI sheet sizes with the dimensions, notes and title block', async () => {
+    const { result, pdf } = await exportPDF(createExportData(), { paperSize: 'ansi_d' });
+
+    expect(result.metadata?.dimensions.width).toBeCloseTo(863.6, 1);
+    expect(result.metadata?.dimensions.height).toBeCloseTo(558.8, 1);
+    const [, width, height] = pdf.match(/\/MediaBox \[0 0 ([\d.]+) ([\d.]+)\]/)!;
+    expect([Number(width), Number(height)].map(Math.round)).toEqual([2448, 1584]);
+    expect(pageCount(pdf)).toBe(1);
+
+    expect(pdf).toContain("(40'-0\") Tj");
+    expect(pdf).toContain('(GENERAL NOTES) Tj');
+    expect(pdf).toContain('(1. ALL WORK PER NEC 2023) Tj');
+    ['(Smith Residence) Tj', '(DRAWING NO.) Tj', '(E-1) Tj', '(1 of 3) Tj'].forEach(text => expect(pdf).toContain(text));
+  });
+
+  it('adds a sheet per schedule with the header repeated on continuation sheets', async () => {
+    const data = createExportData();
+    const schedule = createPanelSchedule();
+    const row = schedule.rows[0];
+    schedule.rows = Array.from({ length: 40 }, (_, index) => ({ ...row, id: `r${index}` }));
+    delete schedule.totals;
+    data.schedules = [schedule];
+
+    const { pdf } = await exportPDF(data, { paperSize: 'ansi_a', orientation: 'portrait' });
+
+    expect(pageCount(pdf)).toBe(3);
+    expect(pdf).toContain('(Main Panel - Panel Schedule) Tj');
+    expect(pdf.match(/\(CKT #\) Tj/g)).toHaveLength(2);
+    expect(pdf.match(/\(E-1\) Tj/g)).toHaveLength(3);
+    expect(pdf).toContain('(NEC References: NEC 408.4, NEC 210.11, NEC 220.14) Tj');
+  });
+});
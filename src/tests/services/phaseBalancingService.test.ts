@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { PhaseBalancingService, SERVICE_SYSTEMS } from '../../services/phaseBalancingService';
+import type { PhaseLoad } from '../../services/phaseBalancingService';
+import { AutomaticScheduleGenerator } from '../../services/automaticScheduleGenerator';
+import type { SLDCircuitData, SLDPanelData } from '../../services/automaticScheduleGenerator';
+
+const WYE_208 = SERVICE_SYSTEMS['208Y/120V 3Φ'];
+const SPLIT_240 = SERVICE_SYSTEMS['120/240V 1Φ'];
+
+describe('PhaseBalancingService', () => {
+  it('resolves the service system from panel voltage and phases', () => {
+    expect(PhaseBalancingService.getServiceSystem(1, 240).id).toBe('120/240V 1Φ');
+    expect(PhaseBalancingService.getServiceSystem(1, 208).id).toBe('120/208V 1Φ');
+    expect(PhaseBalancingService.getServiceSystem(3, 208).id).toBe('208Y/120V 3Φ');
+    expect(PhaseBalancingService.getServiceSystem(3, 480).id).toBe('480Y/277V 3Φ');
+    expect(PhaseBalancingService.lineCurrent(100000, WYE_208)).toBeCloseTo(277.57, 2);
+    expect(PhaseBalancingService.lineCurrent(48000, SPLIT_240)).toBe(200);
+  });
+
+  it('sums line-to-neutral currents as phasors for the neutral', () => {
+    const twoOfThree = PhaseBalancingService.summarize([
+      { id: 'a', va: 1200, poles: 1, phase: 'A' },
+      { id: 'b', va: 1200, poles: 1, phase: 'B' }
+    ], WYE_208);
+    // Two equal phases 120° apart return their full current on the neutral
+    expect(twoOfThree.neutralAmps).toBeCloseTo(10, 6);
+    expect(twoOfThree.phaseAmps).toEqual({ A: 10, B: 10, C: 0 });
+
+    const balanced = PhaseBalancingService.summarize([
+      { id: 'a', va: 1200, poles: 1, phase: 'A' },
+      { id: 'b', va: 1200, poles: 1, phase: 'B' },
+      { id: 'c', va: 1200, poles: 1, phase: 'C' }
+    ], WYE_208);
+    expect(balanced.neutralAmps).toBeCloseTo(0, 6);
+    expect(balanced.imbalancePercent).toBeCloseTo(0, 6);
+
+    // 120/240 V legs are opposed, so the neutral carries the difference
+    const splitPhase = PhaseBalancingService.summarize([
+      { id: 'a', va: 1200, poles: 1, phase: 'A' },
+      { id: 'b', va: 600, poles: 1, phase: 'B' }
+    ], SPLIT_240);
+    expect(splitPhase.neutralAmps).toBeCloseTo(5, 6);
+  });
+
+  it('carries line-to-line loads on both lines without neutral current', () => {
+    const summary = PhaseBalancingService.summarize([{ id: 'ac', va: 2080, poles: 2, phase: 'BC' }], WYE_208);
+
+    expect(summary.phaseAmps).toEqual({ A: 0, B: 10, C: 10 });
+    expect(summary.phaseVA).toEqual({ A: 0, B: 1040, C: 1040 });
+    expect(summary.neutralAmps).toBe(0);
+  });
+
+  it('auto-balances single-pole circuits across three phases', () => {
+    const loads: PhaseLoad[] = [5000, 4000, 3000, 3000, 2000, 1000].map((va, index) => ({
+      id: `c${index + 1}`,
+      va,
+      poles: 1,
+      phase: 'A'
+    }));
+
+    const before = PhaseBalancingService.summarize(loads, WYE_208);
+    const after = PhaseBalancingService.summarize(PhaseBalancingService.balance(loads, WYE_208), WYE_208);
+
+    expect(before.imbalancePercent).toBeCloseTo(200, 6);
+    expect(after.phaseVA).toEqual({ A: 6000, B: 6000, C: 6000 });
+    expect(after.neutralAmps).toBeCloseTo(0, 6);
+  });
+
+  it('numbers breakers into slots on their assigned phases', () => {
+    const slots = PhaseBalancingService.assignSlots([
+      { id: 'lights', va: 1000, poles: 1, phase: 'B', number: 1 },
+      { id: 'rtu', va: 9000, poles: 3, phase: 'ABC', number: 2 },
+      { id: 'heater', va: 4000, poles: 2, phase: 'CA', number: 3 }
+    ], WYE_208);
+
+    expect(slots.get('lights')).toBe(3);
+    expect(slots.get('rtu')).toBe(2);
+    expect(slots.get('heater')).toBe(5);
+    expect([1, 2, 3, 4, 5, 6, 7].map(slot => PhaseBalancingService.getSlotPhase(slot, WYE_208)))
+      .toEqual(['A', 'A', 'B', 'B', 'C', 'C', 'A']);
+  });
+
+  it('balances a panel schedule and reports phase totals and neutral current', () => {
+    const circuit = (number: number, load: number, phase: SLDCircuitData['phase']): SLDCircuitData => ({
+      id: `c${number}`, number, description: `Circuit ${number}`, load, current: load / 120, voltage: 120,
+      protectionRating: 20, conductorSize: '12', length: 40, loadType: 'non-continuous', phase
+    });
+    const panel = (): SLDPanelData => ({
+      id: 'lp1', name: 'LP-1', type: 'subpanel', busRating: 225, mainBreakerRating: 200,
+      voltage: 208, phases: 3, location: 'Electrical Room',
+      circuits: [circuit(1, 1800, 'A'), circuit(3, 1800, 'A'), circuit(5, 1800, 'A')]
+    });
+    const project = { name: 'Retail Fit-Out', date: new Date('2026-10-19') };
+    const options = { includeTotals: true, showVoltageDrops: false, showWireSizes: false, showProtectionSettings: false, necCompliance: false, groupByPhase: false };
+
+    // Three-phase panels are balanced unless the caller opts out
+    const phases = (schedule: ReturnType<typeof AutomaticScheduleGenerator.generatePanelSchedule>) => {
+      const phaseColumn = schedule.headers.findIndex(header => header.id === 'phase');
+      return schedule.rows.map(row => [row.cells[0].value, row.cells[phaseColumn].value]);
+    };
+    const schedule = AutomaticScheduleGenerator.generatePanelSchedule(panel(), project);
+    expect(phases(schedule)).toEqual([[1, 'A'], [3, 'B'], [5, 'C']]);
+    expect(schedule.notes).toContain('208Y/120V 3Φ phase loading: A 1,800 VA (15.0 A), B 1,800 VA (15.0 A), C 1,800 VA (15.0 A)');
+    expect(schedule.notes).toContain('Neutral current 0.0 A, phase imbalance 0.0%');
+    expect(schedule.notes).toContain('Circuits assigned to phases by automatic load balancing');
+
+    const unbalanced = AutomaticScheduleGenerator.generatePanelSchedule(panel(), project, { ...options, balancePhases: false });
+    expect(phases(unbalanced)).toEqual([[1, 'A'], [3, 'A'], [5, 'A']]);
+    expect(unbalanced.notes).not.toContain('Circuits assigned to phases by automatic load balancing');
+  });
+});
@@ -0,0 +1,265 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { PlanSetService } from '../../services/planSetService';
+import type { PlanSetOptions } from '../../services/planSetService';
+import { AttachmentService } from '../../services/attachmentService';
+import { PVLayoutService } from '../../services/pvLayoutService';
+import type { CalculationResults } from '../../types';
+import { initialProjectInfo } from '../../constants/initialProjectInfo';
+
+// 1x1 transparent PNG
+const PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const readBlob = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsText(blob);
+});
+
+const pageCount = (pdf: string) => pdf.match(/\/Type \/Page\b/g)?.length ?? 0;
+
+const createResults = (overrides: Partial<CalculationResults> = {}): CalculationResults => ({
+  totalAmps: 142.5,
+  totalVA: 48000,
+  totalDemand: 34200,
+  generalLoadVA: 7500,
+  generalDemand: 4575,
+  applianceDemand: 9000,
+  hvacDemand: 10800,
+  evseDemand: 9600,
+  batteryChargingDemand: 0,
+  solarCapacityKW: 7.6,
+  batteryCapacityKW: 0,
+  totalInterconnectionAmps: 40,
+  interconnectionCompliant: true,
+  criticalLoadsAmps: 0,
+  spareCapacity: 28.8,
+  recommendedServiceSize: 200,
+  warnings: [{ type: 'warning', message: 'EVSE on a dedicated circuit', code: 'EVSE_DEDICATED' }],
+  errors: [],
+  ...overrides
+});
+
+const createOptions = (overrides: Partial<PlanSetOptions> = {}): PlanSetOptions => ({
+  titleBlock: {
+    projectName: 'Smith Residence',
+    projectNumber: 'P-100',
+    revision: '0',
+    date: '2026-10-19',
+    drawnBy: 'JD',
+    checkedBy: 'PE',
+    client: 'Jane Smith',
+    address: '123 Main St, Springfield',
+    permitNumber: 'BLD-2026-0042',
+    ahj: 'City of Springfield',
+    scale: '1/8" = 1\'-0"',
+    necCodeYear: '2023'
+  },
+  siteMap: PIXEL,
+  loadCalculation: { results: createResults(), method: 'optional', mainBreaker: 200, codeYear: '2023', squareFootage: 2500 },
+  diagram: {
+    components: [
+      { id: 'msp', type: 'main_panel', name: 'Main Panel', position: { x: 100, y: 100 }, size: { width: 60, height: 80 }, properties: {}, symbol: 'panel', connections: [] }
+    ],
+    wires: [],
+    measurements: [],
+    annotations: [],
+    projectInfo: { projectName: 'Smith Residence' },
+    calculations: { totalLoad: 34200, serviceSize: 200, method: 'optional' },
+    schedules: [],
+    canvasSize: { width: 800, height: 600 },
+    viewBox: { x: 0, y: 0, width: 800, height: 600 },
+    gridSettings: { size: 20, visible: false, color: '#e5e7eb' }
+  },
+  panels: [
+    {
+      id: 'msp',
+      name: 'Main Panel',
+      type: 'main',
+      busRating: 225,
+      mainBreakerRating: 200,
+      voltage: 240,
+      phases: 1,
+      location: 'Garage',
+      circuits: [
+        { id: 'c1', number: 1, description: 'Kitchen Receptacles', load: 1800, current: 15, voltage: 120, protectionRating: 20, conductorSize: '12', length: 50, loadType: 'non-continuous', phase: 'A' },
+        { id: 'c2', number: 2, description: 'EV Charger', load: 9600, current: 40, voltage: 240, protectionRating: 50, conductorSize: '6', length: 60, loadType: 'evse', phase: 'AB' }
+      ]
+    }
+  ],
+  cutSheets: [
+    PlanSetService.createCutSheet(
+      { name: 'Hybrid Inverter', manufacturer: 'SolarEdge', model: 'SE7600H-US', specifications: { maxOutputPower: 7600, acVoltage: 240, certifications: ['UL 1741'] } },
+      PIXEL
+    )
+  ],
+  ...overrides
+});
+
+describe('PlanSetService', () => {
+  afterEach(() => AttachmentService.clearProjectAttachments('project-1'));
+
+  it('numbers every sheet in order and lists them on the cover sheet index', async () => {
+    const result = await PlanSetService.generatePlanSet(createOptions());
+    expect(result.success).toBe(true);
+    expect(result.filename).toMatch(/^Smith_Residence_Plan_Set_\d{4}-\d{2}-\d{2}\.pdf$/);
+    expect(result.warnings).toEqual([]);
+
+    expect(result.sheets.map(sheet => [sheet.number, sheet.kind])).toEqual([
+      ['G-1', 'cover'],
+      ['E-1', 'load_calculation'],
+      ['E-2', 'single_line'],
+      ['E-3', 'panel_schedules'],
+      ['E-4', 'wire_schedule'],
+      ['E-5', 'cut_sheets'],
+      ['E-6', 'placards']
+    ]);
+    expect(result.sheets.map(sheet => sheet.page)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+
+    const pdf = await readBlob(result.data!);
+    expect(pageCount(pdf)).toBe(7);
+    expect(pdf).toContain('(SHEET INDEX) Tj');
+    expect(pdf).toContain('(PANEL SCHEDULE - MAIN PANEL) Tj');
+    expect(pdf).toContain('/Subtype /Image');
+
+    // One title block per sheet, each with its own number and the sheet count
+    expect(pdf.match(/\(SHEET \d OF 7\) Tj/g)).toHaveLength(7);
+    expect(pdf).toContain('(E-6) Tj');
+    expect(pdf.match(/\(BLD-2026-0042\) Tj/g)).toHaveLength(8);
+  });
+
+  it('lays out the load calculation, cut sheets and solar placards', async () => {
+    const result = await PlanSetService.generatePlanSet(createOptions());
+    const pdf = await readBlob(result.data!);
+
+    expect(pdf).toContain('(ELECTRICAL LOAD CALCULATION) Tj');
+    expect(pdf).toContain('(NEC 220.83 Optional Method - NEC 2023 - 2,500 sq ft) Tj');
+    expect(pdf).toContain('(34,200) Tj');
+    expect(pdf).toContain('(1. WARNING: EVSE on a dedicated circuit) Tj');
+
+    expect(pdf).toContain('(Max Output Power) Tj');
+    expect(pdf).toContain('(SolarEdge SE7600H-US) Tj');
+
+    expect(PlanSetService.getDefaultPlacards(createOptions().loadCalculation!).map(placard => placard.necReference))
+      .toEqual(['230.70(B)', '690.56(C)', '690.54', '705.10', '705.12(B)(3)(2)']);
+    expect(pdf).toContain('(SOLAR PV SYSTEM EQUIPPED WITH RAPID SHUTDOWN) Tj');
+    expect(pdf).toContain('(RATED AC OUTPUT CURRENT: 31.7 A) Tj');
+  });
+
+  it('follows a custom sheet order and skips sheets without data', async () => {
+    const result = await PlanSetService.generatePlanSet(createOptions({
+      sheetOrder: ['single_line', 'cover', 'wire_schedule', 'cut_sheets'],
+      cutSheets: []
+    }));
+
+    expect(result.sheets.map(sheet => `${sheet.number} ${sheet.title}`)).toEqual([
+      'E-1 SINGLE LINE DIAGRAM',
+      'G-1 COVER SHEET',
+      'E-2 WIRE & CONDUIT SCHEDULE'
+    ]);
+    expect(result.warnings).toEqual(['Cut sheets skipped: no equipment cut sheets were provided']);
+  });
+
+  it('adds the PV layout DC source circuits to the wire schedule', async () => {
+    const [irc] = PVLayoutService.FIRE_CODE_RULE_SETS;
+    const face = PVLayoutService.createFace('south', 'South', [{ x: 0, y: 0 }, { x: 400, y: 0 }, { x: 400, y: 200 }, { x: 0, y: 200 }], 0, 180);
+    const pvLayout = {
+      ...PVLayoutService.fillAllFaces(PVLayoutService.createLayout([face], 0.1, irc)),
+      maxModulesPerString: 14,
+      stringSizing: { inverterId: 'tesla_solar_inverter_template', recordLowC: -10, designHighC: 35 }
+    };
+
+    const sized = await readBlob((await PlanSetService.generatePlanSet(createOptions({ sheetOrder: ['wire_schedule'], pvLayout }))).data!);
+    expect(sized).toMatch(/\(\d+ AWG PV WIRE\) Tj/);
+    expect(sized).toContain('(6 AWG) Tj');
+
+    // Strings without a chosen inverter have no sized conductors yet
+    const unsized = await readBlob((await PlanSetService.generatePlanSet(createOptions({
+      sheetOrder: ['wire_schedule'],
+      pvLayout: { ...pvLayout, stringSizing: undefined }
+    }))).data!);
+    expect(unsized).not.toContain('PV WIRE');
+  });
+
+  it('lists revisions in the title block and clouds the revised sheets', async () => {
+    const result = await PlanSetService.generatePlanSet(createOptions({
+      sheetOrder: ['cover', 'single_line', 'placards'],
+      revisions: [
+        { revision: '1', date: '2026-10-01', description: 'Issued for permit' },
+        {
+          revision: '2',
+          date: '2026-10-19',
+          description: 'Plan review comments',
+          clouds: [{ sheet: 'E-1', x: 40, y: 40, width: 80, height: 40 }, { sheet: 'placards', x: 20, y: 20, width: 40, height: 40 }]
+        }
+      ]
+    }));
+    const pdf = await readBlob(result.data!);
+
+    expect(pdf.match(/\(Plan review comments\) Tj/g)).toHaveLength(3);
+    expect(pdf.match(/\(Issued for permit\) Tj/g)).toHaveLength(3);
+
+    // Clouds and deltas are the only red linework, on the clouded sheets only
+    const pageStreams = pdf.split('endstream').slice(0, 3);
+    expect(pageStreams.map(content => content.includes('0.86 0.15 0.15 RG'))).toEqual([false, true, true]);
+    expect(pdf).toMatch(/\(2\) Tj/);
+  });
+
+  it('uses the aerial capture from the attachment service as the site map', async () => {
+    AttachmentService.addAttachment('project-1', {
+      id: 'aerial',
+      name: 'Satellite View - 123 Main St',
+      type: 'satellite_image',
+      source: 'google_maps',
+      url: 'https://example.com/aerial.png',
+      metadata: { width: 640, height: 480 },
+      createdAt: new Date(),
+      markedForExport: true,
+      exportOptions: { includeInPDF: true, pdfSection: 'aerial_views', pageSize: 'full', showMetadata: true, order: 1 },
+      base64Data: PIXEL
+    });
+
+    const result = await PlanSetService.generatePlanSet(createOptions({ siteMap: undefined, projectId: 'project-1', sheetOrder: ['cover'] }));
+    const pdf = await readBlob(result.data!);
+
+    expect(result.warnings).toEqual([]);
+    expect(pdf).toContain('/Subtype /Image');
+    expect(pdf).toContain('(Satellite View - 123 Main St) Tj');
+  });
+
+  it('notes a missing site map without failing the build', async () => {
+    const result = await PlanSetService.generatePlanSet(createOptions({ siteMap: undefined, projectId: 'project-1', sheetOrder: ['cover'] }));
+    const pdf = await readBlob(result.data!);
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual(['No aerial capture found for the site map']);
+    expect(pdf).toContain('(SITE MAP NOT AVAILABLE) Tj');
+  });
+
+  it('fills the title block from the load calculator project information', () => {
+    const titleBlock = PlanSetService.titleBlockFromProject({
+      ...initialProjectInfo,
+      customerName: 'Jane Smith',
+      propertyAddress: '123 Main St',
+      city: 'Springfield',
+      state: 'IL',
+      zipCode: '62701',
+      projectNumber: 'P-100',
+      calculatedBy: 'JD',
+      date: '2026-10-19',
+      jurisdiction: 'City of Springfield'
+    }, '2020');
+
+    expect(titleBlock).toMatchObject({
+      projectName: 'Jane Smith',
+      projectNumber: 'P-100',
+      client: 'Jane Smith',
+      address: '123 Main St, Springfield, IL 62701',
+      drawnBy: 'JD',
+      ahj: 'City of Springfield',
+      necCodeYear: '2020'
+    });
+    expect(PlanSetService.DEFAULT_SHEET_ORDER[0]).toBe('cover');
+    expect(PlanSetService.getSheetTitle('placards')).toBe('NEC PLACARDS & LABELS');
+  });
+});
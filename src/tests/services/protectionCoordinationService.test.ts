@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { ProtectionCoordinationService } from '../../services/protectionCoordinationService';
+import type { ProtectiveDevice } from '../../services/protectionCoordinationService';
+import type { SLDDiagram } from '../../types/sld';
+
+const breaker = (id: string, rating: number): ProtectiveDevice => ({
+  id,
+  name: id,
+  settings: { kind: 'thermal_magnetic', rating, instantaneousPickup: 10 }
+});
+
+describe('ProtectionCoordinationService', () => {
+  it('models thermal-magnetic breaker bands', () => {
+    const settings = breaker('cb', 100).settings;
+
+    expect(ProtectionCoordinationService.getTripTimes(settings, 90).maximum).toBe(Infinity);
+
+    const overload = ProtectionCoordinationService.getTripTimes(settings, 600);
+    expect(overload.minimum).toBeLessThan(overload.maximum);
+    expect(overload.minimum).toBeGreaterThan(1);
+
+    const shortCircuit = ProtectionCoordinationService.getTripTimes(settings, 5000);
+    expect(shortCircuit.maximum).toBeLessThanOrEqual(0.025);
+  });
+
+  it('models fuse melting and clearing curves', () => {
+    const settings = { kind: 'fuse' as const, rating: 60, fuseClass: 'RK5' as const };
+
+    expect(ProtectionCoordinationService.getTripTimes(settings, 70).minimum).toBe(Infinity);
+    const band = ProtectionCoordinationService.getTripTimes(settings, 300);
+    expect(band.minimum).toBeCloseTo(15, 5);
+    expect(band.maximum).toBeGreaterThan(band.minimum);
+  });
+
+  it('coordinates breakers below the upstream instantaneous pickup', () => {
+    const result = ProtectionCoordinationService.checkCoordination(breaker('main', 200), breaker('branch', 20), 1000);
+    expect(result.coordinated).toBe(true);
+    expect(result.minimumMargin).toBeGreaterThan(0.1);
+  });
+
+  it('flags instantaneous overlap and undersized upstream devices', () => {
+    const instantaneous = ProtectionCoordinationService.checkCoordination(breaker('main', 200), breaker('branch', 20), 10000);
+    expect(instantaneous.coordinated).toBe(false);
+    expect(instantaneous.problem?.severity).toBe('major');
+
+    const undersized = ProtectionCoordinationService.checkCoordination(breaker('feeder', 30), breaker('branch', 40), 10000);
+    expect(undersized.problem?.severity).toBe('critical');
+  });
+
+  it('pairs upstream and downstream devices on the SLD', () => {
+    const diagram = {
+      id: 'sld',
+      name: 'Test',
+      components: [
+        { id: 'msp', type: 'main_panel', position: { x: 0, y: 0 }, rating: 200, busRating: 200, voltage: 240, phase: 1, manufacturer: '', model: '', meterLocation: 'external', groundingElectrode: true },
+        { id: 'sub', type: 'sub_panel', position: { x: 0, y: 0 }, rating: 100, voltage: 240 },
+        { id: 'cb-ev', type: 'breaker', position: { x: 0, y: 0 }, rating: '50A', poles: 2, breakerType: 'dedicated', voltage: 240, manufacturer: '', model: '' },
+        { id: 'pv-disc', type: 'ac_disconnect', position: { x: 0, y: 0 }, rating: '60A', voltage: 240, fusible: true, necLabel: '', location: '' }
+      ],
+      connections: [
+        { id: 'w1', from: 'msp', to: 'sub', type: 'ac' },
+        { id: 'w2', from: 'sub', to: 'cb-ev', type: 'ac' },
+        { id: 'w3', from: 'msp', to: 'pv-disc', type: 'ac' }
+      ]
+    } as SLDDiagram;
+
+    const study = ProtectionCoordinationService.analyzeSLD(diagram, { availableFaultCurrents: { 'cb-ev': 1500, 'pv-disc': 8000 } });
+
+    expect(study.devices.map(device => device.id)).toEqual(['msp', 'cb-ev', 'pv-disc']);
+    expect(study.devices.find(device => device.id === 'pv-disc')?.settings.kind).toBe('fuse');
+    expect(study.pairs.map(pair => [pair.upstreamId, pair.downstreamId])).toEqual([['msp', 'cb-ev'], ['msp', 'pv-disc']]);
+    expect(study.deviceOperations.find(op => op.deviceId === 'cb-ev')?.operated).toBe(true);
+  });
+
+  it('renders a log-log TCC plot', () => {
+    const devices = [breaker('Main 200A', 200), breaker('EV 50A', 50)];
+    const plot = ProtectionCoordinationService.buildTCCPlot(devices, {
+      faultCurrents: [{ label: 'MSP', current: 10000 }]
+    });
+    const svg = ProtectionCoordinationService.renderTCCPlotSVG(plot);
+
+    expect(plot.curves).toHaveLength(2);
+    expect(plot.curves[0].minimum.length).toBeGreaterThan(0);
+    expect(plot.markers).toHaveLength(1);
+    expect(svg).toContain('<svg');
+    expect(svg).toContain('Main 200A (200A TM)');
+    expect(svg).toContain('CURRENT IN AMPERES');
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { PVLayoutService } from '../../services/pvLayoutService';
+import type { PVLayout } from '../../types/pvLayout';
+
+// 40 ft × 20 ft south-facing plane at 0.1 ft per pixel
+const FEET_PER_PIXEL = 0.1;
+const southFace = (pitchDegrees = 0) => PVLayoutService.createFace(
+  'south',
+  'South',
+  [{ x: 0, y: 0 }, { x: 400, y: 0 }, { x: 400, y: 200 }, { x: 0, y: 200 }],
+  pitchDegrees,
+  180
+);
+const [irc, ircSprinklered, , noSetbacks] = PVLayoutService.FIRE_CODE_RULE_SETS;
+
+const bounds = (points: Array<{ x: number; y: number }>) => ({
+  minX: Math.min(...points.map(p => p.x)),
+  maxX: Math.max(...points.map(p => p.x)),
+  minY: Math.min(...points.map(p => p.y)),
+  maxY: Math.max(...points.map(p => p.y))
+});
+
+describe('PVLayoutService', () => {
+  it('classifies roof edges and sets them back per the fire code', () => {
+    const face = southFace();
+    expect(face.edgeTypes).toEqual(['ridge', 'rake', 'eave', 'rake']);
+    // Winding order doesn't matter
+    const reversed = PVLayoutService.createFace('r', 'R', [...face.points].reverse(), 0, 180);
+    expect(reversed.edgeTypes).toEqual(['eave', 'rake', 'ridge', 'rake']);
+
+    // 18" ridge, 36" pathway along the first rake
+    expect(PVLayoutService.edgeSetbacks(face, irc)).toEqual([18, 36, 0, 0]);
+    expect(PVLayoutService.edgeSetbacks(face, irc, 40)).toEqual([36, 36, 0, 0]);
+    expect(PVLayoutService.edgeSetbacks(face, ircSprinklered, 40)).toEqual([18, 36, 0, 0]);
+
+    const flat = bounds(PVLayoutService.buildableArea(face, irc, FEET_PER_PIXEL));
+    expect(flat.minX).toBeCloseTo(0, 6);
+    expect(flat.maxX).toBeCloseTo(370, 6);
+    expect(flat.minY).toBeCloseTo(15, 6);
+    expect(flat.maxY).toBeCloseTo(200, 6);
+
+    // Up-slope setbacks are foreshortened in plan view; the rake pathway is not
+    const pitched = bounds(PVLayoutService.buildableArea(southFace(30), irc, FEET_PER_PIXEL));
+    expect(pitched.minY).toBeCloseTo(15 * Math.cos(Math.PI / 6), 6);
+    expect(pitched.maxX).toBeCloseTo(370, 6);
+
+    const tiny = PVLayoutService.createFace('tiny', 'Tiny', [{ x: 0, y: 0 }, { x: 20, y: 0 }, { x: 20, y: 20 }, { x: 0, y: 20 }], 0, 180);
+    expect(PVLayoutService.buildableArea(tiny, irc, FEET_PER_PIXEL)).toEqual([]);
+  });
+
+  it('fills rows and widens the ridge setback at high coverage', () => {
+    const layout = PVLayoutService.fillAllFaces(PVLayoutService.createLayout([southFace()], FEET_PER_PIXEL, irc));
+
+    // Nine 44.6" portrait modules across 37 ft, three 67.8" rows down 17 ft
+    expect(layout.modules).toHaveLength(27);
+    expect(Math.min(...layout.modules.map(m => m.center.y))).toBeCloseTo(30 + 56.5 / 2, 6);
+    expect(PVLayoutService.coveragePercent(layout)).toBeGreaterThan(33);
+    expect(PVLayoutService.invalidModules(layout)).toEqual([]);
+
+    const landscape = PVLayoutService.fillAllFaces({
+      ...layout,
+      ruleSet: noSetbacks,
+      faces: [{ ...southFace(), orientation: 'landscape' }]
+    });
+    expect(landscape.modules).toHaveLength(6 * 5);
+    expect(landscape.modules.every(m => m.orientation === 'landscape')).toBe(true);
+  });
+
+  it('keeps modules clear of vents and flags invalid placements', () => {
+    const base = PVLayoutService.createLayout([southFace()], FEET_PER_PIXEL, irc);
+    const vent = PVLayoutService.createKeepOut('vent', { x: 180, y: 95 }, { x: 190, y: 105 });
+    const layout = PVLayoutService.fillAllFaces({ ...base, keepOuts: [vent] });
+
+    expect(layout.modules.length).toBeLessThan(27);
+    expect(layout.modules.length).toBeGreaterThan(20);
+    expect(PVLayoutService.invalidModules(layout)).toEqual([]);
+
+    // Drag one module onto its neighbour and another into the rake pathway
+    const [first, second, third] = layout.modules;
+    const dragged: PVLayout = {
+      ...layout,
+      modules: layout.modules.map(m => {
+        if (m.id === first.id) return { ...m, center: { x: third.center.x - 5, y: third.center.y } };
+        if (m.id === second.id) return { ...m, center: { x: 380, y: second.center.y } };
+        return m;
+      })
+    };
+    expect(PVLayoutService.invalidModules(dragged)).toEqual(expect.arrayContaining([first.id, second.id, third.id]));
+
+    const rotated = { ...layout, modules: layout.modules.map(m => (m.id === first.id ? { ...m, rotationDegrees: 20 } : m)) };
+    expect(PVLayoutService.invalidModules(rotated)).toContain(first.id);
+  });
+
+  it('strings modules per face and mirrors them into the SLD and load calculation', () => {
+    const layout = PVLayoutService.fillAllFaces(PVLayoutService.createLayout([southFace()], FEET_PER_PIXEL, irc));
+    const summary = PVLayoutService.summarize(layout);
+
+    expect(summary.moduleCount).toBe(27);
+    expect(summary.dcKw).toBe(10.8);
+    expect(summary.strings.map(s => s.moduleIds.length)).toEqual([9, 9, 9]);
+    // Serpentine: the second string starts at the far end of the second row
+    expect(summary.strings[0].moduleIds[0]).toBe('south-1-1');
+    expect(summary.strings[0].moduleIds[8]).toBe('south-1-9');
+    expect(summary.strings[1].moduleIds[0]).toBe('south-2-9');
+
+    // Strings are balanced rather than filled to the limit
+    const balanced = PVLayoutService.buildStrings({ ...layout, maxModulesPerString: 14 });
+    expect(balanced.map(s => s.moduleIds.length)).toEqual([14, 13]);
+
+    const [array] = PVLayoutService.pvArrayComponents(layout, summary.strings);
+    expect(array).toMatchObject({
+      id: 'pv_layout_south',
+      type: 'pv_array',
+      numStrings: 3,
+      modulesPerString: 9,
+      moduleWattage: 400,
+      arrayVoltage: 279,
+      arrayCurrent: 38.7,
+      location: 'roof'
+    });
+    expect(array.specifications).toMatchObject({ source: 'pv_layout', moduleCount: 27, dcKw: 10.8 });
+
+    expect(PVLayoutService.solarLoadFields(summary)).toMatchObject({
+      source: 'pv_layout',
+      moduleCount: 27,
+      dcKw: 10.8,
+      kw: 9,
+      inverterAmps: 37.5,
+      breaker: 50,
+      quantity: 1
+    });
+  });
+
+  it('builds faces from the AI roof analysis grid', () => {
+    const square = (x: number) => [{ x, y: 0 }, { x: x + 32, y: 0 }, { x: x + 32, y: 32 }, { x, y: 32 }];
+    const faces = PVLayoutService.facesFromRoofAnalysis({
+      roofSegments: [
+        { id: 'a', area: 10, slope: 25, orientation: 180, suitability: 0.8, coordinates: square(0) },
+        { id: 'b', area: 10, slope: 25, orientation: 0, suitability: 0.3, coordinates: square(32) }
+      ]
+    }, { x: 2, y: 2 });
+
+    expect(faces).toHaveLength(1);
+    expect(faces[0]).toMatchObject({ id: 'a', label: 'Face 1', pitchDegrees: 25, azimuthDegrees: 180 });
+    expect(faces[0].points[2]).toEqual({ x: 64, y: 64 });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PVProductionService } from '../../services/pvProductionService';
+import { SecureApiService } from '../../services/secureApiService';
+import type { SLDDiagram } from '../../types/sld';
+
+const rectangle = (x: number, y: number, width: number, height: number) => [
+  { x, y },
+  { x: x + width, y },
+  { x: x + width, y: y + height },
+  { x, y: y + height }
+];
+
+const panel = (id: string, x: number, y: number) => ({ id, x, y, width: 18, height: 28, efficiency: 0.9, annualProduction: 540 });
+
+describe('PVProductionService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('groups the AI panel layout into one array per roof segment', () => {
+    const arrays = PVProductionService.arraysFromRoofAnalysis({
+      roofSegments: [
+        { id: 'south', area: 40, slope: 25, orientation: 180, suitability: 0.9, coordinates: rectangle(0, 0, 100, 60) },
+        { id: 'west', area: 30, slope: 20, orientation: 270, suitability: 0.7, coordinates: rectangle(200, 0, 80, 60) },
+        { id: 'north', area: 30, slope: 25, orientation: 0, suitability: 0.2, coordinates: rectangle(0, 100, 100, 60) }
+      ],
+      panelPlacement: [
+        panel('p1', 2, 2),
+        panel('p2', 22, 2),
+        panel('p3', 202, 2),
+        // Spills past the west outline and falls back to the nearest segment
+        panel('p4', 282, 10)
+      ]
+    });
+
+    expect(arrays).toEqual([
+      { id: 'south', dcKw: 0.8, pitchDegrees: 25, azimuthDegrees: 180, moduleCount: 2, mounting: 'roof' },
+      { id: 'west', dcKw: 0.8, pitchDegrees: 20, azimuthDegrees: 270, moduleCount: 2, mounting: 'roof' }
+    ]);
+    expect(PVProductionService.defaultArrays(5, -33)).toEqual([
+      expect.objectContaining({ dcKw: 6, pitchDegrees: 30, azimuthDegrees: 0 })
+    ]);
+    expect(PVProductionService.defaultArrays(0, 40)).toEqual([]);
+  });
+
+  it('takes arrays from the roof layout editor', () => {
+    const face = (id: string, azimuthDegrees: number) => ({
+      id, label: id, points: rectangle(0, 0, 100, 60), pitchDegrees: 22, azimuthDegrees,
+      edgeTypes: [], orientation: 'portrait' as const, rowSpacingIn: 0
+    });
+    const module = (id: string, faceId: string) => ({ id, faceId, center: { x: 10, y: 10 }, orientation: 'portrait' as const, rotationDegrees: 0 });
+
+    expect(PVProductionService.arraysFromLayout({
+      faces: [face('east', 90), face('west', 270)],
+      modules: [module('m1', 'west'), module('m2', 'west'), module('m3', 'west')],
+      module: { manufacturer: '', model: '', watts: 410, widthIn: 44, lengthIn: 68, voc: 37, vmp: 31, isc: 14, imp: 13 }
+    })).toEqual([
+      { id: 'west', dcKw: 1.23, pitchDegrees: 22, azimuthDegrees: 270, moduleCount: 3, mounting: 'roof' }
+    ]);
+  });
+
+  it('reads inverter ratings from the single-line diagram', () => {
+    const diagram = {
+      components: [
+        { id: 'inv-1', type: 'inverter', inverterType: 'string', acOutputKW: 7.6, efficiency: 97.5 },
+        { id: 'micro', type: 'inverter', specifications: { inverterType: 'micro', acOutputKW: 0.29, efficiency: 0.976, cecEfficiency: 0.97 } },
+        { id: 'panel', type: 'main_panel' },
+        { id: 'blank', type: 'inverter', inverterType: 'string' }
+      ]
+    } as unknown as SLDDiagram;
+
+    expect(PVProductionService.invertersFromSLD(diagram, 20)).toEqual([
+      { id: 'inv-1', acKw: 7.6, efficiency: 0.975, quantity: 1 },
+      { id: 'micro', acKw: 0.29, efficiency: 0.97, quantity: 20 }
+    ]);
+    expect(PVProductionService.invertersFromSLD(null)).toEqual([]);
+  });
+
+  it('requires an array before requesting a simulation', async () => {
+    const request = vi.spyOn(SecureApiService, 'getSolarProduction').mockResolvedValue({} as any);
+
+    await expect(PVProductionService.simulate(40, -105, [])).rejects.toMatchObject({ message: 'At least one array is required' });
+    expect(request).not.toHaveBeenCalled();
+
+    const arrays = PVProductionService.defaultArrays(5, 40);
+    await PVProductionService.simulate(40, -105, arrays, [{ id: 'inv', acKw: 5 }]);
+    expect(request).toHaveBeenCalledWith({ lat: 40, lon: -105, arrays, inverters: [{ id: 'inv', acKw: 5 }] });
+  });
+
+  it('values lifetime output at an escalating utility rate', () => {
+    const estimate = {
+      degradation: {
+        ratePercent: 0.5,
+        years: 2,
+        schedule: [{ year: 1, acKwh: 10000 }, { year: 2, acKwh: 9950 }],
+        lifetimeAcKwh: 19950
+      }
+    };
+
+    expect(PVProductionService.lifetimeValue(estimate, 0.2, 0)).toBe(3990);
+    expect(PVProductionService.lifetimeValue(estimate, 0.1, 10)).toBe(Math.round(1000 + 995 * 1.1));
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { ServiceUpgradePlanner, UPGRADE_COST_ESTIMATES } from '../../services/serviceUpgradePlannerService';
+import type { UpgradePlannerOptions } from '../../services/serviceUpgradePlannerService';
+import { LOAD_TEMPLATES } from '../../constants';
+import type { LoadState, PanelDetails } from '../../types';
+
+const panelDetails: PanelDetails = {
+  manufacturer: 'Square D',
+  model: 'QO',
+  type: 'Main Panel',
+  phases: 1,
+  voltage: 240,
+  busRating: 200,
+  interruptingRating: 10000,
+  availableSpaces: 20,
+  usedSpaces: 16
+};
+
+const options: UpgradePlannerOptions = {
+  calculationMethod: 'optional',
+  squareFootage: 1800,
+  actualDemandData: { enabled: false, averageDemand: 0, peakDemand: 0, dataSource: '', measurementPeriod: '' },
+  codeYear: '2023'
+};
+
+// Fresh copies: other suites mutate the shared templates
+const withQuantities = (quantities: { general?: number[]; hvac?: number[]; evse?: number[] }): LoadState => {
+  const activate = <T extends { id: number; quantity: number; va: number; total: number }>(loads: T[], ids: number[] = []): T[] =>
+    loads.map(load => {
+      const quantity = ids.includes(load.id) ? 1 : 0;
+      return { ...load, quantity, total: load.va * quantity };
+    });
+  return {
+    generalLoads: activate(LOAD_TEMPLATES.general, quantities.general),
+    hvacLoads: activate(LOAD_TEMPLATES.hvac, quantities.hvac),
+    evseLoads: activate(LOAD_TEMPLATES.evse, quantities.evse),
+    solarBatteryLoads: LOAD_TEMPLATES.solar.map(load => ({ ...load }))
+  };
+};
+
+describe('ServiceUpgradePlanner', () => {
+  // Range, dryer, water heater, AC, resistance heat and two chargers on a 200 A service
+  const loads = withQuantities({ general: [1, 6, 7], hvac: [1, 4], evse: [1, 2] });
+
+  it('ranks scenarios that avoid the upgrade ahead of cheaper ones that do not', () => {
+    const plan = ServiceUpgradePlanner.plan(loads, 200, panelDetails, options)!;
+
+    expect(plan.upgradeRequired).toBe(true);
+    expect(plan.baselineAmps).toBeGreaterThan(200);
+    expect(plan.scenarios.length).toBeGreaterThan(0);
+
+    const firstFailing = plan.scenarios.findIndex(scenario => !scenario.avoidsUpgrade);
+    const passing = firstFailing === -1 ? plan.scenarios : plan.scenarios.slice(0, firstFailing);
+    expect(passing.length).toBeGreaterThan(0);
+    expect(plan.scenarios.slice(passing.length).every(scenario => !scenario.avoidsUpgrade)).toBe(true);
+    passing.forEach(scenario => expect(scenario.totalAmps).toBeLessThanOrEqual(200));
+    for (let index = 1; index < passing.length; index++) {
+      expect(passing[index].estimatedCost).toBeGreaterThanOrEqual(passing[index - 1].estimatedCost);
+    }
+    // Sharing the two chargers on one SimpleSwitch is the cheapest fix
+    expect(passing[0].id).toBe('simpleswitch:evse1-evse2');
+    // 220.57 counts each charger at 7,200 VA or more, so turning them down does not get there
+    expect(plan.scenarios.find(scenario => scenario.id === 'evse_downsize')!.avoidsUpgrade).toBe(false);
+  });
+
+  it('picks the highest EMS and DCC cap that keeps the service', () => {
+    const plan = ServiceUpgradePlanner.plan(loads, 200, panelDetails, options)!;
+    const ems = plan.scenarios.find(scenario => scenario.id === 'ems')!;
+
+    expect(ems.settings).toMatchObject({ loadManagementType: 'ems', useEMS: false, simpleSwitchLoadA: null });
+    expect(ems.estimatedCost).toBe(UPGRADE_COST_ESTIMATES.ems);
+    expect(ems.loadChanges).toEqual([]);
+    // Both cap the EVSE the same way in the calculation, so they land on the same setting
+    expect(plan.scenarios.find(scenario => scenario.id === 'dcc')!.settings.loadManagementMaxLoad)
+      .toBe(ems.settings.loadManagementMaxLoad);
+    expect(ems.settings.loadManagementMaxLoad).toBe(48);
+    expect(ems.avoidsUpgrade).toBe(true);
+  });
+
+  it('pairs specific loads for SimpleSwitch within its 50 A rating', () => {
+    const plan = ServiceUpgradePlanner.plan(loads, 200, panelDetails, options)!;
+    const pairs = plan.scenarios.filter(scenario => scenario.strategies[0] === 'simpleswitch');
+
+    expect(pairs.length).toBeGreaterThan(0);
+    pairs.forEach(scenario => {
+      const { simpleSwitchLoadA, simpleSwitchLoadB } = scenario.settings;
+      expect(simpleSwitchLoadA!.amps).toBeLessThanOrEqual(50);
+      expect(simpleSwitchLoadB!.amps).toBeLessThanOrEqual(50);
+      expect(scenario.id).toBe(`${scenario.strategies.join('+')}:${simpleSwitchLoadA!.type}${simpleSwitchLoadA!.id}-${simpleSwitchLoadB!.type}${simpleSwitchLoadB!.id}`);
+    });
+    expect(pairs.some(scenario =>
+      scenario.settings.simpleSwitchLoadA?.name === 'Electric Clothes Dryer' && scenario.settings.simpleSwitchLoadB?.type === 'evse'
+    )).toBe(true);
+  });
+
+  it('downsizes chargers and swaps resistance heat with load changes the calculator can apply', () => {
+    // 2020 has no 220.57 minimum, so lower charger settings count in full
+    const plan = ServiceUpgradePlanner.plan(loads, 200, panelDetails, { ...options, codeYear: '2020' })!;
+
+    const downsize = plan.scenarios.find(scenario => scenario.id === 'evse_downsize')!;
+    expect(downsize).toMatchObject({ avoidsUpgrade: true, settings: { loadManagementType: 'none' } });
+    expect(downsize.loadChanges).toEqual([
+      { category: 'evse', id: 1, updates: { amps: 24, va: 5760, total: 5760 } },
+      { category: 'evse', id: 2, updates: { amps: 24, va: 5760, total: 5760 } }
+    ]);
+    expect(downsize.estimatedCost).toBe(2 * UPGRADE_COST_ESTIMATES.evseDownsizePerCharger);
+
+    const heatPump = plan.scenarios.find(scenario => scenario.id === 'heat_pump')!;
+    expect(heatPump.loadChanges).toEqual([{
+      category: 'hvac',
+      id: 4,
+      updates: { amps: 7, va: 1680, total: 1680, name: 'Heat Pump (replaces Heater)', type: 'hvac' }
+    }]);
+    expect(heatPump.estimatedCost).toBe(UPGRADE_COST_ESTIMATES.heatPumpPerUnit);
+
+    const applied = ServiceUpgradePlanner.applyLoadChanges(loads, heatPump.loadChanges);
+    expect(applied.hvacLoads.find(load => load.id === 4)).toMatchObject({ amps: 7, type: 'hvac' });
+    expect(loads.hvacLoads.find(load => load.id === 4)).toMatchObject({ amps: 16, type: 'resistance_heat' });
+    expect(plan.scenarios.some(scenario => scenario.strategies.includes('heat_pump') && scenario.strategies.includes('ems'))).toBe(true);
+  });
+
+  it('reports no upgrade when the service already has room', () => {
+    const plan = ServiceUpgradePlanner.plan(withQuantities({ general: [1], evse: [2] }), 200, panelDetails, options)!;
+
+
+    expect(plan.upgradeRequired).toBe(false);
+    expect(plan.scenarios.every(scenario => scenario.avoidsUpgrade)).toBe(true);
+  });
+
+  it('returns no plan for inputs the calculator rejects and for non-dwelling methods', () => {
+    expect(ServiceUpgradePlanner.plan(loads, 200, panelDetails, { ...options, squareFootage: 0 })).toBeNull();
+    expect(ServiceUpgradePlanner.plan(loads, 200, panelDetails, { ...options, squareFootage: 150000 })).toBeNull();
+    expect(ServiceUpgradePlanner.plan(loads, 123, panelDetails, options)).toBeNull();
+    expect(ServiceUpgradePlanner.plan(loads, 200, panelDetails, { ...options, calculationMethod: 'multifamily' })).toBeNull();
+    expect(ServiceUpgradePlanner.plan(loads, 200, panelDetails, { ...options, calculationMethod: 'commercial' })).toBeNull();
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createSyncServer, type SyncServer } from '../../../sync-server.js';
+import { SLDCollaborationService } from '../../services/sldCollaborationService';
+import type { User } from '../../services/sldCollaborationService';
+import type { SLDDiagram } from '../../types/sld';
+
+const createUser = (id: string, color: string): User => ({
+  id,
+  name: id === 'alice' ? 'Alice' : 'Bob',
+  email: `${id}@example.com`,
+  color,
+  isOnline: true,
+  lastActivity: new Date()
+});
+
+const createDiagram = (): SLDDiagram => ({
+  id: 'diagram-1',
+  name: 'Smith Residence One-Line',
+  components: [
+    { id: 'inv', type: 'inverter', name: 'Inverter', position: { x: 100, y: 100 }, properties: { rating: 7600, manufacturer: 'SolarEdge' } },
+    { id: 'msp', type: 'main_panel', name: 'Main Panel', position: { x: 300, y: 100 }, properties: { busRating: 200 } }
+  ] as any,
+  connections: []
+});
+
+const ALICE = createUser('alice', '#ef4444');
+const BOB = createUser('bob', '#3b82f6');
+// Edits are flushed by hand so they are genuinely concurrent
+const MANUAL_FLUSH = { flushIntervalMs: 60_000 };
+
+describe('SLDCollaborationService sync', () => {
+  let httpServer: Server;
+  let syncServer: SyncServer;
+  let url: string;
+  let alice: SLDCollaborationService;
+  let bob: SLDCollaborationService;
+
+  beforeEach(async () => {
+    httpServer = createServer();
+    syncServer = createSyncServer({ server: httpServer });
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    url = `ws://127.0.0.1:${(httpServer.address() as AddressInfo).port}/sld-sync`;
+    alice = new SLDCollaborationService();
+    bob = new SLDCollaborationService();
+  });
+
+  afterEach(async () => {
+    alice.cleanup();
+    bob.cleanup();
+    await syncServer.close();
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  const startPair = async () => {
+    const session = alice.createSession('diagram-1', ALICE, createDiagram());
+    await alice.connect(session.id, { url, ...MANUAL_FLUSH });
+    await bob.joinRemoteSession(session.id, 'diagram-1', BOB, { url, token: session.token, ...MANUAL_FLUSH });
+    await vi.waitFor(() => expect(bob.getDiagram(session.id)).not.toBeNull());
+    await vi.waitFor(() => expect(alice.getSession(session.id)!.participants).toHaveLength(2));
+    return session.id;
+  };
+
+  it('hands a late joiner the host diagram and everything edited so far', async () => {
+    const session = alice.createSession('diagram-1', ALICE, createDiagram());
+    alice.addChange(session.id, { type: 'component_move', componentId: 'inv', data: { position: { x: 140, y: 120 } }, userId: 'alice' });
+    await alice.connect(session.id, { url, ...MANUAL_FLUSH });
+
+    const joined = await bob.joinRemoteSession(session.id, 'diagram-1', BOB, { url, token: session.token, ...MANUAL_FLUSH });
+    await vi.waitFor(() => expect(bob.getDiagram(session.id)).not.toBeNull());
+
+    expect(joined.participants.map(participant => participant.id)).toEqual(['alice', 'bob']);
+    expect(bob.getDiagram(session.id)!.components.find(c => c.id === 'inv')!.position).toEqual({ x: 140, y: 120 });
+  });
+
+  it('turns away a join without the session token and edits made in another user name', async () => {
+    const session = alice.createSession('diagram-1', ALICE, createDiagram());
+    await alice.connect(session.id, { url, ...MANUAL_FLUSH });
+
+    await bob.joinRemoteSession(session.id, 'diagram-1', BOB, { url, token: 'guessed', ...MANUAL_FLUSH });
+    const errors: string[] = [];
+    bob.subscribe(session.id, event => event.type === 'error' && errors.push(event.message));
+    await vi.waitFor(() => expect(errors).toEqual(['Invalid session token']));
+    expect(bob.getDiagram(session.id)).toBeNull();
+    expect(alice.getSession(session.id)!.participants.map(participant => participant.id)).toEqual(['alice']);
+
+    const sessionId = session.id;
+    bob.cleanup();
+    bob = new SLDCollaborationService();
+    await bob.joinRemoteSession(sessionId, 'diagram-1', BOB, { url, token: session.token, ...MANUAL_FLUSH });
+    await vi.waitFor(() => expect(alice.getSession(sessionId)!.participants).toHaveLength(2));
+
+    bob.addChange(sessionId, { type: 'component_move', componentId: 'inv', data: { position: { x: 0, y: 0 } }, userId: 'alice' });
+    bob.addChange(sessionId, { type: 'component_move', componentId: 'msp', data: { position: { x: 10, y: 10 } }, userId: 'bob' });
+    bob.syncChanges(sessionId);
+    await vi.waitFor(() => expect(alice.getSession(sessionId)!.changes).toHaveLength(1));
+    expect(alice.getSession(sessionId)!.changes[0].userId).toBe('bob');
+  });
+
+  it('merges concurrent moves and property edits to the same state on both sides', async () => {
+    const sessionId = await startPair();
+
+    alice.addChange(sessionId, { type: 'component_move', componentId: 'inv', data: { position: { x: 150, y: 100 } }, userId: 'alice' });
+    alice.addChange(sessionId, { type: 'component_update', componentId: 'inv', data: { properties: { rating: 10000 } }, userId: 'alice' });
+    bob.addChange(sessionId, { type: 'component_move', componentId: 'inv', data: { position: { x: 100, y: 220 } }, userId: 'bob' });
+    bob.addChange(sessionId, { type: 'component_update', componentId: 'inv', data: { properties: { manufacturer: 'Enphase' } }, userId: 'bob' });
+    bob.addChange(sessionId, { type: 'component_move', componentId: 'msp', data: { position: { x: 320, y: 140 } }, userId: 'bob' });
+    alice.syncChanges(sessionId);
+    bob.syncChanges(sessionId);
+
+    await vi.waitFor(() => {
+      expect(alice.getSession(sessionId)!.changes).toHaveLength(5);
+      expect(bob.getSession(sessionId)!.changes).toHaveLength(5);
+    });
+
+    const aliceDiagram = alice.getDiagram(sessionId)!;
+    expect(bob.getDiagram(sessionId)).toEqual(aliceDiagram);
+
+    const inverter = aliceDiagram.components.find(c => c.id === 'inv')!;
+    // Same Lamport version on both moves: the tie goes to the higher user id
+    expect(inverter.position).toEqual({ x: 100, y: 220 });
+    // Different property keys both survive
+    expect(inverter.properties).toEqual({ rating: 10000, manufacturer: 'Enphase' });
+    expect(aliceDiagram.components.find(c => c.id === 'msp')!.position).toEqual({ x: 320, y: 140 });
+
+    const bobsMove = alice.getSession(sessionId)!.changes.find(c => c.userId === 'bob' && c.componentId === 'inv' && c.type === 'component_move')!;
+    const bobsEdit = alice.getSession(sessionId)!.changes.find(c => c.userId === 'bob' && c.type === 'component_update')!;
+    expect(bobsMove.conflictResolution).toBe('remote');
+    expect(bobsEdit.conflictResolution).toBe('merged');
+    const alicesMove = bob.getSession(sessionId)!.changes.find(c => c.userId === 'alice' && c.type === 'component_move')!;
+    expect(alicesMove.conflictResolution).toBe('local');
+  });
+
+  it('orders a change made after seeing a remote one after it', async () => {
+    const sessionId = await startPair();
+
+    bob.addChange(sessionId, { type: 'component_move', componentId: 'inv', data: { position: { x: 0, y: 0 } }, userId: 'bob' });
+    bob.syncChanges(sessionId);
+    await vi.waitFor(() => expect(alice.getSession(sessionId)!.changes).toHaveLength(1));
+
+    alice.addChange(sessionId, { type: 'component_move', componentId: 'inv', data: { position: { x: 50, y: 50 } }, userId: 'alice' });
+    alice.syncChanges(sessionId);
+    await vi.waitFor(() => expect(bob.getSession(sessionId)!.changes).toHaveLength(2));
+
+    expect(bob.getDiagram(sessionId)!.components.find(c => c.id === 'inv')!.position).toEqual({ x: 50, y: 50 });
+    expect(alice.getDiagram(sessionId)).toEqual(bob.getDiagram(sessionId));
+  });
+
+  it('keeps a removed component removed when a concurrent edit arrives first', async () => {
+    const sessionId = await startPair();
+
+    alice.addChange(sessionId, { type: 'component_move', componentId: 'msp', data: { position: { x: 0, y: 0 } }, userId: 'alice' });
+    bob.addChange(sessionId, { type: 'component_update', componentId: 'msp', data: { name: 'Renamed' }, userId: 'bob' });
+    bob.addChange(sessionId, { type: 'component_remove', componentId: 'msp', data: null, userId: 'bob' });
+    alice.syncChanges(sessionId);
+    bob.syncChanges(sessionId);
+
+    await vi.waitFor(() => expect(alice.getSession(sessionId)!.changes).toHaveLength(3));
+    await vi.waitFor(() => expect(bob.getSession(sessionId)!.changes).toHaveLength(3));
+    expect(alice.getDiagram(sessionId)!.components.map(c => c.id)).toEqual(['inv']);
+    expect(bob.getDiagram(sessionId)).toEqual(alice.getDiagram(sessionId));
+  });
+
+  it('shares presence cursors in each participant colour and drops them on leave', async () => {
+    const sessionId = await startPair();
+    const events: string[] = [];
+    alice.subscribe(sessionId, event => events.push(event.type));
+
+    bob.updatePresence(sessionId, { x: 42, y: 84 }, ['inv']);
+    await vi.waitFor(() => expect(alice.getPresence(sessionId)).toHaveLength(1));
+
+    expect(alice.getPresence(sessionId)[0]).toMatchObject({
+      userId: 'bob',
+      name: 'Bob',
+      color: '#3b82f6',
+      position: { x: 42, y: 84 },
+      selection: ['inv']
+    });
+    expect(events).toContain('presence');
+
+    bob.leaveSession(sessionId, 'bob');
+    await vi.waitFor(() => expect(alice.getPresence(sessionId)).toEqual([]));
+    expect(alice.getSession(sessionId)!.participants.map(participant => participant.id)).toEqual(['alice']);
+    expect(bob.isConnected(sessionId)).toBe(false);
+  });
+});
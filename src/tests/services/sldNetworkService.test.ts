@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { SLDNetworkService } from '../../services/sldNetworkService';
+import { LoadFlowAnalysisService } from '../../services/loadFlowAnalysisService';
+import { WIRE_RESISTANCE } from '../../constants/necConstants';
+import type { SLDDiagram } from '../../types/sld';
+
+const createDiagram = (): SLDDiagram => ({
+  id: 'sld',
+  name: 'Residence',
+  components: [
+    { id: 'utility', type: 'utility_service', position: { x: 0, y: 0 }, serviceType: 'underground', voltage: 240, rating: '200A' },
+    { id: 'meter', type: 'meter_socket', position: { x: 0, y: 100 }, rating: '200A', voltage: 240 },
+    { id: 'msp', type: 'main_panel', position: { x: 0, y: 200 }, rating: 200, busRating: 225, voltage: 240, phase: 1, manufacturer: '', model: '', meterLocation: 'external', groundingElectrode: true, interruptingRating: 10000 },
+    { id: 'cb-sub', type: 'breaker', position: { x: 100, y: 200 }, rating: '60A', poles: 2, breakerType: 'standard', voltage: 240, manufacturer: '', model: '' },
+    { id: 'sub', type: 'sub_panel', position: { x: 200, y: 200 }, rating: 60, voltage: 240 },
+    { id: 'evse', type: 'evse_charger', position: { x: 300, y: 200 }, manufacturer: '', model: '', powerKW: 9.6, voltage: 240, current: 40, level: 2, circuitBreaker: '50A', dedicatedCircuit: true, necCompliant: true },
+    { id: 'ac-disc', type: 'ac_disconnect', position: { x: 0, y: 300 }, rating: '40A', voltage: 240, fusible: false, necLabel: '', location: 'exterior' },
+    { id: 'inv', type: 'inverter', position: { x: 0, y: 400 }, inverterType: 'string', manufacturer: '', model: '', acOutputKW: 7.6, dcInputVoltage: 400, acOutputVoltage: 240, efficiency: 0.97, mpptChannels: 2 },
+    { id: 'pv', type: 'pv_array', position: { x: 0, y: 500 }, numStrings: 2, modulesPerString: 10, moduleWattage: 400, moduleVoltage: 40, moduleCurrent: 10, arrayVoltage: 400, arrayCurrent: 20, manufacturer: '', model: '', location: 'roof' },
+    { id: 'orphan', type: 'sub_panel', position: { x: 500, y: 500 }, rating: 100, voltage: 240 }
+  ],
+  connections: [
+    { id: 'w-service', from: 'utility', to: 'meter', type: 'ac', conductorSize: '4/0', length: 40 },
+    { id: 'w-meter', from: 'meter', to: 'msp', type: 'ac', conductorSize: '#4/0 AWG', length: 5 },
+    { id: 'w-feeder-1', from: 'msp', to: 'cb-sub', type: 'ac', conductorSize: '6', length: 1 },
+    { id: 'w-feeder-2', from: 'cb-sub', to: 'sub', type: 'ac', conductorSize: '6', length: 79 },
+    { id: 'w-evse', from: 'sub', to: 'evse', type: 'ac', conductorSize: '8', length: 20 },
+    { id: 'w-pv-out', from: 'msp', to: 'ac-disc', type: 'ac', length: 30 },
+    { id: 'w-inv', from: 'ac-disc', to: 'inv', type: 'ac', length: 10 },
+    { id: 'w-dc', from: 'pv', to: 'inv', type: 'dc', conductorSize: '10' }
+  ]
+} as SLDDiagram);
+
+describe('SLDNetworkService', () => {
+  it('maps service equipment and panels to buses and feeders to branches', () => {
+    const { network, componentBusMap, warnings } = SLDNetworkService.buildNetwork(createDiagram());
+
+    // Without the utility's fault current a 10,000 A source is assumed behind the service
+    expect(network.buses.map(bus => bus.id)).toEqual(['utility-utility-source', 'utility', 'meter', 'msp', 'sub']);
+    expect(network.buses.find(bus => bus.type === 'slack')?.id).toBe('utility-utility-source');
+    expect(network.buses.every(bus => bus.nominalVoltage === 0.24)).toBe(true);
+    expect(warnings.some(warning => warning.includes('orphan'))).toBe(true);
+    expect(warnings.some(warning => warning.includes('10,000 A was assumed'))).toBe(true);
+
+    // Feeder through the breaker is one branch; single-phase counts both conductors
+    const feeder = network.branches.find(branch => branch.toBus === 'sub')!;
+    const baseImpedance = 0.24 * 0.24 / network.baseValues.baseMVA;
+    expect(feeder.fromBus).toBe('msp');
+    expect(feeder.resistance).toBeCloseTo(2 * WIRE_RESISTANCE.copper['6'] * 80 / 1000 / baseImpedance, 6);
+    expect(network.protectionDevices?.find(device => device.id === 'cb-sub')?.branchId).toBe(feeder.id);
+
+    expect(componentBusMap['cb-sub']).toBe('msp');
+    expect(componentBusMap['evse']).toBe('sub');
+    expect(componentBusMap['inv']).toBe('msp');
+    expect(componentBusMap['pv']).toBeUndefined();
+  });
+
+  it('turns loads and inverters into network loads and generators', () => {
+    const { network, conductors } = SLDNetworkService.buildNetwork(createDiagram(), { generationFactor: 0.5 });
+
+    const evse = network.loads.find(load => load.id === 'evse')!;
+    expect(evse.busId).toBe('sub');
+    expect(Math.hypot(evse.activePower, evse.reactivePower)).toBeCloseTo(0.0096, 6);
+
+    const inverter = network.generators.find(generator => generator.id === 'inv')!;
+    expect(inverter.busId).toBe('msp');
+    expect(inverter.ratedPower).toBeCloseTo(0.0076, 6);
+    expect(inverter.powerOutput).toBeCloseTo(0.0038, 6);
+
+    // The PV output circuit has no size on the drawing and is sized from its 40 A disconnect
+    const pvOutput = conductors.find(conductor => conductor.connectionId === 'w-pv-out')!;
+    expect(pvOutput.autoSized).toBe(true);
+    expect(pvOutput.conductorSize).toBe('8');
+    expect(conductors.some(conductor => conductor.connectionId === 'w-dc')).toBe(false);
+  });
+
+  it('produces a network the load flow and short circuit studies can solve', async () => {
+    const diagram = createDiagram();
+    const { network, componentBusMap } = SLDNetworkService.buildNetwork(diagram, {
+      utilityFaultCurrent: 22000,
+      panelDemandKVA: { msp: 24 }
+    });
+
+    expect(network.buses[0].type).toBe('slack');
+    expect(network.buses.find(bus => bus.id === 'utility')?.type).toBe('pq');
+
+    const loadFlow = await LoadFlowAnalysisService.performLoadFlow(network);
+    const voltage = (busId: string) => loadFlow.busResults.find(bus => bus.busId === busId)!.voltageMagnitude;
+    expect(loadFlow.converged).toBe(true);
+    expect(voltage('sub')).toBeLessThan(voltage('msp'));
+    expect(voltage('msp')).toBeLessThan(1);
+
+    const ratings = LoadFlowAnalysisService.getEquipmentRatingsFromSLD(diagram, undefined, id => componentBusMap[id]);
+    const study = await LoadFlowAnalysisService.performShortCircuitStudy(network, ratings);
+    const service = study.busSummaries.find(bus => bus.busId === 'utility')!;
+    expect(service.faultCurrents.three_phase! * 1000).toBeCloseTo(22000, -2);
+    expect(study.equipmentStress.find(stress => stress.equipmentId === 'msp')?.withinRating).toBe(false);
+  });
+});
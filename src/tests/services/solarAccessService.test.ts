@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SolarAccessService } from '../../services/solarAccessService';
+import { SecureApiService } from '../../services/secureApiService';
+import { AerialMeasurementService } from '../../services/aerialMeasurementService';
+
+const square = (cx: number, cy: number, half: number) => [
+  { x: cx - half, y: cy - half },
+  { x: cx + half, y: cy - half },
+  { x: cx + half, y: cy + half },
+  { x: cx - half, y: cy + half }
+];
+
+describe('SolarAccessService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('converts tagged aerial shapes to feet north and east of the image center', () => {
+    const feetPerPixel = AerialMeasurementService.calculateMetersPerPixel(20, 40) * 3.28084;
+    const obstructions = SolarAccessService.obstructionsFromAerial({
+      area: [
+        { id: 'tree', points: square(400, 500, 10), obstruction: { kind: 'tree', heightFt: 40 } },
+        { id: 'roof-outline', points: square(400, 300, 50) }
+      ],
+      polyline: [
+        { id: 'neighbor', points: [{ x: 100, y: 300 }, { x: 100, y: 200 }], obstruction: { kind: 'building', heightFt: 22 } }
+      ]
+    }, { zoom: 20, latitude: 40, center: { x: 400, y: 300 } });
+
+    expect(obstructions.map(o => o.id)).toEqual(['tree', 'neighbor']);
+    expect(obstructions[0].closed).toBe(true);
+    expect(obstructions[1].closed).toBe(false);
+
+    // The canopy corner 190 px below the center is south; 300 px left is west
+    expect(obstructions[0].points[0].y).toBeCloseTo(-190 * feetPerPixel, 6);
+    expect(obstructions[1].points[0]).toEqual({ x: -300 * feetPerPixel, y: 0 });
+  });
+
+  it('uses calibrated photo editor scale and skips angle measurements', () => {
+    const obstructions = SolarAccessService.obstructionsFromEditor([
+      { id: 'chimney', type: 'area', points: square(520, 400, 5), obstruction: { kind: 'chimney', heightFt: 28 } },
+      { id: 'angle', type: 'angle', points: square(0, 0, 1), obstruction: { kind: 'tree', heightFt: 30 } }
+    ], 4, { x: 400, y: 400 });
+
+    expect(obstructions).toHaveLength(1);
+    expect(obstructions[0].points[0]).toEqual({ x: 28.75, y: 1.25 });
+    expect(SolarAccessService.obstructionsFromEditor([], 0, { x: 0, y: 0 })).toEqual([]);
+  });
+
+  it('positions Google Solar roof segments relative to the site', () => {
+    // Google Solar plane heights are above sea level: a 6 m roof at a 1609 m site
+    const roofStats = [
+      { pitchDegrees: 25, azimuthDegrees: 190, center: { latitude: 40.0001, longitude: -105 }, planeHeightAtCenterMeters: 1615 },
+      { pitchDegrees: 25, azimuthDegrees: 10 }
+    ];
+    const segments = SolarAccessService.segmentsFromRoofStats(roofStats, { latitude: 40, longitude: -105, groundElevationMeters: 1609 });
+
+    expect(segments[0].position.y).toBeCloseTo(36.5, 0);
+    expect(segments[0].heightFt).toBeCloseTo(19.7, 1);
+    expect(segments[1]).toMatchObject({ position: { x: 0, y: 0 }, heightFt: SolarAccessService.DEFAULT_ROOF_HEIGHT_FT });
+
+    // Without the ground elevation the lowest plane sits at the default height and the others stay above it
+    const unknownGround = SolarAccessService.segmentsFromRoofStats(
+      [...roofStats, { pitchDegrees: 30, azimuthDegrees: 180, planeHeightAtCenterMeters: 1618 }],
+      { latitude: 40, longitude: -105 }
+    );
+    expect(unknownGround[0].heightFt).toBeCloseTo(SolarAccessService.DEFAULT_ROOF_HEIGHT_FT, 6);
+    expect(unknownGround[2].heightFt).toBeCloseTo(SolarAccessService.DEFAULT_ROOF_HEIGHT_FT + 3 * 3.28084, 6);
+
+    // When the datums disagree the roof height falls back to the default
+    const belowGrade = SolarAccessService.segmentsFromRoofStats(roofStats, { latitude: 40, longitude: -105, groundElevationMeters: 1620 });
+    expect(belowGrade[0].heightFt).toBe(SolarAccessService.DEFAULT_ROOF_HEIGHT_FT);
+
+    const fallback = SolarAccessService.segmentsFromRoofStats(undefined, { latitude: -33, longitude: 151 });
+    expect(fallback).toEqual([expect.objectContaining({ pitchDegrees: 30, azimuthDegrees: 0 })]);
+  });
+
+  it('rejects obstructions without a height before calling the API', async () => {
+    const request = vi.spyOn(SecureApiService, 'getSolarAccessReport').mockResolvedValue({ segments: [] });
+    const segments = SolarAccessService.segmentsFromRoofStats([], { latitude: 40, longitude: -105 });
+
+    await expect(SolarAccessService.getReport(40, -105, segments, [
+      { id: 'tree', kind: 'tree', heightFt: 0, points: [{ x: 0, y: -20 }], closed: false }
+    ])).rejects.toMatchObject({ message: 'Obstruction height must be greater than zero' });
+    expect(request).not.toHaveBeenCalled();
+
+    await SolarAccessService.getReport(40, -105, segments, []);
+    expect(request).toHaveBeenCalledWith({ lat: 40, lon: -105, segments, obstructions: [] });
+  });
+
+  it('projects the sky with north up and the zenith at the center', () => {
+    expect(SolarAccessService.projectSkyPosition(0, 90, 100)).toEqual({ x: 0, y: -0 });
+    const south = SolarAccessService.projectSkyPosition(180, 0, 100);
+    expect(south.x).toBeCloseTo(0, 6);
+    expect(south.y).toBeCloseTo(100, 6);
+    expect(SolarAccessService.projectSkyPosition(90, 45, 100).x).toBeCloseTo(50, 6);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { StringSizingService } from '../../services/stringSizingService';
+import { PVLayoutService } from '../../services/pvLayoutService';
+import { componentDatabaseService } from '../../services/componentDatabaseService';
+import { AutomaticScheduleGenerator } from '../../services/automaticScheduleGenerator';
+import type { InverterMPPTWindow } from '../../types/stringSizing';
+
+const module = PVLayoutService.DEFAULT_MODULE; // Voc 37.1, Vmp 31, Isc 13.8, -0.27 / -0.35 %/°C
+const site = { recordLowC: -10, designHighC: 35 };
+const tesla = componentDatabaseService.getMPPTWindow('tesla_solar_inverter_template')!;
+
+describe('StringSizingService', () => {
+  it('reads MPPT windows from the component database', () => {
+    expect(tesla).toMatchObject({
+      inverterType: 'string',
+      acOutputKW: 7.6,
+      minVoltage: 300,
+      maxVoltage: 550,
+      maxInputVoltage: 600,
+      channels: 2,
+      maxCurrentPerMppt: 20
+    });
+    expect(componentDatabaseService.getMPPTWindow('enphase_iq8_microinverter_template')).toMatchObject({
+      inverterType: 'micro',
+      minVoltage: 27,
+      maxVoltage: 45,
+      maxInputVoltage: 60
+    });
+    expect(componentDatabaseService.getMPPTWindow('solaredge_hd_wave_inverter_template')?.inverterType).toBe('power_optimizer');
+    expect(componentDatabaseService.getMPPTWindow('tesla_powerwall_template')).toBeUndefined();
+    expect(componentDatabaseService.getInverterMPPTWindows().length).toBeGreaterThanOrEqual(5);
+  });
+
+  it('limits string length by cold Voc and hot Vmp', () => {
+    // 37.1 × (1 + 35 × 0.0027) = 40.61 V; 31 × (1 - 45 × 0.0035) = 26.12 V at a 70°C cell
+    const result = StringSizingService.sizeStrings({ module, site, inverter: tesla, stringLengths: [14, 13] });
+    expect(result.vocCold).toBeCloseTo(40.61, 2);
+    expect(result.vmpHot).toBeCloseTo(26.12, 2);
+    expect(result.maxModulesPerString).toBe(14);
+    expect(result.minModulesPerString).toBe(12);
+    expect(result.maxStringVoltage).toBe(568.5);
+    expect(result.stringsPerMppt).toBe(1);
+    expect(result.mpptCurrent).toBe(17.25);
+    expect(result.dcAcRatio).toBe(1.42);
+    expect(result.issues.map(issue => issue.code)).toEqual(['dc_ac_ratio']);
+
+    const tooLong = StringSizingService.sizeStrings({ module, site, inverter: tesla, stringLengths: [15, 9] });
+    expect(tooLong.issues.map(issue => [issue.code, issue.severity])).toEqual([
+      ['max_voltage', 'error'],
+      ['min_voltage', 'warning']
+    ]);
+
+    // Without a datasheet coefficient Table 690.7(A) applies: 1.14 at -10°C
+    const table = StringSizingService.sizeStrings({ module: { ...module, tempCoeffVoc: undefined }, site, inverter: tesla });
+    expect(table.vocCold).toBeCloseTo(37.1 * 1.14, 2);
+    expect(table.maxModulesPerString).toBe(14);
+  });
+
+  it('flags MPPT current and impossible windows', () => {
+    const singleInput: InverterMPPTWindow = { ...tesla, channels: 1 };
+    const paralleled = StringSizingService.sizeStrings({ module, site, inverter: singleInput, stringLengths: [12, 12] });
+    expect(paralleled.stringsPerMppt).toBe(2);
+    expect(paralleled.mpptCurrent).toBe(34.5);
+    expect(paralleled.issues.find(issue => issue.code === 'mppt_current')?.severity).toBe('error');
+
+    const narrow = StringSizingService.sizeStrings({ module, site, inverter: { ...tesla, minVoltage: 450 } });
+    expect(narrow.minModulesPerString).toBeGreaterThan(narrow.maxModulesPerString);
+    expect(narrow.issues.map(issue => issue.code)).toEqual(['no_valid_length']);
+  });
+
+  it('writes layout sizing into the PV arrays, inverter and wire schedule', () => {
+    const [irc] = PVLayoutService.FIRE_CODE_RULE_SETS;
+    const face = PVLayoutService.createFace('south', 'South', [{ x: 0, y: 0 }, { x: 400, y: 0 }, { x: 400, y: 200 }, { x: 0, y: 200 }], 0, 180);
+    const filled = PVLayoutService.fillAllFaces(PVLayoutService.createLayout([face], 0.1, irc));
+    const layout = {
+      ...filled,
+      maxModulesPerString: 14,
+      stringSizing: { inverterId: 'tesla_solar_inverter_template', ...site }
+    };
+    const summary = PVLayoutService.summarize(layout);
+
+    expect(StringSizingService.sizeLayout({ ...layout, stringSizing: undefined }, summary.strings)).toBeNull();
+    const sizing = StringSizingService.sizeLayout(layout, summary.strings)!;
+    expect(sizing.result).toMatchObject({ minModulesPerString: 12, maxModulesPerString: 14, stringsPerMppt: 1 });
+    expect(sizing.circuits).toHaveLength(2);
+    expect(sizing.circuits[0]).toMatchObject({ id: 'dc_S1', current: 17.25, voltage: 434, system: 'dc', protectionRating: 0 });
+
+    const [array] = PVLayoutService.pvArrayComponents(layout, summary.strings).map(a => StringSizingService.applyToPVArray(a, sizing));
+    expect(array.specifications?.stringSizing).toMatchObject({
+      minModulesPerString: 12,
+      maxModulesPerString: 14,
+      maxStringVoltage: 568.5,
+      dcConductorSize: sizing.circuits[0].conductorSize,
+      issues: ['dc_ac_ratio']
+    });
+    expect(StringSizingService.applyToPVArray(array, null).specifications?.stringSizing).toBeUndefined();
+
+    const inverter = StringSizingService.inverterComponent(sizing);
+    expect(inverter).toMatchObject({ id: 'pv_layout_inverter', type: 'inverter', acOutputKW: 7.6, mpptChannels: 2, dcInputVoltage: 600 });
+    expect(inverter.specifications).toMatchObject({
+      source: 'pv_layout',
+      mpptVoltageRange: '300-550V',
+      stringSizing: { stringsPerMppt: 1, mpptCurrent: 17.25, dcAcRatio: 1.42 }
+    });
+
+    const schedule = AutomaticScheduleGenerator.generateWireSchedule(sizing.circuits, { name: 'Smith Residence', date: new Date() });
+    expect(schedule.rows[0].id).toBe(`wire_dc_${sizing.circuits[0].conductorSize}`);
+    expect(schedule.rows[0].cells[0].value).toBe(`${sizing.circuits[0].conductorSize} AWG PV WIRE`);
+    expect(schedule.rows[0].cells[2].value).toBe(2);
+    expect(schedule.necReferences).toContain('NEC 690.8');
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import React from 'react';
+import { SLDProvider, useSLD } from '../../context/SLDContext';
+import { CommandManager, DiagramChangeCommand, diffDiagrams, MERGE_WINDOW_MS } from '../../services/sldCommandService';
+import type { SLDDiagram, SLDComponent } from '../../types/sld';
+
+const createComponent = (id: string, x: number): SLDComponent => ({
+  id,
+  type: 'main_panel',
+  name: `Panel ${id}`,
+  position: { x, y: 100 },
+  size: { width: 80, height: 60 },
+  rotation: 0,
+  labels: [],
+  necLabels: [],
+  specifications: {}
+} as any);
+
+const createDiagram = (): SLDDiagram => ({
+  id: 'diagram-1',
+  name: 'Test Diagram',
+  components: [createComponent('a', 100), createComponent('b', 300)],
+  connections: [{ id: 'w1', from: 'a', to: 'b', fromComponentId: 'a', toComponentId: 'b', type: 'ac' }]
+});
+
+const wrapper = ({ children }: { children: React.ReactNode }) => <SLDProvider>{children}</SLDProvider>;
+
+const renderSLD = (diagram: SLDDiagram = createDiagram()) => {
+  const hook = renderHook(() => useSLD(), { wrapper });
+  act(() => hook.result.current.dispatch({ type: 'SET_DIAGRAM', payload: diagram }));
+  return hook;
+};
+
+describe('SLD command history', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('CommandManager', () => {
+    it('records diagram changes and restores removed items in place', () => {
+      const diagram = createDiagram();
+      const manager = new CommandManager(diagram);
+      const next = { ...diagram, components: diagram.components.filter(c => c.id !== 'a') };
+
+      manager.executeCommand(new DiagramChangeCommand(diagram, diffDiagrams(diagram, next), 'Remove a'));
+      expect(diagram.components.map(c => c.id)).toEqual(['b']);
+
+      manager.undo();
+      expect(diagram.components.map(c => c.id)).toEqual(['a', 'b']);
+    });
+
+    it('merges commands with the same key until sealed or the window passes', () => {
+      vi.useFakeTimers();
+      const diagram = createDiagram();
+      const manager = new CommandManager(diagram);
+      const move = (x: number) => {
+        const current = manager.getDiagram();
+        const next = { ...current, components: current.components.map(c => (c.id === 'a' ? { ...c, position: { x, y: 100 } } : c)) };
+        manager.executeCommand(new DiagramChangeCommand(current, diffDiagrams({ ...current }, next), 'Move', 'move:a'));
+      };
+
+      move(110);
+      move(120);
+      move(130);
+      expect(manager.getHistory().commands).toHaveLength(1);
+
+      manager.sealMerge();
+      move(140);
+      vi.advanceTimersByTime(MERGE_WINDOW_MS + 1);
+      move(150);
+      expect(manager.getHistory().commands).toHaveLength(3);
+
+      manager.undo();
+      manager.undo();
+      manager.undo();
+      expect(diagram.components[0].position.x).toBe(100);
+    });
+  });
+
+  describe('SLDContext', () => {
+    it('collapses a drag into one undo step', () => {
+      const { result } = renderSLD();
+
+      act(() => result.current.dispatch({ type: 'SET_DRAG_STATE', payload: { isDragging: true, start: { x: 0, y: 0 } } }));
+      [120, 140, 160].forEach(x => act(() => result.current.moveComponent('a', { x, y: 100 })));
+      act(() => result.current.dispatch({ type: 'SET_DRAG_STATE', payload: { isDragging: false } }));
+      expect(result.current.getHistory().commands).toHaveLength(1);
+
+      act(() => result.current.undo());
+      expect(result.current.state.diagram?.components[0].position.x).toBe(100);
+      expect(result.current.canUndo()).toBe(false);
+    });
+
+    it('undoes a multi-select delete as one transaction', () => {
+      const { result } = renderSLD();
+
+      act(() => result.current.removeElements(['a']));
+      expect(result.current.state.diagram?.components.map(c => c.id)).toEqual(['b']);
+      expect(result.current.state.diagram?.connections).toHaveLength(0);
+      expect(result.current.getHistory().commands).toHaveLength(1);
+
+      act(() => result.current.undo());
+      expect(result.current.state.diagram?.components.map(c => c.id)).toEqual(['a', 'b']);
+      expect(result.current.state.diagram?.connections.map(c => c.id)).toEqual(['w1']);
+    });
+
+    it('puts route, layer, measurement, title block and template edits on the undo stack', () => {
+      const { result } = renderSLD();
+
+      act(() => result.current.updateConnectionRoute('w1', [{ x: 200, y: 50 }]));
+      act(() => result.current.setLayer({ id: 'power', name: 'Power', color: '#dc2626', visible: true, locked: false, order: 1 }));
+      act(() => result.current.assignLayer(['a', 'b'], 'power'));
+      act(() => result.current.addMeasurement({ id: 'm1', type: 'linear', points: [{ x: 0, y: 0 }, { x: 100, y: 0 }], value: 10, unit: 'ft', visible: true }));
+      act(() => result.current.updateTitleBlock({ drawingNumber: 'E-001' }));
+      act(() => result.current.applyTemplate(createDiagram(), { x: 0, y: 400 }));
+
+      expect(result.current.state.diagram?.components).toHaveLength(4);
+      expect(result.current.getHistory().commands.map(c => c.description)).toEqual([
+        'Edit wire route',
+        'Update layer Power',
+        'Move 2 components to layer',
+        'Add measurement',
+        'Edit title block',
+        'Apply template Test Diagram'
+      ]);
+
+      for (let i = 0; i < 6; i++) act(() => result.current.undo());
+      const diagram = result.current.state.diagram!;
+      expect(diagram.components.map(c => c.id)).toEqual(['a', 'b']);
+      expect(diagram.components[0].layerId).toBeUndefined();
+      expect(diagram.connections[0].routePoints).toBeUndefined();
+      expect(diagram.layers).toEqual([]);
+      expect(diagram.measurements).toEqual([]);
+      expect(diagram.titleBlock).toBeUndefined();
+    });
+
+    it('reopens a saved diagram with its undo history', () => {
+      const first = renderSLD();
+      act(() => first.result.current.moveComponent('a', { x: 500, y: 100 }));
+      act(() => first.result.current.updateTitleBlock({ revision: 'B' }));
+
+      // Save and reload through JSON as a project file would
+      const saved: SLDDiagram = JSON.parse(JSON.stringify(first.result.current.state.diagram));
+      first.unmount();
+
+      const { result } = renderSLD(saved);
+      expect(result.current.canUndo()).toBe(true);
+      expect(result.current.state.diagram?.titleBlock?.revision).toBe('B');
+
+      act(() => result.current.undo());
+      act(() => result.current.undo());
+      expect(result.current.state.diagram?.titleBlock).toBeUndefined();
+      expect(result.current.state.diagram?.components[0].position).toEqual({ x: 100, y: 100 });
+
+      act(() => result.current.redo());
+      expect(result.current.state.diagram?.components[0].position).toEqual({ x: 500, y: 100 });
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RenderBatchBuilder, cullRenderObjects, VERTEX_STRIDE, INSTANCE_STRIDE } from '../../components/SLD/engine/RenderBatch';
+import { createSLDRenderer } from '../../components/SLD/engine/RendererFactory';
+import { IEEE_SYMBOL_DEFINITIONS, tessellateSymbol } from '../../components/SLD/engine/SymbolGeometry';
+import type { RenderObject, Viewport } from '../../components/SLD/engine/WebGLRenderer';
+
+type Call = [string, unknown[]];
+
+const viewport: Viewport = { x: 0, y: 0, width: 800, height: 600, zoom: 1 };
+
+const sampleObjects = (): RenderObject[] => [
+  { id: 'grid', type: 'grid', bounds: { x: -1000, y: -1000, width: 2000, height: 2000 }, visible: true, zIndex: 0, data: { size: 100 } },
+  {
+    id: 'pv', type: 'component', bounds: { x: 100, y: 100, width: 100, height: 60 }, visible: true, zIndex: 20,
+    data: { id: 'pv', type: 'pv_array', name: 'PV Array', position: { x: 100, y: 100 } }
+  },
+  {
+    id: 'cb1', type: 'component', bounds: { x: 400, y: 300, width: 100, height: 60 }, visible: true, zIndex: 20,
+    data: { id: 'cb1', type: 'breaker', position: { x: 400, y: 300 } }
+  },
+  {
+    id: 'cb2', type: 'component', bounds: { x: 600, y: 300, width: 100, height: 60 }, visible: true, zIndex: 20,
+    data: { id: 'cb2', type: 'breaker', position: { x: 600, y: 300 }, rotation: 90 }
+  },
+  {
+    id: 'w1', type: 'connection', bounds: { x: 100, y: 100, width: 400, height: 260 }, visible: true, zIndex: 10,
+    data: { id: 'w1', from: 'pv', to: 'cb1', fromComponentId: 'pv', toComponentId: 'cb1', type: 'dc', label: '#10 AWG' }
+  },
+  {
+    id: 'note', type: 'label', bounds: { x: 20, y: 20, width: 100, height: 20 }, visible: true, zIndex: 30,
+    data: { id: 'note', text: 'NEC 690', position: { x: 20, y: 20 }, fontSize: 12, fontWeight: 'bold', color: '#ff0000' }
+  }
+];
+
+const buildDrawList = (objects: RenderObject[]) => {
+  const lookup = new Map(objects.map(object => [object.id, object]));
+  const builder = new RenderBatchBuilder(viewport, id => lookup.get(id));
+  builder.begin(viewport);
+  for (const object of cullRenderObjects(objects, viewport)) {
+    if (object.type === 'component') builder.addComponent(object);
+    if (object.type === 'connection') builder.addConnection(object);
+    if (object.type === 'label') builder.addLabel(object);
+    if (object.type === 'grid') builder.addGrid(object);
+  }
+  return builder.build();
+};
+
+const trianglePositions = (vertices: ArrayLike<number>, stride: number): number[] => {
+  const positions: number[] = [];
+  for (let i = 0; i < vertices.length; i += stride) {
+    positions.push(Math.fround(vertices[i]), Math.fround(vertices[i + 1]));
+  }
+  return positions;
+};
+
+// Records every call made on a 2D context
+const createRecording2DContext = (calls: Call[]) => new Proxy({} as Record<string | symbol, unknown>, {
+  get: (target, prop) => {
+    if (prop in target) return target[prop];
+    if (prop === 'measureText') return (text: string) => ({ width: text.length * 16 });
+    return (...args: unknown[]) => {
+      calls.push([String(prop), args]);
+    };
+  },
+  set: (target, prop, value) => {
+    target[prop] = value;
+    calls.push([`set:${String(prop)}`, [value]]);
+    return true;
+  }
+});
+
+// Minimal WebGL2 stand-in: constants resolve to their names, queries succeed, calls are recorded
+const createRecordingWebGLContext = (calls: Call[]) => {
+  const attributes = new Map<string, number>();
+  return new Proxy({}, {
+    get: (_target, prop) => {
+      const name = String(prop);
+      if (/^[A-Z_0-9]+$/.test(name)) return name;
+      if (name === 'getShaderParameter' || name === 'getProgramParameter') return () => true;
+      if (name === 'getAttribLocation') {
+        return (_program: unknown, attribute: string) => {
+          if (!attributes.has(attribute)) attributes.set(attribute, attributes.size);
+          return attributes.get(attribute);
+        };
+      }
+      return (...args: unknown[]) => {
+        calls.push([name, args]);
+        return {};
+      };
+    }
+  });
+};
+
+describe('SLD render engine', () => {
+  describe('RenderBatchBuilder', () => {
+    it('tessellates each IEEE symbol once and instances it per component', () => {
+      const drawList = buildDrawList(sampleObjects());
+      const breakers = drawList.symbols.find(batch => batch.mesh.id === 'circuit_breaker');
+
+      expect(drawList.symbols.map(batch => batch.mesh.id)).toEqual(['solar_panel', 'circuit_breaker']);
+      expect(breakers?.instanceCount).toBe(2);
+      expect(breakers?.mesh).toBe(tessellateSymbol(IEEE_SYMBOL_DEFINITIONS.circuit_breaker));
+      // Second breaker: centered, scaled to its 60px height and rotated a quarter turn
+      expect(breakers?.instances.slice(INSTANCE_STRIDE, INSTANCE_STRIDE + 4)).toEqual([650, 330, 1, Math.PI / 2]);
+    });
+
+    it('routes wires orthogonally between facing component edges in the wire type color', () => {
+      const drawList = buildDrawList(sampleObjects());
+
+      // Three segments of two triangles each
+      expect(drawList.wires).toHaveLength(3 * 6 * VERTEX_STRIDE);
+      expect(drawList.wires.slice(2, 6)).toEqual([220 / 255, 38 / 255, 38 / 255, 1]);
+      expect(drawList.texts.find(run => run.text === '#10 AWG')).toMatchObject({ x: 300, align: 'center' });
+    });
+
+    it('produces a stable draw list for a sample diagram', () => {
+      const drawList = buildDrawList(sampleObjects());
+
+      expect({
+        gridVertices: drawList.grid.length / VERTEX_STRIDE,
+        wireStart: drawList.wires.slice(0, 2),
+        symbols: drawList.symbols.map(batch => ({
+          id: batch.mesh.id,
+          vertexCount: batch.mesh.vertexCount,
+          instances: batch.instances
+        })),
+        texts: drawList.texts.map(({ text, x, y, fontSize, bold, align }) => ({ text, x, y, fontSize, bold, align }))
+      }).toMatchSnapshot();
+    });
+  });
+
+  describe('createSLDRenderer', () => {
+    let webglCalls: Call[];
+    let canvasCalls: Call[];
+    let webglAvailable: boolean;
+
+    beforeEach(() => {
+      webglCalls = [];
+      canvasCalls = [];
+      webglAvailable = true;
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (this: HTMLCanvasElement, type: string) {
+        if (type === 'webgl2') return webglAvailable ? createRecordingWebGLContext(webglCalls) : null;
+        // The glyph atlas canvas gets its own context so it does not pollute the recording
+        return createRecording2DContext(this.width === 1024 ? [] : canvasCalls);
+      } as any);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    const createCanvas = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = 800;
+      canvas.height = 600;
+      return canvas;
+    };
+
+    it('falls back to Canvas2D when WebGL2 is unavailable', () => {
+      webglAvailable = false;
+      const renderer = createSLDRenderer(createCanvas());
+
+      expect(renderer.getStats().backend).toBe('canvas2d');
+      renderer.dispose();
+    });
+
+    it('draws the same geometry on the WebGL and Canvas2D backends', () => {
+      const expected = buildDrawList(sampleObjects());
+
+      const webgl = createSLDRenderer(createCanvas());
+      expect(webgl.getStats().backend).toBe('webgl2');
+      sampleObjects().forEach(object => webgl.addRenderObject(object));
+      webgl.render();
+
+      webglAvailable = false;
+      const canvas2d = createSLDRenderer(createCanvas());
+      sampleObjects().forEach(object => canvas2d.addRenderObject(object));
+      canvas2d.render();
+
+      // Grid and wire triangles uploaded to the GPU match the paths filled on the 2D canvas
+      const dynamicUploads = webglCalls
+        .filter(([name, args]) => name === 'bufferData' && args[2] === 'DYNAMIC_DRAW')
+        .map(([, args]) => args[1] as Float32Array);
+      const uploadedTriangles = [
+        ...trianglePositions(dynamicUploads[0], VERTEX_STRIDE),
+        ...trianglePositions(dynamicUploads[1], VERTEX_STRIDE)
+      ];
+      const firstSymbol = canvasCalls.findIndex(([name]) => name === 'save');
+      const canvasTriangles = canvasCalls
+        .slice(0, firstSymbol)
+        .filter(([name]) => name === 'moveTo' || name === 'lineTo')
+        .flatMap(([, args]) => (args as number[]).map(Math.fround));
+      expect(uploadedTriangles).toEqual(trianglePositions(expected.grid.concat(expected.wires), VERTEX_STRIDE));
+      expect(canvasTriangles).toEqual(uploadedTriangles);
+
+      // One instanced draw per symbol type on the GPU, one transformed fill per instance on the canvas
+      const instancedDraws = webglCalls.filter(([name]) => name === 'drawArraysInstanced').map(([, args]) => args[3]);
+      expect(instancedDraws).toEqual(expected.symbols.map(batch => batch.instanceCount));
+      expect(canvasCalls.filter(([name]) => name === 'save')).toHaveLength(3);
+
+      // Labels go through the glyph atlas on the GPU and fillText on the canvas
+      expect(webglCalls.some(([name]) => name === 'texImage2D')).toBe(true);
+      expect(canvasCalls.filter(([name]) => name === 'fillText').map(([, args]) => args[0])).toEqual(
+        expected.texts.map(run => run.text)
+      );
+
+      webgl.dispose();
+      canvas2d.dispose();
+    });
+  });
+});
@@ -18,6 +18,31 @@ export interface CalculationResults {
   warnings: ValidationMessage[];
   errors: ValidationMessage[];
   appliancesIncludedInGeneral?: boolean;
+  codeYear?: NECCodeYear;
+  codeBasis?: NECCodeReference[];
+  // Line-by-line demand for the multifamily and commercial methods
+  breakdown?: LoadBreakdownItem[];
+  phaseLoads?: PhaseLoadSummary;
+}
+
+export type PhaseId = 'A' | 'B' | 'C';
+export type PhaseConnection = 'A' | 'B' | 'C' | 'AB' | 'BC' | 'CA' | 'ABC';
+export type ServiceSystemId = '120/240V 1Φ' | '120/208V 1Φ' | '208Y/120V 3Φ' | '480Y/277V 3Φ';
+
+export interface PhaseLoadSummary {
+  system: ServiceSystemId;
+  phaseVA: Record<PhaseId, number>;
+  phaseAmps: Record<PhaseId, number>;
+  neutralAmps: number;
+  // Largest deviation of a phase current from the average, in percent of the average
+  imbalancePercent: number;
+}
+
+export type NECCodeYear = '2017' | '2020' | '2023';
+
+export interface NECCodeReference {
+  section: string;
+  description: string;
 }
 
 export interface ValidationMessage {
@@ -27,7 +52,70 @@ export interface ValidationMessage {
   field?: string;
 }
 
-export type CalculationMethod = 'optional' | 'standard' | 'existing';
+export type CalculationMethod = 'optional' | 'standard' | 'existing' | 'multifamily' | 'commercial';
+
+export interface LoadBreakdownItem {
+  description: string;
+  section: string;
+  connectedVA: number;
+  demandVA: number;
+}
+
+export interface NamedLoad {
+  name: string;
+  va: number;
+  quantity?: number;
+  continuous?: boolean;
+}
+
+export interface DwellingUnitType {
+  name: string;
+  count: number;
+  squareFootage: number;
+  smallApplianceCircuits: number;
+  laundryCircuits: number;
+  // Nameplate of ranges, ovens, dryers, water heaters and other fastened-in-place appliances
+  applianceVA: number;
+  heatingVA: number;
+  coolingVA: number;
+  electricCooking: boolean;
+}
+
+export interface MultifamilyCalculationInput {
+  unitTypes: DwellingUnitType[];
+  houseLoads: NamedLoad[];
+  voltage: number;
+  phases: 1 | 3;
+  mainBreaker: number;
+}
+
+export type CommercialOccupancy =
+  | 'office'
+  | 'retail'
+  | 'restaurant'
+  | 'warehouse'
+  | 'school'
+  | 'hospital'
+  | 'hotel'
+  | 'religious'
+  | 'parking_garage'
+  | 'manufacturing';
+
+export interface CommercialCalculationInput {
+  occupancy: CommercialOccupancy;
+  squareFootage: number;
+  // General-use receptacle outlets at 180 VA each
+  receptacleOutlets: number;
+  signOutlets: number;
+  kitchenEquipment: NamedLoad[];
+  motors: NamedLoad[];
+  heatingVA: number;
+  coolingVA: number;
+  otherLoads: NamedLoad[];
+  voltage: number;
+  phases: 1 | 3;
+  mainBreaker: number;
+}
 
 export interface ProjectInformation {
   customerName: string;
@@ -82,6 +170,12 @@ export interface PanelDetails {
   interruptingRating: number;
   availableSpaces: number;
   usedSpaces: number;
+  // NEC 705 interconnection options; each is evaluated only once it is entered
+  centerFed?: boolean;
+  loadBreakerTotal?: number; // Sum of the load breakers, excluding the main
+  feederAmpacity?: number;
+  feederOCPD?: number;
+  pcsControlledCurrent?: number; // 705.13 power control system setting
 }
 
 export interface ActualDemandData {
@@ -102,6 +196,36 @@ export interface ActualDemandData {
   month10?: number;
   month11?: number;
   month12?: number;
+  // Filled by the interval data importer
+  peakTimestamp?: string;
+  loadProfile?: DemandProfilePoint[];
+  dataQuality?: IntervalDataQuality;
+}
+
+export interface DemandProfilePoint {
+  date: string;
+  peakKW: number;
+  averageKW: number;
+}
+
+export interface IntervalDataGap {
+  start: string;
+  end: string;
+  hours: number;
+}
+
+export interface IntervalDataQuality {
+  intervalMinutes: number;
+  startDate: string;
+  endDate: string;
+  days: number;
+  // Recorded time as a percentage of the measurement period
+  coveragePercent: number;
+  gaps: IntervalDataGap[];
+  monthsCovered: number[];
+  coversCoolingSeason: boolean;
+  coversHeatingSeason: boolean;
+  warnings: string[];
 }
 
 export interface WireSizeResult {
@@ -1,3 +1,5 @@
+import type { CommercialCalculationInput, MultifamilyCalculationInput } from './calculation';
+
 export interface LoadItem {
   id: number;
   name: string;
@@ -33,6 +35,10 @@ export interface SolarBatteryLoad extends LoadItem {
   breaker: number;
   type: 'solar' | 'battery';
   location: 'backfeed' | 'supply_side' | 'load_side';
+  // Set on the row kept in sync with the roof layout editor
+  source?: 'pv_layout';
+  moduleCount?: number;
+  dcKw?: number;
 }
 
 export type LoadCategory = 'general' | 'hvac' | 'evse' | 'solar';
@@ -42,6 +48,9 @@ export interface LoadState {
   hvacLoads: HVACLoad[];
   evseLoads: EVSELoad[];
   solarBatteryLoads: SolarBatteryLoad[];
+  // Inputs for the multifamily (220.84) and commercial (Part III) methods
+  multifamily?: MultifamilyCalculationInput;
+  commercial?: CommercialCalculationInput;
 }
 
 export type LoadAction = 
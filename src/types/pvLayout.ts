@@ -0,0 +1,95 @@
+// Roof layout editor types. Geometry is in natural satellite image pixels, north up.
+
+export interface LayoutPoint {
+  x: number;
+  y: number;
+}
+
+export type RoofEdgeType = 'eave' | 'ridge' | 'rake' | 'hip' | 'valley';
+export type ModuleOrientation = 'portrait' | 'landscape';
+
+// Setbacks and access pathways from a fire code, measured along the roof surface
+export interface FireCodeRuleSet {
+  id: string;
+  name: string;
+  reference: string;
+  edgeSetbacksIn: Record<RoofEdgeType, number>;
+  // Ridge setback once the array covers more than coverageThresholdPercent of the roof plan area
+  highCoverageRidgeSetbackIn?: number;
+  coverageThresholdPercent?: number;
+  // Eave-to-ridge pathway held clear on each roof face, 0 when not required
+  pathwayWidthIn: number;
+}
+
+export interface PVModuleSpec {
+  manufacturer: string;
+  model: string;
+  watts: number;
+  widthIn: number;
+  lengthIn: number;
+  voc: number;
+  vmp: number;
+  isc: number;
+  imp: number;
+  tempCoeffVoc?: number; // %/°C
+  tempCoeffVmp?: number; // %/°C
+}
+
+export interface PVRoofFace {
+  id: string;
+  label: string;
+  points: LayoutPoint[];
+  pitchDegrees: number;
+  azimuthDegrees: number; // downslope direction
+  edgeTypes: RoofEdgeType[]; // edgeTypes[i] is the edge from points[i] to points[i + 1]
+  orientation: ModuleOrientation;
+  rowSpacingIn: number;
+}
+
+// Vents, skylights and other areas modules must stay clear of
+export interface PVKeepOut {
+  id: string;
+  label: string;
+  points: LayoutPoint[];
+  bufferIn: number;
+}
+
+export interface PVPlacedModule {
+  id: string;
+  faceId: string;
+  center: LayoutPoint;
+  orientation: ModuleOrientation;
+  rotationDegrees: number; // offset from the face's row direction
+}
+
+export interface PVLayout {
+  faces: PVRoofFace[];
+  keepOuts: PVKeepOut[];
+  modules: PVPlacedModule[];
+  module: PVModuleSpec;
+  ruleSet: FireCodeRuleSet;
+  feetPerPixel: number;
+  maxModulesPerString: number;
+  stringSizing?: PVStringSizingSettings;
+}
+
+// Inverter and site temperatures the strings are checked against
+export interface PVStringSizingSettings {
+  inverterId: string;
+  recordLowC: number;
+  designHighC: number;
+}
+
+export interface PVLayoutString {
+  id: string;
+  faceId: string;
+  moduleIds: string[];
+}
+
+export interface PVLayoutSummary {
+  moduleCount: number;
+  dcKw: number;
+  coveragePercent: number;
+  invalidModuleIds: string[];
+  strings: PVLayoutString[];
+}
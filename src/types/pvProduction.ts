@@ -0,0 +1,86 @@
+export type PVModuleType = 'standard' | 'premium' | 'thinFilm';
+export type PVMounting = 'roof' | 'openRack';
+
+// One roof plane's worth of modules
+export interface PVArray {
+  id: string;
+  dcKw: number;
+  pitchDegrees: number;
+  azimuthDegrees: number;
+  moduleCount?: number;
+  moduleType?: PVModuleType;
+  mounting?: PVMounting;
+}
+
+export interface PVInverter {
+  id: string;
+  acKw: number;
+  efficiency?: number; // fraction, e.g. 0.97
+  quantity?: number;
+}
+
+// System losses in percent, PVWatts categories
+export interface PVLosses {
+  soiling: number;
+  shading: number;
+  snow: number;
+  mismatch: number;
+  wiring: number;
+  connections: number;
+  lightInducedDegradation: number;
+  nameplateRating: number;
+  availability: number;
+}
+
+export interface PVProductionRequest {
+  lat: number;
+  lon: number;
+  arrays: PVArray[];
+  inverters?: PVInverter[];
+  losses?: Partial<PVLosses>;
+  degradationRate?: number; // percent per year
+  years?: number;
+  albedo?: number;
+  tmy?: string; // NSRDB TMY3 CSV
+}
+
+export interface PVProductionMonth {
+  month: number;
+  dcKwh: number;
+  acKwh: number;
+  clippedKwh: number;
+}
+
+export interface PVProductionEstimate {
+  location: { lat: number; lon: number };
+  weather: {
+    source: string;
+    station: { id: string; name: string; lat: number; lon: number; distanceKm: number };
+    year: number;
+    timezone: number;
+    warnings: string[]; // e.g. the nearest station is too far away to represent the site
+  };
+  models: Record<string, string>;
+  system: {
+    dcKw: number;
+    acKw: number;
+    dcAcRatio: number;
+    inverterEfficiency: number; // percent
+  };
+  losses: PVLosses & { total: number };
+  arrays: Array<Pick<PVArray, 'id' | 'dcKw' | 'pitchDegrees' | 'azimuthDegrees'> & { poaKwhPerM2: number; dcKwh: number }>;
+  monthly: PVProductionMonth[];
+  annual: {
+    dcKwh: number;
+    acKwh: number;
+    clippedKwh: number;
+    specificYield: number; // kWh per kWp
+    capacityFactor: number; // percent
+  };
+  degradation: {
+    ratePercent: number;
+    years: number;
+    schedule: Array<{ year: number; acKwh: number }>;
+    lifetimeAcKwh: number;
+  };
+}
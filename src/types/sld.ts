@@ -21,10 +21,12 @@ export interface SLDConnection {
   toPort?: string;
   startPoint?: SLDPosition;
   endPoint?: SLDPosition;
+  routePoints?: SLDPosition[]; // Manually placed bends between startPoint and endPoint
   type: 'power' | 'dc' | 'ac' | 'ground' | 'control'; // Enhanced connection types
   wireType?: 'dc' | 'ac' | 'ground'; // Keep for backward compatibility
   voltage?: number;
   current?: number;
+  length?: number; // One-way conductor length in feet
   conductorSize?: string;
   wireGauge?: string;
   conduitType?: string;
@@ -61,6 +63,21 @@ export interface SLDLabel {
   necReference?: string;
 }
 
+// Drawing content with no electrical meaning, e.g. geometry kept from an imported CAD file
+export interface SLDAnnotation {
+  id: string;
+  kind: 'text' | 'line' | 'polyline' | 'circle' | 'arc' | 'dimension' | 'block' | 'other';
+  points: SLDPosition[];
+  text?: string;
+  radius?: number;
+  startAngle?: number; // Degrees on the canvas, swept clockwise to endAngle
+  endAngle?: number;
+  closed?: boolean;
+  color?: string;
+  layer?: string;
+  source?: string; // Original entity type or block name
+}
+
 export interface SLDComponentBase {
   id: string;
   type: string;
@@ -72,6 +89,7 @@ export interface SLDComponentBase {
   height?: number; // Simplified height for compatibility
   symbol?: string; // Visual symbol representation
   rotation?: number;
+  layerId?: string; // One of SLDDiagram.layers
   labels?: SLDLabel[];
   necLabels?: string[];
   specifications?: Record<string, any>;
@@ -130,6 +148,7 @@ export interface SLDDisconnect extends SLDComponentBase {
   fusible: boolean;
   necLabel: string; // Required NEC labeling
   location: string;
+  interruptingRating?: number; // AIC in amperes
 }
 
 // Battery Storage Components
@@ -179,6 +198,7 @@ export interface SLDMainPanel extends SLDComponentBase {
   model: string;
   meterLocation: 'internal' | 'external' | 'separate';
   groundingElectrode: boolean;
+  interruptingRating?: number; // AIC in amperes
 }
 
 // Combiner Box (Enphase IQ Combiner 6C)
@@ -243,6 +263,7 @@ export interface SLDBreaker extends SLDComponentBase {
   voltage: number;
   manufacturer: string;
   model: string;
+  interruptingRating?: number; // AIC in amperes
 }
 
 // EV Charger Component (alternative to EVSE)
@@ -282,6 +303,7 @@ export interface SLDServiceDisconnect extends SLDComponentBase {
   voltage: number;
   fusible?: boolean;
   location?: string;
+  interruptingRating?: number; // AIC in amperes
 }
 
 export interface SLDSubPanel extends SLDComponentBase {
@@ -292,6 +314,7 @@ export interface SLDSubPanel extends SLDComponentBase {
   phase?: 1 | 3;
   manufacturer?: string;
   model?: string;
+  interruptingRating?: number; // AIC in amperes
 }
 
 export interface SLDLoadGeneric extends SLDComponentBase {
@@ -324,6 +347,64 @@ export type SLDComponent =
   | SLDServiceDisconnect
   | SLDLoadGeneric;
 
+// Drawing layer saved with the diagram
+export interface SLDLayer {
+  id: string;
+  name: string;
+  color: string;
+  visible: boolean;
+  locked: boolean;
+  order: number;
+}
+
+// Dimension or measurement placed on the drawing
+export interface SLDMeasurement {
+  id: string;
+  type: 'linear' | 'angular' | 'area' | 'coordinate';
+  points: SLDPosition[];
+  value: number;
+  unit: string;
+  label?: string;
+  visible: boolean;
+}
+
+export interface SLDTitleBlock {
+  projectName?: string;
+  projectNumber?: string;
+  drawingTitle?: string;
+  drawingNumber?: string;
+  revision?: string;
+  date?: string;
+  drawnBy?: string;
+  checkedBy?: string;
+  client?: string;
+  address?: string;
+  scale?: string;
+  sheetNumber?: string;
+  totalSheets?: string;
+}
+
+export type SLDDiagramCollection = 'components' | 'connections' | 'labels' | 'annotations' | 'layers' | 'measurements';
+
+// One edit recorded in the undo history; null before/after means the item did not exist
+export type SLDDiagramChange =
+  | { kind: 'item'; collection: SLDDiagramCollection; id: string; index: number; before: unknown; after: unknown }
+  | { kind: 'field'; field: string; before: unknown; after: unknown };
+
+export interface SLDCommandRecord {
+  description: string;
+  timestamp: string;
+  mergeKey?: string;
+  changes?: SLDDiagramChange[];
+  commands?: SLDCommandRecord[]; // Grouped transaction
+}
+
+// Undo history saved with the diagram so a reopened drawing can still be undone
+export interface SLDCommandHistoryRecord {
+  commands: SLDCommandRecord[];
+  currentIndex: number;
+}
+
 // Complete SLD Diagram
 export interface SLDDiagram {
   id: string;
@@ -340,6 +421,10 @@ export interface SLDDiagram {
   components: SLDComponent[];
   connections: SLDConnection[];
   labels?: SLDLabel[];
+  annotations?: SLDAnnotation[];
+  layers?: SLDLayer[];
+  measurements?: SLDMeasurement[];
+  titleBlock?: SLDTitleBlock;
   
   // Layout and styling
   canvasSize?: SLDSize;
@@ -363,6 +448,8 @@ export interface SLDDiagram {
   permitNumber?: string;
   ahj?: string; // Authority Having Jurisdiction
 
+  commandHistory?: SLDCommandHistoryRecord;
+
   // Metadata
   metadata?: {
     serviceSize?: number;
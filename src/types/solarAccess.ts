@@ -0,0 +1,69 @@
+export type ObstructionKind = 'tree' | 'chimney' | 'building';
+
+// Obstruction meaning attached to a drawn area or polyline
+export interface ObstructionTag {
+  kind: ObstructionKind;
+  heightFt: number;
+}
+
+export interface SolarAccessPoint {
+  x: number; // feet east of the site origin
+  y: number; // feet north of the site origin
+}
+
+export interface SolarAccessObstruction extends ObstructionTag {
+  id: string;
+  points: SolarAccessPoint[];
+  closed: boolean;
+}
+
+export interface SolarAccessSegment {
+  id: string;
+  pitchDegrees: number;
+  azimuthDegrees: number;
+  position: SolarAccessPoint;
+  heightFt: number;
+}
+
+export interface HorizonProfile {
+  azimuthStep: number;
+  azimuths: number[];
+  elevations: number[];
+  sources: Array<string | number | null>;
+}
+
+export interface SunPathDay {
+  month: number;
+  points: Array<{ hour: number; azimuth: number; elevation: number }>;
+}
+
+export interface SolarAccessMonth {
+  month: number;
+  solarAccess: number; // percent
+  tsrf: number; // percent
+}
+
+export interface SolarAccessSegmentResult {
+  id: string;
+  pitchDegrees: number;
+  azimuthDegrees: number;
+  horizon: HorizonProfile;
+  monthly: SolarAccessMonth[];
+  annual: {
+    poaKwhPerM2: number;
+    solarAccess: number;
+    tof: number;
+    tsrf: number;
+  };
+}
+
+export interface SolarAccessReport {
+  year: number;
+  timezone: number;
+  location: { lat: number; lon: number; elevation: number };
+  models: Record<string, string>;
+  reference: { pitchDegrees: number; azimuthDegrees: number };
+  sunPath: SunPathDay[];
+  segments: SolarAccessSegmentResult[];
+  obstructions: SolarAccessObstruction[];
+}
@@ -0,0 +1,64 @@
+// String sizing types: module temperature behaviour against inverter MPPT windows (NEC 690.7, 690.8)
+
+// MPPT input limits read from an inverter datasheet
+export interface InverterMPPTWindow {
+  componentId: string;
+  manufacturer: string;
+  model: string;
+  inverterType: 'string' | 'power_optimizer' | 'micro';
+  acOutputKW: number;
+  minVoltage: number; // Low end of the MPPT range
+  maxVoltage: number; // High end of the MPPT range
+  maxInputVoltage: number; // Absolute maximum DC input voltage
+  channels: number;
+  maxCurrentPerMppt?: number;
+}
+
+export interface StringSizingModule {
+  watts: number;
+  voc: number;
+  vmp: number;
+  isc: number;
+  imp: number;
+  tempCoeffVoc?: number; // %/°C, Table 690.7(A) factors are used when missing
+  tempCoeffVmp?: number; // %/°C
+}
+
+export interface SiteTemperatures {
+  recordLowC: number; // ASHRAE extreme annual mean minimum design dry bulb
+  designHighC: number; // ASHRAE 2% annual design dry bulb
+}
+
+export interface StringSizingRequest {
+  module: StringSizingModule;
+  site: SiteTemperatures;
+  inverter: InverterMPPTWindow;
+  stringLengths?: number[]; // Modules in each proposed string
+  inverterCount?: number;
+  cellTempRiseC?: number; // Cell temperature above ambient on a hot day
+  maxSystemVoltage?: number;
+  maxDcAcRatio?: number;
+}
+
+export type StringSizingIssueCode = 'max_voltage' | 'min_voltage' | 'no_valid_length' | 'mppt_current' | 'dc_ac_ratio';
+
+export interface StringSizingIssue {
+  code: StringSizingIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+  necReference?: string;
+}
+
+export interface StringSizingResult {
+  vocCold: number; // Module Voc at the record low
+  vmpHot: number; // Module Vmp at the hot-day cell temperature
+  minModulesPerString: number;
+  maxModulesPerString: number;
+  maxStringVoltage: number; // Voc of the longest proposed string at the record low
+  stringsPerMppt: number;
+  mpptCurrent: number; // Maximum circuit current into the busiest MPPT input
+  dcKw: number;
+  acKw: number;
+  dcAcRatio: number;
+  issues: StringSizingIssue[];
+}
@@ -0,0 +1,376 @@
+// ASCII DXF Reader
+// Reads the HEADER, TABLES, BLOCKS and ENTITIES sections of R12 through R2018 ASCII
+// files into plain objects. Geometry is returned in drawing units and the drawing's
+// own y-up coordinate system; callers decide how to place it on a canvas.
+
+import type { DXFLayer, DXFPoint } from './dxfWriter';
+
+interface ParsedDXFEntityBase {
+  handle?: string;
+  layer: string;
+  color?: number; // AutoCAD Color Index, undefined when BYLAYER/BYBLOCK
+  lineType?: string;
+  paperSpace?: boolean;
+}
+
+export type ParsedDXFEntity =
+  | ParsedDXFEntityBase & { type: 'line'; start: DXFPoint; end: DXFPoint }
+  | ParsedDXFEntityBase & { type: 'polyline'; points: DXFPoint[]; closed: boolean }
+  | ParsedDXFEntityBase & { type: 'solid'; points: DXFPoint[] }
+  | ParsedDXFEntityBase & { type: 'circle'; center: DXFPoint; radius: number }
+  | ParsedDXFEntityBase & { type: 'arc'; center: DXFPoint; radius: number; startAngle: number; endAngle: number }
+  | ParsedDXFEntityBase & { type: 'text'; position: DXFPoint; height: number; text: string; rotation: number }
+  | ParsedDXFEntityBase & {
+      type: 'insert';
+      block: string;
+      position: DXFPoint;
+      scale: DXFPoint;
+      rotation: number;
+      attributes: Record<string, string>;
+    }
+  | ParsedDXFEntityBase & {
+      type: 'dimension';
+      start: DXFPoint;
+      end: DXFPoint;
+      text?: string;
+      measurement?: number;
+    }
+  | ParsedDXFEntityBase & { type: 'unknown'; dxfType: string; points: DXFPoint[] };
+
+export interface ParsedDXFBlock {
+  name: string;
+  basePoint: DXFPoint;
+  entities: ParsedDXFEntity[];
+  anonymous: boolean;
+}
+
+export interface ParsedDXF {
+  header: Record<string, string | number | DXFPoint>;
+  layers: DXFLayer[];
+  blocks: ParsedDXFBlock[];
+  entities: ParsedDXFEntity[];
+}
+
+type GroupPair = [number, string];
+
+// Entities that own the records following them until SEQEND
+const COMPLEX_ENTITIES = ['INSERT', 'POLYLINE'];
+
+const isNumericCode = (code: number): boolean =>
+  (code >= 10 && code <= 99) ||
+  (code >= 140 && code <= 147) ||
+  (code >= 170 && code <= 175) ||
+  (code >= 270 && code <= 289) ||
+  (code >= 370 && code <= 389);
+
+const readPairs = (content: string): GroupPair[] => {
+  const lines = content.split(/\r?\n/);
+  const pairs: GroupPair[] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = parseInt(lines[i].trim(), 10);
+    if (Number.isNaN(code)) {
+      throw new Error(`Invalid DXF group code '${lines[i].trim()}' on line ${i + 1}`);
+    }
+    pairs.push([code, lines[i + 1].replace(/\s+$/, '')]);
+  }
+  return pairs;
+};
+
+const getValue = (record: GroupPair[], code: number): string | undefined =>
+  record.find(([candidate]) => candidate === code)?.[1]?.trim();
+
+const getNumber = (record: GroupPair[], code: number, fallback = 0): number => {
+  const parsed = parseFloat(getValue(record, code) ?? '');
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const getPoint = (record: GroupPair[], xCode: number): DXFPoint => ({
+  x: getNumber(record, xCode),
+  y: getNumber(record, xCode + 10)
+});
+
+/**
+ * Every x/y pair with the given x code, in file order (LWPOLYLINE vertices, SOLID corners)
+ */
+const getPoints = (record: GroupPair[], xCodes: number[]): DXFPoint[] => {
+  const result: DXFPoint[] = [];
+  record.forEach(([code, raw], index) => {
+    if (!xCodes.includes(code)) return;
+    const yPair = record.slice(index + 1).find(([candidate]) => candidate === code + 10);
+    result.push({ x: parseFloat(raw), y: yPair ? parseFloat(yPair[1]) : 0 });
+  });
+  return result;
+};
+
+/**
+ * Strips MTEXT inline formatting (fonts, colours, stacking) and converts paragraph breaks
+ */
+const plainMText = (text: string): string =>
+  text
+    .replace(/\\P/g, '\n')
+    .replace(/\\[ACFHQTWfp][^;]*;/g, '')
+    .replace(/\\S([^;^/#]*)[\^/#]([^;]*);/g, '$1/$2')
+    .replace(/\\[LlOoKk]/g, '')
+    .replace(/\\~/g, ' ')
+    .replace(/\\([\\{}])/g, '$1')
+    .replace(/[{}]/g, '');
+
+/**
+ * Splits a section body into records, each starting at a group code 0
+ */
+const splitRecords = (pairs: GroupPair[]): GroupPair[][] => {
+  const records: GroupPair[][] = [];
+  pairs.forEach(pair => {
+    if (pair[0] === 0 || records.length === 0) {
+      records.push([pair]);
+    } else {
+      records[records.length - 1].push(pair);
+    }
+  });
+  return records;
+};
+
+const parseEntity = (record: GroupPair[], children: GroupPair[][]): ParsedDXFEntity => {
+  const dxfType = record[0][1];
+  const colorIndex = getNumber(record, 62, 256);
+  const base: ParsedDXFEntityBase = {
+    handle: getValue(record, 5),
+    layer: getValue(record, 8) ?? '0',
+    color: colorIndex >= 1 && colorIndex <= 255 ? colorIndex : undefined,
+    lineType: getValue(record, 6),
+    paperSpace: getNumber(record, 67) === 1 || undefined
+  };
+
+  switch (dxfType) {
+    case 'LINE':
+      return { ...base, type: 'line', start: getPoint(record, 10), end: getPoint(record, 11) };
+
+    case 'LWPOLYLINE':
+      return { ...base, type: 'polyline', points: getPoints(record, [10]), closed: (getNumber(record, 70) & 1) === 1 };
+
+    case 'POLYLINE':
+      return {
+        ...base,
+        type: 'polyline',
+        points: children.filter(child => child[0][1] === 'VERTEX').map(vertex => getPoint(vertex, 10)),
+        closed: (getNumber(record, 70) & 1) === 1
+      };
+
+    case 'SOLID':
+    case 'TRACE':
+      return { ...base, type: 'solid', points: getPoints(record, [10, 11, 12, 13]) };
+
+    case 'CIRCLE':
+      return { ...base, type: 'circle', center: getPoint(record, 10), radius: getNumber(record, 40) };
+
+    case 'ARC':
+      return {
+        ...base,
+        type: 'arc',
+        center: getPoint(record, 10),
+        radius: getNumber(record, 40),
+        startAngle: getNumber(record, 50),
+        endAngle: getNumber(record, 51)
+      };
+
+    case 'TEXT': {
+      // Justified text is placed at its alignment point
+      const aligned = (getNumber(record, 72) !== 0 || getNumber(record, 73) !== 0) && getValue(record, 11) !== undefined;
+      return {
+        ...base,
+        type: 'text',
+        position: getPoint(record, aligned ? 11 : 10),
+        height: getNumber(record, 40, 1),
+        text: getValue(record, 1) ?? '',
+        rotation: getNumber(record, 50)
+      };
+    }
+
+    case 'MTEXT': {
+      const chunks = record.filter(([code]) => code === 3).map(([, chunk]) => chunk).join('');
+      const xAxis = getValue(record, 11) !== undefined ? getPoint(record, 11) : undefined;
+      return {
+        ...base,
+        type: 'text',
+        position: getPoint(record, 10),
+        height: getNumber(record, 40, 1),
+        text: plainMText(chunks + (record.find(([code]) => code === 1)?.[1] ?? '')),
+        rotation: xAxis ? Math.atan2(xAxis.y, xAxis.x) * 180 / Math.PI : getNumber(record, 50)
+      };
+    }
+
+    case 'INSERT': {
+      const attributes: Record<string, string> = {};
+      children.filter(child => child[0][1] === 'ATTRIB').forEach(attribute => {
+        const tag = getValue(attribute, 2);
+        if (tag) attributes[tag.toUpperCase()] = attribute.find(([code]) => code === 1)?.[1] ?? '';
+      });
+      return {
+        ...base,
+        type: 'insert',
+        block: getValue(record, 2) ?? '',
+        position: getPoint(record, 10),
+        scale: { x: getNumber(record, 41, 1), y: getNumber(record, 42, 1) },
+        rotation: getNumber(record, 50),
+        attributes
+      };
+    }
+
+    case 'DIMENSION': {
+      const text = record.find(([code]) => code === 1)?.[1];
+      const measurement = parseFloat(getValue(record, 42) ?? '');
+      return {
+        ...base,
+        type: 'dimension',
+        start: getPoint(record, 13),
+        end: getPoint(record, 14),
+        text: text && text !== '<>' ? text : undefined,
+        measurement: Number.isFinite(measurement) ? measurement : undefined
+      };
+    }
+
+    default:
+      return { ...base, type: 'unknown', dxfType, points: getPoints(record, [10]) };
+  }
+};
+
+/**
+ * Parses entity records, attaching ATTRIB and VERTEX records to their owning INSERT
+ * or POLYLINE. SEQEND closes the owner.
+ */
+const parseEntities = (records: GroupPair[][]): ParsedDXFEntity[] => {
+  const entities: ParsedDXFEntity[] = [];
+  let index = 0;
+
+  while (index < records.length) {
+    const record = records[index++];
+    const dxfType = record[0][1];
+    const children: GroupPair[][] = [];
+
+    const ownsChildren = COMPLEX_ENTITIES.includes(dxfType) &&
+      (dxfType === 'POLYLINE' || getNumber(record, 66) === 1);
+    if (ownsChildren) {
+      while (index < records.length && records[index][0][1] !== 'SEQEND') {
+        children.push(records[index++]);
+      }
+      index++; // SEQEND
+    }
+
+    entities.push(parseEntity(record, children));
+  }
+
+  return entities;
+};
+
+const parseHeader = (pairs: GroupPair[]): ParsedDXF['header'] => {
+  const header: ParsedDXF['header'] = {};
+  let variable: string | null = null;
+
+  pairs.forEach(([code, raw], index) => {
+    if (code === 9) {
+      variable = raw.trim();
+      return;
+    }
+    if (!variable || header[variable] !== undefined) return;
+
+    if (code === 10) {
+      const y = pairs[index + 1]?.[0] === 20 ? parseFloat(pairs[index + 1][1]) : 0;
+      header[variable] = { x: parseFloat(raw), y };
+    } else {
+      header[variable] = isNumericCode(code) ? parseFloat(raw) : raw.trim();
+    }
+  });
+
+  return header;
+};
+
+const parseLayers = (pairs: GroupPair[]): DXFLayer[] =>
+  splitRecords(pairs)
+    .filter(record => record[0][0] === 0 && record[0][1] === 'LAYER')
+    .map(record => {
+      const color = getNumber(record, 62, 7);
+      const flags = getNumber(record, 70);
+      const lineWeight = getValue(record, 370) !== undefined ? getNumber(record, 370) : undefined;
+      return {
+        name: getValue(record, 2) ?? '0',
+        color: Math.abs(color) || 7,
+        lineType: getValue(record, 6) ?? 'CONTINUOUS',
+        lineWeight: lineWeight !== undefined && lineWeight >= 0 ? lineWeight : undefined,
+        off: color < 0,
+        locked: (flags & 4) === 4,
+        plot: getValue(record, 290) !== '0'
+      };
+    });
+
+const parseBlocks = (pairs: GroupPair[]): ParsedDXFBlock[] => {
+  const blocks: ParsedDXFBlock[] = [];
+  const records = splitRecords(pairs);
+  let index = 0;
+
+  while (index < records.length) {
+    const record = records[index++];
+    if (record[0][1] !== 'BLOCK') continue;
+
+    const body: GroupPair[][] = [];
+    while (index < records.length && records[index][0][1] !== 'ENDBLK') {
+      body.push(records[index++]);
+    }
+    index++; // ENDBLK
+
+    const name = getValue(record, 2) ?? '';
+    blocks.push({
+      name,
+      basePoint: getPoint(record, 10),
+      entities: parseEntities(body),
+      anonymous: name.startsWith('*') || (getNumber(record, 70) & 1) === 1
+    });
+  }
+
+  return blocks;
+};
+
+/**
+ * Parses an ASCII DXF file. Binary DXF is rejected; sections other than HEADER,
+ * TABLES, BLOCKS and ENTITIES are skipped.
+ */
+export const parseDXF = (content: string): ParsedDXF => {
+  if (content.startsWith('AutoCAD Binary DXF')) {
+    throw new Error('Binary DXF files are not supported, save the drawing as ASCII DXF');
+  }
+
+  const pairs = readPairs(content.replace(/^\uFEFF/, ''));
+  const sections = new Map<string, GroupPair[]>();
+  let index = 0;
+
+  while (index < pairs.length) {
+    const [code, raw] = pairs[index];
+    if (code === 0 && raw.trim() === 'EOF') break;
+    if (code === 0 && raw.trim() === 'SECTION' && pairs[index + 1]?.[0] === 2) {
+      const name = pairs[index + 1][1].trim();
+      const end = pairs.findIndex(([endCode, endValue], next) =>
+        next > index && endCode === 0 && endValue.trim() === 'ENDSEC'
+      );
+      if (end < 0) throw new Error(`DXF section ${name} is not terminated`);
+      sections.set(name, pairs.slice(index + 2, end));
+      index = end + 1;
+    } else {
+      index++;
+    }
+  }
+
+  if (!sections.has('ENTITIES')) {
+    throw new Error('DXF file has no ENTITIES section');
+  }
+
+  const trimmed = (name: string) =>
+    (sections.get(name) ?? []).map(([code, raw]): GroupPair => [code, code === 0 ? raw.trim() : raw]);
+
+  return {
+    header: parseHeader(trimmed('HEADER')),
+    layers: parseLayers(trimmed('TABLES')),
+    blocks: parseBlocks(trimmed('BLOCKS')),
+    entities: parseEntities(splitRecords(trimmed('ENTITIES')))
+  };
+};
+
+export default parseDXF;
@@ -0,0 +1,729 @@
+// DXF R2000 (AC1015) Writer
+// Produces ASCII DXF with HEADER, CLASSES, TABLES, BLOCKS, ENTITIES and OBJECTS
+// sections, including handles and owner references so CAD packages open the file
+// without recovery.
+
+export interface DXFPoint {
+  x: number;
+  y: number;
+}
+
+export interface DXFLayer {
+  name: string;
+  color: number; // AutoCAD Color Index
+  lineType: string;
+  lineWeight?: number; // hundredths of a millimetre
+  off?: boolean;
+  locked?: boolean;
+  plot?: boolean;
+}
+
+export interface DXFLineType {
+  name: string;
+  description: string;
+  pattern: number[]; // dash lengths; negative values are gaps, 0 is a dot
+}
+
+export interface DXFAttribute {
+  tag: string;
+  value: string;
+  position: DXFPoint;
+  height: number;
+  prompt?: string;
+  invisible?: boolean;
+}
+
+interface DXFEntityBase {
+  layer: string;
+  color?: number;
+  lineType?: string;
+}
+
+export type DXFEntity =
+  | DXFEntityBase & { type: 'line'; start: DXFPoint; end: DXFPoint }
+  | DXFEntityBase & { type: 'lwpolyline'; points: DXFPoint[]; closed?: boolean; width?: number }
+  | DXFEntityBase & { type: 'solid'; points: [DXFPoint, DXFPoint, DXFPoint, DXFPoint] }
+  | DXFEntityBase & {
+      type: 'text';
+      position: DXFPoint;
+      height: number;
+      text: string;
+      rotation?: number;
+      align?: 'left' | 'center' | 'right';
+    }
+  | DXFEntityBase & { type: 'attdef'; attribute: DXFAttribute }
+  | DXFEntityBase & {
+      type: 'insert';
+      block: string;
+      position: DXFPoint;
+      scale?: DXFPoint;
+      rotation?: number;
+      attributes?: DXFAttribute[];
+    }
+  | DXFEntityBase & {
+      type: 'dimension';
+      start: DXFPoint;
+      end: DXFPoint;
+      offset: number; // distance from the measured points to the dimension line
+      text?: string;
+      textHeight?: number;
+    };
+
+export interface DXFBlock {
+  name: string;
+  basePoint: DXFPoint;
+  entities: DXFEntity[];
+  anonymous?: boolean;
+}
+
+interface BlockRecord {
+  name: string;
+  handle: string;
+}
+
+const ROOT_DICTIONARY_HANDLE = 'C';
+const GROUP_DICTIONARY_HANDLE = 'D';
+const FIRST_HANDLE = 0x20;
+const DEFAULT_TEXT_HEIGHT = 2.5;
+
+// Lightness steps of the AutoCAD Color Index for indices 10-249
+const ACI_VALUE_STEPS = [1.0, 1.0, 0.8, 0.8, 0.6, 0.6, 0.5, 0.5, 0.3, 0.3];
+
+const ACI_BASE_COLORS: Record<number, [number, number, number]> = {
+  1: [255, 0, 0],
+  2: [255, 255, 0],
+  3: [0, 255, 0],
+  4: [0, 255, 255],
+  5: [0, 0, 255],
+  6: [255, 0, 255],
+  8: [65, 65, 65],
+  9: [128, 128, 128],
+  250: [51, 51, 51],
+  251: [80, 80, 80],
+  252: [105, 105, 105],
+  253: [130, 130, 130],
+  254: [190, 190, 190]
+};
+
+let aciPalette: { index: number; rgb: [number, number, number] }[] | null = null;
+
+/**
+ * Nearest AutoCAD Color Index for a hex colour. Black and white both map to 7,
+ * which CAD packages draw in the contrasting colour of the background.
+ */
+export const hexToACI = (hex: string): number => {
+  const match = hex.trim().match(/^#?([0-9a-f]{6}|[0-9a-f]{3})$/i);
+  if (!match) return 7;
+  const digits = match[1].length === 3 ? match[1].split('').map(c => c + c).join('') : match[1];
+  const rgb = [0, 2, 4].map(offset => parseInt(digits.slice(offset, offset + 2), 16));
+
+  if (Math.max(...rgb) < 40 || Math.min(...rgb) > 235) return 7;
+
+  let best = 7;
+  let bestDistance = Infinity;
+  getACIPalette().forEach(({ index, rgb: candidate }) => {
+    const distance = candidate.reduce((sum, value, i) => sum + (value - rgb[i]) ** 2, 0);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = index;
+    }
+  });
+  return best;
+};
+
+/**
+ * Hex colour of an AutoCAD Color Index. Index 7 is drawn black on the light SLD canvas.
+ */
+export const aciToHex = (index: number): string => {
+  const entry = getACIPalette().find(candidate => candidate.index === Math.abs(index));
+  if (!entry) return '#000000';
+  return `#${entry.rgb.map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+};
+
+const getACIPalette = (): { index: number; rgb: [number, number, number] }[] => {
+  if (aciPalette) return aciPalette;
+
+  aciPalette = Object.entries(ACI_BASE_COLORS).map(([index, rgb]) => ({ index: Number(index), rgb }));
+  for (let index = 10; index <= 249; index++) {
+    const hue = Math.floor((index - 10) / 10) * 15;
+    const step = (index - 10) % 10;
+    const saturation = step % 2 === 0 ? 1 : 0.5;
+    aciPalette.push({ index, rgb: hsvToRgb(hue, saturation, ACI_VALUE_STEPS[step]) });
+  }
+  return aciPalette;
+};
+
+const hsvToRgb = (hue: number, saturation: number, value: number): [number, number, number] => {
+  const chroma = value * saturation;
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = value - chroma;
+  const sector = Math.floor(hue / 60) % 6;
+  const [r, g, b] = [
+    [chroma, x, 0], [x, chroma, 0], [0, chroma, x],
+    [0, x, chroma], [x, 0, chroma], [chroma, 0, x]
+  ][sector];
+  return [r, g, b].map(channel => Math.round((channel + m) * 255)) as [number, number, number];
+};
+
+/**
+ * Table and block names may not contain <>/\":;?*|=,` or spaces
+ */
+export const sanitizeDXFName = (name: string): string =>
+  name.trim().replace(/[<>/\\":;?*|=,`\s]+/g, '_').toUpperCase() || 'UNNAMED';
+
+export class DXFWriter {
+  private layers: DXFLayer[] = [];
+  private lineTypes: DXFLineType[] = [];
+  private blocks: DXFBlock[] = [];
+  private entities: DXFEntity[] = [];
+  private dimensionBlocks = new Map<DXFEntity, string>();
+  private nextHandle = FIRST_HANDLE;
+  private output: string[] = [];
+
+  constructor() {
+    this.addLayer({ name: '0', color: 7, lineType: 'CONTINUOUS' });
+    this.addLineType({ name: 'CONTINUOUS', description: 'Solid line', pattern: [] });
+  }
+
+  addLayer(layer: DXFLayer): void {
+    const existing = this.layers.findIndex(candidate => candidate.name === layer.name);
+    if (existing >= 0) {
+      this.layers[existing] = layer;
+    } else {
+      this.layers.push(layer);
+    }
+  }
+
+  hasLayer(name: string): boolean {
+    return this.layers.some(layer => layer.name === name);
+  }
+
+  addLineType(lineType: DXFLineType): void {
+    if (!this.lineTypes.some(candidate => candidate.name === lineType.name)) {
+      this.lineTypes.push(lineType);
+    }
+  }
+
+  addBlock(block: DXFBlock): void {
+    if (this.blocks.some(candidate => candidate.name === block.name)) {
+      throw new Error(`Block ${block.name} is already defined`);
+    }
+    this.blocks.push(block);
+  }
+
+  hasBlock(name: string): boolean {
+    return this.blocks.some(block => block.name === name);
+  }
+
+  addEntity(entity: DXFEntity): void {
+    if (entity.type === 'dimension') {
+      const block = this.buildDimensionBlock(entity, `*D${this.dimensionBlocks.size + 1}`);
+      this.dimensionBlocks.set(entity, block.name);
+      this.blocks.push(block);
+    }
+    this.entities.push(entity);
+  }
+
+  /**
+   * Serialize the drawing. Handles are assigned here, so the writer can be
+   * serialized more than once.
+   */
+  toString(): string {
+    this.nextHandle = FIRST_HANDLE;
+
+    const modelSpace: BlockRecord = { name: '*Model_Space', handle: this.allocateHandle() };
+    const paperSpace: BlockRecord = { name: '*Paper_Space', handle: this.allocateHandle() };
+    const blockRecords = [
+      modelSpace,
+      paperSpace,
+      ...this.blocks.map(block => ({ name: block.name, handle: this.allocateHandle() }))
+    ];
+
+    const tables = this.capture(() => this.writeTables(blockRecords));
+    const blocks = this.capture(() => this.writeBlocks(blockRecords));
+    const entities = this.capture(() => {
+      this.beginSection('ENTITIES');
+      this.entities.forEach(entity => this.writeEntity(entity, modelSpace.handle));
+      this.endSection();
+    });
+    const objects = this.capture(() => this.writeObjects());
+    const header = this.capture(() => this.writeHeader());
+    const classes = this.capture(() => {
+      this.beginSection('CLASSES');
+      this.endSection();
+    });
+
+    return [...header, ...classes, ...tables, ...blocks, ...entities, ...objects, '0', 'EOF', ''].join('\n');
+  }
+
+  // Section writers
+
+  private writeHeader(): void {
+    const extents = this.getExtents();
+    this.beginSection('HEADER');
+    this.variable('$ACADVER', 1, 'AC1015');
+    this.variable('$HANDSEED', 5, this.nextHandle.toString(16).toUpperCase());
+    this.variable('$INSUNITS', 70, 0);
+    this.variable('$MEASUREMENT', 70, 0);
+    this.pair(9, '$EXTMIN');
+    this.point(10, extents.min);
+    this.pair(9, '$EXTMAX');
+    this.point(10, extents.max);
+    this.variable('$LTSCALE', 40, 1);
+    this.variable('$TEXTSTYLE', 7, 'Standard');
+    this.variable('$DIMSTYLE', 2, 'Standard');
+    this.endSection();
+  }
+
+  private writeTables(blockRecords: BlockRecord[]): void {
+    const extents = this.getExtents();
+    this.beginSection('TABLES');
+
+    this.writeTable('VPORT', 1, owner => {
+      this.tableRecord('VPORT', owner, 'AcDbViewportTableRecord');
+      this.pair(2, '*ACTIVE');
+      this.pair(70, 0);
+      this.point(10, { x: 0, y: 0 }, false);
+      this.point(11, { x: 1, y: 1 }, false);
+      this.point(12, { x: (extents.min.x + extents.max.x) / 2, y: (extents.min.y + extents.max.y) / 2 }, false);
+      this.pair(40, Math.max(extents.max.y - extents.min.y, 1) * 1.1);
+      this.pair(41, Math.max(extents.max.x - extents.min.x, 1) / Math.max(extents.max.y - extents.min.y, 1));
+      this.pair(42, 50);
+    });
+
+    this.writeTable('LTYPE', this.lineTypes.length + 2, owner => {
+      ['ByBlock', 'ByLayer'].forEach(name => {
+        this.tableRecord('LTYPE', owner, 'AcDbLinetypeTableRecord');
+        this.pair(2, name);
+        this.pair(70, 0);
+        this.pair(3, '');
+        this.pair(72, 65);
+        this.pair(73, 0);
+        this.pair(40, 0);
+      });
+      this.lineTypes.forEach(lineType => {
+        this.tableRecord('LTYPE', owner, 'AcDbLinetypeTableRecord');
+        this.pair(2, lineType.name);
+        this.pair(70, 0);
+        this.pair(3, lineType.description);
+        this.pair(72, 65);
+        this.pair(73, lineType.pattern.length);
+        this.pair(40, lineType.pattern.reduce((sum, dash) => sum + Math.abs(dash), 0));
+        lineType.pattern.forEach(dash => {
+          this.pair(49, dash);
+          this.pair(74, 0);
+        });
+      });
+    });
+
+    this.writeTable('LAYER', this.layers.length, owner => {
+      this.layers.forEach(layer => {
+        this.tableRecord('LAYER', owner, 'AcDbLayerTableRecord');
+        this.pair(2, layer.name);
+        this.pair(70, layer.locked ? 4 : 0);
+        this.pair(62, layer.off ? -Math.abs(layer.color) : Math.abs(layer.color));
+        this.pair(6, layer.lineType);
+        this.pair(290, layer.plot === false ? 0 : 1);
+        this.pair(370, layer.lineWeight ?? -3);
+      });
+    });
+
+    this.writeTable('STYLE', 1, owner => {
+      this.tableRecord('STYLE', owner, 'AcDbTextStyleTableRecord');
+      this.pair(2, 'Standard');
+      this.pair(70, 0);
+      this.pair(40, 0);
+      this.pair(41, 1);
+      this.pair(50, 0);
+      this.pair(71, 0);
+      this.pair(42, DEFAULT_TEXT_HEIGHT);
+      this.pair(3, 'txt');
+      this.pair(4, '');
+    });
+
+    this.writeTable('VIEW', 0, () => undefined);
+    this.writeTable('UCS', 0, () => undefined);
+
+    this.writeTable('APPID', 1, owner => {
+      this.tableRecord('APPID', owner, 'AcDbRegAppTableRecord');
+      this.pair(2, 'ACAD');
+      this.pair(70, 0);
+    });
+
+    this.writeTable('DIMSTYLE', 1, owner => {
+      // Dimension styles carry their handle in group 105 rather than 5
+      this.pair(0, 'DIMSTYLE');
+      this.pair(105, this.allocateHandle());
+      this.pair(330, owner);
+      this.pair(100, 'AcDbSymbolTableRecord');
+      this.pair(100, 'AcDbDimStyleTableRecord');
+      this.pair(2, 'Standard');
+      this.pair(70, 0);
+      this.pair(41, DEFAULT_TEXT_HEIGHT); // DIMASZ
+      this.pair(42, DEFAULT_TEXT_HEIGHT / 2); // DIMEXO
+      this.pair(44, DEFAULT_TEXT_HEIGHT / 2); // DIMEXE
+      this.pair(140, DEFAULT_TEXT_HEIGHT); // DIMTXT
+    }, 'AcDbDimStyleTable');
+
+    this.writeTable('BLOCK_RECORD', blockRecords.length, owner => {
+      blockRecords.forEach(record => {
+        this.pair(0, 'BLOCK_RECORD');
+        this.pair(5, record.handle);
+        this.pair(330, owner);
+        this.pair(100, 'AcDbSymbolTableRecord');
+        this.pair(100, 'AcDbBlockTableRecord');
+        this.pair(2, record.name);
+      });
+    });
+
+    this.endSection();
+  }
+
+  private writeBlocks(blockRecords: BlockRecord[]): void {
+    this.beginSection('BLOCKS');
+    const definitions: DXFBlock[] = [
+      { name: '*Model_Space', basePoint: { x: 0, y: 0 }, entities: [] },
+      { name: '*Paper_Space', basePoint: { x: 0, y: 0 }, entities: [] },
+      ...this.blocks
+    ];
+
+    definitions.forEach((block, index) => {
+      const record = blockRecords[index];
+      const paperSpace = block.name === '*Paper_Space';
+      const hasAttributes = block.entities.some(entity => entity.type === 'attdef');
+
+      this.pair(0, 'BLOCK');
+      this.pair(5, this.allocateHandle());
+      this.pair(330, record.handle);
+      this.pair(100, 'AcDbEntity');
+      if (paperSpace) this.pair(67, 1);
+      this.pair(8, '0');
+      this.pair(100, 'AcDbBlockBegin');
+      this.pair(2, block.name);
+      this.pair(70, (block.anonymous ? 1 : 0) | (hasAttributes ? 2 : 0));
+      this.point(10, block.basePoint);
+      this.pair(3, block.name);
+      this.pair(1, '');
+
+      block.entities.forEach(entity => this.writeEntity(entity, record.handle));
+
+      this.pair(0, 'ENDBLK');
+      this.pair(5, this.allocateHandle());
+      this.pair(330, record.handle);
+      this.pair(100, 'AcDbEntity');
+      if (paperSpace) this.pair(67, 1);
+      this.pair(8, '0');
+      this.pair(100, 'AcDbBlockEnd');
+    });
+
+    this.endSection();
+  }
+
+  private writeObjects(): void {
+    this.beginSection('OBJECTS');
+    this.pair(0, 'DICTIONARY');
+    this.pair(5, ROOT_DICTIONARY_HANDLE);
+    this.pair(330, '0');
+    this.pair(100, 'AcDbDictionary');
+    this.pair(281, 1);
+    this.pair(3, 'ACAD_GROUP');
+    this.pair(350, GROUP_DICTIONARY_HANDLE);
+    this.pair(0, 'DICTIONARY');
+    this.pair(5, GROUP_DICTIONARY_HANDLE);
+    this.pair(330, ROOT_DICTIONARY_HANDLE);
+    this.pair(100, 'AcDbDictionary');
+    this.pair(281, 1);
+    this.endSection();
+  }
+
+  // Entity writers
+
+  private writeEntity(entity: DXFEntity, owner: string): void {
+    const handle = this.beginEntity(entity, owner);
+
+    switch (entity.type) {
+      case 'line':
+        this.pair(100, 'AcDbLine');
+        this.point(10, entity.start);
+        this.point(11, entity.end);
+        break;
+
+      case 'lwpolyline':
+        this.pair(100, 'AcDbPolyline');
+        this.pair(90, entity.points.length);
+        this.pair(70, entity.closed ? 1 : 0);
+        this.pair(43, entity.width ?? 0);
+        entity.points.forEach(point => this.point(10, point, false));
+        break;
+
+      case 'solid':
+        this.pair(100, 'AcDbTrace');
+        entity.points.forEach((point, index) => this.point(10 + index, point));
+        break;
+
+      case 'text':
+        this.writeText(entity.position, entity.height, entity.text, entity.rotation, entity.align);
+        this.pair(100, 'AcDbText');
+        break;
+
+      case 'attdef':
+        this.writeText(entity.attribute.position, entity.attribute.height, entity.attribute.value);
+        this.pair(100, 'AcDbAttributeDefinition');
+        this.pair(3, entity.attribute.prompt ?? entity.attribute.tag);
+        this.pair(2, sanitizeDXFName(entity.attribute.tag));
+        this.pair(70, entity.attribute.invisible ? 1 : 0);
+        break;
+
+      case 'insert':
+        this.pair(100, 'AcDbBlockReference');
+        if (entity.attributes?.length) this.pair(66, 1);
+        this.pair(2, entity.block);
+        this.point(10, entity.position);
+        this.pair(41, entity.scale?.x ?? 1);
+        this.pair(42, entity.scale?.y ?? 1);
+        this.pair(43, 1);
+        this.pair(50, entity.rotation ?? 0);
+
+        if (entity.attributes?.length) {
+          entity.attributes.forEach(attribute => {
+            this.beginEntity({ type: 'attdef', layer: entity.layer, attribute }, handle, 'ATTRIB');
+            this.writeText(attribute.position, attribute.height, attribute.value);
+            this.pair(100, 'AcDbAttribute');
+            this.pair(2, sanitizeDXFName(attribute.tag));
+            this.pair(70, attribute.invisible ? 1 : 0);
+          });
+          this.pair(0, 'SEQEND');
+          this.pair(5, this.allocateHandle());
+          this.pair(330, handle);
+          this.pair(100, 'AcDbEntity');
+          this.pair(8, entity.layer);
+        }
+        break;
+
+      case 'dimension': {
+        const geometry = this.getDimensionGeometry(entity);
+        this.pair(100, 'AcDbDimension');
+        this.pair(2, this.dimensionBlocks.get(entity)!);
+        this.point(10, geometry.lineEnd);
+        this.point(11, geometry.textPosition);
+        this.pair(70, 1 | 32); // aligned, geometry block referenced by this dimension only
+        if (entity.text) this.pair(1, entity.text);
+        this.pair(3, 'Standard');
+        this.pair(100, 'AcDbAlignedDimension');
+        this.point(13, entity.start);
+        this.point(14, entity.end);
+        break;
+      }
+    }
+  }
+
+  private beginEntity(entity: DXFEntity, owner: string, name = entity.type.toUpperCase()): string {
+    const handle = this.allocateHandle();
+    this.pair(0, name);
+    this.pair(5, handle);
+    this.pair(330, owner);
+    this.pair(100, 'AcDbEntity');
+    this.pair(8, entity.layer);
+    if (entity.lineType) this.pair(6, entity.lineType);
+    if (entity.color !== undefined) this.pair(62, entity.color);
+    return handle;
+  }
+
+  private writeText(
+    position: DXFPoint,
+    height: number,
+    text: string,
+    rotation = 0,
+    align: 'left' | 'center' | 'right' = 'left'
+  ): void {
+    this.pair(100, 'AcDbText');
+    this.point(10, position);
+    this.pair(40, height);
+    this.pair(1, text.replace(/[\r\n]+/g, ' '));
+    if (rotation) this.pair(50, rotation);
+    this.pair(7, 'Standard');
+    if (align !== 'left') {
+      this.pair(72, align === 'center' ? 1 : 2);
+      this.point(11, position);
+    }
+  }
+
+  // Dimensions
+
+  private getDimensionGeometry(dimension: Extract<DXFEntity, { type: 'dimension' }>) {
+    const dx = dimension.end.x - dimension.start.x;
+    const dy = dimension.end.y - dimension.start.y;
+    const length = Math.hypot(dx, dy) || 1;
+    const direction = { x: dx / length, y: dy / length };
+    const normal = { x: -direction.y, y: direction.x };
+    const offset = (point: DXFPoint, distance: number) => ({
+      x: point.x + normal.x * distance,
+      y: point.y + normal.y * distance
+    });
+    const lineStart = offset(dimension.start, dimension.offset);
+    const lineEnd = offset(dimension.end, dimension.offset);
+    const textHeight = dimension.textHeight ?? DEFAULT_TEXT_HEIGHT;
+
+    return {
+      direction,
+      normal,
+      lineStart,
+      lineEnd,
+      textHeight,
+      textPosition: offset(
+        { x: (dimension.start.x + dimension.end.x) / 2, y: (dimension.start.y + dimension.end.y) / 2 },
+        dimension.offset + textHeight * (dimension.offset >= 0 ? 1 : -1)
+      ),
+      rotation: Math.atan2(dy, dx) * 180 / Math.PI
+    };
+  }
+
+  /**
+   * Anonymous block holding the rendered dimension: extension lines, dimension
+   * line, arrowheads and text
+   */
+  private buildDimensionBlock(dimension: Extract<DXFEntity, { type: 'dimension' }>, name: string): DXFBlock {
+    const geometry = this.getDimensionGeometry(dimension);
+    const arrowSize = geometry.textHeight;
+    const extension = (point: DXFPoint, linePoint: DXFPoint): DXFEntity => ({
+      type: 'line',
+      layer: dimension.layer,
+      start: point,
+      end: {
+        x: linePoint.x + geometry.normal.x * Math.sign(dimension.offset || 1) * arrowSize / 2,
+        y: linePoint.y + geometry.normal.y * Math.sign(dimension.offset || 1) * arrowSize / 2
+      }
+    });
+    const arrow = (tip: DXFPoint, inward: number): DXFEntity => {
+      const base = {
+        x: tip.x + geometry.direction.x * arrowSize * inward,
+        y: tip.y + geometry.direction.y * arrowSize * inward
+      };
+      const halfWidth = arrowSize / 6;
+      const left = { x: base.x + geometry.normal.x * halfWidth, y: base.y + geometry.normal.y * halfWidth };
+      const right = { x: base.x - geometry.normal.x * halfWidth, y: base.y - geometry.normal.y * halfWidth };
+      return { type: 'solid', layer: dimension.layer, points: [tip, left, right, right] };
+    };
+    const measured = Math.hypot(dimension.end.x - dimension.start.x, dimension.end.y - dimension.start.y);
+    const rotation = geometry.rotation > 90 || geometry.rotation < -90 ? geometry.rotation + 180 : geometry.rotation;
+
+    return {
+      name,
+      basePoint: { x: 0, y: 0 },
+      anonymous: true,
+      entities: [
+        extension(dimension.start, geometry.lineStart),
+        extension(dimension.end, geometry.lineEnd),
+        { type: 'line', layer: dimension.layer, start: geometry.lineStart, end: geometry.lineEnd },
+        arrow(geometry.lineStart, 1),
+        arrow(geometry.lineEnd, -1),
+        {
+          type: 'text',
+          layer: dimension.layer,
+          position: geometry.textPosition,
+          height: geometry.textHeight,
+          text: dimension.text ?? measured.toFixed(2),
+          rotation,
+          align: 'center'
+        }
+      ]
+    };
+  }
+
+  // Low level output
+
+  private capture(write: () => void): string[] {
+    this.output = [];
+    write();
+    return this.output;
+  }
+
+  private writeTable(name: string, count: number, writeEntries: (owner: string) => void, subclass?: string): void {
+    const handle = this.allocateHandle();
+    this.pair(0, 'TABLE');
+    this.pair(2, name);
+    this.pair(5, handle);
+    this.pair(330, '0');
+    this.pair(100, 'AcDbSymbolTable');
+    this.pair(70, count);
+    if (subclass) this.pair(100, subclass);
+    writeEntries(handle);
+    this.pair(0, 'ENDTAB');
+  }
+
+  private tableRecord(name: string, owner: string, subclass: string): void {
+    this.pair(0, name);
+    this.pair(5, this.allocateHandle());
+    this.pair(330, owner);
+    this.pair(100, 'AcDbSymbolTableRecord');
+    this.pair(100, subclass);
+  }
+
+  private beginSection(name: string): void {
+    this.pair(0, 'SECTION');
+    this.pair(2, name);
+  }
+
+  private endSection(): void {
+    this.pair(0, 'ENDSEC');
+  }
+
+  private variable(name: string, code: number, value: string | number): void {
+    this.pair(9, name);
+    this.pair(code, value);
+  }
+
+  private point(code: number, point: DXFPoint, includeZ = true): void {
+    this.pair(code, point.x);
+    this.pair(code + 10, point.y);
+    if (includeZ) this.pair(code + 20, 0);
+  }
+
+  private pair(code: number, value: string | number): void {
+    this.output.push(String(code).padStart(3, ' '));
+    this.output.push(typeof value === 'number' ? this.formatNumber(code, value) : value);
+  }
+
+  private formatNumber(code: number, value: number): string {
+    // Integer group codes must not carry a decimal point
+    const isInteger = (code >= 60 && code <= 99) || (code >= 170 && code <= 179) ||
+      (code >= 270 && code <= 299) || (code >= 370 && code <= 389) || (code >= 1060 && code <= 1071);
+    if (isInteger) return String(Math.round(value));
+    const rounded = Math.round(value * 1e6) / 1e6;
+    return Number.isInteger(rounded) ? rounded.toFixed(1) : String(rounded);
+  }
+
+  private allocateHandle(): string {
+    return (this.nextHandle++).toString(16).toUpperCase();
+  }
+
+  private getExtents(): { min: DXFPoint; max: DXFPoint } {
+    const points: DXFPoint[] = [];
+    this.entities.forEach(entity => {
+      switch (entity.type) {
+        case 'line':
+        case 'dimension':
+          points.push(entity.start, entity.end);
+          break;
+        case 'lwpolyline':
+        case 'solid':
+          points.push(...entity.points);
+          break;
+        case 'text':
+        case 'insert':
+          points.push(entity.position);
+          break;
+      }
+    });
+
+    if (points.length === 0) {
+      return { min: { x: 0, y: 0 }, max: { x: 0, y: 0 } };
+    }
+    return {
+      min: { x: Math.min(...points.map(p => p.x)), y: Math.min(...points.map(p => p.y)) },
+      max: { x: Math.max(...points.map(p => p.x)), y: Math.max(...points.map(p => p.y)) }
+    };
+  }
+}
+
+export default DXFWriter;
@@ -169,6 +169,7 @@ export const calculatePotentialFromData = (solarData: any, latitude: number, lon
       maxArrayAreaMeters2: buildingInsights.wholeRoofStats?.areaMeters2,
       roofSegmentCount: buildingInsights.roofSegmentCount || 1
     },
+    roofSegments: buildingInsights.roofSegmentStats,
     recommendations: financialAnalysis ? {
       financialAnalysis: {
         monthlyBill: parseFloat(financialAnalysis.monthlyBill?.units || '100'),
@@ -0,0 +1,567 @@
+// R-tree Spatial Index
+// Bounding-box index shared by SLD hit testing, rectangle selection, wire routing obstacles
+// and viewport culling, with incremental updates and nearest-neighbour queries
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface IndexPoint {
+  x: number;
+  y: number;
+}
+
+export interface SpatialIndexItem<T> {
+  id: string;
+  bounds: Bounds;
+  item: T;
+}
+
+export interface NearestResult<T> {
+  id: string;
+  item: T;
+  distance: number;
+}
+
+export interface NearestOptions<T> {
+  count?: number;
+  maxDistance?: number;
+  filter?: (item: T) => boolean;
+}
+
+export interface SpatialIndexStats {
+  size: number;
+  height: number;
+  nodes: number;
+}
+
+interface BBox {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+interface IndexEntry<T> extends BBox {
+  id: string;
+  item: T;
+  parent: IndexNode<T> | null;
+}
+
+interface IndexNode<T> extends BBox {
+  children: Array<IndexNode<T> | IndexEntry<T>>;
+  leaf: boolean;
+  height: number;
+  parent: IndexNode<T> | null;
+}
+
+type IndexChild<T> = IndexNode<T> | IndexEntry<T>;
+
+const DEFAULT_MAX_ENTRIES = 16;
+
+const toBBox = (bounds: Bounds): BBox => ({
+  minX: bounds.x,
+  minY: bounds.y,
+  maxX: bounds.x + bounds.width,
+  maxY: bounds.y + bounds.height
+});
+
+const area = (box: BBox): number => (box.maxX - box.minX) * (box.maxY - box.minY);
+
+const margin = (box: BBox): number => (box.maxX - box.minX) + (box.maxY - box.minY);
+
+const enlargedArea = (a: BBox, b: BBox): number =>
+  (Math.max(b.maxX, a.maxX) - Math.min(b.minX, a.minX)) * (Math.max(b.maxY, a.maxY) - Math.min(b.minY, a.minY));
+
+const intersectionArea = (a: BBox, b: BBox): number => {
+  const minX = Math.max(a.minX, b.minX);
+  const minY = Math.max(a.minY, b.minY);
+  const maxX = Math.min(a.maxX, b.maxX);
+  const maxY = Math.min(a.maxY, b.maxY);
+  return Math.max(0, maxX - minX) * Math.max(0, maxY - minY);
+};
+
+const contains = (a: BBox, b: BBox): boolean =>
+  a.minX <= b.minX && a.minY <= b.minY && b.maxX <= a.maxX && b.maxY <= a.maxY;
+
+const intersects = (a: BBox, b: BBox): boolean =>
+  b.minX <= a.maxX && b.minY <= a.maxY && b.maxX >= a.minX && b.maxY >= a.minY;
+
+const extend = (a: BBox, b: BBox): BBox => {
+  a.minX = Math.min(a.minX, b.minX);
+  a.minY = Math.min(a.minY, b.minY);
+  a.maxX = Math.max(a.maxX, b.maxX);
+  a.maxY = Math.max(a.maxY, b.maxY);
+  return a;
+};
+
+const emptyBBox = (): BBox => ({ minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity });
+
+const distanceToBBox = (point: IndexPoint, box: BBox): number => {
+  const dx = Math.max(box.minX - point.x, 0, point.x - box.maxX);
+  const dy = Math.max(box.minY - point.y, 0, point.y - box.maxY);
+  return Math.sqrt(dx * dx + dy * dy);
+};
+
+const isNode = <T>(child: IndexChild<T>): child is IndexNode<T> => 'children' in child;
+
+/**
+ * Min-heap keyed on distance for best-first nearest neighbour search
+ */
+class DistanceQueue<V> {
+  private items: Array<{ distance: number; value: V }> = [];
+
+  public get length(): number {
+    return this.items.length;
+  }
+
+  public push(distance: number, value: V): void {
+    const items = this.items;
+    items.push({ distance, value });
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (items[parent].distance <= items[index].distance) break;
+      [items[parent], items[index]] = [items[index], items[parent]];
+      index = parent;
+    }
+  }
+
+  public pop(): { distance: number; value: V } | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < items.length && items[left].distance < items[smallest].distance) smallest = left;
+        if (right < items.length && items[right].distance < items[smallest].distance) smallest = right;
+        if (smallest === index) break;
+        [items[smallest], items[index]] = [items[index], items[smallest]];
+        index = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+export class SpatialIndex<T> {
+  private root: IndexNode<T>;
+  private entries: Map<string, IndexEntry<T>> = new Map();
+  private maxEntries: number;
+  private minEntries: number;
+
+  constructor(maxEntries: number = DEFAULT_MAX_ENTRIES) {
+    this.maxEntries = Math.max(4, maxEntries);
+    this.minEntries = Math.max(2, Math.ceil(this.maxEntries * 0.4));
+    this.root = this.createNode([], true);
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  public has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  public get(id: string): T | undefined {
+    return this.entries.get(id)?.item;
+  }
+
+  public all(): T[] {
+    return Array.from(this.entries.values(), entry => entry.item);
+  }
+
+  public insert(id: string, bounds: Bounds, item: T): void {
+    if (this.entries.has(id)) {
+      this.update(id, bounds, item);
+      return;
+    }
+
+    const entry: IndexEntry<T> = { ...toBBox(bounds), id, item, parent: null };
+    this.entries.set(id, entry);
+    this.insertEntry(entry);
+  }
+
+  /**
+   * Replace the index contents in one pass. Bulk loading packs nodes tighter than
+   * repeated inserts and is several times faster for whole-diagram rebuilds.
+   */
+  public load(items: SpatialIndexItem<T>[]): void {
+    this.clear();
+
+    items.forEach(({ id, bounds, item }) => {
+      this.entries.set(id, { ...toBBox(bounds), id, item, parent: null });
+    });
+
+    const entries = Array.from(this.entries.values());
+    if (entries.length === 0) return;
+    this.root = this.build(entries, 0, entries.length - 1, 0);
+    this.assignParents(this.root);
+  }
+
+  /**
+   * Move or resize an entry. Moves that stay inside the current leaf's bounding box
+   * are applied in place; larger moves re-insert the entry.
+   */
+  public update(id: string, bounds: Bounds, item?: T): void {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      if (item !== undefined) {
+        this.insert(id, bounds, item);
+      }
+      return;
+    }
+
+    if (item !== undefined) {
+      entry.item = item;
+    }
+
+    const box = toBBox(bounds);
+    if (box.minX === entry.minX && box.minY === entry.minY && box.maxX === entry.maxX && box.maxY === entry.maxY) {
+      return;
+    }
+
+    if (entry.parent && contains(entry.parent, box)) {
+      Object.assign(entry, box);
+      return;
+    }
+
+    this.detach(entry);
+    Object.assign(entry, box);
+    this.insertEntry(entry);
+  }
+
+  public remove(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) return false;
+
+    this.detach(entry);
+    this.entries.delete(id);
+    return true;
+  }
+
+  public clear(): void {
+    this.entries.clear();
+    this.root = this.createNode([], true);
+  }
+
+  public search(bounds: Bounds): T[] {
+    return this.searchBBox(toBBox(bounds));
+  }
+
+  public searchPoint(point: IndexPoint, tolerance: number = 0): T[] {
+    return this.searchBBox({
+      minX: point.x - tolerance,
+      minY: point.y - tolerance,
+      maxX: point.x + tolerance,
+      maxY: point.y + tolerance
+    });
+  }
+
+  /**
+   * Best-first search for the entries whose bounds are closest to a point.
+   * Distance is zero for points inside an entry's bounds.
+   */
+  public nearest(point: IndexPoint, options: NearestOptions<T> = {}): NearestResult<T>[] {
+    const { count = 1, maxDistance = Infinity, filter } = options;
+    const results: NearestResult<T>[] = [];
+    const queue = new DistanceQueue<IndexChild<T>>();
+    queue.push(distanceToBBox(point, this.root), this.root);
+
+    while (queue.length > 0 && results.length < count) {
+      const next = queue.pop()!;
+      if (next.distance > maxDistance) break;
+
+      const child = next.value;
+      if (!isNode(child)) {
+        if (!filter || filter(child.item)) {
+          results.push({ id: child.id, item: child.item, distance: next.distance });
+        }
+        continue;
+      }
+
+      for (const grandchild of child.children) {
+        const distance = distanceToBBox(point, grandchild);
+        if (distance <= maxDistance) {
+          queue.push(distance, grandchild);
+        }
+      }
+    }
+
+    return results;
+  }
+
+  public getStats(): SpatialIndexStats {
+    let nodes = 0;
+    const stack: IndexNode<T>[] = [this.root];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      nodes++;
+      if (!node.leaf) {
+        stack.push(...(node.children as IndexNode<T>[]));
+      }
+    }
+
+    return { size: this.entries.size, height: this.root.height, nodes };
+  }
+
+  private searchBBox(box: BBox): T[] {
+    const results: T[] = [];
+    if (!intersects(box, this.root)) return results;
+
+    const stack: IndexNode<T>[] = [this.root];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      for (const child of node.children) {
+        if (!intersects(box, child)) continue;
+        if (node.leaf) {
+          results.push((child as IndexEntry<T>).item);
+        } else if (contains(box, child)) {
+          this.collectAll(child as IndexNode<T>, results);
+        } else {
+          stack.push(child as IndexNode<T>);
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private collectAll(node: IndexNode<T>, results: T[]): void {
+    const stack: IndexNode<T>[] = [node];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (current.leaf) {
+        current.children.forEach(child => results.push((child as IndexEntry<T>).item));
+      } else {
+        stack.push(...(current.children as IndexNode<T>[]));
+      }
+    }
+  }
+
+  private createNode(children: IndexChild<T>[], leaf: boolean): IndexNode<T> {
+    return { ...emptyBBox(), children, leaf, height: 1, parent: null };
+  }
+
+  private recalculateBBox(node: IndexNode<T>): void {
+    Object.assign(node, emptyBBox());
+    node.children.forEach(child => extend(node, child));
+  }
+
+  private insertEntry(entry: IndexEntry<T>): void {
+    // Descend to the leaf that needs the least enlargement
+    let node = this.root;
+    while (!node.leaf) {
+      let best: IndexNode<T> | null = null;
+      let bestEnlargement = Infinity;
+      let bestArea = Infinity;
+
+      for (const child of node.children as IndexNode<T>[]) {
+        const childArea = area(child);
+        const enlargement = enlargedArea(entry, child) - childArea;
+        if (enlargement < bestEnlargement || (enlargement === bestEnlargement && childArea < bestArea)) {
+          bestEnlargement = enlargement;
+          bestArea = childArea;
+          best = child;
+        }
+      }
+
+      node = best || (node.children[0] as IndexNode<T>);
+    }
+
+    node.children.push(entry);
+    entry.parent = node;
+
+    // Grow bounding boxes on the way up, splitting any node that overflowed
+    let current: IndexNode<T> | null = node;
+    while (current) {
+      extend(current, entry);
+      const parent: IndexNode<T> | null = current.parent;
+      if (current.children.length > this.maxEntries) {
+        this.split(current);
+      }
+      current = parent;
+    }
+  }
+
+  private detach(entry: IndexEntry<T>): void {
+    const leaf = entry.parent;
+    if (!leaf) return;
+
+    leaf.children.splice(leaf.children.indexOf(entry), 1);
+    entry.parent = null;
+
+    // Drop empty nodes and shrink the bounding boxes above the removed entry
+    let node: IndexNode<T> | null = leaf;
+    while (node) {
+      const parent: IndexNode<T> | null = node.parent;
+      if (node.children.length === 0 && parent) {
+        parent.children.splice(parent.children.indexOf(node), 1);
+      } else {
+        this.recalculateBBox(node);
+      }
+      node = parent;
+    }
+
+    if (this.root.children.length === 0) {
+      this.root = this.createNode([], true);
+    } else if (!this.root.leaf && this.root.children.length === 1) {
+      this.root = this.root.children[0] as IndexNode<T>;
+      this.root.parent = null;
+    }
+  }
+
+  private split(node: IndexNode<T>): void {
+    const total = node.children.length;
+    const minEntries = this.minEntries;
+
+    this.chooseSplitAxis(node, minEntries, total);
+    const splitIndex = this.chooseSplitIndex(node, minEntries, total);
+
+    const sibling = this.createNode(node.children.splice(splitIndex, node.children.length - splitIndex), node.leaf);
+    sibling.height = node.height;
+    sibling.children.forEach(child => {
+      child.parent = sibling;
+    });
+    this.recalculateBBox(node);
+    this.recalculateBBox(sibling);
+
+    if (node.parent) {
+      sibling.parent = node.parent;
+      node.parent.children.push(sibling);
+    } else {
+      const root = this.createNode([node, sibling], false);
+      root.height = node.height + 1;
+      node.parent = root;
+      sibling.parent = root;
+      this.recalculateBBox(root);
+      this.root = root;
+    }
+  }
+
+  private chooseSplitAxis(node: IndexNode<T>, minEntries: number, total: number): void {
+    const xMargin = this.distributionMargin(node, minEntries, total, (a, b) => a.minX - b.minX);
+    const yMargin = this.distributionMargin(node, minEntries, total, (a, b) => a.minY - b.minY);
+
+    // Children are left sorted along the axis with the smaller total margin
+    if (xMargin < yMargin) {
+      node.children.sort((a, b) => a.minX - b.minX);
+    }
+  }
+
+  private distributionMargin(
+    node: IndexNode<T>,
+    minEntries: number,
+    total: number,
+    compare: (a: BBox, b: BBox) => number
+  ): number {
+    node.children.sort(compare);
+
+    const left = emptyBBox();
+    const right = emptyBBox();
+    node.children.slice(0, minEntries).forEach(child => extend(left, child));
+    node.children.slice(total - minEntries).forEach(child => extend(right, child));
+    let sum = margin(left) + margin(right);
+
+    for (let i = minEntries; i < total - minEntries; i++) {
+      extend(left, node.children[i]);
+      sum += margin(left);
+    }
+    for (let i = total - minEntries - 1; i >= minEntries; i--) {
+      extend(right, node.children[i]);
+      sum += margin(right);
+    }
+
+    return sum;
+  }
+
+  private chooseSplitIndex(node: IndexNode<T>, minEntries: number, total: number): number {
+    let index = total - minEntries;
+    let minOverlap = Infinity;
+    let minArea = Infinity;
+
+    for (let i = minEntries; i <= total - minEntries; i++) {
+      const left = emptyBBox();
+      const right = emptyBBox();
+      node.children.slice(0, i).forEach(child => extend(left, child));
+      node.children.slice(i).forEach(child => extend(right, child));
+
+      const overlap = intersectionArea(left, right);
+      const combinedArea = area(left) + area(right);
+      if (overlap < minOverlap || (overlap === minOverlap && combinedArea < minArea)) {
+        minOverlap = overlap;
+        minArea = combinedArea;
+        index = i;
+      }
+    }
+
+    return index;
+  }
+
+  /**
+   * Sort-tile-recursive packing of sorted entry slices into full nodes
+   */
+  private build(entries: IndexEntry<T>[], left: number, right: number, height: number): IndexNode<T> {
+    const count = right - left + 1;
+    let maxEntries = this.maxEntries;
+
+    if (count <= maxEntries) {
+      const leaf = this.createNode(entries.slice(left, right + 1), true);
+      this.recalculateBBox(leaf);
+      return leaf;
+    }
+
+    if (!height) {
+      height = Math.ceil(Math.log(count) / Math.log(maxEntries));
+      maxEntries = Math.ceil(count / Math.pow(maxEntries, height - 1));
+    }
+
+    const node = this.createNode([], false);
+    node.height = height;
+
+    const perNode = Math.ceil(count / maxEntries);
+    const perSlice = perNode * Math.ceil(Math.sqrt(maxEntries));
+
+    this.sortRange(entries, left, right, (a, b) => a.minX - b.minX);
+    for (let i = left; i <= right; i += perSlice) {
+      const sliceEnd = Math.min(i + perSlice - 1, right);
+      this.sortRange(entries, i, sliceEnd, (a, b) => a.minY - b.minY);
+      for (let j = i; j <= sliceEnd; j += perNode) {
+        node.children.push(this.build(entries, j, Math.min(j + perNode - 1, sliceEnd), height - 1));
+      }
+    }
+
+    this.recalculateBBox(node);
+    return node;
+  }
+
+  private sortRange(entries: IndexEntry<T>[], left: number, right: number, compare: (a: BBox, b: BBox) => number): void {
+    const sorted = entries.slice(left, right + 1).sort(compare);
+    for (let i = 0; i < sorted.length; i++) {
+      entries[left + i] = sorted[i];
+    }
+  }
+
+  private assignParents(node: IndexNode<T>): void {
+    node.parent = null;
+    const stack: IndexNode<T>[] = [node];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      current.children.forEach(child => {
+        child.parent = current;
+        if (isNode(child)) {
+          stack.push(child);
+        }
+      });
+    }
+  }
+}
@@ -0,0 +1,424 @@
+// Office Open XML Workbook (.xlsx) Writer
+// Produces a SpreadsheetML package with inline strings, a deduplicated style table,
+// formulas with cached values, column widths, merged cells and frozen header rows.
+// The package is written as an uncompressed ZIP so no compression library is needed.
+
+export interface XLSXCellStyle {
+  bold?: boolean;
+  italic?: boolean;
+  fontSize?: number; // points
+  textColor?: string; // #rrggbb
+  backgroundColor?: string; // #rrggbb
+  border?: boolean; // thin border on all sides
+  align?: 'left' | 'center' | 'right';
+  wrap?: boolean;
+  numberFormat?: string; // Excel format code, e.g. '#,##0.00'
+}
+
+export interface XLSXFormula {
+  formula: string; // without the leading '='
+  result?: number | string; // cached value shown before Excel recalculates
+}
+
+export type XLSXCellValue = string | number | boolean | null | undefined | XLSXFormula;
+
+export interface XLSXCell {
+  value: XLSXCellValue;
+  style?: XLSXCellStyle;
+}
+
+export interface XLSXSheet {
+  name: string;
+  rows: (XLSXCell | XLSXCellValue)[][];
+  columnWidths?: number[]; // characters
+  merges?: string[]; // ranges such as 'A1:F1'
+  frozenRows?: number;
+}
+
+interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Custom number formats start after the built-in ids
+const FIRST_CUSTOM_FORMAT_ID = 164;
+const MAX_SHEET_NAME_LENGTH = 31;
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (data: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const escapeXML = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and line breaks are not allowed in XML
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+/**
+ * Zero-based column index to its letter name: 0 → A, 26 → AA
+ */
+export const columnLetter = (index: number): string => {
+  let letters = '';
+  let remaining = index + 1;
+  while (remaining > 0) {
+    const digit = (remaining - 1) % 26;
+    letters = String.fromCharCode(65 + digit) + letters;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+  return letters;
+};
+
+/**
+ * Zero-based row and column to an A1 reference
+ */
+export const cellReference = (row: number, column: number): string => `${columnLetter(column)}${row + 1}`;
+
+/**
+ * Sheet names may not contain []:*?/\ and are limited to 31 characters
+ */
+export const sanitizeSheetName = (name: string): string =>
+  name.replace(/[[\]:*?/\\]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, MAX_SHEET_NAME_LENGTH).trim() || 'Sheet';
+
+const toARGB = (hex: string): string => {
+  const match = hex.trim().match(/^#?([0-9a-f]{6}|[0-9a-f]{3})$/i);
+  if (!match) return 'FF000000';
+  const digits = match[1].length === 3 ? match[1].split('').map(c => c + c).join('') : match[1];
+  return `FF${digits.toUpperCase()}`;
+};
+
+const isFormula = (value: XLSXCellValue): value is XLSXFormula =>
+  typeof value === 'object' && value !== null && 'formula' in value;
+
+const isCell = (cell: XLSXCell | XLSXCellValue): cell is XLSXCell =>
+  typeof cell === 'object' && cell !== null && 'value' in cell;
+
+export class XLSXWriter {
+  private sheets: XLSXSheet[] = [];
+  private fonts: string[] = [];
+  private fills: string[] = [];
+  private borders: string[] = [];
+  private numberFormats: string[] = [];
+  private cellFormats: string[] = [];
+
+  addSheet(sheet: XLSXSheet): string {
+    const base = sanitizeSheetName(sheet.name);
+    let name = base;
+    for (let n = 2; this.sheets.some(existing => existing.name.toLowerCase() === name.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      name = `${base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length)}${suffix}`;
+    }
+    this.sheets.push({ ...sheet, name });
+    return name;
+  }
+
+  toUint8Array(): Uint8Array {
+    if (this.sheets.length === 0) {
+      throw new Error('A workbook needs at least one sheet');
+    }
+    this.resetStyles();
+
+    const encoder = new TextEncoder();
+    const worksheets = this.sheets.map((sheet, index) => ({
+      path: `xl/worksheets/sheet${index + 1}.xml`,
+      data: encoder.encode(this.writeWorksheet(sheet))
+    }));
+
+    // Styles are collected while the worksheets are written
+    const entries: ZipEntry[] = [
+      { path: '[Content_Types].xml', data: encoder.encode(this.writeContentTypes()) },
+      { path: '_rels/.rels', data: encoder.encode(this.writeRootRelationships()) },
+      { path: 'xl/workbook.xml', data: encoder.encode(this.writeWorkbook()) },
+      { path: 'xl/_rels/workbook.xml.rels', data: encoder.encode(this.writeWorkbookRelationships()) },
+      { path: 'xl/styles.xml', data: encoder.encode(this.writeStyles()) },
+      ...worksheets
+    ];
+
+    return this.writeZip(entries);
+  }
+
+  toBlob(): Blob {
+    return new Blob([this.toUint8Array()], { type: XLSX_MIME_TYPE });
+  }
+
+  private resetStyles(): void {
+    // Excel expects the default font, the two reserved fills and an empty border first
+    this.fonts = ['<font><sz val="11"/><name val="Calibri"/><family val="2"/></font>'];
+    this.fills = ['<fill><patternFill patternType="none"/></fill>', '<fill><patternFill patternType="gray125"/></fill>'];
+    this.borders = ['<border><left/><right/><top/><bottom/><diagonal/></border>'];
+    this.numberFormats = [];
+    this.cellFormats = ['<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'];
+  }
+
+  private registerStyle(style?: XLSXCellStyle): number {
+    if (!style || Object.keys(style).length === 0) return 0;
+
+    const fontId = this.intern(this.fonts, [
+      '<font>',
+      style.bold ? '<b/>' : '',
+      style.italic ? '<i/>' : '',
+      `<sz val="${style.fontSize ?? 11}"/>`,
+      style.textColor ? `<color rgb="${toARGB(style.textColor)}"/>` : '',
+      '<name val="Calibri"/><family val="2"/></font>'
+    ].join(''));
+
+    const fillId = style.backgroundColor
+      ? this.intern(this.fills, `<fill><patternFill patternType="solid"><fgColor rgb="${toARGB(style.backgroundColor)}"/><bgColor indexed="64"/></patternFill></fill>`)
+      : 0;
+
+    const borderId = style.border
+      ? this.intern(this.borders, '<border><left style="thin"><color auto="1"/></left><right style="thin"><color auto="1"/></right><top style="thin"><color auto="1"/></top><bottom style="thin"><color auto="1"/></bottom><diagonal/></border>')
+      : 0;
+
+    const formatId = style.numberFormat
+      ? FIRST_CUSTOM_FORMAT_ID + this.intern(this.numberFormats, style.numberFormat)
+      : 0;
+
+    const alignment = style.align || style.wrap
+      ? `<alignment${style.align ? ` horizontal="${style.align}"` : ''}${style.wrap ? ' wrapText="1" vertical="top"' : ''}/>`
+      : '';
+
+    return this.intern(this.cellFormats, [
+      `<xf numFmtId="${formatId}" fontId="${fontId}" fillId="${fillId}" borderId="${borderId}" xfId="0"`,
+      formatId ? ' applyNumberFormat="1"' : '',
+      fontId ? ' applyFont="1"' : '',
+      fillId ? ' applyFill="1"' : '',
+      borderId ? ' applyBorder="1"' : '',
+      alignment ? ` applyAlignment="1">${alignment}</xf>` : '/>'
+    ].join(''));
+  }
+
+  private intern(table: string[], entry: string): number {
+    const existing = table.indexOf(entry);
+    if (existing >= 0) return existing;
+    table.push(entry);
+    return table.length - 1;
+  }
+
+  private writeWorksheet(sheet: XLSXSheet): string {
+    const parts: string[] = [XML_HEADER, `<worksheet xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}">`];
+
+    if (sheet.frozenRows) {
+      const topLeft = cellReference(sheet.frozenRows, 0);
+      parts.push(
+        '<sheetViews><sheetView workbookViewId="0">',
+        `<pane ySplit="${sheet.frozenRows}" topLeftCell="${topLeft}" activePane="bottomLeft" state="frozen"/>`,
+        `<selection pane="bottomLeft" activeCell="${topLeft}" sqref="${topLeft}"/>`,
+        '</sheetView></sheetViews>'
+      );
+    }
+
+    if (sheet.columnWidths?.length) {
+      parts.push('<cols>');
+      sheet.columnWidths.forEach((width, index) => {
+        parts.push(`<col min="${index + 1}" max="${index + 1}" width="${Math.max(1, Math.round(width * 100) / 100)}" customWidth="1"/>`);
+      });
+      parts.push('</cols>');
+    }
+
+    parts.push('<sheetData>');
+    sheet.rows.forEach((row, rowIndex) => {
+      const cells = row
+        .map((cell, columnIndex) => this.writeCell(cell, rowIndex, columnIndex))
+        .filter(Boolean)
+        .join('');
+      if (cells) parts.push(`<row r="${rowIndex + 1}">${cells}</row>`);
+    });
+    parts.push('</sheetData>');
+
+    if (sheet.merges?.length) {
+      parts.push(`<mergeCells count="${sheet.merges.length}">`);
+      sheet.merges.forEach(range => parts.push(`<mergeCell ref="${range}"/>`));
+      parts.push('</mergeCells>');
+    }
+
+    parts.push('<pageMargins left="0.7" right="0.7" top="0.75" bottom="0.75" header="0.3" footer="0.3"/>', '</worksheet>');
+    return parts.join('');
+  }
+
+  private writeCell(cell: XLSXCell | XLSXCellValue, row: number, column: number): string {
+    const { value, style } = isCell(cell) ? cell : { value: cell, style: undefined };
+    const styleId = this.registerStyle(style);
+    const reference = cellReference(row, column);
+    const styleAttribute = styleId ? ` s="${styleId}"` : '';
+
+    if (value === null || value === undefined || value === '') {
+      return styleId ? `<c r="${reference}"${styleAttribute}/>` : '';
+    }
+
+    if (isFormula(value)) {
+      const formula = `<f>${escapeXML(value.formula.replace(/^=/, ''))}</f>`;
+      if (typeof value.result === 'number' && Number.isFinite(value.result)) {
+        return `<c r="${reference}"${styleAttribute}>${formula}<v>${value.result}</v></c>`;
+      }
+      if (typeof value.result === 'string') {
+        return `<c r="${reference}"${styleAttribute} t="str">${formula}<v>${escapeXML(value.result)}</v></c>`;
+      }
+      return `<c r="${reference}"${styleAttribute}>${formula}</c>`;
+    }
+
+    if (typeof value === 'number') {
+      return Number.isFinite(value)
+        ? `<c r="${reference}"${styleAttribute}><v>${value}</v></c>`
+        : `<c r="${reference}"${styleAttribute} t="inlineStr"><is><t>${String(value)}</t></is></c>`;
+    }
+
+    if (typeof value === 'boolean') {
+      return `<c r="${reference}"${styleAttribute} t="b"><v>${value ? 1 : 0}</v></c>`;
+    }
+
+    return `<c r="${reference}"${styleAttribute} t="inlineStr"><is><t xml:space="preserve">${escapeXML(value)}</t></is></c>`;
+  }
+
+  private writeStyles(): string {
+    const formats = this.numberFormats.length
+      ? `<numFmts count="${this.numberFormats.length}">${this.numberFormats
+        .map((code, index) => `<numFmt numFmtId="${FIRST_CUSTOM_FORMAT_ID + index}" formatCode="${escapeXML(code)}"/>`)
+        .join('')}</numFmts>`
+      : '';
+
+    return [
+      XML_HEADER,
+      `<styleSheet xmlns="${SPREADSHEET_NS}">`,
+      formats,
+      `<fonts count="${this.fonts.length}">${this.fonts.join('')}</fonts>`,
+      `<fills count="${this.fills.length}">${this.fills.join('')}</fills>`,
+      `<borders count="${this.borders.length}">${this.borders.join('')}</borders>`,
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>',
+      `<cellXfs count="${this.cellFormats.length}">${this.cellFormats.join('')}</cellXfs>`,
+      '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>',
+      '</styleSheet>'
+    ].join('');
+  }
+
+  private writeWorkbook(): string {
+    const sheets = this.sheets
+      .map((sheet, index) => `<sheet name="${escapeXML(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`)
+      .join('');
+    return `${XML_HEADER}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}"><bookViews><workbookView/></bookViews><sheets>${sheets}</sheets><calcPr calcId="191029" fullCalcOnLoad="1"/></workbook>`;
+  }
+
+  private writeWorkbookRelationships(): string {
+    const worksheetType = `${RELATIONSHIP_NS}/worksheet`;
+    const relationships = this.sheets.map((_, index) =>
+      `<Relationship Id="rId${index + 1}" Type="${worksheetType}" Target="worksheets/sheet${index + 1}.xml"/>`
+    );
+    relationships.push(`<Relationship Id="rId${this.sheets.length + 1}" Type="${RELATIONSHIP_NS}/styles" Target="styles.xml"/>`);
+    return `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">${relationships.join('')}</Relationships>`;
+  }
+
+  private writeRootRelationships(): string {
+    return `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}"><Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+  }
+
+  private writeContentTypes(): string {
+    const worksheets = this.sheets.map((_, index) =>
+      `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    ).join('');
+    return [
+      XML_HEADER,
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+      '<Default Extension="xml" ContentType="application/xml"/>',
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>',
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>',
+      worksheets,
+      '</Types>'
+    ].join('');
+  }
+
+  /**
+   * ZIP archive with stored (uncompressed) entries
+   */
+  private writeZip(entries: ZipEntry[]): Uint8Array {
+    const encoder = new TextEncoder();
+    const now = new Date();
+    const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+    const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    entries.forEach(entry => {
+      const name = encoder.encode(entry.path);
+      const crc = crc32(entry.data);
+
+      const local = new DataView(new ArrayBuffer(30));
+      local.setUint32(0, 0x04034b50, true);
+      local.setUint16(4, 20, true); // version needed
+      local.setUint16(6, 0x0800, true); // UTF-8 names
+      local.setUint16(8, 0, true); // stored
+      local.setUint16(10, dosTime, true);
+      local.setUint16(12, dosDate, true);
+      local.setUint32(14, crc, true);
+      local.setUint32(18, entry.data.length, true);
+      local.setUint32(22, entry.data.length, true);
+      local.setUint16(26, name.length, true);
+      local.setUint16(28, 0, true);
+
+      const central = new DataView(new ArrayBuffer(46));
+      central.setUint32(0, 0x02014b50, true);
+      central.setUint16(4, 20, true); // version made by
+      central.setUint16(6, 20, true);
+      central.setUint16(8, 0x0800, true);
+      central.setUint16(10, 0, true);
+      central.setUint16(12, dosTime, true);
+      central.setUint16(14, dosDate, true);
+      central.setUint32(16, crc, true);
+      central.setUint32(20, entry.data.length, true);
+      central.setUint32(24, entry.data.length, true);
+      central.setUint16(28, name.length, true);
+      central.setUint32(42, offset, true);
+
+      localParts.push(new Uint8Array(local.buffer), name, entry.data);
+      centralParts.push(new Uint8Array(central.buffer), name);
+      offset += 30 + name.length + entry.data.length;
+    });
+
+    const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+    const output = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+    let position = 0;
+    parts.forEach(part => {
+      output.set(part, position);
+      position += part.length;
+    });
+    return output;
+  }
+}
+
+export default XLSXWriter;
@@ -0,0 +1,10 @@
+import type { Server } from 'http';
+import type { WebSocketServer } from 'ws';
+
+export interface SyncServer {
+  wss: WebSocketServer;
+  rooms: Map<string, unknown>;
+  close(): Promise<void>;
+}
+
+export function createSyncServer(options?: { server?: Server; path?: string; maxPayload?: number }): SyncServer;
@@ -0,0 +1,229 @@
+// WebSocket sync server for collaborative SLD editing
+//
+// Rooms are keyed by collaboration session id. The server relays SLD changes
+// between participants and keeps each room's change log so late joiners can
+// replay it; merging is done by the clients (see sldCollaborationService.ts),
+// which converge because every change carries a Lamport version.
+//
+// The host's join sets the room token; later joins must present the same
+// token, which the host shares with the session id in the invite.
+import { createServer } from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import { fileURLToPath } from 'url';
+import { WebSocketServer, WebSocket } from 'ws';
+
+const SYNC_PORT = process.env.SYNC_PORT || 3002;
+const SYNC_HOST = process.env.SYNC_HOST || '127.0.0.1';
+const SYNC_PATH = '/sld-sync';
+const MAX_PAYLOAD_BYTES = 5 * 1024 * 1024; // a join carries the diagram snapshot and full change log
+const MAX_ROOM_CHANGES = 10000;
+
+const send = (socket, message) => {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+const getParticipants = (room) => {
+  const participants = new Map();
+  room.clients.forEach(user => participants.set(user.id, user));
+  return Array.from(participants.values());
+};
+
+const broadcast = (room, message, except) => {
+  room.clients.forEach((_user, socket) => {
+    if (socket !== except) send(socket, message);
+  });
+};
+
+const hashToken = (token) => createHash('sha256').update(token).digest();
+
+const tokenMatches = (room, token) => typeof token === 'string' && timingSafeEqual(room.tokenHash, hashToken(token));
+
+/**
+ * Append changes the room has not seen yet and return them. Once the log is
+ * full further changes are refused, since clients replay the whole log on join.
+ */
+const recordChanges = (room, changes, accept = () => true) => {
+  const recorded = [];
+  let overflow = false;
+  for (const change of Array.isArray(changes) ? changes : []) {
+    if (!change || typeof change.id !== 'string' || room.changeIds.has(change.id) || !accept(change)) continue;
+    if (room.changes.length >= MAX_ROOM_CHANGES) {
+      overflow = true;
+      break;
+    }
+    room.changeIds.add(change.id);
+    room.changes.push(change);
+    recorded.push(change);
+  }
+  return { recorded, overflow };
+};
+
+const changeLogFull = { type: 'error', message: `Session change log is full (${MAX_ROOM_CHANGES} changes); start a new session from the current diagram` };
+
+/**
+ * Attach the SLD sync protocol to an HTTP server
+ */
+export function createSyncServer({ server, path = SYNC_PATH, maxPayload = MAX_PAYLOAD_BYTES } = {}) {
+  const wss = new WebSocketServer({ server, path, maxPayload });
+  const rooms = new Map();
+
+  const handleJoin = (socket, message) => {
+    const { sessionId, diagramId, user, token } = message;
+    if (!sessionId || !user?.id || typeof token !== 'string' || !token) {
+      send(socket, { type: 'error', message: 'sessionId, token and user are required to join' });
+      return null;
+    }
+
+    let room = rooms.get(sessionId);
+    if (!room) {
+      room = {
+        id: sessionId,
+        diagramId,
+        tokenHash: hashToken(token),
+        snapshot: null,
+        changes: [],
+        changeIds: new Set(),
+        clients: new Map(),
+        presence: new Map()
+      };
+      rooms.set(sessionId, room);
+    } else if (!tokenMatches(room, token)) {
+      send(socket, { type: 'error', message: 'Invalid session token' });
+      return null;
+    }
+    if (!room.snapshot && message.snapshot) {
+      room.snapshot = message.snapshot;
+    }
+
+    const isNewParticipant = !getParticipants(room).some(participant => participant.id === user.id);
+    room.clients.set(socket, { ...user, isOnline: true });
+    const { recorded, overflow } = recordChanges(room, message.changes);
+    if (overflow) send(socket, changeLogFull);
+
+    send(socket, {
+      type: 'welcome',
+      sessionId,
+      diagramId: room.diagramId,
+      snapshot: room.snapshot,
+      changes: room.changes,
+      participants: getParticipants(room),
+      presence: Array.from(room.presence.values())
+    });
+
+    if (isNewParticipant) {
+      broadcast(room, { type: 'participant_joined', user: room.clients.get(socket) }, socket);
+    }
+    if (recorded.length > 0) {
+      broadcast(room, { type: 'changes', changes: recorded }, socket);
+    }
+    return room;
+  };
+
+  const handleLeave = (socket, room) => {
+    const user = room.clients.get(socket);
+    if (!user) return;
+
+    room.clients.delete(socket);
+    if (!getParticipants(room).some(participant => participant.id === user.id)) {
+      room.presence.delete(user.id);
+      broadcast(room, { type: 'participant_left', userId: user.id });
+    }
+    // Clients resend their change log on join, so an empty room can go
+    if (room.clients.size === 0) {
+      rooms.delete(room.id);
+    }
+  };
+
+  wss.on('connection', (socket) => {
+    let room = null;
+
+    socket.on('message', (raw) => {
+      let message;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        send(socket, { type: 'error', message: 'Invalid sync message' });
+        return;
+      }
+
+      if (message.type === 'join') {
+        if (room) handleLeave(socket, room);
+        room = handleJoin(socket, message);
+        return;
+      }
+      if (!room) {
+        send(socket, { type: 'error', message: 'Join a session before syncing' });
+        return;
+      }
+
+      switch (message.type) {
+        case 'changes': {
+          // A socket only publishes its own user's edits; others arrive through their own sockets
+          const { id: userId } = room.clients.get(socket);
+          const { recorded, overflow } = recordChanges(room, message.changes, change => change.userId === userId);
+          if (overflow) send(socket, changeLogFull);
+          if (recorded.length > 0) {
+            broadcast(room, { type: 'changes', changes: recorded }, socket);
+          }
+          break;
+        }
+        case 'presence': {
+          const user = room.clients.get(socket);
+          const presence = {
+            userId: user.id,
+            name: user.name,
+            color: user.color,
+            position: message.position,
+            selection: Array.isArray(message.selection) ? message.selection : [],
+            updatedAt: new Date().toISOString()
+          };
+          room.presence.set(user.id, presence);
+          broadcast(room, { type: 'presence', presence }, socket);
+          break;
+        }
+        case 'leave':
+          handleLeave(socket, room);
+          room = null;
+          break;
+        default:
+          send(socket, { type: 'error', message: `Unknown sync message type: ${message.type}` });
+      }
+    });
+
+    socket.on('close', () => {
+      if (room) handleLeave(socket, room);
+      room = null;
+    });
+  });
+
+  return {
+    wss,
+    rooms,
+    close: () => new Promise(resolve => {
+      wss.clients.forEach(socket => socket.terminate());
+      wss.close(() => resolve());
+    })
+  };
+}
+
+// Start a standalone sync server when run directly
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const server = createServer((req, res) => {
+    if (req.url === '/health') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', timestamp: new Date().toISOString() }));
+      return;
+    }
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Not found' }));
+  });
+
+  createSyncServer({ server });
+  // Set SYNC_HOST=0.0.0.0 to accept connections from other machines
+  server.listen(SYNC_PORT, SYNC_HOST, () => {
+    console.log(`🔄 SLD sync server running on ${SYNC_HOST}:${SYNC_PORT}`);
+    console.log(`📍 WebSocket endpoint: ws://${SYNC_HOST}:${SYNC_PORT}${SYNC_PATH}`);
+  });
+}